@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authorize } from "@/lib/auth/session"
+import { loadAccessRules, saveAccessRules } from "@/lib/config-storage"
+import { parseAccessRuleInput, validateAccessRule, AccessRuleInput } from "@/lib/providers/access-control"
+
+/**
+ * PUT /api/access-rules/[id]
+ *
+ * Replace an access rule
+ * Body: as for POST /api/access-rules
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("admin")
+    if (auth.response) return auth.response
+
+    const { id } = await params
+    const body = await request.json()
+    const rules = await loadAccessRules()
+
+    const index = rules.findIndex((rule) => rule.id === id)
+    if (index === -1) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Access rule not found",
+        },
+        { status: 404 }
+      )
+    }
+
+    let ruleData: AccessRuleInput
+    let validationError: string | null
+    try {
+      ruleData = parseAccessRuleInput(body)
+      validationError = validateAccessRule(rules, ruleData, id)
+    } catch (error) {
+      validationError = error instanceof Error ? error.message : "Invalid access rule"
+    }
+
+    if (validationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid access rule",
+          message: validationError,
+        },
+        { status: 400 }
+      )
+    }
+
+    const rule = { id, ...ruleData! }
+    await saveAccessRules(rules.map((entry, i) => (i === index ? rule : entry)))
+
+    return NextResponse.json({
+      success: true,
+      data: rule,
+    })
+  } catch (error) {
+    console.error("Error updating access rule:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to update access rule",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/access-rules/[id]
+ *
+ * Delete an access rule
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("admin")
+    if (auth.response) return auth.response
+
+    const { id } = await params
+    const rules = await loadAccessRules()
+    const remaining = rules.filter((rule) => rule.id !== id)
+
+    if (remaining.length === rules.length) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Access rule not found",
+        },
+        { status: 404 }
+      )
+    }
+
+    await saveAccessRules(remaining)
+
+    return NextResponse.json({
+      success: true,
+      message: "Access rule deleted successfully",
+    })
+  } catch (error) {
+    console.error("Error deleting access rule:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to delete access rule",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authorize } from "@/lib/auth/session"
+import { loadAccessRules, saveAccessRules } from "@/lib/config-storage"
+import { parseAccessRuleInput, validateAccessRule, AccessRule, AccessRuleInput } from "@/lib/providers/access-control"
+
+/**
+ * GET /api/access-rules
+ *
+ * List the access rules of the project
+ */
+export async function GET() {
+  try {
+    const auth = await authorize("admin")
+    if (auth.response) return auth.response
+
+    const rules = await loadAccessRules()
+
+    return NextResponse.json({
+      success: true,
+      data: rules,
+      total: rules.length,
+    })
+  } catch (error) {
+    console.error("Error fetching access rules:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch access rules",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/access-rules
+ *
+ * Add an access rule to the project
+ * Body: { name, roles?, users?, rowFilter?: { statusId?, group?, owner? }, hiddenFields? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize("admin")
+    if (auth.response) return auth.response
+
+    const body = await request.json()
+    const rules = await loadAccessRules()
+
+    let ruleData: AccessRuleInput
+    let validationError: string | null
+    try {
+      ruleData = parseAccessRuleInput(body)
+      validationError = validateAccessRule(rules, ruleData)
+    } catch (error) {
+      validationError = error instanceof Error ? error.message : "Invalid access rule"
+    }
+
+    if (validationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid access rule",
+          message: validationError,
+        },
+        { status: 400 }
+      )
+    }
+
+    const rule: AccessRule = {
+      id: `rule_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      ...ruleData!,
+    }
+    await saveAccessRules([...rules, rule])
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: rule,
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error("Error creating access rule:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to create access rule",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authorize } from "@/lib/auth/session"
+import { getDataProviderAsync } from "@/lib/providers/provider-factory"
+import { isTaskAccessDenied } from "@/lib/providers/access-control"
+import { parseAllocationDate, validateAllocation } from "@/lib/providers/resources"
+import { UpdateAllocationDTO } from "@/types/task"
+
+/**
+ * PATCH /api/allocations/[id]
+ *
+ * Update the percentage or date range of an allocation
+ * Body: { allocation?, startDate?, endDate? }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("editor")
+    if (auth.response) return auth.response
+
+    const { id } = await params
+    const body = await request.json()
+
+    const updateData: UpdateAllocationDTO = {}
+    try {
+      if (body.allocation !== undefined) updateData.allocation = Number(body.allocation)
+      if (body.startDate !== undefined) updateData.startDate = parseAllocationDate(body.startDate, "startDate")
+      if (body.endDate !== undefined) updateData.endDate = parseAllocationDate(body.endDate, "endDate")
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid allocation",
+          message: error instanceof Error ? error.message : "Invalid allocation",
+        },
+        { status: 400 }
+      )
+    }
+
+    const provider = await getDataProviderAsync()
+    const allocations = await provider.getAllocations()
+    const existing = allocations.find((allocation) => allocation.id === id)
+
+    if (!existing) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Allocation not found",
+        },
+        { status: 404 }
+      )
+    }
+
+    const validationError = validateAllocation(allocations, { ...existing, ...updateData }, id)
+    if (validationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid allocation",
+          message: validationError,
+        },
+        { status: 400 }
+      )
+    }
+
+    const allocation = await provider.updateAllocation(id, updateData)
+
+    return NextResponse.json({
+      success: true,
+      data: allocation,
+    })
+  } catch (error) {
+    if (isTaskAccessDenied(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Forbidden",
+          message: error.message,
+        },
+        { status: 403 }
+      )
+    }
+
+    console.error("Error updating allocation:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to update allocation",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/allocations/[id]
+ *
+ * Unassign a resource from a task
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("editor")
+    if (auth.response) return auth.response
+
+    const { id } = await params
+    const provider = await getDataProviderAsync()
+    await provider.deleteAllocation(id)
+
+    return NextResponse.json({
+      success: true,
+      message: "Allocation deleted successfully",
+    })
+  } catch (error) {
+    if (isTaskAccessDenied(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Forbidden",
+          message: error.message,
+        },
+        { status: 403 }
+      )
+    }
+
+    console.error("Error deleting allocation:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to delete allocation",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
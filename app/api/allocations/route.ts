@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authorize } from "@/lib/auth/session"
+import { getDataProviderAsync } from "@/lib/providers/provider-factory"
+import { isTaskAccessDenied } from "@/lib/providers/access-control"
+import { parseAllocationDate, validateAllocation } from "@/lib/providers/resources"
+import { CreateAllocationDTO } from "@/types/task"
+
+/**
+ * GET /api/allocations
+ *
+ * List resource allocations
+ * Query params:
+ *   - taskId: Only return allocations of the task
+ *   - resourceId: Only return allocations of the resource
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize("viewer")
+    if (auth.response) return auth.response
+
+    const searchParams = request.nextUrl.searchParams
+    const provider = await getDataProviderAsync()
+    const allocations = await provider.getAllocations({
+      taskId: searchParams.get("taskId") || undefined,
+      resourceId: searchParams.get("resourceId") || undefined,
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: allocations,
+      total: allocations.length,
+    })
+  } catch (error) {
+    console.error("Error fetching allocations:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch allocations",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/allocations
+ *
+ * Assign a resource to a task
+ * Body: { taskId, resourceId, allocation?, startDate?, endDate? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize("editor")
+    if (auth.response) return auth.response
+
+    const body = await request.json()
+
+    if (!body.taskId || !body.resourceId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Missing required fields: taskId, resourceId",
+        },
+        { status: 400 }
+      )
+    }
+
+    let allocationData: CreateAllocationDTO
+    try {
+      allocationData = {
+        taskId: String(body.taskId),
+        resourceId: String(body.resourceId),
+        allocation: body.allocation !== undefined ? Number(body.allocation) : undefined,
+        startDate: parseAllocationDate(body.startDate, "startDate"),
+        endDate: parseAllocationDate(body.endDate, "endDate"),
+      }
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid allocation",
+          message: error instanceof Error ? error.message : "Invalid allocation",
+        },
+        { status: 400 }
+      )
+    }
+
+    const provider = await getDataProviderAsync()
+
+    if (!(await provider.getTaskById(allocationData.taskId))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Task not found",
+        },
+        { status: 404 }
+      )
+    }
+    if (!(await provider.getResourceById(allocationData.resourceId))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Resource not found",
+        },
+        { status: 404 }
+      )
+    }
+
+    const validationError = validateAllocation(
+      await provider.getAllocations({ taskId: allocationData.taskId }),
+      allocationData
+    )
+    if (validationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid allocation",
+          message: validationError,
+        },
+        { status: 400 }
+      )
+    }
+
+    const allocation = await provider.createAllocation(allocationData)
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: allocation,
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (isTaskAccessDenied(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Forbidden",
+          message: error.message,
+        },
+        { status: 403 }
+      )
+    }
+
+    console.error("Error creating allocation:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to create allocation",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * @file app/api/auth/login/route.ts
+ * @description API route for signing in with a local username and password
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateLocalUser, toSessionUser } from '@/lib/auth/local-users'
+import { getAuthProviders, setSessionCookie } from '@/lib/auth/session'
+
+/**
+ * POST /api/auth/login
+ * Check the credentials and start a session (an httpOnly cookie)
+ *
+ * Request body: { username: string, password: string }
+ * Response: { success: true, data: SessionUser }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!getAuthProviders().includes('local')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Local sign-in is not enabled',
+          message: 'Add "local" to AUTH_PROVIDERS to sign in with a username and password',
+        },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    if (typeof body.username !== 'string' || typeof body.password !== 'string') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid credentials',
+          message: 'Username and password are required',
+        },
+        { status: 400 }
+      )
+    }
+
+    const user = await authenticateLocalUser(body.username.trim(), body.password)
+    if (!user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid credentials',
+          message: 'Wrong username or password',
+        },
+        { status: 401 }
+      )
+    }
+
+    const sessionUser = toSessionUser(user)
+    const response = NextResponse.json({
+      success: true,
+      data: sessionUser,
+    })
+    setSessionCookie(response, sessionUser)
+    return response
+  } catch (error) {
+    console.error('Login error:', error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to sign in',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    )
+  }
+}
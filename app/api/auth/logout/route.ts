@@ -0,0 +1,20 @@
+/**
+ * @file app/api/auth/logout/route.ts
+ * @description API route for signing out
+ */
+
+import { NextResponse } from 'next/server'
+import { clearSessionCookie } from '@/lib/auth/session'
+
+/**
+ * POST /api/auth/logout
+ * End the session
+ */
+export async function POST() {
+  const response = NextResponse.json({
+    success: true,
+    message: 'Signed out',
+  })
+  clearSessionCookie(response)
+  return response
+}
@@ -0,0 +1,38 @@
+/**
+ * @file app/api/auth/oidc/callback/route.ts
+ * @description API route the identity provider returns to after signing in
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { completeAuthorization, OIDC_STATE_COOKIE } from '@/lib/auth/oidc'
+import { setSessionCookie } from '@/lib/auth/session'
+
+/**
+ * GET /api/auth/oidc/callback?code=...&state=...
+ * Start a session and go back to the page the sign-in began on
+ *
+ * Failures go to the sign-in page with an error message.
+ */
+export async function GET(request: NextRequest) {
+  let response: NextResponse
+
+  try {
+    const { user, returnTo } = await completeAuthorization(
+      request.nextUrl.origin,
+      request.nextUrl.searchParams,
+      request.cookies.get(OIDC_STATE_COOKIE)?.value
+    )
+
+    response = NextResponse.redirect(new URL(returnTo, request.nextUrl.origin))
+    setSessionCookie(response, user)
+  } catch (error) {
+    console.error('OIDC callback error:', error)
+
+    const loginUrl = new URL('/login', request.nextUrl.origin)
+    loginUrl.searchParams.set('error', error instanceof Error ? error.message : 'Sign-in failed')
+    response = NextResponse.redirect(loginUrl)
+  }
+
+  response.cookies.set(OIDC_STATE_COOKIE, '', { path: '/api/auth/oidc', maxAge: 0 })
+  return response
+}
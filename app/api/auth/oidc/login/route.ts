@@ -0,0 +1,53 @@
+/**
+ * @file app/api/auth/oidc/login/route.ts
+ * @description API route for starting an OpenID Connect sign-in
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createAuthorizationRequest, OIDC_STATE_COOKIE, OIDC_STATE_MAX_AGE } from '@/lib/auth/oidc'
+import { getAuthProviders } from '@/lib/auth/session'
+
+/**
+ * GET /api/auth/oidc/login?returnTo=/gantt
+ * Redirect to the identity provider; it returns to /api/auth/oidc/callback
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!getAuthProviders().includes('oidc')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'OpenID Connect sign-in is not enabled',
+          message: 'Add "oidc" to AUTH_PROVIDERS to sign in with an identity provider',
+        },
+        { status: 400 }
+      )
+    }
+
+    const { url, stateCookie } = await createAuthorizationRequest(
+      request.nextUrl.origin,
+      request.nextUrl.searchParams.get('returnTo') || '/gantt'
+    )
+
+    const response = NextResponse.redirect(url)
+    response.cookies.set(OIDC_STATE_COOKIE, stateCookie, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/api/auth/oidc',
+      maxAge: OIDC_STATE_MAX_AGE,
+    })
+    return response
+  } catch (error) {
+    console.error('OIDC login error:', error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to start sign-in',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    )
+  }
+}
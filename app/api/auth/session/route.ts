@@ -0,0 +1,46 @@
+/**
+ * @file app/api/auth/session/route.ts
+ * @description API route for the signed-in user
+ */
+
+import { NextResponse } from 'next/server'
+import { getAuthStatus, getSessionUser } from '@/lib/auth/session'
+
+/**
+ * GET /api/auth/session
+ * Whether authentication is on, how to sign in, and who is signed in
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   data: {
+ *     enabled: boolean,
+ *     providers: ("local" | "oidc")[],
+ *     user: SessionUser | null
+ *   }
+ * }
+ */
+export async function GET() {
+  try {
+    const status = getAuthStatus()
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...status,
+        user: status.enabled ? await getSessionUser() : null,
+      },
+    })
+  } catch (error) {
+    console.error('Session load error:', error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load session',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * @file app/api/auth/users/[username]/route.ts
+ * @description API route for updating and deleting a local user
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  hashPassword,
+  parseLocalUserInput,
+  toPublicUser,
+  validateLocalUser,
+  LocalUser,
+  LocalUserInput,
+} from '@/lib/auth/local-users'
+import { authorize } from '@/lib/auth/session'
+import { loadUsers, saveUsers } from '@/lib/config-storage'
+
+function findIndex(users: LocalUser[], username: string): number {
+  return users.findIndex((user) => user.username.toLowerCase() === username.toLowerCase())
+}
+
+function lastAdminResponse() {
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Last admin',
+      message: 'At least one local user must keep the admin role',
+    },
+    { status: 409 }
+  )
+}
+
+/**
+ * PUT /api/auth/users/[username]
+ * Change a user's name, email, role or password
+ *
+ * Request body: { name?, email?, role?, password? }; the password is kept when left out.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ username: string }> }
+) {
+  try {
+    const auth = await authorize('admin')
+    if (auth.response) return auth.response
+
+    const { username } = await params
+    const body = await request.json()
+    const users = await loadUsers()
+
+    const index = findIndex(users, username)
+    if (index === -1) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'User not found',
+        },
+        { status: 404 }
+      )
+    }
+    const existing = users[index]
+
+    let userData: LocalUserInput
+    let validationError: string | null
+    try {
+      userData = parseLocalUserInput({ ...body, username: existing.username })
+      validationError = validateLocalUser(users, userData, false)
+    } catch (error) {
+      validationError = error instanceof Error ? error.message : 'Invalid user'
+    }
+
+    if (validationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid user',
+          message: validationError,
+        },
+        { status: 400 }
+      )
+    }
+
+    const user: LocalUser = {
+      ...existing,
+      name: userData!.name || existing.name,
+      email: userData!.email,
+      role: userData!.role || existing.role,
+      passwordHash: userData!.password ? hashPassword(userData!.password) : existing.passwordHash,
+      updatedAt: new Date().toISOString(),
+    }
+    const updated = users.map((entry, i) => (i === index ? user : entry))
+    if (!updated.some((entry) => entry.role === 'admin')) {
+      return lastAdminResponse()
+    }
+    await saveUsers(updated)
+
+    return NextResponse.json({
+      success: true,
+      data: toPublicUser(user),
+      message: `User "${user.username}" saved`,
+    })
+  } catch (error) {
+    console.error('User update error:', error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update user',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/auth/users/[username]
+ * Delete a user; their sessions end with their next request
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ username: string }> }
+) {
+  try {
+    const auth = await authorize('admin')
+    if (auth.response) return auth.response
+
+    const { username } = await params
+    const users = await loadUsers()
+
+    const index = findIndex(users, username)
+    if (index === -1) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'User not found',
+        },
+        { status: 404 }
+      )
+    }
+
+    const remaining = users.filter((_, i) => i !== index)
+    if (!remaining.some((entry) => entry.role === 'admin')) {
+      return lastAdminResponse()
+    }
+    await saveUsers(remaining)
+
+    return NextResponse.json({
+      success: true,
+      message: 'User deleted',
+    })
+  } catch (error) {
+    console.error('User delete error:', error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to delete user',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    )
+  }
+}
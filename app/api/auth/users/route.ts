@@ -0,0 +1,120 @@
+/**
+ * @file app/api/auth/users/route.ts
+ * @description API route for listing and creating local users
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  hashPassword,
+  parseLocalUserInput,
+  toPublicUser,
+  validateLocalUser,
+  LocalUser,
+  LocalUserInput,
+} from '@/lib/auth/local-users'
+import { authorize } from '@/lib/auth/session'
+import { loadUsers, saveUsers } from '@/lib/config-storage'
+
+/**
+ * GET /api/auth/users
+ * List the local users (password hashes are never returned)
+ */
+export async function GET() {
+  try {
+    const auth = await authorize('admin')
+    if (auth.response) return auth.response
+
+    const users = await loadUsers()
+
+    return NextResponse.json({
+      success: true,
+      data: users.map(toPublicUser),
+    })
+  } catch (error) {
+    console.error('Users load error:', error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load users',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/auth/users
+ * Create a local user
+ *
+ * Request body:
+ * {
+ *   username: string,
+ *   password: string,
+ *   name?: string,
+ *   email?: string,
+ *   role?: "viewer" | "editor" | "admin"  (default "viewer")
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize('admin')
+    if (auth.response) return auth.response
+
+    const body = await request.json()
+    const users = await loadUsers()
+
+    let userData: LocalUserInput
+    let validationError: string | null
+    try {
+      userData = parseLocalUserInput(body)
+      validationError = validateLocalUser(users, userData, true)
+    } catch (error) {
+      validationError = error instanceof Error ? error.message : 'Invalid user'
+    }
+
+    if (validationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid user',
+          message: validationError,
+        },
+        { status: 400 }
+      )
+    }
+
+    const now = new Date().toISOString()
+    const user: LocalUser = {
+      username: userData!.username,
+      name: userData!.name || userData!.username,
+      email: userData!.email,
+      role: userData!.role || 'viewer',
+      passwordHash: hashPassword(userData!.password!),
+      createdAt: now,
+      updatedAt: now,
+    }
+    await saveUsers([...users, user])
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: toPublicUser(user),
+        message: `User "${user.username}" created`,
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('User create error:', error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to create user',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authorize } from "@/lib/auth/session"
+import { getDataProviderAsync } from "@/lib/providers/provider-factory"
+import { restrictBaselines } from "@/lib/providers/access-control"
+import { loadBaselines, saveBaselines } from "@/lib/config-storage"
+
+/**
+ * GET /api/baselines/[id]
+ *
+ * Get a single baseline with its task snapshots
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("viewer")
+    if (auth.response) return auth.response
+
+    const { id } = await params
+    const baseline = (await loadBaselines()).find((entry) => entry.id === id)
+
+    if (!baseline) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Baseline not found",
+        },
+        { status: 404 }
+      )
+    }
+
+    const provider = await getDataProviderAsync()
+    const [visible] = await restrictBaselines(provider, [baseline])
+
+    return NextResponse.json({
+      success: true,
+      data: visible,
+    })
+  } catch (error) {
+    console.error("Error fetching baseline:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch baseline",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/baselines/[id]
+ *
+ * Delete a baseline
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("editor")
+    if (auth.response) return auth.response
+
+    const { id } = await params
+    const baselines = await loadBaselines()
+    const remaining = baselines.filter((entry) => entry.id !== id)
+
+    if (remaining.length === baselines.length) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Baseline not found",
+        },
+        { status: 404 }
+      )
+    }
+
+    await saveBaselines(remaining)
+
+    return NextResponse.json({
+      success: true,
+      message: "Baseline deleted successfully",
+    })
+  } catch (error) {
+    console.error("Error deleting baseline:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to delete baseline",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authorize } from "@/lib/auth/session"
+import { getDataProviderAsync } from "@/lib/providers/provider-factory"
+import { restrictBaselines } from "@/lib/providers/access-control"
+import { loadBaselines, saveBaselines } from "@/lib/config-storage"
+import { createBaseline } from "@/lib/utils/baselines"
+import { Task } from "@/types/task"
+
+/**
+ * GET /api/baselines
+ *
+ * List saved baselines, newest first
+ * Snapshots of tasks hidden from the user by the access rules are left out.
+ */
+export async function GET() {
+  try {
+    const auth = await authorize("viewer")
+    if (auth.response) return auth.response
+
+    const provider = await getDataProviderAsync()
+    const baselines = await restrictBaselines(provider, await loadBaselines())
+    baselines.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+
+    return NextResponse.json({
+      success: true,
+      data: baselines,
+      total: baselines.length,
+    })
+  } catch (error) {
+    console.error("Error fetching baselines:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch baselines",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/baselines
+ *
+ * Freeze the current plan as a named baseline
+ * Body: { name, tasks? }
+ *   - tasks: Tasks to capture; defaults to every task from the active provider
+ *     (client mode sends its own tasks since the server can't reach them)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize("editor")
+    if (auth.response) return auth.response
+
+    const body = await request.json()
+
+    if (!body.name || typeof body.name !== "string" || !body.name.trim()) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Missing required field: name",
+        },
+        { status: 400 }
+      )
+    }
+
+    let tasks: Task[]
+    if (Array.isArray(body.tasks)) {
+      tasks = body.tasks
+    } else {
+      const provider = await getDataProviderAsync()
+      tasks = await provider.getAllTasks()
+    }
+
+    if (tasks.some((task) => !task.id || !task.startAt || !task.endAt)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Every task needs id, startAt and endAt",
+        },
+        { status: 400 }
+      )
+    }
+
+    const baseline = createBaseline(body.name.trim(), tasks)
+    const baselines = await loadBaselines()
+    await saveBaselines([...baselines, baseline])
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: baseline,
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error("Error creating baseline:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to create baseline",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
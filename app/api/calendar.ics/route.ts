@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authorize } from "@/lib/auth/session"
+import { getDataProviderAsync } from "@/lib/providers/provider-factory"
+import { filterTasks, parseTaskQuery } from "@/lib/providers/task-query"
+import { renderTaskCalendar } from "@/lib/utils/ical"
+import type { TaskQueryParams } from "@/types/task"
+
+/**
+ * GET /api/calendar.ics
+ *
+ * iCalendar feed of tasks as all-day events, for subscribing from calendar clients
+ * Query params:
+ *   - milestones: If "true", only milestones
+ *   - owner, group, statusId, tags, priority, resourceId, search: Task filters
+ *   - startDate, endDate: Only tasks within this range (ISO dates)
+ *   - name: Calendar name shown by the client (default "Gantt Tasks")
+ * Events keep their UID across updates, so clients replace them instead of adding copies.
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authorize("viewer")
+  if (auth.response) return auth.response
+
+  const searchParams = request.nextUrl.searchParams
+
+  let query: TaskQueryParams
+  try {
+    query = parseTaskQuery(searchParams)
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Invalid calendar query",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const provider = await getDataProviderAsync()
+    const allocations = query.resourceId ? await provider.getAllocations({ resourceId: query.resourceId }) : undefined
+    let tasks = filterTasks(await provider.getAllTasks(), query, allocations)
+    if (searchParams.get("milestones") === "true") {
+      tasks = tasks.filter((task) => task.isMilestone)
+    }
+
+    const calendar = renderTaskCalendar(tasks, {
+      name: searchParams.get("name")?.trim() || "Gantt Tasks",
+      domain: request.nextUrl.hostname,
+    })
+
+    return new NextResponse(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="tasks.ics"',
+        "Cache-Control": "no-cache",
+      },
+    })
+  } catch (error) {
+    console.error("Error rendering task calendar:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to render task calendar",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authorize } from "@/lib/auth/session"
+import { getDataProviderAsync } from "@/lib/providers/provider-factory"
+import { normalizeWorkCalendar } from "@/lib/utils/work-calendar"
+import { WorkCalendar } from "@/types/task"
+
+/**
+ * GET /api/calendar
+ *
+ * Get the working calendar (working weekdays, holidays, resource exceptions)
+ */
+export async function GET() {
+  try {
+    const auth = await authorize("viewer")
+    if (auth.response) return auth.response
+
+    const provider = await getDataProviderAsync()
+    const calendar = await provider.getWorkCalendar()
+
+    return NextResponse.json({
+      success: true,
+      data: calendar,
+    })
+  } catch (error) {
+    console.error("Error fetching work calendar:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch work calendar",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/calendar
+ *
+ * Replace the working calendar
+ * Body: { name?, workingDays?, holidays?, resourceExceptions? }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await authorize("editor")
+    if (auth.response) return auth.response
+
+    const body = await request.json()
+
+    let calendar: WorkCalendar
+    try {
+      calendar = normalizeWorkCalendar(body)
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid work calendar",
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 400 }
+      )
+    }
+
+    const provider = await getDataProviderAsync()
+    const saved = await provider.saveWorkCalendar(calendar)
+
+    return NextResponse.json({
+      success: true,
+      data: saved,
+    })
+  } catch (error) {
+    console.error("Error saving work calendar:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to save work calendar",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -4,6 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth/session'
 import { saveFieldMapping, loadFieldMapping } from '@/lib/config-storage'
 import { BaserowFieldMapping } from '@/lib/providers/baserow/field-mapping'
 import { validateFieldMapping } from '@/lib/providers/baserow/field-detector'
@@ -14,6 +15,9 @@ import { validateFieldMapping } from '@/lib/providers/baserow/field-detector'
  */
 export async function GET() {
   try {
+    const auth = await authorize('admin')
+    if (auth.response) return auth.response
+
     const mapping = await loadFieldMapping()
 
     if (!mapping) {
@@ -52,6 +56,9 @@ export async function GET() {
  */
 export async function POST(request: NextRequest) {
   try {
+    const auth = await authorize('admin')
+    if (auth.response) return auth.response
+
     const body = await request.json()
     const { mapping } = body as { mapping: BaserowFieldMapping }
 
@@ -0,0 +1,206 @@
+/**
+ * @file app/api/config/migrate/route.ts
+ * @description API route for copying a project from one data provider into another
+ */
+
+import path from 'path'
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth/session'
+import {
+  createDataProviderAsync,
+  getActiveProviderConfigAsync,
+  getExcelConfig,
+  getLiveProviderConfigsAsync,
+  getUnrestrictedProviderAsync,
+} from '@/lib/providers/provider-factory'
+import type { IDataProvider, ProviderConfig } from '@/lib/providers/data-provider.interface'
+import { parseProviderConfig } from '@/lib/providers/provider-config'
+import { migrateProvider, validateMigration, MigrationState } from '@/lib/providers/migration'
+import { loadMigrationState, loadMigrationStates, saveMigrationState } from '@/lib/config-storage'
+
+interface MigrationEndpoint {
+  config: ProviderConfig
+  live: boolean // The provider the app uses, not one created for the migration
+}
+
+/**
+ * Parse the source or target of a migration request
+ * "active" is the provider the app currently uses for the request's project
+ */
+async function parseEndpoint(value: unknown, name: string): Promise<MigrationEndpoint> {
+  if (value === 'active') {
+    return { config: await getActiveProviderConfigAsync(), live: true }
+  }
+
+  if (!value || typeof value !== 'object') {
+    throw new Error(`${name} must be a provider config or "active"`)
+  }
+  const { config, error } = parseProviderConfig(value as Record<string, unknown>)
+  if (!config) {
+    throw new Error(`${name}: ${error}`)
+  }
+  return { config, live: false }
+}
+
+/**
+ * Whether a config points at an Excel file the app has open
+ * A second provider would write the file under the live one, whose next save
+ * would overwrite the migrated tasks.
+ */
+async function isLiveExcelFile(config: ProviderConfig): Promise<boolean> {
+  if (config.type !== 'excel') return false
+  const filePath = path.resolve(getExcelConfig(config).filePath)
+  return (await getLiveProviderConfigsAsync()).some(
+    (live) => live.type === 'excel' && path.resolve(getExcelConfig(live).filePath) === filePath
+  )
+}
+
+/**
+ * POST /api/config/migrate
+ * Copy statuses, resources, tasks, dependencies, allocations and the calendar
+ * from one data provider into another
+ *
+ * Request body:
+ * {
+ *   source: "active" | { type, ...provider fields as for POST /api/config/test },
+ *   target: "active" | { type, ...provider fields }, // An Excel file the app has open must be "active"
+ *   dryRun?: boolean,     // Only report what would be copied
+ *   resumeId?: string     // Continue a failed migration with the same source and target
+ * }
+ *
+ * Response:
+ * {
+ *   success: boolean,
+ *   data: MigrationReport // id is the checkpoint to resume with when the migration failed
+ * }
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authorize('admin')
+  if (auth.response) return auth.response
+
+  let sourceEndpoint: MigrationEndpoint
+  let targetEndpoint: MigrationEndpoint
+  let state: MigrationState | undefined
+  let dryRun: boolean
+
+  try {
+    const body = await request.json()
+    sourceEndpoint = await parseEndpoint(body.source, 'source')
+    targetEndpoint = await parseEndpoint(body.target, 'target')
+    dryRun = body.dryRun === true
+
+    if (!targetEndpoint.live && (await isLiveExcelFile(targetEndpoint.config))) {
+      throw new Error('The target is an Excel file the app has open; migrate into it as "active" from its project')
+    }
+
+    if (body.resumeId !== undefined && !dryRun) {
+      state = (await loadMigrationState(String(body.resumeId))) || undefined
+      if (!state) {
+        throw new Error(`Migration ${body.resumeId} not found`)
+      }
+    }
+
+    const validationError = validateMigration(sourceEndpoint.config, targetEndpoint.config, state)
+    if (validationError) {
+      throw new Error(validationError)
+    }
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid migration',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 400 }
+    )
+  }
+
+  // Providers created for the migration; the live ones stay open
+  const temporary: IDataProvider[] = []
+  const getProvider = async ({ config, live }: MigrationEndpoint) => {
+    if (live) return getUnrestrictedProviderAsync()
+    const provider = await createDataProviderAsync(config)
+    temporary.push(provider)
+    return provider
+  }
+
+  try {
+    const source = await getProvider(sourceEndpoint)
+    const target = await getProvider(targetEndpoint)
+
+    const report = await migrateProvider(source, target, {
+      sourceConfig: sourceEndpoint.config,
+      targetConfig: targetEndpoint.config,
+      dryRun,
+      state,
+      saveState: saveMigrationState,
+    })
+
+    if (report.status === 'failed') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Migration failed',
+          message: `${report.error}${report.id ? '. Resume it once the problem is fixed.' : ''}`,
+          data: report,
+        },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: dryRun ? 'Dry run complete, nothing was changed' : 'Migration complete',
+      data: report,
+    })
+  } catch (error) {
+    console.error('Migration error:', error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Migration failed',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    )
+  } finally {
+    // Release connections opened by the temporary providers
+    await Promise.all(temporary.map((provider) => provider.close?.().catch(() => undefined)))
+  }
+}
+
+/**
+ * GET /api/config/migrate
+ * List migration checkpoints, most recent first, to find one to resume
+ */
+export async function GET() {
+  try {
+    const auth = await authorize('admin')
+    if (auth.response) return auth.response
+
+    const states = await loadMigrationStates()
+
+    return NextResponse.json({
+      success: true,
+      data: states.map(({ statusIds, resourceIds, taskIds, linkedTaskIds, ...state }) => ({
+        ...state,
+        statuses: Object.keys(statusIds).length,
+        resources: Object.keys(resourceIds).length,
+        tasks: Object.keys(taskIds).length,
+        linkedTasks: linkedTaskIds.length,
+      })),
+    })
+  } catch (error) {
+    console.error('Migration list error:', error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load migrations',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    )
+  }
+}
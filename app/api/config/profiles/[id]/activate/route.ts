@@ -0,0 +1,74 @@
+/**
+ * @file app/api/config/profiles/[id]/activate/route.ts
+ * @description API route for switching the active configuration profile
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth/session'
+import { checkProviderConnection, getProfileSummary } from '@/lib/providers/provider-config'
+import { closeDataProvider } from '@/lib/providers/provider-factory'
+import { loadProfile, setActiveProfile } from '@/lib/config-storage'
+
+/**
+ * POST /api/config/profiles/[id]/activate
+ * Make a profile the active configuration
+ *
+ * The provider is initialized first, so an unreachable backend is never
+ * activated. The response carries the profile's default view, which the
+ * client applies to the Gantt chart.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('admin')
+    if (auth.response) return auth.response
+
+    const { id } = await params
+
+    const profile = await loadProfile(id)
+    if (!profile) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Profile not found',
+        },
+        { status: 404 }
+      )
+    }
+
+    if (!(await checkProviderConnection(profile.config))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Connection failed',
+          message: `Could not connect to the data source of "${profile.name}". The active profile was not changed.`,
+        },
+        { status: 503 }
+      )
+    }
+
+    await setActiveProfile(id)
+
+    // Drop the cached provider so the next request uses the new config
+    await closeDataProvider()
+
+    return NextResponse.json({
+      success: true,
+      data: getProfileSummary(profile, id),
+      message: `Switched to "${profile.name}"`,
+    })
+  } catch (error) {
+    console.error('Profile activate error:', error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to activate profile',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * @file app/api/config/profiles/[id]/route.ts
+ * @description API route for updating and deleting a configuration profile
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth/session'
+import {
+  checkProviderConnection,
+  getProfileSummary,
+  parseProfileInput,
+  withSavedSecrets,
+} from '@/lib/providers/provider-config'
+import { closeDataProvider } from '@/lib/providers/provider-factory'
+import { deleteProfile, loadProfile, loadProfiles, loadProjects, saveProfile } from '@/lib/config-storage'
+
+/**
+ * PUT /api/config/profiles/[id]
+ * Replace a profile
+ *
+ * Request body: same shape as POST /api/config/profiles. Tokens, passwords and
+ * URIs that are left empty keep their saved value. When the profile is active
+ * the new settings are checked before they are saved, and used right away.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('admin')
+    if (auth.response) return auth.response
+
+    const { id } = await params
+    const body = await request.json()
+
+    const existing = await loadProfile(id)
+    if (!existing) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Profile not found',
+        },
+        { status: 404 }
+      )
+    }
+
+    const { profile, error } = parseProfileInput(withSavedSecrets(body, existing.config))
+    if (!profile) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid profile',
+          message: error,
+        },
+        { status: 400 }
+      )
+    }
+
+    const { activeProfileId } = await loadProfiles()
+    const isActive = activeProfileId === id
+    if (isActive && !(await checkProviderConnection(profile.config))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Connection failed',
+          message: 'Could not connect to the data source. The active profile was not changed.',
+        },
+        { status: 503 }
+      )
+    }
+
+    const saved = await saveProfile(profile, id)
+
+    // Reconnect the active provider and the projects that use this profile
+    await closeDataProvider()
+
+    return NextResponse.json({
+      success: true,
+      data: getProfileSummary(saved, activeProfileId),
+      message: `Profile "${saved.name}" saved`,
+    })
+  } catch (error) {
+    console.error('Profile update error:', error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update profile',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/config/profiles/[id]
+ * Delete a profile; the active profile and profiles used by a project can't be deleted
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('admin')
+    if (auth.response) return auth.response
+
+    const { id } = await params
+    const { activeProfileId, profiles } = await loadProfiles()
+
+    if (!profiles.some((entry) => entry.id === id)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Profile not found',
+        },
+        { status: 404 }
+      )
+    }
+    if (activeProfileId === id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Profile is active',
+          message: 'The active profile cannot be deleted; activate another one first',
+        },
+        { status: 409 }
+      )
+    }
+
+    const project = (await loadProjects()).find((entry) => entry.profileId === id)
+    if (project) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Profile is in use',
+          message: `The profile is used by the project "${project.name}"`,
+        },
+        { status: 409 }
+      )
+    }
+
+    await deleteProfile(id)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Profile deleted',
+    })
+  } catch (error) {
+    console.error('Profile delete error:', error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to delete profile',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * @file app/api/config/profiles/route.ts
+ * @description API route for listing and creating configuration profiles
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth/session'
+import { getProfileSummary, parseProfileInput } from '@/lib/providers/provider-config'
+import { loadProfiles, saveProfile } from '@/lib/config-storage'
+
+/**
+ * GET /api/config/profiles
+ * List the saved configuration profiles (credentials are never returned)
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   data: ConfigProfileSummary[],
+ *   activeProfileId: string | null
+ * }
+ */
+export async function GET() {
+  try {
+    const auth = await authorize('admin')
+    if (auth.response) return auth.response
+
+    const { activeProfileId, profiles } = await loadProfiles()
+
+    return NextResponse.json({
+      success: true,
+      data: profiles.map((profile) => getProfileSummary(profile, activeProfileId)),
+      activeProfileId,
+    })
+  } catch (error) {
+    console.error('Profiles load error:', error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load profiles',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/config/profiles
+ * Save a new profile without activating it
+ *
+ * Secrets are encrypted with GANTT_CONFIG_SECRET before they are written.
+ *
+ * Request body:
+ * {
+ *   name: string,
+ *   type: "baserow" | "postgres" | "mysql" | "mongodb" | "excel" | "demo",
+ *   ...provider-specific fields as for POST /api/config/test,
+ *   fieldMapping?: BaserowFieldMapping,
+ *   defaultView?: { scale?, zoom?, showWeekends?, showDependencies?, ... }
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize('admin')
+    if (auth.response) return auth.response
+
+    const body = await request.json()
+
+    const { profile, error } = parseProfileInput(body)
+    if (!profile) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid profile',
+          message: error,
+        },
+        { status: 400 }
+      )
+    }
+
+    const saved = await saveProfile(profile)
+    const { activeProfileId } = await loadProfiles()
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: getProfileSummary(saved, activeProfileId),
+        message: `Profile "${saved.name}" saved`,
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Profile save error:', error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to save profile',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,57 +1,115 @@
 /**
  * @file app/api/config/save/route.ts
- * @description API route for saving configuration (future feature)
+ * @description API route for saving the active data provider configuration
+ *
+ * Saving stores the configuration as a named profile and activates it.
+ * See /api/config/profiles to list, switch between and delete profiles.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth/session'
+import { isProviderType, PROVIDER_TYPES } from '@/lib/providers/data-provider.interface'
+import { checkProviderConnection, parseProfileInput, parseProviderConfig, PROVIDER_LABELS } from '@/lib/providers/provider-config'
+import { closeDataProvider } from '@/lib/providers/provider-factory'
+import {
+  saveProfile,
+  setActiveProfile,
+  loadProfiles,
+  loadProviderConfig,
+  clearProviderConfig,
+} from '@/lib/config-storage'
 
 /**
  * POST /api/config/save
- * Save configuration to persistent storage
+ * Save the provider configuration as a profile and make it active
  *
- * NOTE: This is a placeholder for v1.1.0.
- * In the current implementation, configuration is stored in environment variables.
- * Future versions will support:
- *   - Database storage for configurations
- *   - Multiple configuration profiles
- *   - User-specific configurations
+ * The active profile takes precedence over DATA_PROVIDER. The provider is
+ * initialized before saving, so an unreachable backend is never activated.
+ * A profile with the same name is updated, keeping its field mapping and
+ * default view unless new ones are sent; the name defaults to the provider label (e.g. "PostgreSQL").
+ * Secrets are encrypted with GANTT_CONFIG_SECRET.
  *
- * Request body:
+ * Request body: same shape as POST /api/config/test, plus
  * {
- *   type: "baserow" | "postgres" | "demo",
- *   name?: string,             // Configuration profile name
- *   config: {
- *     // Provider-specific configuration
- *   }
+ *   type: "baserow" | "postgres" | "mysql" | "mongodb" | "excel" | "demo",
+ *   profileName?: string,
+ *   defaultView?: { scale?, zoom?, showWeekends?, ... },
+ *   ...provider-specific fields
  * }
  *
  * Response:
  * {
  *   success: true,
  *   message: "Configuration saved",
- *   configId: string
+ *   provider: string,
+ *   profile: { id: string, name: string }
  * }
  */
 export async function POST(request: NextRequest) {
   try {
-    // Parse body for future use
-    await request.json()
+    const auth = await authorize('admin')
+    if (auth.response) return auth.response
+
+    const body = await request.json()
+
+    const { config, error } = parseProviderConfig(body)
+    if (!config) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: isProviderType(body.type) ? 'Missing required fields' : 'Invalid provider type',
+          message: error,
+        },
+        { status: 400 }
+      )
+    }
+
+    // Make sure the provider can be initialized before activating it
+    if (!(await checkProviderConnection(config))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Connection failed',
+          message: 'Could not connect to the data source. Configuration was not saved.',
+        },
+        { status: 503 }
+      )
+    }
+
+    const name =
+      (typeof body.profileName === 'string' && body.profileName.trim().slice(0, 100)) || PROVIDER_LABELS[config.type]
+    const { profile: input, error: profileError } = parseProfileInput({ ...body, name })
+    if (!input) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid profile',
+          message: profileError,
+        },
+        { status: 400 }
+      )
+    }
+
+    const { profiles } = await loadProfiles()
+    const existing = profiles.find((entry) => entry.name.toLowerCase() === name.toLowerCase())
+    const profile = await saveProfile(
+      {
+        ...input,
+        fieldMapping: input.fieldMapping || existing?.fieldMapping,
+        defaultView: input.defaultView || existing?.defaultView,
+      },
+      existing?.id
+    )
+    await setActiveProfile(profile.id)
+
+    // Drop the cached provider so the next request uses the new config
+    await closeDataProvider()
 
-    // For now, return a message indicating this is a future feature
     return NextResponse.json({
-      success: false,
-      error: 'Not implemented',
-      message:
-        'Configuration saving is planned for a future release. ' +
-        'For now, please set environment variables in your .env.local file.',
-      futureFeatures: [
-        'Save multiple configuration profiles',
-        'Switch between configurations at runtime',
-        'User-specific configurations',
-        'Configuration import/export',
-      ],
-      currentWorkaround:
-        'Set environment variables (DATA_PROVIDER, BASEROW_TOKEN, etc.) in .env.local',
+      success: true,
+      message: 'Configuration saved',
+      provider: config.type,
+      profile: { id: profile.id, name: profile.name },
     })
   } catch (error) {
     console.error('Config save error:', error)
@@ -69,13 +127,66 @@ export async function POST(request: NextRequest) {
 
 /**
  * GET /api/config/save
- * Get information about the save endpoint
+ * Get the currently saved provider type and active profile
+ * (credentials are never returned)
  */
 export async function GET() {
-  return NextResponse.json({
-    status: 'not_implemented',
-    message: 'Configuration persistence is planned for v1.2.0',
-    currentApproach: 'Use environment variables in .env.local',
-    documentation: '/docs/configuration.md',
-  })
+  try {
+    const auth = await authorize('admin')
+    if (auth.response) return auth.response
+
+    const saved = await loadProviderConfig()
+    const { activeProfileId, profiles } = await loadProfiles()
+    const active = profiles.find((entry) => entry.id === activeProfileId)
+
+    return NextResponse.json({
+      success: true,
+      provider: saved?.type || process.env.DATA_PROVIDER || 'demo',
+      source: saved ? 'saved' : 'environment',
+      profile: active ? { id: active.id, name: active.name } : null,
+      supportedProviders: PROVIDER_TYPES,
+    })
+  } catch (error) {
+    console.error('Config load error:', error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load configuration',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/config/save
+ * Deactivate the saved configuration and fall back to environment variables
+ * The profiles are kept and can be activated again.
+ */
+export async function DELETE() {
+  try {
+    const auth = await authorize('admin')
+    if (auth.response) return auth.response
+
+    await clearProviderConfig()
+    await closeDataProvider()
+
+    return NextResponse.json({
+      success: true,
+      message: 'Saved configuration deactivated, using environment variables',
+    })
+  } catch (error) {
+    console.error('Config delete error:', error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to remove configuration',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    )
+  }
 }
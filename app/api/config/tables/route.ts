@@ -4,6 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth/session'
 
 interface BaserowTable {
   id: number
@@ -36,6 +37,9 @@ interface BaserowTable {
  */
 export async function GET(request: NextRequest) {
   try {
+    const auth = await authorize('admin')
+    if (auth.response) return auth.response
+
     const searchParams = request.nextUrl.searchParams
     const token = searchParams.get('token')
     const workspaceId = searchParams.get('workspaceId')
@@ -109,6 +113,9 @@ export async function GET(request: NextRequest) {
  */
 export async function POST(request: NextRequest) {
   try {
+    const auth = await authorize('admin')
+    if (auth.response) return auth.response
+
     const body = await request.json()
     const { token, workspaceId, baseUrl = 'https://api.baserow.io' } = body
 
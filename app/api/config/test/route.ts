@@ -4,8 +4,14 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth/session'
 import { createDataProvider } from '@/lib/providers/provider-factory'
-import type { ProviderConfig } from '@/lib/providers/data-provider.interface'
+import {
+  isProviderType,
+  PROVIDER_TYPES,
+  type IDataProvider,
+} from '@/lib/providers/data-provider.interface'
+import { parseProviderConfig } from '@/lib/providers/provider-config'
 
 /**
  * POST /api/config/test
@@ -13,137 +19,96 @@ import type { ProviderConfig } from '@/lib/providers/data-provider.interface'
  *
  * Request body:
  * {
- *   type: "baserow" | "postgres" | "demo",
+ *   type: "baserow" | "postgres" | "mysql" | "mongodb" | "excel" | "demo",
  *   baseUrl?: string,      // For Baserow
  *   token?: string,        // For Baserow
- *   host?: string,         // For PostgreSQL
- *   port?: number,         // For PostgreSQL
- *   database?: string,     // For PostgreSQL
- *   user?: string,         // For PostgreSQL
- *   password?: string,     // For PostgreSQL
- *   ssl?: boolean          // For PostgreSQL
+ *   host?: string,         // For PostgreSQL / MySQL
+ *   port?: number,         // For PostgreSQL / MySQL
+ *   database?: string,     // For PostgreSQL / MySQL / MongoDB
+ *   user?: string,         // For PostgreSQL / MySQL
+ *   password?: string,     // For PostgreSQL / MySQL
+ *   ssl?: boolean,         // For PostgreSQL
+ *   uri?: string,          // For MongoDB
+ *   filePath?: string      // For Excel
  * }
  *
  * Response:
  * {
  *   success: true,
  *   message: "Connection successful",
- *   provider: "baserow" | "postgres" | "demo"
+ *   provider: "baserow" | "postgres" | "mysql" | "mongodb" | "excel" | "demo"
  * }
  */
 export async function POST(request: NextRequest) {
+  const auth = await authorize('admin')
+  if (auth.response) return auth.response
+
+  let provider: IDataProvider | null = null
+
   try {
     const body = await request.json()
 
-    // Validate provider type
-    const { type } = body
-    if (!type || !['baserow', 'postgres', 'demo'].includes(type)) {
+    // Validate provider type and required fields
+    const { config: providerConfig, error } = parseProviderConfig(body)
+    if (!providerConfig) {
       return NextResponse.json(
         {
           success: false,
-          error: 'Invalid provider type',
-          message: 'Provider type must be one of: baserow, postgres, demo',
+          error: isProviderType(body.type) ? 'Missing required fields' : 'Invalid provider type',
+          message: error,
         },
         { status: 400 }
       )
     }
 
-    // Build provider config based on type
-    let providerConfig: ProviderConfig
+    const { type } = providerConfig
 
-    switch (type) {
-      case 'baserow': {
-        if (!body.baseUrl || !body.token) {
-          return NextResponse.json(
-            {
-              success: false,
-              error: 'Missing required fields',
-              message: 'Baserow provider requires: baseUrl, token',
-            },
-            { status: 400 }
-          )
-        }
+    if (type === 'baserow') {
+      // Test Baserow by calling the applications API directly
+      try {
+        const testResponse = await fetch(`${providerConfig.baseUrl}/api/applications/`, {
+          headers: {
+            Authorization: `Token ${providerConfig.token}`,
+            'Content-Type': 'application/json',
+          },
+        })
+
+        if (!testResponse.ok) {
+          const errorText = await testResponse.text()
+          console.error('Baserow test failed:', testResponse.status, errorText)
 
-        // Test Baserow by calling the applications API directly
-        try {
-          const testResponse = await fetch(`${body.baseUrl}/api/applications/`, {
-            headers: {
-              Authorization: `Token ${body.token}`,
-              'Content-Type': 'application/json',
-            },
-          })
-
-          if (!testResponse.ok) {
-            const errorText = await testResponse.text()
-            console.error('Baserow test failed:', testResponse.status, errorText)
-
-            return NextResponse.json(
-              {
-                success: false,
-                error: 'Connection failed',
-                message: `Baserow API returned ${testResponse.status}. Check your token and baseUrl.`,
-              },
-              { status: 503 }
-            )
-          }
-
-          const apps = await testResponse.json()
-          return NextResponse.json({
-            success: true,
-            message: 'Connection successful',
-            provider: 'baserow',
-            details: { applicationsFound: apps.length },
-          })
-        } catch (error) {
-          console.error('Baserow connection error:', error)
           return NextResponse.json(
             {
               success: false,
               error: 'Connection failed',
-              message: error instanceof Error ? error.message : 'Failed to connect',
+              message: `Baserow API returned ${testResponse.status}. Check your token and baseUrl.`,
             },
             { status: 503 }
           )
         }
-      }
-
-      case 'postgres':
-        if (!body.host || !body.database || !body.user || !body.password) {
-          return NextResponse.json(
-            {
-              success: false,
-              error: 'Missing required fields',
-              message: 'PostgreSQL provider requires: host, database, user, password',
-            },
-            { status: 400 }
-          )
-        }
-        providerConfig = {
-          type: 'postgres',
-          database: body.database,
-        }
-        // Note: Full PostgreSQL config is passed via environment-like structure
-        // This is intentionally limited to avoid exposing credentials
-        break
-
-      case 'demo':
-        providerConfig = {
-          type: 'demo',
-        }
-        break
 
-      default:
+        const apps = await testResponse.json()
+        return NextResponse.json({
+          success: true,
+          message: 'Connection successful',
+          provider: 'baserow',
+          details: { applicationsFound: apps.length },
+        })
+      } catch (error) {
+        console.error('Baserow connection error:', error)
         return NextResponse.json(
           {
             success: false,
-            error: 'Unsupported provider type',
+            error: 'Connection failed',
+            message: error instanceof Error ? error.message : 'Failed to connect',
           },
-          { status: 400 }
+          { status: 503 }
         )
+      }
     }
 
     // Create a temporary provider instance
-    const provider = createDataProvider(providerConfig)
+    provider = createDataProvider(providerConfig)
 
     // Test the connection
     const isHealthy = await provider.isHealthy()
@@ -183,6 +148,9 @@ export async function POST(request: NextRequest) {
       },
       { status: 500 }
     )
+  } finally {
+    // Release connections opened by the temporary provider
+    await provider?.close?.().catch(() => undefined)
   }
 }
 
@@ -191,9 +159,12 @@ export async function POST(request: NextRequest) {
  * Health check for the config test endpoint
  */
 export async function GET() {
+  const auth = await authorize('admin')
+  if (auth.response) return auth.response
+
   return NextResponse.json({
     status: 'ok',
     message: 'Configuration test endpoint is ready',
-    supportedProviders: ['baserow', 'postgres', 'demo'],
+    supportedProviders: PROVIDER_TYPES,
   })
 }
@@ -4,6 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth/session'
 
 interface BaserowView {
   id: number
@@ -38,6 +39,9 @@ interface BaserowView {
  */
 export async function GET(request: NextRequest) {
   try {
+    const auth = await authorize('admin')
+    if (auth.response) return auth.response
+
     const searchParams = request.nextUrl.searchParams
     const token = searchParams.get('token')
     const tableId = searchParams.get('tableId')
@@ -112,6 +116,9 @@ export async function GET(request: NextRequest) {
  */
 export async function POST(request: NextRequest) {
   try {
+    const auth = await authorize('admin')
+    if (auth.response) return auth.response
+
     const body = await request.json()
     const { token, tableId, baseUrl = 'https://api.baserow.io' } = body
 
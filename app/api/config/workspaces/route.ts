@@ -4,6 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth/session'
 
 interface BaserowApplication {
   id: number
@@ -36,6 +37,9 @@ interface BaserowApplication {
  */
 export async function GET(request: NextRequest) {
   try {
+    const auth = await authorize('admin')
+    if (auth.response) return auth.response
+
     const searchParams = request.nextUrl.searchParams
     const token = searchParams.get('token')
     const baseUrl = searchParams.get('baseUrl') || 'https://api.baserow.io'
@@ -110,6 +114,9 @@ export async function GET(request: NextRequest) {
  */
 export async function POST(request: NextRequest) {
   try {
+    const auth = await authorize('admin')
+    if (auth.response) return auth.response
+
     const body = await request.json()
     const { token, baseUrl = 'https://api.baserow.io' } = body
 
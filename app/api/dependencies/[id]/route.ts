@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authorize } from "@/lib/auth/session"
+import { getDataProviderAsync } from "@/lib/providers/provider-factory"
+
+/**
+ * DELETE /api/dependencies/[id]
+ *
+ * Delete a dependency
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("editor")
+    if (auth.response) return auth.response
+
+    const { id } = await params
+    const provider = await getDataProviderAsync()
+    await provider.removeDependency(id)
+
+    return NextResponse.json({
+      success: true,
+      message: "Dependency deleted successfully",
+    })
+  } catch (error) {
+    console.error("Error deleting dependency:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to delete dependency",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authorize } from "@/lib/auth/session"
+import { getDataProviderAsync } from "@/lib/providers/provider-factory"
+import { validateNewDependency } from "@/lib/providers/dependencies"
+import { CreateDependencyDTO } from "@/types/task"
+
+/**
+ * GET /api/dependencies
+ *
+ * List task dependencies
+ * Query params:
+ *   - taskId: Only return links where the task is predecessor or successor
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize("viewer")
+    if (auth.response) return auth.response
+
+    const taskId = request.nextUrl.searchParams.get("taskId") || undefined
+
+    const provider = await getDataProviderAsync()
+    const dependencies = await provider.getDependencies(taskId)
+
+    return NextResponse.json({
+      success: true,
+      data: dependencies,
+      total: dependencies.length,
+    })
+  } catch (error) {
+    console.error("Error fetching dependencies:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch dependencies",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/dependencies
+ *
+ * Create a dependency between two tasks
+ * Body: { predecessorId, successorId, type?, lag? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize("editor")
+    if (auth.response) return auth.response
+
+    const body = await request.json()
+
+    if (!body.predecessorId || !body.successorId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Missing required fields: predecessorId, successorId",
+        },
+        { status: 400 }
+      )
+    }
+
+    const dependencyData: CreateDependencyDTO = {
+      predecessorId: String(body.predecessorId),
+      successorId: String(body.successorId),
+      type: body.type,
+      lag: body.lag !== undefined ? Number(body.lag) : undefined,
+    }
+
+    const provider = await getDataProviderAsync()
+
+    // Reject self links, duplicates and cycles before touching the backend
+    const validationError = validateNewDependency(
+      await provider.getDependencies(),
+      dependencyData
+    )
+    if (validationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid dependency",
+          message: validationError,
+        },
+        { status: 400 }
+      )
+    }
+
+    const dependency = await provider.addDependency(dependencyData)
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: dependency,
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error("Error creating dependency:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to create dependency",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
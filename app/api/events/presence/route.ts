@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authorize } from "@/lib/auth/session"
+import { updatePresence } from "@/lib/realtime/event-hub"
+import { UserPresence } from "@/types/task"
+
+/**
+ * POST /api/events/presence
+ *
+ * Update the cursor and selection of a client connected to /api/events
+ * Body: { clientId, cursor?: { x, y } | null, selection?: taskId | null }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize("viewer")
+    if (auth.response) return auth.response
+
+    const body = await request.json()
+
+    if (!body.clientId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Missing required field: clientId",
+        },
+        { status: 400 }
+      )
+    }
+
+    const update: Partial<Pick<UserPresence, "cursor" | "selection">> = {}
+
+    if (body.cursor !== undefined) {
+      if (body.cursor !== null && (typeof body.cursor.x !== "number" || typeof body.cursor.y !== "number")) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "Invalid cursor",
+            message: "cursor requires numeric x and y",
+          },
+          { status: 400 }
+        )
+      }
+      update.cursor = body.cursor ? { x: body.cursor.x, y: body.cursor.y } : undefined
+    }
+
+    if (body.selection !== undefined) {
+      update.selection = body.selection ? String(body.selection) : undefined
+    }
+
+    const presence = updatePresence(String(body.clientId), update)
+
+    if (!presence) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Client not connected",
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: presence,
+    })
+  } catch (error) {
+    console.error("Error updating presence:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to update presence",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest } from "next/server"
+import { authorize, getTaskAccess } from "@/lib/auth/session"
+import { getDataProviderAsync } from "@/lib/providers/provider-factory"
+import { canSeeTask, redactTask } from "@/lib/providers/access-control"
+import { getPresence, joinPresence, subscribe } from "@/lib/realtime/event-hub"
+import { PROJECT_HEADER } from "@/lib/utils/projects"
+import { RealtimeEvent } from "@/types/task"
+
+export const dynamic = "force-dynamic"
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25000
+
+/**
+ * GET /api/events
+ *
+ * Server-sent event stream of task mutations and user presence
+ * Query params:
+ *   - clientId: Id of the connecting tab, used as its presence userId
+ *   - userName: Display name shown to other users
+ *   - color: Presence color of the user
+ * Each message is a JSON encoded RealtimeEvent. Under /api/projects/[projectId]
+ * only task events of that project are sent; presence is shared. Task events
+ * follow the project's access rules: a task that leaves the tasks the user can
+ * see arrives as deleted.
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authorize("viewer")
+  if (auth.response) return auth.response
+
+  const searchParams = request.nextUrl.searchParams
+  const clientId = searchParams.get("clientId") || crypto.randomUUID()
+  const userName = auth.user?.name || searchParams.get("userName") || "Guest"
+  const color = searchParams.get("color") || "#6b7280"
+  const projectId = request.headers.get(PROJECT_HEADER) || undefined
+  const access = await getTaskAccess()
+  // Tasks this stream's user can see, to tell them when one leaves their view
+  const shownTaskIds = access
+    ? new Set((await (await getDataProviderAsync()).getAllTasks()).map((task) => task.id))
+    : null
+
+  const encoder = new TextEncoder()
+  let cleanup: (() => void) | undefined
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          cleanup?.()
+        }
+      }
+      const sendEvent = (event: RealtimeEvent) => {
+        if (event.type !== "presence" && event.projectId !== projectId) return
+        if (access && shownTaskIds && event.type !== "presence") {
+          if (event.type === "task.deleted") {
+            if (!shownTaskIds.delete(event.taskId)) return
+          } else if (canSeeTask(access, event.task)) {
+            shownTaskIds.add(event.task.id)
+            event = { ...event, task: redactTask(access, event.task) }
+          } else {
+            if (!shownTaskIds.delete(event.task.id)) return
+            event = { type: "task.deleted", taskId: event.task.id, origin: event.origin, projectId: event.projectId }
+          }
+        }
+        send(`data: ${JSON.stringify(event)}\n\n`)
+      }
+
+      // Join before subscribing; the snapshot below covers our own arrival
+      const leave = joinPresence({
+        userId: clientId,
+        userName,
+        color,
+        lastSeen: new Date(),
+      })
+      const unsubscribe = subscribe(sendEvent)
+      sendEvent({ type: "presence", presence: getPresence() })
+
+      const heartbeat = setInterval(() => send(": ping\n\n"), HEARTBEAT_INTERVAL_MS)
+
+      cleanup = () => {
+        cleanup = undefined
+        clearInterval(heartbeat)
+        unsubscribe()
+        leave()
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the client
+        }
+      }
+
+      request.signal.addEventListener("abort", () => cleanup?.())
+    },
+    cancel() {
+      cleanup?.()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  })
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authorize } from "@/lib/auth/session"
+import { getDataProviderAsync } from "@/lib/providers/provider-factory"
+import { parseHistoryQuery } from "@/lib/providers/history"
+import type { ChangeHistoryQueryParams } from "@/types/task"
+
+/**
+ * GET /api/history
+ *
+ * List committed change sets, newest first
+ * Change sets are recorded by the server as tasks change (through the task
+ * API, imports and Baserow webhooks); clients cannot write to the history.
+ * Query params:
+ *   - taskId: Only change sets that touch the task
+ *   - user: Only change sets by this user id or name (case-insensitive)
+ *   - from, to: Only change sets committed in this time range (ISO dates)
+ *   - limit: Most recent change sets to return (default 100, max 1000)
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authorize("viewer")
+  if (auth.response) return auth.response
+
+  let query: ChangeHistoryQueryParams
+  try {
+    query = parseHistoryQuery(request.nextUrl.searchParams)
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Invalid history query",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const provider = await getDataProviderAsync()
+    const changeSets = await provider.getChangeHistory(query)
+
+    return NextResponse.json({
+      success: true,
+      data: changeSets,
+      total: changeSets.length,
+    })
+  } catch (error) {
+    console.error("Error fetching change history:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch change history",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
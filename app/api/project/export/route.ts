@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authorize } from "@/lib/auth/session"
+import { getDataProviderAsync } from "@/lib/providers/provider-factory"
+import { restrictBaselines } from "@/lib/providers/access-control"
+import { loadBaselines } from "@/lib/config-storage"
+import { createProjectFile } from "@/lib/utils/project-file"
+
+/**
+ * GET /api/project/export
+ *
+ * Download the whole project as a versioned JSON project file
+ * Query params:
+ *   - name: Project name stored in the file
+ * The file can be imported into any data source with POST /api/project/import.
+ * It holds only the tasks and fields the project's access rules let the user see.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize("viewer")
+    if (auth.response) return auth.response
+
+    const provider = await getDataProviderAsync()
+    const [statuses, tasks, dependencies, resources, allocations, calendar, baselines] = await Promise.all([
+      provider.getStatuses(),
+      provider.getAllTasks(),
+      provider.getDependencies(),
+      provider.getResources(),
+      provider.getAllocations(),
+      provider.getWorkCalendar(),
+      loadBaselines().then((saved) => restrictBaselines(provider, saved)),
+    ])
+
+    const file = createProjectFile({
+      name: request.nextUrl.searchParams.get("name")?.trim() || undefined,
+      statuses,
+      tasks,
+      dependencies,
+      resources,
+      allocations,
+      calendar,
+      baselines,
+    })
+
+    return new NextResponse(JSON.stringify(file, null, 2), {
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="project-${new Date().toISOString().split("T")[0]}.json"`,
+      },
+    })
+  } catch (error) {
+    console.error("Error exporting project:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to export project",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authorize } from "@/lib/auth/session"
+import { getDataProviderAsync } from "@/lib/providers/provider-factory"
+import { loadBaselines, saveBaselines } from "@/lib/config-storage"
+import { getChangeAuthor, getRecordedTasks, recordTaskChanges } from "@/lib/providers/history-recorder"
+import { publishTaskEvent, REALTIME_CLIENT_HEADER } from "@/lib/realtime/event-hub"
+import { getTaskChanges } from "@/lib/utils/task-changes"
+import { PROJECT_HEADER } from "@/lib/utils/projects"
+import { importProject } from "@/lib/utils/project-import"
+import { parseProjectFile, ProjectFile, toImportedProject, validateProjectFile } from "@/lib/utils/project-file"
+
+/**
+ * POST /api/project/import
+ *
+ * Import a JSON project file (as written by GET /api/project/export) into the data source
+ * Body: the project file
+ * Tasks, resources and statuses get new ids; statuses and resources are
+ * matched to existing ones by name. The calendar is merged into the current
+ * one and the baselines are added with their tasks remapped. An invalid file
+ * responds with 400 and the list of problems; nothing is imported then.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authorize("editor")
+  if (auth.response) return auth.response
+
+  let file: ProjectFile
+  try {
+    const body = await request.json()
+    const errors = validateProjectFile(body)
+    if (errors.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid project file",
+          message: `${errors.length} problem(s) found`,
+          errors,
+        },
+        { status: 400 }
+      )
+    }
+    file = parseProjectFile(body)
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Invalid project file",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const provider = await getDataProviderAsync()
+    const [statuses, resources, calendar] = await Promise.all([
+      provider.getStatuses(),
+      provider.getResources(),
+      provider.getWorkCalendar(),
+    ])
+
+    const result = await importProject(
+      toImportedProject(file),
+      { statuses, resources, calendar, statusId: statuses.length > 0 ? statuses[0].id : undefined },
+      {
+        applyTaskBatch: (operations) => provider.applyTaskBatch(operations),
+        createResource: (data) => provider.createResource(data),
+        deleteResource: (id) => provider.deleteResource(id),
+        saveWorkCalendar: (updated) => provider.saveWorkCalendar(updated),
+        createStatus: (data) => provider.createStatus(data),
+      }
+    )
+
+    if (file.baselines.length > 0) {
+      const existing = await loadBaselines()
+      const imported = file.baselines.map((baseline) => ({
+        ...baseline,
+        id: existing.some((entry) => entry.id === baseline.id)
+          ? `baseline_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+          : baseline.id,
+        tasks: baseline.tasks.map((entry) => ({ ...entry, taskId: result.taskIds.get(entry.taskId)! })),
+      }))
+      await saveBaselines([...existing, ...imported])
+    }
+
+    const recorded = await getRecordedTasks(provider, result.tasks)
+    await recordTaskChanges(
+      [...recorded.values()].flatMap((task) => getTaskChanges(null, task)),
+      getChangeAuthor(auth.user),
+      file.name ? `Import project "${file.name}"` : "Import project"
+    )
+
+    const origin = request.headers.get(REALTIME_CLIENT_HEADER)
+    const projectId = request.headers.get(PROJECT_HEADER)
+    result.tasks.forEach((task) => publishTaskEvent("task.created", task, origin, projectId))
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          tasks: result.tasks.length,
+          statuses: result.createdStatuses.length,
+          resources: result.createdResources.length,
+          baselines: file.baselines.length,
+        },
+        message: `Imported ${result.tasks.length} task(s)`,
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error("Error importing project:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to import project",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server"
+import { PROJECT_FILE_SCHEMA } from "@/lib/utils/project-file"
+
+/**
+ * GET /api/project/schema
+ *
+ * JSON Schema of the project file format
+ */
+export async function GET() {
+  return NextResponse.json(PROJECT_FILE_SCHEMA, {
+    headers: { "Content-Type": "application/schema+json" },
+  })
+}
@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authorize } from "@/lib/auth/session"
+import { deleteProjectFiles, loadProfiles, loadProjects, saveProjects } from "@/lib/config-storage"
+import { loadProjectSummary, parseProjectInput, validateProject, ProjectInput } from "@/lib/providers/projects"
+import { closeProjectProvider, getAccessibleProviderAsync } from "@/lib/providers/provider-factory"
+
+/**
+ * GET /api/projects/[projectId]
+ *
+ * Get a project with its span and progress
+ * The project's data is served below, e.g. at /api/projects/[projectId]/tasks.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const auth = await authorize("viewer")
+    if (auth.response) return auth.response
+
+    const { projectId } = await params
+    const project = (await loadProjects()).find((entry) => entry.id === projectId)
+
+    if (!project) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Project not found",
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { ...project, summary: await loadProjectSummary(getAccessibleProviderAsync(projectId)) },
+    })
+  } catch (error) {
+    console.error("Error fetching project:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch project",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/projects/[projectId]
+ *
+ * Replace a project's name, description, color, profile and table
+ * Body: { name, description?, color?, profileId?, table? }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const auth = await authorize("admin")
+    if (auth.response) return auth.response
+
+    const { projectId } = await params
+    const body = await request.json()
+    const projects = await loadProjects()
+
+    if (!projects.some((entry) => entry.id === projectId)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Project not found",
+        },
+        { status: 404 }
+      )
+    }
+
+    let projectData: ProjectInput
+    let validationError: string | null
+    try {
+      projectData = parseProjectInput(body)
+      validationError = validateProject(projects, projectData, projectId)
+      if (!validationError && projectData.profileId) {
+        const { profiles } = await loadProfiles()
+        if (!profiles.some((profile) => profile.id === projectData.profileId)) {
+          validationError = `Configuration profile ${projectData.profileId} not found`
+        }
+      }
+    } catch (error) {
+      validationError = error instanceof Error ? error.message : "Invalid project"
+    }
+
+    if (validationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid project",
+          message: validationError,
+        },
+        { status: 400 }
+      )
+    }
+
+    const project = { id: projectId, ...projectData! }
+    await saveProjects(projects.map((entry) => (entry.id === projectId ? project : entry)))
+
+    // The profile or table may have changed
+    await closeProjectProvider(projectId)
+
+    return NextResponse.json({
+      success: true,
+      data: project,
+    })
+  } catch (error) {
+    console.error("Error updating project:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to update project",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/projects/[projectId]
+ *
+ * Delete a project and its baselines
+ * Its tasks are left in the data source.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const auth = await authorize("admin")
+    if (auth.response) return auth.response
+
+    const { projectId } = await params
+    const projects = await loadProjects()
+    const remaining = projects.filter((entry) => entry.id !== projectId)
+
+    if (remaining.length === projects.length) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Project not found",
+        },
+        { status: 404 }
+      )
+    }
+
+    await saveProjects(remaining)
+    await deleteProjectFiles(projectId)
+    await closeProjectProvider(projectId)
+
+    return NextResponse.json({
+      success: true,
+      message: "Project deleted successfully",
+    })
+  } catch (error) {
+    console.error("Error deleting project:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to delete project",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authorize } from "@/lib/auth/session"
+import { loadProfiles, loadProjects, saveProjects } from "@/lib/config-storage"
+import { loadProjectSummary, parseProjectInput, validateProject, ProjectInput } from "@/lib/providers/projects"
+import { getAccessibleProviderAsync } from "@/lib/providers/provider-factory"
+import { Project } from "@/types/task"
+
+/**
+ * GET /api/projects
+ *
+ * List the projects
+ * Query params:
+ *   - summary: "true" to add each project's span and progress (reads every project's tasks)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize("viewer")
+    if (auth.response) return auth.response
+
+    const projects = await loadProjects()
+    const withSummary = request.nextUrl.searchParams.get("summary") === "true"
+
+    const data = withSummary
+      ? await Promise.all(
+          projects.map(async (project) => ({
+            ...project,
+            summary: await loadProjectSummary(getAccessibleProviderAsync(project.id)),
+          }))
+        )
+      : projects
+
+    return NextResponse.json({
+      success: true,
+      data,
+    })
+  } catch (error) {
+    console.error("Error fetching projects:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch projects",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/projects
+ *
+ * Create a project
+ * Body: { name, description?, color?, profileId?, table? }
+ * Its tasks are then served at /api/projects/[projectId]/tasks.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize("admin")
+    if (auth.response) return auth.response
+
+    const body = await request.json()
+    const projects = await loadProjects()
+
+    let projectData: ProjectInput
+    let validationError: string | null
+    try {
+      projectData = parseProjectInput(body)
+      validationError = validateProject(projects, projectData)
+      if (!validationError && projectData.profileId) {
+        const { profiles } = await loadProfiles()
+        if (!profiles.some((profile) => profile.id === projectData.profileId)) {
+          validationError = `Configuration profile ${projectData.profileId} not found`
+        }
+      }
+    } catch (error) {
+      validationError = error instanceof Error ? error.message : "Invalid project"
+    }
+
+    if (validationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid project",
+          message: validationError,
+        },
+        { status: 400 }
+      )
+    }
+
+    const project: Project = {
+      id: `project_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      ...projectData!,
+    }
+    await saveProjects([...projects, project])
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: project,
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error("Error creating project:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to create project",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
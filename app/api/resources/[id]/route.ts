@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authorize } from "@/lib/auth/session"
+import { getDataProviderAsync } from "@/lib/providers/provider-factory"
+import { parseResourceInput, validateResource } from "@/lib/providers/resources"
+
+/**
+ * GET /api/resources/[id]
+ *
+ * Get a single resource
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("viewer")
+    if (auth.response) return auth.response
+
+    const { id } = await params
+    const provider = await getDataProviderAsync()
+    const resource = await provider.getResourceById(id)
+
+    if (!resource) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Resource not found",
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: resource,
+    })
+  } catch (error) {
+    console.error("Error fetching resource:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch resource",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/resources/[id]
+ *
+ * Update a resource
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("editor")
+    if (auth.response) return auth.response
+
+    const { id } = await params
+    const body = await request.json()
+    const updateData = parseResourceInput(body)
+
+    const validationError = validateResource(updateData, false)
+    if (validationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid resource",
+          message: validationError,
+        },
+        { status: 400 }
+      )
+    }
+
+    const provider = await getDataProviderAsync()
+    if (!(await provider.getResourceById(id))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Resource not found",
+        },
+        { status: 404 }
+      )
+    }
+
+    const resource = await provider.updateResource(id, updateData)
+
+    return NextResponse.json({
+      success: true,
+      data: resource,
+    })
+  } catch (error) {
+    console.error("Error updating resource:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to update resource",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/resources/[id]
+ *
+ * Delete a resource together with its allocations
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("editor")
+    if (auth.response) return auth.response
+
+    const { id } = await params
+    const provider = await getDataProviderAsync()
+
+    if (!(await provider.getResourceById(id))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Resource not found",
+        },
+        { status: 404 }
+      )
+    }
+
+    await provider.deleteResource(id)
+
+    return NextResponse.json({
+      success: true,
+      message: "Resource deleted successfully",
+    })
+  } catch (error) {
+    console.error("Error deleting resource:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to delete resource",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
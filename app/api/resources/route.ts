@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authorize } from "@/lib/auth/session"
+import { getDataProviderAsync } from "@/lib/providers/provider-factory"
+import { parseResourceInput, validateResource } from "@/lib/providers/resources"
+import { CreateResourceDTO } from "@/types/task"
+
+/**
+ * GET /api/resources
+ *
+ * List all resources
+ */
+export async function GET() {
+  try {
+    const auth = await authorize("viewer")
+    if (auth.response) return auth.response
+
+    const provider = await getDataProviderAsync()
+    const resources = await provider.getResources()
+
+    return NextResponse.json({
+      success: true,
+      data: resources,
+      total: resources.length,
+    })
+  } catch (error) {
+    console.error("Error fetching resources:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch resources",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/resources
+ *
+ * Create a resource
+ * Body: { name, email?, role?, avatar?, availability?, color? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize("editor")
+    if (auth.response) return auth.response
+
+    const body = await request.json()
+    const resourceData = parseResourceInput(body) as CreateResourceDTO
+
+    const validationError = validateResource(resourceData, true)
+    if (validationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid resource",
+          message: validationError,
+        },
+        { status: 400 }
+      )
+    }
+
+    const provider = await getDataProviderAsync()
+    const resource = await provider.createResource(resourceData)
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: resource,
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error("Error creating resource:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to create resource",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,8 @@
-import { NextResponse } from "next/server"
+import { NextRequest, NextResponse } from "next/server"
+import { authorize } from "@/lib/auth/session"
 import { getDataProviderAsync } from "@/lib/providers/provider-factory"
+import { parseStatusInput, validateStatus } from "@/lib/providers/statuses"
+import { CreateStatusDTO } from "@/types/task"
 
 /**
  * GET /api/statuses
@@ -8,6 +11,9 @@ import { getDataProviderAsync } from "@/lib/providers/provider-factory"
  */
 export async function GET() {
   try {
+    const auth = await authorize("viewer")
+    if (auth.response) return auth.response
+
     const provider = await getDataProviderAsync()
     const statuses = await provider.getStatuses()
 
@@ -27,3 +33,59 @@ export async function GET() {
     )
   }
 }
+
+/**
+ * POST /api/statuses
+ *
+ * Create a status
+ * Body: { name, color? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize("editor")
+    if (auth.response) return auth.response
+
+    const body = await request.json()
+    const provider = await getDataProviderAsync()
+
+    let statusData: CreateStatusDTO
+    let validationError: string | null
+    try {
+      statusData = parseStatusInput(body)
+      validationError = validateStatus(await provider.getStatuses(), statusData)
+    } catch (error) {
+      validationError = error instanceof Error ? error.message : "Invalid status"
+    }
+
+    if (validationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid status",
+          message: validationError,
+        },
+        { status: 400 }
+      )
+    }
+
+    const status = await provider.createStatus(statusData!)
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: status,
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error("Error creating status:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to create status",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
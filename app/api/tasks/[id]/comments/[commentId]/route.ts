@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authorize } from "@/lib/auth/session"
+import { getDataProviderAsync } from "@/lib/providers/provider-factory"
+import { getCommentThreadIds } from "@/lib/providers/comments"
+
+/**
+ * DELETE /api/tasks/[id]/comments/[commentId]
+ *
+ * Delete a comment together with its replies
+ * With authentication on, only its author or an admin can delete it, and only
+ * an admin when other users have replied to it.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+) {
+  try {
+    const auth = await authorize("editor")
+    if (auth.response) return auth.response
+
+    const { id, commentId } = await params
+    const provider = await getDataProviderAsync()
+    const comments = await provider.getComments(id)
+
+    const comment = comments.find((entry) => entry.id === commentId)
+    if (!comment) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Comment not found",
+        },
+        { status: 404 }
+      )
+    }
+
+    // Signed-in users may only delete their own comments, unless they are admins
+    if (auth.user && comment.userId !== auth.user.id && auth.user.role !== "admin") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Forbidden",
+          message: "Only the author or an admin can delete this comment",
+        },
+        { status: 403 }
+      )
+    }
+
+    // The replies go with the comment, so other users' replies need an admin
+    const threadIds = new Set(getCommentThreadIds(comments, commentId))
+    const repliedByOthers = comments.some((entry) => threadIds.has(entry.id) && entry.userId !== comment.userId)
+    if (auth.user && repliedByOthers && auth.user.role !== "admin") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Forbidden",
+          message: "The comment has replies by other users; only an admin can delete it",
+        },
+        { status: 403 }
+      )
+    }
+
+    await provider.deleteComment(commentId)
+
+    return NextResponse.json({
+      success: true,
+      message: "Comment deleted successfully",
+    })
+  } catch (error) {
+    console.error("Error deleting comment:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to delete comment",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
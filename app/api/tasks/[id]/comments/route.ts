@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authorize } from "@/lib/auth/session"
+import { getDataProviderAsync } from "@/lib/providers/provider-factory"
+import { attachMentions, parseCommentInput, validateComment } from "@/lib/providers/comments"
+
+/**
+ * GET /api/tasks/[id]/comments
+ *
+ * List the comments of a task, oldest first
+ * Replies reference their parent through parentId; mentions holds the ids of
+ * the resources @mentioned in each comment.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("viewer")
+    if (auth.response) return auth.response
+
+    const { id } = await params
+    const provider = await getDataProviderAsync()
+
+    if (!(await provider.getTaskById(id))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Task not found",
+        },
+        { status: 404 }
+      )
+    }
+
+    const comments = attachMentions(await provider.getComments(id), await provider.getResources())
+
+    return NextResponse.json({
+      success: true,
+      data: comments,
+      total: comments.length,
+    })
+  } catch (error) {
+    console.error("Error fetching comments:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch comments",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/tasks/[id]/comments
+ *
+ * Add a comment to a task
+ * Body: { userId, userName, content, userAvatar?, parentId? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("editor")
+    if (auth.response) return auth.response
+
+    const { id } = await params
+    const body = await request.json()
+    // The author is the signed-in user when authentication is on
+    const commentData = parseCommentInput(
+      id,
+      auth.user ? { ...body, userId: auth.user.id, userName: auth.user.name } : body
+    )
+    const provider = await getDataProviderAsync()
+
+    if (!(await provider.getTaskById(id))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Task not found",
+        },
+        { status: 404 }
+      )
+    }
+
+    const validationError = validateComment(await provider.getComments(id), commentData)
+    if (validationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid comment",
+          message: validationError,
+        },
+        { status: 400 }
+      )
+    }
+
+    const comment = await provider.createComment(commentData)
+    const [withMentions] = attachMentions([comment], await provider.getResources())
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: withMentions,
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error("Error creating comment:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to create comment",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,15 @@
 import { NextRequest, NextResponse } from "next/server"
+import { authorize } from "@/lib/auth/session"
 import { getDataProviderAsync } from "@/lib/providers/provider-factory"
+import { isTaskAccessDenied, isTaskNotFound } from "@/lib/providers/access-control"
+import { parseTaskPredecessors } from "@/lib/providers/dependencies"
+import { parseTaskAssignments } from "@/lib/providers/resources"
+import { isTaskVersionConflict, parseExpectedVersion } from "@/lib/providers/concurrency"
+import { getChangeAuthor, getRecordedTasks, getTasksById, recordTaskChanges } from "@/lib/providers/history-recorder"
+import { parseTaskPriority, parseTaskTags } from "@/lib/providers/task-query"
+import { publishTaskDeleted, publishTaskEvent, REALTIME_CLIENT_HEADER } from "@/lib/realtime/event-hub"
+import { getTaskChanges } from "@/lib/utils/task-changes"
+import { PROJECT_HEADER } from "@/lib/utils/projects"
 import { UpdateTaskDTO } from "@/types/task"
 
 /**
@@ -12,6 +22,9 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await authorize("viewer")
+    if (auth.response) return auth.response
+
     const { id } = await params
     const provider = await getDataProviderAsync()
     const task = await provider.getTaskById(id)
@@ -47,12 +60,17 @@ export async function GET(
  * PATCH /api/tasks/[id]
  *
  * Update a task
+ * With `version` in the body the update only applies while the task is still
+ * at that version; otherwise it fails with 409 and the current task as data.
  */
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await authorize("editor")
+    if (auth.response) return auth.response
+
     const { id } = await params
     const body = await request.json()
 
@@ -66,15 +84,122 @@ export async function PATCH(
     if (body.owner !== undefined) updateData.owner = body.owner
     if (body.description !== undefined) updateData.description = body.description
     if (body.progress !== undefined) updateData.progress = body.progress
+    if (body.isMilestone !== undefined) updateData.isMilestone = Boolean(body.isMilestone)
+    if (body.parentId !== undefined) updateData.parentId = body.parentId ? String(body.parentId) : null
+    if (auth.user) {
+      updateData.modifiedBy = auth.user.name
+    } else if (body.modifiedBy !== undefined) {
+      updateData.modifiedBy = String(body.modifiedBy)
+    }
+    try {
+      updateData.expectedVersion = parseExpectedVersion(body.version)
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid version",
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 400 }
+      )
+    }
+    try {
+      if (body.priority !== undefined) updateData.priority = parseTaskPriority(body.priority)
+      if (body.tags !== undefined) updateData.tags = parseTaskTags(body.tags)
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid priority or tags",
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 400 }
+      )
+    }
+    if (body.dependencies !== undefined) {
+      try {
+        updateData.dependencies = parseTaskPredecessors(body.dependencies)
+      } catch (error) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "Invalid dependencies",
+            message: error instanceof Error ? error.message : "Unknown error",
+          },
+          { status: 400 }
+        )
+      }
+    }
+    if (body.assignments !== undefined) {
+      try {
+        updateData.assignments = parseTaskAssignments(body.assignments)
+      } catch (error) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "Invalid assignments",
+            message: error instanceof Error ? error.message : "Unknown error",
+          },
+          { status: 400 }
+        )
+      }
+    }
 
     const provider = await getDataProviderAsync()
+    const previous = (await getTasksById([id])).get(id)
     const task = await provider.updateTask(id, updateData)
+    const recorded = (await getRecordedTasks(provider, [task])).get(id)
+    await recordTaskChanges(
+      previous && recorded ? getTaskChanges(previous, recorded) : [],
+      getChangeAuthor(auth.user, updateData.modifiedBy),
+      "Edit task"
+    )
+    publishTaskEvent(
+      "task.updated",
+      task,
+      request.headers.get(REALTIME_CLIENT_HEADER),
+      request.headers.get(PROJECT_HEADER)
+    )
 
     return NextResponse.json({
       success: true,
       data: task,
     })
   } catch (error) {
+    if (isTaskVersionConflict(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Version conflict",
+          message: error.message,
+          data: error.current,
+        },
+        { status: 409 }
+      )
+    }
+
+    if (isTaskAccessDenied(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Forbidden",
+          message: error.message,
+        },
+        { status: 403 }
+      )
+    }
+
+    if (isTaskNotFound(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Task not found",
+          message: error.message,
+        },
+        { status: 404 }
+      )
+    }
+
     console.error("Error updating task:", error)
     return NextResponse.json(
       {
@@ -91,21 +216,55 @@ export async function PATCH(
  * DELETE /api/tasks/[id]
  *
  * Delete a task
+ * Query params:
+ *   - modifiedBy: Name recorded in the change history when authentication is off
  */
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await authorize("editor")
+    if (auth.response) return auth.response
+
     const { id } = await params
     const provider = await getDataProviderAsync()
+    const previous = (await getTasksById([id])).get(id)
     await provider.deleteTask(id)
+    await recordTaskChanges(
+      previous ? getTaskChanges(previous, null) : [],
+      getChangeAuthor(auth.user, request.nextUrl.searchParams.get("modifiedBy")),
+      "Delete task"
+    )
+    publishTaskDeleted(id, request.headers.get(REALTIME_CLIENT_HEADER), request.headers.get(PROJECT_HEADER))
 
     return NextResponse.json({
       success: true,
       message: "Task deleted successfully",
     })
   } catch (error) {
+    if (isTaskAccessDenied(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Forbidden",
+          message: error.message,
+        },
+        { status: 403 }
+      )
+    }
+
+    if (isTaskNotFound(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Task not found",
+          message: error.message,
+        },
+        { status: 404 }
+      )
+    }
+
     console.error("Error deleting task:", error)
     return NextResponse.json(
       {
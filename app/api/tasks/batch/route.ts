@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authorize } from "@/lib/auth/session"
+import { getDataProviderAsync } from "@/lib/providers/provider-factory"
+import { isTaskAccessDenied } from "@/lib/providers/access-control"
+import { isTaskBatchError, parseTaskBatchInput } from "@/lib/providers/batch"
+import { isTaskVersionConflict } from "@/lib/providers/concurrency"
+import {
+  getBatchChanges,
+  getChangeAuthor,
+  getRecordedTasks,
+  getResultTasks,
+  getTasksById,
+  recordTaskChanges,
+} from "@/lib/providers/history-recorder"
+import { publishTaskDeleted, publishTaskEvent, REALTIME_CLIENT_HEADER } from "@/lib/realtime/event-hub"
+import { PROJECT_HEADER } from "@/lib/utils/projects"
+import type { TaskBatchOperation } from "@/types/task"
+
+/**
+ * POST /api/tasks/batch
+ *
+ * Create, update and delete tasks in one all-or-nothing request (e.g. an import)
+ * Body: { operations: [{ type: "create", data } | { type: "update", id, data } | { type: "delete", id }], modifiedBy? }
+ * Responds with a result per operation, in order. When an operation fails
+ * nothing is kept: the response lists the failed operation, the ones rolled
+ * back before it and the ones skipped after it. A task no longer at the
+ * version an update gives fails the batch with 409 and its current copy.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authorize("editor")
+  if (auth.response) return auth.response
+
+  let operations: TaskBatchOperation[]
+  let modifiedBy: unknown
+  try {
+    const body = await request.json()
+    modifiedBy = body.modifiedBy
+    operations = parseTaskBatchInput(auth.user ? { ...body, modifiedBy: auth.user.name } : body)
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Invalid batch",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const provider = await getDataProviderAsync()
+    const previous = await getTasksById(
+      operations.flatMap((operation) => (operation.type === "create" ? [] : [operation.id]))
+    )
+    const results = await provider.applyTaskBatch(operations)
+    const current = await getRecordedTasks(provider, getResultTasks(results))
+    await recordTaskChanges(
+      getBatchChanges(results, previous, current),
+      getChangeAuthor(auth.user, modifiedBy),
+      "Batch change"
+    )
+
+    const origin = request.headers.get(REALTIME_CLIENT_HEADER)
+    const projectId = request.headers.get(PROJECT_HEADER)
+    results.forEach((result) => {
+      if (result.type === "delete") publishTaskDeleted(result.id!, origin, projectId)
+      else if (result.task) publishTaskEvent(result.type === "create" ? "task.created" : "task.updated", result.task, origin, projectId)
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: results,
+      total: results.length,
+    })
+  } catch (error) {
+    if (isTaskBatchError(error)) {
+      const conflict = isTaskVersionConflict(error.reason)
+      return NextResponse.json(
+        {
+          success: false,
+          error: conflict ? "Version conflict" : "Batch failed",
+          message: error.message,
+          data: error.results,
+          current: isTaskVersionConflict(error.reason) ? error.reason.current : undefined,
+        },
+        { status: conflict ? 409 : 422 }
+      )
+    }
+
+    if (isTaskAccessDenied(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Forbidden",
+          message: error.message,
+        },
+        { status: 403 }
+      )
+    }
+
+    console.error("Error applying task batch:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to apply task batch",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
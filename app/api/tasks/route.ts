@@ -1,44 +1,132 @@
 import { NextRequest, NextResponse } from "next/server"
+import { authorize } from "@/lib/auth/session"
 import { getDataProviderAsync } from "@/lib/providers/provider-factory"
-import { CreateTaskDTO } from "@/types/task"
+import { findHiddenQueryField, getHiddenTaskFields, isTaskAccessDenied, isTaskNotFound } from "@/lib/providers/access-control"
+import { parseTaskPredecessors } from "@/lib/providers/dependencies"
+import { parseTaskAssignments } from "@/lib/providers/resources"
+import { isTaskVersionConflict, parseExpectedVersion } from "@/lib/providers/concurrency"
+import { isTaskBatchError } from "@/lib/providers/batch"
+import {
+  getBatchChanges,
+  getChangeAuthor,
+  getRecordedTasks,
+  getResultTasks,
+  getTasksById,
+  recordTaskChanges,
+} from "@/lib/providers/history-recorder"
+import {
+  filterTasks,
+  hasTaskQuery,
+  isTaskQueryError,
+  parseTaskPriority,
+  parseTaskQuery,
+  parseTaskTags,
+  sortTasks,
+} from "@/lib/providers/task-query"
+import { publishTaskEvent, REALTIME_CLIENT_HEADER } from "@/lib/realtime/event-hub"
+import { getTaskChanges } from "@/lib/utils/task-changes"
+import { PROJECT_HEADER } from "@/lib/utils/projects"
+import { CreateTaskDTO, Task, TaskAssignmentDTO, TaskPredecessorDTO, TaskQueryParams } from "@/types/task"
 
 /**
  * GET /api/tasks
  *
- * List tasks with optional pagination and filtering
+ * List tasks with optional pagination, filtering, search and sorting
  * Query params:
  *   - page: Page number (default: 1)
  *   - pageSize: Items per page (default: 100)
  *   - all: If "true", fetch all tasks without pagination
+ *   - startDate, endDate: Only tasks within this range (ISO dates)
+ *   - statusId, group, owner, priority, resourceId: Exact-match filters
+ *   - tags: Tasks with any of these tags (repeated or comma-separated)
+ *   - search: Case-insensitive match on name, description, owner or group
+ *   - sortBy: name, startAt, endAt, status, group, owner, progress, priority,
+ *     createdAt or updatedAt (default: startAt)
+ *   - sortOrder: asc or desc (default: asc); tasks without a value come last
+ * Pages are filtered and sorted by the data source; a query it can't apply
+ * is answered with 400. Tasks and fields
+ * hidden by the project's access rules are left out; the hidden fields are
+ * listed in hiddenFields, can't be filtered or sorted by and aren't searched.
  */
 export async function GET(request: NextRequest) {
+  const auth = await authorize("viewer")
+  if (auth.response) return auth.response
+
+  const searchParams = request.nextUrl.searchParams
+
+  let query: TaskQueryParams
+  try {
+    query = parseTaskQuery(searchParams)
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Invalid query",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 400 }
+    )
+  }
+
   try {
-    const searchParams = request.nextUrl.searchParams
     const fetchAll = searchParams.get("all") === "true"
 
     const provider = await getDataProviderAsync()
+    const hiddenFields = getHiddenTaskFields(provider)
+
+    const hiddenField = findHiddenQueryField(hiddenFields, query)
+    if (hiddenField) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid query",
+          message: `Tasks can't be filtered or sorted by ${hiddenField}, which is hidden from you`,
+        },
+        { status: 400 }
+      )
+    }
 
     if (fetchAll) {
       // Fetch all tasks without pagination
-      const tasks = await provider.getAllTasks()
+      let tasks = await provider.getAllTasks()
+      if (hasTaskQuery(query)) {
+        const allocations = query.resourceId
+          ? await provider.getAllocations({ resourceId: query.resourceId })
+          : undefined
+        tasks = sortTasks(filterTasks(tasks, query, allocations), query)
+      }
       return NextResponse.json({
         success: true,
         data: tasks,
         total: tasks.length,
+        ...(hiddenFields.length > 0 && { hiddenFields }),
       })
     } else {
       // Fetch with pagination
-      const page = parseInt(searchParams.get("page") || "1", 10)
-      const pageSize = parseInt(searchParams.get("pageSize") || "100", 10)
-
-      const result = await provider.getTasks({ page, pageSize })
+      const result = await provider.getTasks({
+        ...query,
+        page: query.page ?? 1,
+        pageSize: query.pageSize ?? 100,
+      })
 
       return NextResponse.json({
         success: true,
         ...result,
+        ...(hiddenFields.length > 0 && { hiddenFields }),
       })
     }
   } catch (error) {
+    if (isTaskQueryError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid query",
+          message: error.message,
+        },
+        { status: 400 }
+      )
+    }
+
     console.error("Error fetching tasks:", error)
     return NextResponse.json(
       {
@@ -55,9 +143,13 @@ export async function GET(request: NextRequest) {
  * POST /api/tasks
  *
  * Create a new task
+ * An id in the body is kept where the data source allows it (restoring a deleted task).
  */
 export async function POST(request: NextRequest) {
   try {
+    const auth = await authorize("editor")
+    if (auth.response) return auth.response
+
     const body = await request.json()
 
     // Validate required fields
@@ -71,7 +163,52 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    let dependencies: TaskPredecessorDTO[] | undefined
+    try {
+      dependencies = parseTaskPredecessors(body.dependencies)
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid dependencies",
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 400 }
+      )
+    }
+
+    let assignments: TaskAssignmentDTO[] | undefined
+    try {
+      assignments = parseTaskAssignments(body.assignments)
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid assignments",
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 400 }
+      )
+    }
+
+    let priority: Task["priority"] | null = null
+    let tags: string[] | undefined
+    try {
+      if (body.priority !== undefined) priority = parseTaskPriority(body.priority)
+      if (body.tags !== undefined) tags = parseTaskTags(body.tags)
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid priority or tags",
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 400 }
+      )
+    }
+
     const taskData: CreateTaskDTO = {
+      id: body.id ? String(body.id) : undefined,
       name: body.name,
       startAt: new Date(body.startAt),
       endAt: new Date(body.endAt),
@@ -80,10 +217,25 @@ export async function POST(request: NextRequest) {
       owner: body.owner,
       description: body.description,
       progress: body.progress,
+      priority: priority || undefined,
+      tags,
+      isMilestone: body.isMilestone !== undefined ? Boolean(body.isMilestone) : undefined,
+      parentId: body.parentId ? String(body.parentId) : undefined,
+      dependencies,
+      assignments,
+      modifiedBy: auth.user?.name ?? (body.modifiedBy ? String(body.modifiedBy) : undefined),
     }
 
     const provider = await getDataProviderAsync()
     const task = await provider.createTask(taskData)
+    const recorded = (await getRecordedTasks(provider, [task])).get(task.id) ?? null
+    await recordTaskChanges(getTaskChanges(null, recorded), getChangeAuthor(auth.user, body.modifiedBy), "Create task")
+    publishTaskEvent(
+      "task.created",
+      task,
+      request.headers.get(REALTIME_CLIENT_HEADER),
+      request.headers.get(PROJECT_HEADER)
+    )
 
     return NextResponse.json(
       {
@@ -93,6 +245,17 @@ export async function POST(request: NextRequest) {
       { status: 201 }
     )
   } catch (error) {
+    if (isTaskAccessDenied(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Forbidden",
+          message: error.message,
+        },
+        { status: 403 }
+      )
+    }
+
     console.error("Error creating task:", error)
     return NextResponse.json(
       {
@@ -104,3 +267,131 @@ export async function POST(request: NextRequest) {
     )
   }
 }
+
+/**
+ * PATCH /api/tasks
+ *
+ * Reschedule several tasks in one request (e.g. a move propagated to successors)
+ * Body: { tasks: [{ id, startAt, endAt, version? }], modifiedBy? }
+ * The updates are applied all or nothing (see POST /api/tasks/batch).
+ * A task no longer at the given version fails the batch with 409 and its current copy.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const auth = await authorize("editor")
+    if (auth.response) return auth.response
+
+    const body = await request.json()
+
+    if (!Array.isArray(body.tasks) || body.tasks.length === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Missing required field: tasks",
+        },
+        { status: 400 }
+      )
+    }
+
+    const updates: { id: string; startAt: Date; endAt: Date; expectedVersion?: number }[] = []
+    for (const item of body.tasks) {
+      const startAt = new Date(item?.startAt)
+      const endAt = new Date(item?.endAt)
+
+      if (!item?.id || isNaN(startAt.getTime()) || isNaN(endAt.getTime())) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "Each task requires id, startAt and endAt",
+          },
+          { status: 400 }
+        )
+      }
+
+      let expectedVersion: number | undefined
+      try {
+        expectedVersion = parseExpectedVersion(item.version)
+      } catch (error) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "Invalid version",
+            message: error instanceof Error ? error.message : "Unknown error",
+          },
+          { status: 400 }
+        )
+      }
+
+      updates.push({ id: String(item.id), startAt, endAt, expectedVersion })
+    }
+    const modifiedBy = auth.user?.name ?? (body.modifiedBy ? String(body.modifiedBy) : undefined)
+
+    // Applied as one batch, so the schedule is never left half-moved
+    const provider = await getDataProviderAsync()
+    const previous = await getTasksById(updates.map((update) => update.id))
+    const results = await provider.applyTaskBatch(
+      updates.map(({ id, ...data }) => ({ type: "update", id, data: { ...data, modifiedBy } }))
+    )
+    const updated = results.map((result) => result.task!)
+    await recordTaskChanges(
+      getBatchChanges(results, previous, await getRecordedTasks(provider, updated)),
+      getChangeAuthor(auth.user, body.modifiedBy),
+      "Reschedule tasks"
+    )
+
+    const origin = request.headers.get(REALTIME_CLIENT_HEADER)
+    const projectId = request.headers.get(PROJECT_HEADER)
+    updated.forEach((task) => publishTaskEvent("task.updated", task, origin, projectId))
+
+    return NextResponse.json({
+      success: true,
+      data: updated,
+      total: updated.length,
+    })
+  } catch (caught) {
+    const error = isTaskBatchError(caught) ? caught.reason : caught
+    if (isTaskVersionConflict(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Version conflict",
+          message: error.message,
+          data: error.current,
+        },
+        { status: 409 }
+      )
+    }
+
+    if (isTaskAccessDenied(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Forbidden",
+          message: error.message,
+        },
+        { status: 403 }
+      )
+    }
+
+    if (isTaskNotFound(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Task not found",
+          message: error.message,
+        },
+        { status: 404 }
+      )
+    }
+
+    console.error("Error rescheduling tasks:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to reschedule tasks",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,12 @@
 import { NextRequest, NextResponse } from "next/server"
 import { revalidatePath } from "next/cache"
+import { loadProviderConfig } from "@/lib/config-storage"
+import { getAuthStatus } from "@/lib/auth/session"
+import { getDataProviderAsync, getUnrestrictedProviderAsync } from "@/lib/providers/provider-factory"
+import { BaserowProvider } from "@/lib/providers/baserow/baserow-provider"
+import { recordTaskChanges } from "@/lib/providers/history-recorder"
+import { publishTaskDeleted, publishTaskEvent } from "@/lib/realtime/event-hub"
+import { getTaskChanges, type TaskFieldChange } from "@/lib/utils/task-changes"
 
 /**
  * Baserow Webhook Event Types
@@ -8,11 +15,99 @@ interface BaserowWebhookEvent {
   table_id: number
   event_id: string
   event_type: "rows.created" | "rows.updated" | "rows.deleted"
-  items: Array<{
+  items?: Array<{
     id: number
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     [key: string]: any
   }>
+  row_ids?: number[] // Sent instead of full items for rows.deleted
+  old_items?: Array<{
+    id: number
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    [key: string]: any
+  }> // Rows as they were before rows.updated
+}
+
+// Changes this server recorded itself come back as webhooks within this window
+const RECORDED_CHANGE_WINDOW_MS = 60 * 1000
+
+function getChangeKey(change: TaskFieldChange): string {
+  return change.changeType === "update"
+    ? `${change.taskId}:update:${change.field}:${JSON.stringify(change.newValue)}`
+    : `${change.taskId}:${change.changeType}`
+}
+
+/**
+ * Record changes made in Baserow itself in the change history
+ * Baserow also sends webhooks for the changes made through this app, which
+ * the task API has recorded already; those are left out.
+ */
+async function recordTaskRows(event: BaserowWebhookEvent): Promise<void> {
+  const provider = await getUnrestrictedProviderAsync()
+  if (!(provider instanceof BaserowProvider)) return
+
+  const [items, oldItems] = await Promise.all([
+    provider.mapRowsToTasks(event.items || []),
+    provider.mapRowsToTasks(event.old_items || []),
+  ])
+  const oldById = new Map(oldItems.map((task) => [task.id, task]))
+
+  let changes: TaskFieldChange[]
+  if (event.event_type === "rows.created") {
+    changes = items.flatMap((task) => getTaskChanges(null, task))
+  } else if (event.event_type === "rows.updated") {
+    changes = items.flatMap((task) => (oldById.has(task.id) ? getTaskChanges(oldById.get(task.id)!, task) : []))
+  } else {
+    // Deletes may only carry row ids, then there is no copy to restore from
+    const deleted = new Map(items.map((task) => [task.id, task]))
+    const rowIds = event.row_ids?.map(String) || [...deleted.keys()]
+    changes = rowIds.flatMap((rowId) =>
+      deleted.has(rowId) ? getTaskChanges(deleted.get(rowId)!, null) : [{ taskId: rowId, changeType: "delete" as const }]
+    )
+  }
+  if (changes.length === 0) return
+
+  const recorded = new Set(
+    (await provider.getChangeHistory({ from: new Date(Date.now() - RECORDED_CHANGE_WINDOW_MS) })).flatMap(
+      (changeSet) => changeSet.changes.map(getChangeKey)
+    )
+  )
+  await recordTaskChanges(
+    changes.filter((change) => !recorded.has(getChangeKey(change))),
+    {},
+    "Changed in Baserow"
+  )
+}
+
+async function isTasksTableEvent(event: BaserowWebhookEvent): Promise<boolean> {
+  const savedConfig = await loadProviderConfig()
+  const tasksTableId = savedConfig?.baserow?.tasksTableId || process.env.BASEROW_TABLE_ID_TASKS
+  return Boolean(tasksTableId) && String(event.table_id) === String(tasksTableId)
+}
+
+/**
+ * Push changed task rows to connected clients
+ * Rows are re-read through the provider so clients get mapped Task objects.
+ */
+async function broadcastTaskRows(event: BaserowWebhookEvent): Promise<void> {
+  if (!(await isTasksTableEvent(event))) return
+
+  if (event.event_type === "rows.deleted") {
+    const rowIds = event.row_ids || event.items?.map((item) => item.id) || []
+    rowIds.forEach((rowId) => publishTaskDeleted(String(rowId)))
+    return
+  }
+
+  const type = event.event_type === "rows.created" ? "task.created" : "task.updated"
+  const provider = await getDataProviderAsync()
+  for (const item of event.items || []) {
+    try {
+      const task = await provider.getTaskById(String(item.id))
+      if (task) publishTaskEvent(type, task)
+    } catch (error) {
+      console.error(`[Webhook] Failed to load task ${item.id} for broadcast:`, error)
+    }
+  }
 }
 
 /**
@@ -21,8 +116,9 @@ interface BaserowWebhookEvent {
  * Webhook receiver for Baserow events
  *
  * Baserow can send webhook events when rows are created, updated, or deleted.
- * This endpoint receives those events and can trigger cache invalidation,
- * broadcast updates to clients, or perform other actions.
+ * This endpoint invalidates cached pages and, for rows of the tasks table,
+ * pushes the changed tasks to open Gantt charts through /api/events and
+ * records the changes made in Baserow in the change history.
  *
  * To set up webhooks in Baserow:
  * 1. Go to your table settings
@@ -30,14 +126,24 @@ interface BaserowWebhookEvent {
  * 3. Click "Create webhook"
  * 4. Set the URL to: https://your-domain.com/api/webhooks/baserow
  * 5. Select the events you want to receive (rows.created, rows.updated, rows.deleted)
- * 6. Optionally set headers for authentication (e.g., X-Webhook-Secret)
+ * 6. Add an X-Webhook-Secret header with the value of BASEROW_WEBHOOK_SECRET
+ *
+ * With sign-in on, the secret is required: without BASEROW_WEBHOOK_SECRET
+ * every webhook call is rejected.
  */
 export async function POST(request: NextRequest) {
   const startTime = Date.now()
 
   try {
-    // Verify webhook secret if configured
+    // Verify the webhook secret; with sign-in on, calls are only accepted with one
     const webhookSecret = process.env.BASEROW_WEBHOOK_SECRET
+    if (!webhookSecret && getAuthStatus().enabled) {
+      console.warn("Webhook rejected: sign-in is on and BASEROW_WEBHOOK_SECRET is not set")
+      return NextResponse.json(
+        { error: "Unauthorized", message: "Set BASEROW_WEBHOOK_SECRET to accept Baserow webhooks" },
+        { status: 401 }
+      )
+    }
     if (webhookSecret) {
       const receivedSecret = request.headers.get("x-webhook-secret")
       if (receivedSecret !== webhookSecret) {
@@ -51,13 +157,15 @@ export async function POST(request: NextRequest) {
 
     // Parse webhook payload
     const event: BaserowWebhookEvent = await request.json()
+    // rows.deleted payloads may carry only row_ids
+    const itemCount = event.items?.length ?? event.row_ids?.length ?? 0
 
     // Log the event for debugging
     console.log("[Webhook] Received Baserow webhook:", {
       eventId: event.event_id,
       eventType: event.event_type,
       tableId: event.table_id,
-      itemCount: event.items?.length || 0,
+      itemCount,
       timestamp: new Date().toISOString(),
     })
 
@@ -69,15 +177,15 @@ export async function POST(request: NextRequest) {
     // Handle different event types
     switch (event.event_type) {
       case "rows.created":
-        console.log(`[Webhook] ${event.items.length} row(s) created`)
+        console.log(`[Webhook] ${itemCount} row(s) created`)
         break
 
       case "rows.updated":
-        console.log(`[Webhook] ${event.items.length} row(s) updated`)
+        console.log(`[Webhook] ${itemCount} row(s) updated`)
         break
 
       case "rows.deleted":
-        console.log(`[Webhook] ${event.items.length} row(s) deleted`)
+        console.log(`[Webhook] ${itemCount} row(s) deleted`)
         break
 
       default:
@@ -89,11 +197,14 @@ export async function POST(request: NextRequest) {
     revalidatePath("/gantt")
     revalidatePath("/api/tasks")
 
-    // You can also implement real-time updates here using:
-    // - Server-Sent Events (SSE)
-    // - WebSockets
-    // - Next.js Server Actions with revalidation
-    // - Third-party services like Pusher, Ably, etc.
+    await broadcastTaskRows(event)
+    if (await isTasksTableEvent(event)) {
+      try {
+        await recordTaskRows(event)
+      } catch (error) {
+        console.error("[Webhook] Failed to record change history:", error)
+      }
+    }
 
     const duration = Date.now() - startTime
 
@@ -101,7 +212,7 @@ export async function POST(request: NextRequest) {
       success: true,
       message: "Webhook processed successfully",
       eventType: event.event_type,
-      itemCount: event.items.length,
+      itemCount,
       processingTime: `${duration}ms`,
     })
   } catch (error) {
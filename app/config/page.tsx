@@ -6,15 +6,20 @@
  * @created 2025-10-25
  */
 
-import React, { useState } from 'react'
+import React, { useEffect, useState } from 'react'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { ClientSessionManager } from '@/lib/client-session-manager'
 import { FieldMapper } from '@/components/field-mapper'
 import { BaserowFieldMapping } from '@/lib/providers/baserow/field-mapping'
 import { BaserowFieldMetadata } from '@/lib/providers/baserow/field-detector'
+import { PROVIDER_TYPES, type ProviderType } from '@/lib/providers/data-provider.interface'
+import type { MigrationReport } from '@/lib/providers/migration'
+import type { ConfigProfileSummary } from '@/lib/providers/provider-config'
+import { useGanttUIStore } from '@/lib/stores/gantt-ui-store'
+import { useSession } from '@/lib/hooks/use-session'
+import { UserManagement } from '@/components/user-management'
 
-type ProviderType = 'demo' | 'baserow' | 'postgres'
 type DeploymentMode = 'server' | 'client'
 
 interface BaserowConfig {
@@ -33,6 +38,25 @@ interface PostgresConfig {
   ssl: boolean
 }
 
+interface MySQLConfig {
+  host: string
+  port: number
+  database: string
+  user: string
+  password: string
+}
+
+interface MongoDBConfig {
+  uri: string
+  database: string
+}
+
+interface ExcelConfig {
+  filePath: string
+  tasksSheet: string
+  statusesSheet: string
+}
+
 interface Workspace {
   id: number
   name: string
@@ -57,6 +81,7 @@ interface Field {
 
 export default function ConfigPage() {
   const router = useRouter()
+  const session = useSession()
   const [deploymentMode, setDeploymentMode] = useState<DeploymentMode>('server')
   const [providerType, setProviderType] = useState<ProviderType>('demo')
   const [baserowConfig, setBaserowConfig] = useState<BaserowConfig>({
@@ -73,11 +98,41 @@ export default function ConfigPage() {
     password: '',
     ssl: false,
   })
+  const [mysqlConfig, setMySQLConfig] = useState<MySQLConfig>({
+    host: 'localhost',
+    port: 3306,
+    database: 'gantt_db',
+    user: 'gantt_user',
+    password: '',
+  })
+  const [mongodbConfig, setMongoDBConfig] = useState<MongoDBConfig>({
+    uri: 'mongodb://localhost:27017',
+    database: 'gantt_db',
+  })
+  const [excelConfig, setExcelConfig] = useState<ExcelConfig>({
+    filePath: './data/gantt.xlsx',
+    tasksSheet: 'Tasks',
+    statusesSheet: 'Statuses',
+  })
   const [testing, setTesting] = useState(false)
+  const [saving, setSaving] = useState(false)
   const [testResult, setTestResult] = useState<{
     success: boolean
     message: string
   } | null>(null)
+  const [migrating, setMigrating] = useState(false)
+  const [migrationResult, setMigrationResult] = useState<{
+    success: boolean
+    message: string
+    data?: MigrationReport
+  } | null>(null)
+  const [profiles, setProfiles] = useState<ConfigProfileSummary[]>([])
+  const [profileName, setProfileName] = useState('')
+  const [saveCurrentView, setSaveCurrentView] = useState(false)
+  const [profileResult, setProfileResult] = useState<{
+    success: boolean
+    message: string
+  } | null>(null)
   const [workspaces, setWorkspaces] = useState<Workspace[]>([])
   const [tables, setTables] = useState<Table[]>([])
   const [fields, setFields] = useState<Field[]>([])
@@ -87,6 +142,33 @@ export default function ConfigPage() {
   const [selectedWorkspace, setSelectedWorkspace] = useState<string>('')
   const [showFieldMapping, setShowFieldMapping] = useState(false)
 
+  const buildProviderBody = () => ({
+    type: providerType,
+    ...(providerType === 'baserow' && baserowConfig),
+    ...(providerType === 'postgres' && postgresConfig),
+    ...(providerType === 'mysql' && mysqlConfig),
+    ...(providerType === 'mongodb' && mongodbConfig),
+    ...(providerType === 'excel' && excelConfig),
+  })
+
+  const loadProfiles = async () => {
+    try {
+      const response = await fetch('/api/config/profiles')
+      const data = await response.json()
+      if (data.success) {
+        setProfiles(data.data)
+      }
+    } catch (error) {
+      console.error('Failed to load profiles:', error)
+    }
+  }
+
+  useEffect(() => {
+    if (deploymentMode === 'server' && session.ready) {
+      loadProfiles()
+    }
+  }, [deploymentMode, session.ready])
+
   const testConnection = async () => {
     setTesting(true)
     setTestResult(null)
@@ -95,11 +177,7 @@ export default function ConfigPage() {
       const response = await fetch('/api/config/test', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          type: providerType,
-          ...(providerType === 'baserow' && baserowConfig),
-          ...(providerType === 'postgres' && postgresConfig),
-        }),
+        body: JSON.stringify(buildProviderBody()),
       })
 
       const data = await response.json()
@@ -114,6 +192,107 @@ export default function ConfigPage() {
     }
   }
 
+  // The display options of the chart that a profile can restore
+  const getDefaultView = () => {
+    const { scale, zoom, showWeekends, showDependencies, showCriticalPath, showMilestones, showResources } =
+      useGanttUIStore.getState().viewConfig
+    return { scale, zoom, showWeekends, showDependencies, showCriticalPath, showMilestones, showResources }
+  }
+
+  const activateProfile = async (profile: ConfigProfileSummary) => {
+    setProfileResult(null)
+
+    try {
+      const response = await fetch(`/api/config/profiles/${profile.id}/activate`, { method: 'POST' })
+      const data = await response.json()
+      setProfileResult(data)
+      if (data.success) {
+        if (data.data.defaultView) {
+          useGanttUIStore.getState().updateViewConfig(data.data.defaultView)
+        }
+        loadProfiles()
+      }
+    } catch (error) {
+      setProfileResult({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to activate profile',
+      })
+    }
+  }
+
+  const deleteProfile = async (profile: ConfigProfileSummary) => {
+    if (!confirm(`Delete the profile "${profile.name}"?`)) return
+    setProfileResult(null)
+
+    try {
+      const response = await fetch(`/api/config/profiles/${profile.id}`, { method: 'DELETE' })
+      const data = await response.json()
+      setProfileResult(data)
+      if (data.success) {
+        loadProfiles()
+      }
+    } catch (error) {
+      setProfileResult({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to delete profile',
+      })
+    }
+  }
+
+  const saveConfiguration = async () => {
+    setSaving(true)
+    setTestResult(null)
+
+    try {
+      const response = await fetch('/api/config/save', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...buildProviderBody(),
+          profileName: profileName.trim() || undefined,
+          ...(saveCurrentView && { defaultView: getDefaultView() }),
+        }),
+      })
+
+      const data = await response.json()
+      setTestResult(data)
+      if (data.success) {
+        loadProfiles()
+      }
+    } catch (error) {
+      setTestResult({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to save configuration',
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // Copy the active data source into the provider configured on this page
+  const runMigration = async (options: { dryRun?: boolean; resumeId?: string }) => {
+    setMigrating(true)
+    setMigrationResult(null)
+
+    try {
+      const response = await fetch('/api/config/migrate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ source: 'active', target: buildProviderBody(), ...options }),
+      })
+
+      const data = await response.json()
+      setMigrationResult(data)
+    } catch (error) {
+      setMigrationResult({
+        success: false,
+        message: error instanceof Error ? error.message : 'Migration failed',
+      })
+    } finally {
+      setMigrating(false)
+    }
+  }
+
   const loadWorkspaces = async () => {
     if (providerType !== 'baserow' || !baserowConfig.token) return
 
@@ -347,12 +526,71 @@ export default function ConfigPage() {
           </div>
         )}
 
+        {/* Saved Profiles - Server Mode Only */}
+        {deploymentMode === 'server' && profiles.length > 0 && (
+          <div className="bg-white rounded-lg shadow p-6 mb-6">
+            <h2 className="text-xl font-semibold mb-2">Saved Profiles</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Switch between saved data sources. Activating a profile also applies its default chart view.
+            </p>
+            <ul className="divide-y">
+              {profiles.map((profile) => (
+                <li key={profile.id} className="flex items-center justify-between py-3">
+                  <div>
+                    <div className="font-medium">
+                      {profile.name}
+                      {profile.active && (
+                        <span className="ml-2 px-2 py-0.5 text-xs bg-green-100 text-green-800 rounded">Active</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1">{profile.description}</div>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => activateProfile(profile)}
+                      disabled={profile.active}
+                      className="px-4 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                    >
+                      Activate
+                    </button>
+                    <button
+                      onClick={() => deleteProfile(profile)}
+                      disabled={profile.active}
+                      className="px-4 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:text-gray-400 disabled:cursor-not-allowed"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            {profileResult && (
+              <div
+                className={`mt-4 p-4 rounded-md ${
+                  profileResult.success ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+                }`}
+              >
+                <div className="font-medium">
+                  {profileResult.success ? '✓ Success' : '✗ Failed'}
+                </div>
+                <div className="text-sm mt-1">{profileResult.message}</div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Users - Local Sign-In Only */}
+        {session.user?.role === 'admin' && session.providers.includes('local') && (
+          <UserManagement currentUserId={session.user.id} />
+        )}
+
         {/* Provider Type Selection */}
         {deploymentMode === 'server' && (
           <div className="bg-white rounded-lg shadow p-6 mb-6">
             <h2 className="text-xl font-semibold mb-4">Provider Type</h2>
             <div className="grid grid-cols-3 gap-4">
-              {(['demo', 'baserow', 'postgres'] as ProviderType[]).map((type) => (
+              {PROVIDER_TYPES.map((type) => (
                 <button
                   key={type}
                   onClick={() => setProviderType(type)}
@@ -367,6 +605,9 @@ export default function ConfigPage() {
                     {type === 'demo' && 'Built-in sample data'}
                     {type === 'baserow' && 'Connect to Baserow'}
                     {type === 'postgres' && 'PostgreSQL database'}
+                    {type === 'mysql' && 'MySQL database'}
+                    {type === 'mongodb' && 'MongoDB database'}
+                    {type === 'excel' && 'Excel workbook on the server'}
                   </div>
                 </button>
               ))}
@@ -971,10 +1212,224 @@ export default function ConfigPage() {
           </div>
         )}
 
+        {/* MySQL Configuration */}
+        {deploymentMode === 'server' && providerType === 'mysql' && (
+          <div className="bg-white rounded-lg shadow p-6 mb-6">
+            <h2 className="text-xl font-semibold mb-4">MySQL Configuration</h2>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Host
+                  </label>
+                  <input
+                    type="text"
+                    value={mysqlConfig.host}
+                    onChange={(e) => setMySQLConfig({ ...mysqlConfig, host: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                    placeholder="localhost"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Port
+                  </label>
+                  <input
+                    type="number"
+                    value={mysqlConfig.port}
+                    onChange={(e) =>
+                      setMySQLConfig({
+                        ...mysqlConfig,
+                        port: parseInt(e.target.value) || 3306,
+                      })
+                    }
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                    placeholder="3306"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Database
+                </label>
+                <input
+                  type="text"
+                  value={mysqlConfig.database}
+                  onChange={(e) => setMySQLConfig({ ...mysqlConfig, database: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  placeholder="gantt_db"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  User
+                </label>
+                <input
+                  type="text"
+                  value={mysqlConfig.user}
+                  onChange={(e) => setMySQLConfig({ ...mysqlConfig, user: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  placeholder="gantt_user"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Password
+                </label>
+                <input
+                  type="password"
+                  value={mysqlConfig.password}
+                  onChange={(e) => setMySQLConfig({ ...mysqlConfig, password: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  placeholder="Enter password"
+                />
+              </div>
+
+              <div className="bg-blue-50 p-4 rounded-md">
+                <h3 className="font-medium text-blue-900 mb-2">Database Setup</h3>
+                <p className="text-sm text-blue-800 mb-2">
+                  To set up the MySQL database, run the schema script:
+                </p>
+                <code className="block bg-white p-2 rounded text-sm">
+                  mysql -u gantt_user -p gantt_db &lt; lib/providers/mysql/schema.sql
+                </code>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* MongoDB Configuration */}
+        {deploymentMode === 'server' && providerType === 'mongodb' && (
+          <div className="bg-white rounded-lg shadow p-6 mb-6">
+            <h2 className="text-xl font-semibold mb-4">MongoDB Configuration</h2>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Connection URI
+                </label>
+                <input
+                  type="text"
+                  value={mongodbConfig.uri}
+                  onChange={(e) => setMongoDBConfig({ ...mongodbConfig, uri: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  placeholder="mongodb://localhost:27017"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Database
+                </label>
+                <input
+                  type="text"
+                  value={mongodbConfig.database}
+                  onChange={(e) =>
+                    setMongoDBConfig({ ...mongodbConfig, database: e.target.value })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  placeholder="gantt_db"
+                />
+              </div>
+
+              <div className="bg-blue-50 p-4 rounded-md">
+                <p className="text-sm text-blue-800">
+                  Collections and indexes are created automatically. Default statuses are
+                  added when the statuses collection is empty.
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Excel Configuration */}
+        {deploymentMode === 'server' && providerType === 'excel' && (
+          <div className="bg-white rounded-lg shadow p-6 mb-6">
+            <h2 className="text-xl font-semibold mb-4">Excel Configuration</h2>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  File Path
+                </label>
+                <input
+                  type="text"
+                  value={excelConfig.filePath}
+                  onChange={(e) => setExcelConfig({ ...excelConfig, filePath: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  placeholder="./data/gantt.xlsx"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Tasks Sheet
+                  </label>
+                  <input
+                    type="text"
+                    value={excelConfig.tasksSheet}
+                    onChange={(e) =>
+                      setExcelConfig({ ...excelConfig, tasksSheet: e.target.value })
+                    }
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                    placeholder="Tasks"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Statuses Sheet
+                  </label>
+                  <input
+                    type="text"
+                    value={excelConfig.statusesSheet}
+                    onChange={(e) =>
+                      setExcelConfig({ ...excelConfig, statusesSheet: e.target.value })
+                    }
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                    placeholder="Statuses"
+                  />
+                </div>
+              </div>
+
+              <div className="bg-blue-50 p-4 rounded-md">
+                <p className="text-sm text-blue-800">
+                  The path is resolved on the server. If the workbook does not exist it is
+                  created with default statuses when the configuration is saved.
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Test Connection - Server Mode Only */}
         {deploymentMode === 'server' && (
           <div className="bg-white rounded-lg shadow p-6 mb-6">
             <h2 className="text-xl font-semibold mb-4">Test Connection</h2>
+            <div className="flex items-center gap-4 mb-4">
+              <input
+                type="text"
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                placeholder="Profile name (defaults to the provider name)"
+                maxLength={100}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md"
+              />
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={saveCurrentView}
+                  onChange={(e) => setSaveCurrentView(e.target.checked)}
+                />
+                Save current chart view as default
+              </label>
+            </div>
             <button
               onClick={testConnection}
               disabled={testing}
@@ -982,6 +1437,13 @@ export default function ConfigPage() {
             >
               {testing ? 'Testing...' : 'Test Connection'}
             </button>
+            <button
+              onClick={saveConfiguration}
+              disabled={saving}
+              className="ml-3 px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save & Activate'}
+            </button>
 
             {testResult && (
               <div
@@ -1000,6 +1462,88 @@ export default function ConfigPage() {
           </div>
         )}
 
+        {/* Migrate Data - Server Mode Only */}
+        {deploymentMode === 'server' && providerType !== 'demo' && (
+          <div className="bg-white rounded-lg shadow p-6 mb-6">
+            <h2 className="text-xl font-semibold mb-2">Migrate Data</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Copy the statuses, resources, tasks, dependencies and calendar of the active data source into the
+              provider configured above. Statuses and resources are matched by name. Run a dry run first to see
+              what would be copied, then use <strong>Save &amp; Activate</strong> to switch over.
+            </p>
+            <button
+              onClick={() => runMigration({ dryRun: true })}
+              disabled={migrating}
+              className="px-6 py-2 border border-gray-300 rounded-md hover:bg-gray-50 disabled:bg-gray-100 disabled:cursor-not-allowed"
+            >
+              Dry Run
+            </button>
+            <button
+              onClick={() => runMigration({})}
+              disabled={migrating}
+              className="ml-3 px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              {migrating ? 'Migrating...' : 'Migrate'}
+            </button>
+            {migrationResult?.data?.status === 'failed' && migrationResult.data.id && (
+              <button
+                onClick={() => runMigration({ resumeId: migrationResult.data!.id })}
+                disabled={migrating}
+                className="ml-3 px-6 py-2 bg-amber-600 text-white rounded-md hover:bg-amber-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+              >
+                Resume
+              </button>
+            )}
+
+            {migrationResult && (
+              <div
+                className={`mt-4 p-4 rounded-md ${
+                  migrationResult.success ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+                }`}
+              >
+                <div className="font-medium">
+                  {migrationResult.success ? '✓ Success' : '✗ Failed'}
+                </div>
+                <div className="text-sm mt-1">{migrationResult.message}</div>
+                {migrationResult.data && (
+                  <>
+                    <div className="text-xs mt-3 text-gray-700">
+                      {migrationResult.data.source} → {migrationResult.data.target}
+                    </div>
+                    <table className="text-sm mt-2">
+                      <thead>
+                        <tr className="text-left text-gray-600">
+                          <th className="pr-6 font-medium"></th>
+                          <th className="pr-6 font-medium">Total</th>
+                          <th className="pr-6 font-medium">{migrationResult.data.dryRun ? 'To copy' : 'Copied'}</th>
+                          <th className="pr-6 font-medium">Existing</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {(['statuses', 'resources', 'tasks', 'dependencies', 'allocations'] as const).map((key) => (
+                          <tr key={key}>
+                            <td className="pr-6 capitalize">{key}</td>
+                            <td className="pr-6">{migrationResult.data![key].total}</td>
+                            <td className="pr-6">{migrationResult.data![key].created}</td>
+                            <td className="pr-6">{migrationResult.data![key].existing}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    {migrationResult.data.warnings.length > 0 && (
+                      <ul className="text-sm mt-3 list-disc list-inside text-amber-800">
+                        {migrationResult.data.warnings.map((warning) => (
+                          <li key={warning}>{warning}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Instructions - Server Mode Only */}
         {deploymentMode === 'server' && (
           <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6">
@@ -1007,7 +1551,8 @@ export default function ConfigPage() {
               Configuration Instructions
             </h2>
             <p className="text-yellow-800 text-sm mb-2">
-              To apply these settings, update your <code>.env.local</code> file:
+              Use <strong>Save &amp; Activate</strong> above, or update your{' '}
+              <code>.env.local</code> file:
             </p>
             <div className="bg-white p-3 rounded-md font-mono text-xs overflow-x-auto">
               {providerType === 'demo' && <div>DATA_PROVIDER=demo</div>}
@@ -1033,9 +1578,38 @@ export default function ConfigPage() {
                   <div>POSTGRES_SSL={postgresConfig.ssl.toString()}</div>
                 </>
               )}
+
+              {providerType === 'mysql' && (
+                <>
+                  <div>DATA_PROVIDER=mysql</div>
+                  <div>MYSQL_HOST={mysqlConfig.host}</div>
+                  <div>MYSQL_PORT={mysqlConfig.port}</div>
+                  <div>MYSQL_DB={mysqlConfig.database}</div>
+                  <div>MYSQL_USER={mysqlConfig.user}</div>
+                  <div>MYSQL_PASSWORD=your_password_here</div>
+                </>
+              )}
+
+              {providerType === 'mongodb' && (
+                <>
+                  <div>DATA_PROVIDER=mongodb</div>
+                  <div>MONGODB_URI={mongodbConfig.uri}</div>
+                  <div>MONGODB_DB={mongodbConfig.database}</div>
+                </>
+              )}
+
+              {providerType === 'excel' && (
+                <>
+                  <div>DATA_PROVIDER=excel</div>
+                  <div>EXCEL_FILE_PATH={excelConfig.filePath}</div>
+                  <div>EXCEL_TASKS_SHEET={excelConfig.tasksSheet}</div>
+                  <div>EXCEL_STATUSES_SHEET={excelConfig.statusesSheet}</div>
+                </>
+              )}
             </div>
             <p className="text-yellow-800 text-sm mt-3">
-              Then restart your development server with <code>npm run dev</code>
+              When using <code>.env.local</code>, restart your development server with{' '}
+              <code>npm run dev</code>
             </p>
           </div>
         )}
@@ -1,7 +1,8 @@
 "use client"
 
-import { Suspense, useCallback, useEffect, useState, useRef } from "react"
-import { useSearchParams } from "next/navigation"
+import { Suspense, useCallback, useEffect, useMemo, useState, useRef } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import Link from "next/link"
 import dynamic from "next/dynamic"
 import {
   GanttProvider,
@@ -12,17 +13,70 @@ import {
   useGantt,
 } from "@/components/ui/gantt"
 import { TaskTable } from "@/components/ui/task-table"
-import { TaskStatus, Task } from "@/types/task"
+import {
+  TaskStatus,
+  Task,
+  TaskDependency,
+  WorkCalendar,
+  Baseline,
+  Resource,
+  ResourceAllocation,
+  TaskAssignmentDTO,
+  TaskRealtimeEvent,
+  Comment,
+  ChangeSet,
+  CreateTaskDTO,
+  TaskBatchOperation,
+  TaskBatchResult,
+  Project,
+} from "@/types/task"
 import { ClientSessionManager } from "@/lib/client-session-manager"
 import { ClientBaserowProvider } from "@/lib/providers/baserow/client-baserow-provider"
 import { Panel, PanelGroup, PanelResizeHandle } from "react-resizable-panels"
 import { ExportButtons } from "@/components/export-buttons"
-import { GripVertical, Settings, X, Save, CheckCircle2 } from "lucide-react"
+import { BaselineControls } from "@/components/baseline-controls"
+import { ResourceHistogram } from "@/components/resource-histogram"
+import { GripVertical, Settings, X, Save, CheckCircle2, CalendarDays, Users, BarChart3, Scale, History, Undo2, Redo2, LogOut } from "lucide-react"
 import { DataFieldMapper, FieldMapping, ColorRule, TextTemplate } from "@/components/data-field-mapper"
 import { fieldMapperStorage } from "@/lib/storage/field-mapper-storage"
 import { ErrorBoundary } from "@/components/error-boundary"
 import { UnifiedGanttToolbar, TimescaleType } from "@/components/unified-gantt-toolbar"
 import { SortConfig, FilterConfig, GroupConfig } from "@/components/table-toolbar"
+import { propagateTaskMove, ScheduleChange } from "@/lib/utils/scheduling"
+import { DEFAULT_WORK_CALENDAR } from "@/lib/utils/work-calendar"
+import { reviveBaseline } from "@/lib/utils/baselines"
+import { exportMspdi, parseMspdi, MspdiProject } from "@/lib/utils/mspdi"
+import { importProject, ProjectImportTarget } from "@/lib/utils/project-import"
+import { createProjectFile, parseProjectFile, ProjectFile, toImportedProject } from "@/lib/utils/project-file"
+import { parseTasksCsv, parseTasksWorkbook } from "@/lib/utils/task-import"
+import { rollupSummaryTasks, getIndentParentId, getOutdentParentId } from "@/lib/utils/task-tree"
+import { attachResources } from "@/lib/providers/resources"
+import { projectApiPath } from "@/lib/utils/projects"
+import { getCommentThreadIds } from "@/lib/providers/comments"
+import { isTaskVersionConflict, TaskVersionConflictError } from "@/lib/providers/concurrency"
+import { applyTaskBatchInChunks, isTaskBatchError, MAX_BATCH_OPERATIONS } from "@/lib/providers/batch"
+import { levelResources, LevelingResult } from "@/lib/utils/resource-leveling"
+import {
+  diffTaskFields,
+  getScheduleFieldChanges,
+  getTaskSnapshot,
+  TaskFieldChange,
+  TaskRevertFields,
+} from "@/lib/utils/task-changes"
+import {
+  ChangeSetApplyError,
+  ChangeSetApplyResult,
+  redoChangeSet,
+  TaskMutations,
+  undoChangeSet,
+} from "@/lib/utils/undo-executor"
+import { buildActivityFeed } from "@/lib/utils/activity-feed"
+import { useGanttUIStore } from "@/lib/stores/gantt-ui-store"
+import { useVersionControlStore } from "@/lib/stores/version-control-store"
+import { useKeyboardShortcuts } from "@/lib/hooks/use-keyboard-shortcuts"
+import { getRealtimeIdentity, realtimeHeaders, useRealtime } from "@/lib/hooks/use-realtime"
+import { useSession } from "@/lib/hooks/use-session"
+import type { RestrictedTaskField } from "@/lib/providers/access-control"
 import * as XLSX from "xlsx"
 
 // Dynamically import TaskEditModal to avoid SSR issues with createPortal
@@ -31,6 +85,36 @@ const TaskEditModal = dynamic(
   { ssr: false }
 )
 
+const ReschedulePreviewDialog = dynamic(
+  () => import("@/components/reschedule-preview-dialog").then((mod) => mod.ReschedulePreviewDialog),
+  { ssr: false }
+)
+
+const ResourceLevelingDialog = dynamic(
+  () => import("@/components/resource-leveling-dialog").then((mod) => mod.ResourceLevelingDialog),
+  { ssr: false }
+)
+
+const TaskConflictDialog = dynamic(
+  () => import("@/components/task-conflict-dialog").then((mod) => mod.TaskConflictDialog),
+  { ssr: false }
+)
+
+const HistoryPanel = dynamic(
+  () => import("@/components/history-panel").then((mod) => mod.HistoryPanel),
+  { ssr: false }
+)
+
+const GanttExportDialog = dynamic(
+  () => import("@/components/gantt-export-dialog").then((mod) => mod.GanttExportDialog),
+  { ssr: false }
+)
+
+const WorkCalendarDialog = dynamic(
+  () => import("@/components/work-calendar-dialog").then((mod) => mod.WorkCalendarDialog),
+  { ssr: false }
+)
+
 // Inner component that can access Gantt context
 function GanttContent({
   tasks,
@@ -38,19 +122,35 @@ function GanttContent({
   onTaskUpdate,
   onTaskDelete,
   onTasksImport,
+  onProjectImport,
+  onProjectFileImport,
   onProcessedTasksChange,
+  resources,
+  allocations,
+  baselines,
+  showResourceLoad,
+  hiddenFields,
 }: {
   tasks: GanttTask[]
   statuses: TaskStatus[]
   onTaskUpdate: (taskId: string, updates: Partial<Task>) => Promise<void>
   onTaskDelete: (taskId: string) => Promise<void>
-  onTasksImport: (tasks: Partial<Task>[]) => Promise<void>
+  onTasksImport: (tasks: Partial<Task>[]) => Promise<boolean> // Resolves to false when nothing was imported
+  onProjectImport: (project: MspdiProject) => Promise<boolean>
+  onProjectFileImport: (file: ProjectFile) => Promise<boolean>
   onProcessedTasksChange?: (tasks: Task[]) => void
+  resources: Resource[]
+  allocations: ResourceAllocation[]
+  baselines: Baseline[]
+  showResourceLoad: boolean
+  hiddenFields: RestrictedTaskField[] // Fields the project's access rules hide from the user
 }) {
-  const { viewStart, viewEnd, timescale, setViewRange, setTimescale } = useGantt()
+  const { viewStart, viewEnd, timescale, setViewRange, setTimescale, baseline, calendar, dependencies } = useGantt()
   const tableRef = useRef<HTMLDivElement>(null)
   const ganttRef = useRef<HTMLDivElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const viewConfig = useGanttUIStore((state) => state.viewConfig)
+  const [showChartExport, setShowChartExport] = useState(false)
   const [processedTasks, setProcessedTasks] = useState<Task[]>([])
   const [groupedTasksForGantt, setGroupedTasksForGantt] = useState<Record<string, GanttTask[]> | undefined>(undefined)
 
@@ -67,6 +167,8 @@ function GanttContent({
     owner: true,
     group: true,
     progress: true,
+    startVariance: true,
+    finishVariance: true,
   })
 
   // Available fields for filtering/sorting/grouping
@@ -178,8 +280,16 @@ function GanttContent({
     return d.toISOString().split("T")[0]
   }
 
+  // Columns of fields hidden by the access rules are left out of the exports
+  const hiddenColumns = new Set(
+    ([["owner", "Owner"], ["group", "Group"], ["progress", "Progress"]] as const)
+      .filter(([field]) => hiddenFields.includes(field))
+      .map(([, column]) => column as string)
+  )
+
   const exportToCSV = () => {
     const headers = ["ID", "Name", "Start Date", "End Date", "Status", "Owner", "Group", "Progress"]
+    const included = headers.map((header) => !hiddenColumns.has(header))
     const rows = tasks.map((task) => [
       task.id,
       task.name,
@@ -192,9 +302,12 @@ function GanttContent({
     ])
 
     const csvContent = [
-      headers.join(","),
+      headers.filter((_, index) => included[index]).join(","),
       ...rows.map((row) =>
-        row.map((cell) => `"${String(cell).replace(/"/g, '""')}"`).join(",")
+        row
+          .filter((_, index) => included[index])
+          .map((cell) => `"${String(cell).replace(/"/g, '""')}"`)
+          .join(",")
       ),
     ].join("\n")
 
@@ -210,27 +323,123 @@ function GanttContent({
   }
 
   const exportToExcel = () => {
-    const taskData = tasks.map((task) => ({
-      ID: task.id,
-      Name: task.name,
-      "Start Date": formatDate(task.startAt),
-      "End Date": formatDate(task.endAt),
-      Status: task.status?.name || "",
-      Owner: task.owner || "",
-      Group: task.group || "",
-      Progress: task.progress || 0,
-    }))
+    const taskData = tasks.map((task) =>
+      Object.fromEntries(
+        Object.entries({
+          ID: task.id,
+          Name: task.name,
+          "Start Date": formatDate(task.startAt),
+          "End Date": formatDate(task.endAt),
+          Status: task.status?.name || "",
+          Owner: task.owner || "",
+          Group: task.group || "",
+          Progress: task.progress || 0,
+        }).filter(([column]) => !hiddenColumns.has(column))
+      )
+    )
+    const widths: Record<string, number> = { ID: 10, Name: 30, "Start Date": 12, "End Date": 12, Status: 15, Owner: 20, Group: 20, Progress: 10 }
 
     const wb = XLSX.utils.book_new()
     const ws = XLSX.utils.json_to_sheet(taskData)
-    ws["!cols"] = [
-      { wch: 10 }, { wch: 30 }, { wch: 12 }, { wch: 12 },
-      { wch: 15 }, { wch: 20 }, { wch: 20 }, { wch: 10 },
-    ]
+    ws["!cols"] = Object.keys(widths)
+      .filter((column) => !hiddenColumns.has(column))
+      .map((column) => ({ wch: widths[column] }))
     XLSX.utils.book_append_sheet(wb, ws, "Tasks")
     XLSX.writeFile(wb, `tasks-${new Date().toISOString().split("T")[0]}.xlsx`)
   }
 
+  const exportToMSProject = () => {
+    const xml = exportMspdi({ name: "Gantt Project", tasks, dependencies, resources, allocations, calendar })
+    const blob = new Blob([xml], { type: "application/xml;charset=utf-8;" })
+    const link = document.createElement("a")
+    const url = URL.createObjectURL(blob)
+    link.setAttribute("href", url)
+    link.setAttribute("download", `project-${new Date().toISOString().split("T")[0]}.xml`)
+    link.style.visibility = "hidden"
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+  }
+
+  const exportToProjectFile = () => {
+    const file = createProjectFile({
+      name: "Gantt Project",
+      statuses,
+      tasks,
+      dependencies,
+      resources,
+      allocations,
+      calendar,
+      baselines,
+      viewConfig: { ...viewConfig, scale: timescale },
+    })
+    const blob = new Blob([JSON.stringify(file, null, 2)], { type: "application/json;charset=utf-8;" })
+    const link = document.createElement("a")
+    const url = URL.createObjectURL(blob)
+    link.setAttribute("href", url)
+    link.setAttribute("download", `project-${new Date().toISOString().split("T")[0]}.json`)
+    link.style.visibility = "hidden"
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+  }
+
+  // Import from file: CSV/Excel task lists, an MS Project XML project or a JSON project file
+  const handleFileImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // Allow picking the same file again
+    event.target.value = ""
+    if (!file) return
+
+    try {
+      const fileType = file.name.split(".").pop()?.toLowerCase()
+
+      if (fileType === "xml") {
+        const project = parseMspdi(await file.text())
+        if (project.tasks.length === 0) {
+          alert("No tasks found in MS Project file")
+        } else if (await onProjectImport(project)) {
+          alert(`Successfully imported ${project.tasks.length} task(s) and ${project.resources.length} resource(s)`)
+        }
+        return
+      }
+
+      if (fileType === "json") {
+        let json: unknown
+        try {
+          json = JSON.parse(await file.text())
+        } catch {
+          alert("The file is not valid JSON")
+          return
+        }
+        const project = parseProjectFile(json)
+        if (await onProjectFileImport(project)) {
+          alert(`Successfully imported ${project.tasks.length} task(s) and ${project.resources.length} resource(s)`)
+        }
+        return
+      }
+
+      let importedTasks: Partial<Task>[]
+      if (fileType === "csv") {
+        importedTasks = parseTasksCsv(await file.text(), statuses)
+      } else if (fileType === "xlsx" || fileType === "xls") {
+        importedTasks = parseTasksWorkbook(await file.arrayBuffer(), statuses)
+      } else {
+        alert("Unsupported file format. Please upload a CSV, Excel, MS Project XML or JSON project file.")
+        return
+      }
+
+      if (importedTasks.length === 0) {
+        alert(`No valid tasks found in ${fileType === "csv" ? "CSV" : "Excel"} file`)
+      } else if (await onTasksImport(importedTasks)) {
+        alert(`Successfully imported ${importedTasks.length} task(s)`)
+      }
+    } catch (error) {
+      console.error("Import failed:", error)
+      alert(error instanceof Error ? error.message : "Failed to import file. Please check the file format.")
+    }
+  }
+
   return (
     <div className="flex flex-col">
       {/* Unified Toolbar */}
@@ -246,6 +455,9 @@ function GanttContent({
         availableFields={availableFields}
         onExportCSV={exportToCSV}
         onExportExcel={exportToExcel}
+        onExportMSProject={exportToMSProject}
+        onExportProject={exportToProjectFile}
+        onExportChart={() => setShowChartExport(true)}
         onImportClick={() => fileInputRef.current?.click()}
         columnVisibility={columnVisibility}
         onColumnVisibilityChange={setColumnVisibility}
@@ -261,10 +473,23 @@ function GanttContent({
       <input
         ref={fileInputRef}
         type="file"
-        accept=".csv,.xlsx,.xls"
+        accept=".csv,.xlsx,.xls,.xml,.json"
         className="hidden"
+        onChange={handleFileImport}
       />
 
+      {showChartExport && (
+        <GanttExportDialog
+          tasks={tasks}
+          dependencies={dependencies}
+          calendar={calendar}
+          viewConfig={{ ...viewConfig, scale: timescale }}
+          viewStart={viewStart}
+          viewEnd={viewEnd}
+          onClose={() => setShowChartExport(false)}
+        />
+      )}
+
       {/* Resizable Panel Layout */}
       <PanelGroup direction="horizontal" className="border-x border-b rounded-b-lg shadow-lg" style={{ minHeight: '600px' }}>
         {/* Task Table Panel */}
@@ -275,7 +500,6 @@ function GanttContent({
               statuses={statuses}
               onTaskUpdate={onTaskUpdate}
               onTaskDelete={onTaskDelete}
-              onTasksImport={onTasksImport}
               onProcessedTasksChange={handleProcessedTasksChange}
               searchQuery={searchQuery}
               sortConfig={sortConfig}
@@ -283,6 +507,8 @@ function GanttContent({
               groupConfig={groupConfig}
               columnVisibility={columnVisibility}
               headersOnly={false}
+              baseline={baseline}
+              calendar={calendar}
             />
           </div>
         </Panel>
@@ -300,7 +526,11 @@ function GanttContent({
             <GanttFeatureList
               groupConfig={groupConfig}
               groupedTasks={groupedTasksForGantt}
-            />
+            >
+              {showResourceLoad && (
+                <ResourceHistogram tasks={tasks} resources={resources} allocations={allocations} />
+              )}
+            </GanttFeatureList>
           </div>
         </Panel>
       </PanelGroup>
@@ -355,14 +585,32 @@ const DEMO_SOURCE_FIELDS = [
 
 function GanttPageContent() {
   const searchParams = useSearchParams()
+  const router = useRouter()
+  // Project whose tasks are shown; the default project when not set
+  const projectId = searchParams.get("project")
+  // Signs in first when the server requires it; nothing is loaded until then
+  const session = useSession()
+  const [projects, setProjects] = useState<Project[]>([])
   const [tasks, setTasks] = useState<GanttTask[]>([])
   const [statuses, setStatuses] = useState<TaskStatus[]>([])
+  const [dependencies, setDependencies] = useState<TaskDependency[]>([])
+  const [calendar, setCalendar] = useState<WorkCalendar>(DEFAULT_WORK_CALENDAR)
+  const [baselines, setBaselines] = useState<Baseline[]>([])
+  const [selectedBaselineId, setSelectedBaselineId] = useState<string | null>(null)
+  const [resources, setResources] = useState<Resource[]>([])
+  const [allocations, setAllocations] = useState<ResourceAllocation[]>([])
+  const [hiddenFields, setHiddenFields] = useState<RestrictedTaskField[]>([])
+  const showResources = useGanttUIStore((state) => state.viewConfig.showResources)
+  const toggleResources = useGanttUIStore((state) => state.toggleResources)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [warning, setWarning] = useState<string | null>(null)
   const [isClientMode, setIsClientMode] = useState(false)
   const [clientProvider, setClientProvider] = useState<ClientBaserowProvider | null>(null)
   const [showDataMapper, setShowDataMapper] = useState(false)
+  const [showCalendarEditor, setShowCalendarEditor] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const [showResourceLoad, setShowResourceLoad] = useState(false)
 
   // Field mapper state
   const [fieldMappings, setFieldMappings] = useState<FieldMapping[]>([])
@@ -372,10 +620,42 @@ function GanttPageContent() {
 
   // Edit modal state
   const [editingTask, setEditingTask] = useState<GanttTask | null>(null)
+  const [taskComments, setTaskComments] = useState<Comment[]>([])
+  const [commentsLoading, setCommentsLoading] = useState(false)
+  const [taskHistory, setTaskHistory] = useState<ChangeSet[]>([])
+  const changeSets = useVersionControlStore((state) => state.changeSets)
+  const changeIndex = useVersionControlStore((state) => state.currentIndex)
+  const canUndo = useVersionControlStore((state) => state.canUndo)
+  const canRedo = useVersionControlStore((state) => state.canRedo)
+  const isApplyingHistoryRef = useRef(false)
+
+  // Successor moves awaiting confirmation in the reschedule preview
+  const [pendingSchedule, setPendingSchedule] = useState<ScheduleChange[] | null>(null)
+
+  // Proposed leveling awaiting confirmation, and the change set of the last applied one
+  const [pendingLeveling, setPendingLeveling] = useState<LevelingResult | null>(null)
+  const [appliedLevelingId, setAppliedLevelingId] = useState<string | null>(null)
+
+  // Update rejected because someone else saved the task first
+  const [pendingConflict, setPendingConflict] = useState<{
+    base: Task
+    theirs: Task
+    updates: Partial<Task>
+    assignments?: TaskAssignmentDTO[]
+  } | null>(null)
+
+  // Last clicked task, target of the indent/outdent shortcuts
+  const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null)
 
   // Filtered tasks state (for syncing table filters with Gantt)
   const [filteredTasks, setFilteredTasks] = useState<GanttTask[]>([])
 
+  // Summary tasks take their dates and progress from their subtasks
+  const scheduledTasks = useMemo(
+    () => rollupSummaryTasks(attachResources(tasks, resources, allocations)),
+    [tasks, resources, allocations]
+  )
+
   // Initialize filtered tasks when tasks load
   useEffect(() => {
     setFilteredTasks(tasks)
@@ -448,21 +728,46 @@ function GanttPageContent() {
 
       let rawTasks: Task[] = []
       let rawStatuses: TaskStatus[] = []
+      let rawDependencies: TaskDependency[] = []
+      let rawCalendar: WorkCalendar = DEFAULT_WORK_CALENDAR
+      let rawResources: Resource[] = []
+      let rawAllocations: ResourceAllocation[] = []
+      let rawHiddenFields: RestrictedTaskField[] = []
 
       if (isClientMode && clientProvider) {
         // Client mode: Direct API calls via ClientBaserowProvider
-        const [tasksData, statusesData] = await Promise.all([
-          clientProvider.getAllTasks(),
-          clientProvider.getStatuses(),
-        ])
+        const [tasksData, statusesData, dependenciesData, calendarData, resourcesData, allocationsData] =
+          await Promise.all([
+            clientProvider.getAllTasks(),
+            clientProvider.getStatuses(),
+            clientProvider.getDependencies(),
+            clientProvider.getWorkCalendar(),
+            clientProvider.getResources(),
+            clientProvider.getAllocations(),
+          ])
 
         rawTasks = tasksData
         rawStatuses = statusesData
+        rawDependencies = dependenciesData
+        rawCalendar = calendarData
+        rawResources = resourcesData
+        rawAllocations = allocationsData
       } else {
         // Server mode: Fetch via API routes
-        const [tasksResponse, statusesResponse] = await Promise.all([
-          fetch("/api/tasks?all=true"),
-          fetch("/api/statuses"),
+        const [
+          tasksResponse,
+          statusesResponse,
+          dependenciesResponse,
+          calendarResponse,
+          resourcesResponse,
+          allocationsResponse,
+        ] = await Promise.all([
+          fetch(projectApiPath(projectId, "/tasks?all=true")),
+          fetch(projectApiPath(projectId, "/statuses")),
+          fetch(projectApiPath(projectId, "/dependencies")),
+          fetch(projectApiPath(projectId, "/calendar")),
+          fetch(projectApiPath(projectId, "/resources")),
+          fetch(projectApiPath(projectId, "/allocations")),
         ])
 
         if (!tasksResponse.ok || !statusesResponse.ok) {
@@ -478,6 +783,39 @@ function GanttPageContent() {
 
         rawTasks = tasksData.data
         rawStatuses = statusesData.data
+        rawHiddenFields = tasksData.hiddenFields || []
+
+        // Dependencies are optional - the chart still works without arrows
+        if (dependenciesResponse.ok) {
+          const dependenciesData = await dependenciesResponse.json()
+          if (dependenciesData.success) {
+            rawDependencies = dependenciesData.data
+          }
+        } else {
+          console.warn("Failed to fetch dependencies")
+        }
+
+        // Without a stored calendar, fall back to a Monday-Friday week
+        if (calendarResponse.ok) {
+          const calendarData = await calendarResponse.json()
+          if (calendarData.success) {
+            rawCalendar = calendarData.data
+          }
+        } else {
+          console.warn("Failed to fetch work calendar")
+        }
+
+        // Resources are optional too - bars just render without assignees
+        if (resourcesResponse.ok && allocationsResponse.ok) {
+          const resourcesData = await resourcesResponse.json()
+          const allocationsData = await allocationsResponse.json()
+          if (resourcesData.success && allocationsData.success) {
+            rawResources = resourcesData.data
+            rawAllocations = allocationsData.data
+          }
+        } else {
+          console.warn("Failed to fetch resources")
+        }
       }
 
       // Validate and filter tasks
@@ -504,6 +842,11 @@ function GanttPageContent() {
 
       setStatuses(rawStatuses)
       setTasks(validTasks)
+      setDependencies(rawDependencies)
+      setCalendar(rawCalendar)
+      setResources(rawResources)
+      setAllocations(rawAllocations)
+      setHiddenFields(rawHiddenFields)
 
       // Show warning if some tasks were skipped
       if (invalidTasks.length > 0) {
@@ -522,21 +865,271 @@ function GanttPageContent() {
     } finally {
       setIsLoading(false)
     }
-  }, [isClientMode, clientProvider, validateTask])
+  }, [isClientMode, clientProvider, validateTask, projectId])
 
   // Load tasks and statuses
   useEffect(() => {
+    if (!session.ready) return
     if (isClientMode && !clientProvider) {
       // Wait for client provider to be initialized
       return
     }
     loadData()
-  }, [isClientMode, clientProvider, loadData])
+  }, [session.ready, isClientMode, clientProvider, loadData])
+
+  // Apply task changes other users made through the API. Client mode edits
+  // Baserow directly, so server events may not describe the data shown here.
+  const handleRealtimeTaskEvent = (event: TaskRealtimeEvent) => {
+    if (isClientMode) return
+
+    if (event.type === "task.deleted") {
+      setTasks((prev) =>
+        prev
+          .filter((task) => task.id !== event.taskId)
+          .map((task) => (task.parentId === event.taskId ? { ...task, parentId: undefined } : task))
+      )
+      setDependencies((prev) =>
+        prev.filter((dep) => dep.predecessorId !== event.taskId && dep.successorId !== event.taskId)
+      )
+      return
+    }
+
+    if (!validateTask(event.task).valid) return
+    const incoming: GanttTask = {
+      ...event.task,
+      startAt: new Date(event.task.startAt),
+      endAt: new Date(event.task.endAt),
+    }
+
+    setTasks((prev) =>
+      prev.some((task) => task.id === incoming.id)
+        ? prev.map((task) => (task.id === incoming.id ? { ...task, ...incoming } : task))
+        : [...prev, incoming]
+    )
+  }
+
+  const { presence, updatePresence } = useRealtime({
+    enabled: session.ready,
+    projectId,
+    onTaskEvent: handleRealtimeTaskEvent,
+  })
+
+  // Attribute recorded changes to the same user as comments and presence,
+  // the signed-in user when authentication is on
+  useEffect(() => {
+    if (!session.ready) return
+    const { userId, userName } = getRealtimeIdentity()
+    useVersionControlStore.getState().setUser(userId, userName)
+  }, [session.ready, session.user])
+
+  // Show the current copy of a task whose update hit a newer version, and let
+  // the user pick which of their changes to re-apply on top of it
+  const showConflict = (
+    base: Task,
+    theirs: Task,
+    updates: Partial<Task>,
+    assignments?: TaskAssignmentDTO[]
+  ) => {
+    const current: Task = { ...theirs, startAt: new Date(theirs.startAt), endAt: new Date(theirs.endAt) }
+    setTasks((prev) => prev.map((task) => (task.id === current.id ? { ...task, ...current } : task)))
+    setPendingConflict({ base, theirs: current, updates, assignments })
+  }
+
+  // Record saved edits in the undo history. The server records the changes it
+  // applies in the change history itself.
+  const commitTaskChanges = (changes: TaskFieldChange[], description: string): ChangeSet | null => {
+    if (changes.length === 0) return null
+    return useVersionControlStore.getState().recordBatchChanges(changes, description)
+  }
+
+  // Let other users see which task is selected here
+  useEffect(() => {
+    updatePresence({ selection: selectedTaskId || undefined })
+  }, [selectedTaskId, updatePresence])
+
+  // Baselines live in the server config directory in every mode
+  const loadBaselines = useCallback(async () => {
+    try {
+      const response = await fetch(projectApiPath(projectId, "/baselines"))
+      const result = await response.json()
+      if (result.success) {
+        setBaselines(result.data.map(reviveBaseline))
+      }
+    } catch (err) {
+      console.warn("Failed to fetch baselines:", err)
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    if (session.ready) loadBaselines()
+  }, [session.ready, loadBaselines])
+
+  // Projects for the switcher; undo history doesn't carry over to another project
+  useEffect(() => {
+    if (isClientMode || !session.ready) return
+    fetch("/api/projects")
+      .then((response) => response.json())
+      .then((result) => {
+        if (result.success) setProjects(result.data)
+      })
+      .catch((err) => console.warn("Failed to fetch projects:", err))
+  }, [isClientMode, session.ready])
+
+  useEffect(() => {
+    useVersionControlStore.getState().clearHistory()
+  }, [projectId])
 
   // Handle task move (drag & resize)
   const handleTaskMove = async (taskId: string, startAt: Date, endAt: Date) => {
+    const propagation = propagateTaskMove(tasks, dependencies, taskId, startAt, endAt, "push", calendar)
+
+    if (!propagation.valid) {
+      alert(`Cannot reschedule successors: circular dependency (${propagation.cycles?.[0]}). Only this task will move.`)
+    } else if (propagation.affectedTaskIds.length > 0) {
+      // Let the user review the successor moves before anything is saved
+      setPendingSchedule(propagation.changes)
+      return
+    }
+
+    await persistTaskMove(taskId, startAt, endAt)
+  }
+
+  // Persist every task of a propagated move in one batch request
+  // Resolves to false when the update failed and was rolled back
+  const persistSchedule = async (changes: ScheduleChange[]): Promise<boolean> => {
+    // Optimistic update
+    const previousTasks = [...tasks]
+    const versionById = new Map(tasks.map((task) => [task.id, task.version]))
+    const changesById = new Map(changes.map((change) => [change.taskId, change]))
+    setTasks((prev) =>
+      prev.map((task) => {
+        const change = changesById.get(task.id)
+        return change ? { ...task, startAt: change.startAt, endAt: change.endAt } : task
+      })
+    )
+
+    try {
+      let updatedTasks: Task[]
+
+      if (isClientMode && clientProvider) {
+        // Client mode: Direct API calls via provider
+        const results = await clientProvider.applyTaskBatch(
+          changes.map((change) => ({
+            type: "update",
+            id: change.taskId,
+            data: {
+              startAt: change.startAt,
+              endAt: change.endAt,
+              expectedVersion: versionById.get(change.taskId),
+            },
+          }))
+        )
+        updatedTasks = results.map((result) => result.task!)
+      } else {
+        // Server mode: Fetch via API route
+        const response = await fetch(projectApiPath(projectId, "/tasks"), {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json", ...realtimeHeaders() },
+          body: JSON.stringify({
+            tasks: changes.map((change) => ({
+              id: change.taskId,
+              startAt: change.startAt.toISOString(),
+              endAt: change.endAt.toISOString(),
+              version: versionById.get(change.taskId),
+            })),
+            modifiedBy: getRealtimeIdentity().userName,
+          }),
+        })
+
+        const result = await response.json()
+
+        if (response.status === 409) {
+          throw new TaskVersionConflictError(result.data, versionById.get(result.data.id) ?? 0)
+        }
+        if (!response.ok || !result.success) {
+          throw new Error(result.message || result.error || "Failed to reschedule tasks")
+        }
+
+        updatedTasks = result.data
+      }
+
+      // Update with server response
+      const updatedById = new Map(updatedTasks.map((task) => [task.id, task]))
+      setTasks((prev) =>
+        prev.map((task) => {
+          const updated = updatedById.get(task.id)
+          return updated
+            ? {
+                ...task,
+                startAt: new Date(updated.startAt),
+                endAt: new Date(updated.endAt),
+                version: updated.version,
+                modifiedBy: updated.modifiedBy,
+              }
+            : task
+        })
+      )
+      return true
+    } catch (err) {
+      // Rollback on error
+      setTasks(previousTasks)
+
+      const error = isTaskBatchError(err) ? err.reason : err
+      if (isTaskVersionConflict(error)) {
+        const current = error.current
+        setTasks((prev) =>
+          prev.map((task) =>
+            task.id === current.id
+              ? { ...task, ...current, startAt: new Date(current.startAt), endAt: new Date(current.endAt) }
+              : task
+          )
+        )
+        alert(`"${current.name}" was changed by ${current.modifiedBy || "someone else"}. Review the latest version and try again.`)
+        return false
+      }
+
+      console.error("Error rescheduling tasks:", err)
+      alert("Failed to reschedule tasks. Please try again.")
+      return false
+    }
+  }
+
+  // Propose delays that resolve resource over-allocation
+  const handleLevelResources = () => {
+    const result = levelResources(scheduledTasks, dependencies, resources, allocations, calendar)
+
+    if (result.changes.length === 0 && result.unresolvedTaskIds.length === 0) {
+      alert("No resource is over-allocated.")
+      return
+    }
+
+    setPendingLeveling(result)
+  }
+
+  // Persist the proposed leveling and record it as one undoable change set
+  const applyLeveling = async (changes: ScheduleChange[]) => {
+    if (!(await persistSchedule(changes))) return
+
+    const changeSet = commitTaskChanges(getScheduleFieldChanges(changes), "Level resources")
+    setAppliedLevelingId(changeSet?.id ?? null)
+  }
+
+  // Undo the last leveling, as long as nothing was changed after it
+  const undoLeveling = async () => {
+    const store = useVersionControlStore.getState()
+    if (store.changeSets[store.currentIndex]?.id !== appliedLevelingId) {
+      setAppliedLevelingId(null)
+      return
+    }
+
+    await handleUndo()
+  }
+
+  // Persist a single task move
+  const persistTaskMove = async (taskId: string, startAt: Date, endAt: Date) => {
     // Optimistic update
     const previousTasks = [...tasks]
+    const previousTask = tasks.find((task) => task.id === taskId)
     setTasks((prev) =>
       prev.map((task) =>
         task.id === taskId ? { ...task, startAt, endAt } : task
@@ -549,6 +1142,7 @@ function GanttPageContent() {
         const updatedTask = await clientProvider.updateTask(taskId, {
           startAt,
           endAt,
+          expectedVersion: previousTask?.version,
         })
 
         // Update with provider response
@@ -559,21 +1153,29 @@ function GanttPageContent() {
                   ...task,
                   startAt: new Date(updatedTask.startAt),
                   endAt: new Date(updatedTask.endAt),
+                  version: updatedTask.version,
+                  modifiedBy: updatedTask.modifiedBy,
                 }
               : task
           )
         )
       } else {
         // Server mode: Fetch via API route
-        const response = await fetch(`/api/tasks/${taskId}`, {
+        const response = await fetch(projectApiPath(projectId, `/tasks/${taskId}`), {
           method: "PATCH",
-          headers: { "Content-Type": "application/json" },
+          headers: { "Content-Type": "application/json", ...realtimeHeaders() },
           body: JSON.stringify({
             startAt: startAt.toISOString(),
             endAt: endAt.toISOString(),
+            version: previousTask?.version,
+            modifiedBy: getRealtimeIdentity().userName,
           }),
         })
 
+        if (response.status === 409) {
+          const result = await response.json()
+          throw new TaskVersionConflictError(result.data, previousTask?.version ?? 0)
+        }
         if (!response.ok) {
           throw new Error("Failed to update task")
         }
@@ -592,20 +1194,70 @@ function GanttPageContent() {
                   ...task,
                   startAt: new Date(result.data.startAt),
                   endAt: new Date(result.data.endAt),
+                  version: result.data.version,
+                  modifiedBy: result.data.modifiedBy,
                 }
               : task
           )
         )
       }
+
+      if (previousTask) {
+        commitTaskChanges(diffTaskFields(previousTask, { startAt, endAt }), "Move task")
+      }
     } catch (err) {
-      console.error("Error updating task:", err)
       // Rollback on error
       setTasks(previousTasks)
+
+      if (isTaskVersionConflict(err) && previousTask) {
+        showConflict(previousTask, err.current, { startAt, endAt })
+        return
+      }
+
+      console.error("Error updating task:", err)
       alert("Failed to update task. Please try again.")
     }
   }
 
   // Handle task creation
+  // Create a task through the provider and return the saved copy
+  const saveNewTask = async (data: CreateTaskDTO): Promise<GanttTask> => {
+    const taskData: CreateTaskDTO = { ...data, modifiedBy: getRealtimeIdentity().userName }
+
+    if (isClientMode && clientProvider) {
+      // Client mode: Direct API call via provider
+      const createdTask = await clientProvider.createTask(taskData)
+      return {
+        ...createdTask,
+        startAt: new Date(createdTask.startAt),
+        endAt: new Date(createdTask.endAt),
+      }
+    }
+
+    // Server mode: Fetch via API route
+    const response = await fetch(projectApiPath(projectId, "/tasks"), {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...realtimeHeaders() },
+      body: JSON.stringify(taskData),
+    })
+
+    if (!response.ok) {
+      throw new Error("Failed to create task")
+    }
+
+    const result = await response.json()
+
+    if (!result.success) {
+      throw new Error(result.error || "Failed to create task")
+    }
+
+    return {
+      ...result.data,
+      startAt: new Date(result.data.startAt),
+      endAt: new Date(result.data.endAt),
+    }
+  }
+
   const handleTaskCreate = async (date: Date) => {
     const name = prompt("Enter task name:")
     if (!name) return
@@ -618,55 +1270,19 @@ function GanttPageContent() {
     const defaultStatusId = statuses.length > 0 ? statuses[0].id : undefined
 
     try {
-      if (isClientMode && clientProvider) {
-        // Client mode: Direct API call via provider
-        const createdTask = await clientProvider.createTask({
-          name,
-          startAt,
-          endAt,
-          statusId: defaultStatusId,
-        })
-
-        // Add new task to list
-        const newTask: GanttTask = {
-          ...createdTask,
-          startAt: new Date(createdTask.startAt),
-          endAt: new Date(createdTask.endAt),
-        }
-
-        setTasks((prev) => [...prev, newTask])
-      } else {
-        // Server mode: Fetch via API route
-        const response = await fetch("/api/tasks", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            name,
-            startAt: startAt.toISOString(),
-            endAt: endAt.toISOString(),
-            statusId: defaultStatusId,
-          }),
-        })
-
-        if (!response.ok) {
-          throw new Error("Failed to create task")
-        }
-
-        const result = await response.json()
-
-        if (!result.success) {
-          throw new Error(result.error || "Failed to create task")
-        }
-
-        // Add new task to list
-        const newTask: GanttTask = {
-          ...result.data,
-          startAt: new Date(result.data.startAt),
-          endAt: new Date(result.data.endAt),
-        }
+      const newTask = await saveNewTask({
+        name,
+        startAt,
+        endAt,
+        statusId: defaultStatusId,
+      })
 
-        setTasks((prev) => [...prev, newTask])
-      }
+      // Add new task to list
+      setTasks((prev) => [...prev, newTask])
+      commitTaskChanges(
+        [{ taskId: newTask.id, changeType: "create", newValue: getTaskSnapshot(newTask) }],
+        "Create task"
+      )
     } catch (err) {
       console.error("Error creating task:", err)
       alert("Failed to create task. Please try again.")
@@ -675,194 +1291,759 @@ function GanttPageContent() {
 
   // Handle task click
   const handleTaskClick = (task: GanttTask) => {
-    console.log("Task clicked:", task)
+    setSelectedTaskId(task.id)
     // You can open a modal or navigate to task details here
   }
 
-  // Handle task update from table
-  const handleTaskUpdate = async (taskId: string, updates: Partial<Task>) => {
-    // Optimistic update
+  // Move a task in the WBS; null makes it a top-level task
+  const handleTaskParentChange = async (taskId: string, parentId: string | null) => {
     const previousTasks = [...tasks]
+    const previousParentId = tasks.find((task) => task.id === taskId)?.parentId
     setTasks((prev) =>
-      prev.map((task) =>
-        task.id === taskId ? { ...task, ...updates } : task
-      )
+      prev.map((task) => (task.id === taskId ? { ...task, parentId: parentId || undefined } : task))
     )
 
     try {
-      // Prepare the update payload
-      const payload: Record<string, string | number | undefined> = {}
-
-      if (updates.name !== undefined) payload.name = updates.name
-      if (updates.startAt !== undefined) payload.startAt = updates.startAt instanceof Date ? updates.startAt.toISOString() : new Date(updates.startAt).toISOString()
-      if (updates.endAt !== undefined) payload.endAt = updates.endAt instanceof Date ? updates.endAt.toISOString() : new Date(updates.endAt).toISOString()
-      if (updates.status !== undefined) payload.statusId = updates.status.id
-      if (updates.owner !== undefined) payload.owner = updates.owner
-      if (updates.group !== undefined) payload.group = updates.group
-      if (updates.description !== undefined) payload.description = updates.description
-      if (updates.progress !== undefined) payload.progress = updates.progress
-
       if (isClientMode && clientProvider) {
-        // Client mode: Direct API call via provider
-        const updatedTask = await clientProvider.updateTask(taskId, payload)
-
-        // Update with provider response
-        setTasks((prev) =>
-          prev.map((task) =>
-            task.id === taskId
-              ? {
-                  ...task,
-                  ...updatedTask,
-                  startAt: new Date(updatedTask.startAt),
-                  endAt: new Date(updatedTask.endAt),
-                }
-              : task
-          )
-        )
+        await clientProvider.updateTask(taskId, { parentId })
       } else {
-        // Server mode: Fetch via API route
-        const response = await fetch(`/api/tasks/${taskId}`, {
+        const response = await fetch(projectApiPath(projectId, `/tasks/${taskId}`), {
           method: "PATCH",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(payload),
+          headers: { "Content-Type": "application/json", ...realtimeHeaders() },
+          body: JSON.stringify({ parentId }),
         })
 
-        if (!response.ok) {
-          throw new Error("Failed to update task")
-        }
-
         const result = await response.json()
-
-        if (!result.success) {
-          throw new Error(result.error || "Failed to update task")
+        if (!response.ok || !result.success) {
+          throw new Error(result.message || result.error || "Failed to move task")
         }
+      }
 
-        // Update with server response
-        setTasks((prev) =>
-          prev.map((task) =>
-            task.id === taskId
-              ? {
-                  ...task,
-                  ...result.data,
-                  startAt: new Date(result.data.startAt),
-                  endAt: new Date(result.data.endAt),
-                }
-              : task
-          )
+      if ((previousParentId || null) !== parentId) {
+        commitTaskChanges(
+          [{ taskId, changeType: "update", field: "parentId", oldValue: previousParentId, newValue: parentId || undefined }],
+          "Change parent"
         )
       }
     } catch (err) {
-      console.error("Error updating task:", err)
+      console.error("Error moving task:", err)
+      setTasks(previousTasks)
+      alert(err instanceof Error ? err.message : "Failed to move task")
+    }
+  }
+
+  const handleTaskIndent = async (taskId: string) => {
+    const parentId = getIndentParentId(tasks, taskId)
+    if (parentId) {
+      await handleTaskParentChange(taskId, parentId)
+    }
+  }
+
+  const handleTaskOutdent = async (taskId: string) => {
+    const parentId = getOutdentParentId(tasks, taskId)
+    if (parentId !== undefined) {
+      await handleTaskParentChange(taskId, parentId)
+    }
+  }
+
+  // Reload a task's allocations after its assignments were replaced
+  const refreshTaskAllocations = async (taskId: string) => {
+    let taskAllocations: ResourceAllocation[] = []
+
+    if (isClientMode && clientProvider) {
+      taskAllocations = await clientProvider.getAllocations({ taskId })
+    } else {
+      const response = await fetch(projectApiPath(projectId, `/allocations?taskId=${encodeURIComponent(taskId)}`))
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error || "Failed to fetch allocations")
+      }
+      taskAllocations = result.data
+    }
+
+    setAllocations((prev) => [
+      ...prev.filter((allocation) => allocation.taskId !== taskId),
+      ...taskAllocations,
+    ])
+  }
+
+  // Save task fields through the provider and return the saved copy
+  // Throws a TaskVersionConflictError when the task is no longer at `version`
+  const saveTaskFields = async (
+    taskId: string,
+    updates: TaskRevertFields,
+    version?: number,
+    assignments?: TaskAssignmentDTO[]
+  ): Promise<Task> => {
+    // Prepare the update payload
+    const payload: Record<string, string | number | null | TaskAssignmentDTO[] | undefined> = {}
+
+    if (updates.name !== undefined) payload.name = updates.name
+    if (updates.startAt !== undefined) payload.startAt = updates.startAt instanceof Date ? updates.startAt.toISOString() : new Date(updates.startAt).toISOString()
+    if (updates.endAt !== undefined) payload.endAt = updates.endAt instanceof Date ? updates.endAt.toISOString() : new Date(updates.endAt).toISOString()
+    if (updates.status !== undefined) payload.statusId = updates.status.id
+    if (updates.owner !== undefined) payload.owner = updates.owner
+    if (updates.group !== undefined) payload.group = updates.group
+    if (updates.description !== undefined) payload.description = updates.description
+    if (updates.progress !== undefined) payload.progress = updates.progress
+    if (updates.parentId !== undefined) payload.parentId = updates.parentId
+    if (assignments !== undefined) payload.assignments = assignments
+    payload.modifiedBy = getRealtimeIdentity().userName
+
+    if (isClientMode && clientProvider) {
+      // Client mode: Direct API call via provider
+      const updatedTask = await clientProvider.updateTask(taskId, {
+        ...payload,
+        expectedVersion: version,
+      })
+
+      return {
+        ...updatedTask,
+        startAt: new Date(updatedTask.startAt),
+        endAt: new Date(updatedTask.endAt),
+      }
+    }
+
+    // Server mode: Fetch via API route
+    const response = await fetch(projectApiPath(projectId, `/tasks/${taskId}`), {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json", ...realtimeHeaders() },
+      body: JSON.stringify({ ...payload, version }),
+    })
+
+    if (response.status === 409) {
+      const result = await response.json()
+      throw new TaskVersionConflictError(result.data, version ?? 0)
+    }
+    if (!response.ok) {
+      throw new Error("Failed to update task")
+    }
+
+    const result = await response.json()
+
+    if (!result.success) {
+      throw new Error(result.error || "Failed to update task")
+    }
+
+    return {
+      ...result.data,
+      startAt: new Date(result.data.startAt),
+      endAt: new Date(result.data.endAt),
+    }
+  }
+
+  // Handle task update from table
+  const handleTaskUpdate = async (
+    taskId: string,
+    { assignments, ...updates }: Partial<Task> & { assignments?: TaskAssignmentDTO[] }
+  ) => {
+    // Optimistic update
+    const previousTasks = [...tasks]
+    const previousTask = tasks.find((task) => task.id === taskId)
+    setTasks((prev) =>
+      prev.map((task) =>
+        task.id === taskId ? { ...task, ...updates } : task
+      )
+    )
+
+    try {
+      const savedTask = await saveTaskFields(taskId, updates, previousTask?.version, assignments)
+
+      // Update with the saved copy
+      setTasks((prev) => prev.map((task) => (task.id === taskId ? { ...task, ...savedTask } : task)))
+
+      if (previousTask) {
+        commitTaskChanges(diffTaskFields(previousTask, updates), "Edit task")
+      }
+
+      if (assignments !== undefined) {
+        await refreshTaskAllocations(taskId)
+      }
+    } catch (err) {
       // Rollback on error
       setTasks(previousTasks)
+
+      // Resolved in the conflict dialog, so the edit itself is done
+      if (isTaskVersionConflict(err) && previousTask) {
+        showConflict(previousTask, err.current, updates, assignments)
+        return
+      }
+
+      console.error("Error updating task:", err)
       throw err
     }
   }
 
+  // Delete a task through the provider
+  const removeTask = async (taskId: string) => {
+    if (isClientMode && clientProvider) {
+      // Client mode: Direct API call via provider
+      await clientProvider.deleteTask(taskId)
+      return
+    }
+
+    // Server mode: Fetch via API route
+    const modifiedBy = encodeURIComponent(getRealtimeIdentity().userName)
+    const response = await fetch(projectApiPath(projectId, `/tasks/${taskId}?modifiedBy=${modifiedBy}`), {
+      method: "DELETE",
+      headers: realtimeHeaders(),
+    })
+
+    if (!response.ok) {
+      throw new Error("Failed to delete task")
+    }
+
+    const result = await response.json()
+
+    if (!result.success) {
+      throw new Error(result.error || "Failed to delete task")
+    }
+  }
+
+  // Drop a deleted task locally the way providers do: subtasks move up to the
+  // top level and the task's links go away
+  const removeTaskLocally = (taskId: string) => {
+    setTasks((prev) =>
+      prev
+        .filter((task) => task.id !== taskId)
+        .map((task) => (task.parentId === taskId ? { ...task, parentId: undefined } : task))
+    )
+    setDependencies((prev) =>
+      prev.filter((dep) => dep.predecessorId !== taskId && dep.successorId !== taskId)
+    )
+  }
+
   // Handle task delete
   const handleTaskDelete = async (taskId: string) => {
     // Optimistic update
     const previousTasks = [...tasks]
-    setTasks((prev) => prev.filter((task) => task.id !== taskId))
+    const previousDependencies = [...dependencies]
+    const deletedTask = tasks.find((task) => task.id === taskId)
+    removeTaskLocally(taskId)
+
+    try {
+      await removeTask(taskId)
+
+      if (deletedTask) {
+        commitTaskChanges(
+          [{ taskId, changeType: "delete", oldValue: getTaskSnapshot(deletedTask) }],
+          "Delete task"
+        )
+      }
+    } catch (err) {
+      console.error("Error deleting task:", err)
+      // Rollback on error
+      setTasks(previousTasks)
+      setDependencies(previousDependencies)
+      alert("Failed to delete task. Please try again.")
+      throw err
+    }
+  }
+
+  // Provider calls the undo executor applies change sets through
+  const taskMutations: TaskMutations = {
+    createTask: (snapshot) =>
+      saveNewTask({
+        id: snapshot.id,
+        name: snapshot.name,
+        startAt: snapshot.startAt,
+        endAt: snapshot.endAt,
+        statusId: snapshot.status?.id,
+        group: snapshot.group,
+        owner: snapshot.owner,
+        description: snapshot.description,
+        progress: snapshot.progress,
+        parentId: snapshot.parentId,
+      }),
+    updateTask: (taskId, fields, version) => saveTaskFields(taskId, fields, version),
+    deleteTask: removeTask,
+  }
+
+  // Bring the local tasks in line with what an applied (or rolled back)
+  // change set left on the server
+  const syncAppliedTasks = ({ saved, deletedIds }: Pick<ChangeSetApplyResult, "saved" | "deletedIds">) => {
+    deletedIds.forEach(removeTaskLocally)
+    const savedById = new Map(saved.map((task) => [task.id, task]))
+    setTasks((prev) => {
+      const known = new Set(prev.map((task) => task.id))
+      return [
+        ...prev.map((task) => (savedById.has(task.id) ? { ...task, ...savedById.get(task.id) } : task)),
+        ...saved.filter((task) => !known.has(task.id)),
+      ]
+    })
+  }
+
+  // Sync what a failed change set left behind and describe the failure
+  const getApplyErrorMessage = (err: unknown, action: string): string => {
+    if (!(err instanceof ChangeSetApplyError)) {
+      return err instanceof Error ? err.message : `Failed to ${action}. Please try again.`
+    }
+
+    syncAppliedTasks(err)
+    let reason = err.message
+    if (isTaskVersionConflict(err.reason)) {
+      const current = err.reason.current
+      syncAppliedTasks({
+        saved: [{ ...current, startAt: new Date(current.startAt), endAt: new Date(current.endAt) }],
+        deletedIds: [],
+      })
+      reason = `"${current.name}" was changed by ${current.modifiedBy || "someone else"}`
+    }
+
+    return err.rolledBack
+      ? `Couldn't ${action}: ${reason}. Nothing was changed.`
+      : `Couldn't ${action}: ${reason}. Some changes could not be rolled back; reload to see the current data.`
+  }
+
+  const reportSkippedTasks = (taskIds: string[], action: string) => {
+    if (taskIds.length === 0) return
+    alert(`${taskIds.length} task${taskIds.length === 1 ? " was" : "s were"} deleted since and could not be ${action}.`)
+  }
+
+  // Undo a committed change set from the history panel by applying its
+  // inverse, recorded as a change set of its own. Nothing is changed unless
+  // every step succeeds.
+  const revertChangeSet = async (changeSet: ChangeSet) => {
+    let result: ChangeSetApplyResult
+    try {
+      result = await undoChangeSet(changeSet, tasks, statuses, taskMutations)
+    } catch (err) {
+      console.error("Error reverting change set:", err)
+      throw new Error(getApplyErrorMessage(err, "revert"))
+    }
+
+    syncAppliedTasks(result)
+    useVersionControlStore.getState().replaceTaskIds(result.idMap)
+    commitTaskChanges(result.changes, `Revert: ${changeSet.description || "changes"}`)
+    reportSkippedTasks(result.skippedTaskIds, "reverted")
+  }
+
+  // Roll back the current change set through the provider, then step back in
+  // the undo history. The server records the rollback in its change history.
+  const handleUndo = async () => {
+    const store = useVersionControlStore.getState()
+    const changeSet = store.changeSets[store.currentIndex]
+    if (!changeSet || isApplyingHistoryRef.current) return
+
+    isApplyingHistoryRef.current = true
+    try {
+      const result = await undoChangeSet(changeSet, tasks, statuses, taskMutations)
+      syncAppliedTasks(result)
+      store.replaceTaskIds(result.idMap)
+      store.undo()
+      if (changeSet.id === appliedLevelingId) setAppliedLevelingId(null)
+
+      reportSkippedTasks(result.skippedTaskIds, "restored")
+    } catch (err) {
+      console.error("Error undoing changes:", err)
+      alert(getApplyErrorMessage(err, "undo"))
+    } finally {
+      isApplyingHistoryRef.current = false
+    }
+  }
+
+  // Apply the next undone change set again
+  const handleRedo = async () => {
+    const store = useVersionControlStore.getState()
+    const changeSet = store.changeSets[store.currentIndex + 1]
+    if (!changeSet || isApplyingHistoryRef.current) return
+
+    isApplyingHistoryRef.current = true
+    try {
+      const result = await redoChangeSet(changeSet, tasks, statuses, taskMutations)
+      syncAppliedTasks(result)
+      store.replaceTaskIds(result.idMap)
+      store.redo()
+
+      reportSkippedTasks(result.skippedTaskIds, "changed")
+    } catch (err) {
+      console.error("Error redoing changes:", err)
+      alert(getApplyErrorMessage(err, "redo"))
+    } finally {
+      isApplyingHistoryRef.current = false
+    }
+  }
+
+  useKeyboardShortcuts({
+    onIndent: () => selectedTaskId && handleTaskIndent(selectedTaskId),
+    onOutdent: () => selectedTaskId && handleTaskOutdent(selectedTaskId),
+    onUndo: handleUndo,
+    onRedo: handleRedo,
+    enabled: !editingTask,
+  })
+
+  // Load the comments and recorded history of the task open in the edit modal.
+  // Client mode talks to Baserow directly, which has neither.
+  const editingTaskId = editingTask?.id
+  useEffect(() => {
+    setTaskComments([])
+    setTaskHistory([])
+    if (!editingTaskId || isClientMode) return
+
+    let cancelled = false
+    setCommentsLoading(true)
+    fetch(projectApiPath(projectId, `/tasks/${editingTaskId}/comments`))
+      .then((response) => response.json())
+      .then((result) => {
+        if (!result.success) {
+          throw new Error(result.error || "Failed to fetch comments")
+        }
+        if (!cancelled) setTaskComments(result.data)
+      })
+      .catch((err) => console.warn("Failed to fetch comments:", err))
+      .finally(() => {
+        if (!cancelled) setCommentsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [editingTaskId, isClientMode, projectId])
+
+  // The server records the changes saved here, so the history is read again
+  // after every change this tab makes
+  useEffect(() => {
+    if (!editingTaskId || isClientMode) return
+
+    let cancelled = false
+    fetch(projectApiPath(projectId, `/history?${new URLSearchParams({ taskId: editingTaskId })}`))
+      .then((response) => response.json())
+      .then((result) => {
+        if (!result.success) {
+          throw new Error(result.error || "Failed to fetch change history")
+        }
+        if (!cancelled) setTaskHistory(result.data)
+      })
+      .catch((err) => console.warn("Failed to fetch change history:", err))
+
+    return () => {
+      cancelled = true
+    }
+  }, [editingTaskId, isClientMode, projectId, changeSets, changeIndex])
+
+  // The recorded history, or in client mode this tab's change sets up to its
+  // undo position
+  const taskActivity = useMemo(() => {
+    if (!editingTaskId) return []
+    const history = isClientMode ? changeSets.slice(0, changeIndex + 1) : taskHistory
+    return buildActivityFeed(editingTaskId, taskComments, history)
+  }, [editingTaskId, isClientMode, taskComments, taskHistory, changeSets, changeIndex])
+
+  // Handle comment creation (edit modal)
+  const handleCommentAdd = async (taskId: string, content: string, parentId?: string) => {
+    const { userId, userName } = getRealtimeIdentity()
+    const response = await fetch(projectApiPath(projectId, `/tasks/${taskId}/comments`), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ userId, userName, content, parentId }),
+    })
+
+    const result = await response.json()
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.message || result.error || "Failed to add comment")
+    }
+
+    setTaskComments((prev) => [...prev, result.data])
+  }
+
+  // Handle comment delete; the server also removes the replies
+  const handleCommentDelete = async (taskId: string, commentId: string) => {
+    const response = await fetch(projectApiPath(projectId, `/tasks/${taskId}/comments/${commentId}`), {
+      method: "DELETE",
+    })
+
+    const result = await response.json()
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.message || result.error || "Failed to delete comment")
+    }
+
+    setTaskComments((prev) => {
+      const removed = new Set(getCommentThreadIds(prev, commentId))
+      return prev.filter((comment) => !removed.has(comment.id))
+    })
+  }
+
+  // Handle dependency creation (link drawn in the Gantt)
+  const handleDependencyCreate = async (predecessorId: string, successorId: string) => {
+    try {
+      if (isClientMode && clientProvider) {
+        // Client mode: Direct API call via provider
+        const createdDependency = await clientProvider.addDependency({ predecessorId, successorId })
+        setDependencies((prev) => [...prev, createdDependency])
+      } else {
+        // Server mode: Fetch via API route
+        const response = await fetch(projectApiPath(projectId, "/dependencies"), {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ predecessorId, successorId }),
+        })
+
+        const result = await response.json()
+
+        if (!response.ok || !result.success) {
+          throw new Error(result.message || result.error || "Failed to create dependency")
+        }
+
+        setDependencies((prev) => [...prev, result.data])
+      }
+    } catch (err) {
+      console.error("Error creating dependency:", err)
+      alert(err instanceof Error ? err.message : "Failed to create dependency. Please try again.")
+    }
+  }
+
+  // Handle dependency delete (arrow clicked in the Gantt)
+  const handleDependencyDelete = async (dependencyId: string) => {
+    // Optimistic update
+    const previousDependencies = [...dependencies]
+    setDependencies((prev) => prev.filter((dep) => dep.id !== dependencyId))
 
     try {
       if (isClientMode && clientProvider) {
         // Client mode: Direct API call via provider
-        await clientProvider.deleteTask(taskId)
+        await clientProvider.removeDependency(dependencyId)
       } else {
         // Server mode: Fetch via API route
-        const response = await fetch(`/api/tasks/${taskId}`, {
+        const response = await fetch(projectApiPath(projectId, `/dependencies/${encodeURIComponent(dependencyId)}`), {
           method: "DELETE",
         })
 
         if (!response.ok) {
-          throw new Error("Failed to delete task")
+          throw new Error("Failed to delete dependency")
         }
 
         const result = await response.json()
 
         if (!result.success) {
-          throw new Error(result.error || "Failed to delete task")
+          throw new Error(result.error || "Failed to delete dependency")
         }
       }
     } catch (err) {
-      console.error("Error deleting task:", err)
+      console.error("Error deleting dependency:", err)
       // Rollback on error
-      setTasks(previousTasks)
-      alert("Failed to delete task. Please try again.")
-      throw err
+      setDependencies(previousDependencies)
+      alert("Failed to delete dependency. Please try again.")
     }
   }
 
+  // Freeze the current plan; the tasks are sent so client mode works too
+  const handleBaselineCreate = async (name: string) => {
+    try {
+      const response = await fetch(projectApiPath(projectId, "/baselines"), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          tasks: tasks.map(({ id, startAt, endAt, progress }) => ({ id, startAt, endAt, progress })),
+        }),
+      })
+
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || result.error || "Failed to save baseline")
+      }
+
+      const baseline = reviveBaseline(result.data)
+      setBaselines((prev) => [baseline, ...prev])
+      setSelectedBaselineId(baseline.id)
+    } catch (err) {
+      console.error("Error saving baseline:", err)
+      alert(err instanceof Error ? err.message : "Failed to save baseline")
+    }
+  }
+
+  const handleBaselineDelete = async (baselineId: string) => {
+    try {
+      const response = await fetch(projectApiPath(projectId, `/baselines/${encodeURIComponent(baselineId)}`), {
+        method: "DELETE",
+      })
+
+      if (!response.ok) {
+        const result = await response.json()
+        throw new Error(result.message || result.error || "Failed to delete baseline")
+      }
+
+      setBaselines((prev) => prev.filter((baseline) => baseline.id !== baselineId))
+      setSelectedBaselineId((prev) => (prev === baselineId ? null : prev))
+    } catch (err) {
+      console.error("Error deleting baseline:", err)
+      alert(err instanceof Error ? err.message : "Failed to delete baseline")
+    }
+  }
+
+  // Handle working calendar save
+  const handleCalendarSave = async (updatedCalendar: WorkCalendar) => {
+    if (isClientMode && clientProvider) {
+      setCalendar(await clientProvider.saveWorkCalendar(updatedCalendar))
+      return
+    }
+
+    const response = await fetch(projectApiPath(projectId, "/calendar"), {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(updatedCalendar),
+    })
+
+    const result = await response.json()
+    if (!response.ok || !result.success) {
+      throw new Error(result.message || result.error || "Failed to save calendar")
+    }
+
+    setCalendar(result.data)
+  }
+
   // Handle tasks import
-  const handleTasksImport = async (importedTasks: Partial<Task>[]) => {
-    const createdTasks: GanttTask[] = []
-
-    for (const taskData of importedTasks) {
-      try {
-        // Use first status as default if not specified
-        const statusId = taskData.status?.id || (statuses.length > 0 ? statuses[0].id : undefined)
-
-        if (isClientMode && clientProvider) {
-          // Client mode: Direct API call via provider
-          const createdTask = await clientProvider.createTask({
-            name: taskData.name!,
-            startAt: taskData.startAt!,
-            endAt: taskData.endAt!,
-            statusId,
-            owner: taskData.owner,
-            group: taskData.group,
-            description: taskData.description,
-            progress: taskData.progress,
-          })
+  const handleTasksImport = async (importedTasks: Partial<Task>[]): Promise<boolean> => {
+    // Use first status as default if not specified
+    const defaultStatusId = statuses.length > 0 ? statuses[0].id : undefined
+    const operations: TaskBatchOperation[] = importedTasks.map((taskData) => ({
+      type: "create",
+      data: {
+        name: taskData.name!,
+        startAt: new Date(taskData.startAt!),
+        endAt: new Date(taskData.endAt!),
+        statusId: taskData.status?.id || defaultStatusId,
+        owner: taskData.owner,
+        group: taskData.group,
+        description: taskData.description,
+        progress: taskData.progress,
+      },
+    }))
 
-          createdTasks.push({
-            ...createdTask,
-            startAt: new Date(createdTask.startAt),
-            endAt: new Date(createdTask.endAt),
-          })
-        } else {
-          // Server mode: Fetch via API route
-          const response = await fetch("/api/tasks", {
+    try {
+      let results: TaskBatchResult[]
+
+      if (isClientMode && clientProvider) {
+        // Client mode: Direct API calls via provider
+        results = await clientProvider.applyTaskBatch(operations)
+      } else {
+        // Server mode: All tasks are created, or none are; long imports take
+        // several requests, and a failed one deletes the tasks of the earlier ones
+        results = await applyTaskBatchInChunks(async (chunk) => {
+          const response = await fetch(projectApiPath(projectId, "/tasks/batch"), {
             method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              name: taskData.name,
-              startAt: taskData.startAt instanceof Date ? taskData.startAt.toISOString() : new Date(taskData.startAt!).toISOString(),
-              endAt: taskData.endAt instanceof Date ? taskData.endAt.toISOString() : new Date(taskData.endAt!).toISOString(),
-              statusId,
-              owner: taskData.owner,
-              group: taskData.group,
-              description: taskData.description,
-              progress: taskData.progress,
-            }),
+            headers: { "Content-Type": "application/json", ...realtimeHeaders() },
+            body: JSON.stringify({ operations: chunk, modifiedBy: getRealtimeIdentity().userName }),
           })
 
-          if (!response.ok) {
-            throw new Error("Failed to create task")
-          }
-
           const result = await response.json()
 
-          if (!result.success) {
-            throw new Error(result.error || "Failed to create task")
+          if (!response.ok || !result.success) {
+            throw new Error(result.message || result.error || "Failed to import tasks")
           }
 
-          createdTasks.push({
-            ...result.data,
-            startAt: new Date(result.data.startAt),
-            endAt: new Date(result.data.endAt),
-          })
+          return result.data
+        }, operations)
+      }
+
+      const createdTasks: GanttTask[] = results.map((result) => ({
+        ...result.task!,
+        startAt: new Date(result.task!.startAt),
+        endAt: new Date(result.task!.endAt),
+      }))
+      setTasks((prev) => [...prev, ...createdTasks])
+      return true
+    } catch (err) {
+      console.error("Error importing tasks:", err)
+      alert(`No tasks were imported. ${err instanceof Error ? err.message : "Please try again."}`)
+      return false
+    }
+  }
+
+  // Send a request of the project import and return its data
+  const requestImport = async <T,>(url: string, method: string, body?: unknown): Promise<T> => {
+    const response = await fetch(url, {
+      method,
+      headers: { "Content-Type": "application/json", ...realtimeHeaders() },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+
+    const result = await response.json()
+    if (!response.ok || !result.success) {
+      throw new Error(result.message || result.error || "Failed to import project")
+    }
+    return result.data
+  }
+
+  // Provider calls of a project import, through the API in server mode
+  const getProjectImportTarget = (): ProjectImportTarget => {
+    const modifiedBy = getRealtimeIdentity().userName
+    return isClientMode && clientProvider
+      ? {
+          applyTaskBatch: (operations) => clientProvider.applyTaskBatch(operations),
+          createResource: (data) => clientProvider.createResource(data),
+          deleteResource: (id) => clientProvider.deleteResource(id),
+          saveWorkCalendar: (updated) => clientProvider.saveWorkCalendar(updated),
+          createStatus: (data) => clientProvider.createStatus(data),
         }
-      } catch (err) {
-        console.error("Error creating task:", taskData.name, err)
+      : {
+          applyTaskBatch: (operations) => requestImport(projectApiPath(projectId, "/tasks/batch"), "POST", { operations, modifiedBy }),
+          createResource: (data) => requestImport(projectApiPath(projectId, "/resources"), "POST", data),
+          deleteResource: (id) => requestImport(projectApiPath(projectId, `/resources/${id}`), "DELETE"),
+          saveWorkCalendar: (updated) => requestImport(projectApiPath(projectId, "/calendar"), "PUT", updated),
+          createStatus: (data) => requestImport(projectApiPath(projectId, "/statuses"), "POST", data),
+          maxBatchSize: MAX_BATCH_OPERATIONS,
+        }
+  }
+
+  // Handle MS Project import: resources, tasks with their links, and the calendar
+  const handleProjectImport = async (project: MspdiProject): Promise<boolean> => {
+    try {
+      await importProject(
+        project,
+        { resources, calendar, statusId: statuses.length > 0 ? statuses[0].id : undefined },
+        getProjectImportTarget()
+      )
+    } catch (err) {
+      console.error("Error importing project:", err)
+      alert(`Nothing was imported. ${err instanceof Error ? err.message : "Please try again."}`)
+      return false
+    }
+
+    // Links, allocations and the merged calendar are easiest to pick up by reloading
+    await loadData()
+    return true
+  }
+
+  // Handle JSON project file import: everything the MS Project import brings,
+  // plus statuses, baselines and the view settings
+  const handleProjectFileImport = async (file: ProjectFile): Promise<boolean> => {
+    try {
+      if (isClientMode && clientProvider) {
+        const result = await importProject(
+          toImportedProject(file),
+          { resources, calendar, statuses, statusId: statuses.length > 0 ? statuses[0].id : undefined },
+          getProjectImportTarget()
+        )
+        // Baselines are kept by the server, which gives them new ids and creation dates here
+        try {
+          for (const baseline of file.baselines) {
+            await requestImport(projectApiPath(projectId, "/baselines"), "POST", {
+              name: baseline.name,
+              tasks: baseline.tasks.map((entry) => ({ ...entry, id: result.taskIds.get(entry.taskId) })),
+            })
+          }
+        } catch (err) {
+          console.warn("Failed to import baselines:", err)
+        }
+      } else {
+        // The server imports the whole file, or nothing
+        await requestImport(projectApiPath(projectId, "/project/import"), "POST", file)
       }
+    } catch (err) {
+      console.error("Error importing project file:", err)
+      alert(`Nothing was imported. ${err instanceof Error ? err.message : "Please try again."}`)
+      return false
     }
 
-    // Add all created tasks to the list
-    if (createdTasks.length > 0) {
-      setTasks((prev) => [...prev, ...createdTasks])
+    if (file.viewConfig) {
+      useGanttUIStore.getState().updateViewConfig(file.viewConfig)
     }
+    await loadData()
+    await loadBaselines()
+    return true
   }
 
   // Handle field mapper configuration save
@@ -930,12 +2111,22 @@ function GanttPageContent() {
 
   return (
     <GanttProvider
-      tasks={filteredTasks.length > 0 ? filteredTasks : tasks}
+      tasks={filteredTasks.length > 0 ? filteredTasks : scheduledTasks}
       onTaskMove={handleTaskMove}
       onTaskCreate={handleTaskCreate}
       onTaskClick={handleTaskClick}
       onTaskEditRequest={setEditingTask}
       onTaskDelete={handleTaskDelete}
+      onTaskIndent={handleTaskIndent}
+      onTaskOutdent={handleTaskOutdent}
+      dependencies={dependencies}
+      onDependencyCreate={handleDependencyCreate}
+      onDependencyDelete={handleDependencyDelete}
+      calendar={calendar}
+      baseline={baselines.find((baseline) => baseline.id === selectedBaselineId) || null}
+      showResources={showResources}
+      presence={presence}
+      onCursorMove={(cursor) => updatePresence({ cursor: cursor || undefined })}
     >
       <div className="min-h-screen bg-background">
         <div className="container mx-auto py-8">
@@ -967,6 +2158,49 @@ function GanttPageContent() {
             </div>
           )}
 
+          {/* Project switcher */}
+          {!isClientMode && projects.length > 0 && (
+            <div className="mb-6 flex items-center gap-3">
+              <label htmlFor="project-switcher" className="text-sm font-medium">
+                Project
+              </label>
+              <select
+                id="project-switcher"
+                value={projectId || ""}
+                onChange={(e) => router.push(e.target.value ? `/gantt?project=${encodeURIComponent(e.target.value)}` : "/gantt")}
+                className="px-3 py-1.5 border rounded-md text-sm bg-background"
+              >
+                <option value="">Default project</option>
+                {projects.map((project) => (
+                  <option key={project.id} value={project.id}>
+                    {project.name}
+                  </option>
+                ))}
+              </select>
+              <Link href="/portfolio" className="text-sm text-blue-600 hover:text-blue-800">
+                Portfolio
+              </Link>
+            </div>
+          )}
+
+          {/* Last leveling, undoable as one unit */}
+          {appliedLevelingId && (
+            <div className="mb-6 flex items-center justify-between bg-blue-50 border border-blue-200 rounded-lg p-4">
+              <span className="text-sm text-blue-800">Resources leveled.</span>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={undoLeveling}
+                  className="px-3 py-1.5 border border-blue-300 rounded text-sm text-blue-800 hover:bg-blue-100"
+                >
+                  Undo leveling
+                </button>
+                <button onClick={() => setAppliedLevelingId(null)} aria-label="Dismiss">
+                  <X className="w-4 h-4 text-blue-400 hover:text-blue-600" />
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Data Validation Warning */}
           {warning && (
             <div className="mb-6 bg-amber-50 border border-amber-200 rounded-lg p-4">
@@ -998,8 +2232,35 @@ function GanttPageContent() {
           )}
 
           <div className="mb-6 flex items-center justify-between">
-            <h1 className="text-3xl font-bold">Project Gantt Chart</h1>
+            <div className="flex items-center gap-4">
+              <h1 className="text-3xl font-bold">Project Gantt Chart</h1>
+              {presence.length > 0 && (
+                <div className="flex -space-x-1.5" title={`Also viewing: ${presence.map((user) => user.userName).join(", ")}`}>
+                  {presence.map((user) => (
+                    <div
+                      key={user.userId}
+                      className="w-7 h-7 rounded-full ring-2 ring-background flex items-center justify-center text-[10px] font-semibold text-white"
+                      style={{ backgroundColor: user.color }}
+                    >
+                      {user.userName
+                        .split(/\s+/)
+                        .map((part) => part[0])
+                        .join("")
+                        .slice(0, 2)
+                        .toUpperCase()}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
             <div className="flex gap-2">
+              <BaselineControls
+                baselines={baselines}
+                selectedBaselineId={selectedBaselineId}
+                onSelect={setSelectedBaselineId}
+                onCreate={handleBaselineCreate}
+                onDelete={handleBaselineDelete}
+              />
               <button
                 onClick={() => setShowDataMapper(true)}
                 className="relative flex items-center gap-2 px-4 py-2 border rounded hover:bg-accent transition-colors"
@@ -1013,6 +2274,71 @@ function GanttPageContent() {
                   </span>
                 )}
               </button>
+              <button
+                onClick={() => setShowCalendarEditor(true)}
+                className="flex items-center gap-2 px-4 py-2 border rounded hover:bg-accent transition-colors"
+                title="Edit Working Calendar"
+              >
+                <CalendarDays className="w-4 h-4" />
+                Calendar
+              </button>
+              <button
+                onClick={handleUndo}
+                disabled={!canUndo}
+                className="flex items-center gap-2 px-4 py-2 border rounded hover:bg-accent transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Undo (Ctrl+Z)"
+              >
+                <Undo2 className="w-4 h-4" />
+                Undo
+              </button>
+              <button
+                onClick={handleRedo}
+                disabled={!canRedo}
+                className="flex items-center gap-2 px-4 py-2 border rounded hover:bg-accent transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Redo (Ctrl+Y)"
+              >
+                <Redo2 className="w-4 h-4" />
+                Redo
+              </button>
+              <button
+                onClick={() => setShowHistory(true)}
+                className="flex items-center gap-2 px-4 py-2 border rounded hover:bg-accent transition-colors"
+                title="Change History"
+              >
+                <History className="w-4 h-4" />
+                History
+              </button>
+              <button
+                onClick={toggleResources}
+                className={`flex items-center gap-2 px-4 py-2 border rounded transition-colors ${
+                  showResources ? "bg-accent" : "hover:bg-accent"
+                }`}
+                title={showResources ? "Hide assignees on bars" : "Show assignees on bars"}
+                aria-pressed={showResources}
+              >
+                <Users className="w-4 h-4" />
+                Assignees
+              </button>
+              <button
+                onClick={() => setShowResourceLoad((prev) => !prev)}
+                className={`flex items-center gap-2 px-4 py-2 border rounded transition-colors ${
+                  showResourceLoad ? "bg-accent" : "hover:bg-accent"
+                }`}
+                title={showResourceLoad ? "Hide resource load" : "Show resource load under the timeline"}
+                aria-pressed={showResourceLoad}
+              >
+                <BarChart3 className="w-4 h-4" />
+                Resource Load
+              </button>
+              <button
+                onClick={handleLevelResources}
+                disabled={resources.length === 0}
+                className="flex items-center gap-2 px-4 py-2 border rounded hover:bg-accent transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Delay lower-priority tasks within their slack to resolve over-allocation"
+              >
+                <Scale className="w-4 h-4" />
+                Level Resources
+              </button>
               <GanttCreateMarkerTrigger />
               <button
                 onClick={loadData}
@@ -1020,6 +2346,16 @@ function GanttPageContent() {
               >
                 Refresh
               </button>
+              {session.user && (
+                <button
+                  onClick={session.signOut}
+                  className="flex items-center gap-2 px-4 py-2 border rounded hover:bg-accent transition-colors"
+                  title={`Signed in as ${session.user.name} (${session.user.role})`}
+                >
+                  <LogOut className="w-4 h-4" />
+                  {session.user.name}
+                </button>
+              )}
             </div>
           </div>
 
@@ -1032,12 +2368,19 @@ function GanttPageContent() {
             </div>
           ) : (
             <GanttContent
-              tasks={tasks}
+              tasks={scheduledTasks}
               statuses={statuses}
               onTaskUpdate={handleTaskUpdate}
               onTaskDelete={handleTaskDelete}
               onTasksImport={handleTasksImport}
+              onProjectImport={handleProjectImport}
+              onProjectFileImport={handleProjectFileImport}
               onProcessedTasksChange={setFilteredTasks}
+              resources={resources}
+              allocations={allocations}
+              baselines={baselines}
+              showResourceLoad={showResourceLoad}
+              hiddenFields={hiddenFields}
             />
           )}
 
@@ -1154,10 +2497,88 @@ function GanttPageContent() {
           <TaskEditModal
             task={editingTask}
             statuses={statuses}
+            resources={resources}
+            allocations={allocations.filter((allocation) => allocation.taskId === editingTask.id)}
+            comments={taskComments}
+            commentsLoading={commentsLoading}
+            activity={taskActivity}
+            currentUserId={getRealtimeIdentity().userId}
             onSave={handleTaskUpdate}
+            onAddComment={isClientMode ? undefined : handleCommentAdd}
+            onDeleteComment={isClientMode ? undefined : handleCommentDelete}
             onClose={() => setEditingTask(null)}
           />
         )}
+
+        {/* Edit Conflict */}
+        {pendingConflict && (
+          <TaskConflictDialog
+            base={pendingConflict.base}
+            theirs={pendingConflict.theirs}
+            updates={pendingConflict.updates}
+            onResolve={async (resolved) => {
+              const { theirs, assignments } = pendingConflict
+              setPendingConflict(null)
+              try {
+                await handleTaskUpdate(theirs.id, { ...resolved, assignments })
+              } catch {
+                alert("Failed to save task. Please try again.")
+              }
+            }}
+            onClose={() => setPendingConflict(null)}
+          />
+        )}
+
+        {/* Reschedule Preview */}
+        {pendingSchedule && (
+          <ReschedulePreviewDialog
+            changes={pendingSchedule}
+            onApplyAll={async () => {
+              if (await persistSchedule(pendingSchedule)) {
+                commitTaskChanges(getScheduleFieldChanges(pendingSchedule), "Reschedule successors")
+              }
+            }}
+            onApplySourceOnly={async () => {
+              const source = pendingSchedule.find((change) => change.isSource)
+              if (source) {
+                await persistTaskMove(source.taskId, source.startAt, source.endAt)
+              }
+            }}
+            onClose={() => setPendingSchedule(null)}
+          />
+        )}
+
+        {/* Resource Leveling Preview */}
+        {pendingLeveling && (
+          <ResourceLevelingDialog
+            changes={pendingLeveling.changes}
+            unresolvedTaskNames={pendingLeveling.unresolvedTaskIds.map(
+              (taskId) => tasks.find((task) => task.id === taskId)?.name || taskId
+            )}
+            onApply={() => applyLeveling(pendingLeveling.changes)}
+            onClose={() => setPendingLeveling(null)}
+          />
+        )}
+
+        {/* Working Calendar Editor */}
+        {showCalendarEditor && (
+          <WorkCalendarDialog
+            calendar={calendar}
+            onSave={handleCalendarSave}
+            onClose={() => setShowCalendarEditor(false)}
+          />
+        )}
+
+        {/* Change History */}
+        {showHistory && (
+          <HistoryPanel
+            tasks={tasks}
+            projectId={projectId}
+            unavailableMessage={isClientMode ? "Change history is not available with this data source." : undefined}
+            onRevert={revertChangeSet}
+            onClose={() => setShowHistory(false)}
+          />
+        )}
       </div>
     </GanttProvider>
   )
@@ -0,0 +1,125 @@
+"use client"
+
+/**
+ * @file app/login/page.tsx
+ * @description Sign-in page, with a username and password and/or single sign-on
+ */
+
+import React, { Suspense, useEffect, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+import { safeReturnTo, type AuthProviderType } from '@/lib/auth/roles'
+
+function LoginForm() {
+  const searchParams = useSearchParams()
+  const returnTo = safeReturnTo(searchParams.get('returnTo'))
+  const [providers, setProviders] = useState<AuthProviderType[] | null>(null)
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [signingIn, setSigningIn] = useState(false)
+  const [error, setError] = useState<string | null>(searchParams.get('error'))
+
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then((response) => response.json())
+      .then((result) => {
+        if (!result.success) throw new Error(result.message || result.error)
+        // Nothing to sign in to, or already signed in
+        if (!result.data.enabled || result.data.user) {
+          window.location.href = returnTo
+          return
+        }
+        setProviders(result.data.providers)
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load sign-in options'))
+  }, [returnTo])
+
+  const signIn = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSigningIn(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password }),
+      })
+      const data = await response.json()
+      if (data.success) {
+        window.location.href = returnTo
+      } else {
+        setError(data.message || data.error)
+        setSigningIn(false)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in')
+      setSigningIn(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-8">
+      <div className="bg-white rounded-lg shadow p-6 w-full max-w-sm">
+        <h1 className="text-2xl font-bold text-gray-900 mb-6">Sign in</h1>
+
+        {providers?.includes('local') && (
+          <form onSubmit={signIn} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium mb-1">Username</label>
+              <input
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                autoComplete="username"
+                autoFocus
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Password</label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="current-password"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={signingIn || !username.trim() || !password}
+              className="w-full px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              {signingIn ? 'Signing in...' : 'Sign in'}
+            </button>
+          </form>
+        )}
+
+        {providers?.includes('local') && providers.includes('oidc') && (
+          <div className="my-4 text-center text-sm text-gray-500">or</div>
+        )}
+
+        {providers?.includes('oidc') && (
+          <a
+            href={`/api/auth/oidc/login?${new URLSearchParams({ returnTo })}`}
+            className="block w-full px-6 py-2 text-center border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Sign in with SSO
+          </a>
+        )}
+
+        {error && (
+          <div className="mt-4 p-4 rounded-md bg-red-50 text-red-800 text-sm">{error}</div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function LoginPage() {
+  return (
+    <Suspense fallback={null}>
+      <LoginForm />
+    </Suspense>
+  )
+}
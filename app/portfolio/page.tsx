@@ -0,0 +1,301 @@
+"use client"
+
+/**
+ * @file app/portfolio/page.tsx
+ * @description Portfolio of projects with their overall span and progress
+ */
+
+import React, { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useSession } from '@/lib/hooks/use-session'
+import type { ConfigProfileSummary } from '@/lib/providers/provider-config'
+import type { Project, ProjectSummary } from '@/types/task'
+
+type PortfolioProject = Project & { summary: ProjectSummary }
+
+const EMPTY_FORM = { name: '', description: '', profileId: '', table: '' }
+
+function formatDate(value?: Date | string): string {
+  return value ? new Date(value).toLocaleDateString() : '—'
+}
+
+export default function PortfolioPage() {
+  const session = useSession()
+  // Projects are managed by admins when authentication is on
+  const canManage = !session.enabled || session.user?.role === 'admin'
+  const [projects, setProjects] = useState<PortfolioProject[]>([])
+  const [profiles, setProfiles] = useState<ConfigProfileSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const [result, setResult] = useState<{
+    success: boolean
+    message: string
+  } | null>(null)
+
+  const loadProjects = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch('/api/projects?summary=true')
+      const data = await response.json()
+      if (data.success) {
+        setProjects(data.data)
+      } else {
+        setResult({ success: false, message: data.message || data.error })
+      }
+    } catch (error) {
+      setResult({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to load projects',
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!session.ready) return
+    loadProjects()
+    if (!canManage) return
+    fetch('/api/config/profiles')
+      .then((response) => response.json())
+      .then((data) => {
+        if (data.success) setProfiles(data.data)
+      })
+      .catch((error) => console.error('Failed to load profiles:', error))
+  }, [loadProjects, session.ready, canManage])
+
+  const createProject = async () => {
+    setSaving(true)
+    setResult(null)
+
+    try {
+      const response = await fetch('/api/projects', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form),
+      })
+      const data = await response.json()
+      if (data.success) {
+        setForm(EMPTY_FORM)
+        setResult({ success: true, message: `Project "${data.data.name}" created` })
+        loadProjects()
+      } else {
+        setResult({ success: false, message: data.message || data.error })
+      }
+    } catch (error) {
+      setResult({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to create project',
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteProject = async (project: Project) => {
+    if (!confirm(`Delete the project "${project.name}"? Its tasks stay in the data source.`)) return
+    setResult(null)
+
+    try {
+      const response = await fetch(`/api/projects/${encodeURIComponent(project.id)}`, { method: 'DELETE' })
+      const data = await response.json()
+      setResult({ success: data.success, message: data.message || data.error })
+      if (data.success) {
+        loadProjects()
+      }
+    } catch (error) {
+      setResult({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to delete project',
+      })
+    }
+  }
+
+  const profileName = (profileId?: string) =>
+    profileId
+      ? profiles.find((profile) => profile.id === profileId)?.name || (canManage ? 'Missing profile' : 'Saved profile')
+      : 'Active configuration'
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-5xl mx-auto">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Portfolio</h1>
+          <p className="text-gray-600 mt-2">
+            All projects with their overall span and progress
+          </p>
+          <Link
+            href="/gantt"
+            className="text-blue-600 hover:text-blue-800 mt-2 inline-block"
+          >
+            ← Back to Gantt Chart
+          </Link>
+        </div>
+
+        {/* Projects */}
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4">Projects</h2>
+          {isLoading ? (
+            <p className="text-sm text-gray-600">Loading projects...</p>
+          ) : projects.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              No projects yet. The Gantt chart shows the default project, the tasks of the active configuration.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2 pr-4 font-medium">Project</th>
+                  <th className="py-2 pr-4 font-medium">Data Source</th>
+                  <th className="py-2 pr-4 font-medium">Start</th>
+                  <th className="py-2 pr-4 font-medium">Finish</th>
+                  <th className="py-2 pr-4 font-medium">Tasks</th>
+                  <th className="py-2 pr-4 font-medium w-40">Progress</th>
+                  <th className="py-2 font-medium"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {projects.map((project) => (
+                  <tr key={project.id} className="border-b last:border-0 align-top">
+                    <td className="py-3 pr-4">
+                      <div className="flex items-center gap-2 font-medium">
+                        {project.color && (
+                          <span className="w-3 h-3 rounded-full" style={{ backgroundColor: project.color }} />
+                        )}
+                        {project.name}
+                      </div>
+                      {project.description && (
+                        <div className="text-xs text-gray-500 mt-1">{project.description}</div>
+                      )}
+                    </td>
+                    <td className="py-3 pr-4 text-gray-700">
+                      {profileName(project.profileId)}
+                      {project.table && <div className="text-xs text-gray-500">{project.table}</div>}
+                    </td>
+                    {project.summary.error ? (
+                      <td colSpan={4} className="py-3 pr-4 text-red-700">
+                        {project.summary.error}
+                      </td>
+                    ) : (
+                      <>
+                        <td className="py-3 pr-4">{formatDate(project.summary.startAt)}</td>
+                        <td className="py-3 pr-4">{formatDate(project.summary.endAt)}</td>
+                        <td className="py-3 pr-4">
+                          {project.summary.completedCount}/{project.summary.taskCount}
+                        </td>
+                        <td className="py-3 pr-4">
+                          <div className="flex items-center gap-2">
+                            <div className="flex-1 h-2 bg-gray-200 rounded">
+                              <div
+                                className="h-2 bg-blue-600 rounded"
+                                style={{ width: `${project.summary.progress}%` }}
+                              />
+                            </div>
+                            <span className="text-xs text-gray-600">{project.summary.progress}%</span>
+                          </div>
+                        </td>
+                      </>
+                    )}
+                    <td className="py-3 text-right whitespace-nowrap">
+                      <Link
+                        href={`/gantt?project=${encodeURIComponent(project.id)}`}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        Open
+                      </Link>
+                      {canManage && (
+                        <button
+                          onClick={() => deleteProject(project)}
+                          className="ml-3 text-gray-500 hover:text-red-700"
+                        >
+                          Delete
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* New Project */}
+        {canManage && (
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-xl font-semibold mb-2">New Project</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              A project keeps its tasks in a saved configuration profile, or in a table of the active configuration:
+              a Baserow tasks table id, a MongoDB collection, an Excel workbook name, or a PostgreSQL/MySQL database.
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  maxLength={100}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Description</label>
+                <input
+                  type="text"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Data Source</label>
+                <select
+                  value={form.profileId}
+                  onChange={(e) => setForm({ ...form, profileId: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  <option value="">Active configuration</option>
+                  {profiles.map((profile) => (
+                    <option key={profile.id} value={profile.id}>
+                      {profile.name} ({profile.description})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Table (optional)</label>
+                <input
+                  type="text"
+                  value={form.table}
+                  onChange={(e) => setForm({ ...form, table: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+            </div>
+            <button
+              onClick={createProject}
+              disabled={saving || !form.name.trim()}
+              className="mt-4 px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Creating...' : 'Create Project'}
+            </button>
+
+            {result && (
+              <div
+                className={`mt-4 p-4 rounded-md ${
+                  result.success ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+                }`}
+              >
+                <div className="font-medium">
+                  {result.success ? '✓ Success' : '✗ Failed'}
+                </div>
+                <div className="text-sm mt-1">{result.message}</div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
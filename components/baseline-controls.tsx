@@ -0,0 +1,79 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Camera, Trash2 } from 'lucide-react'
+import type { Baseline } from '@/types/task'
+
+interface BaselineControlsProps {
+  baselines: Baseline[]
+  selectedBaselineId: string | null
+  onSelect: (baselineId: string | null) => void
+  onCreate: (name: string) => Promise<void>
+  onDelete: (baselineId: string) => Promise<void>
+}
+
+export function BaselineControls({
+  baselines,
+  selectedBaselineId,
+  onSelect,
+  onCreate,
+  onDelete,
+}: BaselineControlsProps) {
+  const [isSaving, setIsSaving] = useState(false)
+
+  const selected = baselines.find((baseline) => baseline.id === selectedBaselineId)
+
+  const handleCreate = async () => {
+    const name = prompt('Baseline name', `Baseline ${new Date().toLocaleDateString()}`)
+    if (!name?.trim()) return
+
+    setIsSaving(true)
+    try {
+      await onCreate(name.trim())
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (selected && confirm(`Delete baseline "${selected.name}"?`)) {
+      await onDelete(selected.id)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <select
+        value={selectedBaselineId || ''}
+        onChange={(e) => onSelect(e.target.value || null)}
+        className="h-full px-3 py-2 border rounded bg-background text-sm"
+        title="Compare against baseline"
+      >
+        <option value="">No baseline</option>
+        {baselines.map((baseline) => (
+          <option key={baseline.id} value={baseline.id}>
+            {baseline.name} ({baseline.createdAt.toLocaleDateString()})
+          </option>
+        ))}
+      </select>
+      {selected && (
+        <button
+          onClick={handleDelete}
+          className="p-2 border rounded hover:bg-red-100 hover:text-red-600 transition-colors"
+          title="Delete baseline"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      )}
+      <button
+        onClick={handleCreate}
+        disabled={isSaving}
+        className="flex items-center gap-2 px-4 py-2 border rounded hover:bg-accent transition-colors disabled:opacity-50"
+        title="Save the current plan as a baseline"
+      >
+        <Camera className="w-4 h-4" />
+        {isSaving ? 'Saving...' : 'Save Baseline'}
+      </button>
+    </div>
+  )
+}
@@ -15,6 +15,9 @@ import {
   ChevronUp,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import type { ValidationError } from '@/types/task'
+
+export type { ValidationError }
 
 export interface FieldMapping {
   sourceField: string
@@ -38,13 +41,6 @@ export interface TextTemplate {
   fields: string[]
 }
 
-export interface ValidationError {
-  row: number
-  field: string
-  error: string
-  value?: unknown
-}
-
 interface DataFieldMapperProps {
   sourceFields: string[]
   sourceData: Record<string, unknown>[]
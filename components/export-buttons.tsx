@@ -1,18 +1,57 @@
 'use client'
 
 import React from 'react'
-import { Download, FileImage, FileText, Loader2 } from 'lucide-react'
+import { FileImage, FileText, Loader2 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { renderGanttSvg } from '@/lib/utils/gantt-render'
+import { renderGanttPdf } from '@/lib/utils/gantt-pdf'
+import type { GanttViewConfig, Task, TaskDependency, WorkCalendar } from '@/types/task'
 
 interface ExportButtonsProps {
-  ganttRef: React.RefObject<HTMLElement>
+  tasks: Task[]
+  viewConfig: GanttViewConfig
+  dependencies?: TaskDependency[]
+  calendar?: WorkCalendar
   tableRef?: React.RefObject<HTMLElement>
   filename?: string
   className?: string
 }
 
-export function ExportButtons({ ganttRef, tableRef, filename = 'gantt-chart', className }: ExportButtonsProps) {
-  const [exporting, setExporting] = React.useState<'png' | 'pdf' | null>(null)
+// The chart is drawn from the tasks as vectors; the table is captured from the screen
+export function ExportButtons({
+  tasks,
+  viewConfig,
+  dependencies,
+  calendar,
+  tableRef,
+  filename = 'gantt-chart',
+  className,
+}: ExportButtonsProps) {
+  const [exporting, setExporting] = React.useState<'svg' | 'pdf' | null>(null)
+
+  const exportChart = async (format: 'svg' | 'pdf') => {
+    setExporting(format)
+    try {
+      const name = `${filename}-gantt`
+      if (format === 'svg') {
+        const svg = renderGanttSvg(tasks, viewConfig, { dependencies, calendar })
+        const link = document.createElement('a')
+        const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }))
+        link.download = `${name}.svg`
+        link.href = url
+        link.click()
+        URL.revokeObjectURL(url)
+      } else {
+        const pdf = await renderGanttPdf(tasks, viewConfig, { dependencies, calendar })
+        pdf.save(`${name}.pdf`)
+      }
+    } catch (error) {
+      console.error('Chart export failed:', error)
+      alert(`Failed to export ${format.toUpperCase()}. Please try again.`)
+    } finally {
+      setExporting(null)
+    }
+  }
 
   const exportToPNG = async (element: HTMLElement, name: string) => {
     try {
@@ -104,25 +143,19 @@ export function ExportButtons({ ganttRef, tableRef, filename = 'gantt-chart', cl
     }
   }
 
-  const handleExport = async (format: 'png' | 'pdf', target: 'gantt' | 'table') => {
-    const element = target === 'gantt' ? ganttRef.current : tableRef?.current
+  const exportTable = async (format: 'png' | 'pdf') => {
+    const element = tableRef?.current
 
     if (!element) {
-      alert(`${target === 'gantt' ? 'Gantt chart' : 'Table'} not found`)
+      alert('Table not found')
       return
     }
 
-    setExporting(format)
-
-    try {
-      const name = `${filename}-${target}`
-      if (format === 'png') {
-        await exportToPNG(element, name)
-      } else {
-        await exportToPDF(element, name)
-      }
-    } finally {
-      setExporting(null)
+    const name = `${filename}-table`
+    if (format === 'png') {
+      await exportToPNG(element, name)
+    } else {
+      await exportToPDF(element, name)
     }
   }
 
@@ -130,25 +163,25 @@ export function ExportButtons({ ganttRef, tableRef, filename = 'gantt-chart', cl
     <div className={cn('flex items-center gap-2', className)}>
       <div className="flex items-center gap-1 p-1 rounded-lg bg-accent/50">
         <button
-          onClick={() => handleExport('png', 'gantt')}
+          onClick={() => exportChart('svg')}
           disabled={exporting !== null}
           className={cn(
             'flex items-center gap-1 px-3 py-1.5 text-xs font-medium rounded transition-all',
-            exporting === 'png' ? 'bg-primary text-primary-foreground' : 'hover:bg-accent',
+            exporting === 'svg' ? 'bg-primary text-primary-foreground' : 'hover:bg-accent',
             exporting !== null && 'opacity-50 cursor-not-allowed'
           )}
-          title="Export Gantt to PNG"
+          title="Export Gantt to SVG"
         >
-          {exporting === 'png' ? (
+          {exporting === 'svg' ? (
             <Loader2 className="w-3 h-3 animate-spin" />
           ) : (
             <FileImage className="w-3 h-3" />
           )}
-          PNG
+          SVG
         </button>
 
         <button
-          onClick={() => handleExport('pdf', 'gantt')}
+          onClick={() => exportChart('pdf')}
           disabled={exporting !== null}
           className={cn(
             'flex items-center gap-1 px-3 py-1.5 text-xs font-medium rounded transition-all',
@@ -170,7 +203,7 @@ export function ExportButtons({ ganttRef, tableRef, filename = 'gantt-chart', cl
         <div className="flex items-center gap-1 p-1 rounded-lg bg-accent/50">
           <span className="text-xs text-muted-foreground px-2">Table:</span>
           <button
-            onClick={() => handleExport('png', 'table')}
+            onClick={() => exportTable('png')}
             disabled={exporting !== null}
             className={cn(
               'flex items-center gap-1 px-2 py-1.5 text-xs font-medium rounded transition-all',
@@ -183,7 +216,7 @@ export function ExportButtons({ ganttRef, tableRef, filename = 'gantt-chart', cl
           </button>
 
           <button
-            onClick={() => handleExport('pdf', 'table')}
+            onClick={() => exportTable('pdf')}
             disabled={exporting !== null}
             className={cn(
               'flex items-center gap-1 px-2 py-1.5 text-xs font-medium rounded transition-all',
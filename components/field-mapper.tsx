@@ -47,6 +47,7 @@ export function FieldMapper({
     owner: initialMapping?.tasks?.owner || '',
     description: initialMapping?.tasks?.description || '',
     progress: initialMapping?.tasks?.progress || '',
+    predecessors: initialMapping?.tasks?.predecessors || '',
   })
 
   const [statusMapping, setStatusMapping] = useState({
@@ -85,6 +86,7 @@ export function FieldMapper({
           owner: taskSuggestions.owner?.[0]?.field.name || '',
           description: taskSuggestions.description?.[0]?.field.name || '',
           progress: taskSuggestions.progress?.[0]?.field.name || '',
+          predecessors: taskSuggestions.predecessors?.[0]?.field.name || '',
         }
 
         const autoStatusMapping = {
@@ -312,6 +314,14 @@ export function FieldMapper({
             false,
             suggestions?.tasks.progress
           )}
+          {renderFieldSelect(
+            'Predecessors (link to table)',
+            taskMapping.predecessors,
+            (v) => setTaskMapping({ ...taskMapping, predecessors: v }),
+            getFieldOptions(taskFields, suggestions?.tasks.predecessors),
+            false,
+            suggestions?.tasks.predecessors
+          )}
         </div>
       </div>
 
@@ -358,9 +368,9 @@ export function FieldMapper({
               .filter(Boolean).length
           } / 6</div>
           <div><strong>Optional fields mapped:</strong> {
-            [taskMapping.status, taskMapping.group, taskMapping.owner, taskMapping.description, taskMapping.progress, statusMapping.color]
+            [taskMapping.status, taskMapping.group, taskMapping.owner, taskMapping.description, taskMapping.progress, taskMapping.predecessors, statusMapping.color]
               .filter(Boolean).length
-          } / 6</div>
+          } / 7</div>
         </div>
       </div>
     </div>
@@ -0,0 +1,288 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { X, FileDown } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { renderGanttSvg } from '@/lib/utils/gantt-render'
+import { renderGanttPdf, GanttPaperSize } from '@/lib/utils/gantt-pdf'
+import { toDateKey } from '@/lib/utils/work-calendar'
+import type { GanttViewConfig, Task, TaskDependency, WorkCalendar } from '@/types/task'
+
+interface GanttExportDialogProps {
+  tasks: Task[]
+  dependencies: TaskDependency[]
+  calendar: WorkCalendar
+  viewConfig: GanttViewConfig
+  viewStart: Date
+  viewEnd: Date
+  onClose: () => void
+}
+
+type ExportFormat = 'pdf' | 'svg'
+type ExportRange = 'project' | 'view' | 'custom'
+
+const PAPER_SIZES: { value: GanttPaperSize; label: string }[] = [
+  { value: 'a4', label: 'A4' },
+  { value: 'a3', label: 'A3' },
+  { value: 'letter', label: 'Letter' },
+  { value: 'legal', label: 'Legal' },
+  { value: 'tabloid', label: 'Tabloid' },
+]
+
+function download(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+function parseDateInput(value: string): Date | undefined {
+  if (!value) return undefined
+  const [year, month, day] = value.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+/**
+ * Export the chart as vector SVG or a paginated PDF, drawn from the tasks
+ * rather than captured from the screen
+ */
+export function GanttExportDialog({
+  tasks,
+  dependencies,
+  calendar,
+  viewConfig,
+  viewStart,
+  viewEnd,
+  onClose,
+}: GanttExportDialogProps) {
+  const [mounted, setMounted] = useState(false)
+  const [format, setFormat] = useState<ExportFormat>('pdf')
+  const [range, setRange] = useState<ExportRange>('project')
+  const [customStart, setCustomStart] = useState(toDateKey(viewStart))
+  const [customEnd, setCustomEnd] = useState(toDateKey(viewEnd))
+  const [paperSize, setPaperSize] = useState<GanttPaperSize>('a4')
+  const [orientation, setOrientation] = useState<'landscape' | 'portrait'>('landscape')
+  const [rowHeight, setRowHeight] = useState(18)
+  const [title, setTitle] = useState('Project Schedule')
+  const [isExporting, setIsExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setMounted(true)
+  }, [])
+
+  const handleExport = async () => {
+    let startDate: Date | undefined
+    let endDate: Date | undefined
+    if (range === 'view') {
+      startDate = viewStart
+      endDate = viewEnd
+    } else if (range === 'custom') {
+      startDate = parseDateInput(customStart)
+      // The end date is included
+      const lastDay = parseDateInput(customEnd)
+      endDate = lastDay && new Date(lastDay.getFullYear(), lastDay.getMonth(), lastDay.getDate() + 1)
+      if (!startDate || !endDate || startDate >= endDate) {
+        setError('Choose a start date before the end date')
+        return
+      }
+    }
+
+    setIsExporting(true)
+    setError(null)
+    try {
+      const options = { startDate, endDate, dependencies, calendar, title: title.trim() || undefined }
+      const filename = `gantt-chart-${toDateKey(new Date())}`
+      if (format === 'svg') {
+        const svg = renderGanttSvg(tasks, viewConfig, { ...options, rowHeight: Math.round(rowHeight * 1.5) })
+        download(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }), `${filename}.svg`)
+      } else {
+        const pdf = await renderGanttPdf(tasks, viewConfig, { ...options, paperSize, orientation, rowHeight })
+        pdf.save(`${filename}.pdf`)
+      }
+      onClose()
+    } catch (err) {
+      console.error('Chart export failed:', err)
+      setError(err instanceof Error ? err.message : 'Failed to export chart')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape' && !isExporting) {
+      onClose()
+    }
+  }
+
+  if (!mounted) return null
+
+  const inputClass =
+    'px-3 py-2 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary'
+  const optionClass = (active: boolean) =>
+    cn(
+      'px-3 py-1.5 text-sm rounded-md border transition-colors',
+      active ? 'bg-primary text-primary-foreground border-primary' : 'hover:bg-accent'
+    )
+
+  const modal = (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in-0">
+      <div
+        className="relative w-full max-w-lg m-4 bg-background border rounded-lg shadow-2xl animate-in zoom-in-95"
+        onKeyDown={handleKeyDown}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-2xl font-bold flex items-center gap-2">
+              <FileDown className="w-6 h-6" />
+              Export Chart
+            </h2>
+            <p className="text-sm text-muted-foreground mt-1">
+              Uses the current scale, colors and display options
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-accent rounded-lg transition-colors"
+            aria-label="Close"
+            type="button"
+            disabled={isExporting}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 max-h-[60vh] overflow-y-auto">
+          <div>
+            <label className="text-sm font-medium mb-2 block">Format</label>
+            <div className="flex gap-2">
+              <button type="button" onClick={() => setFormat('pdf')} className={optionClass(format === 'pdf')}>
+                PDF (paginated)
+              </button>
+              <button type="button" onClick={() => setFormat('svg')} className={optionClass(format === 'svg')}>
+                SVG (single image)
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium mb-2 block">Title</label>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className={cn(inputClass, 'w-full')}
+            />
+          </div>
+
+          <div>
+            <label className="text-sm font-medium mb-2 block">Date Range</label>
+            <div className="flex gap-2">
+              <button type="button" onClick={() => setRange('project')} className={optionClass(range === 'project')}>
+                Whole project
+              </button>
+              <button type="button" onClick={() => setRange('view')} className={optionClass(range === 'view')}>
+                Visible range
+              </button>
+              <button type="button" onClick={() => setRange('custom')} className={optionClass(range === 'custom')}>
+                Custom
+              </button>
+            </div>
+            {range === 'custom' && (
+              <div className="flex items-center gap-2 mt-2">
+                <input
+                  type="date"
+                  value={customStart}
+                  onChange={(e) => setCustomStart(e.target.value)}
+                  className={inputClass}
+                />
+                <span className="text-sm text-muted-foreground">to</span>
+                <input
+                  type="date"
+                  value={customEnd}
+                  onChange={(e) => setCustomEnd(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            )}
+          </div>
+
+          {format === 'pdf' && (
+            <div className="flex gap-4">
+              <div>
+                <label className="text-sm font-medium mb-2 block">Paper</label>
+                <select
+                  value={paperSize}
+                  onChange={(e) => setPaperSize(e.target.value as GanttPaperSize)}
+                  className={inputClass}
+                >
+                  {PAPER_SIZES.map((size) => (
+                    <option key={size.value} value={size.value}>
+                      {size.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-2 block">Orientation</label>
+                <select
+                  value={orientation}
+                  onChange={(e) => setOrientation(e.target.value as 'landscape' | 'portrait')}
+                  className={inputClass}
+                >
+                  <option value="landscape">Landscape</option>
+                  <option value="portrait">Portrait</option>
+                </select>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className="text-sm font-medium mb-2 block">Row Height: {rowHeight} pt</label>
+            <input
+              type="range"
+              min={12}
+              max={32}
+              value={rowHeight}
+              onChange={(e) => setRowHeight(Number(e.target.value))}
+              className="w-full"
+            />
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+        </div>
+
+        {/* Buttons */}
+        <div className="flex items-center justify-end gap-3 p-6 border-t">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border rounded-lg hover:bg-accent transition-colors"
+            disabled={isExporting}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={isExporting || tasks.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+            autoFocus
+          >
+            {isExporting ? 'Exporting...' : `Export ${format.toUpperCase()}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+
+  return createPortal(modal, document.body)
+}
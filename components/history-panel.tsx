@@ -0,0 +1,284 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { X, History, RotateCcw } from 'lucide-react'
+import { describeTaskChange } from '@/lib/utils/activity-feed'
+import { projectApiPath } from '@/lib/utils/projects'
+import { formatCommentTime } from '@/components/task-comments'
+import type { ChangeSet, Task, TaskChange } from '@/types/task'
+
+interface HistoryPanelProps {
+  tasks: Task[] // For the task filter and the names of changed tasks
+  projectId?: string | null // History of this project; the default project when not set
+  unavailableMessage?: string // Shown instead of the history when the data source has none
+  onRevert: (changeSet: ChangeSet) => Promise<void>
+  onClose: () => void
+}
+
+interface HistoryFilters {
+  taskId: string
+  user: string
+  from: string // yyyy-mm-dd
+  to: string
+}
+
+const COLLAPSED_CHANGE_COUNT = 5
+const FILTER_DELAY_MS = 300
+
+// Name of a changed task; deleted tasks are named from their recorded snapshot
+function getChangedTaskName(change: TaskChange, tasks: Task[]): string {
+  const task = tasks.find((entry) => entry.id === change.taskId)
+  if (task) return task.name
+  const snapshot = (change.changeType === 'create' ? change.newValue : change.oldValue) as Partial<Task> | undefined
+  return snapshot?.name || 'Deleted task'
+}
+
+function toQueryString(filters: HistoryFilters): string {
+  const params = new URLSearchParams()
+  if (filters.taskId) params.set('taskId', filters.taskId)
+  if (filters.user.trim()) params.set('user', filters.user.trim())
+  // Date inputs are local days; the range covers all of the last day
+  if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString())
+  if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString())
+  return params.toString()
+}
+
+/**
+ * Change history of the project, read from the server so it survives reloads
+ * and includes other users' changes. Any change set can be reverted.
+ */
+export function HistoryPanel({ tasks, projectId, unavailableMessage, onRevert, onClose }: HistoryPanelProps) {
+  const [mounted, setMounted] = useState(false)
+  const [filters, setFilters] = useState<HistoryFilters>({ taskId: '', user: '', from: '', to: '' })
+  const [query, setQuery] = useState('')
+  const [changeSets, setChangeSets] = useState<ChangeSet[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [revertingId, setRevertingId] = useState<string | null>(null)
+  const [expandedIds, setExpandedIds] = useState<string[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setMounted(true)
+  }, [])
+
+  // Filters apply after a short pause, so typing a user name doesn't fetch on every key
+  useEffect(() => {
+    const next = toQueryString(filters)
+    const timer = setTimeout(() => setQuery(next), FILTER_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [filters])
+
+  const loadHistory = useCallback(async () => {
+    const response = await fetch(projectApiPath(projectId, `/history?${query}`))
+    const result = await response.json()
+    if (!response.ok || !result.success) {
+      throw new Error(result.message || result.error || 'Failed to fetch change history')
+    }
+    setChangeSets(result.data)
+  }, [projectId, query])
+
+  useEffect(() => {
+    if (unavailableMessage) return
+
+    setIsLoading(true)
+    setError(null)
+    loadHistory()
+      .catch((err) => {
+        console.error('Failed to fetch change history:', err)
+        setError(err instanceof Error ? err.message : 'Failed to fetch change history')
+      })
+      .finally(() => setIsLoading(false))
+  }, [loadHistory, unavailableMessage])
+
+  const handleRevert = async (changeSet: ChangeSet) => {
+    const count = changeSet.changes.length
+    if (!confirm(`Revert "${changeSet.description || 'Changes'}"? Its ${count} change${count === 1 ? '' : 's'} will be undone as a new change.`)) {
+      return
+    }
+
+    setRevertingId(changeSet.id)
+    setError(null)
+    try {
+      await onRevert(changeSet)
+      await loadHistory()
+    } catch (err) {
+      console.error('Failed to revert change set:', err)
+      setError(err instanceof Error ? err.message : 'Failed to revert. Please try again.')
+    } finally {
+      setRevertingId(null)
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape' && !revertingId) {
+      onClose()
+    }
+  }
+
+  if (!mounted) return null
+
+  const inputClass = 'px-3 py-2 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary'
+  const sortedTasks = [...tasks].sort((a, b) => a.name.localeCompare(b.name))
+
+  const renderChangeSet = (changeSet: ChangeSet) => {
+    const isExpanded = expandedIds.includes(changeSet.id)
+    const visibleChanges = isExpanded ? changeSet.changes : changeSet.changes.slice(0, COLLAPSED_CHANGE_COUNT)
+    const hiddenCount = changeSet.changes.length - visibleChanges.length
+
+    return (
+      <li key={changeSet.id} className="py-3">
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <div className="text-sm font-semibold">{changeSet.description || 'Changes'}</div>
+            <div className="text-xs text-muted-foreground">
+              {changeSet.userName || 'Someone'} · {formatCommentTime(changeSet.timestamp)}
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={() => handleRevert(changeSet)}
+            disabled={revertingId !== null}
+            className="flex items-center gap-1 shrink-0 px-3 py-1 border rounded-md text-xs hover:bg-accent transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RotateCcw className="w-3 h-3" />
+            {revertingId === changeSet.id ? 'Reverting...' : 'Revert'}
+          </button>
+        </div>
+        <ul className="mt-1 space-y-0.5 text-sm">
+          {visibleChanges.map((change) => (
+            <li key={change.id} className="truncate">
+              <span className="font-medium">{getChangedTaskName(change, tasks)}</span>{' '}
+              <span className="text-muted-foreground">{describeTaskChange(change)}</span>
+            </li>
+          ))}
+        </ul>
+        {changeSet.changes.length > COLLAPSED_CHANGE_COUNT && (
+          <button
+            type="button"
+            onClick={() =>
+              setExpandedIds((prev) =>
+                isExpanded ? prev.filter((id) => id !== changeSet.id) : [...prev, changeSet.id]
+              )
+            }
+            className="mt-1 text-xs text-primary hover:underline"
+          >
+            {isExpanded ? 'Show less' : `Show ${hiddenCount} more`}
+          </button>
+        )}
+      </li>
+    )
+  }
+
+  const modal = (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in-0">
+      <div
+        className="relative w-full max-w-2xl m-4 bg-background border rounded-lg shadow-2xl animate-in zoom-in-95"
+        onKeyDown={handleKeyDown}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-2xl font-bold flex items-center gap-2">
+              <History className="w-6 h-6" />
+              Change History
+            </h2>
+            <p className="text-sm text-muted-foreground mt-1">
+              Every saved change, newest first. Reverting undoes a change and records the undo.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-accent rounded-lg transition-colors"
+            aria-label="Close"
+            type="button"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {unavailableMessage ? (
+          <p className="p-6 text-center text-sm text-muted-foreground">{unavailableMessage}</p>
+        ) : (
+          <>
+            {/* Filters */}
+            <div className="grid grid-cols-2 gap-3 px-6 pt-4">
+              <select
+                value={filters.taskId}
+                onChange={(e) => setFilters((prev) => ({ ...prev, taskId: e.target.value }))}
+                className={inputClass}
+                aria-label="Task"
+              >
+                <option value="">All tasks</option>
+                {sortedTasks.map((task) => (
+                  <option key={task.id} value={task.id}>
+                    {task.name}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={filters.user}
+                onChange={(e) => setFilters((prev) => ({ ...prev, user: e.target.value }))}
+                placeholder="User name or id"
+                className={inputClass}
+                aria-label="User"
+              />
+              <label className="flex items-center gap-2 text-sm">
+                <span className="w-10 text-muted-foreground">From</span>
+                <input
+                  type="date"
+                  value={filters.from}
+                  onChange={(e) => setFilters((prev) => ({ ...prev, from: e.target.value }))}
+                  className={`${inputClass} flex-1`}
+                />
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <span className="w-10 text-muted-foreground">To</span>
+                <input
+                  type="date"
+                  value={filters.to}
+                  onChange={(e) => setFilters((prev) => ({ ...prev, to: e.target.value }))}
+                  className={`${inputClass} flex-1`}
+                />
+              </label>
+            </div>
+
+            {error && (
+              <div className="mx-6 mt-4 p-3 bg-red-50 border border-red-200 rounded-md">
+                <p className="text-sm text-red-600">{error}</p>
+              </div>
+            )}
+
+            {/* Change sets */}
+            <div className="px-6 py-2 max-h-[28rem] overflow-y-auto">
+              {isLoading && changeSets.length === 0 ? (
+                <p className="py-8 text-center text-sm text-muted-foreground">Loading history...</p>
+              ) : changeSets.length === 0 ? (
+                <p className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+                  <History className="w-4 h-4" />
+                  No changes found
+                </p>
+              ) : (
+                <ul className="divide-y">{changeSets.map(renderChangeSet)}</ul>
+              )}
+            </div>
+          </>
+        )}
+
+        {/* Buttons */}
+        <div className="flex items-center justify-end gap-3 p-6 border-t">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border rounded-lg hover:bg-accent transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+
+  return createPortal(modal, document.body)
+}
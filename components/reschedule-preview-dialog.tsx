@@ -0,0 +1,152 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { X, CalendarClock, ArrowRight } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { ScheduleChange } from '@/lib/utils/scheduling'
+
+interface ReschedulePreviewDialogProps {
+  changes: ScheduleChange[]
+  onApplyAll: () => Promise<void>
+  onApplySourceOnly: () => Promise<void>
+  onClose: () => void
+}
+
+function formatShift(change: ScheduleChange): string {
+  const days = Math.round(
+    (change.startAt.getTime() - change.previousStartAt.getTime()) / (24 * 60 * 60 * 1000)
+  )
+  if (days === 0) return 'same start'
+  return `${days > 0 ? '+' : ''}${days} day${Math.abs(days) === 1 ? '' : 's'}`
+}
+
+export function ReschedulePreviewDialog({
+  changes,
+  onApplyAll,
+  onApplySourceOnly,
+  onClose,
+}: ReschedulePreviewDialogProps) {
+  const [mounted, setMounted] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    setMounted(true)
+  }, [])
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true)
+    try {
+      await action()
+      onClose()
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape' && !isSaving) {
+      onClose()
+    }
+  }
+
+  if (!mounted) return null
+
+  const source = changes.find((change) => change.isSource)
+  const successors = changes.filter((change) => !change.isSource)
+
+  const modal = (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in-0">
+      <div
+        className="relative w-full max-w-2xl m-4 bg-background border rounded-lg shadow-2xl animate-in zoom-in-95"
+        onKeyDown={handleKeyDown}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-2xl font-bold flex items-center gap-2">
+              <CalendarClock className="w-6 h-6" />
+              Reschedule Successors
+            </h2>
+            <p className="text-sm text-muted-foreground mt-1">
+              Moving &quot;{source?.name}&quot; affects {successors.length} dependent task
+              {successors.length === 1 ? '' : 's'}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-accent rounded-lg transition-colors"
+            aria-label="Close"
+            type="button"
+            disabled={isSaving}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Changes */}
+        <div className="p-6 max-h-96 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b">
+                <th className="py-2 font-medium">Task</th>
+                <th className="py-2 font-medium">Current</th>
+                <th className="py-2" />
+                <th className="py-2 font-medium">New</th>
+                <th className="py-2 font-medium text-right">Shift</th>
+              </tr>
+            </thead>
+            <tbody>
+              {changes.map((change) => (
+                <tr key={change.taskId} className={cn('border-b last:border-0', change.isSource && 'font-semibold')}>
+                  <td className="py-2 pr-2 truncate max-w-[12rem]">{change.name}</td>
+                  <td className="py-2 text-muted-foreground whitespace-nowrap">
+                    {change.previousStartAt.toLocaleDateString()} - {change.previousEndAt.toLocaleDateString()}
+                  </td>
+                  <td className="py-2 px-2">
+                    <ArrowRight className="w-4 h-4 text-muted-foreground" />
+                  </td>
+                  <td className="py-2 whitespace-nowrap">
+                    {change.startAt.toLocaleDateString()} - {change.endAt.toLocaleDateString()}
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap text-muted-foreground">{formatShift(change)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Buttons */}
+        <div className="flex items-center justify-end gap-3 p-6 border-t">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border rounded-lg hover:bg-accent transition-colors"
+            disabled={isSaving}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => run(onApplySourceOnly)}
+            className="px-4 py-2 border rounded-lg hover:bg-accent transition-colors disabled:opacity-50"
+            disabled={isSaving}
+          >
+            Move only this task
+          </button>
+          <button
+            type="button"
+            onClick={() => run(onApplyAll)}
+            disabled={isSaving}
+            className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+            autoFocus
+          >
+            {isSaving ? 'Saving...' : `Move ${changes.length} tasks`}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+
+  return createPortal(modal, document.body)
+}
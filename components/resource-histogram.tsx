@@ -0,0 +1,154 @@
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import { AlertTriangle, X } from 'lucide-react'
+import { useGantt, GanttTask } from '@/components/ui/gantt'
+import { cn } from '@/lib/utils'
+import { calculateResourceLoad, getAvailability, isOverAllocated } from '@/lib/utils/resource-load'
+import type { Resource, ResourceAllocation } from '@/types/task'
+
+const ROW_HEIGHT = 40
+const BAR_AREA_HEIGHT = ROW_HEIGHT - 8
+
+interface ResourceHistogramProps {
+  tasks: GanttTask[] // All tasks, so table filters don't hide load
+  resources: Resource[]
+  allocations: ResourceAllocation[]
+}
+
+/**
+ * Daily load per resource, drawn on the Gantt timeline
+ * Must be rendered inside GanttFeatureList so it shares its scroll position.
+ */
+export function ResourceHistogram({ tasks, resources, allocations }: ResourceHistogramProps) {
+  const { viewStart, viewEnd, dayWidth, calendar, onTaskClick } = useGantt()
+  const [selected, setSelected] = useState<{ resourceId: string; dayIndex: number } | null>(null)
+
+  const loads = useMemo(
+    () => calculateResourceLoad(tasks, resources, allocations, calendar, viewStart, viewEnd),
+    [tasks, resources, allocations, calendar, viewStart, viewEnd]
+  )
+
+  // Shared vertical scale, so bars of different resources compare directly
+  const scale = Math.max(100, ...loads.map((entry) => entry.peakLoad))
+  const overAllocatedCount = loads.filter((entry) => entry.overAllocatedDays > 0).length
+
+  const taskById = useMemo(() => new Map(tasks.map((task) => [task.id, task])), [tasks])
+
+  const selectedLoad = selected && loads.find((entry) => entry.resource.id === selected.resourceId)
+  const selectedDay = selectedLoad && selectedLoad.days[selected.dayIndex]
+
+  if (resources.length === 0) {
+    return (
+      <div className="sticky left-0 w-fit py-3 text-sm text-muted-foreground">
+        No resources yet. Add resources to see their load.
+      </div>
+    )
+  }
+
+  return (
+    <div className="border-t-2 pt-2">
+      <div className="sticky left-0 w-fit flex items-center gap-2 mb-1 text-sm font-semibold">
+        Resource Load
+        {overAllocatedCount > 0 && (
+          <span className="flex items-center gap-1 text-xs font-medium text-red-600">
+            <AlertTriangle className="w-3.5 h-3.5" />
+            {overAllocatedCount} over-allocated
+          </span>
+        )}
+      </div>
+
+      {loads.map(({ resource, days, overAllocatedDays }) => (
+        <div key={resource.id} className="relative border-b" style={{ height: `${ROW_HEIGHT}px` }}>
+          {/* Availability line */}
+          <div
+            className="absolute left-0 right-0 border-t border-dashed border-muted-foreground/50 pointer-events-none"
+            style={{ bottom: `${(getAvailability(resource) / scale) * BAR_AREA_HEIGHT}px` }}
+          />
+
+          {days.map((day, index) =>
+            day.load > 0 ? (
+              <button
+                key={index}
+                type="button"
+                className={cn(
+                  'absolute bottom-0 rounded-t-sm transition-opacity hover:opacity-80',
+                  isOverAllocated(day, resource) ? 'bg-red-500' : 'bg-primary/60',
+                  selected?.resourceId === resource.id && selected.dayIndex === index && 'ring-2 ring-primary'
+                )}
+                style={{
+                  left: `${index * dayWidth + 1}px`,
+                  width: `${Math.max(dayWidth - 2, 1)}px`,
+                  height: `${(Math.min(day.load, scale) / scale) * BAR_AREA_HEIGHT}px`,
+                }}
+                onClick={() => setSelected({ resourceId: resource.id, dayIndex: index })}
+                title={`${resource.name}: ${day.load}% on ${day.date.toLocaleDateString()}`}
+              />
+            ) : null
+          )}
+
+          <div
+            className={cn(
+              'sticky left-0 z-10 inline-flex items-center gap-1 mt-0.5 px-1.5 py-0.5 rounded bg-background/90 text-xs',
+              overAllocatedDays > 0 && 'text-red-600 font-medium'
+            )}
+          >
+            <span
+              className="w-2 h-2 rounded-full"
+              style={{ backgroundColor: resource.color || '#6b7280' }}
+            />
+            {resource.name}
+            <span className="text-muted-foreground">({getAvailability(resource)}%)</span>
+          </div>
+        </div>
+      ))}
+
+      {/* Tasks behind the clicked day */}
+      {selectedLoad && selectedDay && (
+        <div className="sticky left-0 w-fit max-w-md mt-2 p-3 border rounded-lg bg-background shadow-sm text-sm">
+          <div className="flex items-start justify-between gap-4 mb-2">
+            <div>
+              <div className="font-semibold">{selectedLoad.resource.name}</div>
+              <div
+                className={cn(
+                  'text-xs',
+                  isOverAllocated(selectedDay, selectedLoad.resource) ? 'text-red-600' : 'text-muted-foreground'
+                )}
+              >
+                {selectedDay.date.toLocaleDateString()}: {selectedDay.load}% of {getAvailability(selectedLoad.resource)}%
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={() => setSelected(null)}
+              className="p-1 hover:bg-accent rounded"
+              aria-label="Close"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <ul className="space-y-1">
+            {selectedDay.taskIds.map((taskId) => {
+              const task = taskById.get(taskId)
+              const allocation = allocations.find(
+                (entry) => entry.taskId === taskId && entry.resourceId === selectedLoad.resource.id
+              )
+              return (
+                <li key={taskId} className="flex items-center justify-between gap-4">
+                  <button
+                    type="button"
+                    className="truncate text-left hover:underline"
+                    onClick={() => task && onTaskClick?.(task)}
+                  >
+                    {task?.name || taskId}
+                  </button>
+                  <span className="text-xs text-muted-foreground">{allocation?.allocation ?? 0}%</span>
+                </li>
+              )
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
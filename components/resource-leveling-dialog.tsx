@@ -0,0 +1,157 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { X, Scale, ArrowRight, AlertTriangle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { ScheduleChange } from '@/lib/utils/scheduling'
+
+interface ResourceLevelingDialogProps {
+  changes: ScheduleChange[]
+  unresolvedTaskNames: string[]
+  onApply: () => Promise<void>
+  onClose: () => void
+}
+
+function formatShift(change: ScheduleChange): string {
+  const days = Math.round(
+    (change.startAt.getTime() - change.previousStartAt.getTime()) / (24 * 60 * 60 * 1000)
+  )
+  if (days === 0) return 'same start'
+  return `${days > 0 ? '+' : ''}${days} day${Math.abs(days) === 1 ? '' : 's'}`
+}
+
+export function ResourceLevelingDialog({
+  changes,
+  unresolvedTaskNames,
+  onApply,
+  onClose,
+}: ResourceLevelingDialogProps) {
+  const [mounted, setMounted] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    setMounted(true)
+  }, [])
+
+  const handleApply = async () => {
+    setIsSaving(true)
+    try {
+      await onApply()
+      onClose()
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape' && !isSaving) {
+      onClose()
+    }
+  }
+
+  if (!mounted) return null
+
+  const delayedCount = changes.filter((change) => change.isSource).length
+
+  const modal = (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in-0">
+      <div
+        className="relative w-full max-w-2xl m-4 bg-background border rounded-lg shadow-2xl animate-in zoom-in-95"
+        onKeyDown={handleKeyDown}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-2xl font-bold flex items-center gap-2">
+              <Scale className="w-6 h-6" />
+              Level Resources
+            </h2>
+            <p className="text-sm text-muted-foreground mt-1">
+              {changes.length === 0
+                ? 'No task can be delayed within its slack'
+                : `Delays ${delayedCount} task${delayedCount === 1 ? '' : 's'} within their slack` +
+                  (changes.length > delayedCount ? `, pushing ${changes.length - delayedCount} successor(s)` : '')}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-accent rounded-lg transition-colors"
+            aria-label="Close"
+            type="button"
+            disabled={isSaving}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Changes */}
+        <div className="p-6 max-h-96 overflow-y-auto space-y-4">
+          {changes.length > 0 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b">
+                  <th className="py-2 font-medium">Task</th>
+                  <th className="py-2 font-medium">Current</th>
+                  <th className="py-2" />
+                  <th className="py-2 font-medium">New</th>
+                  <th className="py-2 font-medium text-right">Shift</th>
+                </tr>
+              </thead>
+              <tbody>
+                {changes.map((change) => (
+                  <tr key={change.taskId} className={cn('border-b last:border-0', change.isSource && 'font-semibold')}>
+                    <td className="py-2 pr-2 truncate max-w-[12rem]">{change.name}</td>
+                    <td className="py-2 text-muted-foreground whitespace-nowrap">
+                      {change.previousStartAt.toLocaleDateString()} - {change.previousEndAt.toLocaleDateString()}
+                    </td>
+                    <td className="py-2 px-2">
+                      <ArrowRight className="w-4 h-4 text-muted-foreground" />
+                    </td>
+                    <td className="py-2 whitespace-nowrap">
+                      {change.startAt.toLocaleDateString()} - {change.endAt.toLocaleDateString()}
+                    </td>
+                    <td className="py-2 text-right whitespace-nowrap text-muted-foreground">{formatShift(change)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {unresolvedTaskNames.length > 0 && (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-md text-sm text-amber-800">
+              <div className="flex items-center gap-2 font-medium">
+                <AlertTriangle className="w-4 h-4" />
+                Still over-allocated in the proposed plan
+              </div>
+              <p className="mt-1 text-amber-700">{unresolvedTaskNames.join(', ')}</p>
+            </div>
+          )}
+        </div>
+
+        {/* Buttons */}
+        <div className="flex items-center justify-end gap-3 p-6 border-t">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border rounded-lg hover:bg-accent transition-colors"
+            disabled={isSaving}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={isSaving || changes.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+            autoFocus
+          >
+            {isSaving ? 'Saving...' : `Apply ${changes.length} change${changes.length === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+
+  return createPortal(modal, document.body)
+}
@@ -0,0 +1,62 @@
+'use client'
+
+import React from 'react'
+import { History, MessageSquare, Pencil } from 'lucide-react'
+import { describeTaskChange, type ActivityEntry } from '@/lib/utils/activity-feed'
+import { CommentContent, formatCommentTime } from '@/components/task-comments'
+import type { Resource } from '@/types/task'
+
+interface TaskActivityFeedProps {
+  entries: ActivityEntry[]
+  resources: Resource[]
+}
+
+/**
+ * Comments and field changes of a task in one timeline, newest first
+ */
+export function TaskActivityFeed({ entries, resources }: TaskActivityFeedProps) {
+  if (entries.length === 0) {
+    return (
+      <p className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+        <History className="w-4 h-4" />
+        No activity yet
+      </p>
+    )
+  }
+
+  return (
+    <ol className="space-y-3">
+      {entries.map((entry) => (
+        <li key={`${entry.type}-${entry.id}`} className="flex gap-3">
+          <div className="flex items-center justify-center w-7 h-7 shrink-0 rounded-full bg-muted text-muted-foreground">
+            {entry.type === 'comment' ? <MessageSquare className="w-3.5 h-3.5" /> : <Pencil className="w-3.5 h-3.5" />}
+          </div>
+          <div className="flex-1 min-w-0">
+            {entry.type === 'comment' ? (
+              <>
+                <div className="text-xs">
+                  <span className="font-semibold">{entry.comment.userName}</span>{' '}
+                  <span className="text-muted-foreground">
+                    {entry.comment.parentId ? 'replied' : 'commented'} · {formatCommentTime(entry.timestamp)}
+                  </span>
+                </div>
+                <CommentContent comment={entry.comment} resources={resources} />
+              </>
+            ) : (
+              <>
+                <div className="text-sm">
+                  <span className="font-semibold">{entry.change.userName || 'Someone'}</span>{' '}
+                  {describeTaskChange(entry.change)}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {entry.description && `${entry.description} · `}
+                  {formatCommentTime(entry.timestamp)}
+                </div>
+              </>
+            )}
+          </div>
+        </li>
+      ))}
+    </ol>
+  )
+}
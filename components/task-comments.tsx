@@ -0,0 +1,356 @@
+'use client'
+
+import React, { useMemo, useRef, useState } from 'react'
+import { MessageSquare, Reply, Send, Trash2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { Comment, Resource } from '@/types/task'
+
+const MAX_INDENT_DEPTH = 3
+const MAX_SUGGESTIONS = 6
+
+interface TaskCommentsProps {
+  comments: Comment[]
+  resources: Resource[]
+  currentUserId?: string
+  isLoading?: boolean
+  unavailableMessage?: string // Shown instead of the thread when the data source has no comments
+  onAdd: (content: string, parentId?: string) => Promise<void>
+  onDelete: (commentId: string) => Promise<void>
+}
+
+export function formatCommentTime(timestamp: Date | string): string {
+  const date = new Date(timestamp)
+  return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+}
+
+/**
+ * Comment text with its @mentions highlighted
+ * Only mentions of the resources listed in comment.mentions are highlighted.
+ */
+export function CommentContent({ comment, resources }: { comment: Comment; resources: Resource[] }) {
+  const names = resources
+    .filter((resource) => comment.mentions?.includes(resource.id))
+    .map((resource) => resource.name)
+    .sort((a, b) => b.length - a.length)
+
+  if (names.length === 0) {
+    return <p className="text-sm whitespace-pre-wrap break-words">{comment.content}</p>
+  }
+
+  const escaped = names.map((name) => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  const parts = comment.content.split(new RegExp(`(@(?:${escaped.join('|')}))`, 'gi'))
+
+  return (
+    <p className="text-sm whitespace-pre-wrap break-words">
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <span key={index} className="px-0.5 rounded bg-primary/10 text-primary font-medium">
+            {part}
+          </span>
+        ) : (
+          part
+        )
+      )}
+    </p>
+  )
+}
+
+interface MentionInputProps {
+  value: string
+  resources: Resource[]
+  placeholder: string
+  disabled?: boolean
+  autoFocus?: boolean
+  onChange: (value: string) => void
+  onSubmit: () => void
+}
+
+/**
+ * Textarea that suggests resource names after typing @
+ */
+function MentionInput({ value, resources, placeholder, disabled, autoFocus, onChange, onSubmit }: MentionInputProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const [query, setQuery] = useState<{ start: number; text: string } | null>(null)
+  const [activeIndex, setActiveIndex] = useState(0)
+
+  const suggestions = useMemo(() => {
+    if (!query) return []
+    const text = query.text.toLowerCase()
+    return resources
+      .filter((resource) => resource.name.toLowerCase().startsWith(text))
+      .slice(0, MAX_SUGGESTIONS)
+  }, [query, resources])
+
+  const updateQuery = (text: string, caret: number) => {
+    // An @ at the start or after whitespace opens suggestions until the next line break
+    const match = /(^|\s)@([^@\n]*)$/.exec(text.slice(0, caret))
+    setQuery(match ? { start: caret - match[2].length - 1, text: match[2] } : null)
+    setActiveIndex(0)
+  }
+
+  const insertMention = (resource: Resource) => {
+    if (!query) return
+    const caret = query.start + 1 + query.text.length
+    const mention = `@${resource.name} `
+    const next = value.slice(0, query.start) + mention + value.slice(caret)
+    onChange(next)
+    setQuery(null)
+
+    requestAnimationFrame(() => {
+      const position = query.start + mention.length
+      textareaRef.current?.focus()
+      textareaRef.current?.setSelectionRange(position, position)
+    })
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault()
+        const step = e.key === 'ArrowDown' ? 1 : -1
+        setActiveIndex((index) => (index + step + suggestions.length) % suggestions.length)
+        return
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault()
+        insertMention(suggestions[activeIndex])
+        return
+      }
+      if (e.key === 'Escape') {
+        // Close the suggestions, not the modal
+        e.stopPropagation()
+        setQuery(null)
+        return
+      }
+    }
+
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault()
+      onSubmit()
+    }
+  }
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value)
+          updateQuery(e.target.value, e.target.selectionStart)
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setQuery(null)}
+        rows={2}
+        disabled={disabled}
+        autoFocus={autoFocus}
+        placeholder={placeholder}
+        className="w-full px-3 py-2 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary resize-none disabled:opacity-50"
+      />
+      {suggestions.length > 0 && (
+        <ul className="absolute left-0 z-10 mt-1 w-64 max-h-48 overflow-y-auto border rounded-md bg-background shadow-lg">
+          {suggestions.map((resource, index) => (
+            <li key={resource.id}>
+              <button
+                type="button"
+                // Keep focus in the textarea so the blur doesn't close the list first
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  insertMention(resource)
+                }}
+                className={cn(
+                  'flex items-center gap-2 w-full px-3 py-1.5 text-left text-sm hover:bg-accent',
+                  index === activeIndex && 'bg-accent'
+                )}
+              >
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: resource.color || '#6b7280' }} />
+                {resource.name}
+                {resource.role && <span className="text-xs text-muted-foreground">{resource.role}</span>}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Threaded comments of a task
+ * Replies are nested under their parent; deleting a comment removes its replies.
+ */
+export function TaskComments({
+  comments,
+  resources,
+  currentUserId,
+  isLoading,
+  unavailableMessage,
+  onAdd,
+  onDelete,
+}: TaskCommentsProps) {
+  const [draft, setDraft] = useState('')
+  const [replyTo, setReplyTo] = useState<string | null>(null)
+  const [replyDraft, setReplyDraft] = useState('')
+  const [isPosting, setIsPosting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const repliesByParent = useMemo(() => {
+    const map = new Map<string, Comment[]>()
+    comments.forEach((comment) => {
+      const key = comment.parentId || ''
+      map.set(key, [...(map.get(key) || []), comment])
+    })
+    return map
+  }, [comments])
+
+  if (unavailableMessage) {
+    return <p className="py-8 text-center text-sm text-muted-foreground">{unavailableMessage}</p>
+  }
+
+  const post = async (content: string, parentId?: string) => {
+    if (!content.trim()) return
+
+    setIsPosting(true)
+    setError(null)
+    try {
+      await onAdd(content.trim(), parentId)
+      if (parentId) {
+        setReplyTo(null)
+        setReplyDraft('')
+      } else {
+        setDraft('')
+      }
+    } catch (err) {
+      console.error('Failed to post comment:', err)
+      setError('Failed to post comment. Please try again.')
+    } finally {
+      setIsPosting(false)
+    }
+  }
+
+  const remove = async (commentId: string) => {
+    const replyCount = comments.filter((comment) => comment.parentId === commentId).length
+    if (replyCount > 0 && !confirm(`Delete this comment and its ${replyCount} repl${replyCount === 1 ? 'y' : 'ies'}?`)) {
+      return
+    }
+
+    setError(null)
+    try {
+      await onDelete(commentId)
+    } catch (err) {
+      console.error('Failed to delete comment:', err)
+      setError('Failed to delete comment. Please try again.')
+    }
+  }
+
+  const renderThread = (parentId: string, depth: number): React.ReactNode =>
+    (repliesByParent.get(parentId) || []).map((comment) => (
+      <div key={comment.id} className={cn(depth > 0 && depth <= MAX_INDENT_DEPTH && 'ml-6 pl-3 border-l')}>
+        <div className="py-2">
+          <div className="flex items-center gap-2 text-xs">
+            <span className="font-semibold">{comment.userName}</span>
+            <span className="text-muted-foreground">{formatCommentTime(comment.timestamp)}</span>
+          </div>
+          <CommentContent comment={comment} resources={resources} />
+          <div className="flex items-center gap-3 mt-1 text-xs text-muted-foreground">
+            <button
+              type="button"
+              onClick={() => {
+                setReplyTo(replyTo === comment.id ? null : comment.id)
+                setReplyDraft('')
+              }}
+              className="flex items-center gap-1 hover:text-foreground"
+            >
+              <Reply className="w-3 h-3" />
+              Reply
+            </button>
+            {comment.userId === currentUserId && (
+              <button
+                type="button"
+                onClick={() => remove(comment.id)}
+                className="flex items-center gap-1 hover:text-red-600"
+              >
+                <Trash2 className="w-3 h-3" />
+                Delete
+              </button>
+            )}
+          </div>
+          {replyTo === comment.id && (
+            <div className="mt-2 space-y-2">
+              <MentionInput
+                value={replyDraft}
+                resources={resources}
+                placeholder={`Reply to ${comment.userName}...`}
+                disabled={isPosting}
+                autoFocus
+                onChange={setReplyDraft}
+                onSubmit={() => post(replyDraft, comment.id)}
+              />
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setReplyTo(null)}
+                  className="px-3 py-1 border rounded-md text-xs hover:bg-accent"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={() => post(replyDraft, comment.id)}
+                  disabled={isPosting || !replyDraft.trim()}
+                  className="px-3 py-1 bg-primary text-primary-foreground rounded-md text-xs disabled:opacity-50"
+                >
+                  Reply
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+        {renderThread(comment.id, depth + 1)}
+      </div>
+    ))
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <MentionInput
+          value={draft}
+          resources={resources}
+          placeholder="Write a comment... Type @ to mention someone"
+          disabled={isPosting}
+          onChange={setDraft}
+          onSubmit={() => post(draft)}
+        />
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-muted-foreground">Ctrl+Enter to post</span>
+          <button
+            type="button"
+            onClick={() => post(draft)}
+            disabled={isPosting || !draft.trim()}
+            className="flex items-center gap-2 px-3 py-1.5 bg-primary text-primary-foreground rounded-md text-sm hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Send className="w-4 h-4" />
+            {isPosting ? 'Posting...' : 'Comment'}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="py-4 text-center text-sm text-muted-foreground">Loading comments...</p>
+      ) : comments.length === 0 ? (
+        <p className="flex items-center justify-center gap-2 py-4 text-sm text-muted-foreground">
+          <MessageSquare className="w-4 h-4" />
+          No comments yet
+        </p>
+      ) : (
+        <div className="divide-y">{renderThread('', 0)}</div>
+      )}
+    </div>
+  )
+}
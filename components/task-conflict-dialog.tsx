@@ -0,0 +1,181 @@
+'use client'
+
+import React, { useEffect, useMemo, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { X, GitMerge } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { FIELD_LABELS, formatTaskFieldValue } from '@/lib/utils/activity-feed'
+import { getTaskConflicts } from '@/lib/utils/task-changes'
+import type { Task } from '@/types/task'
+
+interface TaskConflictDialogProps {
+  base: Task // The copy the rejected update was made from
+  theirs: Task // The current copy on the server
+  updates: Partial<Task> // The rejected update
+  onResolve: (updates: Partial<Task>) => Promise<void> // Fields to re-apply on top of theirs; the caller closes the dialog
+  onClose: () => void // Keep their version
+}
+
+type Choice = 'yours' | 'theirs'
+
+export function TaskConflictDialog({ base, theirs, updates, onResolve, onClose }: TaskConflictDialogProps) {
+  const [mounted, setMounted] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const conflicts = useMemo(() => getTaskConflicts(base, updates, theirs), [base, updates, theirs])
+
+  // Keep your change unless they changed the same field
+  const [choices, setChoices] = useState<Record<string, Choice>>(() =>
+    Object.fromEntries(
+      conflicts
+        .filter((conflict) => conflict.changedByYou)
+        .map((conflict) => [conflict.field, conflict.changedByThem ? 'theirs' : 'yours'])
+    )
+  )
+
+  useEffect(() => {
+    setMounted(true)
+  }, [])
+
+  const handleApply = async () => {
+    const resolved: Partial<Task> = {}
+    conflicts.forEach(({ field }) => {
+      if (choices[field] === 'yours') {
+        Object.assign(resolved, { [field]: updates[field] })
+      }
+    })
+
+    setIsSaving(true)
+    try {
+      await onResolve(resolved)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape' && !isSaving) {
+      onClose()
+    }
+  }
+
+  if (!mounted) return null
+
+  const keptCount = Object.values(choices).filter((choice) => choice === 'yours').length
+
+  const modal = (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in-0">
+      <div
+        className="relative w-full max-w-3xl m-4 bg-background border rounded-lg shadow-2xl animate-in zoom-in-95"
+        onKeyDown={handleKeyDown}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-2xl font-bold flex items-center gap-2">
+              <GitMerge className="w-6 h-6" />
+              Edit Conflict
+            </h2>
+            <p className="text-sm text-muted-foreground mt-1">
+              &quot;{theirs.name}&quot; was changed by {theirs.modifiedBy || 'someone else'} while you were editing it.
+              Choose which value to keep for each field.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-accent rounded-lg transition-colors"
+            aria-label="Close"
+            type="button"
+            disabled={isSaving}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Field differences */}
+        <div className="p-6 max-h-96 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b">
+                <th className="py-2 font-medium">Field</th>
+                <th className="py-2 font-medium">Original</th>
+                <th className="py-2 font-medium">Yours</th>
+                <th className="py-2 font-medium">Theirs</th>
+              </tr>
+            </thead>
+            <tbody>
+              {conflicts.map((conflict) => {
+                const choice = choices[conflict.field]
+                const isConflict = conflict.changedByYou && conflict.changedByThem
+                return (
+                  <tr key={conflict.field} className={cn('border-b last:border-0', isConflict && 'bg-amber-50')}>
+                    <td className="py-2 pr-2 font-medium capitalize">{FIELD_LABELS[conflict.field]}</td>
+                    <td className="py-2 pr-2 text-muted-foreground">
+                      {formatTaskFieldValue(conflict.field, conflict.baseValue)}
+                    </td>
+                    <td className="py-2 pr-2">
+                      {conflict.changedByYou ? (
+                        <label className="flex items-center gap-2 cursor-pointer">
+                          <input
+                            type="radio"
+                            name={`conflict-${conflict.field}`}
+                            checked={choice === 'yours'}
+                            onChange={() => setChoices((prev) => ({ ...prev, [conflict.field]: 'yours' }))}
+                          />
+                          <span className={cn(choice === 'yours' && 'font-semibold')}>
+                            {formatTaskFieldValue(conflict.field, conflict.yourValue)}
+                          </span>
+                        </label>
+                      ) : (
+                        <span className="text-muted-foreground">unchanged</span>
+                      )}
+                    </td>
+                    <td className="py-2">
+                      {conflict.changedByYou ? (
+                        <label className="flex items-center gap-2 cursor-pointer">
+                          <input
+                            type="radio"
+                            name={`conflict-${conflict.field}`}
+                            checked={choice === 'theirs'}
+                            onChange={() => setChoices((prev) => ({ ...prev, [conflict.field]: 'theirs' }))}
+                          />
+                          <span className={cn(choice === 'theirs' && 'font-semibold')}>
+                            {formatTaskFieldValue(conflict.field, conflict.theirValue)}
+                          </span>
+                        </label>
+                      ) : (
+                        <span className="font-semibold">{formatTaskFieldValue(conflict.field, conflict.theirValue)}</span>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Buttons */}
+        <div className="flex items-center justify-end gap-3 p-6 border-t">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border rounded-lg hover:bg-accent transition-colors"
+            disabled={isSaving}
+          >
+            Keep theirs
+          </button>
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={isSaving || keptCount === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+            autoFocus
+          >
+            {isSaving ? 'Saving...' : `Apply ${keptCount} of your change${keptCount === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+
+  return createPortal(modal, document.body)
+}
@@ -2,19 +2,46 @@
 
 import React, { useState, useEffect } from 'react'
 import { createPortal } from 'react-dom'
-import { X, Save, Calendar, User, Folder, BarChart2, FileText } from 'lucide-react'
+import { X, Save, Calendar, User, Users, Folder, BarChart2, FileText, MessageSquare, History } from 'lucide-react'
 import { cn } from '@/lib/utils'
-import type { Task, TaskStatus } from '@/types/task'
+import { TaskComments } from '@/components/task-comments'
+import { TaskActivityFeed } from '@/components/task-activity-feed'
+import type { ActivityEntry } from '@/lib/utils/activity-feed'
+import type { Task, TaskStatus, Resource, ResourceAllocation, TaskAssignmentDTO, Comment } from '@/types/task'
+
+type TaskEditTab = 'details' | 'comments' | 'activity'
 
 interface TaskEditModalProps {
   task: Task
   statuses: TaskStatus[]
-  onSave: (taskId: string, updates: Partial<Task>) => Promise<void>
+  resources?: Resource[]
+  allocations?: ResourceAllocation[] // Current allocations of the task
+  comments?: Comment[] // Comments of the task, oldest first
+  commentsLoading?: boolean
+  activity?: ActivityEntry[] // Comments and recorded changes of the task, newest first
+  currentUserId?: string
+  onSave: (taskId: string, updates: Partial<Task> & { assignments?: TaskAssignmentDTO[] }) => Promise<void>
+  onAddComment?: (taskId: string, content: string, parentId?: string) => Promise<void> // Omitted when the data source has no comments
+  onDeleteComment?: (taskId: string, commentId: string) => Promise<void>
   onClose: () => void
 }
 
-export function TaskEditModal({ task, statuses, onSave, onClose }: TaskEditModalProps) {
+export function TaskEditModal({
+  task,
+  statuses,
+  resources = [],
+  allocations = [],
+  comments = [],
+  commentsLoading,
+  activity = [],
+  currentUserId,
+  onSave,
+  onAddComment,
+  onDeleteComment,
+  onClose,
+}: TaskEditModalProps) {
   const [mounted, setMounted] = useState(false)
+  const [tab, setTab] = useState<TaskEditTab>('details')
   const [formData, setFormData] = useState({
     name: task.name || '',
     startAt: task.startAt instanceof Date ? task.startAt.toISOString().split('T')[0] : '',
@@ -25,6 +52,10 @@ export function TaskEditModal({ task, statuses, onSave, onClose }: TaskEditModal
     description: task.description || '',
     progress: task.progress || 0,
   })
+  // Allocation percentage per assigned resource id
+  const [assignments, setAssignments] = useState<Record<string, number>>(() =>
+    Object.fromEntries(allocations.map(allocation => [allocation.resourceId, allocation.allocation]))
+  )
   const [isSaving, setIsSaving] = useState(false)
   const [errors, setErrors] = useState<Record<string, string>>({})
 
@@ -44,6 +75,18 @@ export function TaskEditModal({ task, statuses, onSave, onClose }: TaskEditModal
     }
   }
 
+  const toggleAssignee = (resourceId: string) => {
+    setAssignments(prev => {
+      const next = { ...prev }
+      if (resourceId in next) {
+        delete next[resourceId]
+      } else {
+        next[resourceId] = 100
+      }
+      return next
+    })
+  }
+
   const validate = () => {
     const newErrors: Record<string, string> = {}
 
@@ -71,6 +114,10 @@ export function TaskEditModal({ task, statuses, onSave, onClose }: TaskEditModal
       newErrors.progress = 'Progress must be between 0 and 100'
     }
 
+    if (Object.values(assignments).some(allocation => allocation <= 0 || allocation > 100)) {
+      newErrors.assignments = 'Allocation must be greater than 0 and at most 100'
+    }
+
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
   }
@@ -84,7 +131,7 @@ export function TaskEditModal({ task, statuses, onSave, onClose }: TaskEditModal
 
     setIsSaving(true)
     try {
-      const updates: Partial<Task> = {
+      const updates: Partial<Task> & { assignments?: TaskAssignmentDTO[] } = {
         name: formData.name,
         startAt: new Date(formData.startAt),
         endAt: new Date(formData.endAt),
@@ -101,6 +148,14 @@ export function TaskEditModal({ task, statuses, onSave, onClose }: TaskEditModal
         }
       }
 
+      // Only touch allocations when the provider has resources to assign
+      if (resources.length > 0) {
+        updates.assignments = Object.entries(assignments).map(([resourceId, allocation]) => ({
+          resourceId,
+          allocation,
+        }))
+      }
+
       await onSave(task.id, updates)
       onClose()
     } catch (error) {
@@ -122,7 +177,7 @@ export function TaskEditModal({ task, statuses, onSave, onClose }: TaskEditModal
   const modal = (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in-0">
       <div
-        className="relative w-full max-w-2xl m-4 bg-background border rounded-lg shadow-2xl animate-in zoom-in-95"
+        className="relative w-full max-w-2xl max-h-[90vh] overflow-y-auto m-4 bg-background border rounded-lg shadow-2xl animate-in zoom-in-95"
         onKeyDown={handleKeyDown}
       >
         {/* Header */}
@@ -143,192 +198,285 @@ export function TaskEditModal({ task, statuses, onSave, onClose }: TaskEditModal
           </button>
         </div>
 
-        {/* Form */}
-        <form onSubmit={handleSubmit} className="p-6 space-y-4">
-          {/* Task Name */}
-          <div>
-            <label className="flex items-center gap-2 text-sm font-medium mb-2">
-              <FileText className="w-4 h-4" />
-              Task Name *
-            </label>
-            <input
-              type="text"
-              value={formData.name}
-              onChange={(e) => handleChange('name', e.target.value)}
+        {/* Tabs */}
+        <div className="flex gap-1 px-6 border-b" role="tablist">
+          {([
+            { id: 'details', label: 'Details', icon: FileText },
+            { id: 'comments', label: `Comments${comments.length > 0 ? ` (${comments.length})` : ''}`, icon: MessageSquare },
+            { id: 'activity', label: 'Activity', icon: History },
+          ] as const).map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              type="button"
+              role="tab"
+              aria-selected={tab === id}
+              onClick={() => setTab(id)}
               className={cn(
-                'w-full px-3 py-2 border rounded-md text-sm',
-                'focus:outline-none focus:ring-2 focus:ring-primary',
-                errors.name && 'border-red-500'
+                'flex items-center gap-2 px-3 py-2 -mb-px border-b-2 text-sm transition-colors',
+                tab === id
+                  ? 'border-primary font-medium'
+                  : 'border-transparent text-muted-foreground hover:text-foreground'
               )}
-              placeholder="Enter task name"
-              autoFocus
+            >
+              <Icon className="w-4 h-4" />
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'comments' && (
+          <div className="p-6">
+            <TaskComments
+              comments={comments}
+              resources={resources}
+              currentUserId={currentUserId}
+              isLoading={commentsLoading}
+              unavailableMessage={onAddComment ? undefined : 'Comments are not available with this data source.'}
+              onAdd={async (content, parentId) => onAddComment?.(task.id, content, parentId)}
+              onDelete={async (commentId) => onDeleteComment?.(task.id, commentId)}
             />
-            {errors.name && <p className="text-xs text-red-600 mt-1">{errors.name}</p>}
           </div>
+        )}
 
-          {/* Dates Row */}
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <label className="flex items-center gap-2 text-sm font-medium mb-2">
-                <Calendar className="w-4 h-4" />
-                Start Date *
-              </label>
-              <input
-                type="date"
-                value={formData.startAt}
-                onChange={(e) => handleChange('startAt', e.target.value)}
-                className={cn(
-                  'w-full px-3 py-2 border rounded-md text-sm',
-                  'focus:outline-none focus:ring-2 focus:ring-primary',
-                  errors.startAt && 'border-red-500'
-                )}
-              />
-              {errors.startAt && <p className="text-xs text-red-600 mt-1">{errors.startAt}</p>}
-            </div>
+        {tab === 'activity' && (
+          <div className="p-6">
+            <TaskActivityFeed entries={activity} resources={resources} />
+          </div>
+        )}
 
+        {/* Form */}
+        {tab === 'details' && (
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            {/* Task Name */}
             <div>
               <label className="flex items-center gap-2 text-sm font-medium mb-2">
-                <Calendar className="w-4 h-4" />
-                End Date *
+                <FileText className="w-4 h-4" />
+                Task Name *
               </label>
               <input
-                type="date"
-                value={formData.endAt}
-                onChange={(e) => handleChange('endAt', e.target.value)}
+                type="text"
+                value={formData.name}
+                onChange={(e) => handleChange('name', e.target.value)}
                 className={cn(
                   'w-full px-3 py-2 border rounded-md text-sm',
                   'focus:outline-none focus:ring-2 focus:ring-primary',
-                  errors.endAt && 'border-red-500'
+                  errors.name && 'border-red-500'
                 )}
+                placeholder="Enter task name"
+                autoFocus
               />
-              {errors.endAt && <p className="text-xs text-red-600 mt-1">{errors.endAt}</p>}
+              {errors.name && <p className="text-xs text-red-600 mt-1">{errors.name}</p>}
             </div>
-          </div>
 
-          {/* Status and Progress Row */}
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <label className="flex items-center gap-2 text-sm font-medium mb-2">
-                <BarChart2 className="w-4 h-4" />
-                Status
-              </label>
-              <select
-                value={formData.statusId}
-                onChange={(e) => handleChange('statusId', e.target.value)}
-                className="w-full px-3 py-2 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary"
-              >
-                <option value="">No status</option>
-                {statuses.map((status) => (
-                  <option key={status.id} value={status.id}>
-                    {status.name}
-                  </option>
-                ))}
-              </select>
+            {/* Dates Row */}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="flex items-center gap-2 text-sm font-medium mb-2">
+                  <Calendar className="w-4 h-4" />
+                  Start Date *
+                </label>
+                <input
+                  type="date"
+                  value={formData.startAt}
+                  onChange={(e) => handleChange('startAt', e.target.value)}
+                  className={cn(
+                    'w-full px-3 py-2 border rounded-md text-sm',
+                    'focus:outline-none focus:ring-2 focus:ring-primary',
+                    errors.startAt && 'border-red-500'
+                  )}
+                />
+                {errors.startAt && <p className="text-xs text-red-600 mt-1">{errors.startAt}</p>}
+              </div>
+
+              <div>
+                <label className="flex items-center gap-2 text-sm font-medium mb-2">
+                  <Calendar className="w-4 h-4" />
+                  End Date *
+                </label>
+                <input
+                  type="date"
+                  value={formData.endAt}
+                  onChange={(e) => handleChange('endAt', e.target.value)}
+                  className={cn(
+                    'w-full px-3 py-2 border rounded-md text-sm',
+                    'focus:outline-none focus:ring-2 focus:ring-primary',
+                    errors.endAt && 'border-red-500'
+                  )}
+                />
+                {errors.endAt && <p className="text-xs text-red-600 mt-1">{errors.endAt}</p>}
+              </div>
             </div>
 
-            <div>
-              <label className="flex items-center gap-2 text-sm font-medium mb-2">
-                <BarChart2 className="w-4 h-4" />
-                Progress (%)
-              </label>
-              <input
-                type="number"
-                min="0"
-                max="100"
-                value={formData.progress}
-                onChange={(e) => handleChange('progress', parseInt(e.target.value) || 0)}
-                className={cn(
-                  'w-full px-3 py-2 border rounded-md text-sm',
-                  'focus:outline-none focus:ring-2 focus:ring-primary',
-                  errors.progress && 'border-red-500'
-                )}
-              />
-              {errors.progress && <p className="text-xs text-red-600 mt-1">{errors.progress}</p>}
+            {/* Status and Progress Row */}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="flex items-center gap-2 text-sm font-medium mb-2">
+                  <BarChart2 className="w-4 h-4" />
+                  Status
+                </label>
+                <select
+                  value={formData.statusId}
+                  onChange={(e) => handleChange('statusId', e.target.value)}
+                  className="w-full px-3 py-2 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  <option value="">No status</option>
+                  {statuses.map((status) => (
+                    <option key={status.id} value={status.id}>
+                      {status.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="flex items-center gap-2 text-sm font-medium mb-2">
+                  <BarChart2 className="w-4 h-4" />
+                  Progress (%)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={formData.progress}
+                  onChange={(e) => handleChange('progress', parseInt(e.target.value) || 0)}
+                  className={cn(
+                    'w-full px-3 py-2 border rounded-md text-sm',
+                    'focus:outline-none focus:ring-2 focus:ring-primary',
+                    errors.progress && 'border-red-500'
+                  )}
+                />
+                {errors.progress && <p className="text-xs text-red-600 mt-1">{errors.progress}</p>}
+              </div>
             </div>
-          </div>
 
-          {/* Owner and Group Row */}
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <label className="flex items-center gap-2 text-sm font-medium mb-2">
-                <User className="w-4 h-4" />
-                Owner
-              </label>
-              <input
-                type="text"
-                value={formData.owner}
-                onChange={(e) => handleChange('owner', e.target.value)}
-                className="w-full px-3 py-2 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary"
-                placeholder="Assign to..."
-              />
+            {/* Owner and Group Row */}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="flex items-center gap-2 text-sm font-medium mb-2">
+                  <User className="w-4 h-4" />
+                  Owner
+                </label>
+                <input
+                  type="text"
+                  value={formData.owner}
+                  onChange={(e) => handleChange('owner', e.target.value)}
+                  className="w-full px-3 py-2 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                  placeholder="Assign to..."
+                />
+              </div>
+
+              <div>
+                <label className="flex items-center gap-2 text-sm font-medium mb-2">
+                  <Folder className="w-4 h-4" />
+                  Group
+                </label>
+                <input
+                  type="text"
+                  value={formData.group}
+                  onChange={(e) => handleChange('group', e.target.value)}
+                  className="w-full px-3 py-2 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                  placeholder="Team or department..."
+                />
+              </div>
             </div>
 
+            {/* Assignees */}
+            {resources.length > 0 && (
+              <div>
+                <label className="flex items-center gap-2 text-sm font-medium mb-2">
+                  <Users className="w-4 h-4" />
+                  Assignees
+                </label>
+                <div className="max-h-40 overflow-y-auto border rounded-md divide-y">
+                  {resources.map((resource) => {
+                    const isAssigned = resource.id in assignments
+                    return (
+                      <div key={resource.id} className="flex items-center gap-3 px-3 py-2">
+                        <input
+                          type="checkbox"
+                          id={`assignee-${resource.id}`}
+                          checked={isAssigned}
+                          onChange={() => toggleAssignee(resource.id)}
+                        />
+                        <label htmlFor={`assignee-${resource.id}`} className="flex-1 text-sm">
+                          {resource.name}
+                          {resource.role && (
+                            <span className="text-muted-foreground"> · {resource.role}</span>
+                          )}
+                        </label>
+                        <input
+                          type="number"
+                          min="1"
+                          max="100"
+                          value={isAssigned ? assignments[resource.id] : ''}
+                          disabled={!isAssigned}
+                          onChange={(e) =>
+                            setAssignments(prev => ({ ...prev, [resource.id]: parseInt(e.target.value) || 0 }))
+                          }
+                          className="w-20 px-2 py-1 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50"
+                          aria-label={`Allocation for ${resource.name} (%)`}
+                        />
+                        <span className="text-xs text-muted-foreground">%</span>
+                      </div>
+                    )
+                  })}
+                </div>
+                {errors.assignments && <p className="text-xs text-red-600 mt-1">{errors.assignments}</p>}
+              </div>
+            )}
+
+            {/* Description */}
             <div>
               <label className="flex items-center gap-2 text-sm font-medium mb-2">
-                <Folder className="w-4 h-4" />
-                Group
+                <FileText className="w-4 h-4" />
+                Description
               </label>
-              <input
-                type="text"
-                value={formData.group}
-                onChange={(e) => handleChange('group', e.target.value)}
-                className="w-full px-3 py-2 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary"
-                placeholder="Team or department..."
+              <textarea
+                value={formData.description}
+                onChange={(e) => handleChange('description', e.target.value)}
+                rows={4}
+                className="w-full px-3 py-2 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary resize-none"
+                placeholder="Add task description..."
               />
             </div>
-          </div>
 
-          {/* Description */}
-          <div>
-            <label className="flex items-center gap-2 text-sm font-medium mb-2">
-              <FileText className="w-4 h-4" />
-              Description
-            </label>
-            <textarea
-              value={formData.description}
-              onChange={(e) => handleChange('description', e.target.value)}
-              rows={4}
-              className="w-full px-3 py-2 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary resize-none"
-              placeholder="Add task description..."
-            />
-          </div>
+            {/* Error Message */}
+            {errors.submit && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+                <p className="text-sm text-red-600">{errors.submit}</p>
+              </div>
+            )}
 
-          {/* Error Message */}
-          {errors.submit && (
-            <div className="p-3 bg-red-50 border border-red-200 rounded-md">
-              <p className="text-sm text-red-600">{errors.submit}</p>
+            {/* Buttons */}
+            <div className="flex items-center justify-end gap-3 pt-4 border-t">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 border rounded-lg hover:bg-accent transition-colors"
+                disabled={isSaving}
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSaving ? (
+                  <>
+                    <Save className="w-4 h-4 animate-pulse" />
+                    Saving...
+                  </>
+                ) : (
+                  <>
+                    <Save className="w-4 h-4" />
+                    Save Changes
+                  </>
+                )}
+              </button>
             </div>
-          )}
-
-          {/* Buttons */}
-          <div className="flex items-center justify-end gap-3 pt-4 border-t">
-            <button
-              type="button"
-              onClick={onClose}
-              className="px-4 py-2 border rounded-lg hover:bg-accent transition-colors"
-              disabled={isSaving}
-            >
-              Cancel
-            </button>
-            <button
-              type="submit"
-              disabled={isSaving}
-              className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {isSaving ? (
-                <>
-                  <Save className="w-4 h-4 animate-pulse" />
-                  Saving...
-                </>
-              ) : (
-                <>
-                  <Save className="w-4 h-4" />
-                  Save Changes
-                </>
-              )}
-            </button>
-          </div>
-        </form>
+          </form>
+        )}
       </div>
     </div>
   )
@@ -33,6 +33,8 @@ interface GanttToolbarProps {
   onExport?: () => void
   onImport?: () => void
   onOpenSettings?: () => void
+  onUndo?: () => void // Applies the undo through the data source; the store only tracks the position
+  onRedo?: () => void
 }
 
 export function GanttToolbar({
@@ -44,6 +46,8 @@ export function GanttToolbar({
   onExport,
   onImport,
   onOpenSettings,
+  onUndo,
+  onRedo,
 }: GanttToolbarProps) {
   const [searchOpen, setSearchOpen] = useState(false)
   const [filtersOpen, setFiltersOpen] = useState(false)
@@ -62,7 +66,7 @@ export function GanttToolbar({
     toggleMiniMap,
   } = useGanttUIStore()
 
-  const { canUndo, canRedo, undo, redo } = useVersionControlStore()
+  const { canUndo, canRedo } = useVersionControlStore()
 
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const query = e.target.value
@@ -129,16 +133,16 @@ export function GanttToolbar({
 
           {/* Version Control */}
           <button
-            onClick={() => undo()}
-            disabled={!canUndo}
+            onClick={onUndo}
+            disabled={!canUndo || !onUndo}
             className="p-2 hover:bg-muted rounded-xl transition-all duration-200 hover:scale-105 disabled:opacity-30 disabled:hover:scale-100"
             title="Undo (Ctrl+Z)"
           >
             <Undo2 className="w-5 h-5" />
           </button>
           <button
-            onClick={() => redo()}
-            disabled={!canRedo}
+            onClick={onRedo}
+            disabled={!canRedo || !onRedo}
             className="p-2 hover:bg-muted rounded-xl transition-all duration-200 hover:scale-105 disabled:opacity-30 disabled:hover:scale-100"
             title="Redo (Ctrl+Y)"
           >
@@ -2,8 +2,28 @@
 
 import * as React from "react"
 import { cn } from "@/lib/utils"
-import { ChevronLeft, ChevronRight, Plus, Diamond, Edit, Trash2 } from "lucide-react"
-import { ContextMenu } from "@/components/context-menu"
+import {
+  ChevronLeft,
+  ChevronRight,
+  Plus,
+  Diamond,
+  Edit,
+  Trash2,
+  Link2,
+  ListIndentIncrease,
+  ListIndentDecrease,
+  MousePointer2,
+} from "lucide-react"
+import { ContextMenu, ContextMenuItem } from "@/components/context-menu"
+import type { TaskDependency, Resource, WorkCalendar, Baseline, BaselineTask, UserPresence } from "@/types/task"
+import {
+  DEFAULT_WORK_CALENDAR,
+  getProgressDate,
+  isWorkingDay,
+  nextWorkingDay,
+  shiftTaskDates,
+  snapEndToWorkingDay,
+} from "@/lib/utils/work-calendar"
 
 // Types
 export type TimescaleType = "day" | "week" | "month" | "quarter"
@@ -21,6 +41,11 @@ export interface GanttTask {
   group?: string
   owner?: string
   progress?: number
+  resources?: Pick<Resource, "id" | "name" | "avatar" | "color">[]
+  parentId?: string
+  isSummary?: boolean // Dates are rolled up from subtasks, so the bar can't be dragged
+  version?: number // Sent back with updates so stale writes are rejected
+  modifiedBy?: string
 }
 
 interface GanttContextValue {
@@ -28,11 +53,25 @@ interface GanttContextValue {
   viewStart: Date
   viewEnd: Date
   timescale: TimescaleType
+  dayWidth: number // Pixels per day at the current timescale
   onTaskMove?: (taskId: string, startAt: Date, endAt: Date) => Promise<void>
   onTaskCreate?: (date: Date) => Promise<void>
   onTaskClick?: (task: GanttTask) => void
   onTaskEditRequest?: (task: GanttTask) => void
   onTaskDelete?: (taskId: string) => Promise<void>
+  onTaskIndent?: (taskId: string) => Promise<void>
+  onTaskOutdent?: (taskId: string) => Promise<void>
+  dependencies: TaskDependency[]
+  onDependencyCreate?: (predecessorId: string, successorId: string) => Promise<void>
+  onDependencyDelete?: (dependencyId: string) => Promise<void>
+  linkSourceId: string | null
+  setLinkSourceId: (taskId: string | null) => void
+  calendar: WorkCalendar
+  baseline: Baseline | null
+  baselineTasks: Map<string, BaselineTask>
+  showResources: boolean
+  presence: UserPresence[] // Other users viewing the chart
+  onCursorMove?: (cursor: UserPresence["cursor"] | null) => void
   setViewRange: (start: Date, end: Date) => void
   setTimescale: (timescale: TimescaleType) => void
   goToToday: () => void
@@ -88,6 +127,22 @@ function addQuarters(date: Date, quarters: number): Date {
   return addMonths(date, quarters * 3)
 }
 
+// Pixels per day for each timescale
+function getDayWidth(timescale: TimescaleType): number {
+  switch (timescale) {
+    case "day":
+      return 80 // 80px per day for day view (zoomed in)
+    case "week":
+      return 40 // 40px per day for week view
+    case "month":
+      return 20 // 20px per day for month view
+    case "quarter":
+      return 10 // 10px per day for quarter view (zoomed out)
+    default:
+      return 40
+  }
+}
+
 // Provider
 interface GanttProviderProps {
   children: React.ReactNode
@@ -97,6 +152,16 @@ interface GanttProviderProps {
   onTaskClick?: (task: GanttTask) => void
   onTaskEditRequest?: (task: GanttTask) => void
   onTaskDelete?: (taskId: string) => Promise<void>
+  onTaskIndent?: (taskId: string) => Promise<void>
+  onTaskOutdent?: (taskId: string) => Promise<void>
+  dependencies?: TaskDependency[]
+  onDependencyCreate?: (predecessorId: string, successorId: string) => Promise<void>
+  onDependencyDelete?: (dependencyId: string) => Promise<void>
+  calendar?: WorkCalendar
+  baseline?: Baseline | null
+  showResources?: boolean // Draw assignee avatars next to task bars
+  presence?: UserPresence[] // Other users' selections and cursors to draw
+  onCursorMove?: (cursor: UserPresence["cursor"] | null) => void
   defaultViewStart?: Date
   defaultViewEnd?: Date
   defaultTimescale?: TimescaleType
@@ -110,6 +175,16 @@ export function GanttProvider({
   onTaskClick,
   onTaskEditRequest,
   onTaskDelete,
+  onTaskIndent,
+  onTaskOutdent,
+  dependencies = [],
+  onDependencyCreate,
+  onDependencyDelete,
+  calendar = DEFAULT_WORK_CALENDAR,
+  baseline = null,
+  showResources = false,
+  presence = [],
+  onCursorMove,
   defaultViewStart,
   defaultViewEnd,
   defaultTimescale = "day",
@@ -125,6 +200,30 @@ export function GanttProvider({
     defaultViewEnd || new Date(today.getTime() + 60 * 24 * 60 * 60 * 1000)
   )
   const [timescale, setTimescale] = React.useState<TimescaleType>(defaultTimescale)
+  const dayWidth = getDayWidth(timescale)
+
+  // Baseline entries by task, for the ghost bars
+  const baselineTasks = React.useMemo(
+    () => new Map((baseline?.tasks || []).map((entry) => [entry.taskId, entry])),
+    [baseline]
+  )
+
+  // Task picked as predecessor while drawing a dependency link
+  const [linkSourceId, setLinkSourceId] = React.useState<string | null>(null)
+
+  // Escape cancels link mode
+  React.useEffect(() => {
+    if (!linkSourceId) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        setLinkSourceId(null)
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [linkSourceId])
 
   const setViewRange = React.useCallback((start: Date, end: Date) => {
     setViewStart(start)
@@ -206,8 +305,7 @@ export function GanttProvider({
       const scrollableContainer = document.querySelector('.gantt-scrollbar')
       if (scrollableContainer) {
         const daysFromStart = (today.getTime() - newStart.getTime()) / (24 * 60 * 60 * 1000)
-        const dayWidth = timescale === 'day' ? 80 : timescale === 'week' ? 40 : timescale === 'month' ? 20 : 10
-        const todayPositionPx = daysFromStart * dayWidth
+        const todayPositionPx = daysFromStart * getDayWidth(timescale)
         const scrollPosition = todayPositionPx - scrollableContainer.clientWidth / 2
         scrollableContainer.scrollLeft = Math.max(0, scrollPosition)
       }
@@ -221,11 +319,25 @@ export function GanttProvider({
         viewStart,
         viewEnd,
         timescale,
+        dayWidth,
         onTaskMove,
         onTaskCreate,
         onTaskClick,
         onTaskEditRequest,
         onTaskDelete,
+        onTaskIndent,
+        onTaskOutdent,
+        dependencies,
+        onDependencyCreate,
+        onDependencyDelete,
+        linkSourceId,
+        setLinkSourceId,
+        calendar,
+        baseline,
+        baselineTasks,
+        showResources,
+        presence,
+        onCursorMove,
         setViewRange,
         setTimescale,
         goToToday,
@@ -298,7 +410,7 @@ export function GanttHeader({ className }: { className?: string }) {
 
 // Timeline Grid with hierarchical time header
 function TimelineGrid({ className, dayWidth }: { className?: string; dayWidth: number }) {
-  const { viewStart, viewEnd, timescale } = useGantt()
+  const { viewStart, viewEnd, timescale, calendar } = useGantt()
 
   // Calculate periods based on timescale
   const getPeriods = () => {
@@ -474,13 +586,13 @@ function TimelineGrid({ className, dayWidth }: { className?: string; dayWidth: n
       {/* Timescale periods - matches table header height of 80px total (40px + 40px) */}
       <div className="flex border-b bg-muted/50" style={{ height: '40px' }}>
         {periods.map((period, i) => {
-          const isWeekend = timescale === "day" && (period.date.getDay() === 0 || period.date.getDay() === 6)
+          const isNonWorking = timescale === "day" && !isWorkingDay(period.date, calendar)
           return (
             <div
               key={i}
               className={cn(
                 "border-r text-xs p-1 text-center flex flex-col justify-center",
-                isWeekend && "bg-muted/70"
+                isNonWorking && "bg-muted/70"
               )}
               style={{ width: `${periodWidthPx}px`, minWidth: `${periodWidthPx}px` }}
             >
@@ -508,8 +620,63 @@ function getWeekNumber(date: Date): number {
 // Today Marker - now rendered inline in GanttFeatureList for proper positioning
 
 // Feature Item (Task Bar)
+function getResourceInitials(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("")
+}
+
+// Assignee avatars drawn to the right of a task bar
+function GanttResourceAvatars({
+  resources,
+  left,
+}: {
+  resources: NonNullable<GanttTask["resources"]>
+  left: number
+}) {
+  return (
+    <div
+      className="absolute h-8 flex items-center -space-x-1.5 pointer-events-none"
+      style={{ left: `${left}px` }}
+    >
+      {resources.map((resource) => (
+        <div
+          key={resource.id}
+          className="w-6 h-6 rounded-full ring-2 ring-background flex items-center justify-center text-[10px] font-semibold text-white bg-cover bg-center pointer-events-auto"
+          style={{
+            backgroundColor: resource.color || "#6b7280",
+            backgroundImage: resource.avatar ? `url(${JSON.stringify(resource.avatar)})` : undefined,
+          }}
+          title={resource.name}
+        >
+          {!resource.avatar && getResourceInitials(resource.name)}
+        </div>
+      ))}
+    </div>
+  )
+}
+
 export function GanttFeatureItem({ task, dayWidth }: { task: GanttTask; dayWidth: number }) {
-  const { viewStart, viewEnd, onTaskMove, onTaskClick, onTaskEditRequest, onTaskDelete } = useGantt()
+  const {
+    viewStart,
+    viewEnd,
+    onTaskMove,
+    onTaskClick,
+    onTaskEditRequest,
+    onTaskDelete,
+    onTaskIndent,
+    onTaskOutdent,
+    onDependencyCreate,
+    linkSourceId,
+    setLinkSourceId,
+    calendar,
+    baselineTasks,
+    showResources,
+    presence,
+  } = useGantt()
   const [isDragging, setIsDragging] = React.useState(false)
   const [isResizing, setIsResizing] = React.useState<"start" | "end" | null>(null)
   const [dragOffset, setDragOffset] = React.useState({ start: 0, end: 0 })
@@ -528,10 +695,69 @@ export function GanttFeatureItem({ task, dayWidth }: { task: GanttTask; dayWidth
   // Check if this is a milestone (same start and end date)
   const isMilestone = task.startAt.toDateString() === task.endAt.toDateString()
 
+  // Resource whose calendar exceptions apply to this task
+  const resourceId = task.resources?.[0]?.id
+
+  // Progress covers working days only, so weekends inside the bar don't count
+  const progressPx =
+    task.progress !== undefined && task.progress > 0
+      ? ((getProgressDate(task.startAt, task.endAt, task.progress, calendar, resourceId).getTime() -
+          task.startAt.getTime()) /
+          (24 * 60 * 60 * 1000)) *
+        dayWidth
+      : 0
+
+  const isLinkSource = linkSourceId === task.id
+
+  // Ghost bar for the selected baseline, drawn under the live bar
+  const baselineTask = baselineTasks.get(task.id)
+  const baselineBar = baselineTask && (
+    <div
+      className="absolute top-9 h-1.5 rounded-sm border border-dashed border-gray-500 bg-gray-400/40 pointer-events-none"
+      style={{
+        left: `${((baselineTask.startAt.getTime() - viewStart.getTime()) / (24 * 60 * 60 * 1000)) * dayWidth}px`,
+        width: `${Math.max(
+          ((baselineTask.endAt.getTime() - baselineTask.startAt.getTime()) / (24 * 60 * 60 * 1000)) * dayWidth,
+          4
+        )}px`,
+      }}
+    />
+  )
+
+  // Outline in the presence color of every other user who has this task selected
+  const selectedBy = presence.filter((user) => user.selection === task.id)
+  const presenceOutline = selectedBy.length > 0 && (
+    <div
+      className="absolute h-8 rounded pointer-events-none z-10"
+      style={{
+        left: `${isMilestone ? leftPx - 16 : leftPx}px`,
+        width: `${isMilestone ? 32 : widthPx}px`,
+        boxShadow: selectedBy
+          .map((user, index) => `0 0 0 ${(index + 1) * 2}px ${user.color}`)
+          .join(", "),
+      }}
+    >
+      <div className="absolute -top-4 left-0 flex gap-0.5">
+        {selectedBy.map((user) => (
+          <span
+            key={user.userId}
+            className="px-1 rounded-sm text-[10px] leading-4 text-white whitespace-nowrap"
+            style={{ backgroundColor: user.color }}
+          >
+            {user.userName}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+
   const handleMouseDown = (e: React.MouseEvent, type: "move" | "resize-start" | "resize-end") => {
     e.preventDefault()
     e.stopPropagation()
 
+    // No dragging while picking a successor; summary dates follow their subtasks
+    if (linkSourceId || task.isSummary) return
+
     if (type === "move") {
       setIsDragging(true)
       const rect = e.currentTarget.getBoundingClientRect()
@@ -543,6 +769,19 @@ export function GanttFeatureItem({ task, dayWidth }: { task: GanttTask; dayWidth
     }
   }
 
+  // In link mode a click picks the successor instead of opening the task
+  const handleClick = async () => {
+    if (!linkSourceId) {
+      onTaskClick?.(task)
+      return
+    }
+
+    setLinkSourceId(null)
+    if (linkSourceId !== task.id && onDependencyCreate) {
+      await onDependencyCreate(linkSourceId, task.id)
+    }
+  }
+
   const handleContextMenu = (e: React.MouseEvent) => {
     e.preventDefault()
     e.stopPropagation()
@@ -590,20 +829,28 @@ export function GanttFeatureItem({ task, dayWidth }: { task: GanttTask; dayWidth
         if (isDragging) {
           const offsetDays = Math.floor(dragOffset.start / dayWidth)
           const newStartDay = day - offsetDays
-          const newStart = new Date(viewStart.getTime() + newStartDay * 24 * 60 * 60 * 1000)
-          const taskDuration = task.endAt.getTime() - task.startAt.getTime()
-          const newEnd = new Date(newStart.getTime() + taskDuration)
+          const droppedStart = new Date(viewStart.getTime() + newStartDay * 24 * 60 * 60 * 1000)
+          // Keep the working-day duration and start on a working day
+          const { startAt: newStart, endAt: newEnd } = shiftTaskDates(task, droppedStart, calendar, resourceId)
 
           if (onTaskMove) {
             await onTaskMove(task.id, newStart, newEnd)
           }
         } else if (isResizing === "start") {
-          const newStart = new Date(viewStart.getTime() + day * 24 * 60 * 60 * 1000)
+          const newStart = nextWorkingDay(
+            new Date(viewStart.getTime() + day * 24 * 60 * 60 * 1000),
+            calendar,
+            resourceId
+          )
           if (newStart < task.endAt && onTaskMove) {
             await onTaskMove(task.id, newStart, task.endAt)
           }
         } else if (isResizing === "end") {
-          const newEnd = new Date(viewStart.getTime() + (day + 1) * 24 * 60 * 60 * 1000)
+          const newEnd = snapEndToWorkingDay(
+            new Date(viewStart.getTime() + (day + 1) * 24 * 60 * 60 * 1000),
+            calendar,
+            resourceId
+          )
           if (newEnd > task.startAt && onTaskMove) {
             await onTaskMove(task.id, task.startAt, newEnd)
           }
@@ -621,18 +868,118 @@ export function GanttFeatureItem({ task, dayWidth }: { task: GanttTask; dayWidth
       document.removeEventListener("mousemove", handleMouseMove)
       document.removeEventListener("mouseup", handleMouseUp)
     }
-  }, [isDragging, isResizing, dragOffset, task, totalDays, viewStart, onTaskMove, dayWidth, leftPx, widthPx])
+  }, [isDragging, isResizing, dragOffset, task, totalDays, viewStart, onTaskMove, dayWidth, leftPx, widthPx, calendar, resourceId])
 
   const backgroundColor = task.status?.color || "#3b82f6"
 
+  const contextMenuItems: ContextMenuItem[] = [
+    {
+      label: 'Edit Task',
+      icon: <Edit className="w-4 h-4" />,
+      onClick: () => onTaskEditRequest?.(task),
+    },
+    ...(onDependencyCreate
+      ? [
+          {
+            label: 'Link to Successor',
+            icon: <Link2 className="w-4 h-4" />,
+            onClick: () => setLinkSourceId(task.id),
+          },
+        ]
+      : []),
+    ...(onTaskIndent
+      ? [
+          {
+            label: 'Indent',
+            icon: <ListIndentIncrease className="w-4 h-4" />,
+            onClick: () => onTaskIndent(task.id),
+          },
+        ]
+      : []),
+    ...(onTaskOutdent
+      ? [
+          {
+            label: 'Outdent',
+            icon: <ListIndentDecrease className="w-4 h-4" />,
+            onClick: () => onTaskOutdent(task.id),
+            disabled: !task.parentId,
+          },
+        ]
+      : []),
+    {
+      label: 'Delete Task',
+      icon: <Trash2 className="w-4 h-4" />,
+      onClick: async () => {
+        if (onTaskDelete && confirm(`Delete task "${task.name}"?`)) {
+          await onTaskDelete(task.id)
+        }
+      },
+      danger: true,
+    },
+  ]
+
+  // Summary bar: spans the subtasks and can't be dragged or resized
+  if (task.isSummary) {
+    return (
+      <>
+        {baselineBar}
+
+        <div
+          className={cn(
+            "absolute h-8 cursor-pointer transition-all duration-200 ease-out",
+            isLinkSource && "ring-2 ring-primary ring-offset-1 rounded",
+            linkSourceId && !isLinkSource && "cursor-crosshair"
+          )}
+          style={{
+            left: `${leftPx}px`,
+            width: `${widthPx}px`,
+          }}
+          onMouseEnter={() => setIsHovered(true)}
+          onMouseLeave={() => setIsHovered(false)}
+          onClick={handleClick}
+          onContextMenu={handleContextMenu}
+          title={`${task.name} (summary)\n${task.startAt.toLocaleDateString()} - ${task.endAt.toLocaleDateString()}`}
+        >
+          <div className={cn("absolute top-2 left-0 right-0 h-3 bg-gray-700 overflow-hidden", isHovered && "shadow-lg")}>
+            {progressPx > 0 && (
+              <div
+                className="h-full bg-gray-900"
+                style={{ width: `${Math.min(100, (progressPx / widthPx) * 100)}%` }}
+              />
+            )}
+          </div>
+          {/* Bracket ends */}
+          <div className="absolute top-2 left-0 w-1.5 h-5 bg-gray-700 rounded-b-sm" />
+          <div className="absolute top-2 right-0 w-1.5 h-5 bg-gray-700 rounded-b-sm" />
+          <span className="absolute top-0 left-full ml-2 text-xs font-semibold whitespace-nowrap text-gray-700">
+            {task.name}
+          </span>
+        </div>
+
+        {presenceOutline}
+
+        {contextMenu && (
+          <ContextMenu
+            x={contextMenu.x}
+            y={contextMenu.y}
+            items={contextMenuItems}
+            onClose={() => setContextMenu(null)}
+          />
+        )}
+      </>
+    )
+  }
+
   // Render milestone icon for tasks with same start and end date
   if (isMilestone) {
     return (
       <>
+        {baselineBar}
         <div
           className={cn(
             "absolute cursor-pointer flex items-center justify-center transition-all duration-200 ease-out",
-            isHovered && "scale-110 drop-shadow-lg"
+            isHovered && "scale-110 drop-shadow-lg",
+            linkSourceId && !isLinkSource && "cursor-crosshair"
           )}
           style={{
             left: `${leftPx}px`,
@@ -642,7 +989,7 @@ export function GanttFeatureItem({ task, dayWidth }: { task: GanttTask; dayWidth
           onMouseDown={(e) => handleMouseDown(e, "move")}
           onMouseEnter={() => setIsHovered(true)}
           onMouseLeave={() => setIsHovered(false)}
-          onClick={() => onTaskClick?.(task)}
+          onClick={handleClick}
           onContextMenu={handleContextMenu}
           title={`${task.name}\n${task.startAt.toLocaleDateString()}`}
         >
@@ -670,28 +1017,14 @@ export function GanttFeatureItem({ task, dayWidth }: { task: GanttTask; dayWidth
         </span>
       </div>
 
+      {presenceOutline}
+
       {/* Context menu */}
       {contextMenu && (
         <ContextMenu
           x={contextMenu.x}
           y={contextMenu.y}
-          items={[
-            {
-              label: 'Edit Task',
-              icon: <Edit className="w-4 h-4" />,
-              onClick: () => onTaskEditRequest?.(task),
-            },
-            {
-              label: 'Delete Task',
-              icon: <Trash2 className="w-4 h-4" />,
-              onClick: async () => {
-                if (onTaskDelete && confirm(`Delete task "${task.name}"?`)) {
-                  await onTaskDelete(task.id)
-                }
-              },
-              danger: true,
-            },
-          ]}
+          items={contextMenuItems}
           onClose={() => setContextMenu(null)}
         />
       )}
@@ -701,12 +1034,16 @@ export function GanttFeatureItem({ task, dayWidth }: { task: GanttTask; dayWidth
 
   return (
     <>
+      {baselineBar}
+
       {/* Main task bar */}
       <div
         className={cn(
           "absolute h-8 rounded cursor-move transition-all duration-200 ease-out",
           isHovered && !isDragging && !isResizing && "shadow-lg ring-2 ring-white/30 scale-105",
-          (isDragging || isResizing) && "opacity-30"
+          (isDragging || isResizing) && "opacity-30",
+          isLinkSource && "ring-2 ring-primary ring-offset-1",
+          linkSourceId && !isLinkSource && "cursor-crosshair"
         )}
         style={{
           left: `${leftPx}px`,
@@ -716,7 +1053,7 @@ export function GanttFeatureItem({ task, dayWidth }: { task: GanttTask; dayWidth
         onMouseDown={(e) => handleMouseDown(e, "move")}
         onMouseEnter={() => setIsHovered(true)}
         onMouseLeave={() => setIsHovered(false)}
-        onClick={() => onTaskClick?.(task)}
+        onClick={handleClick}
         onContextMenu={handleContextMenu}
         title={`${task.name}\n${task.startAt.toLocaleDateString()} - ${task.endAt.toLocaleDateString()}`}
       >
@@ -734,11 +1071,11 @@ export function GanttFeatureItem({ task, dayWidth }: { task: GanttTask; dayWidth
         </div>
 
         {/* Progress bar */}
-        {task.progress !== undefined && task.progress > 0 && (
-          <div className="absolute bottom-0 left-0 h-1 bg-white/30 rounded-full overflow-hidden">
+        {progressPx > 0 && (
+          <div className="absolute bottom-0 left-0 right-0 h-1 bg-white/30 rounded-full overflow-hidden">
             <div
               className="h-full bg-white/60 transition-all duration-500 ease-out"
-              style={{ width: `${task.progress}%` }}
+              style={{ width: `${Math.min(100, (progressPx / widthPx) * 100)}%` }}
             />
           </div>
         )}
@@ -753,6 +1090,12 @@ export function GanttFeatureItem({ task, dayWidth }: { task: GanttTask; dayWidth
         />
       </div>
 
+      {showResources && task.resources && task.resources.length > 0 && (
+        <GanttResourceAvatars resources={task.resources} left={leftPx + widthPx + 6} />
+      )}
+
+      {presenceOutline}
+
       {/* Preview/ghost while dragging or resizing */}
       {previewPosition && (isDragging || isResizing) && (
         <div
@@ -782,23 +1125,7 @@ export function GanttFeatureItem({ task, dayWidth }: { task: GanttTask; dayWidth
         <ContextMenu
           x={contextMenu.x}
           y={contextMenu.y}
-          items={[
-            {
-              label: 'Edit Task',
-              icon: <Edit className="w-4 h-4" />,
-              onClick: () => onTaskEditRequest?.(task),
-            },
-            {
-              label: 'Delete Task',
-              icon: <Trash2 className="w-4 h-4" />,
-              onClick: async () => {
-                if (onTaskDelete && confirm(`Delete task "${task.name}"?`)) {
-                  await onTaskDelete(task.id)
-                }
-              },
-              danger: true,
-            },
-          ]}
+          items={contextMenuItems}
           onClose={() => setContextMenu(null)}
         />
       )}
@@ -806,17 +1133,193 @@ export function GanttFeatureItem({ task, dayWidth }: { task: GanttTask; dayWidth
   )
 }
 
+// Non-working day shading behind the task rows (weekends, holidays)
+function GanttNonWorkingDays({ dayWidth }: { dayWidth: number }) {
+  const { viewStart, viewEnd, timescale, calendar } = useGantt()
+
+  const columns = React.useMemo(() => {
+    // Too narrow to be useful when zoomed out to quarters
+    if (timescale === "quarter") return []
+
+    const result: number[] = []
+    let current = new Date(viewStart)
+    for (let index = 0; current <= viewEnd; index++) {
+      if (!isWorkingDay(current, calendar)) result.push(index)
+      current = addDays(current, 1)
+    }
+    return result
+  }, [viewStart, viewEnd, timescale, calendar])
+
+  return (
+    <div className="absolute inset-0 pointer-events-none" aria-hidden>
+      {columns.map((index) => (
+        <div
+          key={index}
+          className="absolute top-0 bottom-0 bg-muted/40"
+          style={{ left: `${index * dayWidth}px`, width: `${dayWidth}px` }}
+        />
+      ))}
+    </div>
+  )
+}
+
+// Dependency Arrows (SVG overlay drawn over the task rows)
+const ROW_HEIGHT = 48
+const BAR_CENTER_Y = 16 // Bars are 32px tall and sit at the top of their row
+const ARROW_STUB = 10
+
+function GanttDependencyArrows({
+  rowIndexById,
+  rowCount,
+  dayWidth,
+}: {
+  rowIndexById: Map<string, number>
+  rowCount: number
+  dayWidth: number
+}) {
+  const { tasks, dependencies, viewStart, onDependencyDelete } = useGantt()
+
+  const taskById = React.useMemo(() => new Map(tasks.map((task) => [task.id, task])), [tasks])
+
+  // Horizontal bar edges in the same pixel space as GanttFeatureItem
+  const getBarEdges = (task: GanttTask) => {
+    const left = ((task.startAt.getTime() - viewStart.getTime()) / (24 * 60 * 60 * 1000)) * dayWidth
+    if (task.startAt.toDateString() === task.endAt.toDateString()) {
+      return { start: left, end: left }
+    }
+    const duration = (task.endAt.getTime() - task.startAt.getTime()) / (24 * 60 * 60 * 1000)
+    return { start: left, end: left + Math.max(duration * dayWidth, 20) }
+  }
+
+  const arrows = dependencies.flatMap((dep) => {
+    const predecessor = taskById.get(dep.predecessorId)
+    const successor = taskById.get(dep.successorId)
+    const fromRow = rowIndexById.get(dep.predecessorId)
+    const toRow = rowIndexById.get(dep.successorId)
+
+    // Skip links to tasks that are filtered out of the chart
+    if (!predecessor || !successor || fromRow === undefined || toRow === undefined) {
+      return []
+    }
+
+    const fromEdges = getBarEdges(predecessor)
+    const toEdges = getBarEdges(successor)
+    const fromFinish = dep.type === "finish-to-start" || dep.type === "finish-to-finish"
+    const toStart = dep.type === "finish-to-start" || dep.type === "start-to-start"
+
+    const x1 = fromFinish ? fromEdges.end : fromEdges.start
+    const x2 = toStart ? toEdges.start : toEdges.end
+    const y1 = fromRow * ROW_HEIGHT + BAR_CENTER_Y
+    const y2 = toRow * ROW_HEIGHT + BAR_CENTER_Y
+    const exitX = x1 + (fromFinish ? ARROW_STUB : -ARROW_STUB)
+    const entryX = x2 + (toStart ? -ARROW_STUB : ARROW_STUB)
+    // Route the vertical leg along the row boundary between the two bars
+    const midY = toRow >= fromRow ? y2 - ROW_HEIGHT / 2 : y2 + ROW_HEIGHT / 2
+
+    const path = `M ${x1} ${y1} H ${exitX} V ${midY} H ${entryX} V ${y2} H ${x2}`
+    const label = `${predecessor.name} → ${successor.name}${dep.lag ? ` (lag ${dep.lag}d)` : ""}`
+
+    return [{ dep, path, label }]
+  })
+
+  if (arrows.length === 0) return null
+
+  return (
+    <svg
+      className="absolute top-0 left-0 pointer-events-none z-10 overflow-visible"
+      width="100%"
+      height={rowCount * ROW_HEIGHT}
+    >
+      <defs>
+        <marker id="gantt-dependency-arrow" markerWidth="8" markerHeight="8" refX="7" refY="4" orient="auto">
+          <path d="M 0 0 L 8 4 L 0 8 z" className="fill-muted-foreground" />
+        </marker>
+      </defs>
+      {arrows.map(({ dep, path, label }) => (
+        <g key={dep.id} className="group">
+          <path
+            d={path}
+            fill="none"
+            className="stroke-muted-foreground group-hover:stroke-primary transition-colors"
+            strokeWidth={1.5}
+            markerEnd="url(#gantt-dependency-arrow)"
+          />
+          {/* Wider invisible stroke as the click target */}
+          <path
+            d={path}
+            fill="none"
+            stroke="transparent"
+            strokeWidth={10}
+            className={cn(onDependencyDelete && "cursor-pointer")}
+            style={{ pointerEvents: "stroke" }}
+            onClick={async () => {
+              if (onDependencyDelete && confirm(`Remove dependency "${label}"?`)) {
+                await onDependencyDelete(dep.id)
+              }
+            }}
+          >
+            <title>{label}</title>
+          </path>
+        </g>
+      ))}
+    </svg>
+  )
+}
+
+// Cursors of other users, positioned in the same coordinates as the task rows
+function GanttRemoteCursors() {
+  const { presence, viewStart, dayWidth } = useGantt()
+
+  return (
+    <>
+      {presence.map((user) =>
+        user.cursor ? (
+          <div
+            key={user.userId}
+            className="absolute pointer-events-none z-40 transition-[left,top] duration-100 ease-linear"
+            style={{
+              left: `${((user.cursor.x - viewStart.getTime()) / (24 * 60 * 60 * 1000)) * dayWidth}px`,
+              top: `${user.cursor.y}px`,
+            }}
+          >
+            <MousePointer2 className="w-4 h-4" fill={user.color} stroke="white" strokeWidth={1.5} />
+            <span
+              className="absolute top-4 left-3 px-1 rounded-sm text-[10px] leading-4 text-white whitespace-nowrap"
+              style={{ backgroundColor: user.color }}
+            >
+              {user.userName}
+            </span>
+          </div>
+        ) : null
+      )}
+    </>
+  )
+}
+
 // Feature List (Container for tasks)
 export function GanttFeatureList({
   className,
   groupConfig,
   groupedTasks,
+  children,
 }: {
   className?: string
   groupConfig?: { field: string } | null | undefined
   groupedTasks?: Record<string, GanttTask[]> | undefined
+  children?: React.ReactNode // Panels drawn under the task rows, e.g. the resource histogram
 }) {
-  const { tasks, viewStart, viewEnd, timescale, setTimescale, setViewRange, calculateViewRangeForDate } = useGantt()
+  const {
+    tasks,
+    viewStart,
+    viewEnd,
+    timescale,
+    dayWidth,
+    setTimescale,
+    setViewRange,
+    calculateViewRangeForDate,
+    linkSourceId,
+    onCursorMove,
+  } = useGantt()
   const containerRef = React.useRef<HTMLDivElement>(null)
   const scrollVelocityRef = React.useRef({ x: 0, y: 0 })
   const lastScrollRef = React.useRef({ x: 0, y: 0, time: 0 })
@@ -971,22 +1474,6 @@ export function GanttFeatureList({
     }
   }, [isPanning, isSpacePressed, startMomentumScroll])
 
-  // Calculate day width based on timescale for proper zoom scaling (moved before use)
-  const dayWidth = React.useMemo(() => {
-    switch (timescale) {
-      case 'day':
-        return 80 // 80px per day for day view (zoomed in)
-      case 'week':
-        return 40 // 40px per day for week view
-      case 'month':
-        return 20 // 20px per day for month view
-      case 'quarter':
-        return 10 // 10px per day for quarter view (zoomed out)
-      default:
-        return 40
-    }
-  }, [timescale])
-
   // Restore scroll position after zoom to preserve viewport center
   React.useEffect(() => {
     const centerDate = viewportCenterDateRef.current
@@ -1155,6 +1642,35 @@ export function GanttFeatureList({
     }
   }, [timescale, setTimescale, startMomentumScroll, viewStart, dayWidth, setViewRange, calculateViewRangeForDate])
 
+  // Row index of every rendered task (group headers take a row too) for dependency arrows
+  const { rowIndexById, rowCount } = React.useMemo(() => {
+    const indices = new Map<string, number>()
+    let row = 0
+
+    if (groupConfig && groupedTasks) {
+      const showHeaders = Object.keys(groupedTasks).length > 1
+      Object.values(groupedTasks).forEach((groupTasks) => {
+        if (showHeaders) row++
+        groupTasks.forEach((task) => indices.set(task.id, row++))
+      })
+    } else {
+      tasks.forEach((task) => indices.set(task.id, row++))
+    }
+
+    return { rowIndexById: indices, rowCount: row }
+  }, [tasks, groupConfig, groupedTasks])
+
+  // Share the pointer as a time and row offset so it lands on the same spot at any zoom
+  const handleRowsMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!onCursorMove) return
+    const rect = e.currentTarget.getBoundingClientRect()
+    onCursorMove({
+      x: viewStart.getTime() + ((e.clientX - rect.left) / dayWidth) * 24 * 60 * 60 * 1000,
+      y: e.clientY - rect.top,
+    })
+  }
+  const handleRowsMouseLeave = () => onCursorMove?.(null)
+
   // Calculate total days and minimum width
   const totalDays = (viewEnd.getTime() - viewStart.getTime()) / (24 * 60 * 60 * 1000)
   const minWidthPx = totalDays * dayWidth
@@ -1202,7 +1718,8 @@ export function GanttFeatureList({
               </div>
             </div>
           ) : groupConfig && groupedTasks ? (
-            <div>
+            <div className="relative" onMouseMove={handleRowsMouseMove} onMouseLeave={handleRowsMouseLeave}>
+              <GanttNonWorkingDays dayWidth={dayWidth} />
               {Object.entries(groupedTasks).map(([groupName, groupTasks]) => (
                 <React.Fragment key={groupName}>
                   {/* Group header - matches table group header height */}
@@ -1223,9 +1740,12 @@ export function GanttFeatureList({
                   ))}
                 </React.Fragment>
               ))}
+              <GanttDependencyArrows rowIndexById={rowIndexById} rowCount={rowCount} dayWidth={dayWidth} />
+              <GanttRemoteCursors />
             </div>
           ) : (
-            <div>
+            <div className="relative" onMouseMove={handleRowsMouseMove} onMouseLeave={handleRowsMouseLeave}>
+              <GanttNonWorkingDays dayWidth={dayWidth} />
               {tasks.map((task) => (
                 <div key={task.id} className="relative border-b" style={{ height: 'var(--task-row-height, 48px)' }}>
                   <div className="absolute inset-y-0 left-0 right-0">
@@ -1233,11 +1753,23 @@ export function GanttFeatureList({
                   </div>
                 </div>
               ))}
+              <GanttDependencyArrows rowIndexById={rowIndexById} rowCount={rowCount} dayWidth={dayWidth} />
+              <GanttRemoteCursors />
             </div>
           )}
         </div>
+
+        {/* Inside the scroll container so it pans and zooms with the bars */}
+        {children && <div className="relative px-4 pb-4">{children}</div>}
       </div>
 
+      {/* Link mode banner */}
+      {linkSourceId && (
+        <div className="fixed top-4 left-1/2 -translate-x-1/2 px-3 py-2 rounded-lg bg-primary text-primary-foreground text-xs shadow-lg pointer-events-none z-50">
+          Click a task to make it a successor of &quot;{tasks.find((task) => task.id === linkSourceId)?.name}&quot; • Esc to cancel
+        </div>
+      )}
+
       {/* Interaction hints */}
       {tasks.length > 0 && (
         <div className="fixed bottom-4 left-1/2 -translate-x-1/2 px-3 py-2 rounded-lg bg-background/80 backdrop-blur-sm border text-xs text-muted-foreground pointer-events-none z-50 opacity-50 hover:opacity-100 transition-opacity">
@@ -1,10 +1,12 @@
 "use client"
 
-import React, { useState, useRef, useMemo, useEffect } from "react"
-import { Task, TaskStatus } from "@/types/task"
-import { Download, Upload, Trash2, GripVertical, Eye, EyeOff, ChevronDown } from "lucide-react"
+import React, { useState, useMemo, useEffect } from "react"
+import { Task, TaskStatus, Baseline, WorkCalendar } from "@/types/task"
+import { Download, Upload, Trash2, GripVertical, Eye, EyeOff, ChevronDown, ChevronRight } from "lucide-react"
 import * as XLSX from "xlsx"
 import { TableToolbar, SortConfig, FilterConfig, GroupConfig } from "@/components/table-toolbar"
+import { getBaselineVariance } from "@/lib/utils/baselines"
+import { buildTaskTree } from "@/lib/utils/task-tree"
 
 export type TimescaleType = "day" | "week" | "month" | "quarter"
 
@@ -13,7 +15,6 @@ interface TaskTableProps {
   statuses: TaskStatus[]
   onTaskUpdate: (taskId: string, updates: Partial<Task>) => Promise<void>
   onTaskDelete?: (taskId: string) => Promise<void>
-  onTasksImport: (tasks: Partial<Task>[]) => Promise<void>
   onProcessedTasksChange?: (tasks: Task[]) => void
   searchQuery: string
   sortConfig: SortConfig | null
@@ -21,6 +22,8 @@ interface TaskTableProps {
   groupConfig: GroupConfig | null
   columnVisibility: Record<string, boolean>
   headersOnly?: boolean
+  baseline?: Baseline | null // Enables the start/finish variance columns
+  calendar?: WorkCalendar // Variance counts working days when set
 }
 
 export function TaskTable({
@@ -28,7 +31,6 @@ export function TaskTable({
   statuses,
   onTaskUpdate,
   onTaskDelete,
-  onTasksImport,
   onProcessedTasksChange,
   searchQuery,
   sortConfig,
@@ -36,9 +38,35 @@ export function TaskTable({
   groupConfig,
   columnVisibility,
   headersOnly = false,
+  baseline = null,
+  calendar,
 }: TaskTableProps) {
   const [editingCell, setEditingCell] = useState<{ taskId: string; field: string } | null>(null)
-  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(
+    () => new Set(tasks.filter((task) => task.isCollapsed).map((task) => task.id))
+  )
+
+  // Outline numbers come from the full task list so they stay stable while filtering
+  const outlineById = useMemo(
+    () => new Map(buildTaskTree(tasks).map((node) => [node.task.id, node])),
+    [tasks]
+  )
+
+  // Show the WBS tree unless the user sorts or groups by another field
+  const hasHierarchy = tasks.some((task) => task.parentId)
+  const isTreeMode = hasHierarchy && !sortConfig && !groupConfig
+
+  const toggleCollapsed = (taskId: string) => {
+    setCollapsedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(taskId)) {
+        next.delete(taskId)
+      } else {
+        next.add(taskId)
+      }
+      return next
+    })
+  }
 
   // Apply search, filter, sort, and group to tasks
   const processedTasks = useMemo(() => {
@@ -129,8 +157,63 @@ export function TaskTable({
       })
     }
 
+    // Tree order, hiding the subtasks of collapsed summaries
+    if (isTreeMode) {
+      result = buildTaskTree(result, collapsedIds).map((node) => node.task)
+    }
+
     return result
-  }, [tasks, searchQuery, filterConfigs, sortConfig])
+  }, [tasks, searchQuery, filterConfigs, sortConfig, isTreeMode, collapsedIds])
+
+  // Indentation depth per visible task in tree mode
+  const depthById = useMemo(() => {
+    if (!isTreeMode) return new Map<string, number>()
+    const depths = new Map<string, number>()
+    // Tree order puts parents first, so their depth is already known
+    processedTasks.forEach((task) => {
+      const parentDepth = task.parentId ? depths.get(task.parentId) : undefined
+      depths.set(task.id, parentDepth !== undefined ? parentDepth + 1 : 0)
+    })
+    return depths
+  }, [processedTasks, isTreeMode])
+
+  // Variance columns only exist while a baseline is selected
+  const showStartVariance = !!baseline && columnVisibility.startVariance !== false
+  const showFinishVariance = !!baseline && columnVisibility.finishVariance !== false
+
+  const visibleColumnCount =
+    ['name', 'start', 'end', 'status', 'owner', 'group', 'progress'].filter((col) => columnVisibility[col]).length +
+    (showStartVariance ? 1 : 0) +
+    (showFinishVariance ? 1 : 0) +
+    (onTaskDelete ? 1 : 0)
+
+  // Slippage against the selected baseline, by task id
+  const varianceByTask = useMemo(() => {
+    const variances = new Map<string, ReturnType<typeof getBaselineVariance>>()
+    if (!baseline) return variances
+
+    const planned = new Map(baseline.tasks.map((entry) => [entry.taskId, entry]))
+    tasks.forEach((task) => {
+      const entry = planned.get(task.id)
+      if (entry) {
+        variances.set(task.id, getBaselineVariance(task, entry, calendar))
+      }
+    })
+    return variances
+  }, [tasks, baseline, calendar])
+
+  const renderVariance = (days: number | undefined) => {
+    if (days === undefined) {
+      return <span className="text-muted-foreground text-xs px-2" title="Not in baseline">—</span>
+    }
+    return (
+      <span
+        className={`px-2 font-medium ${days > 0 ? "text-red-600" : days < 0 ? "text-green-600" : "text-muted-foreground"}`}
+      >
+        {days > 0 ? `+${days}d` : `${days}d`}
+      </span>
+    )
+  }
 
   // Group tasks if grouping is enabled
   const groupedTasks = useMemo(() => {
@@ -239,6 +322,8 @@ export function TaskTable({
     owner: 150,
     group: 150,
     progress: 100,
+    startVariance: 90,
+    finishVariance: 90,
   })
 
   // Column resizing state
@@ -727,141 +812,6 @@ export function TaskTable({
     }
   }
 
-  // Import from file (CSV or Excel)
-  const handleFileImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (!file) return
-
-    try {
-      const fileType = file.name.split(".").pop()?.toLowerCase()
-
-      if (fileType === "csv") {
-        await importFromCSV(file)
-      } else if (fileType === "xlsx" || fileType === "xls") {
-        await importFromExcel(file)
-      } else {
-        alert("Unsupported file format. Please upload CSV or Excel file.")
-      }
-
-      // Reset file input
-      if (fileInputRef.current) {
-        fileInputRef.current.value = ""
-      }
-    } catch (error) {
-      console.error("Import failed:", error)
-      alert("Failed to import file. Please check the file format.")
-    }
-  }
-
-  const importFromCSV = async (file: File) => {
-    const text = await file.text()
-    const lines = text.split("\n").filter((line) => line.trim())
-
-    if (lines.length < 2) {
-      alert("CSV file is empty or invalid")
-      return
-    }
-
-    const headers = lines[0].split(",").map((h) => h.trim().replace(/^"|"$/g, ""))
-    const tasks: Partial<Task>[] = []
-
-    for (let i = 1; i < lines.length; i++) {
-      const values = lines[i].match(/(".*?"|[^",]+)(?=\s*,|\s*$)/g)?.map((v) => v.trim().replace(/^"|"$/g, "")) || []
-
-      if (values.length === 0) continue
-
-      const task: Partial<Task> = {}
-      headers.forEach((header, index) => {
-        const value = values[index]?.trim()
-        if (!value) return
-
-        switch (header.toLowerCase()) {
-          case "id":
-            task.id = value
-            break
-          case "name":
-            task.name = value
-            break
-          case "start date":
-          case "startdate":
-            task.startAt = new Date(value)
-            break
-          case "end date":
-          case "enddate":
-            task.endAt = new Date(value)
-            break
-          case "status":
-            const status = statuses.find((s) => s.name === value)
-            if (status) task.status = status
-            break
-          case "owner":
-            task.owner = value
-            break
-          case "group":
-            task.group = value
-            break
-          case "description":
-            task.description = value
-            break
-          case "progress":
-            task.progress = parseFloat(value) || 0
-            break
-        }
-      })
-
-      if (task.name && task.startAt && task.endAt) {
-        tasks.push(task)
-      }
-    }
-
-    if (tasks.length > 0) {
-      await onTasksImport(tasks)
-      alert(`Successfully imported ${tasks.length} task(s)`)
-    } else {
-      alert("No valid tasks found in CSV file")
-    }
-  }
-
-  const importFromExcel = async (file: File) => {
-    const data = await file.arrayBuffer()
-    const workbook = XLSX.read(data, { type: "array" })
-    const firstSheet = workbook.Sheets[workbook.SheetNames[0]]
-    const rows = XLSX.utils.sheet_to_json<Record<string, string | number>>(firstSheet)
-
-    if (rows.length === 0) {
-      alert("Excel file is empty")
-      return
-    }
-
-    const tasks: Partial<Task>[] = rows.map((row) => {
-      const task: Partial<Task> = {}
-
-      if (row.ID) task.id = String(row.ID)
-      if (row.Name) task.name = String(row.Name)
-      if (row["Start Date"]) task.startAt = new Date(row["Start Date"])
-      if (row["End Date"]) task.endAt = new Date(row["End Date"])
-      if (row.Status) {
-        const status = statuses.find((s) => s.name === row.Status)
-        if (status) task.status = status
-      }
-      if (row.Owner) task.owner = String(row.Owner)
-      if (row.Group) task.group = String(row.Group)
-      if (row.Description) task.description = String(row.Description)
-      if (row.Progress !== undefined) {
-        task.progress = typeof row.Progress === 'number' ? row.Progress : parseFloat(String(row.Progress)) || 0
-      }
-
-      return task
-    }).filter((task) => task.name && task.startAt && task.endAt)
-
-    if (tasks.length > 0) {
-      await onTasksImport(tasks)
-      alert(`Successfully imported ${tasks.length} task(s)`)
-    } else {
-      alert("No valid tasks found in Excel file")
-    }
-  }
-
   return (
     <div className="flex flex-col" style={{ '--task-row-height': '48px' } as React.CSSProperties}>
         <table className="w-full text-sm" style={{ borderCollapse: 'collapse', borderSpacing: 0 }}>
@@ -958,6 +908,32 @@ export function TaskTable({
                 </div>
               </th>
               )}
+              {showStartVariance && (
+              <th className="px-2 py-2 text-left font-semibold border-b relative group" style={{ width: columnWidths.startVariance }} title={`Start variance vs. "${baseline?.name}"`}>
+                <div className="flex items-center justify-between">
+                  <span>Start Var.</span>
+                  <div
+                    className="absolute right-0 top-0 bottom-0 w-1 cursor-col-resize hover:bg-primary opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center"
+                    onMouseDown={(e) => handleResizeStart(e, 'startVariance')}
+                  >
+                    <GripVertical className="w-3 h-3 text-primary" />
+                  </div>
+                </div>
+              </th>
+              )}
+              {showFinishVariance && (
+              <th className="px-2 py-2 text-left font-semibold border-b relative group" style={{ width: columnWidths.finishVariance }} title={`Finish variance vs. "${baseline?.name}"`}>
+                <div className="flex items-center justify-between">
+                  <span>Finish Var.</span>
+                  <div
+                    className="absolute right-0 top-0 bottom-0 w-1 cursor-col-resize hover:bg-primary opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center"
+                    onMouseDown={(e) => handleResizeStart(e, 'finishVariance')}
+                  >
+                    <GripVertical className="w-3 h-3 text-primary" />
+                  </div>
+                </div>
+              </th>
+              )}
               {onTaskDelete && (
                 <th className="px-2 py-2 text-left font-semibold border-b w-10"></th>
               )}
@@ -974,7 +950,7 @@ export function TaskTable({
                     minHeight: 'var(--task-row-height, 48px)',
                     maxHeight: 'var(--task-row-height, 48px)',
                   }}>
-                    <td colSpan={onTaskDelete ? 8 : 7} className="px-2 font-semibold text-sm align-middle" style={{
+                    <td colSpan={visibleColumnCount} className="px-2 font-semibold text-sm align-middle" style={{
                       height: 'var(--task-row-height, 48px)',
                       minHeight: 'var(--task-row-height, 48px)',
                       maxHeight: 'var(--task-row-height, 48px)',
@@ -1021,10 +997,37 @@ export function TaskTable({
                     />
                   ) : (
                     <div
-                      onClick={() => setEditingCell({ taskId: task.id, field: "name" })}
-                      className="flex items-center cursor-text px-2 hover:bg-accent/30 rounded-md transition-colors h-full"
+                      className="flex items-center h-full min-w-0"
+                      style={{ paddingLeft: `${(depthById.get(task.id) || 0) * 16}px` }}
                     >
-                      {task.name || <span className="text-muted-foreground text-xs">Click to edit</span>}
+                      {isTreeMode && (
+                        outlineById.get(task.id)?.hasChildren ? (
+                          <button
+                            onClick={() => toggleCollapsed(task.id)}
+                            className="p-0.5 hover:bg-accent rounded flex-shrink-0"
+                            aria-label={collapsedIds.has(task.id) ? "Expand" : "Collapse"}
+                          >
+                            {collapsedIds.has(task.id) ? (
+                              <ChevronRight className="h-3.5 w-3.5" />
+                            ) : (
+                              <ChevronDown className="h-3.5 w-3.5" />
+                            )}
+                          </button>
+                        ) : (
+                          <span className="w-[18px] flex-shrink-0" />
+                        )
+                      )}
+                      {hasHierarchy && (
+                        <span className="ml-1 text-xs text-muted-foreground tabular-nums flex-shrink-0">
+                          {outlineById.get(task.id)?.outline}
+                        </span>
+                      )}
+                      <div
+                        onClick={() => setEditingCell({ taskId: task.id, field: "name" })}
+                        className={`flex items-center cursor-text px-2 hover:bg-accent/30 rounded-md transition-colors h-full flex-1 min-w-0 truncate ${task.isSummary ? "font-semibold" : ""}`}
+                      >
+                        {task.name || <span className="text-muted-foreground text-xs">Click to edit</span>}
+                      </div>
                     </div>
                   )}
                 </td>
@@ -1050,7 +1053,7 @@ export function TaskTable({
                     />
                   ) : (
                     <div
-                      onClick={() => setEditingCell({ taskId: task.id, field: "startAt" })}
+                      onClick={() => !task.isSummary && setEditingCell({ taskId: task.id, field: "startAt" })}
                       className="flex items-center cursor-text px-2 hover:bg-accent/30 rounded-md transition-colors h-full"
                     >
                       {formatDate(task.startAt) || <span className="text-muted-foreground text-xs">Click to edit</span>}
@@ -1079,7 +1082,7 @@ export function TaskTable({
                     />
                   ) : (
                     <div
-                      onClick={() => setEditingCell({ taskId: task.id, field: "endAt" })}
+                      onClick={() => !task.isSummary && setEditingCell({ taskId: task.id, field: "endAt" })}
                       className="flex items-center cursor-text px-2 hover:bg-accent/30 rounded-md transition-colors h-full"
                     >
                       {formatDate(task.endAt) || <span className="text-muted-foreground text-xs">Click to edit</span>}
@@ -1219,7 +1222,7 @@ export function TaskTable({
                     />
                   ) : (
                     <div
-                      onClick={() => setEditingCell({ taskId: task.id, field: "progress" })}
+                      onClick={() => !task.isSummary && setEditingCell({ taskId: task.id, field: "progress" })}
                       className="flex items-center cursor-text px-2 hover:bg-accent/30 rounded-md transition-colors h-full"
                     >
                       {task.progress !== undefined ? `${task.progress}%` : <span className="text-muted-foreground text-xs">Click to edit</span>}
@@ -1227,6 +1230,32 @@ export function TaskTable({
                   )}
                 </td>
                 )}
+                {showStartVariance && (
+                <td className="px-2 align-middle" style={{
+                  height: 'var(--task-row-height, 48px)',
+                  minHeight: 'var(--task-row-height, 48px)',
+                  maxHeight: 'var(--task-row-height, 48px)',
+                  lineHeight: '1',
+                  overflow: 'hidden',
+                  boxSizing: 'border-box',
+                  padding: '0 0.5rem'
+                }}>
+                  {renderVariance(varianceByTask.get(task.id)?.startVariance)}
+                </td>
+                )}
+                {showFinishVariance && (
+                <td className="px-2 align-middle" style={{
+                  height: 'var(--task-row-height, 48px)',
+                  minHeight: 'var(--task-row-height, 48px)',
+                  maxHeight: 'var(--task-row-height, 48px)',
+                  lineHeight: '1',
+                  overflow: 'hidden',
+                  boxSizing: 'border-box',
+                  padding: '0 0.5rem'
+                }}>
+                  {renderVariance(varianceByTask.get(task.id)?.finishVariance)}
+                </td>
+                )}
                 {onTaskDelete && (
                   <td className="px-2 align-middle" style={{
                   height: 'var(--task-row-height, 48px)',
@@ -38,6 +38,9 @@ interface UnifiedGanttToolbarProps {
   // Export/Import
   onExportCSV: () => void
   onExportExcel: () => void
+  onExportMSProject: () => void
+  onExportProject: () => void // Versioned JSON project file
+  onExportChart: () => void // Opens the SVG/PDF chart export
   onImportClick: () => void
 
   // Column visibility
@@ -67,6 +70,9 @@ export function UnifiedGanttToolbar({
   availableFields,
   onExportCSV,
   onExportExcel,
+  onExportMSProject,
+  onExportProject,
+  onExportChart,
   onImportClick,
   columnVisibility,
   onColumnVisibilityChange,
@@ -225,7 +231,7 @@ export function UnifiedGanttToolbar({
               <ChevronDown className="w-3 h-3" />
             </button>
             {showExport && (
-              <div className="absolute right-0 top-full mt-1 w-32 bg-background border rounded-lg shadow-lg z-50 py-1">
+              <div className="absolute right-0 top-full mt-1 w-40 bg-background border rounded-lg shadow-lg z-50 py-1">
                 <button
                   onClick={() => {
                     onExportCSV()
@@ -244,6 +250,33 @@ export function UnifiedGanttToolbar({
                 >
                   Export Excel
                 </button>
+                <button
+                  onClick={() => {
+                    onExportMSProject()
+                    setShowExport(false)
+                  }}
+                  className="w-full px-3 py-1.5 text-left text-xs hover:bg-accent transition-colors"
+                >
+                  Export MS Project
+                </button>
+                <button
+                  onClick={() => {
+                    onExportProject()
+                    setShowExport(false)
+                  }}
+                  className="w-full px-3 py-1.5 text-left text-xs hover:bg-accent transition-colors"
+                >
+                  Export Project (JSON)
+                </button>
+                <button
+                  onClick={() => {
+                    onExportChart()
+                    setShowExport(false)
+                  }}
+                  className="w-full px-3 py-1.5 text-left text-xs hover:bg-accent transition-colors"
+                >
+                  Export SVG / PDF...
+                </button>
               </div>
             )}
           </div>
@@ -251,7 +284,7 @@ export function UnifiedGanttToolbar({
           <button
             onClick={onImportClick}
             className="flex items-center gap-1.5 px-2.5 py-1.5 border rounded text-xs hover:bg-accent transition-colors"
-            title="Import"
+            title="Import (CSV, Excel, MS Project XML, project JSON)"
           >
             <Upload className="w-3.5 h-3.5" />
           </button>
@@ -279,7 +312,15 @@ export function UnifiedGanttToolbar({
                       className="rounded border-gray-300"
                     />
                     <span className="text-xs capitalize">
-                      {col === 'start' ? 'Start Date' : col === 'end' ? 'End Date' : col}
+                      {col === 'start'
+                        ? 'Start Date'
+                        : col === 'end'
+                          ? 'End Date'
+                          : col === 'startVariance'
+                            ? 'Start Variance'
+                            : col === 'finishVariance'
+                              ? 'Finish Variance'
+                              : col}
                     </span>
                   </label>
                 ))}
@@ -0,0 +1,195 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { ROLES, type Role } from '@/lib/auth/roles'
+import type { PublicLocalUser } from '@/lib/auth/local-users'
+
+interface UserManagementProps {
+  currentUserId?: string
+}
+
+const EMPTY_FORM = { username: '', name: '', password: '', role: 'viewer' as Role }
+
+/**
+ * Local users and their roles, for admins on the configuration page
+ */
+export function UserManagement({ currentUserId }: UserManagementProps) {
+  const [users, setUsers] = useState<PublicLocalUser[]>([])
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const [result, setResult] = useState<{
+    success: boolean
+    message: string
+  } | null>(null)
+
+  const loadUsers = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/users')
+      const data = await response.json()
+      if (data.success) {
+        setUsers(data.data)
+      }
+    } catch (error) {
+      console.error('Failed to load users:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadUsers()
+  }, [loadUsers])
+
+  const request = async (url: string, method: string, body?: object) => {
+    setResult(null)
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      })
+      const data = await response.json()
+      setResult({ success: data.success, message: data.message || data.error })
+      if (data.success) {
+        loadUsers()
+      }
+      return data.success as boolean
+    } catch (error) {
+      setResult({
+        success: false,
+        message: error instanceof Error ? error.message : 'Request failed',
+      })
+      return false
+    }
+  }
+
+  const createUser = async () => {
+    setSaving(true)
+    if (await request('/api/auth/users', 'POST', form)) {
+      setForm(EMPTY_FORM)
+    }
+    setSaving(false)
+  }
+
+  const changeRole = (user: PublicLocalUser, role: Role) =>
+    request(`/api/auth/users/${encodeURIComponent(user.username)}`, 'PUT', { role })
+
+  const resetPassword = (user: PublicLocalUser) => {
+    const password = prompt(`New password for ${user.username}`)
+    if (password) {
+      request(`/api/auth/users/${encodeURIComponent(user.username)}`, 'PUT', { password })
+    }
+  }
+
+  const deleteUser = (user: PublicLocalUser) => {
+    if (confirm(`Delete the user "${user.username}"?`)) {
+      request(`/api/auth/users/${encodeURIComponent(user.username)}`, 'DELETE')
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6">
+      <h2 className="text-xl font-semibold mb-2">Users</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Viewers can read the chart, editors can also change it, and admins can also configure data sources,
+        projects and users.
+      </p>
+      <ul className="divide-y">
+        {users.map((user) => (
+          <li key={user.username} className="flex items-center justify-between py-3">
+            <div>
+              <div className="font-medium">
+                {user.name}
+                {`local:${user.username}` === currentUserId && (
+                  <span className="ml-2 px-2 py-0.5 text-xs bg-blue-100 text-blue-800 rounded">You</span>
+                )}
+              </div>
+              <div className="text-xs text-gray-500 mt-1">
+                {user.username}
+                {user.email && ` · ${user.email}`}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <select
+                value={user.role}
+                onChange={(e) => changeRole(user, e.target.value as Role)}
+                className="px-3 py-1.5 text-sm border border-gray-300 rounded-md"
+              >
+                {ROLES.map((role) => (
+                  <option key={role} value={role}>
+                    {role}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => resetPassword(user)}
+                className="px-4 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Set Password
+              </button>
+              <button
+                onClick={() => deleteUser(user)}
+                className="px-4 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Delete
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <div className="grid grid-cols-4 gap-4 mt-4">
+        <input
+          type="text"
+          placeholder="Username"
+          value={form.username}
+          onChange={(e) => setForm({ ...form, username: e.target.value })}
+          className="px-3 py-2 border border-gray-300 rounded-md"
+        />
+        <input
+          type="text"
+          placeholder="Display name"
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          className="px-3 py-2 border border-gray-300 rounded-md"
+        />
+        <input
+          type="password"
+          placeholder="Password"
+          value={form.password}
+          onChange={(e) => setForm({ ...form, password: e.target.value })}
+          className="px-3 py-2 border border-gray-300 rounded-md"
+        />
+        <select
+          value={form.role}
+          onChange={(e) => setForm({ ...form, role: e.target.value as Role })}
+          className="px-3 py-2 border border-gray-300 rounded-md"
+        >
+          {ROLES.map((role) => (
+            <option key={role} value={role}>
+              {role}
+            </option>
+          ))}
+        </select>
+      </div>
+      <button
+        onClick={createUser}
+        disabled={saving || !form.username.trim() || !form.password}
+        className="mt-4 px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+      >
+        {saving ? 'Adding...' : 'Add User'}
+      </button>
+
+      {result && (
+        <div
+          className={`mt-4 p-4 rounded-md ${
+            result.success ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}
+        >
+          <div className="font-medium">
+            {result.success ? '✓ Success' : '✗ Failed'}
+          </div>
+          <div className="text-sm mt-1">{result.message}</div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,264 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { X, Save, CalendarDays, Plus, Trash2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { WorkCalendar, CalendarHoliday, ResourceCalendarException } from '@/types/task'
+
+interface WorkCalendarDialogProps {
+  calendar: WorkCalendar
+  onSave: (calendar: WorkCalendar) => Promise<void>
+  onClose: () => void
+}
+
+const WEEKDAYS = [
+  { day: 1, label: 'Mon' },
+  { day: 2, label: 'Tue' },
+  { day: 3, label: 'Wed' },
+  { day: 4, label: 'Thu' },
+  { day: 5, label: 'Fri' },
+  { day: 6, label: 'Sat' },
+  { day: 0, label: 'Sun' },
+]
+
+export function WorkCalendarDialog({ calendar, onSave, onClose }: WorkCalendarDialogProps) {
+  const [mounted, setMounted] = useState(false)
+  const [workingDays, setWorkingDays] = useState<number[]>(calendar.workingDays)
+  const [holidays, setHolidays] = useState<CalendarHoliday[]>(calendar.holidays)
+  const [exceptions, setExceptions] = useState<ResourceCalendarException[]>(calendar.resourceExceptions)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setMounted(true)
+  }, [])
+
+  const toggleDay = (day: number) => {
+    setWorkingDays((prev) => (prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day]))
+  }
+
+  const handleSave = async () => {
+    if (holidays.some((holiday) => !holiday.date) || exceptions.some((entry) => !entry.date || !entry.resourceId)) {
+      setError('Every holiday needs a date and every exception a date and resource ID')
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      await onSave({ ...calendar, workingDays, holidays, resourceExceptions: exceptions })
+      onClose()
+    } catch (err) {
+      console.error('Failed to save calendar:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save calendar. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose()
+    }
+  }
+
+  if (!mounted) return null
+
+  const inputClass =
+    'px-3 py-2 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary'
+
+  const modal = (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in-0">
+      <div
+        className="relative w-full max-w-2xl m-4 bg-background border rounded-lg shadow-2xl animate-in zoom-in-95"
+        onKeyDown={handleKeyDown}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-2xl font-bold flex items-center gap-2">
+              <CalendarDays className="w-6 h-6" />
+              Working Calendar
+            </h2>
+            <p className="text-sm text-muted-foreground mt-1">
+              Durations, drag &amp; drop and slack count working days only
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-accent rounded-lg transition-colors"
+            aria-label="Close"
+            type="button"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 max-h-[60vh] overflow-y-auto">
+          {/* Working Days */}
+          <div>
+            <label className="text-sm font-medium mb-2 block">Working Days</label>
+            <div className="flex gap-2">
+              {WEEKDAYS.map(({ day, label }) => (
+                <button
+                  key={day}
+                  type="button"
+                  onClick={() => toggleDay(day)}
+                  className={cn(
+                    'px-3 py-1.5 text-sm rounded-md border transition-colors',
+                    workingDays.includes(day) ? 'bg-primary text-primary-foreground' : 'hover:bg-accent'
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Holidays */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium">Holidays</label>
+              <button
+                type="button"
+                onClick={() => setHolidays((prev) => [...prev, { date: '' }])}
+                className="flex items-center gap-1 text-sm px-2 py-1 rounded-md hover:bg-accent"
+              >
+                <Plus className="w-4 h-4" />
+                Add Holiday
+              </button>
+            </div>
+            {holidays.length === 0 && <p className="text-sm text-muted-foreground">No holidays</p>}
+            <div className="space-y-2">
+              {holidays.map((holiday, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    type="date"
+                    value={holiday.date}
+                    onChange={(e) =>
+                      setHolidays((prev) => prev.map((h, i) => (i === index ? { ...h, date: e.target.value } : h)))
+                    }
+                    className={inputClass}
+                  />
+                  <input
+                    type="text"
+                    value={holiday.name || ''}
+                    onChange={(e) =>
+                      setHolidays((prev) => prev.map((h, i) => (i === index ? { ...h, name: e.target.value } : h)))
+                    }
+                    className={cn(inputClass, 'flex-1')}
+                    placeholder="Name (optional)"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setHolidays((prev) => prev.filter((_, i) => i !== index))}
+                    className="p-2 hover:bg-accent rounded-md text-red-600"
+                    aria-label="Remove holiday"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Resource Exceptions */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium">Resource Exceptions</label>
+              <button
+                type="button"
+                onClick={() => setExceptions((prev) => [...prev, { resourceId: '', date: '', isWorking: false }])}
+                className="flex items-center gap-1 text-sm px-2 py-1 rounded-md hover:bg-accent"
+              >
+                <Plus className="w-4 h-4" />
+                Add Exception
+              </button>
+            </div>
+            {exceptions.length === 0 && (
+              <p className="text-sm text-muted-foreground">No leave or extra working days</p>
+            )}
+            <div className="space-y-2">
+              {exceptions.map((exception, index) => {
+                const update = (changes: Partial<ResourceCalendarException>) =>
+                  setExceptions((prev) => prev.map((e, i) => (i === index ? { ...e, ...changes } : e)))
+
+                return (
+                  <div key={index} className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={exception.resourceId}
+                      onChange={(e) => update({ resourceId: e.target.value })}
+                      className={cn(inputClass, 'w-32')}
+                      placeholder="Resource ID"
+                    />
+                    <input
+                      type="date"
+                      value={exception.date}
+                      onChange={(e) => update({ date: e.target.value })}
+                      className={inputClass}
+                    />
+                    <select
+                      value={exception.isWorking ? 'working' : 'off'}
+                      onChange={(e) => update({ isWorking: e.target.value === 'working' })}
+                      className={inputClass}
+                    >
+                      <option value="off">Day off</option>
+                      <option value="working">Working</option>
+                    </select>
+                    <input
+                      type="text"
+                      value={exception.name || ''}
+                      onChange={(e) => update({ name: e.target.value })}
+                      className={cn(inputClass, 'flex-1')}
+                      placeholder="Note"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setExceptions((prev) => prev.filter((_, i) => i !== index))}
+                      className="p-2 hover:bg-accent rounded-md text-red-600"
+                      aria-label="Remove exception"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+        </div>
+
+        {/* Buttons */}
+        <div className="flex items-center justify-end gap-3 p-6 border-t">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border rounded-lg hover:bg-accent transition-colors"
+            disabled={isSaving}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving}
+            className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save className={cn('w-4 h-4', isSaving && 'animate-pulse')} />
+            {isSaving ? 'Saving...' : 'Save Calendar'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+
+  return createPortal(modal, document.body)
+}
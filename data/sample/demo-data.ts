@@ -1,4 +1,4 @@
-import { Task, TaskStatus } from "@/types/task"
+import { Task, TaskStatus, TaskDependency, Resource, ResourceAllocation } from "@/types/task"
 
 /**
  * Sample demo data for testing the Gantt chart without Baserow
@@ -174,3 +174,32 @@ export const DEMO_TASKS: Task[] = [
     progress: 10,
   },
 ]
+
+export const DEMO_DEPENDENCIES: TaskDependency[] = [
+  { id: "dep_1", predecessorId: "1", successorId: "2", type: "finish-to-start" },
+  { id: "dep_2", predecessorId: "3", successorId: "4", type: "start-to-start", lag: 5 },
+  { id: "dep_3", predecessorId: "4", successorId: "7", type: "finish-to-start", lag: 3 },
+  { id: "dep_4", predecessorId: "7", successorId: "10", type: "finish-to-start" },
+  { id: "dep_5", predecessorId: "10", successorId: "11", type: "finish-to-start" },
+]
+
+export const DEMO_RESOURCES: Resource[] = [
+  { id: "res_1", name: "Alice Johnson", email: "alice@example.com", role: "Tech Lead", availability: 100, color: "#8b5cf6" },
+  { id: "res_2", name: "Bob Smith", email: "bob@example.com", role: "Frontend Developer", availability: 100, color: "#0ea5e9" },
+  { id: "res_3", name: "Charlie Brown", email: "charlie@example.com", role: "Backend Developer", availability: 80, color: "#f97316" },
+]
+
+export const DEMO_ALLOCATIONS: ResourceAllocation[] = [
+  { id: "alloc_1", taskId: "1", resourceId: "res_1", allocation: 100 },
+  { id: "alloc_2", taskId: "2", resourceId: "res_2", allocation: 100 },
+  { id: "alloc_3", taskId: "3", resourceId: "res_1", allocation: 50 },
+  { id: "alloc_4", taskId: "3", resourceId: "res_3", allocation: 50 },
+  { id: "alloc_5", taskId: "4", resourceId: "res_3", allocation: 100 },
+  { id: "alloc_6", taskId: "5", resourceId: "res_2", allocation: 100 },
+  { id: "alloc_7", taskId: "6", resourceId: "res_1", allocation: 75 },
+  { id: "alloc_8", taskId: "7", resourceId: "res_3", allocation: 100 },
+  { id: "alloc_9", taskId: "8", resourceId: "res_2", allocation: 100 },
+  { id: "alloc_10", taskId: "9", resourceId: "res_1", allocation: 50 },
+  { id: "alloc_11", taskId: "10", resourceId: "res_3", allocation: 100 },
+  { id: "alloc_12", taskId: "11", resourceId: "res_1", allocation: 100 },
+]
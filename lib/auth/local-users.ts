@@ -0,0 +1,163 @@
+/**
+ * Local username/password accounts
+ *
+ * Users are kept in .gantt-config/users.json with scrypt password hashes.
+ * While there are none, AUTH_ADMIN_USERNAME and AUTH_ADMIN_PASSWORD sign in
+ * as the first admin, who is then saved.
+ *
+ * IMPORTANT: This module should only be imported server-side
+ */
+
+import 'server-only'
+
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto'
+import { loadUsers, saveUsers } from '@/lib/config-storage'
+import { isRole, Role, SessionUser } from './roles'
+
+export interface LocalUser {
+  username: string
+  name: string
+  email?: string
+  role: Role
+  passwordHash: string // "scrypt:<salt>:<hash>", base64
+  createdAt: string
+  updatedAt: string
+}
+
+// As returned by the API
+export type PublicLocalUser = Omit<LocalUser, 'passwordHash'>
+
+export interface LocalUserInput {
+  username: string
+  name?: string
+  email?: string
+  role?: Role
+  password?: string
+}
+
+const MIN_PASSWORD_LENGTH = 8
+
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16)
+  const hash = scryptSync(password, salt, 64)
+  return `scrypt:${salt.toString('base64')}:${hash.toString('base64')}`
+}
+
+export function verifyPassword(password: string, passwordHash: string): boolean {
+  const [scheme, salt, hash] = passwordHash.split(':')
+  if (scheme !== 'scrypt' || !salt || !hash) return false
+  const expected = Buffer.from(hash, 'base64')
+  const actual = scryptSync(password, Buffer.from(salt, 'base64'), expected.length)
+  return timingSafeEqual(actual, expected)
+}
+
+export function toPublicUser(user: LocalUser): PublicLocalUser {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { passwordHash, ...rest } = user
+  return rest
+}
+
+export function toSessionUser(user: LocalUser): SessionUser {
+  return {
+    id: `local:${user.username}`,
+    name: user.name,
+    email: user.email,
+    role: user.role,
+    provider: 'local',
+  }
+}
+
+/**
+ * Parse the body of a user create or update request
+ * Body: { username, name?, email?, role?, password? }
+ */
+export function parseLocalUserInput(body: Record<string, unknown>): LocalUserInput {
+  if (typeof body.username !== 'string') {
+    throw new Error('Username is required')
+  }
+  for (const field of ['name', 'email', 'password']) {
+    if (body[field] !== undefined && body[field] !== null && typeof body[field] !== 'string') {
+      throw new Error(`User ${field} must be a string`)
+    }
+  }
+  if (body.role !== undefined && !isRole(body.role)) {
+    throw new Error('User role must be viewer, editor or admin')
+  }
+  return {
+    username: body.username.trim(),
+    name: typeof body.name === 'string' && body.name.trim() ? body.name.trim() : undefined,
+    email: typeof body.email === 'string' && body.email.trim() ? body.email.trim() : undefined,
+    role: body.role as Role | undefined,
+    password: typeof body.password === 'string' && body.password ? body.password : undefined,
+  }
+}
+
+/**
+ * Check a new or changed user
+ * Returns an error message, or null if the data is valid
+ */
+export function validateLocalUser(existing: LocalUser[], data: LocalUserInput, isNew: boolean): string | null {
+  if (!/^[a-z0-9._-]{1,64}$/i.test(data.username)) {
+    return 'Username may only contain letters, digits, dots, dashes and underscores'
+  }
+  if (isNew && existing.some((user) => user.username.toLowerCase() === data.username.toLowerCase())) {
+    return `User "${data.username}" already exists`
+  }
+  if (isNew && !data.password) {
+    return 'Password is required'
+  }
+  if (data.password !== undefined && data.password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+  }
+  return null
+}
+
+/**
+ * Check a username and password
+ * Returns the user, or null when they don't match.
+ */
+export async function authenticateLocalUser(username: string, password: string): Promise<LocalUser | null> {
+  const users = await loadUsers()
+
+  if (users.length === 0) {
+    return bootstrapAdmin(username, password)
+  }
+
+  const user = users.find((entry) => entry.username.toLowerCase() === username.toLowerCase())
+  if (!user) {
+    // Spend the same time as a wrong password, so usernames can't be probed
+    verifyPassword(password, hashPassword('not a user'))
+    return null
+  }
+  return verifyPassword(password, user.passwordHash) ? user : null
+}
+
+async function bootstrapAdmin(username: string, password: string): Promise<LocalUser | null> {
+  const adminUsername = process.env.AUTH_ADMIN_USERNAME
+  const adminPassword = process.env.AUTH_ADMIN_PASSWORD
+  if (!adminUsername || !adminPassword || username !== adminUsername) return null
+
+  const expected = Buffer.from(adminPassword)
+  const actual = Buffer.from(password)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null
+
+  const now = new Date().toISOString()
+  const admin: LocalUser = {
+    username: adminUsername,
+    name: adminUsername,
+    role: 'admin',
+    passwordHash: hashPassword(adminPassword),
+    createdAt: now,
+    updatedAt: now,
+  }
+  await saveUsers([admin])
+  return admin
+}
+
+/**
+ * Current copy of a signed-in local user, or null if it was deleted
+ */
+export async function findLocalUser(username: string): Promise<LocalUser | null> {
+  const users = await loadUsers()
+  return users.find((user) => user.username.toLowerCase() === username.toLowerCase()) || null
+}
@@ -0,0 +1,218 @@
+/**
+ * OpenID Connect sign-in (authorization code flow with PKCE)
+ *
+ * Configured with OIDC_ISSUER, OIDC_CLIENT_ID and OIDC_CLIENT_SECRET. The
+ * role is read from the OIDC_ROLE_CLAIM claim of the ID token or userinfo
+ * (a role name or a list of them, the highest wins), else OIDC_DEFAULT_ROLE.
+ *
+ * IMPORTANT: This module should only be imported server-side
+ */
+
+import 'server-only'
+
+import { createHash, randomBytes } from 'crypto'
+import { isRole, hasRole, safeReturnTo, Role, SessionUser } from './roles'
+import { signToken, verifyToken } from './session'
+
+export const OIDC_STATE_COOKIE = 'gantt_oidc'
+export const OIDC_STATE_MAX_AGE = 600 // Seconds to complete the sign-in
+
+interface OidcSettings {
+  issuer: string
+  clientId: string
+  clientSecret?: string
+  redirectUri?: string
+  scopes: string
+  roleClaim: string
+  defaultRole: Role
+}
+
+interface OidcMetadata {
+  issuer: string
+  authorization_endpoint: string
+  token_endpoint: string
+  userinfo_endpoint?: string
+}
+
+interface OidcState {
+  state: string
+  nonce: string
+  verifier: string
+  returnTo: string
+}
+
+let cachedMetadata: { issuer: string; metadata: OidcMetadata } | null = null
+
+function getSettings(): OidcSettings {
+  const issuer = process.env.OIDC_ISSUER
+  const clientId = process.env.OIDC_CLIENT_ID
+  if (!issuer || !clientId) {
+    throw new Error('Set OIDC_ISSUER and OIDC_CLIENT_ID to sign in with OpenID Connect')
+  }
+  const defaultRole = process.env.OIDC_DEFAULT_ROLE
+  return {
+    issuer: issuer.replace(/\/$/, ''),
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET,
+    redirectUri: process.env.OIDC_REDIRECT_URI,
+    scopes: process.env.OIDC_SCOPES || 'openid profile email',
+    roleClaim: process.env.OIDC_ROLE_CLAIM || 'roles',
+    defaultRole: isRole(defaultRole) ? defaultRole : 'viewer',
+  }
+}
+
+async function getMetadata(issuer: string): Promise<OidcMetadata> {
+  if (cachedMetadata?.issuer === issuer) {
+    return cachedMetadata.metadata
+  }
+  const response = await fetch(`${issuer}/.well-known/openid-configuration`)
+  if (!response.ok) {
+    throw new Error(`OpenID Connect discovery failed: ${response.status} ${response.statusText}`)
+  }
+  const metadata = (await response.json()) as OidcMetadata
+  cachedMetadata = { issuer, metadata }
+  return metadata
+}
+
+function getRedirectUri(settings: OidcSettings, origin: string): string {
+  return settings.redirectUri || `${origin}/api/auth/oidc/callback`
+}
+
+/**
+ * URL of the identity provider's sign-in page, and the signed state to keep in a cookie until the callback
+ */
+export async function createAuthorizationRequest(
+  origin: string,
+  returnTo: string
+): Promise<{ url: string; stateCookie: string }> {
+  const settings = getSettings()
+  const metadata = await getMetadata(settings.issuer)
+
+  const state: OidcState = {
+    state: randomBytes(16).toString('base64url'),
+    nonce: randomBytes(16).toString('base64url'),
+    verifier: randomBytes(32).toString('base64url'),
+    returnTo: safeReturnTo(returnTo),
+  }
+
+  const url = new URL(metadata.authorization_endpoint)
+  url.searchParams.set('response_type', 'code')
+  url.searchParams.set('client_id', settings.clientId)
+  url.searchParams.set('redirect_uri', getRedirectUri(settings, origin))
+  url.searchParams.set('scope', settings.scopes)
+  url.searchParams.set('state', state.state)
+  url.searchParams.set('nonce', state.nonce)
+  url.searchParams.set('code_challenge', createHash('sha256').update(state.verifier).digest('base64url'))
+  url.searchParams.set('code_challenge_method', 'S256')
+
+  return { url: url.toString(), stateCookie: signToken(state, OIDC_STATE_MAX_AGE) }
+}
+
+function decodeJwtPayload(token: string): Record<string, unknown> {
+  const payload = token.split('.')[1]
+  if (!payload) {
+    throw new Error('Malformed ID token')
+  }
+  return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+}
+
+function roleFromClaim(value: unknown, defaultRole: Role): Role {
+  const values = Array.isArray(value) ? value : [value]
+  const roles = values
+    .map((entry) => (typeof entry === 'string' ? entry.toLowerCase() : entry))
+    .filter(isRole)
+  if (roles.length === 0) return defaultRole
+  return roles.reduce((highest, role) => (hasRole(role, highest) ? role : highest))
+}
+
+/**
+ * Finish the sign-in on the callback: check the state, exchange the code and read the user's claims
+ *
+ * The ID token comes straight from the token endpoint over TLS, so its
+ * issuer, audience, nonce and expiry are checked but not its signature.
+ */
+export async function completeAuthorization(
+  origin: string,
+  params: URLSearchParams,
+  stateCookie: string | undefined
+): Promise<{ user: SessionUser; returnTo: string }> {
+  const error = params.get('error')
+  if (error) {
+    throw new Error(params.get('error_description') || error)
+  }
+
+  const saved = verifyToken<OidcState>(stateCookie)
+  if (!saved || saved.state !== params.get('state')) {
+    throw new Error('The sign-in expired or was started in another browser; please try again')
+  }
+  const code = params.get('code')
+  if (!code) {
+    throw new Error('The identity provider did not return an authorization code')
+  }
+
+  const settings = getSettings()
+  const metadata = await getMetadata(settings.issuer)
+
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: getRedirectUri(settings, origin),
+    client_id: settings.clientId,
+    code_verifier: saved.verifier,
+  })
+  if (settings.clientSecret) {
+    body.set('client_secret', settings.clientSecret)
+  }
+
+  const tokenResponse = await fetch(metadata.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body,
+  })
+  if (!tokenResponse.ok) {
+    throw new Error(`Token request failed: ${tokenResponse.status} ${await tokenResponse.text()}`)
+  }
+  const tokens = (await tokenResponse.json()) as { id_token?: string; access_token?: string }
+  if (!tokens.id_token) {
+    throw new Error('The identity provider did not return an ID token')
+  }
+
+  const claims = decodeJwtPayload(tokens.id_token)
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+  if (claims.iss !== metadata.issuer || !audience.includes(settings.clientId)) {
+    throw new Error('The ID token was not issued for this application')
+  }
+  if (claims.nonce !== saved.nonce) {
+    throw new Error('The ID token does not match this sign-in')
+  }
+  if (typeof claims.exp !== 'number' || claims.exp * 1000 < Date.now()) {
+    throw new Error('The ID token has expired')
+  }
+
+  if (metadata.userinfo_endpoint && tokens.access_token) {
+    const userinfoResponse = await fetch(metadata.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${tokens.access_token}` },
+    })
+    if (userinfoResponse.ok) {
+      const userinfo = (await userinfoResponse.json()) as Record<string, unknown>
+      // The subject must stay the one of the ID token
+      if (userinfo.sub === claims.sub) {
+        Object.assign(claims, userinfo)
+      }
+    }
+  }
+
+  const text = (value: unknown) => (typeof value === 'string' && value ? value : undefined)
+  const subject = String(claims.sub)
+
+  return {
+    user: {
+      id: `oidc:${subject}`,
+      name: text(claims.name) || text(claims.preferred_username) || text(claims.email) || subject,
+      email: text(claims.email),
+      role: roleFromClaim(claims[settings.roleClaim], settings.defaultRole),
+      provider: 'oidc',
+    },
+    returnTo: saved.returnTo,
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Roles and the signed-in user, shared by the server and the browser
+ *
+ * viewer: read tasks and everything shown with them
+ * editor: also change tasks, statuses, dependencies, resources, the calendar,
+ *         baselines and comments, and import projects
+ * admin:  also configure data providers, projects and users
+ */
+
+export type Role = 'viewer' | 'editor' | 'admin'
+
+export const ROLES: Role[] = ['viewer', 'editor', 'admin']
+
+export type AuthProviderType = 'local' | 'oidc'
+
+export interface SessionUser {
+  id: string // "local:<username>" or "oidc:<subject>"
+  name: string
+  email?: string
+  role: Role
+  provider: AuthProviderType
+}
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role)
+}
+
+/**
+ * Whether a role includes the permissions of another; roles are ordered
+ */
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required)
+}
+
+/**
+ * Only paths of this app are returned to after signing in
+ */
+export function safeReturnTo(value: string | null | undefined): string {
+  return value && value.startsWith('/') && !value.startsWith('//') && !value.startsWith('/\\') ? value : '/gantt'
+}
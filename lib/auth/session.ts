@@ -0,0 +1,199 @@
+/**
+ * Sessions and role checks for the API routes
+ *
+ * Authentication is off unless AUTH_PROVIDERS lists "local", "oidc" or both;
+ * then every route handler calls authorize() with the role it needs. The
+ * session is a signed cookie (HMAC-SHA256 with AUTH_SECRET). Local users can
+ * also send HTTP Basic credentials, e.g. to subscribe to /api/calendar.ics.
+ *
+ * IMPORTANT: This module should only be imported server-side
+ */
+
+import 'server-only'
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { NextResponse } from 'next/server'
+import { hasRole, AuthProviderType, Role, SessionUser } from './roles'
+import { authenticateLocalUser, findLocalUser, toSessionUser } from './local-users'
+import { loadAccessRules } from '@/lib/config-storage'
+import { resolveTaskAccess, type TaskAccess } from '@/lib/providers/access-control'
+
+export const SESSION_COOKIE = 'gantt_session'
+
+const DEFAULT_SESSION_HOURS = 12
+
+export interface AuthStatus {
+  enabled: boolean
+  providers: AuthProviderType[]
+}
+
+/**
+ * Sign-in methods from AUTH_PROVIDERS; empty when authentication is off
+ */
+export function getAuthProviders(): AuthProviderType[] {
+  return (process.env.AUTH_PROVIDERS || '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter((entry): entry is AuthProviderType => entry === 'local' || entry === 'oidc')
+}
+
+export function getAuthStatus(): AuthStatus {
+  const providers = getAuthProviders()
+  return { enabled: providers.length > 0, providers }
+}
+
+function getSecret(): string {
+  const secret = process.env.AUTH_SECRET
+  if (!secret || secret.length < 32) {
+    throw new Error('Set AUTH_SECRET to a random string of at least 32 characters to enable authentication')
+  }
+  return secret
+}
+
+function sign(data: string): string {
+  return createHmac('sha256', getSecret()).update(data).digest('base64url')
+}
+
+/**
+ * Sign a payload as "<base64url JSON>.<signature>", valid for maxAge seconds
+ */
+export function signToken(payload: object, maxAge: number): string {
+  const data = Buffer.from(JSON.stringify({ ...payload, exp: Date.now() + maxAge * 1000 })).toString('base64url')
+  return `${data}.${sign(data)}`
+}
+
+/**
+ * Payload of a token written by signToken, or null if it was changed or has expired
+ */
+export function verifyToken<T>(token: string | undefined): T | null {
+  if (!token) return null
+  const [data, signature] = token.split('.')
+  if (!data || !signature) return null
+
+  const expected = Buffer.from(sign(data))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf8'))
+    return typeof payload.exp === 'number' && payload.exp > Date.now() ? (payload as T) : null
+  } catch {
+    return null
+  }
+}
+
+export function getSessionMaxAge(): number {
+  const hours = Number(process.env.AUTH_SESSION_HOURS)
+  return Math.round((hours > 0 ? hours : DEFAULT_SESSION_HOURS) * 3600)
+}
+
+/**
+ * Start a session for a user on the response
+ */
+export function setSessionCookie(response: NextResponse, user: SessionUser): void {
+  const maxAge = getSessionMaxAge()
+  response.cookies.set(SESSION_COOKIE, signToken({ user }, maxAge), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge,
+  })
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', { path: '/', maxAge: 0 })
+}
+
+/**
+ * The signed-in user of the current request, or null
+ *
+ * Local users are looked up again, so role changes and deleted accounts apply
+ * to existing sessions; OIDC users keep the role they signed in with.
+ */
+export async function getSessionUser(): Promise<SessionUser | null> {
+  const providers = getAuthProviders()
+  if (providers.length === 0) return null
+
+  const { cookies, headers } = await import('next/headers')
+
+  const session = verifyToken<{ user: SessionUser }>((await cookies()).get(SESSION_COOKIE)?.value)
+  if (session?.user) {
+    if (session.user.provider === 'oidc') {
+      return providers.includes('oidc') ? session.user : null
+    }
+    if (!providers.includes('local')) return null
+    const user = await findLocalUser(session.user.id.replace(/^local:/, ''))
+    return user ? toSessionUser(user) : null
+  }
+
+  const authorization = (await headers()).get('authorization')
+  if (providers.includes('local') && authorization?.startsWith('Basic ')) {
+    const decoded = Buffer.from(authorization.slice(6), 'base64').toString('utf8')
+    const separator = decoded.indexOf(':')
+    if (separator > 0) {
+      const user = await authenticateLocalUser(decoded.slice(0, separator), decoded.slice(separator + 1))
+      return user ? toSessionUser(user) : null
+    }
+  }
+
+  return null
+}
+
+export type AuthResult =
+  | { user: SessionUser | null; response?: undefined }
+  | { user?: undefined; response: NextResponse }
+
+/**
+ * Check that the request is signed in with at least the given role
+ *
+ * Returns the user (null when authentication is off), or the 401/403
+ * response to send back:
+ *
+ *   const auth = await authorize('editor')
+ *   if (auth.response) return auth.response
+ */
+export async function authorize(required: Role): Promise<AuthResult> {
+  if (!getAuthStatus().enabled) {
+    return { user: null }
+  }
+
+  const user = await getSessionUser()
+  if (!user) {
+    return {
+      response: NextResponse.json(
+        {
+          success: false,
+          error: 'Unauthorized',
+          message: 'Sign in to continue',
+        },
+        { status: 401 }
+      ),
+    }
+  }
+
+  if (!hasRole(user.role, required)) {
+    return {
+      response: NextResponse.json(
+        {
+          success: false,
+          error: 'Forbidden',
+          message: `Requires the ${required} role`,
+        },
+        { status: 403 }
+      ),
+    }
+  }
+
+  return { user }
+}
+
+/**
+ * The access rules of a project (the current request's when not given) that
+ * apply to the signed-in user; null when nobody is signed in or no rule applies
+ */
+export async function getTaskAccess(projectId?: string | null): Promise<TaskAccess | null> {
+  const user = await getSessionUser()
+  if (!user) return null
+  return resolveTaskAccess(await loadAccessRules(projectId), user)
+}
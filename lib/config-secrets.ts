@@ -0,0 +1,60 @@
+/**
+ * Encryption of secrets in saved configuration
+ *
+ * Tokens, passwords and connection URIs of configuration profiles are stored
+ * encrypted with AES-256-GCM. The key is derived from GANTT_CONFIG_SECRET.
+ *
+ * IMPORTANT: This module should only be imported server-side
+ */
+
+import 'server-only'
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto'
+
+const PREFIX = 'enc:v1:'
+const KEY_SALT = 'gantt-config-profiles'
+
+let cachedKey: { secret: string; key: Buffer } | null = null
+
+function getKey(): Buffer {
+  const secret = process.env.GANTT_CONFIG_SECRET
+  if (!secret) {
+    throw new Error('Set GANTT_CONFIG_SECRET to store connection secrets in configuration profiles')
+  }
+  if (cachedKey?.secret !== secret) {
+    cachedKey = { secret, key: scryptSync(secret, KEY_SALT, 32) }
+  }
+  return cachedKey.key
+}
+
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(PREFIX)
+}
+
+/**
+ * Encrypt a secret as "enc:v1:<iv>:<tag>:<ciphertext>" (base64 parts)
+ */
+export function encryptSecret(value: string): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', getKey(), iv)
+  const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()])
+  return `${PREFIX}${iv.toString('base64')}:${cipher.getAuthTag().toString('base64')}:${encrypted.toString('base64')}`
+}
+
+/**
+ * Decrypt a secret written by encryptSecret
+ * Fails when GANTT_CONFIG_SECRET is missing or differs from the one it was encrypted with.
+ */
+export function decryptSecret(value: string): string {
+  if (!isEncryptedSecret(value)) return value
+
+  const [iv, tag, encrypted] = value.slice(PREFIX.length).split(':')
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', getKey(), Buffer.from(iv, 'base64'))
+    decipher.setAuthTag(Buffer.from(tag, 'base64'))
+    return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64')), decipher.final()]).toString('utf8')
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Set GANTT_CONFIG_SECRET')) throw error
+    throw new Error('Could not decrypt a saved secret; GANTT_CONFIG_SECRET has changed since it was saved')
+  }
+}
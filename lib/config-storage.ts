@@ -12,9 +12,28 @@ import 'server-only'
 import { promises as fs } from 'fs'
 import path from 'path'
 import type { BaserowFieldMapping } from './providers/baserow/field-mapping'
+import type { ProviderConfig } from './providers/data-provider.interface'
+import { mapProviderSecrets, type ConfigProfile, type ConfigProfileInput } from './providers/provider-config'
+import { decryptSecret, encryptSecret } from './config-secrets'
+import type { Baseline, Project } from '@/types/task'
+import type { MigrationState } from './providers/migration'
+import type { LocalUser } from './auth/local-users'
+import type { AccessRule } from './providers/access-control'
+import type { ChangeHistoryRow } from './providers/history'
+import { reviveBaseline } from './utils/baselines'
+import { getRequestProjectId } from './providers/projects'
 
 const CONFIG_DIR = path.join(process.cwd(), '.gantt-config')
 const FIELD_MAPPING_FILE = path.join(CONFIG_DIR, 'field-mappings.json')
+const PROVIDER_CONFIG_FILE = path.join(CONFIG_DIR, 'provider-config.json') // Before profiles
+const PROFILES_FILE = path.join(CONFIG_DIR, 'profiles.json')
+const BASELINES_FILE = path.join(CONFIG_DIR, 'baselines.json')
+const MIGRATIONS_FILE = path.join(CONFIG_DIR, 'migrations.json')
+const PROJECTS_FILE = path.join(CONFIG_DIR, 'projects.json')
+const PROJECTS_DIR = path.join(CONFIG_DIR, 'projects') // Files of each project, e.g. its baselines
+const USERS_FILE = path.join(CONFIG_DIR, 'users.json')
+const ACCESS_RULES_FILE = path.join(CONFIG_DIR, 'access-rules.json')
+const CHANGE_HISTORY_FILE = path.join(CONFIG_DIR, 'change-history.json')
 
 /**
  * Ensure config directory exists
@@ -30,10 +49,144 @@ async function ensureConfigDir() {
   }
 }
 
+interface ProfilesFile {
+  activeProfileId: string | null
+  profiles: ConfigProfile[] // Secrets encrypted
+}
+
+async function readProfilesFile(): Promise<ProfilesFile> {
+  try {
+    const data = await fs.readFile(PROFILES_FILE, 'utf-8')
+    return JSON.parse(data) as ProfilesFile
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { activeProfileId: null, profiles: [] }
+    }
+    throw error
+  }
+}
+
+async function writeProfilesFile(data: ProfilesFile): Promise<void> {
+  await ensureConfigDir()
+  await fs.writeFile(
+    PROFILES_FILE,
+    JSON.stringify(data, null, 2),
+    'utf-8'
+  )
+}
+
+async function removeFile(file: string): Promise<void> {
+  try {
+    await fs.unlink(file)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error
+    }
+  }
+}
+
+function decryptProfile(profile: ConfigProfile): ConfigProfile {
+  return { ...profile, config: mapProviderSecrets(profile.config, decryptSecret) }
+}
+
+/**
+ * Load all configuration profiles and the id of the active one
+ * Secrets stay encrypted; use loadProfile to read a profile's connection settings.
+ */
+export async function loadProfiles(): Promise<ProfilesFile> {
+  return readProfilesFile()
+}
+
+/**
+ * Load one configuration profile with its secrets decrypted
+ */
+export async function loadProfile(id: string): Promise<ConfigProfile | null> {
+  const { profiles } = await readProfilesFile()
+  const profile = profiles.find((entry) => entry.id === id)
+  return profile ? decryptProfile(profile) : null
+}
+
+/**
+ * Create a profile, or replace the one with the given id
+ * Secrets are encrypted before they are written.
+ */
+export async function saveProfile(input: ConfigProfileInput, id?: string): Promise<ConfigProfile> {
+  const data = await readProfilesFile()
+  const existing = id ? data.profiles.find((entry) => entry.id === id) : undefined
+  if (id && !existing) {
+    throw new Error(`Profile ${id} not found`)
+  }
+  if (data.profiles.some((entry) => entry.id !== id && entry.name.toLowerCase() === input.name.toLowerCase())) {
+    throw new Error(`A profile named "${input.name}" already exists`)
+  }
+
+  const now = new Date().toISOString()
+  const profile: ConfigProfile = {
+    id: existing?.id || `profile_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name: input.name,
+    config: input.config,
+    fieldMapping: input.fieldMapping,
+    defaultView: input.defaultView,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+  }
+
+  const stored = { ...profile, config: mapProviderSecrets(profile.config, encryptSecret) }
+  await writeProfilesFile({
+    ...data,
+    profiles: existing
+      ? data.profiles.map((entry) => (entry.id === profile.id ? stored : entry))
+      : [...data.profiles, stored],
+  })
+  return profile
+}
+
+/**
+ * Delete a profile; the active profile can't be deleted
+ */
+export async function deleteProfile(id: string): Promise<void> {
+  const data = await readProfilesFile()
+  if (!data.profiles.some((entry) => entry.id === id)) {
+    throw new Error(`Profile ${id} not found`)
+  }
+  if (data.activeProfileId === id) {
+    throw new Error('The active profile cannot be deleted; activate another one first')
+  }
+  await writeProfilesFile({ ...data, profiles: data.profiles.filter((entry) => entry.id !== id) })
+}
+
+/**
+ * Make a profile the active configuration, or fall back to environment
+ * variables with null. Removes the single configuration file of earlier
+ * versions, which held its secrets in plain text.
+ */
+export async function setActiveProfile(id: string | null): Promise<void> {
+  const data = await readProfilesFile()
+  if (id && !data.profiles.some((entry) => entry.id === id)) {
+    throw new Error(`Profile ${id} not found`)
+  }
+  await writeProfilesFile({ ...data, activeProfileId: id })
+  await removeFile(PROVIDER_CONFIG_FILE)
+}
+
 /**
- * Save field mappings to file
+ * Load the active profile with its secrets decrypted
+ */
+export async function loadActiveProfile(): Promise<ConfigProfile | null> {
+  const { activeProfileId } = await readProfilesFile()
+  return activeProfileId ? loadProfile(activeProfileId) : null
+}
+
+/**
+ * Save field mappings to the active profile, or to the shared file without one
  */
 export async function saveFieldMapping(mapping: BaserowFieldMapping): Promise<void> {
+  const active = await loadActiveProfile()
+  if (active) {
+    await saveProfile({ ...active, fieldMapping: mapping }, active.id)
+    return
+  }
+
   await ensureConfigDir()
   await fs.writeFile(
     FIELD_MAPPING_FILE,
@@ -43,9 +196,14 @@ export async function saveFieldMapping(mapping: BaserowFieldMapping): Promise<vo
 }
 
 /**
- * Load field mappings from file
+ * Load the field mappings of the active profile, or the shared ones
  */
 export async function loadFieldMapping(): Promise<BaserowFieldMapping | null> {
+  const active = await loadActiveProfile()
+  if (active?.fieldMapping) {
+    return active.fieldMapping
+  }
+
   try {
     const data = await fs.readFile(FIELD_MAPPING_FILE, 'utf-8')
     return JSON.parse(data) as BaserowFieldMapping
@@ -69,3 +227,237 @@ export async function hasFieldMapping(): Promise<boolean> {
     return false
   }
 }
+
+/**
+ * Load the active provider configuration: the active profile, or the
+ * configuration file of earlier versions
+ */
+export async function loadProviderConfig(): Promise<ProviderConfig | null> {
+  const active = await loadActiveProfile()
+  if (active) {
+    return active.config
+  }
+
+  try {
+    const data = await fs.readFile(PROVIDER_CONFIG_FILE, 'utf-8')
+    return JSON.parse(data) as ProviderConfig
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null
+    }
+    throw error
+  }
+}
+
+/**
+ * Deactivate the saved configuration, falling back to env vars
+ * The profiles are kept.
+ */
+export async function clearProviderConfig(): Promise<void> {
+  await setActiveProfile(null)
+}
+
+/**
+ * Save all projects to file
+ */
+export async function saveProjects(projects: Project[]): Promise<void> {
+  await ensureConfigDir()
+  await fs.writeFile(
+    PROJECTS_FILE,
+    JSON.stringify(projects, null, 2),
+    'utf-8'
+  )
+}
+
+/**
+ * Load projects from file
+ */
+export async function loadProjects(): Promise<Project[]> {
+  try {
+    const data = await fs.readFile(PROJECTS_FILE, 'utf-8')
+    return JSON.parse(data) as Project[]
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return []
+    }
+    throw error
+  }
+}
+
+/**
+ * Remove the files kept for a project (its baselines, access rules and change history)
+ */
+export async function deleteProjectFiles(projectId: string): Promise<void> {
+  await fs.rm(path.join(PROJECTS_DIR, projectId), { recursive: true, force: true })
+}
+
+/**
+ * File of a project (the current request's when not given); the shared file for the default project
+ */
+async function getProjectFile(file: string, project?: string | null): Promise<string> {
+  const projectId = project === undefined ? await getRequestProjectId() : project
+  if (!projectId) {
+    return file
+  }
+  // Only ids of saved projects make it into a path
+  if (!(await loadProjects()).some((project) => project.id === projectId)) {
+    throw new Error(`Project ${projectId} not found`)
+  }
+  return path.join(PROJECTS_DIR, projectId, path.basename(file))
+}
+
+/**
+ * Save all baselines of the current project to file
+ */
+export async function saveBaselines(baselines: Baseline[]): Promise<void> {
+  const file = await getProjectFile(BASELINES_FILE)
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  await fs.writeFile(
+    file,
+    JSON.stringify(baselines, null, 2),
+    'utf-8'
+  )
+}
+
+/**
+ * Load the baselines of the current project from file (dates are revived)
+ */
+export async function loadBaselines(): Promise<Baseline[]> {
+  try {
+    const data = await fs.readFile(await getProjectFile(BASELINES_FILE), 'utf-8')
+    return (JSON.parse(data) as Baseline[]).map(reviveBaseline)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return []
+    }
+    throw error
+  }
+}
+
+/**
+ * Save the access rules of a project (the current one when not given) to file
+ */
+export async function saveAccessRules(rules: AccessRule[], projectId?: string | null): Promise<void> {
+  const file = await getProjectFile(ACCESS_RULES_FILE, projectId)
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  await fs.writeFile(file, JSON.stringify(rules, null, 2), 'utf-8')
+}
+
+/**
+ * Load the access rules of a project (the current one when not given) from file
+ */
+export async function loadAccessRules(projectId?: string | null): Promise<AccessRule[]> {
+  try {
+    const data = await fs.readFile(await getProjectFile(ACCESS_RULES_FILE, projectId), 'utf-8')
+    return JSON.parse(data) as AccessRule[]
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return []
+    }
+    throw error
+  }
+}
+
+async function readChangeHistory(file: string): Promise<ChangeHistoryRow[]> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf-8')) as ChangeHistoryRow[]
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return []
+    }
+    throw error
+  }
+}
+
+/**
+ * Load the change history of the current project from file, one record per change
+ * Kept here for data sources without a place for it (Baserow).
+ */
+export async function loadChangeHistory(): Promise<ChangeHistoryRow[]> {
+  return readChangeHistory(await getProjectFile(CHANGE_HISTORY_FILE))
+}
+
+// Appends are read-modify-write, so they run one at a time
+let changeHistoryWrites: Promise<unknown> = Promise.resolve()
+
+/**
+ * Append the records of a change set to the current project's change history
+ * A change set already in the file is not added again.
+ */
+export async function appendChangeHistory(rows: ChangeHistoryRow[]): Promise<void> {
+  const file = await getProjectFile(CHANGE_HISTORY_FILE)
+  const write = changeHistoryWrites.then(async () => {
+    const existing = await readChangeHistory(file)
+    const changeSetIds = new Set(existing.map((row) => row.changeSetId))
+    const added = rows.filter((row) => !changeSetIds.has(row.changeSetId))
+    if (added.length === 0) return
+
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    await fs.writeFile(file, JSON.stringify([...existing, ...added], null, 2), 'utf-8')
+  })
+  changeHistoryWrites = write.catch(() => {})
+  return write
+}
+
+/**
+ * Load all migration checkpoints, most recent first
+ */
+export async function loadMigrationStates(): Promise<MigrationState[]> {
+  try {
+    const data = await fs.readFile(MIGRATIONS_FILE, 'utf-8')
+    return (JSON.parse(data) as MigrationState[]).sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return []
+    }
+    throw error
+  }
+}
+
+/**
+ * Load one migration checkpoint
+ */
+export async function loadMigrationState(id: string): Promise<MigrationState | null> {
+  const states = await loadMigrationStates()
+  return states.find((state) => state.id === id) || null
+}
+
+/**
+ * Save a migration checkpoint, replacing the earlier copy of it
+ */
+export async function saveMigrationState(state: MigrationState): Promise<void> {
+  await ensureConfigDir()
+  const states = (await loadMigrationStates()).filter((entry) => entry.id !== state.id)
+  await fs.writeFile(
+    MIGRATIONS_FILE,
+    JSON.stringify([state, ...states], null, 2),
+    'utf-8'
+  )
+}
+
+/**
+ * Save all local users to file
+ */
+export async function saveUsers(users: LocalUser[]): Promise<void> {
+  await ensureConfigDir()
+  await fs.writeFile(
+    USERS_FILE,
+    JSON.stringify(users, null, 2),
+    'utf-8'
+  )
+}
+
+/**
+ * Load local users from file
+ */
+export async function loadUsers(): Promise<LocalUser[]> {
+  try {
+    const data = await fs.readFile(USERS_FILE, 'utf-8')
+    return JSON.parse(data) as LocalUser[]
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return []
+    }
+    throw error
+  }
+}
@@ -1,5 +1,6 @@
 'use client'
 
+import { useRef } from 'react'
 import { useHotkeys } from 'react-hotkeys-hook'
 
 export interface KeyboardShortcut {
@@ -25,6 +26,8 @@ export interface UseKeyboardShortcutsOptions {
   onDuplicate?: () => void
   onNewTask?: () => void
   onEditTask?: () => void
+  onIndent?: () => void
+  onOutdent?: () => void
   onToggleDependencies?: () => void
   onToggleCriticalPath?: () => void
   onPanLeft?: () => void
@@ -37,13 +40,17 @@ export interface UseKeyboardShortcutsOptions {
 
 export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {}) {
   const { enabled = true } = options
+  // useHotkeys keeps the first callback it is given, so handlers are read
+  // from the latest render through a ref
+  const latest = useRef(options)
+  latest.current = options
 
   // Navigation and View
   useHotkeys(
     'ctrl+z,cmd+z',
     (e) => {
       e.preventDefault()
-      options.onUndo?.()
+      latest.current.onUndo?.()
     },
     { enabled }
   )
@@ -52,7 +59,7 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
     'ctrl+y,cmd+y,ctrl+shift+z,cmd+shift+z',
     (e) => {
       e.preventDefault()
-      options.onRedo?.()
+      latest.current.onRedo?.()
     },
     { enabled }
   )
@@ -61,7 +68,7 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
     'ctrl+s,cmd+s',
     (e) => {
       e.preventDefault()
-      options.onSave?.()
+      latest.current.onSave?.()
     },
     { enabled }
   )
@@ -70,7 +77,7 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
     'ctrl+f,cmd+f',
     (e) => {
       e.preventDefault()
-      options.onSearch?.()
+      latest.current.onSearch?.()
     },
     { enabled }
   )
@@ -79,7 +86,7 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
     'ctrl+=,cmd+=',
     (e) => {
       e.preventDefault()
-      options.onZoomIn?.()
+      latest.current.onZoomIn?.()
     },
     { enabled }
   )
@@ -88,7 +95,7 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
     'ctrl+-,cmd+-',
     (e) => {
       e.preventDefault()
-      options.onZoomOut?.()
+      latest.current.onZoomOut?.()
     },
     { enabled }
   )
@@ -97,7 +104,7 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
     'ctrl+0,cmd+0',
     (e) => {
       e.preventDefault()
-      options.onFitToScreen?.()
+      latest.current.onFitToScreen?.()
     },
     { enabled }
   )
@@ -106,7 +113,7 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
     'ctrl+m,cmd+m',
     (e) => {
       e.preventDefault()
-      options.onToggleMinimap?.()
+      latest.current.onToggleMinimap?.()
     },
     { enabled }
   )
@@ -116,7 +123,7 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
     'ctrl+a,cmd+a',
     (e) => {
       e.preventDefault()
-      options.onSelectAll?.()
+      latest.current.onSelectAll?.()
     },
     { enabled }
   )
@@ -125,7 +132,7 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
     'ctrl+c,cmd+c',
     (e) => {
       e.preventDefault()
-      options.onCopy?.()
+      latest.current.onCopy?.()
     },
     { enabled }
   )
@@ -134,7 +141,7 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
     'ctrl+v,cmd+v',
     (e) => {
       e.preventDefault()
-      options.onPaste?.()
+      latest.current.onPaste?.()
     },
     { enabled }
   )
@@ -143,7 +150,7 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
     'delete,backspace',
     (e) => {
       e.preventDefault()
-      options.onDelete?.()
+      latest.current.onDelete?.()
     },
     { enabled }
   )
@@ -152,7 +159,7 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
     'ctrl+d,cmd+d',
     (e) => {
       e.preventDefault()
-      options.onDuplicate?.()
+      latest.current.onDuplicate?.()
     },
     { enabled }
   )
@@ -161,7 +168,7 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
     'ctrl+n,cmd+n',
     (e) => {
       e.preventDefault()
-      options.onNewTask?.()
+      latest.current.onNewTask?.()
     },
     { enabled }
   )
@@ -169,7 +176,26 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
   useHotkeys(
     'enter',
     () => {
-      options.onEditTask?.()
+      latest.current.onEditTask?.()
+    },
+    { enabled }
+  )
+
+  // Hierarchy
+  useHotkeys(
+    'alt+shift+right',
+    (e) => {
+      e.preventDefault()
+      latest.current.onIndent?.()
+    },
+    { enabled }
+  )
+
+  useHotkeys(
+    'alt+shift+left',
+    (e) => {
+      e.preventDefault()
+      latest.current.onOutdent?.()
     },
     { enabled }
   )
@@ -179,7 +205,7 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
     'alt+d',
     (e) => {
       e.preventDefault()
-      options.onToggleDependencies?.()
+      latest.current.onToggleDependencies?.()
     },
     { enabled }
   )
@@ -188,7 +214,7 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
     'alt+c',
     (e) => {
       e.preventDefault()
-      options.onToggleCriticalPath?.()
+      latest.current.onToggleCriticalPath?.()
     },
     { enabled }
   )
@@ -200,7 +226,7 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
       const target = e.target as HTMLElement
       if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return
       e.preventDefault()
-      options.onPanLeft?.()
+      latest.current.onPanLeft?.()
     },
     { enabled }
   )
@@ -211,7 +237,7 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
       const target = e.target as HTMLElement
       if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return
       e.preventDefault()
-      options.onPanRight?.()
+      latest.current.onPanRight?.()
     },
     { enabled }
   )
@@ -222,7 +248,7 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
       const target = e.target as HTMLElement
       if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return
       e.preventDefault()
-      options.onPanUp?.()
+      latest.current.onPanUp?.()
     },
     { enabled }
   )
@@ -233,7 +259,7 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
       const target = e.target as HTMLElement
       if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return
       e.preventDefault()
-      options.onPanDown?.()
+      latest.current.onPanDown?.()
     },
     { enabled }
   )
@@ -242,7 +268,7 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
   useHotkeys(
     'escape',
     () => {
-      options.onEscape?.()
+      latest.current.onEscape?.()
     },
     { enabled }
   )
@@ -324,6 +350,16 @@ export const KEYBOARD_SHORTCUTS: KeyboardShortcut[] = [
     description: 'Edit selected task',
     action: () => {},
   },
+  {
+    key: 'Alt+Shift+→',
+    description: 'Indent selected task',
+    action: () => {},
+  },
+  {
+    key: 'Alt+Shift+←',
+    description: 'Outdent selected task',
+    action: () => {},
+  },
   {
     key: 'Alt+D',
     description: 'Toggle dependencies',
@@ -0,0 +1,189 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { RealtimeEvent, TaskRealtimeEvent, UserPresence } from '@/types/task'
+import { projectApiPath } from '@/lib/utils/projects'
+
+type PresenceUpdate = Partial<Pick<UserPresence, 'cursor' | 'selection'>>
+
+export interface RealtimeIdentity {
+  clientId: string
+  userId: string // Stable across tabs and reloads, used as the author of comments
+  userName: string
+  color: string
+}
+
+interface UseRealtimeOptions {
+  enabled?: boolean
+  projectId?: string | null // Only task events of this project; the default project when not set
+  onTaskEvent?: (event: TaskRealtimeEvent) => void // Only events caused by other clients
+}
+
+const CLIENT_ID_KEY = 'gantt-realtime-client-id'
+const USER_NAME_KEY = 'gantt-realtime-user-name'
+const USER_ID_KEY = 'gantt-realtime-user-id'
+const CURSOR_THROTTLE_MS = 100
+
+const PRESENCE_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6', '#3b82f6', '#8b5cf6', '#ec4899']
+
+let identity: RealtimeIdentity | null = null
+
+function pickColor(seed: string): string {
+  let hash = 0
+  for (let i = 0; i < seed.length; i++) {
+    hash = (hash * 31 + seed.charCodeAt(i)) | 0
+  }
+  return PRESENCE_COLORS[Math.abs(hash) % PRESENCE_COLORS.length]
+}
+
+/**
+ * Identity of this browser tab on the realtime channel
+ * The client id is per tab (sessionStorage) so two tabs show up as two users,
+ * while the user id and display name are shared across tabs (localStorage).
+ */
+export function getRealtimeIdentity(): RealtimeIdentity {
+  if (identity) return identity
+
+  let clientId = sessionStorage.getItem(CLIENT_ID_KEY)
+  if (!clientId) {
+    clientId = crypto.randomUUID()
+    sessionStorage.setItem(CLIENT_ID_KEY, clientId)
+  }
+
+  let userId = localStorage.getItem(USER_ID_KEY)
+  if (!userId) {
+    userId = crypto.randomUUID()
+    localStorage.setItem(USER_ID_KEY, userId)
+  }
+
+  let userName = localStorage.getItem(USER_NAME_KEY)
+  if (!userName) {
+    userName = `Guest ${Math.floor(1000 + Math.random() * 9000)}`
+    localStorage.setItem(USER_NAME_KEY, userName)
+  }
+
+  identity = { clientId, userId, userName, color: pickColor(userName) }
+  return identity
+}
+
+/**
+ * Use the signed-in user as this tab's identity when authentication is on,
+ * so it matches the author the server records
+ */
+export function setRealtimeUser(user: { id: string; name: string }): void {
+  const { clientId } = getRealtimeIdentity()
+  identity = { clientId, userId: user.id, userName: user.name, color: pickColor(user.name) }
+}
+
+/**
+ * Headers to send with task mutations so this tab does not receive its own
+ * changes back as realtime events
+ */
+export function realtimeHeaders(): Record<string, string> {
+  if (typeof window === 'undefined') return {}
+  return { 'X-Client-Id': getRealtimeIdentity().clientId }
+}
+
+/**
+ * Subscribe to /api/events and share this tab's cursor and selection
+ *
+ * Returns the presence of the other connected users and a function to update
+ * our own. Cursor updates are throttled; EventSource reconnects on its own.
+ */
+export function useRealtime({ enabled = true, projectId, onTaskEvent }: UseRealtimeOptions = {}) {
+  const [presence, setPresence] = useState<UserPresence[]>([])
+  const [connected, setConnected] = useState(false)
+
+  const onTaskEventRef = useRef(onTaskEvent)
+  onTaskEventRef.current = onTaskEvent
+
+  const pendingRef = useRef<PresenceUpdate | null>(null)
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const selectionRef = useRef<string | undefined>(undefined)
+
+  const flush = useCallback(() => {
+    timerRef.current = null
+    const update = pendingRef.current
+    pendingRef.current = null
+    if (!update) return
+
+    fetch('/api/events/presence', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      // JSON drops undefined, so send null to clear a cursor or selection
+      body: JSON.stringify({
+        clientId: getRealtimeIdentity().clientId,
+        ...('cursor' in update && { cursor: update.cursor ?? null }),
+        ...('selection' in update && { selection: update.selection ?? null }),
+      }),
+    }).catch((error) => console.warn('Failed to update presence:', error))
+  }, [])
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const { clientId, userName, color } = getRealtimeIdentity()
+    const params = new URLSearchParams({ clientId, userName, color })
+    const source = new EventSource(projectApiPath(projectId, `/events?${params}`))
+
+    source.onopen = () => {
+      setConnected(true)
+      // A (re)connected stream starts without a selection
+      if (selectionRef.current) {
+        pendingRef.current = { ...pendingRef.current, selection: selectionRef.current }
+        flush()
+      }
+    }
+    source.onerror = () => setConnected(false)
+    source.onmessage = (message) => {
+      let event: RealtimeEvent
+      try {
+        event = JSON.parse(message.data)
+      } catch {
+        return
+      }
+
+      if (event.type === 'presence') {
+        setPresence(
+          event.presence
+            .filter((user) => user.userId !== clientId)
+            .map((user) => ({ ...user, lastSeen: new Date(user.lastSeen) }))
+        )
+      } else if (event.origin !== clientId) {
+        onTaskEventRef.current?.(event)
+      }
+    }
+
+    return () => {
+      source.close()
+      setConnected(false)
+      setPresence([])
+    }
+  }, [enabled, projectId, flush])
+
+  const updatePresence = useCallback(
+    (update: PresenceUpdate) => {
+      if (!enabled) return
+      pendingRef.current = { ...pendingRef.current, ...update }
+
+      // Selections go out right away, cursor moves at most every CURSOR_THROTTLE_MS
+      if ('selection' in update) {
+        selectionRef.current = update.selection
+        if (timerRef.current) clearTimeout(timerRef.current)
+        flush()
+      } else if (!timerRef.current) {
+        timerRef.current = setTimeout(flush, CURSOR_THROTTLE_MS)
+      }
+    },
+    [enabled, flush]
+  )
+
+  useEffect(
+    () => () => {
+      if (timerRef.current) clearTimeout(timerRef.current)
+    },
+    []
+  )
+
+  return { presence, connected, updatePresence }
+}
@@ -0,0 +1,71 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { usePathname, useRouter } from 'next/navigation'
+import type { AuthProviderType, SessionUser } from '@/lib/auth/roles'
+import { setRealtimeUser } from '@/lib/hooks/use-realtime'
+
+interface SessionState {
+  loading: boolean
+  enabled: boolean // Whether the server requires signing in
+  providers: AuthProviderType[]
+  user: SessionUser | null
+}
+
+/**
+ * The signed-in user, from /api/auth/session
+ *
+ * When authentication is on and nobody is signed in, goes to the sign-in page,
+ * which returns here afterwards. `ready` turns true once the page may load its
+ * data: authentication is off, or a user is signed in.
+ */
+export function useSession() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const [state, setState] = useState<SessionState>({
+    loading: true,
+    enabled: false,
+    providers: [],
+    user: null,
+  })
+
+  useEffect(() => {
+    let cancelled = false
+
+    fetch('/api/auth/session')
+      .then((response) => response.json())
+      .then((result) => {
+        if (cancelled) return
+        if (!result.success) throw new Error(result.message || result.error)
+
+        const { enabled, providers, user } = result.data
+        if (enabled && !user) {
+          const returnTo = `${pathname}${window.location.search}`
+          router.replace(`/login?${new URLSearchParams({ returnTo })}`)
+          return
+        }
+        if (user) setRealtimeUser(user)
+        setState({ loading: false, enabled, providers, user })
+      })
+      .catch((error) => {
+        console.error('Failed to load session:', error)
+        // The API routes still check every request
+        if (!cancelled) setState((prev) => ({ ...prev, loading: false }))
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [router, pathname])
+
+  const signOut = useCallback(async () => {
+    await fetch('/api/auth/logout', { method: 'POST' })
+    window.location.href = '/login'
+  }, [])
+
+  return {
+    ...state,
+    ready: !state.loading && (!state.enabled || !!state.user),
+    signOut,
+  }
+}
@@ -0,0 +1,699 @@
+import type {
+  AllocationQueryParams,
+  Baseline,
+  ChangeHistoryQueryParams,
+  ChangeSet,
+  Comment,
+  CreateAllocationDTO,
+  CreateCommentDTO,
+  CreateDependencyDTO,
+  CreateResourceDTO,
+  CreateStatusDTO,
+  CreateTaskDTO,
+  PaginatedResponse,
+  Resource,
+  ResourceAllocation,
+  Task,
+  TaskBatchOperation,
+  TaskBatchResult,
+  TaskDependency,
+  TaskQueryParams,
+  TaskStatus,
+  UpdateAllocationDTO,
+  UpdateResourceDTO,
+  UpdateTaskDTO,
+  WorkCalendar,
+} from "@/types/task"
+import type { Role, SessionUser } from "@/lib/auth/roles"
+import type { IDataProvider } from "./data-provider.interface"
+import { filterTasks, queryTasks } from "./task-query"
+import { isTaskVersionConflict, TaskVersionConflictError } from "./concurrency"
+import { isTaskBatchError, TaskBatchError } from "./batch"
+
+/**
+ * Field- and row-level access rules, applied in the provider layer
+ *
+ * A project's rules name the roles or users they apply to; admins are never
+ * restricted. A user sees only the tasks that match the row filter of every
+ * rule that applies to them, without the fields any of those rules hide.
+ * Row filters are passed to the data source as task query filters (a SQL
+ * WHERE clause or MongoDB filter where the provider supports them) and every
+ * task that comes back is checked again, so hidden rows and fields never
+ * leave the server, in the API, realtime events or exports.
+ */
+
+export const RESTRICTED_TASK_FIELDS = [
+  "description",
+  "owner",
+  "group",
+  "progress",
+  "priority",
+  "tags",
+  "estimatedHours",
+  "actualHours",
+  "modifiedBy",
+  "resources",
+] as const
+
+export type RestrictedTaskField = (typeof RESTRICTED_TASK_FIELDS)[number]
+
+// Tasks a rule limits its users to, with the meaning of the same TaskQueryParams.
+// Only fields a task create or update can set, so editors can keep tasks visible.
+export type TaskRowFilter = Pick<TaskQueryParams, "statusId" | "group" | "owner">
+
+export interface AccessRule {
+  id: string
+  name: string
+  roles?: Role[] // Applies to everyone with one of these roles
+  users?: string[] // Applies to these users, by id ("local:<username>", "oidc:<subject>") or email
+  rowFilter?: TaskRowFilter
+  hiddenFields?: RestrictedTaskField[]
+}
+
+export type AccessRuleInput = Omit<AccessRule, "id">
+
+// What the rules that apply to one user leave them
+export interface TaskAccess {
+  rowFilters: TaskRowFilter[]
+  hiddenFields: RestrictedTaskField[]
+}
+
+const ROW_FILTER_KEYS = ["statusId", "group", "owner"] as const
+
+// Task query filters that read a restricted field
+const QUERY_FILTER_FIELDS: [keyof TaskQueryParams, RestrictedTaskField][] = [
+  ["group", "group"],
+  ["owner", "owner"],
+  ["priority", "priority"],
+  ["tags", "tags"],
+  ["resourceId", "resources"],
+]
+
+// Restricted fields a task search looks in, besides the name
+const SEARCH_FIELDS: RestrictedTaskField[] = ["description", "owner", "group"]
+
+/**
+ * Thrown when a change would reach outside the tasks or fields a user may change
+ */
+export class TaskAccessDeniedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "TaskAccessDeniedError"
+  }
+}
+
+export function isTaskAccessDenied(error: unknown): error is TaskAccessDeniedError {
+  return error instanceof TaskAccessDeniedError
+}
+
+/**
+ * Thrown when a change names a task the user can't see, as if it didn't exist
+ */
+export class TaskNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Task with id ${id} not found`)
+    this.name = "TaskNotFoundError"
+  }
+}
+
+export function isTaskNotFound(error: unknown): error is TaskNotFoundError {
+  return error instanceof TaskNotFoundError
+}
+
+/**
+ * Parse the body of an access rule create or update request
+ * Body: { name, roles?, users?, rowFilter?: { statusId?, group?, owner? }, hiddenFields? }
+ */
+export function parseAccessRuleInput(body: Record<string, unknown>): AccessRuleInput {
+  if (typeof body.name !== "string") {
+    throw new Error("Rule name is required")
+  }
+
+  const list = (value: unknown, name: string): string[] | undefined => {
+    if (value === undefined || value === null) return undefined
+    if (!Array.isArray(value) || value.some((entry) => typeof entry !== "string")) {
+      throw new Error(`${name} must be a list of strings`)
+    }
+    const entries = value.map((entry: string) => entry.trim()).filter(Boolean)
+    return entries.length > 0 ? entries : undefined
+  }
+
+  const roles = list(body.roles, "Rule roles")
+  if (roles?.some((role) => role !== "viewer" && role !== "editor")) {
+    throw new Error("Rule roles must be viewer or editor; admins are never restricted")
+  }
+
+  const hiddenFields = list(body.hiddenFields, "Rule hiddenFields")
+  const unknownField = hiddenFields?.find((field) => !RESTRICTED_TASK_FIELDS.includes(field as RestrictedTaskField))
+  if (unknownField) {
+    throw new Error(`Field ${unknownField} can't be hidden; use one of: ${RESTRICTED_TASK_FIELDS.join(", ")}`)
+  }
+
+  let rowFilter: TaskRowFilter | undefined
+  if (body.rowFilter !== undefined && body.rowFilter !== null) {
+    if (typeof body.rowFilter !== "object" || Array.isArray(body.rowFilter)) {
+      throw new Error("Rule rowFilter must be an object")
+    }
+    const filter = body.rowFilter as Record<string, unknown>
+    const unknownKey = Object.keys(filter).find((key) => !ROW_FILTER_KEYS.includes(key as (typeof ROW_FILTER_KEYS)[number]))
+    if (unknownKey) {
+      throw new Error(`Rows can't be filtered by ${unknownKey}; use one of: ${ROW_FILTER_KEYS.join(", ")}`)
+    }
+    rowFilter = {}
+    for (const key of ROW_FILTER_KEYS) {
+      const value = filter[key]
+      if (value === undefined || value === null || value === "") continue
+      if (typeof value !== "string") {
+        throw new Error(`Row filter ${key} must be a string`)
+      }
+      rowFilter[key] = value.trim()
+    }
+    if (Object.keys(rowFilter).length === 0) rowFilter = undefined
+  }
+
+  return {
+    name: body.name.trim(),
+    roles: roles as Role[] | undefined,
+    users: list(body.users, "Rule users"),
+    rowFilter,
+    hiddenFields: hiddenFields as RestrictedTaskField[] | undefined,
+  }
+}
+
+/**
+ * Check an access rule against the project's other rules (names are unique, ignoring case)
+ * Returns an error message, or null if the data is valid
+ */
+export function validateAccessRule(existing: AccessRule[], data: AccessRuleInput, id?: string): string | null {
+  if (!data.name) {
+    return "Rule name is required"
+  }
+  if (data.name.length > 100) {
+    return "Rule name must be at most 100 characters"
+  }
+  if (existing.some((rule) => rule.id !== id && rule.name.toLowerCase() === data.name.toLowerCase())) {
+    return `Rule "${data.name}" already exists`
+  }
+  if (!data.roles && !data.users) {
+    return "Rule must apply to at least one role or user"
+  }
+  if (!data.rowFilter && !data.hiddenFields) {
+    return "Rule must filter tasks or hide fields"
+  }
+  return null
+}
+
+/**
+ * Combine the rules that apply to a user; null when the user isn't restricted
+ */
+export function resolveTaskAccess(rules: AccessRule[], user: SessionUser): TaskAccess | null {
+  if (user.role === "admin") return null
+
+  const keys = [user.id, user.email].filter((key): key is string => !!key).map((key) => key.toLowerCase())
+  const applicable = rules.filter(
+    (rule) =>
+      rule.roles?.includes(user.role) || rule.users?.some((entry) => keys.includes(entry.toLowerCase()))
+  )
+  if (applicable.length === 0) return null
+
+  return {
+    rowFilters: applicable.flatMap((rule) => (rule.rowFilter ? [rule.rowFilter] : [])),
+    hiddenFields: [...new Set(applicable.flatMap((rule) => rule.hiddenFields || []))],
+  }
+}
+
+export function canSeeTask(access: TaskAccess, task: Task): boolean {
+  return access.rowFilters.every((filter) => filterTasks([task], filter).length > 0)
+}
+
+export function redactTask(access: TaskAccess, task: Task): Task {
+  if (access.hiddenFields.length === 0) return task
+  const redacted = { ...task }
+  access.hiddenFields.forEach((field) => delete redacted[field])
+  return redacted
+}
+
+/**
+ * The hidden field a task query filters or sorts by, if any
+ * Such queries are refused, so hidden values can't be probed through them.
+ */
+export function findHiddenQueryField(
+  hiddenFields: RestrictedTaskField[],
+  params: TaskQueryParams
+): RestrictedTaskField | undefined {
+  const filtered = QUERY_FILTER_FIELDS.find(([key, field]) => params[key] !== undefined && hiddenFields.includes(field))
+  if (filtered) return filtered[1]
+  return hiddenFields.find((field) => field === params.sortBy)
+}
+
+/**
+ * Add the row filters to a task query, for the data source to apply
+ * Returns null when no task can match both. Filters and sorting by hidden
+ * fields are refused.
+ */
+export function restrictTaskQuery(access: TaskAccess, params: TaskQueryParams = {}): TaskQueryParams | null {
+  const hiddenField = findHiddenQueryField(access.hiddenFields, params)
+  if (hiddenField) {
+    throw new TaskAccessDeniedError(`Tasks can't be filtered or sorted by ${hiddenField}, which is hidden from you`)
+  }
+
+  const query = { ...params }
+  for (const filter of access.rowFilters) {
+    for (const key of ROW_FILTER_KEYS) {
+      const value = filter[key]
+      if (value === undefined) continue
+      if (query[key] !== undefined && query[key] !== value) return null
+      query[key] = value
+    }
+  }
+  return query
+}
+
+/**
+ * Change history limited to visible tasks, without changes to hidden fields
+ * Changes of tasks that no longer exist can't be checked, so they are left out.
+ */
+export function restrictChangeSets(access: TaskAccess, changeSets: ChangeSet[], visibleTaskIds: Set<string> | null): ChangeSet[] {
+  // Snapshots are recorded in full, so parents the user can't see are left off like hidden fields
+  const isHiddenTask = (id: unknown) => Boolean(id && visibleTaskIds && !visibleTaskIds.has(String(id)))
+  const redactValue = (value: unknown, field?: string) => {
+    if (field === "parentId") return isHiddenTask(value) ? undefined : value
+    if (!value || typeof value !== "object" || Array.isArray(value)) return value
+    const redacted = { ...(value as Record<string, unknown>) }
+    access.hiddenFields.forEach((field) => delete redacted[field])
+    if (isHiddenTask(redacted.parentId)) delete redacted.parentId
+    return redacted
+  }
+
+  return changeSets
+    .map((changeSet) => ({
+      ...changeSet,
+      changes: changeSet.changes
+        .filter((change) => !visibleTaskIds || visibleTaskIds.has(change.taskId))
+        .filter((change) => !change.field || !access.hiddenFields.includes(change.field as RestrictedTaskField))
+        .map((change) => ({
+          ...change,
+          oldValue: redactValue(change.oldValue, change.field),
+          newValue: redactValue(change.newValue, change.field),
+        })),
+    }))
+    .filter((changeSet) => changeSet.changes.length > 0)
+}
+
+/**
+ * Data provider that applies a user's access to another provider
+ *
+ * Reads return only visible tasks and the links, allocations, comments and
+ * history of them, without hidden fields; parents and predecessors that are
+ * not visible are left off. Writes must keep tasks visible: a new task takes
+ * the status, group and owner its row filters require unless it sets them,
+ * and changes to hidden fields are ignored. Statuses, resources and the
+ * calendar are shared and not restricted.
+ */
+export class AccessControlledProvider implements IDataProvider {
+  readonly access: TaskAccess
+  private readonly provider: IDataProvider
+  private visibleTaskIds: Promise<Set<string> | null> | null = null
+
+  constructor(provider: IDataProvider, access: TaskAccess) {
+    this.provider = provider
+    this.access = access
+  }
+
+  /**
+   * Ids of the tasks the user can see; null when every task is visible
+   */
+  async getVisibleTaskIds(): Promise<Set<string> | null> {
+    if (this.access.rowFilters.length === 0) return null
+    if (!this.visibleTaskIds) {
+      this.visibleTaskIds = this.provider
+        .getAllTasks()
+        .then((tasks) => new Set(tasks.filter((task) => canSeeTask(this.access, task)).map((task) => task.id)))
+      this.visibleTaskIds.catch(() => {
+        this.visibleTaskIds = null
+      })
+    }
+    return this.visibleTaskIds
+  }
+
+  private present(tasks: Task[], visibleIds: Set<string> | null): Task[] {
+    return tasks.map((task) =>
+      redactTask(this.access, {
+        ...task,
+        parentId: task.parentId && (!visibleIds || visibleIds.has(task.parentId)) ? task.parentId : undefined,
+        dependencies: task.dependencies?.filter(
+          (dependency) => !visibleIds || (visibleIds.has(dependency.predecessorId) && visibleIds.has(dependency.successorId))
+        ),
+      })
+    )
+  }
+
+  private async getVisibleTask(id: string): Promise<Task> {
+    const task = await this.provider.getTaskById(id)
+    if (!task || !canSeeTask(this.access, task)) {
+      throw new TaskNotFoundError(id)
+    }
+    return task
+  }
+
+  private assertVisibleIds(ids: (string | null | undefined)[], visibleIds: Set<string> | null): void {
+    const hidden = ids.find((id) => id && visibleIds && !visibleIds.has(id))
+    if (hidden) {
+      throw new TaskNotFoundError(hidden)
+    }
+  }
+
+  /**
+   * A version conflict carries the current task, which gets the same row check
+   * and redaction as getTaskById(): a task the user can no longer see is not found
+   */
+  private async restrictConflict(error: unknown, operations?: TaskBatchOperation[]): Promise<unknown> {
+    const conflict = isTaskBatchError(error) ? error.reason : error
+    if (!isTaskVersionConflict(conflict)) return error
+
+    this.visibleTaskIds = null
+    const reason = canSeeTask(this.access, conflict.current)
+      ? new TaskVersionConflictError(
+          this.present([conflict.current], await this.getVisibleTaskIds())[0],
+          conflict.expectedVersion
+        )
+      : new TaskNotFoundError(conflict.current.id)
+    return isTaskBatchError(error) && operations
+      ? new TaskBatchError(operations, error.failedIndex, reason, error.results)
+      : reason
+  }
+
+  private withoutHiddenFields<T extends CreateTaskDTO | UpdateTaskDTO>(data: T): T {
+    const allowed = { ...data }
+    for (const field of this.access.hiddenFields) {
+      if (field === "resources") {
+        delete allowed.assignments
+      } else if (field !== "modifiedBy" && field in allowed) {
+        delete (allowed as Record<string, unknown>)[field]
+      }
+    }
+    return allowed
+  }
+
+  private assertStaysVisible(task: Task): void {
+    if (!canSeeTask(this.access, task)) {
+      throw new TaskAccessDeniedError("The change would move the task out of the tasks you can access")
+    }
+  }
+
+  private async prepareCreate(data: CreateTaskDTO, visibleIds: Set<string> | null): Promise<CreateTaskDTO> {
+    const prepared = this.withoutHiddenFields(data)
+    for (const filter of this.access.rowFilters) {
+      prepared.statusId ??= filter.statusId
+      prepared.group ??= filter.group
+      prepared.owner ??= filter.owner
+    }
+    this.assertVisibleIds(
+      [prepared.parentId, ...(prepared.dependencies || []).map((dependency) => dependency.predecessorId)],
+      visibleIds
+    )
+    this.assertStaysVisible({
+      id: prepared.id || "",
+      name: prepared.name,
+      startAt: prepared.startAt,
+      endAt: prepared.endAt,
+      status: prepared.statusId ? { id: prepared.statusId, name: "" } : undefined,
+      group: prepared.group,
+      owner: prepared.owner,
+    })
+    return prepared
+  }
+
+  private async prepareUpdate(id: string, data: UpdateTaskDTO, visibleIds: Set<string> | null): Promise<UpdateTaskDTO> {
+    const current = await this.getVisibleTask(id)
+    const prepared = this.withoutHiddenFields(data)
+    this.assertVisibleIds(
+      [prepared.parentId, ...(prepared.dependencies || []).map((dependency) => dependency.predecessorId)],
+      visibleIds
+    )
+    this.assertStaysVisible({
+      ...current,
+      status: prepared.statusId !== undefined ? { id: prepared.statusId, name: "" } : current.status,
+      group: "group" in prepared ? prepared.group : current.group,
+      owner: "owner" in prepared ? prepared.owner : current.owner,
+    })
+    return prepared
+  }
+
+  // Task operations
+
+  async getTasks(params?: TaskQueryParams): Promise<PaginatedResponse<Task>> {
+    const query = restrictTaskQuery(this.access, params)
+    if (!query) {
+      return { data: [], total: 0, page: params?.page || 1, pageSize: params?.pageSize || 50, hasMore: false }
+    }
+    // The data source would also search hidden values, so search the redacted tasks
+    if (query.search && SEARCH_FIELDS.some((field) => this.access.hiddenFields.includes(field))) {
+      return queryTasks(await this.getAllTasks(), query, params?.pageSize || 50)
+    }
+
+    const result = await this.provider.getTasks(query)
+    const tasks = result.data.filter((task) => canSeeTask(this.access, task))
+    if (tasks.length === result.data.length) {
+      return { ...result, data: this.present(tasks, await this.getVisibleTaskIds()) }
+    }
+
+    // The data source didn't apply every filter, so its pages and total are off
+    return queryTasks(await this.getAllTasks(), { ...query, page: result.page }, result.pageSize)
+  }
+
+  async getAllTasks(): Promise<Task[]> {
+    const tasks = (await this.provider.getAllTasks()).filter((task) => canSeeTask(this.access, task))
+    const visibleIds = new Set(tasks.map((task) => task.id))
+    this.visibleTaskIds = Promise.resolve(visibleIds)
+    return this.present(tasks, visibleIds)
+  }
+
+  async getTaskById(id: string): Promise<Task | null> {
+    const task = await this.provider.getTaskById(id)
+    if (!task || !canSeeTask(this.access, task)) return null
+    return this.present([task], await this.getVisibleTaskIds())[0]
+  }
+
+  async createTask(data: CreateTaskDTO): Promise<Task> {
+    const task = await this.provider.createTask(await this.prepareCreate(data, await this.getVisibleTaskIds()))
+    this.visibleTaskIds = null
+    return this.present([task], await this.getVisibleTaskIds())[0]
+  }
+
+  async updateTask(id: string, data: UpdateTaskDTO): Promise<Task> {
+    const prepared = await this.prepareUpdate(id, data, await this.getVisibleTaskIds())
+    let task: Task
+    try {
+      task = await this.provider.updateTask(id, prepared)
+    } catch (error) {
+      throw await this.restrictConflict(error)
+    }
+    return this.present([task], await this.getVisibleTaskIds())[0]
+  }
+
+  async deleteTask(id: string): Promise<void> {
+    await this.getVisibleTask(id)
+    await this.provider.deleteTask(id)
+    this.visibleTaskIds = null
+  }
+
+  async applyTaskBatch(operations: TaskBatchOperation[]): Promise<TaskBatchResult[]> {
+    const visibleIds = await this.getVisibleTaskIds()
+    const prepared: TaskBatchOperation[] = []
+    for (const operation of operations) {
+      if (operation.type === "create") {
+        prepared.push({ type: "create", data: await this.prepareCreate(operation.data, visibleIds) })
+      } else if (operation.type === "update") {
+        prepared.push({ type: "update", id: operation.id, data: await this.prepareUpdate(operation.id, operation.data, visibleIds) })
+      } else {
+        await this.getVisibleTask(operation.id)
+        prepared.push(operation)
+      }
+    }
+
+    let results: TaskBatchResult[]
+    try {
+      results = await this.provider.applyTaskBatch(prepared)
+    } catch (error) {
+      throw await this.restrictConflict(error, prepared)
+    }
+    this.visibleTaskIds = null
+    const afterIds = await this.getVisibleTaskIds()
+    return results.map((result) => (result.task ? { ...result, task: this.present([result.task], afterIds)[0] } : result))
+  }
+
+  // Status operations
+
+  getStatuses(): Promise<TaskStatus[]> {
+    return this.provider.getStatuses()
+  }
+
+  getStatusById(id: string): Promise<TaskStatus | null> {
+    return this.provider.getStatusById(id)
+  }
+
+  createStatus(data: CreateStatusDTO): Promise<TaskStatus> {
+    return this.provider.createStatus(data)
+  }
+
+  // Dependency operations
+
+  async getDependencies(taskId?: string): Promise<TaskDependency[]> {
+    const visibleIds = await this.getVisibleTaskIds()
+    if (!visibleIds) return this.provider.getDependencies(taskId)
+    if (taskId && !visibleIds.has(taskId)) return []
+    return (await this.provider.getDependencies(taskId)).filter(
+      (dependency) => visibleIds.has(dependency.predecessorId) && visibleIds.has(dependency.successorId)
+    )
+  }
+
+  async addDependency(data: CreateDependencyDTO): Promise<TaskDependency> {
+    this.assertVisibleIds([data.predecessorId, data.successorId], await this.getVisibleTaskIds())
+    return this.provider.addDependency(data)
+  }
+
+  async removeDependency(id: string): Promise<void> {
+    if (!(await this.getDependencies()).some((dependency) => dependency.id === id)) {
+      throw new Error(`Dependency with id ${id} not found`)
+    }
+    return this.provider.removeDependency(id)
+  }
+
+  // Working calendar
+
+  getWorkCalendar(): Promise<WorkCalendar> {
+    return this.provider.getWorkCalendar()
+  }
+
+  saveWorkCalendar(calendar: WorkCalendar): Promise<WorkCalendar> {
+    return this.provider.saveWorkCalendar(calendar)
+  }
+
+  // Resource operations
+
+  getResources(): Promise<Resource[]> {
+    return this.provider.getResources()
+  }
+
+  getResourceById(id: string): Promise<Resource | null> {
+    return this.provider.getResourceById(id)
+  }
+
+  createResource(data: CreateResourceDTO): Promise<Resource> {
+    return this.provider.createResource(data)
+  }
+
+  updateResource(id: string, data: UpdateResourceDTO): Promise<Resource> {
+    return this.provider.updateResource(id, data)
+  }
+
+  deleteResource(id: string): Promise<void> {
+    return this.provider.deleteResource(id)
+  }
+
+  // Allocation operations; hiding "resources" hides the allocations too
+
+  async getAllocations(params?: AllocationQueryParams): Promise<ResourceAllocation[]> {
+    if (this.access.hiddenFields.includes("resources")) return []
+    const visibleIds = await this.getVisibleTaskIds()
+    const allocations = await this.provider.getAllocations(params)
+    return visibleIds ? allocations.filter((allocation) => visibleIds.has(allocation.taskId)) : allocations
+  }
+
+  private async assertAllocationWritable(taskId?: string, allocationId?: string): Promise<void> {
+    if (this.access.hiddenFields.includes("resources")) {
+      throw new TaskAccessDeniedError("Resource assignments are hidden from you")
+    }
+    if (allocationId && !(await this.getAllocations()).some((allocation) => allocation.id === allocationId)) {
+      throw new Error(`Allocation with id ${allocationId} not found`)
+    }
+    if (taskId) {
+      this.assertVisibleIds([taskId], await this.getVisibleTaskIds())
+    }
+  }
+
+  async createAllocation(data: CreateAllocationDTO): Promise<ResourceAllocation> {
+    await this.assertAllocationWritable(data.taskId)
+    return this.provider.createAllocation(data)
+  }
+
+  async updateAllocation(id: string, data: UpdateAllocationDTO): Promise<ResourceAllocation> {
+    await this.assertAllocationWritable(undefined, id)
+    return this.provider.updateAllocation(id, data)
+  }
+
+  async deleteAllocation(id: string): Promise<void> {
+    await this.assertAllocationWritable(undefined, id)
+    return this.provider.deleteAllocation(id)
+  }
+
+  // Comment operations
+
+  async getComments(taskId: string): Promise<Comment[]> {
+    const visibleIds = await this.getVisibleTaskIds()
+    if (visibleIds && !visibleIds.has(taskId)) return []
+    return this.provider.getComments(taskId)
+  }
+
+  async createComment(data: CreateCommentDTO): Promise<Comment> {
+    this.assertVisibleIds([data.taskId], await this.getVisibleTaskIds())
+    return this.provider.createComment(data)
+  }
+
+  // The comment routes find the comment through getComments first
+  deleteComment(id: string): Promise<void> {
+    return this.provider.deleteComment(id)
+  }
+
+  // Change history
+
+  async getChangeHistory(params?: ChangeHistoryQueryParams): Promise<ChangeSet[]> {
+    const visibleIds = await this.getVisibleTaskIds()
+    if (params?.taskId && visibleIds && !visibleIds.has(params.taskId)) return []
+    return restrictChangeSets(this.access, await this.provider.getChangeHistory(params), visibleIds)
+  }
+
+  async appendChangeSet(changeSet: ChangeSet): Promise<ChangeSet> {
+    const visibleIds = await this.getVisibleTaskIds()
+    if (visibleIds && changeSet.changes.some((change) => !visibleIds.has(change.taskId))) {
+      throw new TaskAccessDeniedError("The change set includes tasks you can't access")
+    }
+    return this.provider.appendChangeSet(changeSet)
+  }
+
+  isHealthy(): Promise<boolean> {
+    return this.provider.isHealthy()
+  }
+}
+
+/**
+ * Apply a user's access to a provider; the provider itself when they aren't restricted
+ */
+export function withTaskAccess(provider: IDataProvider, access: TaskAccess | null): IDataProvider {
+  return access ? new AccessControlledProvider(provider, access) : provider
+}
+
+/**
+ * Fields the provider leaves out of tasks, e.g. to drop their export columns
+ */
+export function getHiddenTaskFields(provider: IDataProvider): RestrictedTaskField[] {
+  return provider instanceof AccessControlledProvider ? provider.access.hiddenFields : []
+}
+
+/**
+ * Baselines as seen through a provider: snapshots of the visible tasks only,
+ * without progress when it is hidden
+ */
+export async function restrictBaselines(provider: IDataProvider, baselines: Baseline[]): Promise<Baseline[]> {
+  if (!(provider instanceof AccessControlledProvider)) return baselines
+
+  const visibleIds = await provider.getVisibleTaskIds()
+  const hideProgress = provider.access.hiddenFields.includes("progress")
+  return baselines.map((baseline) => ({
+    ...baseline,
+    tasks: baseline.tasks
+      .filter((task) => !visibleIds || visibleIds.has(task.taskId))
+      .map((task) => (hideProgress ? { taskId: task.taskId, startAt: task.startAt, endAt: task.endAt } : task)),
+  }))
+}
@@ -40,6 +40,11 @@ export class BaserowClient {
       throw new Error(`Baserow API error: ${error.error || error.detail || response.statusText}`)
     }
 
+    // Deletes answer with no content
+    if (response.status === 204) {
+      return undefined as T
+    }
+
     return response.json()
   }
 
@@ -153,6 +158,47 @@ export class BaserowClient {
     )
   }
 
+  /**
+   * Create up to 200 rows in one request; either all of them are created or none
+   */
+  async createRows(tableId: string, rows: Partial<BaserowRow>[]): Promise<BaserowRow[]> {
+    const response = await this.request<{ items: BaserowRow[] }>(
+      `/api/database/rows/table/${tableId}/batch/`,
+      {
+        method: "POST",
+        body: JSON.stringify({ items: rows }),
+      }
+    )
+    return response.items
+  }
+
+  /**
+   * Update up to 200 rows in one request; each row needs its id
+   */
+  async updateRows(tableId: string, rows: Partial<BaserowRow>[]): Promise<BaserowRow[]> {
+    const response = await this.request<{ items: BaserowRow[] }>(
+      `/api/database/rows/table/${tableId}/batch/`,
+      {
+        method: "PATCH",
+        body: JSON.stringify({ items: rows }),
+      }
+    )
+    return response.items
+  }
+
+  /**
+   * Delete up to 200 rows in one request
+   */
+  async deleteRows(tableId: string, rowIds: number[]): Promise<void> {
+    await this.request<void>(
+      `/api/database/rows/table/${tableId}/batch-delete/`,
+      {
+        method: "POST",
+        body: JSON.stringify({ items: rowIds }),
+      }
+    )
+  }
+
   /**
    * Get table field metadata (including select_options for single_select fields)
    */
@@ -2,20 +2,71 @@ import { IDataProvider } from "../data-provider.interface"
 import {
   Task,
   TaskStatus,
+  CreateStatusDTO,
   CreateTaskDTO,
   UpdateTaskDTO,
   PaginatedResponse,
   TaskQueryParams,
+  TaskDependency,
+  CreateDependencyDTO,
+  WorkCalendar,
+  Resource,
+  CreateResourceDTO,
+  UpdateResourceDTO,
+  ResourceAllocation,
+  CreateAllocationDTO,
+  UpdateAllocationDTO,
+  AllocationQueryParams,
+  Comment,
+  ChangeSet,
+  ChangeHistoryQueryParams,
+  TaskBatchOperation,
+  TaskBatchResult,
 } from "@/types/task"
 import { BaserowClient } from "./baserow-client"
 import { BaserowRow, BaserowPaginatedResponse } from "./types"
-import { getFieldMapping, BaserowFieldMapping } from "./field-mapping"
+import { getFieldMapping, BaserowFieldMapping, readRowPriority, readRowTags } from "./field-mapping"
+import {
+  assertBaserowDependencySupported,
+  mapRowsToDependencies,
+  parseBaserowDependencyId,
+  readPredecessorIds,
+} from "./dependencies"
+import { assertValidDependency, filterDependenciesForTask, syncTaskPredecessors } from "../dependencies"
+import { assertValidParent } from "../hierarchy"
+import { assertTaskVersion } from "../concurrency"
+import { getNextVersionRowData, needsVersionCheck, readRowVersion } from "./concurrency"
+import { applyBaserowTaskBatch } from "./batch"
+import { buildBaserowTaskQuery, BaserowTaskListOptions, needsTaskQueryInMemory } from "./task-query"
+import { assertBaserowCalendarTable, mapRowToWorkCalendar, mapWorkCalendarToRow } from "./work-calendar"
+import {
+  assertBaserowResourcesTable,
+  assertBaserowAllocationsTable,
+  mapRowToResource,
+  mapResourceToRow,
+  mapRowToAllocation,
+  mapAllocationToRow,
+} from "./resources"
+import {
+  assertValidResource,
+  assertValidAllocation,
+  filterAllocations,
+  syncTaskAllocations,
+  DEFAULT_AVAILABILITY,
+  DEFAULT_ALLOCATION,
+} from "../resources"
+import { assertValidStatus, DEFAULT_STATUS_COLOR } from "../statuses"
+import { queryTasks } from "../task-query"
+import { assertValidChangeSet, filterChangeHistory, groupChangeHistoryRows, toChangeHistoryRows } from "../history"
 
 export interface BaserowProviderConfig {
   baseUrl: string
   token: string
   tasksTableId: string
   statusesTableId?: string // Optional - if not provided, will auto-extract from single_select field
+  calendarTableId?: string // Optional - working calendar storage, defaults to Mon-Fri when missing
+  resourcesTableId?: string // Optional - resources; without it there are none
+  allocationsTableId?: string // Optional - task assignments of resources
   fieldMapping?: BaserowFieldMapping // Optional custom field mapping
 }
 
@@ -78,6 +129,16 @@ export class BaserowProvider implements IDataProvider {
       owner: fields.owner ? row[fields.owner] : undefined,
       description: fields.description ? row[fields.description] : undefined,
       progress: fields.progress ? Number(row[fields.progress]) : undefined,
+      priority: fields.priority ? readRowPriority(row[fields.priority]) : undefined,
+      tags: fields.tags ? readRowTags(row[fields.tags]) : undefined,
+      isMilestone: fields.isMilestone ? row[fields.isMilestone] === true || undefined : undefined,
+      dependencies: fields.predecessors
+        ? mapRowsToDependencies([row], fields.id, fields.predecessors)
+        : undefined,
+      // Same link-row format as predecessors
+      parentId: fields.parent ? readPredecessorIds(row, fields.parent)[0] : undefined,
+      version: readRowVersion(row, fields),
+      modifiedBy: fields.modifiedBy ? row[fields.modifiedBy] || undefined : undefined,
       createdAt: fields.createdAt ? new Date(row[fields.createdAt]) : undefined,
       updatedAt: fields.updatedAt ? new Date(row[fields.updatedAt]) : undefined,
     }
@@ -116,6 +177,21 @@ export class BaserowProvider implements IDataProvider {
     if ("progress" in task && task.progress !== undefined && fields.progress) {
       row[fields.progress] = task.progress
     }
+    if ("priority" in task && task.priority !== undefined && fields.priority) {
+      row[fields.priority] = task.priority || null
+    }
+    if ("tags" in task && task.tags !== undefined && fields.tags) {
+      row[fields.tags] = task.tags.join(", ")
+    }
+    if ("isMilestone" in task && task.isMilestone !== undefined && fields.isMilestone) {
+      row[fields.isMilestone] = task.isMilestone
+    }
+    if ("parentId" in task && task.parentId !== undefined && fields.parent) {
+      row[fields.parent] = task.parentId ? [Number(task.parentId)] : []
+    }
+    if ("modifiedBy" in task && task.modifiedBy !== undefined && fields.modifiedBy) {
+      row[fields.modifiedBy] = task.modifiedBy
+    }
 
     return row
   }
@@ -135,21 +211,37 @@ export class BaserowProvider implements IDataProvider {
 
   /**
    * Get tasks with pagination
+   * Filters, search and sorting are sent to Baserow; a resource filter is
+   * applied in memory, as allocations live in their own table.
    */
   async getTasks(params?: TaskQueryParams): Promise<PaginatedResponse<Task>> {
     const page = params?.page || 1
     const pageSize = params?.pageSize || 100
 
+    const query = buildBaserowTaskQuery(this.fieldMapping, params, Boolean(this.config.statusesTableId))
+    if (!query) {
+      return { data: [], total: 0, page, pageSize, hasMore: false }
+    }
+
     // Fetch statuses first for proper mapping
     const statuses = await this.getStatuses()
 
+    if (needsTaskQueryInMemory(this.fieldMapping, params)) {
+      const rows = await this.listAllTaskRows(query)
+      const tasks = rows.map((row) => this.mapRowToTask(row, statuses))
+      const allocations = params?.resourceId
+        ? await this.getAllocations({ resourceId: params.resourceId })
+        : undefined
+      return queryTasks(tasks, params, 100, allocations)
+    }
+
     // Try with order_by first, fallback without it if field doesn't exist
     let response: BaserowPaginatedResponse<BaserowRow>
     try {
       response = await this.client.listRows(this.config.tasksTableId, {
+        ...query,
         page,
         size: pageSize,
-        order_by: this.fieldMapping.tasks.startAt,
       })
     } catch (error) {
       // If order_by field not found, retry without ordering
@@ -158,9 +250,11 @@ export class BaserowProvider implements IDataProvider {
         error.message.includes("ERROR_ORDER_BY_FIELD_NOT_FOUND")
       ) {
         console.warn(
-          `Order by field "${this.fieldMapping.tasks.startAt}" not found, fetching without ordering`
+          `Order by field "${query.order_by}" not found, fetching without ordering`
         )
         response = await this.client.listRows(this.config.tasksTableId, {
+          ...query,
+          order_by: undefined,
           page,
           size: pageSize,
         })
@@ -180,6 +274,34 @@ export class BaserowProvider implements IDataProvider {
     }
   }
 
+  /**
+   * Every task row matching the query, without ordering when the order_by field doesn't exist
+   */
+  private async listAllTaskRows(query: BaserowTaskListOptions): Promise<BaserowRow[]> {
+    try {
+      return await this.client.getAllRows(this.config.tasksTableId, query)
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        error.message.includes("ERROR_ORDER_BY_FIELD_NOT_FOUND")
+      ) {
+        console.warn(
+          `Order by field "${query.order_by}" not found, fetching without ordering`
+        )
+        return this.client.getAllRows(this.config.tasksTableId, { ...query, order_by: undefined })
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Map task rows read elsewhere, such as webhook payloads, to tasks
+   */
+  async mapRowsToTasks(rows: BaserowRow[]): Promise<Task[]> {
+    const statuses = await this.getStatuses()
+    return rows.map((row) => this.mapRowToTask(row, statuses))
+  }
+
   /**
    * Get all tasks (handles pagination automatically)
    */
@@ -227,27 +349,323 @@ export class BaserowProvider implements IDataProvider {
    * Create a new task
    */
   async createTask(data: CreateTaskDTO): Promise<Task> {
+    if (data.parentId) {
+      assertValidParent(await this.getAllTasks(), undefined, data.parentId)
+    }
+
     const rowData = this.mapTaskToRow(data)
     const row = await this.client.createRow(this.config.tasksTableId, rowData)
     const statuses = await this.getStatuses()
-    return this.mapRowToTask(row, statuses)
+    const task = this.mapRowToTask(row, statuses)
+
+    if (data.dependencies) {
+      task.dependencies = await syncTaskPredecessors(this, task.id, data.dependencies)
+    }
+    if (data.assignments) {
+      await syncTaskAllocations(this, task.id, data.assignments)
+    }
+
+    return task
   }
 
   /**
    * Update an existing task
    */
   async updateTask(id: string, data: UpdateTaskDTO): Promise<Task> {
-    const rowData = this.mapTaskToRow(data)
-    const row = await this.client.updateRow(this.config.tasksTableId, id, rowData)
+    const fields = this.fieldMapping.tasks
     const statuses = await this.getStatuses()
+
+    // Re-read the row to check the version before anything is written
+    let versionData: Partial<BaserowRow> = {}
+    if (needsVersionCheck(fields, data.expectedVersion)) {
+      const current = this.mapRowToTask(await this.client.getRow(this.config.tasksTableId, id), statuses)
+      assertTaskVersion(current, data.expectedVersion)
+      versionData = getNextVersionRowData(current.version, fields)
+    }
+
+    if (data.parentId) {
+      assertValidParent(await this.getAllTasks(), id, data.parentId)
+    }
+
+    if (data.dependencies) {
+      await syncTaskPredecessors(this, id, data.dependencies)
+    }
+    if (data.assignments) {
+      await syncTaskAllocations(this, id, data.assignments)
+    }
+
+    const rowData = { ...this.mapTaskToRow(data), ...versionData }
+    const row = await this.client.updateRow(this.config.tasksTableId, id, rowData)
     return this.mapRowToTask(row, statuses)
   }
 
   /**
-   * Delete a task
+   * Delete a task and its allocations
    */
   async deleteTask(id: string): Promise<void> {
     await this.client.deleteRow(this.config.tasksTableId, id)
+    for (const allocation of await this.getAllocations({ taskId: id })) {
+      await this.deleteAllocation(allocation.id)
+    }
+  }
+
+  /**
+   * Apply a batch of task operations through the batch row endpoints
+   */
+  async applyTaskBatch(operations: TaskBatchOperation[]): Promise<TaskBatchResult[]> {
+    const tableId = this.config.tasksTableId
+    const statuses = await this.getStatuses()
+
+    return applyBaserowTaskBatch(operations, {
+      rows: await this.client.getAllRows(tableId),
+      fields: this.fieldMapping.tasks,
+      mapRowToTask: (row) => this.mapRowToTask(row, statuses),
+      mapTaskToRow: (data) => this.mapTaskToRow(data),
+      taskRows: {
+        createRows: (rows) => this.client.createRows(tableId, rows),
+        updateRows: (rows) => this.client.updateRows(tableId, rows),
+        deleteRows: (rowIds) => this.client.deleteRows(tableId, rowIds),
+      },
+      deleteTaskAllocations: async (taskId) => {
+        for (const allocation of await this.getAllocations({ taskId })) {
+          await this.deleteAllocation(allocation.id)
+        }
+      },
+    })
+  }
+
+  /**
+   * Get dependencies from the predecessors link-row field
+   */
+  async getDependencies(taskId?: string): Promise<TaskDependency[]> {
+    const fields = this.fieldMapping.tasks
+    if (!fields.predecessors) return []
+
+    const rows = await this.client.getAllRows(this.config.tasksTableId)
+    return filterDependenciesForTask(
+      mapRowsToDependencies(rows, fields.id, fields.predecessors),
+      taskId
+    )
+  }
+
+  /**
+   * Add a dependency by linking the predecessor on the successor row
+   */
+  async addDependency(data: CreateDependencyDTO): Promise<TaskDependency> {
+    const field = this.fieldMapping.tasks.predecessors
+    assertBaserowDependencySupported(field, data)
+    assertValidDependency(await this.getDependencies(), data)
+
+    const row = await this.client.getRow(this.config.tasksTableId, data.successorId)
+    const predecessorIds = [...readPredecessorIds(row, field), data.predecessorId]
+    await this.client.updateRow(this.config.tasksTableId, data.successorId, {
+      [field]: predecessorIds.map(Number),
+    })
+
+    const created = (await this.getDependencies(data.successorId)).find(
+      (dep) => dep.predecessorId === data.predecessorId && dep.successorId === data.successorId
+    )
+    if (!created) {
+      throw new Error("Failed to create dependency")
+    }
+    return created
+  }
+
+  /**
+   * Remove a dependency by unlinking the predecessor from the successor row
+   */
+  async removeDependency(id: string): Promise<void> {
+    const field = this.fieldMapping.tasks.predecessors
+    const link = parseBaserowDependencyId(id)
+    if (!field || !link) {
+      throw new Error(`Dependency with id ${id} not found`)
+    }
+
+    const row = await this.client.getRow(this.config.tasksTableId, link.successorId)
+    const predecessorIds = readPredecessorIds(row, field)
+    if (!predecessorIds.includes(link.predecessorId)) {
+      throw new Error(`Dependency with id ${id} not found`)
+    }
+
+    await this.client.updateRow(this.config.tasksTableId, link.successorId, {
+      [field]: predecessorIds.filter((predecessorId) => predecessorId !== link.predecessorId).map(Number),
+    })
+  }
+
+  /**
+   * Get the working calendar from the calendar table
+   */
+  async getWorkCalendar(): Promise<WorkCalendar> {
+    if (!this.config.calendarTableId) {
+      return mapRowToWorkCalendar(undefined)
+    }
+
+    const rows = await this.client.getAllRows(this.config.calendarTableId)
+    return mapRowToWorkCalendar(rows[0])
+  }
+
+  /**
+   * Save the working calendar to the first row of the calendar table
+   */
+  async saveWorkCalendar(calendar: WorkCalendar): Promise<WorkCalendar> {
+    const tableId = this.config.calendarTableId
+    assertBaserowCalendarTable(tableId)
+
+    const rows = await this.client.getAllRows(tableId)
+    const rowData = mapWorkCalendarToRow(calendar)
+    const row = rows[0]
+      ? await this.client.updateRow(tableId, String(rows[0].id), rowData)
+      : await this.client.createRow(tableId, rowData)
+
+    return mapRowToWorkCalendar(row)
+  }
+
+  /**
+   * Get resources from the resources table (none when it is not configured)
+   */
+  async getResources(): Promise<Resource[]> {
+    if (!this.config.resourcesTableId) return []
+
+    const rows = await this.client.getAllRows(this.config.resourcesTableId)
+    return rows.map(mapRowToResource)
+  }
+
+  /**
+   * Get a single resource by row ID
+   */
+  async getResourceById(id: string): Promise<Resource | null> {
+    if (!this.config.resourcesTableId) return null
+
+    try {
+      return mapRowToResource(await this.client.getRow(this.config.resourcesTableId, id))
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Create a resource row
+   */
+  async createResource(data: CreateResourceDTO): Promise<Resource> {
+    const tableId = this.config.resourcesTableId
+    assertBaserowResourcesTable(tableId)
+    assertValidResource(data, true)
+
+    const row = await this.client.createRow(
+      tableId,
+      mapResourceToRow({ ...data, availability: data.availability ?? DEFAULT_AVAILABILITY })
+    )
+    return mapRowToResource(row)
+  }
+
+  /**
+   * Update a resource row
+   */
+  async updateResource(id: string, data: UpdateResourceDTO): Promise<Resource> {
+    const tableId = this.config.resourcesTableId
+    assertBaserowResourcesTable(tableId)
+    assertValidResource(data, false)
+
+    const row = await this.client.updateRow(tableId, id, mapResourceToRow(data))
+    return mapRowToResource(row)
+  }
+
+  /**
+   * Delete a resource row and its allocations
+   */
+  async deleteResource(id: string): Promise<void> {
+    const tableId = this.config.resourcesTableId
+    assertBaserowResourcesTable(tableId)
+
+    await this.client.deleteRow(tableId, id)
+    for (const allocation of await this.getAllocations({ resourceId: id })) {
+      await this.deleteAllocation(allocation.id)
+    }
+  }
+
+  /**
+   * Get allocations from the allocations table (none when it is not configured)
+   */
+  async getAllocations(params?: AllocationQueryParams): Promise<ResourceAllocation[]> {
+    if (!this.config.allocationsTableId) return []
+
+    const rows = await this.client.getAllRows(this.config.allocationsTableId)
+    return filterAllocations(rows.map(mapRowToAllocation), params)
+  }
+
+  /**
+   * Create an allocation row
+   */
+  async createAllocation(data: CreateAllocationDTO): Promise<ResourceAllocation> {
+    const tableId = this.config.allocationsTableId
+    assertBaserowAllocationsTable(tableId)
+    if (!(await this.getResourceById(data.resourceId))) {
+      throw new Error(`Resource with id ${data.resourceId} not found`)
+    }
+    assertValidAllocation(await this.getAllocations({ taskId: data.taskId }), data)
+
+    const row = await this.client.createRow(
+      tableId,
+      mapAllocationToRow({ ...data, allocation: data.allocation ?? DEFAULT_ALLOCATION })
+    )
+    return mapRowToAllocation(row)
+  }
+
+  /**
+   * Update an allocation row
+   */
+  async updateAllocation(id: string, data: UpdateAllocationDTO): Promise<ResourceAllocation> {
+    const tableId = this.config.allocationsTableId
+    assertBaserowAllocationsTable(tableId)
+
+    const existing = mapRowToAllocation(await this.client.getRow(tableId, id))
+    assertValidAllocation([], { ...existing, ...data }, id)
+
+    const row = await this.client.updateRow(tableId, id, mapAllocationToRow(data))
+    return mapRowToAllocation(row)
+  }
+
+  /**
+   * Delete an allocation row
+   */
+  async deleteAllocation(id: string): Promise<void> {
+    const tableId = this.config.allocationsTableId
+    assertBaserowAllocationsTable(tableId)
+
+    await this.client.deleteRow(tableId, id)
+  }
+
+  /**
+   * Comments have no Baserow table; tasks read as having none
+   */
+  async getComments(): Promise<Comment[]> {
+    return []
+  }
+
+  async createComment(): Promise<Comment> {
+    throw new Error("Comments are not supported by the Baserow provider")
+  }
+
+  async deleteComment(): Promise<void> {
+    throw new Error("Comments are not supported by the Baserow provider")
+  }
+
+  /**
+   * The change history has no Baserow table; it is kept in the config
+   * directory (.gantt-config), one record per change
+   */
+  async getChangeHistory(params?: ChangeHistoryQueryParams): Promise<ChangeSet[]> {
+    const { loadChangeHistory } = await import("@/lib/config-storage")
+    return filterChangeHistory(groupChangeHistoryRows(await loadChangeHistory()), params)
+  }
+
+  async appendChangeSet(changeSet: ChangeSet): Promise<ChangeSet> {
+    assertValidChangeSet(changeSet)
+
+    const { appendChangeHistory } = await import("@/lib/config-storage")
+    const rows = toChangeHistoryRows(changeSet)
+    await appendChangeHistory(rows)
+    return groupChangeHistoryRows(rows)[0]
   }
 
   /**
@@ -341,6 +759,29 @@ export class BaserowProvider implements IDataProvider {
     }
   }
 
+  /**
+   * Create a new status
+   * Needs a statuses table; statuses read from the single select field can only
+   * be added as options in Baserow itself
+   */
+  async createStatus(data: CreateStatusDTO): Promise<TaskStatus> {
+    if (!this.config.statusesTableId) {
+      throw new Error(
+        `Statuses come from the options of the "${this.fieldMapping.tasks.status}" field. Add "${data.name}" as an option in Baserow, or configure a statuses table`
+      )
+    }
+    assertValidStatus(await this.getStatuses(), data)
+
+    const fields = this.fieldMapping.statuses
+    const rowData: Partial<BaserowRow> = { [fields.name]: data.name.trim() }
+    if (fields.color) {
+      rowData[fields.color] = data.color || DEFAULT_STATUS_COLOR
+    }
+
+    const row = await this.client.createRow(this.config.statusesTableId, rowData)
+    return this.mapRowToStatus(row)
+  }
+
   /**
    * Health check
    */
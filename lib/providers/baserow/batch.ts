@@ -0,0 +1,204 @@
+import type { CreateTaskDTO, Task, TaskBatchOperation, TaskBatchResult, UpdateTaskDTO } from "@/types/task"
+import { BaserowFieldMapping } from "./field-mapping"
+import { BaserowRow } from "./types"
+import { getNextVersionRowData } from "./concurrency"
+import { assertValidParent } from "../hierarchy"
+import { assertTaskVersion } from "../concurrency"
+import { TaskBatchError } from "../batch"
+
+/**
+ * Baserow batch task mutations
+ *
+ * Baserow has no transactions, but its batch row endpoints write up to 200
+ * rows in one atomic request. A batch is checked against the current rows
+ * before anything is written, then applied as one request per kind of
+ * operation: creates, updates, and deletes last, since deleted rows can't be
+ * brought back. When a request fails, the requests before it are undone.
+ *
+ * Dependencies and assignments live outside the task rows and can't be
+ * undone with them, so batch operations may not set them.
+ */
+
+export const BASEROW_BATCH_SIZE = 200
+
+// Batch row endpoints of the tasks table
+export interface BaserowTaskRows {
+  createRows: (rows: Partial<BaserowRow>[]) => Promise<BaserowRow[]>
+  updateRows: (rows: Partial<BaserowRow>[]) => Promise<BaserowRow[]>
+  deleteRows: (rowIds: number[]) => Promise<void>
+}
+
+export interface BaserowTaskBatchContext {
+  rows: BaserowRow[] // Current rows of the tasks table
+  fields: BaserowFieldMapping["tasks"]
+  mapRowToTask: (row: BaserowRow) => Task
+  mapTaskToRow: (data: CreateTaskDTO | UpdateTaskDTO) => Partial<BaserowRow>
+  taskRows: BaserowTaskRows
+  deleteTaskAllocations: (taskId: string) => Promise<void>
+}
+
+interface PreparedOperation {
+  index: number
+  type: TaskBatchOperation["type"]
+  taskId?: string
+  row?: Partial<BaserowRow>
+}
+
+function chunk<T>(items: T[]): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += BASEROW_BATCH_SIZE) {
+    chunks.push(items.slice(i, i + BASEROW_BATCH_SIZE))
+  }
+  return chunks
+}
+
+// Value of a read row in the form the API accepts on write: select options
+// and linked rows are written by id
+function toWritableValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(toWritableValue)
+  if (value && typeof value === "object" && "id" in value) return (value as { id: unknown }).id
+  return value
+}
+
+function getWritableValues(row: BaserowRow, fieldNames: string[]): Partial<BaserowRow> {
+  return Object.fromEntries(fieldNames.map((field) => [field, toWritableValue(row[field])]))
+}
+
+export async function applyBaserowTaskBatch(
+  operations: TaskBatchOperation[],
+  context: BaserowTaskBatchContext
+): Promise<TaskBatchResult[]> {
+  const { fields, taskRows } = context
+  const rowsById = new Map(context.rows.map((row) => [String(row[fields.id]), row]))
+  const tasks = new Map(context.rows.map((row) => [String(row[fields.id]), context.mapRowToTask(row)]))
+
+  // Check every operation in order before anything is written
+  const prepared: PreparedOperation[] = operations.map((operation, index) => {
+    try {
+      if (operation.type !== "delete" && (operation.data.dependencies || operation.data.assignments)) {
+        throw new Error("Dependencies and assignments can't be set in a batch with the Baserow provider")
+      }
+
+      if (operation.type === "create") {
+        if (operation.data.parentId) {
+          assertValidParent([...tasks.values()], undefined, operation.data.parentId)
+        }
+        return { index, type: operation.type, row: context.mapTaskToRow(operation.data) }
+      }
+
+      const task = tasks.get(operation.id)
+      if (!task) {
+        throw new Error(`Task with id ${operation.id} not found`)
+      }
+
+      if (operation.type === "delete") {
+        tasks.delete(operation.id)
+        return { index, type: operation.type, taskId: operation.id }
+      }
+
+      assertTaskVersion(task, operation.data.expectedVersion)
+      if (operation.data.parentId) {
+        assertValidParent([...tasks.values()], operation.id, operation.data.parentId)
+      }
+      const versionData = getNextVersionRowData(task.version, fields)
+      if (fields.version) {
+        tasks.set(operation.id, { ...task, version: Number(versionData[fields.version]) })
+      }
+      return {
+        index,
+        type: operation.type,
+        taskId: operation.id,
+        row: { ...context.mapTaskToRow(operation.data), ...versionData, id: Number(operation.id) },
+      }
+    } catch (error) {
+      throw new TaskBatchError(operations, index, error)
+    }
+  })
+
+  const results = new Map<number, TaskBatchResult>()
+  const undoSteps: { indexes: number[]; undo: () => Promise<void> }[] = []
+
+  // Mark every operation of a failed batch: undone, kept (an undo failed,
+  // or a delete), failed or never attempted
+  const fail = async (failedIndex: number, reason: unknown): Promise<never> => {
+    const kept = new Set(results.keys())
+    for (const step of [...undoSteps].reverse()) {
+      try {
+        await step.undo()
+        step.indexes.forEach((index) => kept.delete(index))
+      } catch (undoError) {
+        console.error("Failed to undo Baserow batch request:", undoError)
+      }
+    }
+
+    const overrides = operations.map((operation, index): TaskBatchResult => {
+      const result = results.get(index)
+      if (result && kept.has(index)) return result
+      const id = operation.type === "create" ? undefined : operation.id
+      return { index, type: operation.type, status: result ? "rolled_back" : "skipped", id }
+    })
+    throw new TaskBatchError(operations, failedIndex, reason, overrides.filter((result) => result.index !== failedIndex))
+  }
+
+  for (const group of chunk(prepared.filter((operation) => operation.type === "create"))) {
+    let rows: BaserowRow[]
+    try {
+      rows = await taskRows.createRows(group.map((operation) => operation.row!))
+    } catch (error) {
+      return fail(group[0].index, error)
+    }
+
+    rows.forEach((row, i) => {
+      const task = context.mapRowToTask(row)
+      results.set(group[i].index, { index: group[i].index, type: "create", status: "applied", id: task.id, task })
+    })
+    undoSteps.push({
+      indexes: group.map((operation) => operation.index),
+      undo: () => taskRows.deleteRows(rows.map((row) => Number(row.id))),
+    })
+  }
+
+  for (const group of chunk(prepared.filter((operation) => operation.type === "update"))) {
+    const previousRows = group.map((operation) => ({
+      ...getWritableValues(rowsById.get(operation.taskId!)!, Object.keys(operation.row!).filter((field) => field !== "id")),
+      id: Number(operation.taskId),
+    }))
+
+    let rows: BaserowRow[]
+    try {
+      rows = await taskRows.updateRows(group.map((operation) => operation.row!))
+    } catch (error) {
+      return fail(group[0].index, error)
+    }
+
+    rows.forEach((row, i) => {
+      const task = context.mapRowToTask(row)
+      results.set(group[i].index, { index: group[i].index, type: "update", status: "applied", id: task.id, task })
+    })
+    undoSteps.push({
+      indexes: group.map((operation) => operation.index),
+      undo: async () => {
+        await taskRows.updateRows(previousRows)
+      },
+    })
+  }
+
+  for (const group of chunk(prepared.filter((operation) => operation.type === "delete"))) {
+    try {
+      await taskRows.deleteRows(group.map((operation) => Number(operation.taskId)))
+    } catch (error) {
+      return fail(group[0].index, error)
+    }
+
+    group.forEach((operation) => {
+      results.set(operation.index, { index: operation.index, type: "delete", status: "applied", id: operation.taskId })
+    })
+  }
+
+  // Allocations of deleted tasks are cleaned up like deleteTask does
+  for (const operation of prepared.filter((entry) => entry.type === "delete")) {
+    await context.deleteTaskAllocations(operation.taskId!)
+  }
+
+  return operations.map((_, index) => results.get(index)!)
+}
@@ -0,0 +1,42 @@
+import { BaserowFieldMapping } from "./field-mapping"
+import { BaserowRow } from "./types"
+import { INITIAL_TASK_VERSION } from "../concurrency"
+
+/**
+ * Baserow optimistic concurrency helpers
+ *
+ * Baserow has no conditional update, so the providers re-read a task row and
+ * compare versions right before writing it. A write that lands between the
+ * read and the update is not detected.
+ *
+ * The version is read from the mapped version field (a number field the
+ * providers increment on every update). Without one, the row's last modified
+ * time in milliseconds serves as the version.
+ */
+
+type TaskFields = BaserowFieldMapping["tasks"]
+
+export function readRowVersion(row: BaserowRow, fields: TaskFields): number | undefined {
+  if (fields.version) {
+    return Number(row[fields.version]) || INITIAL_TASK_VERSION
+  }
+  if (fields.updatedAt && row[fields.updatedAt]) {
+    const time = Date.parse(row[fields.updatedAt])
+    return Number.isNaN(time) ? undefined : time
+  }
+  return undefined
+}
+
+/**
+ * Whether an update has to re-read the row first
+ */
+export function needsVersionCheck(fields: TaskFields, expectedVersion?: number): boolean {
+  return expectedVersion !== undefined || Boolean(fields.version)
+}
+
+/**
+ * Row data that advances the mapped version field, if any
+ */
+export function getNextVersionRowData(currentVersion: number | undefined, fields: TaskFields): Partial<BaserowRow> {
+  return fields.version ? { [fields.version]: (currentVersion ?? INITIAL_TASK_VERSION) + 1 } : {}
+}
@@ -0,0 +1,74 @@
+import { CreateDependencyDTO, TaskDependency } from "@/types/task"
+import { BaserowRow } from "./types"
+import { DEFAULT_DEPENDENCY_TYPE } from "../dependencies"
+
+/**
+ * Baserow dependency helpers
+ *
+ * Dependencies are stored in a link-row field on the tasks table that links
+ * back to the same table (see BaserowFieldMapping.tasks.predecessors).
+ * A link has no attributes, so only finish-to-start links without lag are
+ * supported, and dependency ids are derived from the linked row ids.
+ */
+
+const DEPENDENCY_ID_SEPARATOR = "-"
+
+export function toBaserowDependencyId(predecessorId: string, successorId: string): string {
+  return `${predecessorId}${DEPENDENCY_ID_SEPARATOR}${successorId}`
+}
+
+export function parseBaserowDependencyId(
+  id: string
+): { predecessorId: string; successorId: string } | null {
+  const [predecessorId, successorId, ...rest] = id.split(DEPENDENCY_ID_SEPARATOR)
+  if (!predecessorId || !successorId || rest.length > 0) return null
+  return { predecessorId, successorId }
+}
+
+/**
+ * Read linked predecessor row ids from a task row
+ */
+export function readPredecessorIds(row: BaserowRow, field: string): string[] {
+  const value = row[field]
+  if (!Array.isArray(value)) return []
+
+  return value
+    .map((link) => (typeof link === "object" && link !== null ? link.id : link))
+    .filter((id) => id !== undefined && id !== null)
+    .map((id) => String(id))
+}
+
+/**
+ * Build dependencies from the link-row field of task rows
+ */
+export function mapRowsToDependencies(
+  rows: BaserowRow[],
+  idField: string,
+  predecessorsField: string
+): TaskDependency[] {
+  return rows.flatMap((row) => {
+    const successorId = String(row[idField])
+    return readPredecessorIds(row, predecessorsField).map((predecessorId) => ({
+      id: toBaserowDependencyId(predecessorId, successorId),
+      predecessorId,
+      successorId,
+      type: DEFAULT_DEPENDENCY_TYPE,
+      lag: 0,
+    }))
+  })
+}
+
+/**
+ * Reject dependency attributes a link-row field cannot store
+ */
+export function assertBaserowDependencySupported(
+  predecessorsField: string | undefined,
+  data: Pick<CreateDependencyDTO, "type" | "lag">
+): asserts predecessorsField is string {
+  if (!predecessorsField) {
+    throw new Error("No predecessors field is mapped for the Baserow tasks table")
+  }
+  if ((data.type && data.type !== DEFAULT_DEPENDENCY_TYPE) || (data.lag && data.lag !== 0)) {
+    throw new Error("Baserow dependencies only support finish-to-start links without lag")
+  }
+}
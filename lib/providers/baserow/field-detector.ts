@@ -49,6 +49,7 @@ export interface MappingSuggestions {
     owner?: FieldSuggestion[]
     description?: FieldSuggestion[]
     progress?: FieldSuggestion[]
+    predecessors?: FieldSuggestion[]
   }
   statuses: {
     id: FieldSuggestion[]
@@ -106,6 +107,11 @@ const FIELD_PATTERNS = {
     types: ["number", "percent"],
     weight: 0.8,
   },
+  predecessors: {
+    names: ["predecessors", "predecessor", "depends on", "dependencies", "blocked by"],
+    types: ["link_row"],
+    weight: 0.8,
+  },
   color: {
     names: ["color", "colour", "hex", "background"],
     types: ["text", "single_line_text"],
@@ -246,6 +252,7 @@ export function detectTaskFieldMappings(
     owner: [],
     description: [],
     progress: [],
+    predecessors: [],
   }
 
   // Analyze each field
@@ -328,6 +335,7 @@ export function getBestMappings(
       owner: taskSuggestions.owner?.[0]?.field.name,
       description: taskSuggestions.description?.[0]?.field.name,
       progress: taskSuggestions.progress?.[0]?.field.name,
+      predecessors: taskSuggestions.predecessors?.[0]?.field.name,
     },
     statuses: {
       id: statusSuggestions.id[0]?.field.name || "id",
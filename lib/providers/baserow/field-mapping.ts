@@ -17,6 +17,13 @@ export interface BaserowFieldMapping {
     owner?: string
     description?: string
     progress?: string
+    priority?: string // Text field holding low, medium, high or critical (single selects are read too)
+    tags?: string // Text field with comma-separated tags (multiple selects are read too)
+    isMilestone?: string // Boolean field
+    predecessors?: string // Link-row field to the tasks table itself
+    parent?: string // Link-row field to the tasks table itself (first link is the parent)
+    version?: string // Number field incremented on every update; without it updatedAt is the version
+    modifiedBy?: string
     createdAt?: string
     updatedAt?: string
   }
@@ -43,6 +50,8 @@ export const DEFAULT_FIELD_MAPPING: BaserowFieldMapping = {
     owner: "Owner",
     description: "Description",
     progress: "Progress",
+    predecessors: "Predecessors",
+    parent: "Parent",
     createdAt: "created_on",
     updatedAt: "updated_on",
   },
@@ -53,6 +62,30 @@ export const DEFAULT_FIELD_MAPPING: BaserowFieldMapping = {
   },
 }
 
+/**
+ * Read a priority from a text or single select cell
+ */
+export function readRowPriority(value: unknown): "low" | "medium" | "high" | "critical" | undefined {
+  const text = value && typeof value === "object" ? (value as { value?: unknown }).value : value
+  const priority = typeof text === "string" ? text.trim().toLowerCase() : ""
+  return priority === "low" || priority === "medium" || priority === "high" || priority === "critical"
+    ? priority
+    : undefined
+}
+
+/**
+ * Read tags from a multiple select or comma-separated text cell
+ */
+export function readRowTags(value: unknown): string[] | undefined {
+  const tags = Array.isArray(value)
+    ? value.map((option) => String(option && typeof option === "object" ? option.value : option))
+    : typeof value === "string"
+      ? value.split(",")
+      : []
+  const trimmed = tags.map((tag) => tag.trim()).filter(Boolean)
+  return trimmed.length > 0 ? trimmed : undefined
+}
+
 /**
  * Get field mapping from saved config or use defaults
  * Note: This function returns the default mapping.
@@ -0,0 +1,109 @@
+import {
+  Resource,
+  ResourceAllocation,
+  CreateResourceDTO,
+  UpdateResourceDTO,
+  CreateAllocationDTO,
+  UpdateAllocationDTO,
+} from "@/types/task"
+import { BaserowRow } from "./types"
+import { DEFAULT_ALLOCATION, DEFAULT_AVAILABILITY } from "../resources"
+
+/**
+ * Baserow resource helpers
+ *
+ * Resources and allocations live in their own tables (resourcesTableId and
+ * allocationsTableId). Allocations refer to tasks and resources by row id in
+ * plain text fields, so they can be edited without link-row fields.
+ */
+
+export const RESOURCE_FIELDS = {
+  name: "Name",
+  email: "Email",
+  role: "Role",
+  avatar: "Avatar",
+  availability: "Availability",
+  color: "Color",
+}
+
+export const ALLOCATION_FIELDS = {
+  taskId: "Task",
+  resourceId: "Resource",
+  allocation: "Allocation",
+  startDate: "Start Date",
+  endDate: "End Date",
+}
+
+function readNumber(value: unknown, fallback: number): number {
+  if (value === null || value === undefined || value === "") return fallback
+  const number = Number(value)
+  return Number.isFinite(number) ? number : fallback
+}
+
+function readDate(value: unknown): Date | undefined {
+  return value ? new Date(String(value)) : undefined
+}
+
+function formatDate(date: Date | undefined): string | null {
+  return date ? new Date(date).toISOString().split("T")[0] : null
+}
+
+export function mapRowToResource(row: BaserowRow): Resource {
+  return {
+    id: String(row.id),
+    name: String(row[RESOURCE_FIELDS.name] || ""),
+    email: row[RESOURCE_FIELDS.email] || undefined,
+    role: row[RESOURCE_FIELDS.role] || undefined,
+    avatar: row[RESOURCE_FIELDS.avatar] || undefined,
+    availability: readNumber(row[RESOURCE_FIELDS.availability], DEFAULT_AVAILABILITY),
+    color: row[RESOURCE_FIELDS.color] || undefined,
+  }
+}
+
+export function mapResourceToRow(data: CreateResourceDTO | UpdateResourceDTO): Partial<BaserowRow> {
+  const row: Partial<BaserowRow> = {}
+
+  if (data.name !== undefined) row[RESOURCE_FIELDS.name] = data.name
+  if (data.email !== undefined) row[RESOURCE_FIELDS.email] = data.email
+  if (data.role !== undefined) row[RESOURCE_FIELDS.role] = data.role
+  if (data.avatar !== undefined) row[RESOURCE_FIELDS.avatar] = data.avatar
+  if (data.availability !== undefined) row[RESOURCE_FIELDS.availability] = data.availability
+  if (data.color !== undefined) row[RESOURCE_FIELDS.color] = data.color
+
+  return row
+}
+
+export function mapRowToAllocation(row: BaserowRow): ResourceAllocation {
+  return {
+    id: String(row.id),
+    taskId: String(row[ALLOCATION_FIELDS.taskId] || ""),
+    resourceId: String(row[ALLOCATION_FIELDS.resourceId] || ""),
+    allocation: readNumber(row[ALLOCATION_FIELDS.allocation], DEFAULT_ALLOCATION),
+    startDate: readDate(row[ALLOCATION_FIELDS.startDate]),
+    endDate: readDate(row[ALLOCATION_FIELDS.endDate]),
+  }
+}
+
+export function mapAllocationToRow(data: CreateAllocationDTO | UpdateAllocationDTO): Partial<BaserowRow> {
+  const row: Partial<BaserowRow> = {}
+
+  if ("taskId" in data) row[ALLOCATION_FIELDS.taskId] = data.taskId
+  if ("resourceId" in data) row[ALLOCATION_FIELDS.resourceId] = data.resourceId
+  if (data.allocation !== undefined) row[ALLOCATION_FIELDS.allocation] = data.allocation
+  if ("startDate" in data) row[ALLOCATION_FIELDS.startDate] = formatDate(data.startDate)
+  if ("endDate" in data) row[ALLOCATION_FIELDS.endDate] = formatDate(data.endDate)
+
+  return row
+}
+
+export function assertBaserowResourcesTable(tableId: string | undefined): asserts tableId is string {
+  if (!tableId) {
+    throw new Error("No Baserow resources table is configured (BASEROW_TABLE_ID_RESOURCES)")
+  }
+}
+
+export function assertBaserowAllocationsTable(tableId: string | undefined): asserts tableId is string {
+  if (!tableId) {
+    throw new Error("No Baserow allocations table is configured (BASEROW_TABLE_ID_ALLOCATIONS)")
+  }
+}
@@ -0,0 +1,88 @@
+import { TaskQueryParams } from "@/types/task"
+import { BaserowFieldMapping } from "./field-mapping"
+import { BaserowRequestOptions } from "./types"
+
+/**
+ * Baserow task query helpers
+ *
+ * Translates TaskQueryParams into Baserow list rows options: filter__ query
+ * params, the full-text search param and order_by. The status filter depends on
+ * the status field type; a statuses table means a link-row field, otherwise
+ * the status is a single select.
+ */
+
+export type BaserowTaskListOptions = Omit<BaserowRequestOptions, "page" | "size">
+
+function toBaserowDate(date: Date): string {
+  return date.toISOString().split("T")[0]
+}
+
+/**
+ * Build the list rows options for a task query
+ * Returns null when the query can never match, e.g. a filter on an unmapped field.
+ * Priority and tag filters aren't translated; see needsTaskQueryInMemory().
+ */
+export function buildBaserowTaskQuery(
+  mapping: BaserowFieldMapping,
+  params: TaskQueryParams = {},
+  hasStatusTable: boolean
+): BaserowTaskListOptions | null {
+  const fields = mapping.tasks
+  if ((params.priority && !fields.priority) || (params.tags?.length && !fields.tags)) return null
+  if ((params.group && !fields.group) || (params.owner && !fields.owner)) return null
+
+  const filters: Record<string, string> = {}
+  if (params.startDate) {
+    filters[`filter__${fields.startAt}__date_after_or_equal`] = toBaserowDate(params.startDate)
+  }
+  if (params.endDate) {
+    filters[`filter__${fields.endAt}__date_before_or_equal`] = toBaserowDate(params.endDate)
+  }
+  if (params.statusId) {
+    const type = hasStatusTable ? "link_row_has" : "single_select_equal"
+    filters[`filter__${fields.status}__${type}`] = params.statusId
+  }
+  if (params.group) filters[`filter__${fields.group}__equal`] = params.group
+  if (params.owner) filters[`filter__${fields.owner}__equal`] = params.owner
+
+  return {
+    filters,
+    search: params.search,
+    order_by: getBaserowOrderBy(mapping, params),
+  }
+}
+
+/**
+ * Whether a task query has to be applied to all rows after loading them
+ * Baserow can't filter by resource, match any of several tags or sort by
+ * priority rank, so those queries load every matching row and page in memory.
+ */
+export function needsTaskQueryInMemory(mapping: BaserowFieldMapping, params: TaskQueryParams = {}): boolean {
+  return Boolean(
+    params.resourceId ||
+      params.priority ||
+      params.tags?.length ||
+      (params.sortBy === "priority" && mapping.tasks.priority)
+  )
+}
+
+/**
+ * order_by for a task query, start date ascending by default
+ * Priority and unmapped fields fall back to the start date.
+ */
+export function getBaserowOrderBy(mapping: BaserowFieldMapping, params: TaskQueryParams = {}): string {
+  const fields = mapping.tasks
+  const columns: Partial<Record<string, string>> = {
+    name: fields.name,
+    startAt: fields.startAt,
+    endAt: fields.endAt,
+    status: fields.status,
+    group: fields.group,
+    owner: fields.owner,
+    progress: fields.progress,
+    createdAt: fields.createdAt,
+    updatedAt: fields.updatedAt,
+  }
+  const field = (params.sortBy && columns[params.sortBy]) || fields.startAt
+  return params.sortOrder === "desc" ? `-${field}` : field
+}
@@ -0,0 +1,46 @@
+import { WorkCalendar } from "@/types/task"
+import { BaserowRow } from "./types"
+import { DEFAULT_WORK_CALENDAR, normalizeWorkCalendar } from "@/lib/utils/work-calendar"
+
+/**
+ * Baserow working calendar helpers
+ *
+ * The calendar lives in its own table (calendarTableId) as a single row with a
+ * "Name" text field and a "Calendar" long-text field holding the calendar JSON.
+ */
+
+export const CALENDAR_FIELDS = {
+  name: "Name",
+  data: "Calendar",
+}
+
+export function mapRowToWorkCalendar(row: BaserowRow | undefined): WorkCalendar {
+  if (!row || !row[CALENDAR_FIELDS.data]) {
+    return normalizeWorkCalendar(DEFAULT_WORK_CALENDAR)
+  }
+
+  const data = JSON.parse(String(row[CALENDAR_FIELDS.data]))
+  return normalizeWorkCalendar({
+    ...data,
+    id: DEFAULT_WORK_CALENDAR.id,
+    name: row[CALENDAR_FIELDS.name] || data.name,
+  })
+}
+
+export function mapWorkCalendarToRow(calendar: WorkCalendar): Partial<BaserowRow> {
+  const normalized = normalizeWorkCalendar(calendar)
+  return {
+    [CALENDAR_FIELDS.name]: normalized.name,
+    [CALENDAR_FIELDS.data]: JSON.stringify({
+      workingDays: normalized.workingDays,
+      holidays: normalized.holidays,
+      resourceExceptions: normalized.resourceExceptions,
+    }),
+  }
+}
+
+export function assertBaserowCalendarTable(tableId: string | undefined): asserts tableId is string {
+  if (!tableId) {
+    throw new Error("No Baserow calendar table is configured (BASEROW_TABLE_ID_CALENDAR)")
+  }
+}
@@ -0,0 +1,224 @@
+import type {
+  CreateTaskDTO,
+  TaskBatchOperation,
+  TaskBatchResult,
+  UpdateTaskDTO,
+} from "@/types/task"
+import type { IDataProvider } from "./data-provider.interface"
+import { parseTaskPredecessors } from "./dependencies"
+import { parseTaskAssignments } from "./resources"
+import { parseExpectedVersion } from "./concurrency"
+import { parseTaskPriority, parseTaskTags } from "./task-query"
+
+/**
+ * Shared batch task mutation helpers used by every data provider and the batch route
+ *
+ * A batch is all or nothing: providers apply its operations inside a
+ * transaction (or undo them on failure where the data source has none), so a
+ * failed import or multi-task move leaves no rows half written.
+ */
+
+export const MAX_BATCH_OPERATIONS = 500
+
+const OPERATION_TYPES: TaskBatchOperation["type"][] = ["create", "update", "delete"]
+
+/**
+ * Thrown when an operation of a batch failed
+ * Carries a result per operation: the failed one, the ones before it rolled
+ * back and the ones after it skipped. Providers that can't roll back every
+ * operation pass the actual outcome of the others as overrides.
+ */
+export class TaskBatchError extends Error {
+  readonly reason: unknown
+  readonly failedIndex: number
+  readonly results: TaskBatchResult[]
+
+  constructor(
+    operations: TaskBatchOperation[],
+    failedIndex: number,
+    reason: unknown,
+    overrides: TaskBatchResult[] = []
+  ) {
+    const message = reason instanceof Error ? reason.message : "Unknown error"
+    super(`Operation ${failedIndex + 1} (${operations[failedIndex]?.type}) failed: ${message}`)
+    this.name = "TaskBatchError"
+    this.reason = reason
+    this.failedIndex = failedIndex
+
+    const overridesByIndex = new Map(overrides.map((result) => [result.index, result]))
+    this.results = operations.map((operation, index) => {
+      const override = overridesByIndex.get(index)
+      if (override) return override
+
+      const id = operation.type === "create" ? undefined : operation.id
+      if (index === failedIndex) return { index, type: operation.type, status: "failed", id, error: message }
+      return { index, type: operation.type, status: index < failedIndex ? "rolled_back" : "skipped", id }
+    })
+  }
+}
+
+export function isTaskBatchError(error: unknown): error is TaskBatchError {
+  return error instanceof TaskBatchError
+}
+
+/**
+ * Apply the operations of a batch one after another through the provider's
+ * task methods, stopping at the first failure with a TaskBatchError
+ * Providers run this inside their transaction, which the error rolls back.
+ */
+export async function runTaskBatch(
+  provider: IDataProvider,
+  operations: TaskBatchOperation[]
+): Promise<TaskBatchResult[]> {
+  const results: TaskBatchResult[] = []
+
+  for (const [index, operation] of operations.entries()) {
+    try {
+      if (operation.type === "create") {
+        const task = await provider.createTask(operation.data)
+        results.push({ index, type: operation.type, status: "applied", id: task.id, task })
+      } else if (operation.type === "update") {
+        const task = await provider.updateTask(operation.id, operation.data)
+        results.push({ index, type: operation.type, status: "applied", id: task.id, task })
+      } else {
+        if (!(await provider.getTaskById(operation.id))) {
+          throw new Error(`Task with id ${operation.id} not found`)
+        }
+        await provider.deleteTask(operation.id)
+        results.push({ index, type: operation.type, status: "applied", id: operation.id })
+      }
+    } catch (error) {
+      throw new TaskBatchError(operations, index, error)
+    }
+  }
+
+  return results
+}
+
+/**
+ * Apply a list of operations that may exceed MAX_BATCH_OPERATIONS, one batch at a time
+ * Each batch is all or nothing. When one fails, the tasks the earlier batches
+ * created are deleted again; their updates and deletes are not undone, so this
+ * is meant for imports, which only update the tasks they create. Results are
+ * indexed into the whole list.
+ */
+export async function applyTaskBatchInChunks(
+  applyTaskBatch: (operations: TaskBatchOperation[]) => Promise<TaskBatchResult[]>,
+  operations: TaskBatchOperation[],
+  chunkSize = MAX_BATCH_OPERATIONS
+): Promise<TaskBatchResult[]> {
+  const results: TaskBatchResult[] = []
+
+  for (let start = 0; start < operations.length; start += chunkSize) {
+    try {
+      const chunk = await applyTaskBatch(operations.slice(start, start + chunkSize))
+      results.push(...chunk.map((result) => ({ ...result, index: result.index + start })))
+    } catch (error) {
+      const createdIds = results.filter((result) => result.type === "create").map((result) => result.id!)
+      try {
+        for (let index = 0; index < createdIds.length; index += chunkSize) {
+          await applyTaskBatch(createdIds.slice(index, index + chunkSize).map((id) => ({ type: "delete", id })))
+        }
+      } catch (cleanupError) {
+        console.error("Failed to remove the tasks of earlier batches:", cleanupError)
+      }
+      throw error
+    }
+  }
+
+  return results
+}
+
+function parseDate(value: unknown, field: string): Date {
+  const date = new Date(value as string)
+  if (value === undefined || value === null || value === "" || isNaN(date.getTime())) {
+    throw new Error(`${field} must be a valid date`)
+  }
+  return date
+}
+
+function parseCreateData(data: Record<string, unknown>): CreateTaskDTO {
+  if (!data.name) {
+    throw new Error("name is required")
+  }
+
+  return {
+    id: data.id ? String(data.id) : undefined,
+    name: String(data.name),
+    startAt: parseDate(data.startAt, "startAt"),
+    endAt: parseDate(data.endAt, "endAt"),
+    statusId: data.statusId ? String(data.statusId) : undefined,
+    group: data.group as string | undefined,
+    owner: data.owner as string | undefined,
+    description: data.description as string | undefined,
+    progress: data.progress as number | undefined,
+    priority: data.priority !== undefined ? parseTaskPriority(data.priority) || undefined : undefined,
+    tags: data.tags !== undefined ? parseTaskTags(data.tags) : undefined,
+    isMilestone: data.isMilestone !== undefined ? Boolean(data.isMilestone) : undefined,
+    parentId: data.parentId ? String(data.parentId) : undefined,
+    dependencies: parseTaskPredecessors(data.dependencies),
+    assignments: parseTaskAssignments(data.assignments),
+  }
+}
+
+function parseUpdateData(data: Record<string, unknown>): UpdateTaskDTO {
+  const update: UpdateTaskDTO = {}
+
+  if (data.name !== undefined) update.name = String(data.name)
+  if (data.startAt !== undefined) update.startAt = parseDate(data.startAt, "startAt")
+  if (data.endAt !== undefined) update.endAt = parseDate(data.endAt, "endAt")
+  if (data.statusId !== undefined) update.statusId = data.statusId as string
+  if (data.group !== undefined) update.group = data.group as string
+  if (data.owner !== undefined) update.owner = data.owner as string
+  if (data.description !== undefined) update.description = data.description as string
+  if (data.progress !== undefined) update.progress = data.progress as number
+  if (data.priority !== undefined) update.priority = parseTaskPriority(data.priority)
+  if (data.tags !== undefined) update.tags = parseTaskTags(data.tags)
+  if (data.isMilestone !== undefined) update.isMilestone = Boolean(data.isMilestone)
+  if (data.parentId !== undefined) update.parentId = data.parentId ? String(data.parentId) : null
+  if (data.dependencies !== undefined) update.dependencies = parseTaskPredecessors(data.dependencies)
+  if (data.assignments !== undefined) update.assignments = parseTaskAssignments(data.assignments)
+  update.expectedVersion = parseExpectedVersion(data.version)
+
+  return update
+}
+
+/**
+ * Parse the operations of a batch request body
+ * Body: { operations: [{ type: "create", data } | { type: "update", id, data } | { type: "delete", id }], modifiedBy? }
+ * Task fields are the same as for POST /api/tasks and PATCH /api/tasks/[id].
+ * Throws with the position of the first invalid operation.
+ */
+export function parseTaskBatchInput(body: Record<string, unknown>): TaskBatchOperation[] {
+  if (!Array.isArray(body.operations) || body.operations.length === 0) {
+    throw new Error("operations must be a non-empty array")
+  }
+  if (body.operations.length > MAX_BATCH_OPERATIONS) {
+    throw new Error(`A batch may contain at most ${MAX_BATCH_OPERATIONS} operations`)
+  }
+
+  const modifiedBy = body.modifiedBy ? String(body.modifiedBy) : undefined
+
+  return (body.operations as Record<string, unknown>[]).map((operation, index) => {
+    try {
+      const type = operation?.type as TaskBatchOperation["type"]
+      if (!OPERATION_TYPES.includes(type)) {
+        throw new Error(`type must be one of ${OPERATION_TYPES.join(", ")}`)
+      }
+      if (type !== "create" && !operation.id) {
+        throw new Error(`${type} requires an id`)
+      }
+
+      const data = (operation.data ?? {}) as Record<string, unknown>
+      if (type === "create") {
+        return { type, data: { ...parseCreateData(data), modifiedBy } }
+      }
+      if (type === "update") {
+        return { type, id: String(operation.id), data: { ...parseUpdateData(data), modifiedBy } }
+      }
+      return { type, id: String(operation.id) }
+    } catch (error) {
+      throw new Error(`operations[${index}]: ${error instanceof Error ? error.message : "Invalid operation"}`)
+    }
+  })
+}
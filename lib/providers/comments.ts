@@ -0,0 +1,106 @@
+import type { Comment, CreateCommentDTO, Resource } from "@/types/task"
+
+/**
+ * Shared comment helpers used by every data provider and the comment routes
+ */
+
+export const MAX_COMMENT_LENGTH = 5000
+
+/**
+ * Check a new comment against the existing comments of its task
+ * Returns an error message, or null if the data is valid
+ */
+export function validateComment(existing: Comment[], data: CreateCommentDTO): string | null {
+  if (!data.taskId) {
+    return "Comment requires a taskId"
+  }
+  if (!data.userId || !data.userName?.trim()) {
+    return "Comment requires userId and userName"
+  }
+  if (!data.content?.trim()) {
+    return "Comment content is required"
+  }
+  if (data.content.length > MAX_COMMENT_LENGTH) {
+    return `Comment content must be at most ${MAX_COMMENT_LENGTH} characters`
+  }
+  if (data.parentId && !existing.some((comment) => comment.id === data.parentId && comment.taskId === data.taskId)) {
+    return "Parent comment not found on this task"
+  }
+  return null
+}
+
+export function assertValidComment(existing: Comment[], data: CreateCommentDTO): void {
+  const error = validateComment(existing, data)
+  if (error) {
+    throw new Error(error)
+  }
+}
+
+/**
+ * Ids of a comment and all of its replies, at any depth
+ * Used to delete a whole thread branch.
+ */
+export function getCommentThreadIds(comments: Comment[], commentId: string): string[] {
+  const ids = [commentId]
+  for (let i = 0; i < ids.length; i++) {
+    comments.forEach((comment) => {
+      if (comment.parentId === ids[i]) ids.push(comment.id)
+    })
+  }
+  return ids
+}
+
+/**
+ * Sort comments oldest first, the order threads are read in
+ */
+export function sortComments(comments: Comment[]): Comment[] {
+  return [...comments].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+}
+
+/**
+ * Find the resources @mentioned in a comment
+ * Names may contain spaces, so longer names are matched first
+ * ("@Ann Lee" mentions "Ann Lee", not "Ann").
+ */
+export function findMentions(content: string, resources: Pick<Resource, "id" | "name">[]): string[] {
+  const lower = content.toLowerCase()
+  const byLength = [...resources].filter((resource) => resource.name).sort((a, b) => b.name.length - a.name.length)
+  const taken: [number, number][] = []
+  const ids: string[] = []
+
+  byLength.forEach((resource) => {
+    const needle = `@${resource.name.toLowerCase()}`
+    for (let index = lower.indexOf(needle); index !== -1; index = lower.indexOf(needle, index + 1)) {
+      const end = index + needle.length
+      const overlaps = taken.some(([start, stop]) => index < stop && end > start)
+      // The name must end at a word boundary, so "@Ann" doesn't match "@Anna"
+      if (overlaps || /[\p{L}\p{N}_]/u.test(lower.charAt(end))) continue
+
+      taken.push([index, end])
+      if (!ids.includes(resource.id)) ids.push(resource.id)
+    }
+  })
+
+  return ids
+}
+
+/**
+ * Fill in Comment.mentions from the current resource names
+ */
+export function attachMentions(comments: Comment[], resources: Pick<Resource, "id" | "name">[]): Comment[] {
+  return comments.map((comment) => ({ ...comment, mentions: findMentions(comment.content, resources) }))
+}
+
+/**
+ * Pick the comment fields of a create request body
+ */
+export function parseCommentInput(taskId: string, body: Record<string, unknown>): CreateCommentDTO {
+  return {
+    taskId,
+    userId: body.userId ? String(body.userId) : "",
+    userName: body.userName ? String(body.userName).trim() : "",
+    userAvatar: body.userAvatar ? String(body.userAvatar) : undefined,
+    content: typeof body.content === "string" ? body.content.trim() : "",
+    parentId: body.parentId ? String(body.parentId) : undefined,
+  }
+}
@@ -0,0 +1,69 @@
+import type { Task } from "@/types/task"
+
+/**
+ * Shared optimistic concurrency helpers used by every data provider and the task routes
+ *
+ * Every update increments Task.version. An update that names the version it
+ * was based on (UpdateTaskDTO.expectedVersion) is rejected with a
+ * TaskVersionConflictError when the task has moved on since.
+ */
+
+// Version of a newly created task, and of tasks stored before versioning
+export const INITIAL_TASK_VERSION = 1
+
+/**
+ * Thrown when an update was based on an outdated version of a task
+ * Carries the current copy so the caller can show what changed.
+ */
+export class TaskVersionConflictError extends Error {
+  readonly current: Task
+  readonly expectedVersion: number
+
+  constructor(current: Task, expectedVersion: number) {
+    super(
+      `Task ${current.id} was changed by someone else (expected version ${expectedVersion}, found ${current.version})`
+    )
+    this.name = "TaskVersionConflictError"
+    this.current = current
+    this.expectedVersion = expectedVersion
+  }
+}
+
+export function isTaskVersionConflict(error: unknown): error is TaskVersionConflictError {
+  return error instanceof TaskVersionConflictError
+}
+
+/**
+ * Throw a conflict unless the task is at the expected version
+ * For providers that read and write in one step (in-memory, or re-read before writing).
+ */
+export function assertTaskVersion(current: Task, expectedVersion?: number): void {
+  if (expectedVersion === undefined) return
+  if ((current.version ?? INITIAL_TASK_VERSION) !== expectedVersion) {
+    throw new TaskVersionConflictError(current, expectedVersion)
+  }
+}
+
+/**
+ * Error for a conditional update that matched no row
+ * It's a conflict when the task still exists, otherwise the task is gone.
+ */
+export function getUnmatchedUpdateError(id: string, current: Task | null, expectedVersion?: number): Error {
+  if (current && expectedVersion !== undefined) {
+    return new TaskVersionConflictError(current, expectedVersion)
+  }
+  return new Error(`Task with ID ${id} not found`)
+}
+
+/**
+ * Parse the expected version of an update request, undefined when not given
+ */
+export function parseExpectedVersion(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined
+
+  const version = Number(value)
+  if (!Number.isInteger(version) || version < INITIAL_TASK_VERSION) {
+    throw new Error("version must be a positive integer")
+  }
+  return version
+}
@@ -1,17 +1,39 @@
 import {
   Task,
   TaskStatus,
+  CreateStatusDTO,
   CreateTaskDTO,
   UpdateTaskDTO,
   PaginatedResponse,
   TaskQueryParams,
+  TaskDependency,
+  CreateDependencyDTO,
+  WorkCalendar,
+  Resource,
+  CreateResourceDTO,
+  UpdateResourceDTO,
+  ResourceAllocation,
+  CreateAllocationDTO,
+  UpdateAllocationDTO,
+  AllocationQueryParams,
+  Comment,
+  CreateCommentDTO,
+  ChangeSet,
+  ChangeHistoryQueryParams,
+  TaskBatchOperation,
+  TaskBatchResult,
 } from "@/types/task"
+import type { PostgresConfig } from "./postgres/types"
+import type { MySQLConfig } from "./mysql/mysql-provider"
+import type { MongoDBConfig } from "./mongodb/mongodb-provider"
+import type { ExcelConfig } from "./excel/excel-provider"
 
 /**
  * Data Provider Interface
  *
  * This interface defines the contract for all data providers.
- * Implementations can connect to different backends (Baserow, Postgres, etc.)
+ * Implementations can connect to different backends (Baserow, Postgres, MySQL,
+ * MongoDB, Excel, etc.)
  * while keeping the same API surface for the application.
  */
 export interface IDataProvider {
@@ -22,22 +44,89 @@ export interface IDataProvider {
   createTask(data: CreateTaskDTO): Promise<Task>
   updateTask(id: string, data: UpdateTaskDTO): Promise<Task>
   deleteTask(id: string): Promise<void>
+  // Apply create/update/delete operations all or nothing, in order; a failed
+  // batch throws a TaskBatchError with the outcome of every operation
+  applyTaskBatch(operations: TaskBatchOperation[]): Promise<TaskBatchResult[]>
 
   // Status operations
   getStatuses(): Promise<TaskStatus[]>
   getStatusById(id: string): Promise<TaskStatus | null>
+  // Names are unique, ignoring case
+  createStatus(data: CreateStatusDTO): Promise<TaskStatus>
+
+  // Dependency operations
+  // getDependencies(taskId) returns links where the task is predecessor or successor
+  getDependencies(taskId?: string): Promise<TaskDependency[]>
+  addDependency(data: CreateDependencyDTO): Promise<TaskDependency>
+  removeDependency(id: string): Promise<void>
+
+  // Working calendar (weekdays, holidays and per-resource exceptions)
+  getWorkCalendar(): Promise<WorkCalendar>
+  saveWorkCalendar(calendar: WorkCalendar): Promise<WorkCalendar>
+
+  // Resource operations
+  // deleteResource also removes the resource's allocations
+  getResources(): Promise<Resource[]>
+  getResourceById(id: string): Promise<Resource | null>
+  createResource(data: CreateResourceDTO): Promise<Resource>
+  updateResource(id: string, data: UpdateResourceDTO): Promise<Resource>
+  deleteResource(id: string): Promise<void>
+
+  // Allocation operations (resource assignments to tasks)
+  getAllocations(params?: AllocationQueryParams): Promise<ResourceAllocation[]>
+  createAllocation(data: CreateAllocationDTO): Promise<ResourceAllocation>
+  updateAllocation(id: string, data: UpdateAllocationDTO): Promise<ResourceAllocation>
+  deleteAllocation(id: string): Promise<void>
+
+  // Comment operations (threaded through parentId), oldest first
+  // deleteComment also removes the comment's replies; deleteTask removes all of a task's comments
+  getComments(taskId: string): Promise<Comment[]>
+  createComment(data: CreateCommentDTO): Promise<Comment>
+  deleteComment(id: string): Promise<void>
+
+  // Change history (durable audit log of committed change sets), newest first
+  // Append-only; entries outlive the tasks they describe, and appending a change set twice keeps one copy
+  getChangeHistory(params?: ChangeHistoryQueryParams): Promise<ChangeSet[]>
+  appendChangeSet(changeSet: ChangeSet): Promise<ChangeSet>
 
   // Health check
   isHealthy(): Promise<boolean>
+
+  // Lifecycle (optional) - release pools, connections and file handles
+  close?(): Promise<void>
+}
+
+/**
+ * Supported provider types, as accepted by DATA_PROVIDER and /api/config/*
+ */
+export const PROVIDER_TYPES = ["demo", "baserow", "postgres", "mysql", "mongodb", "excel"] as const
+
+export type ProviderType = (typeof PROVIDER_TYPES)[number]
+
+export function isProviderType(value: unknown): value is ProviderType {
+  return typeof value === "string" && (PROVIDER_TYPES as readonly string[]).includes(value)
 }
 
 /**
  * Provider configuration
+ *
+ * Each provider has its own typed block. Values given here take precedence
+ * over the matching environment variables.
  */
 export interface ProviderConfig {
-  type: "baserow" | "postgres" | "demo"
+  type: ProviderType
   baseUrl?: string
   token?: string
   database?: string
-  // Add other config options as needed
+  baserow?: {
+    tasksTableId?: string
+    statusesTableId?: string
+    calendarTableId?: string
+    resourcesTableId?: string
+    allocationsTableId?: string
+  }
+  postgres?: Partial<PostgresConfig>
+  mysql?: Partial<MySQLConfig>
+  mongodb?: Partial<MongoDBConfig>
+  excel?: Partial<ExcelConfig>
 }
@@ -2,12 +2,58 @@ import { IDataProvider } from "../data-provider.interface"
 import {
   Task,
   TaskStatus,
+  CreateStatusDTO,
   CreateTaskDTO,
   UpdateTaskDTO,
   PaginatedResponse,
   TaskQueryParams,
+  TaskDependency,
+  CreateDependencyDTO,
+  WorkCalendar,
+  Resource,
+  CreateResourceDTO,
+  UpdateResourceDTO,
+  ResourceAllocation,
+  CreateAllocationDTO,
+  UpdateAllocationDTO,
+  AllocationQueryParams,
+  Comment,
+  CreateCommentDTO,
+  ChangeSet,
+  ChangeHistoryQueryParams,
+  TaskBatchOperation,
+  TaskBatchResult,
 } from "@/types/task"
-import { DEMO_TASKS, DEMO_STATUSES } from "@/data/sample/demo-data"
+import {
+  DEMO_TASKS,
+  DEMO_STATUSES,
+  DEMO_DEPENDENCIES,
+  DEMO_RESOURCES,
+  DEMO_ALLOCATIONS,
+} from "@/data/sample/demo-data"
+import {
+  assertValidDependency,
+  attachDependencies,
+  filterDependenciesForTask,
+  syncTaskPredecessors,
+  DEFAULT_DEPENDENCY_TYPE,
+} from "../dependencies"
+import { assertValidParent } from "../hierarchy"
+import { queryTasks } from "../task-query"
+import {
+  assertValidResource,
+  assertValidAllocation,
+  filterAllocations,
+  syncTaskAllocations,
+  DEFAULT_AVAILABILITY,
+  DEFAULT_ALLOCATION,
+} from "../resources"
+import { assertValidStatus, DEFAULT_STATUS_COLOR } from "../statuses"
+import { assertValidComment, getCommentThreadIds, sortComments } from "../comments"
+import { assertTaskVersion, INITIAL_TASK_VERSION } from "../concurrency"
+import { runTaskBatch } from "../batch"
+import { assertValidChangeSet, filterChangeHistory, groupChangeHistoryRows, toChangeHistoryRows } from "../history"
+import { DEFAULT_WORK_CALENDAR, normalizeWorkCalendar } from "@/lib/utils/work-calendar"
 
 /**
  * Demo Data Provider
@@ -21,53 +67,59 @@ import { DEMO_TASKS, DEMO_STATUSES } from "@/data/sample/demo-data"
 export class DemoProvider implements IDataProvider {
   private tasks: Task[] = []
   private statuses: TaskStatus[] = []
+  private dependencies: TaskDependency[] = []
+  private resources: Resource[] = []
+  private allocations: ResourceAllocation[] = []
+  private comments: Comment[] = []
+  private changeSets: ChangeSet[] = []
+  private workCalendar: WorkCalendar = normalizeWorkCalendar(DEFAULT_WORK_CALENDAR)
 
   constructor() {
     // Initialize with demo data
-    this.tasks = JSON.parse(JSON.stringify(DEMO_TASKS))
+    this.tasks = JSON.parse(JSON.stringify(DEMO_TASKS)).map((task: Task) => ({
+      ...task,
+      version: INITIAL_TASK_VERSION,
+    }))
     this.statuses = JSON.parse(JSON.stringify(DEMO_STATUSES))
+    this.dependencies = JSON.parse(JSON.stringify(DEMO_DEPENDENCIES))
+    this.resources = JSON.parse(JSON.stringify(DEMO_RESOURCES))
+    this.allocations = JSON.parse(JSON.stringify(DEMO_ALLOCATIONS))
   }
 
   /**
-   * Get tasks with pagination
+   * Get tasks with filters, sorting and pagination
    */
   async getTasks(params?: TaskQueryParams): Promise<PaginatedResponse<Task>> {
-    const page = params?.page || 1
-    const pageSize = params?.pageSize || 100
-
-    const start = (page - 1) * pageSize
-    const end = start + pageSize
-    const paginatedTasks = this.tasks.slice(start, end)
-
-    return {
-      data: paginatedTasks,
-      total: this.tasks.length,
-      page,
-      pageSize,
-      hasMore: end < this.tasks.length,
-    }
+    const result = queryTasks(this.tasks, params, 100, this.allocations)
+    return { ...result, data: attachDependencies(result.data, this.dependencies) }
   }
 
   /**
    * Get all tasks
    */
   async getAllTasks(): Promise<Task[]> {
-    return [...this.tasks]
+    return attachDependencies(this.tasks, this.dependencies)
   }
 
   /**
    * Get a single task by ID
    */
   async getTaskById(id: string): Promise<Task | null> {
-    return this.tasks.find((task) => task.id === id) || null
+    const task = this.tasks.find((task) => task.id === id)
+    return task ? attachDependencies([task], this.dependencies)[0] : null
   }
 
   /**
    * Create a new task
    */
   async createTask(data: CreateTaskDTO): Promise<Task> {
+    assertValidParent(this.tasks, undefined, data.parentId)
+    if (data.id && this.tasks.some((task) => task.id === data.id)) {
+      throw new Error(`Task with id ${data.id} already exists`)
+    }
+
     const newTask: Task = {
-      id: String(Date.now()),
+      id: data.id || `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       name: data.name,
       startAt: data.startAt,
       endAt: data.endAt,
@@ -78,12 +130,26 @@ export class DemoProvider implements IDataProvider {
       owner: data.owner,
       description: data.description,
       progress: data.progress || 0,
+      priority: data.priority,
+      tags: data.tags,
+      isMilestone: data.isMilestone,
+      parentId: data.parentId,
       createdAt: new Date(),
       updatedAt: new Date(),
+      version: INITIAL_TASK_VERSION,
+      modifiedBy: data.modifiedBy,
     }
 
     this.tasks.push(newTask)
-    return newTask
+
+    if (data.dependencies) {
+      await syncTaskPredecessors(this, newTask.id, data.dependencies)
+    }
+    if (data.assignments) {
+      await syncTaskAllocations(this, newTask.id, data.assignments)
+    }
+
+    return attachDependencies([newTask], this.dependencies)[0]
   }
 
   /**
@@ -96,9 +162,17 @@ export class DemoProvider implements IDataProvider {
       throw new Error(`Task with id ${id} not found`)
     }
 
+    const { dependencies, assignments, parentId, expectedVersion, priority, ...fields } = data
+
+    assertTaskVersion(this.tasks[taskIndex], expectedVersion)
+    assertValidParent(this.tasks, id, parentId)
+
     const updatedTask = {
       ...this.tasks[taskIndex],
-      ...data,
+      ...fields,
+      version: (this.tasks[taskIndex].version ?? INITIAL_TASK_VERSION) + 1,
+      parentId: parentId !== undefined ? parentId || undefined : this.tasks[taskIndex].parentId,
+      priority: priority !== undefined ? priority || undefined : this.tasks[taskIndex].priority,
       status: data.statusId
         ? this.statuses.find((s) => s.id === data.statusId) ||
           this.tasks[taskIndex].status
@@ -107,7 +181,15 @@ export class DemoProvider implements IDataProvider {
     }
 
     this.tasks[taskIndex] = updatedTask
-    return updatedTask
+
+    if (dependencies) {
+      await syncTaskPredecessors(this, id, dependencies)
+    }
+    if (assignments) {
+      await syncTaskAllocations(this, id, assignments)
+    }
+
+    return attachDependencies([updatedTask], this.dependencies)[0]
   }
 
   /**
@@ -121,6 +203,39 @@ export class DemoProvider implements IDataProvider {
     }
 
     this.tasks.splice(taskIndex, 1)
+
+    // Subtasks move up to the top level
+    this.tasks.forEach((task) => {
+      if (task.parentId === id) task.parentId = undefined
+    })
+
+    this.dependencies = this.dependencies.filter(
+      (dep) => dep.predecessorId !== id && dep.successorId !== id
+    )
+    this.allocations = this.allocations.filter((allocation) => allocation.taskId !== id)
+    this.comments = this.comments.filter((comment) => comment.taskId !== id)
+  }
+
+  /**
+   * Apply a batch of task operations, restoring the data as it was if one fails
+   */
+  async applyTaskBatch(operations: TaskBatchOperation[]): Promise<TaskBatchResult[]> {
+    const snapshot = {
+      tasks: this.tasks.map((task) => ({ ...task })),
+      dependencies: [...this.dependencies],
+      allocations: [...this.allocations],
+      comments: [...this.comments],
+    }
+
+    try {
+      return await runTaskBatch(this, operations)
+    } catch (error) {
+      this.tasks = snapshot.tasks
+      this.dependencies = snapshot.dependencies
+      this.allocations = snapshot.allocations
+      this.comments = snapshot.comments
+      throw error
+    }
   }
 
   /**
@@ -137,6 +252,270 @@ export class DemoProvider implements IDataProvider {
     return this.statuses.find((status) => status.id === id) || null
   }
 
+  /**
+   * Create a new status
+   */
+  async createStatus(data: CreateStatusDTO): Promise<TaskStatus> {
+    assertValidStatus(this.statuses, data)
+
+    const status: TaskStatus = {
+      id: `status_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: data.name.trim(),
+      color: data.color || DEFAULT_STATUS_COLOR,
+    }
+
+    this.statuses.push(status)
+    return { ...status }
+  }
+
+  /**
+   * Get dependencies, optionally only those touching a task
+   */
+  async getDependencies(taskId?: string): Promise<TaskDependency[]> {
+    return filterDependenciesForTask([...this.dependencies], taskId)
+  }
+
+  /**
+   * Add a dependency between two tasks
+   */
+  async addDependency(data: CreateDependencyDTO): Promise<TaskDependency> {
+    for (const taskId of [data.predecessorId, data.successorId]) {
+      if (!this.tasks.some((task) => task.id === taskId)) {
+        throw new Error(`Task with id ${taskId} not found`)
+      }
+    }
+    assertValidDependency(this.dependencies, data)
+
+    const dependency: TaskDependency = {
+      id: `dep_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      predecessorId: data.predecessorId,
+      successorId: data.successorId,
+      type: data.type || DEFAULT_DEPENDENCY_TYPE,
+      lag: data.lag || 0,
+    }
+
+    this.dependencies.push(dependency)
+    return dependency
+  }
+
+  /**
+   * Remove a dependency
+   */
+  async removeDependency(id: string): Promise<void> {
+    const index = this.dependencies.findIndex((dep) => dep.id === id)
+
+    if (index === -1) {
+      throw new Error(`Dependency with id ${id} not found`)
+    }
+
+    this.dependencies.splice(index, 1)
+  }
+
+  /**
+   * Get the working calendar
+   */
+  async getWorkCalendar(): Promise<WorkCalendar> {
+    return JSON.parse(JSON.stringify(this.workCalendar))
+  }
+
+  /**
+   * Replace the working calendar
+   */
+  async saveWorkCalendar(calendar: WorkCalendar): Promise<WorkCalendar> {
+    this.workCalendar = normalizeWorkCalendar(calendar)
+    return this.getWorkCalendar()
+  }
+
+  /**
+   * Get all resources
+   */
+  async getResources(): Promise<Resource[]> {
+    return this.resources.map((resource) => ({ ...resource }))
+  }
+
+  /**
+   * Get a single resource by ID
+   */
+  async getResourceById(id: string): Promise<Resource | null> {
+    const resource = this.resources.find((resource) => resource.id === id)
+    return resource ? { ...resource } : null
+  }
+
+  /**
+   * Create a new resource
+   */
+  async createResource(data: CreateResourceDTO): Promise<Resource> {
+    assertValidResource(data, true)
+
+    const resource: Resource = {
+      ...data,
+      id: `res_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      availability: data.availability ?? DEFAULT_AVAILABILITY,
+    }
+
+    this.resources.push(resource)
+    return { ...resource }
+  }
+
+  /**
+   * Update an existing resource
+   */
+  async updateResource(id: string, data: UpdateResourceDTO): Promise<Resource> {
+    const index = this.resources.findIndex((resource) => resource.id === id)
+
+    if (index === -1) {
+      throw new Error(`Resource with id ${id} not found`)
+    }
+
+    assertValidResource(data, false)
+
+    this.resources[index] = { ...this.resources[index], ...data }
+    return { ...this.resources[index] }
+  }
+
+  /**
+   * Delete a resource and its allocations
+   */
+  async deleteResource(id: string): Promise<void> {
+    const index = this.resources.findIndex((resource) => resource.id === id)
+
+    if (index === -1) {
+      throw new Error(`Resource with id ${id} not found`)
+    }
+
+    this.resources.splice(index, 1)
+    this.allocations = this.allocations.filter((allocation) => allocation.resourceId !== id)
+  }
+
+  /**
+   * Get allocations, optionally filtered by task or resource
+   */
+  async getAllocations(params?: AllocationQueryParams): Promise<ResourceAllocation[]> {
+    return filterAllocations(this.allocations, params).map((allocation) => ({ ...allocation }))
+  }
+
+  /**
+   * Assign a resource to a task
+   */
+  async createAllocation(data: CreateAllocationDTO): Promise<ResourceAllocation> {
+    if (!this.tasks.some((task) => task.id === data.taskId)) {
+      throw new Error(`Task with id ${data.taskId} not found`)
+    }
+    if (!this.resources.some((resource) => resource.id === data.resourceId)) {
+      throw new Error(`Resource with id ${data.resourceId} not found`)
+    }
+    assertValidAllocation(this.allocations, data)
+
+    const allocation: ResourceAllocation = {
+      id: `alloc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      taskId: data.taskId,
+      resourceId: data.resourceId,
+      allocation: data.allocation ?? DEFAULT_ALLOCATION,
+      startDate: data.startDate,
+      endDate: data.endDate,
+    }
+
+    this.allocations.push(allocation)
+    return { ...allocation }
+  }
+
+  /**
+   * Update an allocation's percentage or dates
+   */
+  async updateAllocation(id: string, data: UpdateAllocationDTO): Promise<ResourceAllocation> {
+    const index = this.allocations.findIndex((allocation) => allocation.id === id)
+
+    if (index === -1) {
+      throw new Error(`Allocation with id ${id} not found`)
+    }
+
+    const updated = { ...this.allocations[index], ...data }
+    assertValidAllocation(this.allocations, updated, id)
+
+    this.allocations[index] = updated
+    return { ...updated }
+  }
+
+  /**
+   * Remove an allocation
+   */
+  async deleteAllocation(id: string): Promise<void> {
+    const index = this.allocations.findIndex((allocation) => allocation.id === id)
+
+    if (index === -1) {
+      throw new Error(`Allocation with id ${id} not found`)
+    }
+
+    this.allocations.splice(index, 1)
+  }
+
+  /**
+   * Get the comments of a task
+   */
+  async getComments(taskId: string): Promise<Comment[]> {
+    return sortComments(this.comments.filter((comment) => comment.taskId === taskId)).map((comment) => ({
+      ...comment,
+    }))
+  }
+
+  /**
+   * Add a comment or a reply to a task
+   */
+  async createComment(data: CreateCommentDTO): Promise<Comment> {
+    if (!this.tasks.some((task) => task.id === data.taskId)) {
+      throw new Error(`Task with id ${data.taskId} not found`)
+    }
+    assertValidComment(this.comments, data)
+
+    const comment: Comment = {
+      id: `comment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      taskId: data.taskId,
+      userId: data.userId,
+      userName: data.userName,
+      userAvatar: data.userAvatar,
+      content: data.content,
+      timestamp: new Date(),
+      parentId: data.parentId,
+    }
+
+    this.comments.push(comment)
+    return { ...comment }
+  }
+
+  /**
+   * Delete a comment and its replies
+   */
+  async deleteComment(id: string): Promise<void> {
+    if (!this.comments.some((comment) => comment.id === id)) {
+      throw new Error(`Comment with id ${id} not found`)
+    }
+
+    const threadIds = new Set(getCommentThreadIds(this.comments, id))
+    this.comments = this.comments.filter((comment) => !threadIds.has(comment.id))
+  }
+
+  /**
+   * Get the change history, newest first
+   */
+  async getChangeHistory(params?: ChangeHistoryQueryParams): Promise<ChangeSet[]> {
+    return filterChangeHistory(this.changeSets, params)
+  }
+
+  /**
+   * Append a committed change set to the history
+   * Values go through the same JSON round trip as in the stored providers.
+   */
+  async appendChangeSet(changeSet: ChangeSet): Promise<ChangeSet> {
+    assertValidChangeSet(changeSet)
+
+    const existing = this.changeSets.find((entry) => entry.id === changeSet.id)
+    if (existing) return existing
+
+    const [stored] = groupChangeHistoryRows(toChangeHistoryRows(changeSet))
+    this.changeSets.push(stored)
+    return stored
+  }
+
   /**
    * Health check
    */
@@ -149,6 +528,7 @@ export class DemoProvider implements IDataProvider {
    */
   loadTasksFromJSON(tasks: Task[]): void {
     this.tasks = JSON.parse(JSON.stringify(tasks))
+    this.dependencies = this.tasks.flatMap((task) => task.dependencies || [])
   }
 
   /**
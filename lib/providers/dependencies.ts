@@ -0,0 +1,168 @@
+import type {
+  Task,
+  TaskDependency,
+  DependencyType,
+  CreateDependencyDTO,
+  TaskPredecessorDTO,
+} from "@/types/task"
+import { validateDependencies } from "@/lib/utils/critical-path"
+import type { IDataProvider } from "./data-provider.interface"
+
+/**
+ * Shared dependency helpers used by every data provider
+ */
+
+export const DEPENDENCY_TYPES: DependencyType[] = [
+  "finish-to-start",
+  "start-to-start",
+  "finish-to-finish",
+  "start-to-finish",
+]
+
+export const DEFAULT_DEPENDENCY_TYPE: DependencyType = "finish-to-start"
+
+export function isDependencyType(value: unknown): value is DependencyType {
+  return typeof value === "string" && (DEPENDENCY_TYPES as string[]).includes(value)
+}
+
+/**
+ * Check a new dependency against the existing graph
+ * Returns an error message, or null if the link is valid
+ */
+export function validateNewDependency(
+  existing: TaskDependency[],
+  data: CreateDependencyDTO
+): string | null {
+  if (!data.predecessorId || !data.successorId) {
+    return "Dependency requires predecessorId and successorId"
+  }
+  if (data.predecessorId === data.successorId) {
+    return "A task cannot depend on itself"
+  }
+  if (data.type !== undefined && !isDependencyType(data.type)) {
+    return `Dependency type must be one of: ${DEPENDENCY_TYPES.join(", ")}`
+  }
+  if (data.lag !== undefined && !Number.isFinite(data.lag)) {
+    return "Dependency lag must be a number of days"
+  }
+  if (
+    existing.some(
+      (dep) => dep.predecessorId === data.predecessorId && dep.successorId === data.successorId
+    )
+  ) {
+    return "Dependency already exists"
+  }
+
+  const { valid, circularDependencies } = validateDependencies([
+    ...existing,
+    {
+      id: "new",
+      predecessorId: data.predecessorId,
+      successorId: data.successorId,
+      type: data.type || DEFAULT_DEPENDENCY_TYPE,
+    },
+  ])
+  if (!valid) {
+    return `Dependency would create a cycle: ${circularDependencies?.[0]}`
+  }
+
+  return null
+}
+
+/**
+ * Throwing variant of validateNewDependency for provider implementations
+ */
+export function assertValidDependency(existing: TaskDependency[], data: CreateDependencyDTO): void {
+  const error = validateNewDependency(existing, data)
+  if (error) {
+    throw new Error(error)
+  }
+}
+
+/**
+ * Replace the predecessors of a task with the given list
+ * Unchanged links are kept, so their ids stay stable
+ */
+export async function syncTaskPredecessors(
+  provider: Pick<IDataProvider, "getDependencies" | "addDependency" | "removeDependency">,
+  taskId: string,
+  predecessors: TaskPredecessorDTO[]
+): Promise<TaskDependency[]> {
+  const current = (await provider.getDependencies(taskId)).filter(
+    (dep) => dep.successorId === taskId
+  )
+
+  const matches = (dep: TaskDependency, wanted: TaskPredecessorDTO) =>
+    dep.predecessorId === wanted.predecessorId &&
+    dep.type === (wanted.type || DEFAULT_DEPENDENCY_TYPE) &&
+    (dep.lag || 0) === (wanted.lag || 0)
+
+  const toRemove = current.filter((dep) => !predecessors.some((wanted) => matches(dep, wanted)))
+  const toAdd = predecessors.filter((wanted) => !current.some((dep) => matches(dep, wanted)))
+
+  for (const dep of toRemove) {
+    await provider.removeDependency(dep.id)
+  }
+  for (const wanted of toAdd) {
+    await provider.addDependency({ ...wanted, successorId: taskId })
+  }
+
+  return (await provider.getDependencies(taskId)).filter((dep) => dep.successorId === taskId)
+}
+
+/**
+ * Attach each task's incoming dependencies to Task.dependencies
+ */
+export function attachDependencies(tasks: Task[], dependencies: TaskDependency[]): Task[] {
+  const bySuccessor = new Map<string, TaskDependency[]>()
+  dependencies.forEach((dep) => {
+    const list = bySuccessor.get(dep.successorId) || []
+    list.push(dep)
+    bySuccessor.set(dep.successorId, list)
+  })
+
+  return tasks.map((task) => ({
+    ...task,
+    dependencies: bySuccessor.get(task.id) || [],
+  }))
+}
+
+/**
+ * Filter dependencies to those touching a task (as predecessor or successor)
+ */
+export function filterDependenciesForTask(
+  dependencies: TaskDependency[],
+  taskId?: string
+): TaskDependency[] {
+  if (!taskId) return dependencies
+  return dependencies.filter((dep) => dep.predecessorId === taskId || dep.successorId === taskId)
+}
+
+/**
+ * Parse the `dependencies` field of a task create/update request body
+ * Accepts predecessor objects or plain predecessor ids (finish-to-start)
+ */
+export function parseTaskPredecessors(value: unknown): TaskPredecessorDTO[] | undefined {
+  if (value === undefined || value === null) return undefined
+  if (!Array.isArray(value)) {
+    throw new Error("dependencies must be an array")
+  }
+
+  return value.map((item) => {
+    if (typeof item === "string" || typeof item === "number") {
+      return { predecessorId: String(item) }
+    }
+    if (!item || typeof item !== "object" || !("predecessorId" in item)) {
+      throw new Error("Each dependency requires a predecessorId")
+    }
+    if (item.type !== undefined && !isDependencyType(item.type)) {
+      throw new Error(`Dependency type must be one of: ${DEPENDENCY_TYPES.join(", ")}`)
+    }
+
+    return {
+      predecessorId: String(item.predecessorId),
+      type: item.type,
+      lag: item.lag !== undefined ? Number(item.lag) : undefined,
+    }
+  })
+}
@@ -1,21 +1,75 @@
 import 'server-only'
 import * as XLSX from 'xlsx'
 import * as fs from 'fs/promises'
+import { watch, type FSWatcher } from 'fs'
 import * as path from 'path'
 import { IDataProvider } from '../data-provider.interface'
 import type {
   Task,
   TaskStatus,
+  CreateStatusDTO,
   CreateTaskDTO,
   UpdateTaskDTO,
   PaginatedResponse,
   TaskQueryParams,
+  TaskDependency,
+  CreateDependencyDTO,
+  WorkCalendar,
+  Resource,
+  CreateResourceDTO,
+  UpdateResourceDTO,
+  ResourceAllocation,
+  CreateAllocationDTO,
+  UpdateAllocationDTO,
+  AllocationQueryParams,
+  Comment,
+  CreateCommentDTO,
+  ChangeSet,
+  ChangeHistoryQueryParams,
+  TaskBatchOperation,
+  TaskBatchResult,
 } from '@/types/task'
+import {
+  assertValidDependency,
+  attachDependencies,
+  filterDependenciesForTask,
+  isDependencyType,
+  syncTaskPredecessors,
+  DEFAULT_DEPENDENCY_TYPE,
+} from '../dependencies'
+import { assertValidParent } from '../hierarchy'
+import { queryTasks } from '../task-query'
+import {
+  assertValidResource,
+  assertValidAllocation,
+  filterAllocations,
+  syncTaskAllocations,
+  DEFAULT_AVAILABILITY,
+  DEFAULT_ALLOCATION,
+} from '../resources'
+import { assertValidStatus, DEFAULT_STATUS_COLOR } from '../statuses'
+import { assertValidComment, getCommentThreadIds, sortComments } from '../comments'
+import {
+  assertValidChangeSet,
+  filterChangeHistory,
+  groupChangeHistoryRows,
+  toChangeHistoryRows,
+  type ChangeHistoryRow,
+} from '../history'
+import { assertTaskVersion, INITIAL_TASK_VERSION } from '../concurrency'
+import { runTaskBatch } from '../batch'
+import { DEFAULT_WORK_CALENDAR, normalizeWorkCalendar, toDateKey } from '@/lib/utils/work-calendar'
 
 export interface ExcelConfig {
   filePath: string
   tasksSheet?: string
   statusesSheet?: string
+  dependenciesSheet?: string
+  calendarSheet?: string
+  resourcesSheet?: string
+  allocationsSheet?: string
+  commentsSheet?: string
+  historySheet?: string
   autoSave?: boolean
   watchFile?: boolean
 }
@@ -24,15 +78,28 @@ export class ExcelProvider implements IDataProvider {
   private config: ExcelConfig
   private tasks: Map<string, Task> = new Map()
   private statuses: Map<string, TaskStatus> = new Map()
+  private dependencies: Map<string, TaskDependency> = new Map()
+  private resources: Map<string, Resource> = new Map()
+  private allocations: Map<string, ResourceAllocation> = new Map()
+  private comments: Map<string, Comment> = new Map()
+  private history: ChangeHistoryRow[] = []
+  private workCalendar: WorkCalendar = normalizeWorkCalendar(DEFAULT_WORK_CALENDAR)
   private workbook: XLSX.WorkBook | null = null
-  private fileWatcher: unknown = null
+  private fileWatcher: FSWatcher | null = null
   private lastModified: number = 0
+  private batchInProgress = false // Sheets are written to the file once the whole batch is applied
 
   constructor(config: ExcelConfig) {
     this.config = {
       ...config,
       tasksSheet: config.tasksSheet || 'Tasks',
       statusesSheet: config.statusesSheet || 'Statuses',
+      dependenciesSheet: config.dependenciesSheet || 'Dependencies',
+      calendarSheet: config.calendarSheet || 'Calendar',
+      resourcesSheet: config.resourcesSheet || 'Resources',
+      allocationsSheet: config.allocationsSheet || 'Allocations',
+      commentsSheet: config.commentsSheet || 'Comments',
+      historySheet: config.historySheet || 'History',
       autoSave: config.autoSave !== false,
     }
   }
@@ -87,6 +154,137 @@ export class ExcelProvider implements IDataProvider {
         })
       }
 
+      // Load dependencies
+      this.dependencies.clear()
+      if (this.workbook.SheetNames.includes(this.config.dependenciesSheet!)) {
+        const dependencySheet = this.workbook.Sheets[this.config.dependenciesSheet!]
+        const dependencyData = XLSX.utils.sheet_to_json(dependencySheet) as Record<string, unknown>[]
+
+        dependencyData.forEach((row) => {
+          const predecessorId = row.predecessorId ?? row.PredecessorId
+          const successorId = row.successorId ?? row.SuccessorId
+          if (predecessorId === undefined || successorId === undefined) return
+
+          const type = row.type || row.Type
+          const dependency: TaskDependency = {
+            id: String(row.id || row.ID || `dep_${predecessorId}_${successorId}`),
+            predecessorId: String(predecessorId),
+            successorId: String(successorId),
+            type: isDependencyType(type) ? type : DEFAULT_DEPENDENCY_TYPE,
+            lag: Number(row.lag ?? row.Lag ?? 0) || 0,
+          }
+          this.dependencies.set(dependency.id, dependency)
+        })
+      }
+
+      // Load resources
+      this.resources.clear()
+      if (this.workbook.SheetNames.includes(this.config.resourcesSheet!)) {
+        const resourceSheet = this.workbook.Sheets[this.config.resourcesSheet!]
+        const resourceData = XLSX.utils.sheet_to_json(resourceSheet) as Record<string, unknown>[]
+
+        resourceData.forEach((row) => {
+          const id = row.id ?? row.ID
+          const name = row.name ?? row.Name
+          if (id === undefined || !name) return
+
+          const availability = row.availability ?? row.Availability
+          const resource: Resource = {
+            id: String(id),
+            name: String(name),
+            email: ((row.email || row.Email) as string | undefined) || undefined,
+            role: ((row.role || row.Role) as string | undefined) || undefined,
+            avatar: ((row.avatar || row.Avatar) as string | undefined) || undefined,
+            availability: availability !== undefined && availability !== '' ? Number(availability) : DEFAULT_AVAILABILITY,
+            color: ((row.color || row.Color) as string | undefined) || undefined,
+          }
+          this.resources.set(resource.id, resource)
+        })
+      }
+
+      // Load allocations
+      this.allocations.clear()
+      if (this.workbook.SheetNames.includes(this.config.allocationsSheet!)) {
+        const allocationSheet = this.workbook.Sheets[this.config.allocationsSheet!]
+        const allocationData = XLSX.utils.sheet_to_json(allocationSheet) as Record<string, unknown>[]
+
+        allocationData.forEach((row) => {
+          const taskId = row.taskId ?? row.TaskId
+          const resourceId = row.resourceId ?? row.ResourceId
+          if (taskId === undefined || resourceId === undefined) return
+
+          const allocation: ResourceAllocation = {
+            id: String(row.id || row.ID || `alloc_${taskId}_${resourceId}`),
+            taskId: String(taskId),
+            resourceId: String(resourceId),
+            allocation: Number(row.allocation ?? row.Allocation ?? DEFAULT_ALLOCATION) || DEFAULT_ALLOCATION,
+            startDate: this.parseDate(row.startDate || row.StartDate),
+            endDate: this.parseDate(row.endDate || row.EndDate),
+          }
+          this.allocations.set(allocation.id, allocation)
+        })
+      }
+
+      // Load comments
+      this.comments.clear()
+      if (this.workbook.SheetNames.includes(this.config.commentsSheet!)) {
+        const commentSheet = this.workbook.Sheets[this.config.commentsSheet!]
+        const commentData = XLSX.utils.sheet_to_json(commentSheet) as Record<string, unknown>[]
+
+        commentData.forEach((row) => {
+          const id = row.id ?? row.ID
+          const taskId = row.taskId ?? row.TaskId
+          if (id === undefined || taskId === undefined) return
+
+          const comment: Comment = {
+            id: String(id),
+            taskId: String(taskId),
+            userId: String(row.userId ?? row.UserId ?? ''),
+            userName: String(row.userName ?? row.UserName ?? ''),
+            userAvatar: (row.userAvatar || row.UserAvatar || undefined) as string | undefined,
+            content: String(row.content ?? row.Content ?? ''),
+            timestamp: this.parseDate(row.timestamp || row.Timestamp) || new Date(0),
+            parentId: String(row.parentId || row.ParentId || '') || undefined,
+          }
+          this.comments.set(comment.id, comment)
+        })
+      }
+
+      // Load change history
+      this.history = []
+      if (this.workbook.SheetNames.includes(this.config.historySheet!)) {
+        const historySheet = this.workbook.Sheets[this.config.historySheet!]
+        const historyData = XLSX.utils.sheet_to_json(historySheet) as Record<string, unknown>[]
+
+        historyData.forEach((row) => {
+          if (row.id === undefined || row.changeSetId === undefined || row.taskId === undefined) return
+
+          this.history.push({
+            id: String(row.id),
+            changeSetId: String(row.changeSetId),
+            position: Number(row.position) || 0,
+            taskId: String(row.taskId),
+            changeType: String(row.changeType) as ChangeHistoryRow['changeType'],
+            field: String(row.field || '') || undefined,
+            oldValue: String(row.oldValue || '') || undefined,
+            newValue: String(row.newValue || '') || undefined,
+            userId: String(row.userId || '') || undefined,
+            userName: String(row.userName || '') || undefined,
+            description: String(row.description || '') || undefined,
+            timestamp: this.parseDate(row.timestamp) || new Date(0),
+          })
+        })
+      }
+
+      // Load working calendar
+      if (this.workbook.SheetNames.includes(this.config.calendarSheet!)) {
+        const calendarSheet = this.workbook.Sheets[this.config.calendarSheet!]
+        const calendarData = XLSX.utils.sheet_to_json(calendarSheet) as Record<string, unknown>[]
+        this.workCalendar = this.mapRowsToWorkCalendar(calendarData)
+      } else {
+        this.workCalendar = normalizeWorkCalendar(DEFAULT_WORK_CALENDAR)
+      }
+
       // Get file stats
       const stats = await fs.stat(this.config.filePath)
       this.lastModified = stats.mtimeMs
@@ -159,8 +357,12 @@ export class ExcelProvider implements IDataProvider {
       owner: task.owner || '',
       description: task.description || '',
       progress: task.progress || 0,
+      parentId: task.parentId || '',
+      version: task.version ?? INITIAL_TASK_VERSION,
+      modifiedBy: task.modifiedBy || '',
       priority: task.priority || '',
       tags: task.tags?.join(', ') || '',
+      isMilestone: task.isMilestone || '',
       estimatedHours: task.estimatedHours || '',
       actualHours: task.actualHours || '',
       createdAt: task.createdAt || '',
@@ -179,7 +381,7 @@ export class ExcelProvider implements IDataProvider {
 
     XLSX.utils.book_append_sheet(this.workbook, ws, this.config.tasksSheet!)
 
-    if (this.config.autoSave) {
+    if (this.config.autoSave && !this.batchInProgress) {
       await this.saveToFile()
     }
   }
@@ -201,84 +403,269 @@ export class ExcelProvider implements IDataProvider {
 
     XLSX.utils.book_append_sheet(this.workbook, ws, this.config.statusesSheet!)
 
-    if (this.config.autoSave) {
+    if (this.config.autoSave && !this.batchInProgress) {
       await this.saveToFile()
     }
   }
 
-  private setupFileWatcher(): void {
-    // Simplified file watching
-    // In production, you'd use fs.watch or chokidar
+  private async saveDependencies(): Promise<void> {
+    if (!this.workbook) return
+
+    const dependenciesArray = Array.from(this.dependencies.values()).map((dependency) => ({
+      id: dependency.id,
+      predecessorId: dependency.predecessorId,
+      successorId: dependency.successorId,
+      type: dependency.type,
+      lag: dependency.lag || 0,
+    }))
+
+    const ws = XLSX.utils.json_to_sheet(dependenciesArray, {
+      header: ['id', 'predecessorId', 'successorId', 'type', 'lag'],
+    })
+
+    // Remove old dependencies sheet if exists
+    if (this.workbook.SheetNames.includes(this.config.dependenciesSheet!)) {
+      delete this.workbook.Sheets[this.config.dependenciesSheet!]
+      this.workbook.SheetNames = this.workbook.SheetNames.filter(
+        (name) => name !== this.config.dependenciesSheet
+      )
+    }
+
+    XLSX.utils.book_append_sheet(this.workbook, ws, this.config.dependenciesSheet!)
+
+    if (this.config.autoSave && !this.batchInProgress) {
+      await this.saveToFile()
+    }
   }
 
-  async getTasks(params?: TaskQueryParams): Promise<PaginatedResponse<Task>> {
-    await this.checkForFileChanges()
+  private async saveResources(): Promise<void> {
+    if (!this.workbook) return
+
+    const resourcesArray = Array.from(this.resources.values()).map((resource) => ({
+      id: resource.id,
+      name: resource.name,
+      email: resource.email || '',
+      role: resource.role || '',
+      avatar: resource.avatar || '',
+      availability: resource.availability ?? DEFAULT_AVAILABILITY,
+      color: resource.color || '',
+    }))
 
-    let filteredTasks = Array.from(this.tasks.values())
+    const ws = XLSX.utils.json_to_sheet(resourcesArray, {
+      header: ['id', 'name', 'email', 'role', 'avatar', 'availability', 'color'],
+    })
 
-    // Apply filters
-    if (params?.startDate) {
-      filteredTasks = filteredTasks.filter(
-        (task) => task.startAt >= params.startDate!
+    // Remove old resources sheet if exists
+    if (this.workbook.SheetNames.includes(this.config.resourcesSheet!)) {
+      delete this.workbook.Sheets[this.config.resourcesSheet!]
+      this.workbook.SheetNames = this.workbook.SheetNames.filter(
+        (name) => name !== this.config.resourcesSheet
       )
     }
-    if (params?.endDate) {
-      filteredTasks = filteredTasks.filter((task) => task.endAt <= params.endDate!)
+
+    XLSX.utils.book_append_sheet(this.workbook, ws, this.config.resourcesSheet!)
+
+    if (this.config.autoSave && !this.batchInProgress) {
+      await this.saveToFile()
     }
-    if (params?.statusId) {
-      filteredTasks = filteredTasks.filter(
-        (task) => task.status?.id === params.statusId
+  }
+
+  private async saveAllocations(): Promise<void> {
+    if (!this.workbook) return
+
+    const allocationsArray = Array.from(this.allocations.values()).map((allocation) => ({
+      id: allocation.id,
+      taskId: allocation.taskId,
+      resourceId: allocation.resourceId,
+      allocation: allocation.allocation,
+      startDate: allocation.startDate || '',
+      endDate: allocation.endDate || '',
+    }))
+
+    const ws = XLSX.utils.json_to_sheet(allocationsArray, {
+      header: ['id', 'taskId', 'resourceId', 'allocation', 'startDate', 'endDate'],
+    })
+
+    // Remove old allocations sheet if exists
+    if (this.workbook.SheetNames.includes(this.config.allocationsSheet!)) {
+      delete this.workbook.Sheets[this.config.allocationsSheet!]
+      this.workbook.SheetNames = this.workbook.SheetNames.filter(
+        (name) => name !== this.config.allocationsSheet
       )
     }
-    if (params?.group) {
-      filteredTasks = filteredTasks.filter((task) => task.group === params.group)
+
+    XLSX.utils.book_append_sheet(this.workbook, ws, this.config.allocationsSheet!)
+
+    if (this.config.autoSave && !this.batchInProgress) {
+      await this.saveToFile()
     }
-    if (params?.owner) {
-      filteredTasks = filteredTasks.filter((task) => task.owner === params.owner)
+  }
+
+  private async saveHistory(): Promise<void> {
+    if (!this.workbook) return
+
+    const historyArray = this.history.map((row) => ({
+      ...row,
+      field: row.field || '',
+      oldValue: row.oldValue || '',
+      newValue: row.newValue || '',
+      userId: row.userId || '',
+      userName: row.userName || '',
+      description: row.description || '',
+    }))
+
+    const ws = XLSX.utils.json_to_sheet(historyArray, {
+      header: [
+        'id',
+        'changeSetId',
+        'position',
+        'taskId',
+        'changeType',
+        'field',
+        'oldValue',
+        'newValue',
+        'userId',
+        'userName',
+        'description',
+        'timestamp',
+      ],
+    })
+
+    // Remove old history sheet if exists
+    if (this.workbook.SheetNames.includes(this.config.historySheet!)) {
+      delete this.workbook.Sheets[this.config.historySheet!]
+      this.workbook.SheetNames = this.workbook.SheetNames.filter(
+        (name) => name !== this.config.historySheet
+      )
     }
-    if (params?.search) {
-      const search = params.search.toLowerCase()
-      filteredTasks = filteredTasks.filter(
-        (task) =>
-          task.name.toLowerCase().includes(search) ||
-          task.description?.toLowerCase().includes(search)
+
+    XLSX.utils.book_append_sheet(this.workbook, ws, this.config.historySheet!)
+
+    if (this.config.autoSave && !this.batchInProgress) {
+      await this.saveToFile()
+    }
+  }
+
+  private async saveComments(): Promise<void> {
+    if (!this.workbook) return
+
+    const commentsArray = Array.from(this.comments.values()).map((comment) => ({
+      id: comment.id,
+      taskId: comment.taskId,
+      parentId: comment.parentId || '',
+      userId: comment.userId,
+      userName: comment.userName,
+      userAvatar: comment.userAvatar || '',
+      content: comment.content,
+      timestamp: comment.timestamp,
+    }))
+
+    const ws = XLSX.utils.json_to_sheet(commentsArray, {
+      header: ['id', 'taskId', 'parentId', 'userId', 'userName', 'userAvatar', 'content', 'timestamp'],
+    })
+
+    // Remove old comments sheet if exists
+    if (this.workbook.SheetNames.includes(this.config.commentsSheet!)) {
+      delete this.workbook.Sheets[this.config.commentsSheet!]
+      this.workbook.SheetNames = this.workbook.SheetNames.filter(
+        (name) => name !== this.config.commentsSheet
       )
     }
 
-    // Sort by start date
-    filteredTasks.sort((a, b) => a.startAt.getTime() - b.startAt.getTime())
+    XLSX.utils.book_append_sheet(this.workbook, ws, this.config.commentsSheet!)
 
-    // Pagination
-    const page = params?.page || 1
-    const pageSize = params?.pageSize || 50
-    const startIndex = (page - 1) * pageSize
-    const endIndex = startIndex + pageSize
+    if (this.config.autoSave && !this.batchInProgress) {
+      await this.saveToFile()
+    }
+  }
+
+  /**
+   * The calendar sheet has one row per entry:
+   * kind = weekday (value 0-6), holiday (value YYYY-MM-DD) or exception
+   * (value YYYY-MM-DD, with resourceId and isWorking)
+   */
+  private async saveCalendarSheet(): Promise<void> {
+    if (!this.workbook) return
 
-    const paginatedTasks = filteredTasks.slice(startIndex, endIndex)
+    const calendar = this.workCalendar
+    const rows = [
+      ...calendar.workingDays.map((day) => ({ kind: 'weekday', value: day, name: calendar.name })),
+      ...calendar.holidays.map((holiday) => ({ kind: 'holiday', value: holiday.date, name: holiday.name })),
+      ...calendar.resourceExceptions.map((exception) => ({
+        kind: 'exception',
+        value: exception.date,
+        resourceId: exception.resourceId,
+        isWorking: exception.isWorking,
+        name: exception.name,
+      })),
+    ]
 
-    return {
-      data: paginatedTasks,
-      total: filteredTasks.length,
-      page,
-      pageSize,
-      hasMore: endIndex < filteredTasks.length,
+    const ws = XLSX.utils.json_to_sheet(rows, {
+      header: ['kind', 'value', 'resourceId', 'isWorking', 'name'],
+    })
+
+    // Remove old calendar sheet if exists
+    if (this.workbook.SheetNames.includes(this.config.calendarSheet!)) {
+      delete this.workbook.Sheets[this.config.calendarSheet!]
+      this.workbook.SheetNames = this.workbook.SheetNames.filter(
+        (name) => name !== this.config.calendarSheet
+      )
+    }
+
+    XLSX.utils.book_append_sheet(this.workbook, ws, this.config.calendarSheet!)
+
+    if (this.config.autoSave && !this.batchInProgress) {
+      await this.saveToFile()
     }
   }
 
+  private setupFileWatcher(): void {
+    if (this.fileWatcher) return
+
+    try {
+      // Reload when the workbook is edited outside the app
+      this.fileWatcher = watch(this.config.filePath, () => {
+        this.checkForFileChanges().catch((error) => {
+          console.error('Failed to reload Excel file:', error)
+        })
+      })
+    } catch (error) {
+      console.warn('Excel file watching unavailable:', error)
+    }
+  }
+
+  async getTasks(params?: TaskQueryParams): Promise<PaginatedResponse<Task>> {
+    await this.checkForFileChanges()
+
+    const result = queryTasks(
+      Array.from(this.tasks.values()),
+      params,
+      50,
+      Array.from(this.allocations.values())
+    )
+    return { ...result, data: attachDependencies(result.data, Array.from(this.dependencies.values())) }
+  }
+
   async getAllTasks(): Promise<Task[]> {
     await this.checkForFileChanges()
     const tasks = Array.from(this.tasks.values())
     tasks.sort((a, b) => a.startAt.getTime() - b.startAt.getTime())
-    return tasks
+    return attachDependencies(tasks, Array.from(this.dependencies.values()))
   }
 
   async getTaskById(id: string): Promise<Task | null> {
     await this.checkForFileChanges()
-    return this.tasks.get(id) || null
+    const task = this.tasks.get(id)
+    return task ? attachDependencies([task], Array.from(this.dependencies.values()))[0] : null
   }
 
   async createTask(data: CreateTaskDTO): Promise<Task> {
-    const id = this.generateId()
+    assertValidParent(Array.from(this.tasks.values()), undefined, data.parentId)
+    if (data.id && this.tasks.has(data.id)) {
+      throw new Error(`Task with id ${data.id} already exists`)
+    }
+
+    const id = data.id || this.generateId()
     const now = new Date()
 
     let status: TaskStatus | undefined
@@ -296,6 +683,12 @@ export class ExcelProvider implements IDataProvider {
       owner: data.owner,
       description: data.description,
       progress: data.progress || 0,
+      priority: data.priority,
+      tags: data.tags,
+      isMilestone: data.isMilestone,
+      parentId: data.parentId,
+      version: INITIAL_TASK_VERSION,
+      modifiedBy: data.modifiedBy,
       createdAt: now,
       updatedAt: now,
     }
@@ -303,17 +696,30 @@ export class ExcelProvider implements IDataProvider {
     this.tasks.set(id, task)
     await this.saveTasks()
 
+    if (data.dependencies) {
+      task.dependencies = await syncTaskPredecessors(this, id, data.dependencies)
+    }
+    if (data.assignments) {
+      await syncTaskAllocations(this, id, data.assignments)
+    }
+
     return task
   }
 
   async updateTask(id: string, data: UpdateTaskDTO): Promise<Task> {
+    // Pick up edits made to the file directly, so they count as newer versions
+    await this.checkForFileChanges()
     const task = this.tasks.get(id)
     if (!task) {
       throw new Error('Task not found')
     }
 
+    assertTaskVersion(task, data.expectedVersion)
+    assertValidParent(Array.from(this.tasks.values()), id, data.parentId)
+
     const updatedTask: Task = {
       ...task,
+      version: (task.version ?? INITIAL_TASK_VERSION) + 1,
       updatedAt: new Date(),
     }
 
@@ -324,6 +730,11 @@ export class ExcelProvider implements IDataProvider {
     if (data.owner !== undefined) updatedTask.owner = data.owner
     if (data.description !== undefined) updatedTask.description = data.description
     if (data.progress !== undefined) updatedTask.progress = data.progress
+    if (data.priority !== undefined) updatedTask.priority = data.priority || undefined
+    if (data.tags !== undefined) updatedTask.tags = data.tags.length > 0 ? data.tags : undefined
+    if (data.isMilestone !== undefined) updatedTask.isMilestone = data.isMilestone
+    if (data.parentId !== undefined) updatedTask.parentId = data.parentId || undefined
+    if (data.modifiedBy !== undefined) updatedTask.modifiedBy = data.modifiedBy
 
     if (data.statusId !== undefined) {
       if (data.statusId) {
@@ -336,12 +747,286 @@ export class ExcelProvider implements IDataProvider {
     this.tasks.set(id, updatedTask)
     await this.saveTasks()
 
-    return updatedTask
+    if (data.dependencies) {
+      await syncTaskPredecessors(this, id, data.dependencies)
+    }
+    if (data.assignments) {
+      await syncTaskAllocations(this, id, data.assignments)
+    }
+
+    return attachDependencies([updatedTask], Array.from(this.dependencies.values()))[0]
   }
 
   async deleteTask(id: string): Promise<void> {
     this.tasks.delete(id)
+
+    // Subtasks move up to the top level
+    this.tasks.forEach((task) => {
+      if (task.parentId === id) task.parentId = undefined
+    })
     await this.saveTasks()
+
+    // Remove links to and from the deleted task
+    const before = this.dependencies.size
+    this.dependencies.forEach((dependency, dependencyId) => {
+      if (dependency.predecessorId === id || dependency.successorId === id) {
+        this.dependencies.delete(dependencyId)
+      }
+    })
+    if (this.dependencies.size !== before) {
+      await this.saveDependencies()
+    }
+
+    await this.removeAllocationsWhere((allocation) => allocation.taskId === id)
+
+    const commentCount = this.comments.size
+    this.comments.forEach((comment, commentId) => {
+      if (comment.taskId === id) {
+        this.comments.delete(commentId)
+      }
+    })
+    if (this.comments.size !== commentCount) {
+      await this.saveComments()
+    }
+  }
+
+  async applyTaskBatch(operations: TaskBatchOperation[]): Promise<TaskBatchResult[]> {
+    await this.checkForFileChanges()
+    const snapshot = {
+      tasks: new Map(Array.from(this.tasks, ([id, task]) => [id, { ...task }])),
+      dependencies: new Map(this.dependencies),
+      allocations: new Map(this.allocations),
+      comments: new Map(this.comments),
+    }
+
+    this.batchInProgress = true
+    try {
+      const results = await runTaskBatch(this, operations)
+      this.batchInProgress = false
+      if (this.config.autoSave) {
+        await this.saveToFile()
+      }
+      return results
+    } catch (error) {
+      // Put the sheets back as they were; the file was never written
+      this.tasks = snapshot.tasks
+      this.dependencies = snapshot.dependencies
+      this.allocations = snapshot.allocations
+      this.comments = snapshot.comments
+      await this.saveTasks()
+      await this.saveDependencies()
+      await this.saveAllocations()
+      await this.saveComments()
+      throw error
+    } finally {
+      this.batchInProgress = false
+    }
+  }
+
+  async getDependencies(taskId?: string): Promise<TaskDependency[]> {
+    await this.checkForFileChanges()
+    return filterDependenciesForTask(Array.from(this.dependencies.values()), taskId)
+  }
+
+  async addDependency(data: CreateDependencyDTO): Promise<TaskDependency> {
+    await this.checkForFileChanges()
+
+    for (const taskId of [data.predecessorId, data.successorId]) {
+      if (!this.tasks.has(taskId)) {
+        throw new Error(`Task with id ${taskId} not found`)
+      }
+    }
+    assertValidDependency(Array.from(this.dependencies.values()), data)
+
+    const dependency: TaskDependency = {
+      id: `dep_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      predecessorId: data.predecessorId,
+      successorId: data.successorId,
+      type: data.type || DEFAULT_DEPENDENCY_TYPE,
+      lag: data.lag || 0,
+    }
+
+    this.dependencies.set(dependency.id, dependency)
+    await this.saveDependencies()
+
+    return dependency
+  }
+
+  async removeDependency(id: string): Promise<void> {
+    if (!this.dependencies.delete(id)) {
+      throw new Error(`Dependency with id ${id} not found`)
+    }
+    await this.saveDependencies()
+  }
+
+  async getWorkCalendar(): Promise<WorkCalendar> {
+    await this.checkForFileChanges()
+    return this.workCalendar
+  }
+
+  async saveWorkCalendar(calendar: WorkCalendar): Promise<WorkCalendar> {
+    this.workCalendar = { ...normalizeWorkCalendar(calendar), id: DEFAULT_WORK_CALENDAR.id }
+    await this.saveCalendarSheet()
+    return this.workCalendar
+  }
+
+  async getResources(): Promise<Resource[]> {
+    await this.checkForFileChanges()
+    return Array.from(this.resources.values())
+  }
+
+  async getResourceById(id: string): Promise<Resource | null> {
+    await this.checkForFileChanges()
+    return this.resources.get(id) || null
+  }
+
+  async createResource(data: CreateResourceDTO): Promise<Resource> {
+    assertValidResource(data, true)
+
+    const resource: Resource = {
+      ...data,
+      id: `res_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      availability: data.availability ?? DEFAULT_AVAILABILITY,
+    }
+
+    this.resources.set(resource.id, resource)
+    await this.saveResources()
+    return resource
+  }
+
+  async updateResource(id: string, data: UpdateResourceDTO): Promise<Resource> {
+    const resource = this.resources.get(id)
+    if (!resource) {
+      throw new Error(`Resource with id ${id} not found`)
+    }
+
+    assertValidResource(data, false)
+
+    const updatedResource: Resource = { ...resource }
+    Object.entries(data).forEach(([field, value]) => {
+      if (value !== undefined) Object.assign(updatedResource, { [field]: value })
+    })
+
+    this.resources.set(id, updatedResource)
+    await this.saveResources()
+    return updatedResource
+  }
+
+  async deleteResource(id: string): Promise<void> {
+    if (!this.resources.delete(id)) {
+      throw new Error(`Resource with id ${id} not found`)
+    }
+    await this.saveResources()
+    await this.removeAllocationsWhere((allocation) => allocation.resourceId === id)
+  }
+
+  async getAllocations(params?: AllocationQueryParams): Promise<ResourceAllocation[]> {
+    await this.checkForFileChanges()
+    return filterAllocations(Array.from(this.allocations.values()), params)
+  }
+
+  async createAllocation(data: CreateAllocationDTO): Promise<ResourceAllocation> {
+    await this.checkForFileChanges()
+
+    if (!this.tasks.has(data.taskId)) {
+      throw new Error(`Task with id ${data.taskId} not found`)
+    }
+    if (!this.resources.has(data.resourceId)) {
+      throw new Error(`Resource with id ${data.resourceId} not found`)
+    }
+    assertValidAllocation(Array.from(this.allocations.values()), data)
+
+    const allocation: ResourceAllocation = {
+      id: `alloc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      taskId: data.taskId,
+      resourceId: data.resourceId,
+      allocation: data.allocation ?? DEFAULT_ALLOCATION,
+      startDate: data.startDate,
+      endDate: data.endDate,
+    }
+
+    this.allocations.set(allocation.id, allocation)
+    await this.saveAllocations()
+    return allocation
+  }
+
+  async updateAllocation(id: string, data: UpdateAllocationDTO): Promise<ResourceAllocation> {
+    const allocation = this.allocations.get(id)
+    if (!allocation) {
+      throw new Error(`Allocation with id ${id} not found`)
+    }
+
+    const updatedAllocation = { ...allocation, ...data }
+    assertValidAllocation([], updatedAllocation, id)
+
+    this.allocations.set(id, updatedAllocation)
+    await this.saveAllocations()
+    return updatedAllocation
+  }
+
+  async deleteAllocation(id: string): Promise<void> {
+    if (!this.allocations.delete(id)) {
+      throw new Error(`Allocation with id ${id} not found`)
+    }
+    await this.saveAllocations()
+  }
+
+  async getComments(taskId: string): Promise<Comment[]> {
+    await this.checkForFileChanges()
+    return sortComments(Array.from(this.comments.values()).filter((comment) => comment.taskId === taskId))
+  }
+
+  async createComment(data: CreateCommentDTO): Promise<Comment> {
+    await this.checkForFileChanges()
+
+    if (!this.tasks.has(data.taskId)) {
+      throw new Error(`Task with id ${data.taskId} not found`)
+    }
+    assertValidComment(Array.from(this.comments.values()), data)
+
+    const comment: Comment = {
+      id: `comment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      taskId: data.taskId,
+      userId: data.userId,
+      userName: data.userName,
+      userAvatar: data.userAvatar,
+      content: data.content,
+      timestamp: new Date(),
+      parentId: data.parentId,
+    }
+
+    this.comments.set(comment.id, comment)
+    await this.saveComments()
+    return comment
+  }
+
+  async deleteComment(id: string): Promise<void> {
+    if (!this.comments.has(id)) {
+      throw new Error(`Comment with id ${id} not found`)
+    }
+
+    // Remove the whole branch, replies included
+    getCommentThreadIds(Array.from(this.comments.values()), id).forEach((commentId) => {
+      this.comments.delete(commentId)
+    })
+    await this.saveComments()
+  }
+
+  async getChangeHistory(params?: ChangeHistoryQueryParams): Promise<ChangeSet[]> {
+    await this.checkForFileChanges()
+    return filterChangeHistory(groupChangeHistoryRows(this.history), params)
+  }
+
+  async appendChangeSet(changeSet: ChangeSet): Promise<ChangeSet> {
+    await this.checkForFileChanges()
+    assertValidChangeSet(changeSet)
+
+    const rows = toChangeHistoryRows(changeSet)
+    if (!this.history.some((row) => row.changeSetId === changeSet.id)) {
+      this.history.push(...rows)
+      await this.saveHistory()
+    }
+    return groupChangeHistoryRows(rows)[0]
   }
 
   async getStatuses(): Promise<TaskStatus[]> {
@@ -353,6 +1038,21 @@ export class ExcelProvider implements IDataProvider {
     return this.statuses.get(id) || null
   }
 
+  async createStatus(data: CreateStatusDTO): Promise<TaskStatus> {
+    await this.checkForFileChanges()
+    assertValidStatus(Array.from(this.statuses.values()), data)
+
+    const status: TaskStatus = {
+      id: `status_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: data.name.trim(),
+      color: data.color || DEFAULT_STATUS_COLOR,
+    }
+
+    this.statuses.set(status.id, status)
+    await this.saveStatuses()
+    return status
+  }
+
   async isHealthy(): Promise<boolean> {
     try {
       await fs.access(this.config.filePath)
@@ -363,8 +1063,8 @@ export class ExcelProvider implements IDataProvider {
   }
 
   async close(): Promise<void> {
-    if (this.fileWatcher && typeof this.fileWatcher === 'object' && 'close' in this.fileWatcher) {
-      (this.fileWatcher as { close: () => void }).close()
+    if (this.fileWatcher) {
+      this.fileWatcher.close()
       this.fileWatcher = null
     }
   }
@@ -373,6 +1073,18 @@ export class ExcelProvider implements IDataProvider {
     await this.loadFromFile()
   }
 
+  private async removeAllocationsWhere(predicate: (allocation: ResourceAllocation) => boolean): Promise<void> {
+    const before = this.allocations.size
+    this.allocations.forEach((allocation, allocationId) => {
+      if (predicate(allocation)) {
+        this.allocations.delete(allocationId)
+      }
+    })
+    if (this.allocations.size !== before) {
+      await this.saveAllocations()
+    }
+  }
+
   private async checkForFileChanges(): Promise<void> {
     try {
       const stats = await fs.stat(this.config.filePath)
@@ -411,8 +1123,12 @@ export class ExcelProvider implements IDataProvider {
         owner: (row.owner || row.Owner) as string | undefined,
         description: (row.description || row.Description) as string | undefined,
         progress: Number(row.progress || row.Progress || 0),
+        parentId: String(row.parentId || row.ParentId || row.parent_id || '') || undefined,
+        version: Number(row.version || row.Version) || INITIAL_TASK_VERSION,
+        modifiedBy: (row.modifiedBy || row.ModifiedBy || undefined) as string | undefined,
         priority: (row.priority || row.Priority) as Task['priority'],
         tags: tags.length > 0 ? tags : undefined,
+        isMilestone: row.isMilestone === true || String(row.isMilestone).toLowerCase() === 'true' || undefined,
         estimatedHours: row.estimatedHours
           ? Number(row.estimatedHours)
           : undefined,
@@ -426,6 +1142,28 @@ export class ExcelProvider implements IDataProvider {
     }
   }
 
+  private mapRowsToWorkCalendar(rows: Record<string, unknown>[]): WorkCalendar {
+    const dateKey = (value: unknown) => (value instanceof Date ? toDateKey(value) : String(value))
+    const weekdayRows = rows.filter((row) => row.kind === 'weekday')
+
+    return normalizeWorkCalendar({
+      id: DEFAULT_WORK_CALENDAR.id,
+      name: weekdayRows.find((row) => row.name)?.name as string | undefined,
+      workingDays: weekdayRows.length > 0 ? weekdayRows.map((row) => Number(row.value)) : undefined,
+      holidays: rows
+        .filter((row) => row.kind === 'holiday')
+        .map((row) => ({ date: dateKey(row.value), name: row.name as string | undefined })),
+      resourceExceptions: rows
+        .filter((row) => row.kind === 'exception')
+        .map((row) => ({
+          resourceId: String(row.resourceId),
+          date: dateKey(row.value),
+          isWorking: row.isWorking === true || String(row.isWorking).toLowerCase() === 'true',
+          name: row.name as string | undefined,
+        })),
+    })
+  }
+
   private parseDate(value: unknown): Date | undefined {
     if (!value) return undefined
     if (value instanceof Date) return value
@@ -0,0 +1,53 @@
+import type { Task } from "@/types/task"
+
+/**
+ * Shared task hierarchy (WBS) helpers used by every data provider
+ */
+
+/**
+ * Check a parent assignment against the existing tree
+ * Returns an error message, or null if the parent is valid
+ */
+export function validateParent(
+  tasks: Pick<Task, "id" | "parentId">[],
+  taskId: string | undefined,
+  parentId: string | null | undefined
+): string | null {
+  if (!parentId) return null
+
+  if (parentId === taskId) {
+    return "A task cannot be its own parent"
+  }
+
+  const parents = new Map(tasks.map((task) => [task.id, task.parentId]))
+  if (!parents.has(parentId)) {
+    return `Parent task ${parentId} not found`
+  }
+
+  // Walk up from the new parent; reaching the task itself means a cycle
+  const visited = new Set<string>()
+  let current: string | undefined = parentId
+  while (current && !visited.has(current)) {
+    if (current === taskId) {
+      return "A task cannot be moved under one of its own subtasks"
+    }
+    visited.add(current)
+    current = parents.get(current)
+  }
+
+  return null
+}
+
+/**
+ * Throwing variant of validateParent for provider implementations
+ */
+export function assertValidParent(
+  tasks: Pick<Task, "id" | "parentId">[],
+  taskId: string | undefined,
+  parentId: string | null | undefined
+): void {
+  const error = validateParent(tasks, taskId, parentId)
+  if (error) {
+    throw new Error(error)
+  }
+}
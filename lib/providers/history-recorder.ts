@@ -0,0 +1,105 @@
+import type { ChangeSet, Task, TaskBatchResult } from "@/types/task"
+import { getTaskChanges, type TaskFieldChange } from "@/lib/utils/task-changes"
+import type { IDataProvider } from "./data-provider.interface"
+import { getUnrestrictedProviderAsync } from "./provider-factory"
+
+/**
+ * Server-side change history recording
+ *
+ * Routes that change tasks (the task API, imports, webhooks) record what they
+ * applied here, so the audit log holds every change made through the server,
+ * attributed to the user the server knows, and nothing a client made up.
+ * Change sets are written to the request project's data source without its
+ * access rules, from task copies read the same way, so they hold the fields
+ * and tasks a user can't see; the history is redacted when it is read back.
+ * A failed write is only logged, as the change is already applied.
+ */
+
+export interface ChangeAuthor {
+  userId?: string
+  userName?: string
+}
+
+/**
+ * Author of a change: the signed-in user, or the modifiedBy name the client
+ * sent when authentication is off
+ */
+export function getChangeAuthor(user: { id: string; name: string } | null | undefined, modifiedBy?: unknown): ChangeAuthor {
+  if (user) return { userId: user.id, userName: user.name }
+  return { userName: modifiedBy ? String(modifiedBy) : undefined }
+}
+
+/**
+ * Append the changes as one change set of the history
+ */
+export async function recordTaskChanges(
+  changes: TaskFieldChange[],
+  author: ChangeAuthor,
+  description: string
+): Promise<void> {
+  if (changes.length === 0) return
+
+  const id = `history_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+  const timestamp = new Date()
+  const changeSet: ChangeSet = {
+    id,
+    changes: changes.map((change, index) => ({ ...change, id: `${id}_${index}`, timestamp, ...author })),
+    timestamp,
+    ...author,
+    description,
+  }
+
+  try {
+    const provider = await getUnrestrictedProviderAsync()
+    await provider.appendChangeSet(changeSet)
+  } catch (error) {
+    console.error("Error recording change history:", error)
+  }
+}
+
+/**
+ * Current copies of tasks, by id and without access rules, to compare with after a change
+ * Tasks that don't exist are left out.
+ */
+export async function getTasksById(ids: string[]): Promise<Map<string, Task>> {
+  const provider = await getUnrestrictedProviderAsync()
+  const tasks = await Promise.all([...new Set(ids)].map((id) => provider.getTaskById(id)))
+  return new Map(tasks.filter((task): task is Task => task !== null).map((task) => [task.id, task]))
+}
+
+/**
+ * Copies of the tasks a request's provider returned from a change, by id, to record
+ * A provider with access rules returns redacted tasks, so they are read again without them.
+ */
+export async function getRecordedTasks(provider: IDataProvider, tasks: Task[]): Promise<Map<string, Task>> {
+  if (provider === (await getUnrestrictedProviderAsync())) {
+    return new Map(tasks.map((task) => [task.id, task]))
+  }
+  return getTasksById(tasks.map((task) => task.id))
+}
+
+/**
+ * Changes an applied task batch made, given the tasks it updated and deleted
+ * as they were before and the tasks it created and updated as they are now
+ */
+export function getBatchChanges(
+  results: TaskBatchResult[],
+  previous: Map<string, Task>,
+  current: Map<string, Task>
+): TaskFieldChange[] {
+  return results.flatMap((result) => {
+    if (result.status !== "applied") return []
+    const after = current.get(result.id!) ?? null
+    if (result.type === "create") return getTaskChanges(null, after)
+    const before = previous.get(result.id!) ?? null
+    if (result.type === "delete") return before ? getTaskChanges(before, null) : []
+    return before && after ? getTaskChanges(before, after) : []
+  })
+}
+
+/**
+ * Tasks of applied batch results, to pass to getRecordedTasks()
+ */
+export function getResultTasks(results: TaskBatchResult[]): Task[] {
+  return results.flatMap((result) => (result.status === "applied" && result.task ? [result.task] : []))
+}
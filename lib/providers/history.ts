@@ -0,0 +1,198 @@
+import type { ChangeHistoryQueryParams, ChangeSet, TaskChange } from "@/types/task"
+
+/**
+ * Shared change history helpers used by every data provider and the history route
+ *
+ * The history is an append-only audit log of the change sets the server
+ * applied (see history-recorder.ts). Old and new values are stored as JSON, so
+ * dates come back as ISO strings.
+ */
+
+export const DEFAULT_HISTORY_LIMIT = 100
+export const MAX_HISTORY_LIMIT = 1000
+export const MAX_CHANGES_PER_SET = 1000
+
+const CHANGE_TYPES: TaskChange["changeType"][] = ["create", "update", "delete"]
+
+/**
+ * One change of a change set as a flat record
+ * Used by the providers that store a row per change (SQL tables, Excel sheets).
+ */
+export interface ChangeHistoryRow {
+  id: string
+  changeSetId: string
+  position: number // Order of the change within its set
+  taskId: string
+  changeType: TaskChange["changeType"]
+  field?: string
+  oldValue?: string // JSON
+  newValue?: string // JSON
+  userId?: string
+  userName?: string
+  description?: string
+  timestamp: Date
+}
+
+/**
+ * Check a change set before it is appended
+ * Returns an error message, or null if the change set is valid
+ */
+export function validateChangeSet(changeSet: ChangeSet): string | null {
+  if (!changeSet.id) {
+    return "Change set requires an id"
+  }
+  if (!Array.isArray(changeSet.changes) || changeSet.changes.length === 0) {
+    return "Change set requires at least one change"
+  }
+  if (changeSet.changes.length > MAX_CHANGES_PER_SET) {
+    return `Change set may contain at most ${MAX_CHANGES_PER_SET} changes`
+  }
+  for (const change of changeSet.changes) {
+    if (!change.taskId) {
+      return "Every change requires a taskId"
+    }
+    if (!CHANGE_TYPES.includes(change.changeType)) {
+      return `Invalid change type: ${change.changeType}`
+    }
+    if (change.changeType === "update" && !change.field) {
+      return "Update changes require a field"
+    }
+  }
+  return null
+}
+
+export function assertValidChangeSet(changeSet: ChangeSet): void {
+  const error = validateChangeSet(changeSet)
+  if (error) {
+    throw new Error(error)
+  }
+}
+
+function parseDateParam(name: string, value: string | null): Date | undefined {
+  if (!value) return undefined
+  const date = new Date(value)
+  if (isNaN(date.getTime())) {
+    throw new Error(`${name} must be a valid date`)
+  }
+  return date
+}
+
+/**
+ * Parse the filters of a history request (?taskId=&user=&from=&to=&limit=)
+ */
+export function parseHistoryQuery(searchParams: URLSearchParams): ChangeHistoryQueryParams {
+  const from = parseDateParam("from", searchParams.get("from"))
+  const to = parseDateParam("to", searchParams.get("to"))
+  if (from && to && from > to) {
+    throw new Error("from must be before to")
+  }
+
+  let limit = DEFAULT_HISTORY_LIMIT
+  const limitParam = searchParams.get("limit")
+  if (limitParam) {
+    limit = Number(limitParam)
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_LIMIT) {
+      throw new Error(`limit must be an integer between 1 and ${MAX_HISTORY_LIMIT}`)
+    }
+  }
+
+  return {
+    taskId: searchParams.get("taskId") || undefined,
+    user: searchParams.get("user")?.trim() || undefined,
+    from,
+    to,
+    limit,
+  }
+}
+
+/**
+ * Apply history filters to change sets held in memory, newest first
+ */
+export function filterChangeHistory(changeSets: ChangeSet[], params: ChangeHistoryQueryParams = {}): ChangeSet[] {
+  const user = params.user?.toLowerCase()
+
+  return changeSets
+    .filter((changeSet) => {
+      const time = new Date(changeSet.timestamp).getTime()
+      if (params.from && time < params.from.getTime()) return false
+      if (params.to && time > params.to.getTime()) return false
+      if (user && changeSet.userId?.toLowerCase() !== user && changeSet.userName?.toLowerCase() !== user) {
+        return false
+      }
+      if (params.taskId && !changeSet.changes.some((change) => change.taskId === params.taskId)) return false
+      return true
+    })
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+    .slice(0, params.limit ?? DEFAULT_HISTORY_LIMIT)
+}
+
+export function serializeChangeValue(value: unknown): string | undefined {
+  return value === undefined ? undefined : JSON.stringify(value)
+}
+
+export function parseChangeValue(value: unknown): unknown {
+  if (value === undefined || value === null || value === "") return undefined
+  if (typeof value !== "string") return value
+  try {
+    return JSON.parse(value)
+  } catch {
+    return value
+  }
+}
+
+/**
+ * Flatten a change set into one row per change
+ */
+export function toChangeHistoryRows(changeSet: ChangeSet): ChangeHistoryRow[] {
+  return changeSet.changes.map((change, position) => ({
+    id: change.id,
+    changeSetId: changeSet.id,
+    position,
+    taskId: change.taskId,
+    changeType: change.changeType,
+    field: change.field,
+    oldValue: serializeChangeValue(change.oldValue),
+    newValue: serializeChangeValue(change.newValue),
+    userId: changeSet.userId,
+    userName: changeSet.userName,
+    description: changeSet.description,
+    timestamp: new Date(changeSet.timestamp),
+  }))
+}
+
+/**
+ * Group rows back into change sets, newest first
+ */
+export function groupChangeHistoryRows(rows: ChangeHistoryRow[]): ChangeSet[] {
+  const sets = new Map<string, ChangeSet>()
+  const ordered = [...rows].sort((a, b) => a.position - b.position)
+
+  ordered.forEach((row) => {
+    let changeSet = sets.get(row.changeSetId)
+    if (!changeSet) {
+      changeSet = {
+        id: row.changeSetId,
+        changes: [],
+        timestamp: new Date(row.timestamp),
+        userId: row.userId,
+        userName: row.userName,
+        description: row.description,
+      }
+      sets.set(row.changeSetId, changeSet)
+    }
+
+    changeSet.changes.push({
+      id: row.id,
+      taskId: row.taskId,
+      changeType: row.changeType,
+      field: row.field,
+      oldValue: parseChangeValue(row.oldValue),
+      newValue: parseChangeValue(row.newValue),
+      timestamp: new Date(row.timestamp),
+      userId: row.userId,
+      userName: row.userName,
+    })
+  })
+
+  return [...sets.values()].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+}
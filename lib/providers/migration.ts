@@ -0,0 +1,394 @@
+import type { IDataProvider, ProviderConfig } from "./data-provider.interface"
+import type { Task, TaskBatchOperation, TaskStatus, Resource } from "@/types/task"
+import { mergeWorkCalendars } from "@/lib/utils/project-import"
+import { describeProviderConfig } from "./provider-config"
+import { toHexColor } from "./statuses"
+
+/**
+ * Provider-to-provider migration
+ *
+ * Copies statuses, resources, tasks (with their parents, dependencies and
+ * allocations) and the working calendar from one data source into another.
+ * Tasks are read a page at a time. Every record gets a new id in the target;
+ * the id map is kept in a checkpoint that is saved after each step, so a
+ * failed migration can be resumed without copying anything twice.
+ * Comments, change history and baselines are not migrated.
+ */
+
+export const MIGRATION_PAGE_SIZE = 100
+
+export type MigrationPhase = "statuses" | "resources" | "tasks" | "links" | "calendar" | "done"
+
+// Checkpoint of a migration; contains no credentials
+export interface MigrationState {
+  id: string
+  source: string // describeProviderConfig of the source
+  target: string
+  status: "running" | "failed" | "completed"
+  phase: MigrationPhase
+  startedAt: string
+  updatedAt: string
+  statusIds: Record<string, string> // Source id -> target id
+  resourceIds: Record<string, string>
+  taskIds: Record<string, string>
+  linkedTaskIds: string[] // Source tasks whose parent, dependencies and allocations are set
+  error?: string
+}
+
+export interface MigrationCount {
+  total: number
+  created: number // Would be created, in a dry run
+  existing: number // Matched by name, or copied by an earlier run
+}
+
+export interface MigrationReport {
+  id?: string // Checkpoint id to resume with; not set for dry runs
+  dryRun: boolean
+  source: string
+  target: string
+  status: MigrationState["status"]
+  phase: MigrationPhase
+  statuses: MigrationCount
+  resources: MigrationCount
+  tasks: MigrationCount
+  dependencies: MigrationCount & { skipped: number }
+  allocations: MigrationCount & { skipped: number }
+  warnings: string[]
+  error?: string
+}
+
+export interface MigrationOptions {
+  dryRun?: boolean
+  state?: MigrationState // Checkpoint of a failed run to resume
+  saveState?: (state: MigrationState) => Promise<void>
+  pageSize?: number
+}
+
+function emptyCount(): MigrationCount {
+  return { total: 0, created: 0, existing: 0 }
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase()
+}
+
+/**
+ * Start a new migration checkpoint
+ */
+export function createMigrationState(source: ProviderConfig, target: ProviderConfig): MigrationState {
+  const now = new Date().toISOString()
+  return {
+    id: `migration_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    source: describeProviderConfig(source),
+    target: describeProviderConfig(target),
+    status: "running",
+    phase: "statuses",
+    startedAt: now,
+    updatedAt: now,
+    statusIds: {},
+    resourceIds: {},
+    taskIds: {},
+    linkedTaskIds: [],
+  }
+}
+
+/**
+ * Check that the source and target can be migrated between
+ * Returns an error message, or null if they can
+ */
+export function validateMigration(source: ProviderConfig, target: ProviderConfig, state?: MigrationState): string | null {
+  if (target.type === "demo") {
+    return "The demo provider can't be a migration target, its data is not kept"
+  }
+  if (describeProviderConfig(source) === describeProviderConfig(target)) {
+    return "Source and target are the same data source"
+  }
+  if (state) {
+    if (state.status === "completed") {
+      return `Migration ${state.id} has already completed`
+    }
+    if (state.source !== describeProviderConfig(source) || state.target !== describeProviderConfig(target)) {
+      return `Migration ${state.id} was started from ${state.source} into ${state.target}`
+    }
+  }
+  return null
+}
+
+/**
+ * Copy a project from one data source into another
+ *
+ * A dry run only reads both sides and reports what would be copied.
+ * When a step fails the checkpoint is saved as failed and the report carries
+ * the error; running again with the checkpoint continues where it stopped.
+ */
+export async function migrateProvider(
+  source: IDataProvider,
+  target: IDataProvider,
+  options: MigrationOptions & { sourceConfig: ProviderConfig; targetConfig: ProviderConfig }
+): Promise<MigrationReport> {
+  const dryRun = options.dryRun === true
+  const pageSize = options.pageSize || MIGRATION_PAGE_SIZE
+  const state: MigrationState = options.state
+    ? { ...options.state, status: "running", error: undefined }
+    : createMigrationState(options.sourceConfig, options.targetConfig)
+
+  const report: MigrationReport = {
+    id: dryRun ? undefined : state.id,
+    dryRun,
+    source: state.source,
+    target: state.target,
+    status: "running",
+    phase: state.phase,
+    statuses: emptyCount(),
+    resources: emptyCount(),
+    tasks: emptyCount(),
+    dependencies: { ...emptyCount(), skipped: 0 },
+    allocations: { ...emptyCount(), skipped: 0 },
+    warnings: [],
+  }
+
+  const save = async (phase?: MigrationPhase) => {
+    if (phase) {
+      state.phase = phase
+      report.phase = phase
+    }
+    if (dryRun) return
+    state.updatedAt = new Date().toISOString()
+    await options.saveState?.(state)
+  }
+
+  try {
+    await save()
+
+    // Statuses, matched by name
+    const targetStatuses: TaskStatus[] = await target.getStatuses()
+    for (const status of await source.getStatuses()) {
+      report.statuses.total++
+      if (state.statusIds[status.id]) {
+        report.statuses.existing++
+        continue
+      }
+
+      const existing = targetStatuses.find((entry) => sameName(entry.name, status.name))
+      if (existing) {
+        const color = toHexColor(status.color)
+        if (color && existing.color && color.toLowerCase() !== existing.color.toLowerCase()) {
+          report.warnings.push(`Status "${status.name}" already exists in the target and keeps its color ${existing.color}`)
+        }
+        state.statusIds[status.id] = existing.id
+        report.statuses.existing++
+        continue
+      }
+
+      report.statuses.created++
+      if (dryRun) {
+        targetStatuses.push(status)
+        continue
+      }
+      const created = await target.createStatus({
+        name: status.name,
+        // The other data sources store hex colors, so Baserow's named ones are converted
+        color: toHexColor(status.color),
+      })
+      targetStatuses.push(created)
+      state.statusIds[status.id] = created.id
+      await save()
+    }
+    await save("resources")
+
+    // Resources, matched by name
+    const targetResources: Resource[] = await target.getResources()
+    const sourceResourceIds = new Set<string>()
+    for (const resource of await source.getResources()) {
+      sourceResourceIds.add(resource.id)
+      report.resources.total++
+      if (state.resourceIds[resource.id]) {
+        report.resources.existing++
+        continue
+      }
+
+      const existing = targetResources.find((entry) => sameName(entry.name, resource.name))
+      if (existing) {
+        state.resourceIds[resource.id] = existing.id
+        report.resources.existing++
+        continue
+      }
+
+      report.resources.created++
+      if (dryRun) {
+        targetResources.push(resource)
+        continue
+      }
+      const created = await target.createResource({
+        name: resource.name,
+        email: resource.email,
+        role: resource.role,
+        avatar: resource.avatar,
+        availability: resource.availability,
+        color: resource.color,
+      })
+      targetResources.push(created)
+      state.resourceIds[resource.id] = created.id
+      await save()
+    }
+    await save("tasks")
+
+    if (dryRun) {
+      const { total } = await target.getTasks({ page: 1, pageSize: 1 })
+      if (total > 0) {
+        report.warnings.push(`The target already has ${total} task(s); migrated tasks are added next to them`)
+      }
+    }
+
+    // Tasks, a page at a time, created without links since their ids are not known yet
+    const parents = new Map<string, string | undefined>()
+    const defaultStatusId = targetStatuses[0]?.id
+    let unknownStatuses = 0
+    for (let page = 1; ; page++) {
+      const { data, hasMore } = await source.getTasks({ page, pageSize })
+      const pending: Task[] = []
+      for (const task of data) {
+        report.tasks.total++
+        parents.set(task.id, task.parentId)
+        if (state.taskIds[task.id]) {
+          report.tasks.existing++
+        } else {
+          pending.push(task)
+        }
+      }
+
+      report.tasks.created += pending.length
+      if (!dryRun && pending.length > 0) {
+        const operations: TaskBatchOperation[] = pending.map((task) => {
+          const statusId = task.status ? state.statusIds[task.status.id] : undefined
+          if (task.status && !statusId) unknownStatuses++
+          return {
+            type: "create",
+            data: {
+              name: task.name,
+              startAt: new Date(task.startAt),
+              endAt: new Date(task.endAt),
+              statusId: statusId || defaultStatusId,
+              group: task.group,
+              owner: task.owner,
+              description: task.description,
+              progress: task.progress,
+              priority: task.priority,
+              tags: task.tags,
+              isMilestone: task.isMilestone,
+            },
+          }
+        })
+        const results = await target.applyTaskBatch(operations)
+        pending.forEach((task, index) => {
+          state.taskIds[task.id] = results[index].id!
+        })
+        await save()
+      }
+
+      if (!hasMore || data.length === 0) break
+    }
+    if (unknownStatuses > 0) {
+      report.warnings.push(`${unknownStatuses} task(s) had a status that no longer exists and got the default status`)
+    }
+    await save("links")
+
+    // Parents, dependencies and allocations, set with one update per task
+    const dependencies = await source.getDependencies()
+    const allocations = await source.getAllocations()
+    const isKnownTask = (id: string) => parents.has(id)
+    const linked = new Set(state.linkedTaskIds)
+    const links: { sourceId: string; operation: TaskBatchOperation }[] = []
+
+    for (const [taskId, parentId] of parents) {
+      const taskDependencies = dependencies.filter((dependency) => dependency.successorId === taskId)
+      const taskAllocations = allocations.filter((allocation) => allocation.taskId === taskId)
+      const validDependencies = taskDependencies.filter((dependency) => isKnownTask(dependency.predecessorId))
+      const validAllocations = taskAllocations.filter((allocation) => sourceResourceIds.has(allocation.resourceId))
+
+      report.dependencies.total += taskDependencies.length
+      report.dependencies.skipped += taskDependencies.length - validDependencies.length
+      report.allocations.total += taskAllocations.length
+      report.allocations.skipped += taskAllocations.length - validAllocations.length
+
+      if (linked.has(taskId)) {
+        report.dependencies.existing += validDependencies.length
+        report.allocations.existing += validAllocations.length
+        continue
+      }
+      report.dependencies.created += validDependencies.length
+      report.allocations.created += validAllocations.length
+
+      const hasParent = Boolean(parentId && isKnownTask(parentId))
+      if (!hasParent && validDependencies.length === 0 && validAllocations.length === 0) continue
+      if (dryRun) continue
+
+      links.push({
+        sourceId: taskId,
+        operation: {
+          type: "update",
+          id: state.taskIds[taskId],
+          data: {
+            parentId: hasParent ? state.taskIds[parentId!] : undefined,
+            dependencies:
+              validDependencies.length > 0
+                ? validDependencies.map((dependency) => ({
+                    predecessorId: state.taskIds[dependency.predecessorId],
+                    type: dependency.type,
+                    lag: dependency.lag,
+                  }))
+                : undefined,
+            assignments:
+              validAllocations.length > 0
+                ? validAllocations.map((allocation) => ({
+                    resourceId: state.resourceIds[allocation.resourceId],
+                    allocation: allocation.allocation,
+                  }))
+                : undefined,
+          },
+        },
+      })
+    }
+    if (report.dependencies.skipped > 0) {
+      report.warnings.push(`${report.dependencies.skipped} dependency(ies) refer to missing tasks and are skipped`)
+    }
+    if (report.allocations.skipped > 0) {
+      report.warnings.push(`${report.allocations.skipped} allocation(s) refer to missing resources and are skipped`)
+    }
+
+    for (let index = 0; index < links.length; index += pageSize) {
+      const batch = links.slice(index, index + pageSize)
+      await target.applyTaskBatch(batch.map((link) => link.operation))
+      state.linkedTaskIds.push(...batch.map((link) => link.sourceId))
+      await save()
+    }
+    await save("calendar")
+
+    // Calendar: working week replaced, holidays and resource exceptions added
+    if (!dryRun) {
+      const calendar = await source.getWorkCalendar()
+      const resourceExceptions = calendar.resourceExceptions
+        .filter((exception) => state.resourceIds[exception.resourceId])
+        .map((exception) => ({ ...exception, resourceId: state.resourceIds[exception.resourceId] }))
+      await target.saveWorkCalendar(
+        mergeWorkCalendars(await target.getWorkCalendar(), { ...calendar, resourceExceptions })
+      )
+    }
+
+    state.status = "completed"
+    report.status = "completed"
+    await save("done")
+  } catch (error) {
+    state.status = "failed"
+    state.error = error instanceof Error ? error.message : String(error)
+    report.status = "failed"
+    report.error = state.error
+    try {
+      await save()
+    } catch (saveError) {
+      console.error("Failed to save migration checkpoint:", saveError)
+    }
+  }
+
+  return report
+}
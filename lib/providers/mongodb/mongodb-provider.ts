@@ -1,35 +1,99 @@
 import 'server-only'
-import { MongoClient, Db, Document } from 'mongodb'
+import { AsyncLocalStorage } from 'async_hooks'
+import { MongoClient, Db, Document, type ClientSession } from 'mongodb'
 import { IDataProvider } from '../data-provider.interface'
 import type {
   Task,
   TaskStatus,
+  CreateStatusDTO,
   CreateTaskDTO,
   UpdateTaskDTO,
   PaginatedResponse,
   TaskQueryParams,
+  TaskDependency,
+  CreateDependencyDTO,
+  WorkCalendar,
+  Resource,
+  CreateResourceDTO,
+  UpdateResourceDTO,
+  ResourceAllocation,
+  CreateAllocationDTO,
+  UpdateAllocationDTO,
+  AllocationQueryParams,
+  Comment,
+  CreateCommentDTO,
+  ChangeSet,
+  ChangeHistoryQueryParams,
+  TaskBatchOperation,
+  TaskBatchResult,
 } from '@/types/task'
+import {
+  assertValidDependency,
+  attachDependencies,
+  syncTaskPredecessors,
+  DEFAULT_DEPENDENCY_TYPE,
+} from '../dependencies'
+import { assertValidParent } from '../hierarchy'
+import { TASK_PRIORITIES } from '../task-query'
+import {
+  assertValidResource,
+  assertValidAllocation,
+  syncTaskAllocations,
+  DEFAULT_AVAILABILITY,
+  DEFAULT_ALLOCATION,
+} from '../resources'
+import { assertValidStatus, DEFAULT_STATUS_COLOR } from '../statuses'
+import { assertValidComment, getCommentThreadIds } from '../comments'
+import { getUnmatchedUpdateError, INITIAL_TASK_VERSION } from '../concurrency'
+import { runTaskBatch } from '../batch'
+import {
+  assertValidChangeSet,
+  parseChangeValue,
+  serializeChangeValue,
+  DEFAULT_HISTORY_LIMIT,
+} from '../history'
+import { DEFAULT_WORK_CALENDAR, normalizeWorkCalendar } from '@/lib/utils/work-calendar'
 
 export interface MongoDBConfig {
   uri: string
   database: string
   tasksCollection?: string
   statusesCollection?: string
+  dependenciesCollection?: string
+  calendarsCollection?: string
+  resourcesCollection?: string
+  allocationsCollection?: string
+  commentsCollection?: string
+  historyCollection?: string
 }
 
 export class MongoDBProvider implements IDataProvider {
   private client: MongoClient | null = null
   private db: Db | null = null
   private config: MongoDBConfig
+  // Session of the transaction the current call runs in, if any
+  private transactionSession = new AsyncLocalStorage<ClientSession>()
 
   constructor(config: MongoDBConfig) {
     this.config = {
       ...config,
       tasksCollection: config.tasksCollection || 'tasks',
       statusesCollection: config.statusesCollection || 'task_statuses',
+      dependenciesCollection: config.dependenciesCollection || 'task_dependencies',
+      calendarsCollection: config.calendarsCollection || 'work_calendars',
+      resourcesCollection: config.resourcesCollection || 'resources',
+      allocationsCollection: config.allocationsCollection || 'resource_allocations',
+      commentsCollection: config.commentsCollection || 'comments',
+      historyCollection: config.historyCollection || 'change_history',
     }
   }
 
+  // Options that put an operation in the current transaction, inside applyTaskBatch
+  private sessionOptions(): { session?: ClientSession } {
+    const session = this.transactionSession.getStore()
+    return session ? { session } : {}
+  }
+
   private async getDb(): Promise<Db> {
     if (!this.db) {
       this.client = new MongoClient(this.config.uri)
@@ -43,8 +107,31 @@ export class MongoDBProvider implements IDataProvider {
         { key: { 'status.id': 1 } },
         { key: { group: 1 } },
         { key: { owner: 1 } },
+        { key: { parentId: 1 } },
         { key: { name: 'text', description: 'text' } },
       ])
+      await this.db.collection(this.config.dependenciesCollection!).createIndexes([
+        { key: { predecessorId: 1, successorId: 1 }, unique: true },
+        { key: { successorId: 1 } },
+      ])
+      await this.db.collection(this.config.allocationsCollection!).createIndexes([
+        { key: { taskId: 1, resourceId: 1 }, unique: true },
+        { key: { resourceId: 1 } },
+      ])
+      await this.db.collection(this.config.commentsCollection!).createIndexes([
+        { key: { taskId: 1, timestamp: 1 } },
+        { key: { parentId: 1 } },
+      ])
+      await this.db.collection(this.config.historyCollection!).createIndexes([
+        { key: { id: 1 }, unique: true },
+        { key: { timestamp: -1 } },
+        { key: { 'changes.taskId': 1 } },
+      ])
+
+      // Tasks stored before versioning start at the initial version
+      await this.db
+        .collection(this.config.tasksCollection!)
+        .updateMany({ version: { $exists: false } }, { $set: { version: INITIAL_TASK_VERSION } })
     }
     return this.db
   }
@@ -76,7 +163,9 @@ export class MongoDBProvider implements IDataProvider {
       filter.owner = params.owner
     }
     if (params?.search) {
-      filter.$text = { $search: params.search }
+      // Substring match like the other providers; $text only matches whole words
+      const pattern = new RegExp(params.search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i')
+      filter.$or = ['name', 'description', 'owner', 'group'].map((field) => ({ [field]: pattern }))
     }
     if (params?.tags && params.tags.length > 0) {
       filter.tags = { $in: params.tags }
@@ -84,19 +173,45 @@ export class MongoDBProvider implements IDataProvider {
     if (params?.priority) {
       filter.priority = params.priority
     }
+    if (params?.resourceId) {
+      const allocations = await db
+        .collection(this.config.allocationsCollection!)
+        .find({ resourceId: params.resourceId }, { projection: { taskId: 1 }, ...this.sessionOptions() })
+        .toArray()
+      filter.id = { $in: allocations.map((allocation) => allocation.taskId) }
+    }
 
     // Get total count
-    const total = await collection.countDocuments(filter)
-
-    // Get paginated results
-    const cursor = collection
-      .find(filter)
-      .sort({ startAt: 1 })
-      .skip(skip)
-      .limit(pageSize)
-
-    const documents = await cursor.toArray()
-    const tasks = documents.map((doc) => this.mapDocumentToTask(doc))
+    const total = await collection.countDocuments(filter, this.sessionOptions())
+
+    // Tasks without a value come last in either order; priorities sort from low to critical
+    const field = params?.sortBy || 'startAt'
+    const direction = params?.sortOrder === 'desc' ? -1 : 1
+    const sortValue =
+      field === 'priority'
+        ? { $indexOfArray: [TASK_PRIORITIES, '$priority'] }
+        : field === 'status'
+          ? '$status.name'
+          : `$${field}`
+
+    const documents = await collection
+      .aggregate(
+        [
+          { $match: filter },
+          { $addFields: { _sortValue: { $ifNull: [sortValue, null] } } },
+          { $addFields: { _sortMissing: { $eq: ['$_sortValue', field === 'priority' ? -1 : null] } } },
+          { $sort: { _sortMissing: 1, _sortValue: direction, id: 1 } },
+          { $skip: skip },
+          { $limit: pageSize },
+          { $project: { _sortValue: 0, _sortMissing: 0 } },
+        ],
+        this.sessionOptions()
+      )
+      .toArray()
+    const tasks = attachDependencies(
+      documents.map((doc) => this.mapDocumentToTask(doc)),
+      await this.getDependencies()
+    )
 
     return {
       data: tasks,
@@ -111,23 +226,36 @@ export class MongoDBProvider implements IDataProvider {
     const db = await this.getDb()
     const collection = db.collection(this.config.tasksCollection!)
 
-    const documents = await collection.find({}).sort({ startAt: 1 }).toArray()
-    return documents.map((doc) => this.mapDocumentToTask(doc))
+    const documents = await collection.find({}, this.sessionOptions()).sort({ startAt: 1 }).toArray()
+    return attachDependencies(
+      documents.map((doc) => this.mapDocumentToTask(doc)),
+      await this.getDependencies()
+    )
   }
 
   async getTaskById(id: string): Promise<Task | null> {
     const db = await this.getDb()
     const collection = db.collection(this.config.tasksCollection!)
 
-    const document = await collection.findOne({ id })
-    return document ? this.mapDocumentToTask(document) : null
+    const document = await collection.findOne({ id }, this.sessionOptions())
+    if (!document) return null
+
+    return attachDependencies([this.mapDocumentToTask(document)], await this.getDependencies(id))[0]
   }
 
   async createTask(data: CreateTaskDTO): Promise<Task> {
+    if (data.parentId) {
+      assertValidParent(await this.getAllTasks(), undefined, data.parentId)
+    }
+
     const db = await this.getDb()
     const collection = db.collection(this.config.tasksCollection!)
 
-    const id = this.generateId()
+    if (data.id && (await collection.countDocuments({ id: data.id }, { limit: 1, ...this.sessionOptions() })) > 0) {
+      throw new Error(`Task with id ${data.id} already exists`)
+    }
+
+    const id = data.id || this.generateId()
     const now = new Date()
 
     let status: TaskStatus | undefined
@@ -146,11 +274,24 @@ export class MongoDBProvider implements IDataProvider {
       owner: data.owner,
       description: data.description,
       progress: data.progress || 0,
+      priority: data.priority || null,
+      tags: data.tags && data.tags.length > 0 ? data.tags : null,
+      isMilestone: data.isMilestone || false,
+      parentId: data.parentId || null,
+      version: INITIAL_TASK_VERSION,
+      modifiedBy: data.modifiedBy,
       createdAt: now,
       updatedAt: now,
     }
 
-    await collection.insertOne(document as Document)
+    await collection.insertOne(document as Document, this.sessionOptions())
+
+    if (data.dependencies) {
+      await syncTaskPredecessors(this, id, data.dependencies)
+    }
+    if (data.assignments) {
+      await syncTaskAllocations(this, id, data.assignments)
+    }
 
     const task = await this.getTaskById(id)
     if (!task) {
@@ -161,6 +302,10 @@ export class MongoDBProvider implements IDataProvider {
   }
 
   async updateTask(id: string, data: UpdateTaskDTO): Promise<Task> {
+    if (data.parentId) {
+      assertValidParent(await this.getAllTasks(), id, data.parentId)
+    }
+
     const db = await this.getDb()
     const collection = db.collection(this.config.tasksCollection!)
 
@@ -175,6 +320,11 @@ export class MongoDBProvider implements IDataProvider {
     if (data.owner !== undefined) updates.owner = data.owner
     if (data.description !== undefined) updates.description = data.description
     if (data.progress !== undefined) updates.progress = data.progress
+    if (data.priority !== undefined) updates.priority = data.priority || null
+    if (data.tags !== undefined) updates.tags = data.tags.length > 0 ? data.tags : null
+    if (data.isMilestone !== undefined) updates.isMilestone = data.isMilestone
+    if (data.parentId !== undefined) updates.parentId = data.parentId || null
+    if (data.modifiedBy !== undefined) updates.modifiedBy = data.modifiedBy
 
     if (data.statusId !== undefined) {
       if (data.statusId) {
@@ -185,7 +335,19 @@ export class MongoDBProvider implements IDataProvider {
       }
     }
 
-    await collection.updateOne({ id }, { $set: updates })
+    // The version filter makes the check and the increment a single atomic write
+    const filter: Document = data.expectedVersion !== undefined ? { id, version: data.expectedVersion } : { id }
+    const result = await collection.updateOne(filter, { $set: updates, $inc: { version: 1 } }, this.sessionOptions())
+    if (result.matchedCount === 0) {
+      throw getUnmatchedUpdateError(id, await this.getTaskById(id), data.expectedVersion)
+    }
+
+    if (data.dependencies) {
+      await syncTaskPredecessors(this, id, data.dependencies)
+    }
+    if (data.assignments) {
+      await syncTaskAllocations(this, id, data.assignments)
+    }
 
     const task = await this.getTaskById(id)
     if (!task) {
@@ -198,14 +360,352 @@ export class MongoDBProvider implements IDataProvider {
   async deleteTask(id: string): Promise<void> {
     const db = await this.getDb()
     const collection = db.collection(this.config.tasksCollection!)
-    await collection.deleteOne({ id })
+    await collection.deleteOne({ id }, this.sessionOptions())
+
+    // Subtasks move up to the top level
+    await collection.updateMany({ parentId: id }, { $set: { parentId: null } }, this.sessionOptions())
+
+    // Remove links to and from the deleted task
+    await db
+      .collection(this.config.dependenciesCollection!)
+      .deleteMany({ $or: [{ predecessorId: id }, { successorId: id }] }, this.sessionOptions())
+
+    await db.collection(this.config.allocationsCollection!).deleteMany({ taskId: id }, this.sessionOptions())
+    await db.collection(this.config.commentsCollection!).deleteMany({ taskId: id }, this.sessionOptions())
+  }
+
+  /**
+   * Apply a batch of task operations in one transaction
+   * Transactions need a replica set or sharded cluster.
+   */
+  async applyTaskBatch(operations: TaskBatchOperation[]): Promise<TaskBatchResult[]> {
+    await this.getDb()
+    const session = this.client!.startSession()
+    try {
+      let results: TaskBatchResult[] = []
+      await session.withTransaction(() =>
+        this.transactionSession.run(session, async () => {
+          results = await runTaskBatch(this, operations)
+        })
+      )
+      return results
+    } finally {
+      await session.endSession()
+    }
+  }
+
+  async getDependencies(taskId?: string): Promise<TaskDependency[]> {
+    const db = await this.getDb()
+    const collection = db.collection(this.config.dependenciesCollection!)
+
+    const filter: Document = taskId ? { $or: [{ predecessorId: taskId }, { successorId: taskId }] } : {}
+    const documents = await collection.find(filter, this.sessionOptions()).toArray()
+    return documents.map((doc) => ({
+      id: doc.id,
+      predecessorId: doc.predecessorId,
+      successorId: doc.successorId,
+      type: doc.type || DEFAULT_DEPENDENCY_TYPE,
+      lag: doc.lag || 0,
+    }))
+  }
+
+  async addDependency(data: CreateDependencyDTO): Promise<TaskDependency> {
+    assertValidDependency(await this.getDependencies(), data)
+
+    const db = await this.getDb()
+    const collection = db.collection(this.config.dependenciesCollection!)
+
+    const dependency: TaskDependency = {
+      id: `dep_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      predecessorId: data.predecessorId,
+      successorId: data.successorId,
+      type: data.type || DEFAULT_DEPENDENCY_TYPE,
+      lag: data.lag || 0,
+    }
+
+    await collection.insertOne({ ...dependency, createdAt: new Date() }, this.sessionOptions())
+    return dependency
+  }
+
+  async removeDependency(id: string): Promise<void> {
+    const db = await this.getDb()
+    const collection = db.collection(this.config.dependenciesCollection!)
+
+    const result = await collection.deleteOne({ id }, this.sessionOptions())
+    if (result.deletedCount === 0) {
+      throw new Error(`Dependency with id ${id} not found`)
+    }
+  }
+
+  async getWorkCalendar(): Promise<WorkCalendar> {
+    const db = await this.getDb()
+    const collection = db.collection(this.config.calendarsCollection!)
+
+    const document = await collection.findOne({ id: DEFAULT_WORK_CALENDAR.id }, this.sessionOptions())
+    if (!document) return normalizeWorkCalendar(DEFAULT_WORK_CALENDAR)
+
+    return normalizeWorkCalendar({
+      id: document.id,
+      name: document.name,
+      workingDays: document.workingDays,
+      holidays: document.holidays,
+      resourceExceptions: document.resourceExceptions,
+    })
+  }
+
+  async saveWorkCalendar(calendar: WorkCalendar): Promise<WorkCalendar> {
+    const normalized = { ...normalizeWorkCalendar(calendar), id: DEFAULT_WORK_CALENDAR.id }
+    const db = await this.getDb()
+    const collection = db.collection(this.config.calendarsCollection!)
+
+    await collection.replaceOne(
+      { id: normalized.id },
+      { ...normalized, updatedAt: new Date() },
+      { upsert: true, ...this.sessionOptions() }
+    )
+    return normalized
+  }
+
+  async getResources(): Promise<Resource[]> {
+    const db = await this.getDb()
+    const collection = db.collection(this.config.resourcesCollection!)
+
+    const documents = await collection.find({}, this.sessionOptions()).sort({ name: 1 }).toArray()
+    return documents.map((doc) => this.mapDocumentToResource(doc))
+  }
+
+  async getResourceById(id: string): Promise<Resource | null> {
+    const db = await this.getDb()
+    const collection = db.collection(this.config.resourcesCollection!)
+
+    const document = await collection.findOne({ id }, this.sessionOptions())
+    return document ? this.mapDocumentToResource(document) : null
+  }
+
+  async createResource(data: CreateResourceDTO): Promise<Resource> {
+    assertValidResource(data, true)
+
+    const db = await this.getDb()
+    const collection = db.collection(this.config.resourcesCollection!)
+
+    const resource: Resource = {
+      ...data,
+      id: `res_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      availability: data.availability ?? DEFAULT_AVAILABILITY,
+    }
+
+    await collection.insertOne({ ...resource, createdAt: new Date() }, this.sessionOptions())
+    return resource
+  }
+
+  async updateResource(id: string, data: UpdateResourceDTO): Promise<Resource> {
+    assertValidResource(data, false)
+
+    const db = await this.getDb()
+    const collection = db.collection(this.config.resourcesCollection!)
+
+    const updates: Document = { updatedAt: new Date() }
+    Object.entries(data).forEach(([field, value]) => {
+      if (value !== undefined) updates[field] = value
+    })
+
+    const result = await collection.updateOne({ id }, { $set: updates }, this.sessionOptions())
+    if (result.matchedCount === 0) {
+      throw new Error(`Resource with id ${id} not found`)
+    }
+
+    return (await this.getResourceById(id))!
+  }
+
+  async deleteResource(id: string): Promise<void> {
+    const db = await this.getDb()
+    const collection = db.collection(this.config.resourcesCollection!)
+
+    const result = await collection.deleteOne({ id }, this.sessionOptions())
+    if (result.deletedCount === 0) {
+      throw new Error(`Resource with id ${id} not found`)
+    }
+
+    await db.collection(this.config.allocationsCollection!).deleteMany({ resourceId: id }, this.sessionOptions())
+  }
+
+  async getAllocations(params?: AllocationQueryParams): Promise<ResourceAllocation[]> {
+    const db = await this.getDb()
+    const collection = db.collection(this.config.allocationsCollection!)
+
+    const filter: Document = {}
+    if (params?.taskId) filter.taskId = params.taskId
+    if (params?.resourceId) filter.resourceId = params.resourceId
+
+    const documents = await collection.find(filter, this.sessionOptions()).toArray()
+    return documents.map((doc) => this.mapDocumentToAllocation(doc))
+  }
+
+  async createAllocation(data: CreateAllocationDTO): Promise<ResourceAllocation> {
+    if (!(await this.getTaskById(data.taskId))) {
+      throw new Error(`Task with id ${data.taskId} not found`)
+    }
+    if (!(await this.getResourceById(data.resourceId))) {
+      throw new Error(`Resource with id ${data.resourceId} not found`)
+    }
+    assertValidAllocation(await this.getAllocations({ taskId: data.taskId }), data)
+
+    const db = await this.getDb()
+    const collection = db.collection(this.config.allocationsCollection!)
+
+    const allocation: ResourceAllocation = {
+      id: `alloc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      taskId: data.taskId,
+      resourceId: data.resourceId,
+      allocation: data.allocation ?? DEFAULT_ALLOCATION,
+      startDate: data.startDate,
+      endDate: data.endDate,
+    }
+
+    await collection.insertOne({ ...allocation, createdAt: new Date() }, this.sessionOptions())
+    return allocation
+  }
+
+  async updateAllocation(id: string, data: UpdateAllocationDTO): Promise<ResourceAllocation> {
+    const db = await this.getDb()
+    const collection = db.collection(this.config.allocationsCollection!)
+
+    const document = await collection.findOne({ id }, this.sessionOptions())
+    if (!document) {
+      throw new Error(`Allocation with id ${id} not found`)
+    }
+
+    const updated = { ...this.mapDocumentToAllocation(document), ...data }
+    assertValidAllocation([], updated, id)
+
+    await collection.updateOne(
+      { id },
+      {
+        $set: {
+          allocation: updated.allocation,
+          startDate: updated.startDate || null,
+          endDate: updated.endDate || null,
+        },
+      },
+      this.sessionOptions()
+    )
+    return updated
+  }
+
+  async deleteAllocation(id: string): Promise<void> {
+    const db = await this.getDb()
+    const collection = db.collection(this.config.allocationsCollection!)
+
+    const result = await collection.deleteOne({ id }, this.sessionOptions())
+    if (result.deletedCount === 0) {
+      throw new Error(`Allocation with id ${id} not found`)
+    }
+  }
+
+  async getComments(taskId: string): Promise<Comment[]> {
+    const db = await this.getDb()
+    const collection = db.collection(this.config.commentsCollection!)
+
+    const documents = await collection.find({ taskId }, this.sessionOptions()).sort({ timestamp: 1 }).toArray()
+    return documents.map((doc) => this.mapDocumentToComment(doc))
+  }
+
+  async createComment(data: CreateCommentDTO): Promise<Comment> {
+    if (!(await this.getTaskById(data.taskId))) {
+      throw new Error(`Task with id ${data.taskId} not found`)
+    }
+    assertValidComment(await this.getComments(data.taskId), data)
+
+    const db = await this.getDb()
+    const collection = db.collection(this.config.commentsCollection!)
+
+    const comment: Comment = {
+      id: `comment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      taskId: data.taskId,
+      userId: data.userId,
+      userName: data.userName,
+      userAvatar: data.userAvatar,
+      content: data.content,
+      timestamp: new Date(),
+      parentId: data.parentId,
+    }
+
+    await collection.insertOne({ ...comment }, this.sessionOptions())
+    return comment
+  }
+
+  async deleteComment(id: string): Promise<void> {
+    const db = await this.getDb()
+    const collection = db.collection(this.config.commentsCollection!)
+
+    const document = await collection.findOne({ id }, this.sessionOptions())
+    if (!document) {
+      throw new Error(`Comment with id ${id} not found`)
+    }
+
+    // Remove the whole branch, replies included
+    const threadIds = getCommentThreadIds(await this.getComments(document.taskId), id)
+    await collection.deleteMany({ id: { $in: threadIds } }, this.sessionOptions())
+  }
+
+  async getChangeHistory(params: ChangeHistoryQueryParams = {}): Promise<ChangeSet[]> {
+    const db = await this.getDb()
+    const collection = db.collection(this.config.historyCollection!)
+
+    const filter: Document = {}
+    if (params.taskId) filter['changes.taskId'] = params.taskId
+    if (params.user) filter.$or = [{ userId: params.user }, { userName: params.user }]
+    if (params.from || params.to) {
+      filter.timestamp = {
+        ...(params.from && { $gte: params.from }),
+        ...(params.to && { $lte: params.to }),
+      }
+    }
+
+    const documents = await collection
+      .find(filter, this.sessionOptions())
+      // Case-insensitive match on the author
+      .collation({ locale: 'en', strength: 2 })
+      .sort({ timestamp: -1 })
+      .limit(params.limit ?? DEFAULT_HISTORY_LIMIT)
+      .toArray()
+    return documents.map((doc) => this.mapDocumentToChangeSet(doc))
+  }
+
+  // One document per change set, so the append is atomic; values are kept as JSON
+  // strings because task snapshots may hold keys MongoDB does not accept
+  async appendChangeSet(changeSet: ChangeSet): Promise<ChangeSet> {
+    assertValidChangeSet(changeSet)
+
+    const db = await this.getDb()
+    const collection = db.collection(this.config.historyCollection!)
+
+    const document = {
+      id: changeSet.id,
+      description: changeSet.description,
+      userId: changeSet.userId,
+      userName: changeSet.userName,
+      timestamp: new Date(changeSet.timestamp),
+      changes: changeSet.changes.map((change) => ({
+        id: change.id,
+        taskId: change.taskId,
+        changeType: change.changeType,
+        field: change.field,
+        oldValue: serializeChangeValue(change.oldValue),
+        newValue: serializeChangeValue(change.newValue),
+      })),
+    }
+
+    // Appending the same change set again leaves the first copy in place
+    await collection.updateOne({ id: changeSet.id }, { $setOnInsert: document }, { upsert: true, ...this.sessionOptions() })
+    return this.mapDocumentToChangeSet(document)
   }
 
   async getStatuses(): Promise<TaskStatus[]> {
     const db = await this.getDb()
     const collection = db.collection(this.config.statusesCollection!)
 
-    const documents = await collection.find({}).sort({ name: 1 }).toArray()
+    const documents = await collection.find({}, this.sessionOptions()).sort({ name: 1 }).toArray()
     return documents.map((doc) => ({
       id: doc.id,
       name: doc.name,
@@ -217,7 +717,7 @@ export class MongoDBProvider implements IDataProvider {
     const db = await this.getDb()
     const collection = db.collection(this.config.statusesCollection!)
 
-    const document = await collection.findOne({ id })
+    const document = await collection.findOne({ id }, this.sessionOptions())
     return document
       ? {
           id: document.id,
@@ -227,6 +727,22 @@ export class MongoDBProvider implements IDataProvider {
       : null
   }
 
+  async createStatus(data: CreateStatusDTO): Promise<TaskStatus> {
+    assertValidStatus(await this.getStatuses(), data)
+
+    const db = await this.getDb()
+    const collection = db.collection(this.config.statusesCollection!)
+
+    const status: TaskStatus = {
+      id: `status_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: data.name.trim(),
+      color: data.color || DEFAULT_STATUS_COLOR,
+    }
+
+    await collection.insertOne({ ...status }, this.sessionOptions())
+    return status
+  }
+
   async isHealthy(): Promise<boolean> {
     try {
       const db = await this.getDb()
@@ -276,15 +792,77 @@ export class MongoDBProvider implements IDataProvider {
       owner: doc.owner || undefined,
       description: doc.description || undefined,
       progress: doc.progress || 0,
+      parentId: doc.parentId || undefined,
+      version: doc.version ?? INITIAL_TASK_VERSION,
+      modifiedBy: doc.modifiedBy || undefined,
       createdAt: doc.createdAt ? new Date(doc.createdAt) : undefined,
       updatedAt: doc.updatedAt ? new Date(doc.updatedAt) : undefined,
       priority: doc.priority || undefined,
       tags: doc.tags || undefined,
+      isMilestone: doc.isMilestone || undefined,
       estimatedHours: doc.estimatedHours || undefined,
       actualHours: doc.actualHours || undefined,
     }
   }
 
+  private mapDocumentToResource(doc: Document): Resource {
+    return {
+      id: doc.id,
+      name: doc.name,
+      email: doc.email || undefined,
+      role: doc.role || undefined,
+      avatar: doc.avatar || undefined,
+      availability: doc.availability ?? DEFAULT_AVAILABILITY,
+      color: doc.color || undefined,
+    }
+  }
+
+  private mapDocumentToAllocation(doc: Document): ResourceAllocation {
+    return {
+      id: doc.id,
+      taskId: doc.taskId,
+      resourceId: doc.resourceId,
+      allocation: doc.allocation ?? DEFAULT_ALLOCATION,
+      startDate: doc.startDate ? new Date(doc.startDate) : undefined,
+      endDate: doc.endDate ? new Date(doc.endDate) : undefined,
+    }
+  }
+
+  private mapDocumentToComment(doc: Document): Comment {
+    return {
+      id: doc.id,
+      taskId: doc.taskId,
+      userId: doc.userId,
+      userName: doc.userName,
+      userAvatar: doc.userAvatar || undefined,
+      content: doc.content,
+      timestamp: new Date(doc.timestamp),
+      parentId: doc.parentId || undefined,
+    }
+  }
+
+  private mapDocumentToChangeSet(doc: Document): ChangeSet {
+    const timestamp = new Date(doc.timestamp)
+    return {
+      id: doc.id,
+      description: doc.description || undefined,
+      userId: doc.userId || undefined,
+      userName: doc.userName || undefined,
+      timestamp,
+      changes: (doc.changes || []).map((change: Document) => ({
+        id: change.id,
+        taskId: change.taskId,
+        changeType: change.changeType,
+        field: change.field || undefined,
+        oldValue: parseChangeValue(change.oldValue),
+        newValue: parseChangeValue(change.newValue),
+        timestamp,
+        userId: doc.userId || undefined,
+        userName: doc.userName || undefined,
+      })),
+    }
+  }
+
   private generateId(): string {
     return `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
   }
@@ -1,14 +1,59 @@
 import 'server-only'
+import { AsyncLocalStorage } from 'async_hooks'
 import mysql from 'mysql2/promise'
 import { IDataProvider } from '../data-provider.interface'
 import type {
   Task,
   TaskStatus,
+  CreateStatusDTO,
   CreateTaskDTO,
   UpdateTaskDTO,
   PaginatedResponse,
   TaskQueryParams,
+  TaskDependency,
+  CreateDependencyDTO,
+  WorkCalendar,
+  Resource,
+  CreateResourceDTO,
+  UpdateResourceDTO,
+  ResourceAllocation,
+  CreateAllocationDTO,
+  UpdateAllocationDTO,
+  AllocationQueryParams,
+  Comment,
+  CreateCommentDTO,
+  ChangeSet,
+  ChangeHistoryQueryParams,
+  TaskBatchOperation,
+  TaskBatchResult,
+  TaskSortField,
 } from '@/types/task'
+import {
+  assertValidDependency,
+  attachDependencies,
+  syncTaskPredecessors,
+  DEFAULT_DEPENDENCY_TYPE,
+} from '../dependencies'
+import { assertValidParent } from '../hierarchy'
+import {
+  assertValidResource,
+  assertValidAllocation,
+  syncTaskAllocations,
+  DEFAULT_AVAILABILITY,
+  DEFAULT_ALLOCATION,
+} from '../resources'
+import { assertValidStatus, DEFAULT_STATUS_COLOR } from '../statuses'
+import { assertValidComment } from '../comments'
+import { getUnmatchedUpdateError, INITIAL_TASK_VERSION } from '../concurrency'
+import { runTaskBatch } from '../batch'
+import {
+  assertValidChangeSet,
+  groupChangeHistoryRows,
+  toChangeHistoryRows,
+  DEFAULT_HISTORY_LIMIT,
+  type ChangeHistoryRow,
+} from '../history'
+import { DEFAULT_WORK_CALENDAR, normalizeWorkCalendar } from '@/lib/utils/work-calendar'
 
 export interface MySQLConfig {
   host: string
@@ -19,9 +64,53 @@ export interface MySQLConfig {
   connectionLimit?: number
 }
 
+// Columns of the task sort fields; priorities sort from low to critical
+const MYSQL_SORT_COLUMNS: Record<TaskSortField, string> = {
+  name: 't.name',
+  startAt: 't.start_at',
+  endAt: 't.end_at',
+  status: 's.name',
+  group: 't.group_name',
+  owner: 't.owner',
+  progress: 't.progress',
+  priority: "FIELD(t.priority, 'low', 'medium', 'high', 'critical')",
+  createdAt: 't.created_at',
+  updatedAt: 't.updated_at',
+}
+
+// Columns added after a table's first release, with the ALTER TABLE clauses
+// that add them to databases created before. MySQL has no ADD COLUMN IF NOT
+// EXISTS, so upgradeSchema checks information_schema first.
+const MYSQL_SCHEMA_UPGRADES: { table: string; column: string; alter: string }[] = [
+  {
+    table: 'tasks',
+    column: 'parent_id',
+    alter:
+      'ADD COLUMN parent_id VARCHAR(255), ADD INDEX idx_parent_id (parent_id), ' +
+      'ADD FOREIGN KEY (parent_id) REFERENCES tasks(id) ON DELETE SET NULL',
+  },
+  { table: 'tasks', column: 'version', alter: 'ADD COLUMN version INT NOT NULL DEFAULT 1' },
+  { table: 'tasks', column: 'modified_by', alter: 'ADD COLUMN modified_by VARCHAR(255)' },
+  { table: 'tasks', column: 'is_milestone', alter: 'ADD COLUMN is_milestone BOOLEAN NOT NULL DEFAULT FALSE' },
+  {
+    // The earlier change_history table was never written to
+    table: 'change_history',
+    column: 'change_set_id',
+    alter:
+      'ADD COLUMN change_set_id VARCHAR(255) NOT NULL AFTER id, ' +
+      'ADD COLUMN position INT NOT NULL DEFAULT 0 AFTER change_set_id, ' +
+      'ADD COLUMN description TEXT, MODIFY old_value LONGTEXT, MODIFY new_value LONGTEXT, ' +
+      'MODIFY timestamp TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3), ' +
+      'ADD INDEX idx_change_set_id (change_set_id)',
+  },
+]
+
 export class MySQLProvider implements IDataProvider {
   private pool: mysql.Pool | null = null
+  private schemaUpgrade: Promise<void> | null = null
   private config: MySQLConfig
+  // Connection of the transaction the current call runs in, if any
+  private transactionConnection = new AsyncLocalStorage<mysql.PoolConnection>()
 
   constructor(config: MySQLConfig) {
     this.config = {
@@ -31,7 +120,55 @@ export class MySQLProvider implements IDataProvider {
     }
   }
 
-  private async getPool(): Promise<mysql.Pool> {
+  // Queries run on the transaction's connection inside applyTaskBatch
+  private async getPool(): Promise<mysql.Pool | mysql.PoolConnection> {
+    const connection = this.transactionConnection.getStore()
+    if (connection) return connection
+    await this.upgradeSchema()
+    return this.createPool()
+  }
+
+  /**
+   * Bring a database created from an older schema.sql up to date, once per provider
+   * Adds the columns of MYSQL_SCHEMA_UPGRADES that are missing from existing
+   * tables, and drops the old change_history foreign key so the history
+   * outlives deleted tasks. Tables that don't exist are left to schema.sql.
+   */
+  upgradeSchema(): Promise<void> {
+    if (!this.schemaUpgrade) {
+      this.schemaUpgrade = this.applySchemaUpgrades()
+      this.schemaUpgrade.catch(() => {
+        this.schemaUpgrade = null
+      })
+    }
+    return this.schemaUpgrade
+  }
+
+  private async applySchemaUpgrades(): Promise<void> {
+    const pool = this.createPool()
+    const tables = [...new Set(MYSQL_SCHEMA_UPGRADES.map((upgrade) => upgrade.table))]
+    const [columns] = await pool.query<mysql.RowDataPacket[]>(
+      'SELECT TABLE_NAME, COLUMN_NAME FROM information_schema.COLUMNS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME IN (?)',
+      [tables]
+    )
+    const existingTables = new Set(columns.map((row) => row.TABLE_NAME as string))
+    const existingColumns = new Set(columns.map((row) => `${row.TABLE_NAME}.${row.COLUMN_NAME}`))
+
+    for (const upgrade of MYSQL_SCHEMA_UPGRADES) {
+      if (!existingTables.has(upgrade.table) || existingColumns.has(`${upgrade.table}.${upgrade.column}`)) continue
+      await pool.query(`ALTER TABLE ${upgrade.table} ${upgrade.alter}`)
+    }
+
+    const [historyKeys] = await pool.query<mysql.RowDataPacket[]>(
+      `SELECT CONSTRAINT_NAME FROM information_schema.KEY_COLUMN_USAGE
+       WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'change_history' AND REFERENCED_TABLE_NAME = 'tasks'`
+    )
+    for (const key of historyKeys) {
+      await pool.query(`ALTER TABLE change_history DROP FOREIGN KEY \`${key.CONSTRAINT_NAME}\``)
+    }
+  }
+
+  private createPool(): mysql.Pool {
     if (!this.pool) {
       this.pool = mysql.createPool({
         host: this.config.host,
@@ -53,61 +190,78 @@ export class MySQLProvider implements IDataProvider {
     const pageSize = params?.pageSize || 50
     const offset = (page - 1) * pageSize
 
-    let query = `
-      SELECT
-        t.*,
-        s.id as status_id,
-        s.name as status_name,
-        s.color as status_color
-      FROM tasks t
-      LEFT JOIN task_statuses s ON t.status_id = s.id
-      WHERE 1=1
-    `
+    const conditions: string[] = []
     const queryParams: unknown[] = []
 
-    // Add filters
     if (params?.startDate) {
-      query += ' AND t.start_at >= ?'
+      conditions.push('t.start_at >= ?')
       queryParams.push(params.startDate)
     }
     if (params?.endDate) {
-      query += ' AND t.end_at <= ?'
+      conditions.push('t.end_at <= ?')
       queryParams.push(params.endDate)
     }
     if (params?.statusId) {
-      query += ' AND t.status_id = ?'
-      queryParams.push(params?.statusId)
+      conditions.push('t.status_id = ?')
+      queryParams.push(params.statusId)
     }
     if (params?.group) {
-      query += ' AND t.group_name = ?'
+      conditions.push('t.group_name = ?')
       queryParams.push(params.group)
     }
     if (params?.owner) {
-      query += ' AND t.owner = ?'
+      conditions.push('t.owner = ?')
       queryParams.push(params.owner)
     }
+    if (params?.priority) {
+      conditions.push('t.priority = ?')
+      queryParams.push(params.priority)
+    }
+    if (params?.tags && params.tags.length > 0) {
+      conditions.push(`t.id IN (SELECT task_id FROM task_tags WHERE tag IN (${params.tags.map(() => '?').join(', ')}))`)
+      queryParams.push(...params.tags)
+    }
+    if (params?.resourceId) {
+      conditions.push('t.id IN (SELECT task_id FROM resource_allocations WHERE resource_id = ?)')
+      queryParams.push(params.resourceId)
+    }
     if (params?.search) {
-      query += ' AND (t.name LIKE ? OR t.description LIKE ?)'
-      const searchTerm = `%${params.search}%`
-      queryParams.push(searchTerm, searchTerm)
+      conditions.push('(t.name LIKE ? OR t.description LIKE ? OR t.owner LIKE ? OR t.group_name LIKE ?)')
+      const searchTerm = `%${params.search.replace(/[\\%_]/g, '\\$&')}%`
+      queryParams.push(searchTerm, searchTerm, searchTerm, searchTerm)
     }
 
-    // Get total count
-    const countQuery = query.replace(
-      'SELECT t.*, s.id as status_id, s.name as status_name, s.color as status_color',
-      'SELECT COUNT(*) as total'
-    )
-    const [countRows] = await pool.execute(countQuery, queryParams)
-    const totalRow = (countRows as unknown[])[0] as { total: number }
-    const total = totalRow.total
+    const from = `
+      FROM tasks t
+      LEFT JOIN task_statuses s ON t.status_id = s.id
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+    `
 
-    // Add pagination
-    query += ' ORDER BY t.start_at ASC LIMIT ? OFFSET ?'
-    queryParams.push(pageSize, offset)
+    // Get total count
+    const [countRows] = await pool.execute(`SELECT COUNT(*) as total ${from}`, queryParams)
+    const total = Number(((countRows as unknown[])[0] as { total: number }).total)
 
-    const [rows] = await pool.execute(query, queryParams)
+    // Tasks without a value come last in either order
+    const orderColumn = MYSQL_SORT_COLUMNS[params?.sortBy || 'startAt']
+    const direction = params?.sortOrder === 'desc' ? 'DESC' : 'ASC'
+    const [rows] = await pool.execute(
+      `
+      SELECT
+        t.*,
+        s.id as status_id,
+        s.name as status_name,
+        s.color as status_color
+      ${from}
+      ORDER BY ${orderColumn} IS NULL, ${orderColumn} ${direction}, t.id ASC
+      LIMIT ? OFFSET ?
+      `,
+      [...queryParams, pageSize, offset]
+    )
 
-    const tasks = (rows as unknown[]).map((row) => this.mapRowToTask(row as Record<string, unknown>))
+    const tasks = attachDependencies(
+      await this.attachTags((rows as unknown[]).map((row) => this.mapRowToTask(row as Record<string, unknown>))),
+      await this.getDependencies()
+    )
 
     return {
       data: tasks,
@@ -131,7 +285,10 @@ export class MySQLProvider implements IDataProvider {
       ORDER BY t.start_at ASC
     `)
 
-    return (rows as unknown[]).map((row) => this.mapRowToTask(row as Record<string, unknown>))
+    return attachDependencies(
+      await this.attachTags((rows as unknown[]).map((row) => this.mapRowToTask(row as Record<string, unknown>))),
+      await this.getDependencies()
+    )
   }
 
   async getTaskById(id: string): Promise<Task | null> {
@@ -152,21 +309,30 @@ export class MySQLProvider implements IDataProvider {
 
     const results = rows as unknown[]
     if (results.length > 0) {
-      return this.mapRowToTask(results[0] as Record<string, unknown>)
+      return attachDependencies(
+        await this.attachTags([this.mapRowToTask(results[0] as Record<string, unknown>)]),
+        await this.getDependencies(id)
+      )[0]
     }
     return null
   }
 
   async createTask(data: CreateTaskDTO): Promise<Task> {
+    if (data.parentId) {
+      assertValidParent(await this.getAllTasks(), undefined, data.parentId)
+    }
+
     const pool = await this.getPool()
-    const id = this.generateId()
+    // A taken id fails on the primary key
+    const id = data.id || this.generateId()
     const now = new Date()
 
     await pool.execute(
       `
       INSERT INTO tasks (
-        id, name, start_at, end_at, status_id, group_name, owner, description, progress, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        id, name, start_at, end_at, status_id, group_name, owner, description, progress, priority, is_milestone,
+        parent_id, modified_by, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `,
       [
         id,
@@ -178,11 +344,25 @@ export class MySQLProvider implements IDataProvider {
         data.owner || null,
         data.description || null,
         data.progress || 0,
+        data.priority || null,
+        data.isMilestone || false,
+        data.parentId || null,
+        data.modifiedBy || null,
         now,
         now,
       ]
     )
 
+    if (data.tags) {
+      await this.saveTags(id, data.tags)
+    }
+    if (data.dependencies) {
+      await syncTaskPredecessors(this, id, data.dependencies)
+    }
+    if (data.assignments) {
+      await syncTaskAllocations(this, id, data.assignments)
+    }
+
     const task = await this.getTaskById(id)
     if (!task) {
       throw new Error('Failed to create task')
@@ -192,6 +372,10 @@ export class MySQLProvider implements IDataProvider {
   }
 
   async updateTask(id: string, data: UpdateTaskDTO): Promise<Task> {
+    if (data.parentId) {
+      assertValidParent(await this.getAllTasks(), id, data.parentId)
+    }
+
     const pool = await this.getPool()
     const updates: string[] = []
     const params: unknown[] = []
@@ -228,23 +412,51 @@ export class MySQLProvider implements IDataProvider {
       updates.push('progress = ?')
       params.push(data.progress)
     }
-
-    if (updates.length === 0) {
-      const task = await this.getTaskById(id)
-      if (!task) {
-        throw new Error('Task not found')
-      }
-      return task
+    if (data.priority !== undefined) {
+      updates.push('priority = ?')
+      params.push(data.priority || null)
+    }
+    if (data.isMilestone !== undefined) {
+      updates.push('is_milestone = ?')
+      params.push(data.isMilestone)
+    }
+    if (data.parentId !== undefined) {
+      updates.push('parent_id = ?')
+      params.push(data.parentId || null)
+    }
+    if (data.modifiedBy !== undefined) {
+      updates.push('modified_by = ?')
+      params.push(data.modifiedBy || null)
     }
 
-    updates.push('updated_at = ?')
+    updates.push('version = version + 1', 'updated_at = ?')
     params.push(new Date())
     params.push(id)
 
-    await pool.execute(
-      `UPDATE tasks SET ${updates.join(', ')} WHERE id = ?`,
+    // Checking and incrementing the version in one statement makes the update atomic
+    let where = 'id = ?'
+    if (data.expectedVersion !== undefined) {
+      where += ' AND version = ?'
+      params.push(data.expectedVersion)
+    }
+
+    const [result] = await pool.execute<mysql.ResultSetHeader>(
+      `UPDATE tasks SET ${updates.join(', ')} WHERE ${where}`,
       params
     )
+    if (result.affectedRows === 0) {
+      throw getUnmatchedUpdateError(id, await this.getTaskById(id), data.expectedVersion)
+    }
+
+    if (data.tags) {
+      await this.saveTags(id, data.tags)
+    }
+    if (data.dependencies) {
+      await syncTaskPredecessors(this, id, data.dependencies)
+    }
+    if (data.assignments) {
+      await syncTaskAllocations(this, id, data.assignments)
+    }
 
     const task = await this.getTaskById(id)
     if (!task) {
@@ -259,6 +471,379 @@ export class MySQLProvider implements IDataProvider {
     await pool.execute('DELETE FROM tasks WHERE id = ?', [id])
   }
 
+  async applyTaskBatch(operations: TaskBatchOperation[]): Promise<TaskBatchResult[]> {
+    await this.upgradeSchema()
+    const connection = await this.createPool().getConnection()
+    try {
+      await connection.beginTransaction()
+      const results = await this.transactionConnection.run(connection, () => runTaskBatch(this, operations))
+      await connection.commit()
+      return results
+    } catch (error) {
+      await connection.rollback()
+      throw error
+    } finally {
+      connection.release()
+    }
+  }
+
+  async getDependencies(taskId?: string): Promise<TaskDependency[]> {
+    const pool = await this.getPool()
+    const [rows] = taskId
+      ? await pool.execute(
+          'SELECT * FROM task_dependencies WHERE predecessor_id = ? OR successor_id = ? ORDER BY created_at ASC',
+          [taskId, taskId]
+        )
+      : await pool.execute('SELECT * FROM task_dependencies ORDER BY created_at ASC')
+
+    return (rows as unknown[]).map((row) => this.mapRowToDependency(row as Record<string, unknown>))
+  }
+
+  async addDependency(data: CreateDependencyDTO): Promise<TaskDependency> {
+    assertValidDependency(await this.getDependencies(), data)
+
+    const pool = await this.getPool()
+    const dependency: TaskDependency = {
+      id: `dep_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      predecessorId: data.predecessorId,
+      successorId: data.successorId,
+      type: data.type || DEFAULT_DEPENDENCY_TYPE,
+      lag: Math.round(data.lag || 0),
+    }
+
+    await pool.execute(
+      'INSERT INTO task_dependencies (id, predecessor_id, successor_id, type, lag_days) VALUES (?, ?, ?, ?, ?)',
+      [dependency.id, dependency.predecessorId, dependency.successorId, dependency.type, dependency.lag]
+    )
+
+    return dependency
+  }
+
+  async removeDependency(id: string): Promise<void> {
+    const pool = await this.getPool()
+    const [result] = await pool.execute('DELETE FROM task_dependencies WHERE id = ?', [id])
+
+    if ((result as mysql.ResultSetHeader).affectedRows === 0) {
+      throw new Error(`Dependency with id ${id} not found`)
+    }
+  }
+
+  async getWorkCalendar(): Promise<WorkCalendar> {
+    const pool = await this.getPool()
+    const [rows] = await pool.execute('SELECT * FROM work_calendars WHERE id = ?', [DEFAULT_WORK_CALENDAR.id])
+    const row = (rows as Record<string, unknown>[])[0]
+    if (!row) return normalizeWorkCalendar(DEFAULT_WORK_CALENDAR)
+
+    // JSON columns come back parsed, or as strings on older servers
+    const parse = (value: unknown) => (typeof value === 'string' ? JSON.parse(value) : value)
+    return normalizeWorkCalendar({
+      id: row.id as string,
+      name: row.name as string,
+      workingDays: parse(row.working_days),
+      holidays: parse(row.holidays),
+      resourceExceptions: parse(row.resource_exceptions),
+    })
+  }
+
+  async saveWorkCalendar(calendar: WorkCalendar): Promise<WorkCalendar> {
+    const normalized = normalizeWorkCalendar(calendar)
+    const pool = await this.getPool()
+
+    await pool.execute(
+      `INSERT INTO work_calendars (id, name, working_days, holidays, resource_exceptions)
+       VALUES (?, ?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE name = VALUES(name), working_days = VALUES(working_days),
+         holidays = VALUES(holidays), resource_exceptions = VALUES(resource_exceptions)`,
+      [
+        DEFAULT_WORK_CALENDAR.id,
+        normalized.name,
+        JSON.stringify(normalized.workingDays),
+        JSON.stringify(normalized.holidays),
+        JSON.stringify(normalized.resourceExceptions),
+      ]
+    )
+
+    return this.getWorkCalendar()
+  }
+
+  async getResources(): Promise<Resource[]> {
+    const pool = await this.getPool()
+    const [rows] = await pool.execute('SELECT * FROM resources ORDER BY name')
+
+    return (rows as unknown[]).map((row) => this.mapRowToResource(row as Record<string, unknown>))
+  }
+
+  async getResourceById(id: string): Promise<Resource | null> {
+    const pool = await this.getPool()
+    const [rows] = await pool.execute('SELECT * FROM resources WHERE id = ?', [id])
+
+    const row = (rows as Record<string, unknown>[])[0]
+    return row ? this.mapRowToResource(row) : null
+  }
+
+  async createResource(data: CreateResourceDTO): Promise<Resource> {
+    assertValidResource(data, true)
+
+    const pool = await this.getPool()
+    const id = `res_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+
+    await pool.execute(
+      'INSERT INTO resources (id, name, email, role, avatar, availability, color) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [
+        id,
+        data.name,
+        data.email || null,
+        data.role || null,
+        data.avatar || null,
+        data.availability ?? DEFAULT_AVAILABILITY,
+        data.color || null,
+      ]
+    )
+
+    const resource = await this.getResourceById(id)
+    if (!resource) {
+      throw new Error('Failed to create resource')
+    }
+
+    return resource
+  }
+
+  async updateResource(id: string, data: UpdateResourceDTO): Promise<Resource> {
+    assertValidResource(data, false)
+
+    const pool = await this.getPool()
+    const updates: string[] = []
+    const params: unknown[] = []
+
+    const columns = ['name', 'email', 'role', 'avatar', 'availability', 'color'] as const
+    columns.forEach((column) => {
+      if (data[column] !== undefined) {
+        updates.push(`${column} = ?`)
+        params.push(data[column] === '' ? null : data[column])
+      }
+    })
+
+    if (updates.length > 0) {
+      params.push(id)
+      await pool.execute(`UPDATE resources SET ${updates.join(', ')} WHERE id = ?`, params)
+    }
+
+    const resource = await this.getResourceById(id)
+    if (!resource) {
+      throw new Error(`Resource with id ${id} not found`)
+    }
+
+    return resource
+  }
+
+  async deleteResource(id: string): Promise<void> {
+    const pool = await this.getPool()
+    const [result] = await pool.execute('DELETE FROM resources WHERE id = ?', [id])
+
+    if ((result as mysql.ResultSetHeader).affectedRows === 0) {
+      throw new Error(`Resource with id ${id} not found`)
+    }
+  }
+
+  async getAllocations(params?: AllocationQueryParams): Promise<ResourceAllocation[]> {
+    const pool = await this.getPool()
+    let query = 'SELECT * FROM resource_allocations WHERE 1=1'
+    const queryParams: unknown[] = []
+
+    if (params?.taskId) {
+      query += ' AND task_id = ?'
+      queryParams.push(params.taskId)
+    }
+    if (params?.resourceId) {
+      query += ' AND resource_id = ?'
+      queryParams.push(params.resourceId)
+    }
+
+    const [rows] = await pool.execute(`${query} ORDER BY created_at ASC`, queryParams)
+    return (rows as unknown[]).map((row) => this.mapRowToAllocation(row as Record<string, unknown>))
+  }
+
+  async createAllocation(data: CreateAllocationDTO): Promise<ResourceAllocation> {
+    if (!(await this.getResourceById(data.resourceId))) {
+      throw new Error(`Resource with id ${data.resourceId} not found`)
+    }
+    assertValidAllocation(await this.getAllocations({ taskId: data.taskId }), data)
+
+    const pool = await this.getPool()
+    const allocation: ResourceAllocation = {
+      id: `alloc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      taskId: data.taskId,
+      resourceId: data.resourceId,
+      allocation: data.allocation ?? DEFAULT_ALLOCATION,
+      startDate: data.startDate,
+      endDate: data.endDate,
+    }
+
+    await pool.execute(
+      'INSERT INTO resource_allocations (id, task_id, resource_id, allocation, start_date, end_date) VALUES (?, ?, ?, ?, ?, ?)',
+      [
+        allocation.id,
+        allocation.taskId,
+        allocation.resourceId,
+        allocation.allocation,
+        allocation.startDate || null,
+        allocation.endDate || null,
+      ]
+    )
+
+    return allocation
+  }
+
+  async updateAllocation(id: string, data: UpdateAllocationDTO): Promise<ResourceAllocation> {
+    const pool = await this.getPool()
+    const [rows] = await pool.execute('SELECT * FROM resource_allocations WHERE id = ?', [id])
+    const row = (rows as Record<string, unknown>[])[0]
+    if (!row) {
+      throw new Error(`Allocation with id ${id} not found`)
+    }
+
+    const updated = { ...this.mapRowToAllocation(row), ...data }
+    assertValidAllocation([], updated, id)
+
+    await pool.execute(
+      'UPDATE resource_allocations SET allocation = ?, start_date = ?, end_date = ? WHERE id = ?',
+      [updated.allocation, updated.startDate || null, updated.endDate || null, id]
+    )
+
+    return updated
+  }
+
+  async deleteAllocation(id: string): Promise<void> {
+    const pool = await this.getPool()
+    const [result] = await pool.execute('DELETE FROM resource_allocations WHERE id = ?', [id])
+
+    if ((result as mysql.ResultSetHeader).affectedRows === 0) {
+      throw new Error(`Allocation with id ${id} not found`)
+    }
+  }
+
+  async getComments(taskId: string): Promise<Comment[]> {
+    const pool = await this.getPool()
+    const [rows] = await pool.execute('SELECT * FROM comments WHERE task_id = ? ORDER BY created_at ASC', [taskId])
+    return (rows as unknown[]).map((row) => this.mapRowToComment(row as Record<string, unknown>))
+  }
+
+  async createComment(data: CreateCommentDTO): Promise<Comment> {
+    if (!(await this.getTaskById(data.taskId))) {
+      throw new Error(`Task with id ${data.taskId} not found`)
+    }
+    assertValidComment(await this.getComments(data.taskId), data)
+
+    const pool = await this.getPool()
+    const comment: Comment = {
+      id: `comment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      taskId: data.taskId,
+      userId: data.userId,
+      userName: data.userName,
+      userAvatar: data.userAvatar,
+      content: data.content,
+      timestamp: new Date(),
+      parentId: data.parentId,
+    }
+
+    await pool.execute(
+      'INSERT INTO comments (id, task_id, user_id, user_name, user_avatar, content, parent_id, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+      [
+        comment.id,
+        comment.taskId,
+        comment.userId,
+        comment.userName,
+        comment.userAvatar || null,
+        comment.content,
+        comment.parentId || null,
+        comment.timestamp,
+      ]
+    )
+
+    return comment
+  }
+
+  // Replies are removed by the parent_id foreign key cascade
+  async deleteComment(id: string): Promise<void> {
+    const pool = await this.getPool()
+    const [result] = await pool.execute('DELETE FROM comments WHERE id = ?', [id])
+
+    if ((result as mysql.ResultSetHeader).affectedRows === 0) {
+      throw new Error(`Comment with id ${id} not found`)
+    }
+  }
+
+  async getChangeHistory(params: ChangeHistoryQueryParams = {}): Promise<ChangeSet[]> {
+    const pool = await this.getPool()
+    const conditions: string[] = []
+    const values: unknown[] = []
+
+    if (params.taskId) {
+      conditions.push('task_id = ?')
+      values.push(params.taskId)
+    }
+    if (params.user) {
+      conditions.push('(LOWER(user_id) = ? OR LOWER(user_name) = ?)')
+      values.push(params.user.toLowerCase(), params.user.toLowerCase())
+    }
+    if (params.from) {
+      conditions.push('timestamp >= ?')
+      values.push(params.from)
+    }
+    if (params.to) {
+      conditions.push('timestamp <= ?')
+      values.push(params.to)
+    }
+
+    // MySQL has no LIMIT in IN subqueries, so the recent change sets are joined as a derived table
+    const [rows] = await pool.query(
+      `SELECT h.* FROM change_history h
+      JOIN (
+        SELECT change_set_id, MAX(timestamp) AS set_time
+        FROM change_history
+        ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+        GROUP BY change_set_id
+        ORDER BY set_time DESC
+        LIMIT ?
+      ) recent ON recent.change_set_id = h.change_set_id
+      ORDER BY recent.set_time DESC, h.change_set_id, h.position`,
+      [...values, params.limit ?? DEFAULT_HISTORY_LIMIT]
+    )
+
+    return groupChangeHistoryRows(
+      (rows as unknown[]).map((row) => this.mapRowToChangeHistory(row as Record<string, unknown>))
+    )
+  }
+
+  // A single multi-row INSERT is atomic; IGNORE skips a change set that was already appended
+  async appendChangeSet(changeSet: ChangeSet): Promise<ChangeSet> {
+    assertValidChangeSet(changeSet)
+
+    const pool = await this.getPool()
+    const rows = toChangeHistoryRows(changeSet)
+    await pool.query(
+      `INSERT IGNORE INTO change_history
+        (id, change_set_id, position, task_id, change_type, field, old_value, new_value, user_id, user_name, description, timestamp)
+      VALUES ${rows.map(() => '(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)').join(', ')}`,
+      rows.flatMap((row) => [
+        row.id,
+        row.changeSetId,
+        row.position,
+        row.taskId,
+        row.changeType,
+        row.field || null,
+        row.oldValue ?? null,
+        row.newValue ?? null,
+        row.userId || null,
+        row.userName || null,
+        row.description || null,
+        row.timestamp,
+      ])
+    )
+
+    return groupChangeHistoryRows(rows)[0]
+  }
+
   async getStatuses(): Promise<TaskStatus[]> {
     const pool = await this.getPool()
     const [rows] = await pool.execute('SELECT * FROM task_statuses ORDER BY name')
@@ -289,6 +874,24 @@ export class MySQLProvider implements IDataProvider {
     return null
   }
 
+  async createStatus(data: CreateStatusDTO): Promise<TaskStatus> {
+    assertValidStatus(await this.getStatuses(), data)
+
+    const pool = await this.getPool()
+    const status: TaskStatus = {
+      id: `status_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: data.name.trim(),
+      color: data.color || DEFAULT_STATUS_COLOR,
+    }
+
+    await pool.execute('INSERT INTO task_statuses (id, name, color) VALUES (?, ?, ?)', [
+      status.id,
+      status.name,
+      status.color,
+    ])
+    return status
+  }
+
   async isHealthy(): Promise<boolean> {
     try {
       const pool = await this.getPool()
@@ -324,8 +927,106 @@ export class MySQLProvider implements IDataProvider {
       owner: (row.owner as string | undefined) || undefined,
       description: (row.description as string | undefined) || undefined,
       progress: (row.progress as number) || 0,
+      parentId: (row.parent_id as string | undefined) || undefined,
+      version: (row.version as number | undefined) ?? INITIAL_TASK_VERSION,
+      modifiedBy: (row.modified_by as string | undefined) || undefined,
       createdAt: row.created_at ? new Date(row.created_at as string | number | Date) : undefined,
       updatedAt: row.updated_at ? new Date(row.updated_at as string | number | Date) : undefined,
+      priority: (row.priority as Task['priority'] | null) || undefined,
+      isMilestone: Boolean(row.is_milestone) || undefined,
+      // DECIMAL columns are read as strings
+      estimatedHours: row.estimated_hours != null ? Number(row.estimated_hours) : undefined,
+      actualHours: row.actual_hours != null ? Number(row.actual_hours) : undefined,
+    }
+  }
+
+  private async attachTags(tasks: Task[]): Promise<Task[]> {
+    if (tasks.length === 0) return tasks
+    const pool = await this.getPool()
+    const [rows] = await pool.query(
+      `SELECT task_id, tag FROM task_tags WHERE task_id IN (${tasks.map(() => '?').join(', ')}) ORDER BY tag`,
+      tasks.map((task) => task.id)
+    )
+
+    const tagsByTask = new Map<string, string[]>()
+    for (const row of rows as { task_id: string; tag: string }[]) {
+      tagsByTask.set(row.task_id, [...(tagsByTask.get(row.task_id) || []), row.tag])
+    }
+    return tasks.map((task) => (tagsByTask.has(task.id) ? { ...task, tags: tagsByTask.get(task.id) } : task))
+  }
+
+  // Replace the tags of a task
+  private async saveTags(taskId: string, tags: string[]): Promise<void> {
+    const pool = await this.getPool()
+    await pool.execute('DELETE FROM task_tags WHERE task_id = ?', [taskId])
+    const unique = [...new Set(tags.map((tag) => tag.trim()).filter(Boolean))]
+    if (unique.length === 0) return
+    await pool.query(
+      `INSERT INTO task_tags (task_id, tag) VALUES ${unique.map(() => '(?, ?)').join(', ')}`,
+      unique.flatMap((tag) => [taskId, tag])
+    )
+  }
+
+  private mapRowToDependency(row: Record<string, unknown>): TaskDependency {
+    return {
+      id: row.id as string,
+      predecessorId: row.predecessor_id as string,
+      successorId: row.successor_id as string,
+      type: ((row.type as string) || DEFAULT_DEPENDENCY_TYPE) as TaskDependency['type'],
+      lag: (row.lag_days as number) || 0,
+    }
+  }
+
+  private mapRowToResource(row: Record<string, unknown>): Resource {
+    return {
+      id: row.id as string,
+      name: row.name as string,
+      email: (row.email as string | null) || undefined,
+      role: (row.role as string | null) || undefined,
+      avatar: (row.avatar as string | null) || undefined,
+      availability: (row.availability as number | null) ?? DEFAULT_AVAILABILITY,
+      color: (row.color as string | null) || undefined,
+    }
+  }
+
+  private mapRowToAllocation(row: Record<string, unknown>): ResourceAllocation {
+    return {
+      id: row.id as string,
+      taskId: row.task_id as string,
+      resourceId: row.resource_id as string,
+      allocation: (row.allocation as number | null) ?? DEFAULT_ALLOCATION,
+      startDate: row.start_date ? new Date(row.start_date as string | number | Date) : undefined,
+      endDate: row.end_date ? new Date(row.end_date as string | number | Date) : undefined,
+    }
+  }
+
+  private mapRowToComment(row: Record<string, unknown>): Comment {
+    return {
+      id: row.id as string,
+      taskId: row.task_id as string,
+      userId: row.user_id as string,
+      userName: row.user_name as string,
+      userAvatar: (row.user_avatar as string | null) || undefined,
+      content: row.content as string,
+      timestamp: new Date(row.created_at as string | number | Date),
+      parentId: (row.parent_id as string | null) || undefined,
+    }
+  }
+
+  private mapRowToChangeHistory(row: Record<string, unknown>): ChangeHistoryRow {
+    return {
+      id: row.id as string,
+      changeSetId: row.change_set_id as string,
+      position: Number(row.position),
+      taskId: row.task_id as string,
+      changeType: row.change_type as ChangeHistoryRow['changeType'],
+      field: (row.field as string | null) || undefined,
+      oldValue: (row.old_value as string | null) ?? undefined,
+      newValue: (row.new_value as string | null) ?? undefined,
+      userId: (row.user_id as string | null) || undefined,
+      userName: (row.user_name as string | null) || undefined,
+      description: (row.description as string | null) || undefined,
+      timestamp: new Date(row.timestamp as string | number | Date),
     }
   }
 
@@ -1,4 +1,10 @@
 -- MySQL Schema for Gantt Tool
+--
+-- Every statement is safe to run again. Databases created from an earlier
+-- version of this file are upgraded when the provider starts (MySQL has no
+-- ADD COLUMN IF NOT EXISTS): MySQLProvider.upgradeSchema() adds the tasks
+-- parent_id, version, modified_by and is_milestone columns and the change_history
+-- change_set_id, position and description columns where they are missing.
 
 -- Task Statuses Table
 CREATE TABLE IF NOT EXISTS task_statuses (
@@ -21,16 +27,22 @@ CREATE TABLE IF NOT EXISTS tasks (
   description TEXT,
   progress INT DEFAULT 0,
   priority ENUM('low', 'medium', 'high', 'critical'),
+  is_milestone BOOLEAN NOT NULL DEFAULT FALSE,
   estimated_hours DECIMAL(10, 2),
   actual_hours DECIMAL(10, 2),
+  parent_id VARCHAR(255),
+  version INT NOT NULL DEFAULT 1,
+  modified_by VARCHAR(255),
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
   FOREIGN KEY (status_id) REFERENCES task_statuses(id) ON DELETE SET NULL,
+  FOREIGN KEY (parent_id) REFERENCES tasks(id) ON DELETE SET NULL,
   INDEX idx_start_at (start_at),
   INDEX idx_end_at (end_at),
   INDEX idx_status_id (status_id),
   INDEX idx_group_name (group_name),
-  INDEX idx_owner (owner)
+  INDEX idx_owner (owner),
+  INDEX idx_parent_id (parent_id)
 );
 
 -- Task Dependencies Table
@@ -43,6 +55,7 @@ CREATE TABLE IF NOT EXISTS task_dependencies (
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   FOREIGN KEY (predecessor_id) REFERENCES tasks(id) ON DELETE CASCADE,
   FOREIGN KEY (successor_id) REFERENCES tasks(id) ON DELETE CASCADE,
+  UNIQUE KEY unique_dependency (predecessor_id, successor_id),
   INDEX idx_predecessor (predecessor_id),
   INDEX idx_successor (successor_id)
 );
@@ -60,6 +73,18 @@ CREATE TABLE IF NOT EXISTS resources (
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
 );
 
+-- Work Calendars Table
+-- working_days: weekdays 0 (Sunday) to 6 (Saturday); holidays: [{date, name}];
+-- resource_exceptions: [{resourceId, date, isWorking, name}]
+CREATE TABLE IF NOT EXISTS work_calendars (
+  id VARCHAR(255) PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  working_days JSON NOT NULL,
+  holidays JSON NOT NULL,
+  resource_exceptions JSON NOT NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+);
+
 -- Resource Allocations Table
 CREATE TABLE IF NOT EXISTS resource_allocations (
   id VARCHAR(255) PRIMARY KEY,
@@ -102,17 +127,23 @@ CREATE TABLE IF NOT EXISTS comments (
 );
 
 -- Change History Table
+-- Append-only audit log, one row per change of a change set.
+-- No foreign key to tasks: the history outlives deleted tasks.
+-- Values are stored as JSON text.
 CREATE TABLE IF NOT EXISTS change_history (
   id VARCHAR(255) PRIMARY KEY,
+  change_set_id VARCHAR(255) NOT NULL,
+  position INT NOT NULL DEFAULT 0,
   task_id VARCHAR(255) NOT NULL,
   change_type ENUM('create', 'update', 'delete') NOT NULL,
   field VARCHAR(255),
-  old_value TEXT,
-  new_value TEXT,
+  old_value LONGTEXT,
+  new_value LONGTEXT,
   user_id VARCHAR(255),
   user_name VARCHAR(255),
-  timestamp TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-  FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE,
+  description TEXT,
+  timestamp TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  INDEX idx_change_set_id (change_set_id),
   INDEX idx_task_id (task_id),
   INDEX idx_timestamp (timestamp)
 );
@@ -19,6 +19,12 @@ export interface PostgresFieldMapping {
     owner: string
     description: string
     progress: string
+    priority: string
+    tags: string
+    isMilestone: string
+    parentId: string
+    version: string
+    modifiedBy: string
     createdAt: string
     updatedAt: string
   }
@@ -46,6 +52,12 @@ export const DEFAULT_POSTGRES_FIELD_MAPPING: PostgresFieldMapping = {
     owner: 'owner',
     description: 'description',
     progress: 'progress',
+    priority: 'priority',
+    tags: 'tags',
+    isMilestone: 'is_milestone',
+    parentId: 'parent_id',
+    version: 'version',
+    modifiedBy: 'modified_by',
     createdAt: 'created_at',
     updatedAt: 'updated_at',
   },
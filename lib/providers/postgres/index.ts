@@ -11,6 +11,8 @@ export type {
   PostgresConfig,
   PostgresTaskRow,
   PostgresStatusRow,
+  PostgresDependencyRow,
+  PostgresWorkCalendarRow,
   PostgresQueryParams,
   PostgresPaginatedResult,
   PoolStatus,
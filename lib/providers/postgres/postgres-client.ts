@@ -4,16 +4,29 @@
  * @created 2025-10-25
  */
 
+import { AsyncLocalStorage } from 'async_hooks'
 import { Pool, PoolClient, QueryResult, QueryResultRow } from 'pg'
 import type {
   PostgresConfig,
   PostgresTaskRow,
   PostgresStatusRow,
+  PostgresDependencyRow,
+  PostgresWorkCalendarRow,
+  PostgresResourceRow,
+  PostgresAllocationRow,
+  PostgresCommentRow,
+  PostgresChangeHistoryRow,
   PostgresQueryParams,
   PostgresPaginatedResult,
   PoolStatus,
 } from './types'
 import { getPostgresFieldMapping } from './field-mapping'
+import type { ChangeHistoryQueryParams } from '@/types/task'
+
+// Mapped column names are quoted, as some of them (like "group") are reserved words
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`
+}
 
 /**
  * PostgreSQL client class
@@ -22,6 +35,8 @@ import { getPostgresFieldMapping } from './field-mapping'
 export class PostgresClient {
   private pool: Pool
   private fieldMapping = getPostgresFieldMapping()
+  // Client of the transaction the current call runs in, if any
+  private transactionClient = new AsyncLocalStorage<PoolClient>()
 
   constructor(config: PostgresConfig) {
     this.pool = new Pool({
@@ -44,6 +59,7 @@ export class PostgresClient {
 
   /**
    * Execute a query with parameters
+   * Runs on the transaction's client when called inside transaction()
    * @param text - SQL query string
    * @param params - Query parameters (for parameterized queries)
    * @returns Query result
@@ -53,7 +69,8 @@ export class PostgresClient {
     params?: unknown[]
   ): Promise<QueryResult<T>> {
     try {
-      return await this.pool.query<T>(text, params)
+      const client = this.transactionClient.getStore()
+      return await (client ?? this.pool).query<T>(text, params)
     } catch (error) {
       console.error('PostgreSQL query error:', error)
       throw new Error(
@@ -92,9 +109,15 @@ export class PostgresClient {
       statusId,
       group,
       owner,
-      orderBy = 'start_at',
+      search,
+      resourceId,
+      priority,
+      tags,
+      orderBy = 'startAt',
       orderDirection = 'ASC',
     } = params || {}
+    const fields = this.fieldMapping.tasks
+    const column = (field: keyof typeof fields) => quoteIdentifier(fields[field])
 
     // Build WHERE clause
     const conditions: string[] = []
@@ -102,38 +125,73 @@ export class PostgresClient {
     let paramIndex = 1
 
     if (startDate) {
-      conditions.push(`${this.fieldMapping.tasks.startAt} >= $${paramIndex}`)
+      conditions.push(`${column('startAt')} >= $${paramIndex}`)
       values.push(startDate)
       paramIndex++
     }
 
     if (endDate) {
-      conditions.push(`${this.fieldMapping.tasks.endAt} <= $${paramIndex}`)
+      conditions.push(`${column('endAt')} <= $${paramIndex}`)
       values.push(endDate)
       paramIndex++
     }
 
     if (statusId !== undefined) {
-      conditions.push(`${this.fieldMapping.tasks.statusId} = $${paramIndex}`)
+      conditions.push(`${column('statusId')} = $${paramIndex}`)
       values.push(statusId)
       paramIndex++
     }
 
     if (group) {
-      conditions.push(`${this.fieldMapping.tasks.group} = $${paramIndex}`)
+      conditions.push(`${column('group')} = $${paramIndex}`)
       values.push(group)
       paramIndex++
     }
 
     if (owner) {
-      conditions.push(`${this.fieldMapping.tasks.owner} = $${paramIndex}`)
+      conditions.push(`${column('owner')} = $${paramIndex}`)
       values.push(owner)
       paramIndex++
     }
 
+    if (search) {
+      const columns = [column('name'), column('description'), column('owner'), column('group')]
+      conditions.push(`(${columns.map((name) => `${name} ILIKE $${paramIndex}`).join(' OR ')})`)
+      values.push(`%${search.replace(/[\\%_]/g, '\\$&')}%`)
+      paramIndex++
+    }
+
+    if (resourceId !== undefined) {
+      conditions.push(
+        `${column('id')} IN (SELECT task_id FROM resource_allocations WHERE resource_id = $${paramIndex})`
+      )
+      values.push(resourceId)
+      paramIndex++
+    }
+
+    if (priority) {
+      conditions.push(`${column('priority')} = $${paramIndex}`)
+      values.push(priority)
+      paramIndex++
+    }
+
+    if (tags && tags.length > 0) {
+      conditions.push(`${column('tags')} && $${paramIndex}::text[]`)
+      values.push(tags)
+      paramIndex++
+    }
+
     const whereClause =
       conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
 
+    // Statuses sort by name and priorities by rank; tasks without a value come last either way
+    const orderColumn =
+      orderBy === 'status'
+        ? `(SELECT name FROM statuses WHERE statuses.id = tasks.${column('statusId')})`
+        : orderBy === 'priority'
+          ? `array_position(ARRAY['low', 'medium', 'high', 'critical']::text[], ${column('priority')}::text)`
+          : column(orderBy)
+
     // Count total matching rows
     const countQuery = `SELECT COUNT(*) FROM tasks ${whereClause}`
     const countResult = await this.query<{ count: string }>(countQuery, values)
@@ -143,7 +201,7 @@ export class PostgresClient {
     const dataQuery = `
       SELECT * FROM tasks
       ${whereClause}
-      ORDER BY ${orderBy} ${orderDirection}
+      ORDER BY ${orderColumn} ${orderDirection} NULLS LAST, ${column('id')} ASC
       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
     `
     const dataResult = await this.query<PostgresTaskRow>(dataQuery, [
@@ -183,6 +241,7 @@ export class PostgresClient {
 
   /**
    * Create a new task
+   * With data.id the row gets that id instead of the next one from the sequence.
    */
   async createTask(
     data: Partial<PostgresTaskRow>
@@ -190,6 +249,7 @@ export class PostgresClient {
     const fields = this.fieldMapping.tasks
     const query = `
       INSERT INTO tasks (
+        ${fields.id},
         ${fields.name},
         ${fields.startAt},
         ${fields.endAt},
@@ -197,13 +257,19 @@ export class PostgresClient {
         ${fields.group},
         ${fields.owner},
         ${fields.description},
-        ${fields.progress}
+        ${fields.progress},
+        ${fields.priority},
+        ${fields.tags},
+        ${fields.isMilestone},
+        ${fields.parentId},
+        ${fields.modifiedBy}
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      VALUES (COALESCE($1, nextval(pg_get_serial_sequence('tasks', '${fields.id}'))), $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
       RETURNING *
     `
 
     const values = [
+      data.id ?? null,
       data.name,
       data.start_at,
       data.end_at,
@@ -212,6 +278,11 @@ export class PostgresClient {
       data.owner || null,
       data.description || null,
       data.progress || 0,
+      data.priority || null,
+      data.tags || null,
+      data.is_milestone || false,
+      data.parent_id || null,
+      data.modified_by || null,
     ]
 
     const result = await this.query<PostgresTaskRow>(query, values)
@@ -219,12 +290,15 @@ export class PostgresClient {
   }
 
   /**
-   * Update an existing task
+   * Update an existing task and increment its version
+   * With expectedVersion the row is only updated while it is still at that
+   * version. Returns null when no row matched.
    */
   async updateTask(
     id: string | number,
-    data: Partial<PostgresTaskRow>
-  ): Promise<PostgresTaskRow> {
+    data: Partial<PostgresTaskRow>,
+    expectedVersion?: number
+  ): Promise<PostgresTaskRow | null> {
     const fields = this.fieldMapping.tasks
     const updates: string[] = []
     const values: unknown[] = []
@@ -279,27 +353,55 @@ export class PostgresClient {
       paramIndex++
     }
 
-    if (updates.length === 0) {
-      throw new Error('No fields to update')
+    if (data.priority !== undefined) {
+      updates.push(`${fields.priority} = $${paramIndex}`)
+      values.push(data.priority)
+      paramIndex++
+    }
+
+    if (data.tags !== undefined) {
+      updates.push(`${fields.tags} = $${paramIndex}`)
+      values.push(data.tags)
+      paramIndex++
+    }
+
+    if (data.is_milestone !== undefined) {
+      updates.push(`${fields.isMilestone} = $${paramIndex}`)
+      values.push(data.is_milestone)
+      paramIndex++
+    }
+
+    if (data.parent_id !== undefined) {
+      updates.push(`${fields.parentId} = $${paramIndex}`)
+      values.push(data.parent_id)
+      paramIndex++
+    }
+
+    if (data.modified_by !== undefined) {
+      updates.push(`${fields.modifiedBy} = $${paramIndex}`)
+      values.push(data.modified_by)
+      paramIndex++
     }
 
-    // Add ID as final parameter
+    updates.push(`${fields.version} = ${fields.version} + 1`)
+
+    // Add ID (and the expected version) as final parameters
     values.push(id)
+    let where = `${fields.id} = $${paramIndex}`
+    if (expectedVersion !== undefined) {
+      values.push(expectedVersion)
+      where += ` AND ${fields.version} = $${paramIndex + 1}`
+    }
 
     const query = `
       UPDATE tasks
       SET ${updates.join(', ')}
-      WHERE ${fields.id} = $${paramIndex}
+      WHERE ${where}
       RETURNING *
     `
 
     const result = await this.query<PostgresTaskRow>(query, values)
-
-    if (result.rows.length === 0) {
-      throw new Error(`Task with ID ${id} not found`)
-    }
-
-    return result.rows[0]
+    return result.rows[0] || null
   }
 
   /**
@@ -314,6 +416,420 @@ export class PostgresClient {
     }
   }
 
+  // ============================================================
+  // DEPENDENCY OPERATIONS
+  // ============================================================
+
+  /**
+   * List dependencies, optionally only those touching a task
+   */
+  async listDependencies(taskId?: string | number): Promise<PostgresDependencyRow[]> {
+    if (taskId !== undefined) {
+      const query = `
+        SELECT * FROM task_dependencies
+        WHERE task_id = $1 OR depends_on_task_id = $1
+        ORDER BY id ASC
+      `
+      const result = await this.query<PostgresDependencyRow>(query, [taskId])
+      return result.rows
+    }
+
+    const result = await this.query<PostgresDependencyRow>(
+      'SELECT * FROM task_dependencies ORDER BY id ASC'
+    )
+    return result.rows
+  }
+
+  /**
+   * Create a dependency
+   * task_id is the successor, depends_on_task_id the predecessor
+   */
+  async createDependency(
+    data: Pick<PostgresDependencyRow, 'task_id' | 'depends_on_task_id' | 'dependency_type' | 'lag_days'>
+  ): Promise<PostgresDependencyRow> {
+    const query = `
+      INSERT INTO task_dependencies (task_id, depends_on_task_id, dependency_type, lag_days)
+      VALUES ($1, $2, $3, $4)
+      RETURNING *
+    `
+    const result = await this.query<PostgresDependencyRow>(query, [
+      data.task_id,
+      data.depends_on_task_id,
+      data.dependency_type,
+      data.lag_days,
+    ])
+    return result.rows[0]
+  }
+
+  /**
+   * Delete a dependency
+   */
+  async deleteDependency(id: string | number): Promise<void> {
+    const result = await this.query('DELETE FROM task_dependencies WHERE id = $1', [id])
+
+    if (result.rowCount === 0) {
+      throw new Error(`Dependency with ID ${id} not found`)
+    }
+  }
+
+  // ============================================================
+  // WORK CALENDAR OPERATIONS
+  // ============================================================
+
+  /**
+   * Get a working calendar by ID
+   */
+  async getWorkCalendar(id: string): Promise<PostgresWorkCalendarRow | null> {
+    const result = await this.query<PostgresWorkCalendarRow>(
+      'SELECT * FROM work_calendars WHERE id = $1',
+      [id]
+    )
+    return result.rows[0] || null
+  }
+
+  /**
+   * Insert or replace a working calendar
+   */
+  async upsertWorkCalendar(
+    data: Omit<PostgresWorkCalendarRow, 'updated_at'>
+  ): Promise<PostgresWorkCalendarRow> {
+    const query = `
+      INSERT INTO work_calendars (id, name, working_days, holidays, resource_exceptions)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (id) DO UPDATE SET
+        name = EXCLUDED.name,
+        working_days = EXCLUDED.working_days,
+        holidays = EXCLUDED.holidays,
+        resource_exceptions = EXCLUDED.resource_exceptions
+      RETURNING *
+    `
+    const result = await this.query<PostgresWorkCalendarRow>(query, [
+      data.id,
+      data.name,
+      data.working_days,
+      JSON.stringify(data.holidays),
+      JSON.stringify(data.resource_exceptions),
+    ])
+    return result.rows[0]
+  }
+
+  // ============================================================
+  // RESOURCE OPERATIONS
+  // ============================================================
+
+  /**
+   * Get all resources
+   */
+  async getAllResources(): Promise<PostgresResourceRow[]> {
+    const result = await this.query<PostgresResourceRow>('SELECT * FROM resources ORDER BY id ASC')
+    return result.rows
+  }
+
+  /**
+   * Get a single resource by ID
+   */
+  async getResourceById(id: string | number): Promise<PostgresResourceRow | null> {
+    const result = await this.query<PostgresResourceRow>('SELECT * FROM resources WHERE id = $1', [id])
+    return result.rows[0] || null
+  }
+
+  /**
+   * Create a resource
+   */
+  async createResource(
+    data: Pick<PostgresResourceRow, 'name' | 'email' | 'role' | 'avatar' | 'availability' | 'color'>
+  ): Promise<PostgresResourceRow> {
+    const query = `
+      INSERT INTO resources (name, email, role, avatar, availability, color)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *
+    `
+    const result = await this.query<PostgresResourceRow>(query, [
+      data.name,
+      data.email,
+      data.role,
+      data.avatar,
+      data.availability,
+      data.color,
+    ])
+    return result.rows[0]
+  }
+
+  /**
+   * Update a resource
+   */
+  async updateResource(
+    id: string | number,
+    data: Partial<Pick<PostgresResourceRow, 'name' | 'email' | 'role' | 'avatar' | 'availability' | 'color'>>
+  ): Promise<PostgresResourceRow> {
+    const updates: string[] = []
+    const values: unknown[] = []
+
+    Object.entries(data).forEach(([column, value]) => {
+      if (value === undefined) return
+      values.push(value)
+      updates.push(`${column} = $${values.length}`)
+    })
+
+    if (updates.length === 0) {
+      const existing = await this.getResourceById(id)
+      if (!existing) {
+        throw new Error(`Resource with ID ${id} not found`)
+      }
+      return existing
+    }
+
+    values.push(id)
+    const query = `
+      UPDATE resources
+      SET ${updates.join(', ')}
+      WHERE id = $${values.length}
+      RETURNING *
+    `
+    const result = await this.query<PostgresResourceRow>(query, values)
+
+    if (result.rows.length === 0) {
+      throw new Error(`Resource with ID ${id} not found`)
+    }
+
+    return result.rows[0]
+  }
+
+  /**
+   * Delete a resource (its allocations cascade)
+   */
+  async deleteResource(id: string | number): Promise<void> {
+    const result = await this.query('DELETE FROM resources WHERE id = $1', [id])
+
+    if (result.rowCount === 0) {
+      throw new Error(`Resource with ID ${id} not found`)
+    }
+  }
+
+  // ============================================================
+  // ALLOCATION OPERATIONS
+  // ============================================================
+
+  /**
+   * List allocations, optionally filtered by task and/or resource
+   */
+  async listAllocations(filter: { taskId?: string; resourceId?: string } = {}): Promise<PostgresAllocationRow[]> {
+    const conditions: string[] = []
+    const values: unknown[] = []
+
+    if (filter.taskId) {
+      values.push(filter.taskId)
+      conditions.push(`task_id = $${values.length}`)
+    }
+    if (filter.resourceId) {
+      values.push(filter.resourceId)
+      conditions.push(`resource_id = $${values.length}`)
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+    const result = await this.query<PostgresAllocationRow>(
+      `SELECT * FROM resource_allocations ${where} ORDER BY id ASC`,
+      values
+    )
+    return result.rows
+  }
+
+  /**
+   * Get a single allocation by ID
+   */
+  async getAllocationById(id: string | number): Promise<PostgresAllocationRow | null> {
+    const result = await this.query<PostgresAllocationRow>(
+      'SELECT * FROM resource_allocations WHERE id = $1',
+      [id]
+    )
+    return result.rows[0] || null
+  }
+
+  /**
+   * Create an allocation
+   */
+  async createAllocation(
+    data: Pick<PostgresAllocationRow, 'task_id' | 'resource_id' | 'allocation' | 'start_date' | 'end_date'>
+  ): Promise<PostgresAllocationRow> {
+    const query = `
+      INSERT INTO resource_allocations (task_id, resource_id, allocation, start_date, end_date)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `
+    const result = await this.query<PostgresAllocationRow>(query, [
+      data.task_id,
+      data.resource_id,
+      data.allocation,
+      data.start_date,
+      data.end_date,
+    ])
+    return result.rows[0]
+  }
+
+  /**
+   * Update an allocation's percentage and dates
+   */
+  async updateAllocation(
+    id: string | number,
+    data: Pick<PostgresAllocationRow, 'allocation' | 'start_date' | 'end_date'>
+  ): Promise<PostgresAllocationRow> {
+    const query = `
+      UPDATE resource_allocations
+      SET allocation = $1, start_date = $2, end_date = $3
+      WHERE id = $4
+      RETURNING *
+    `
+    const result = await this.query<PostgresAllocationRow>(query, [
+      data.allocation,
+      data.start_date,
+      data.end_date,
+      id,
+    ])
+
+    if (result.rows.length === 0) {
+      throw new Error(`Allocation with ID ${id} not found`)
+    }
+
+    return result.rows[0]
+  }
+
+  /**
+   * Delete an allocation
+   */
+  async deleteAllocation(id: string | number): Promise<void> {
+    const result = await this.query('DELETE FROM resource_allocations WHERE id = $1', [id])
+
+    if (result.rowCount === 0) {
+      throw new Error(`Allocation with ID ${id} not found`)
+    }
+  }
+
+  // ============================================================
+  // COMMENT OPERATIONS
+  // ============================================================
+
+  /**
+   * List the comments of a task, oldest first
+   */
+  async listComments(taskId: string | number): Promise<PostgresCommentRow[]> {
+    const result = await this.query<PostgresCommentRow>(
+      'SELECT * FROM task_comments WHERE task_id = $1 ORDER BY created_at ASC, id ASC',
+      [taskId]
+    )
+    return result.rows
+  }
+
+  /**
+   * Create a comment
+   */
+  async createComment(
+    data: Pick<PostgresCommentRow, 'task_id' | 'parent_id' | 'user_id' | 'user_name' | 'user_avatar' | 'content'>
+  ): Promise<PostgresCommentRow> {
+    const query = `
+      INSERT INTO task_comments (task_id, parent_id, user_id, user_name, user_avatar, content)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *
+    `
+    const result = await this.query<PostgresCommentRow>(query, [
+      data.task_id,
+      data.parent_id,
+      data.user_id,
+      data.user_name,
+      data.user_avatar,
+      data.content,
+    ])
+    return result.rows[0]
+  }
+
+  /**
+   * Delete a comment (replies cascade)
+   */
+  async deleteComment(id: string | number): Promise<void> {
+    const result = await this.query('DELETE FROM task_comments WHERE id = $1', [id])
+
+    if (result.rowCount === 0) {
+      throw new Error(`Comment with ID ${id} not found`)
+    }
+  }
+
+  // ============================================================
+  // CHANGE HISTORY OPERATIONS
+  // ============================================================
+
+  /**
+   * List the rows of the most recent change sets matching the filters
+   * Rows come newest set first, in change order within a set.
+   */
+  async listChangeHistory(params: ChangeHistoryQueryParams = {}): Promise<PostgresChangeHistoryRow[]> {
+    const conditions: string[] = []
+    const values: unknown[] = []
+
+    if (params.taskId) {
+      values.push(params.taskId)
+      conditions.push(`task_id = $${values.length}`)
+    }
+    if (params.user) {
+      values.push(params.user.toLowerCase())
+      conditions.push(`(LOWER(user_id) = $${values.length} OR LOWER(user_name) = $${values.length})`)
+    }
+    if (params.from) {
+      values.push(params.from)
+      conditions.push(`created_at >= $${values.length}`)
+    }
+    if (params.to) {
+      values.push(params.to)
+      conditions.push(`created_at <= $${values.length}`)
+    }
+    values.push(params.limit ?? 100)
+
+    // Filter and limit whole change sets, then fetch all of their rows
+    const query = `
+      SELECT h.* FROM change_history h
+      JOIN (
+        SELECT change_set_id, MAX(created_at) AS set_time
+        FROM change_history
+        ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+        GROUP BY change_set_id
+        ORDER BY set_time DESC
+        LIMIT $${values.length}
+      ) recent ON recent.change_set_id = h.change_set_id
+      ORDER BY recent.set_time DESC, h.change_set_id, h.position
+    `
+    const result = await this.query<PostgresChangeHistoryRow>(query, values)
+    return result.rows
+  }
+
+  /**
+   * Insert the rows of a change set in one transaction
+   * Rows that already exist are skipped, so appending a set twice is harmless.
+   */
+  async insertChangeHistory(rows: PostgresChangeHistoryRow[]): Promise<void> {
+    await this.transaction(async (client) => {
+      for (const row of rows) {
+        await client.query(
+          `INSERT INTO change_history
+            (id, change_set_id, position, task_id, change_type, field, old_value, new_value, user_id, user_name, description, created_at)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+          ON CONFLICT (id) DO NOTHING`,
+          [
+            row.id,
+            row.change_set_id,
+            row.position,
+            row.task_id,
+            row.change_type,
+            row.field,
+            row.old_value,
+            row.new_value,
+            row.user_id,
+            row.user_name,
+            row.description,
+            row.created_at,
+          ]
+        )
+      }
+    })
+  }
+
   // ============================================================
   // STATUS OPERATIONS
   // ============================================================
@@ -453,22 +969,29 @@ export class PostgresClient {
   }
 
   // ============================================================
-  // TRANSACTION SUPPORT (for future features)
+  // TRANSACTION SUPPORT
   // ============================================================
 
   /**
    * Execute multiple operations in a transaction
+   * Every client method called from operations joins the transaction, and a
+   * transaction started inside another one is part of the outer one.
    * @param operations - Async function that receives a client for transaction
    * @returns Result of the operations
    */
   async transaction<T>(
     operations: (client: PoolClient) => Promise<T>
   ): Promise<T> {
+    const current = this.transactionClient.getStore()
+    if (current) {
+      return operations(current)
+    }
+
     const client = await this.getClient()
 
     try {
       await client.query('BEGIN')
-      const result = await operations(client)
+      const result = await this.transactionClient.run(client, () => operations(client))
       await client.query('COMMIT')
       return result
     } catch (error) {
@@ -8,18 +8,65 @@ import { IDataProvider } from '../data-provider.interface'
 import type {
   Task,
   TaskStatus,
+  CreateStatusDTO,
   CreateTaskDTO,
   UpdateTaskDTO,
   PaginatedResponse,
   TaskQueryParams,
+  TaskDependency,
+  CreateDependencyDTO,
+  WorkCalendar,
+  Resource,
+  CreateResourceDTO,
+  UpdateResourceDTO,
+  ResourceAllocation,
+  CreateAllocationDTO,
+  UpdateAllocationDTO,
+  AllocationQueryParams,
+  Comment,
+  CreateCommentDTO,
+  ChangeSet,
+  ChangeHistoryQueryParams,
+  TaskBatchOperation,
+  TaskBatchResult,
 } from '@/types/task'
 import { PostgresClient } from './postgres-client'
 import type {
   PostgresConfig,
   PostgresTaskRow,
   PostgresStatusRow,
+  PostgresDependencyRow,
+  PostgresResourceRow,
+  PostgresAllocationRow,
+  PostgresCommentRow,
+  PostgresChangeHistoryRow,
   PostgresQueryParams,
 } from './types'
+import {
+  assertValidDependency,
+  attachDependencies,
+  syncTaskPredecessors,
+  DEFAULT_DEPENDENCY_TYPE,
+} from '../dependencies'
+import { assertValidParent } from '../hierarchy'
+import {
+  assertValidResource,
+  assertValidAllocation,
+  syncTaskAllocations,
+  DEFAULT_AVAILABILITY,
+  DEFAULT_ALLOCATION,
+} from '../resources'
+import { assertValidStatus, DEFAULT_STATUS_COLOR } from '../statuses'
+import { assertValidComment } from '../comments'
+import { getUnmatchedUpdateError, INITIAL_TASK_VERSION } from '../concurrency'
+import { runTaskBatch } from '../batch'
+import {
+  assertValidChangeSet,
+  groupChangeHistoryRows,
+  toChangeHistoryRows,
+  type ChangeHistoryRow,
+} from '../history'
+import { DEFAULT_WORK_CALENDAR, normalizeWorkCalendar } from '@/lib/utils/work-calendar'
 
 /**
  * PostgreSQL data provider
@@ -40,13 +87,19 @@ export class PostgresProvider implements IDataProvider {
   // ============================================================
 
   /**
-   * Get tasks with pagination
+   * Get tasks with filters, sorting and pagination
    */
   async getTasks(params?: TaskQueryParams): Promise<PaginatedResponse<Task>> {
     const page = params?.page || 1
     const pageSize = params?.pageSize || 50
     const offset = (page - 1) * pageSize
 
+    // Ids are integers, so other ids match no task
+    const isId = (value?: string) => value === undefined || /^\d+$/.test(value)
+    if (!isId(params?.statusId) || !isId(params?.resourceId)) {
+      return { data: [], total: 0, page, pageSize, hasMore: false }
+    }
+
     // Convert canonical params to PostgreSQL params
     const pgParams: PostgresQueryParams = {
       limit: pageSize,
@@ -56,6 +109,12 @@ export class PostgresProvider implements IDataProvider {
       statusId: params?.statusId ? parseInt(params.statusId, 10) : undefined,
       group: params?.group,
       owner: params?.owner,
+      search: params?.search,
+      resourceId: params?.resourceId ? parseInt(params.resourceId, 10) : undefined,
+      priority: params?.priority,
+      tags: params?.tags,
+      orderBy: params?.sortBy,
+      orderDirection: params?.sortOrder === 'desc' ? 'DESC' : 'ASC',
     }
 
     const result = await this.client.listTasks(pgParams)
@@ -64,7 +123,10 @@ export class PostgresProvider implements IDataProvider {
     const statuses = await this.getStatusesMap()
 
     // Map rows to canonical Task type
-    const tasks = result.rows.map((row) => this.mapRowToTask(row, statuses))
+    const tasks = attachDependencies(
+      result.rows.map((row) => this.mapRowToTask(row, statuses)),
+      await this.getDependencies()
+    )
 
     return {
       data: tasks,
@@ -81,7 +143,10 @@ export class PostgresProvider implements IDataProvider {
   async getAllTasks(): Promise<Task[]> {
     const rows = await this.client.getAllTasks()
     const statuses = await this.getStatusesMap()
-    return rows.map((row) => this.mapRowToTask(row, statuses))
+    return attachDependencies(
+      rows.map((row) => this.mapRowToTask(row, statuses)),
+      await this.getDependencies()
+    )
   }
 
   /**
@@ -92,15 +157,21 @@ export class PostgresProvider implements IDataProvider {
     if (!row) return null
 
     const statuses = await this.getStatusesMap()
-    return this.mapRowToTask(row, statuses)
+    return attachDependencies([this.mapRowToTask(row, statuses)], await this.getDependencies(id))[0]
   }
 
   /**
    * Create a new task
    */
   async createTask(data: CreateTaskDTO): Promise<Task> {
+    if (data.parentId) {
+      assertValidParent(await this.getAllTasks(), undefined, data.parentId)
+    }
+
     // Convert canonical DTO to PostgreSQL row format
     const pgRow: Partial<PostgresTaskRow> = {
+      // Ids are integers, so only a numeric id can be kept
+      id: data.id && /^\d+$/.test(data.id) ? parseInt(data.id, 10) : undefined,
       name: data.name,
       start_at: data.startAt,
       end_at: data.endAt,
@@ -109,17 +180,35 @@ export class PostgresProvider implements IDataProvider {
       owner: data.owner || null,
       description: data.description || null,
       progress: data.progress || 0,
+      priority: data.priority || null,
+      tags: data.tags && data.tags.length > 0 ? data.tags : null,
+      is_milestone: data.isMilestone || false,
+      parent_id: data.parentId ? parseInt(data.parentId, 10) : null,
+      modified_by: data.modifiedBy || null,
     }
 
     const createdRow = await this.client.createTask(pgRow)
     const statuses = await this.getStatusesMap()
-    return this.mapRowToTask(createdRow, statuses)
+    const task = this.mapRowToTask(createdRow, statuses)
+
+    if (data.dependencies) {
+      task.dependencies = await syncTaskPredecessors(this, task.id, data.dependencies)
+    }
+    if (data.assignments) {
+      await syncTaskAllocations(this, task.id, data.assignments)
+    }
+
+    return task
   }
 
   /**
    * Update an existing task
    */
   async updateTask(id: string, data: UpdateTaskDTO): Promise<Task> {
+    if (data.parentId) {
+      assertValidParent(await this.getAllTasks(), id, data.parentId)
+    }
+
     // Convert canonical DTO to PostgreSQL row format
     const pgRow: Partial<PostgresTaskRow> = {}
 
@@ -133,19 +222,317 @@ export class PostgresProvider implements IDataProvider {
     if (data.owner !== undefined) pgRow.owner = data.owner
     if (data.description !== undefined) pgRow.description = data.description
     if (data.progress !== undefined) pgRow.progress = data.progress
+    if (data.priority !== undefined) pgRow.priority = data.priority || null
+    if (data.tags !== undefined) pgRow.tags = data.tags.length > 0 ? data.tags : null
+    if (data.isMilestone !== undefined) pgRow.is_milestone = data.isMilestone
+    if (data.parentId !== undefined) {
+      pgRow.parent_id = data.parentId ? parseInt(data.parentId, 10) : null
+    }
+    if (data.modifiedBy !== undefined) pgRow.modified_by = data.modifiedBy
+
+    // The version check and increment happen in the same UPDATE statement, so
+    // dependencies and assignments are only replaced once it went through
+    const updatedRow = await this.client.updateTask(id, pgRow, data.expectedVersion)
+    if (!updatedRow) {
+      throw getUnmatchedUpdateError(id, await this.getTaskById(id), data.expectedVersion)
+    }
+
+    if (data.dependencies) {
+      await syncTaskPredecessors(this, id, data.dependencies)
+    }
+    if (data.assignments) {
+      await syncTaskAllocations(this, id, data.assignments)
+    }
 
-    const updatedRow = await this.client.updateTask(id, pgRow)
     const statuses = await this.getStatusesMap()
-    return this.mapRowToTask(updatedRow, statuses)
+    return attachDependencies([this.mapRowToTask(updatedRow, statuses)], await this.getDependencies(id))[0]
   }
 
   /**
-   * Delete a task
+   * Delete a task (its dependencies and allocations cascade)
    */
   async deleteTask(id: string): Promise<void> {
     await this.client.deleteTask(id)
   }
 
+  /**
+   * Apply a batch of task operations in one transaction
+   */
+  async applyTaskBatch(operations: TaskBatchOperation[]): Promise<TaskBatchResult[]> {
+    return this.client.transaction(() => runTaskBatch(this, operations))
+  }
+
+  // ============================================================
+  // DEPENDENCY OPERATIONS
+  // ============================================================
+
+  /**
+   * Get dependencies, optionally only those touching a task
+   */
+  async getDependencies(taskId?: string): Promise<TaskDependency[]> {
+    const rows = await this.client.listDependencies(taskId)
+    return rows.map((row) => this.mapRowToDependency(row))
+  }
+
+  /**
+   * Add a dependency between two tasks
+   */
+  async addDependency(data: CreateDependencyDTO): Promise<TaskDependency> {
+    assertValidDependency(await this.getDependencies(), data)
+
+    const row = await this.client.createDependency({
+      task_id: parseInt(data.successorId, 10),
+      depends_on_task_id: parseInt(data.predecessorId, 10),
+      dependency_type: (data.type || DEFAULT_DEPENDENCY_TYPE).replace(
+        /-/g,
+        '_'
+      ) as PostgresDependencyRow['dependency_type'],
+      lag_days: Math.round(data.lag || 0),
+    })
+    return this.mapRowToDependency(row)
+  }
+
+  /**
+   * Remove a dependency
+   */
+  async removeDependency(id: string): Promise<void> {
+    await this.client.deleteDependency(id)
+  }
+
+  // ============================================================
+  // WORK CALENDAR OPERATIONS
+  // ============================================================
+
+  /**
+   * Get the working calendar (defaults when none is stored yet)
+   */
+  async getWorkCalendar(): Promise<WorkCalendar> {
+    const row = await this.client.getWorkCalendar(DEFAULT_WORK_CALENDAR.id)
+    if (!row) return normalizeWorkCalendar(DEFAULT_WORK_CALENDAR)
+
+    return normalizeWorkCalendar({
+      id: row.id,
+      name: row.name,
+      workingDays: row.working_days,
+      holidays: row.holidays,
+      resourceExceptions: row.resource_exceptions,
+    })
+  }
+
+  /**
+   * Save the working calendar
+   */
+  async saveWorkCalendar(calendar: WorkCalendar): Promise<WorkCalendar> {
+    const normalized = normalizeWorkCalendar(calendar)
+
+    await this.client.upsertWorkCalendar({
+      id: DEFAULT_WORK_CALENDAR.id,
+      name: normalized.name,
+      working_days: normalized.workingDays,
+      holidays: normalized.holidays,
+      resource_exceptions: normalized.resourceExceptions,
+    })
+    return this.getWorkCalendar()
+  }
+
+  // ============================================================
+  // RESOURCE OPERATIONS
+  // ============================================================
+
+  /**
+   * Get all resources
+   */
+  async getResources(): Promise<Resource[]> {
+    const rows = await this.client.getAllResources()
+    return rows.map((row) => this.mapRowToResource(row))
+  }
+
+  /**
+   * Get a single resource by ID
+   */
+  async getResourceById(id: string): Promise<Resource | null> {
+    const row = await this.client.getResourceById(id)
+    return row ? this.mapRowToResource(row) : null
+  }
+
+  /**
+   * Create a new resource
+   */
+  async createResource(data: CreateResourceDTO): Promise<Resource> {
+    assertValidResource(data, true)
+
+    const row = await this.client.createResource({
+      name: data.name,
+      email: data.email || null,
+      role: data.role || null,
+      avatar: data.avatar || null,
+      availability: data.availability ?? DEFAULT_AVAILABILITY,
+      color: data.color || null,
+    })
+    return this.mapRowToResource(row)
+  }
+
+  /**
+   * Update an existing resource
+   */
+  async updateResource(id: string, data: UpdateResourceDTO): Promise<Resource> {
+    assertValidResource(data, false)
+
+    const pgRow: Partial<PostgresResourceRow> = {}
+
+    if (data.name !== undefined) pgRow.name = data.name
+    if (data.email !== undefined) pgRow.email = data.email || null
+    if (data.role !== undefined) pgRow.role = data.role || null
+    if (data.avatar !== undefined) pgRow.avatar = data.avatar || null
+    if (data.availability !== undefined) pgRow.availability = data.availability
+    if (data.color !== undefined) pgRow.color = data.color || null
+
+    const row = await this.client.updateResource(id, pgRow)
+    return this.mapRowToResource(row)
+  }
+
+  /**
+   * Delete a resource (its allocations cascade)
+   */
+  async deleteResource(id: string): Promise<void> {
+    await this.client.deleteResource(id)
+  }
+
+  // ============================================================
+  // ALLOCATION OPERATIONS
+  // ============================================================
+
+  /**
+   * Get allocations, optionally filtered by task or resource
+   */
+  async getAllocations(params?: AllocationQueryParams): Promise<ResourceAllocation[]> {
+    const rows = await this.client.listAllocations(params)
+    return rows.map((row) => this.mapRowToAllocation(row))
+  }
+
+  /**
+   * Assign a resource to a task
+   */
+  async createAllocation(data: CreateAllocationDTO): Promise<ResourceAllocation> {
+    if (!(await this.client.getResourceById(data.resourceId))) {
+      throw new Error(`Resource with ID ${data.resourceId} not found`)
+    }
+    assertValidAllocation(await this.getAllocations({ taskId: data.taskId }), data)
+
+    const row = await this.client.createAllocation({
+      task_id: parseInt(data.taskId, 10),
+      resource_id: parseInt(data.resourceId, 10),
+      allocation: data.allocation ?? DEFAULT_ALLOCATION,
+      start_date: data.startDate || null,
+      end_date: data.endDate || null,
+    })
+    return this.mapRowToAllocation(row)
+  }
+
+  /**
+   * Update an allocation's percentage or dates
+   */
+  async updateAllocation(id: string, data: UpdateAllocationDTO): Promise<ResourceAllocation> {
+    const existing = await this.client.getAllocationById(id)
+    if (!existing) {
+      throw new Error(`Allocation with ID ${id} not found`)
+    }
+
+    const updated = { ...this.mapRowToAllocation(existing), ...data }
+    assertValidAllocation([], updated, id)
+
+    const row = await this.client.updateAllocation(id, {
+      allocation: updated.allocation,
+      start_date: updated.startDate || null,
+      end_date: updated.endDate || null,
+    })
+    return this.mapRowToAllocation(row)
+  }
+
+  /**
+   * Remove an allocation
+   */
+  async deleteAllocation(id: string): Promise<void> {
+    await this.client.deleteAllocation(id)
+  }
+
+  // ============================================================
+  // COMMENT OPERATIONS
+  // ============================================================
+
+  /**
+   * Get the comments of a task
+   */
+  async getComments(taskId: string): Promise<Comment[]> {
+    const rows = await this.client.listComments(taskId)
+    return rows.map((row) => this.mapRowToComment(row))
+  }
+
+  /**
+   * Add a comment or a reply to a task
+   */
+  async createComment(data: CreateCommentDTO): Promise<Comment> {
+    if (!(await this.client.getTaskById(data.taskId))) {
+      throw new Error(`Task with ID ${data.taskId} not found`)
+    }
+    assertValidComment(await this.getComments(data.taskId), data)
+
+    const row = await this.client.createComment({
+      task_id: parseInt(data.taskId, 10),
+      parent_id: data.parentId ? parseInt(data.parentId, 10) : null,
+      user_id: data.userId,
+      user_name: data.userName,
+      user_avatar: data.userAvatar || null,
+      content: data.content,
+    })
+    return this.mapRowToComment(row)
+  }
+
+  /**
+   * Delete a comment (its replies cascade)
+   */
+  async deleteComment(id: string): Promise<void> {
+    await this.client.deleteComment(id)
+  }
+
+  // ============================================================
+  // CHANGE HISTORY OPERATIONS
+  // ============================================================
+
+  /**
+   * Get the change history, newest first
+   */
+  async getChangeHistory(params?: ChangeHistoryQueryParams): Promise<ChangeSet[]> {
+    const rows = await this.client.listChangeHistory(params)
+    return groupChangeHistoryRows(rows.map((row) => this.mapRowToChangeHistory(row)))
+  }
+
+  /**
+   * Append a committed change set to the history
+   */
+  async appendChangeSet(changeSet: ChangeSet): Promise<ChangeSet> {
+    assertValidChangeSet(changeSet)
+
+    const rows = toChangeHistoryRows(changeSet)
+    await this.client.insertChangeHistory(
+      rows.map((row) => ({
+        id: row.id,
+        change_set_id: row.changeSetId,
+        position: row.position,
+        task_id: row.taskId,
+        change_type: row.changeType,
+        field: row.field || null,
+        old_value: row.oldValue ?? null,
+        new_value: row.newValue ?? null,
+        user_id: row.userId || null,
+        user_name: row.userName || null,
+        description: row.description || null,
+        created_at: row.timestamp,
+      }))
+    )
+    return groupChangeHistoryRows(rows)[0]
+  }
+
   // ============================================================
   // STATUS OPERATIONS
   // ============================================================
@@ -167,6 +554,20 @@ export class PostgresProvider implements IDataProvider {
     return this.mapRowToStatus(row)
   }
 
+  /**
+   * Create a new status
+   */
+  async createStatus(data: CreateStatusDTO): Promise<TaskStatus> {
+    assertValidStatus(await this.getStatuses(), data)
+
+    const row = await this.client.createStatus({
+      name: data.name.trim(),
+      color: data.color || DEFAULT_STATUS_COLOR,
+    })
+    this.statusCache.clear()
+    return this.mapRowToStatus(row)
+  }
+
   // ============================================================
   // HEALTH CHECK
   // ============================================================
@@ -229,11 +630,95 @@ export class PostgresProvider implements IDataProvider {
       owner: row.owner || undefined,
       description: row.description || undefined,
       progress: row.progress || undefined,
+      priority: row.priority || undefined,
+      tags: row.tags && row.tags.length > 0 ? row.tags : undefined,
+      isMilestone: row.is_milestone || undefined,
+      parentId: row.parent_id ? String(row.parent_id) : undefined,
+      version: row.version ?? INITIAL_TASK_VERSION,
+      modifiedBy: row.modified_by || undefined,
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at),
     }
   }
 
+  /**
+   * Map PostgreSQL dependency row to canonical TaskDependency type
+   */
+  private mapRowToDependency(row: PostgresDependencyRow): TaskDependency {
+    return {
+      id: String(row.id),
+      predecessorId: String(row.depends_on_task_id),
+      successorId: String(row.task_id),
+      type: (row.dependency_type || 'finish_to_start').replace(/_/g, '-') as TaskDependency['type'],
+      lag: row.lag_days || 0,
+    }
+  }
+
+  /**
+   * Map PostgreSQL resource row to canonical Resource type
+   */
+  private mapRowToResource(row: PostgresResourceRow): Resource {
+    return {
+      id: String(row.id),
+      name: row.name,
+      email: row.email || undefined,
+      role: row.role || undefined,
+      avatar: row.avatar || undefined,
+      availability: row.availability,
+      color: row.color || undefined,
+    }
+  }
+
+  /**
+   * Map PostgreSQL allocation row to canonical ResourceAllocation type
+   */
+  private mapRowToAllocation(row: PostgresAllocationRow): ResourceAllocation {
+    return {
+      id: String(row.id),
+      taskId: String(row.task_id),
+      resourceId: String(row.resource_id),
+      allocation: row.allocation,
+      startDate: row.start_date ? new Date(row.start_date) : undefined,
+      endDate: row.end_date ? new Date(row.end_date) : undefined,
+    }
+  }
+
+  /**
+   * Map PostgreSQL comment row to canonical Comment type
+   */
+  private mapRowToComment(row: PostgresCommentRow): Comment {
+    return {
+      id: String(row.id),
+      taskId: String(row.task_id),
+      userId: row.user_id,
+      userName: row.user_name,
+      userAvatar: row.user_avatar || undefined,
+      content: row.content,
+      timestamp: new Date(row.created_at),
+      parentId: row.parent_id ? String(row.parent_id) : undefined,
+    }
+  }
+
+  /**
+   * Map PostgreSQL change history row to a flat history row
+   */
+  private mapRowToChangeHistory(row: PostgresChangeHistoryRow): ChangeHistoryRow {
+    return {
+      id: row.id,
+      changeSetId: row.change_set_id,
+      position: row.position,
+      taskId: row.task_id,
+      changeType: row.change_type,
+      field: row.field || undefined,
+      oldValue: row.old_value ?? undefined,
+      newValue: row.new_value ?? undefined,
+      userId: row.user_id || undefined,
+      userName: row.user_name || undefined,
+      description: row.description || undefined,
+      timestamp: new Date(row.created_at),
+    }
+  }
+
   /**
    * Map PostgreSQL status row to canonical TaskStatus type
    */
@@ -8,6 +8,8 @@
 --   - Tasks table with full project management fields
 --   - Statuses table for task states
 --   - Task dependencies support
+--   - Working calendar (weekdays, holidays, resource exceptions)
+--   - Resources and their allocations to tasks
 --   - Indexes for performance
 --   - Constraints for data integrity
 --   - Timestamps for auditing
@@ -47,24 +49,44 @@ CREATE TABLE IF NOT EXISTS tasks (
   owner VARCHAR(100),
   description TEXT,
   progress INTEGER DEFAULT 0 CHECK (progress >= 0 AND progress <= 100),
+  priority VARCHAR(20) CHECK (priority IN ('low', 'medium', 'high', 'critical')),
+  tags TEXT[],
+  is_milestone BOOLEAN NOT NULL DEFAULT FALSE,
+  parent_id INTEGER REFERENCES tasks(id) ON DELETE SET NULL,  -- Summary task (WBS)
+  version INTEGER NOT NULL DEFAULT 1,  -- Incremented on every update (optimistic concurrency)
+  modified_by VARCHAR(255),
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
 
   -- Constraints
-  CONSTRAINT valid_date_range CHECK (end_at >= start_at)
+  CONSTRAINT valid_date_range CHECK (end_at >= start_at),
+  CONSTRAINT no_self_parent CHECK (parent_id != id)
 );
 
+-- Upgrade databases created before task hierarchy support
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS parent_id INTEGER REFERENCES tasks(id) ON DELETE SET NULL;
+
+-- Upgrade databases created before optimistic concurrency support
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS modified_by VARCHAR(255);
+
+-- Upgrade databases created before priority, tag and milestone support
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS priority VARCHAR(20) CHECK (priority IN ('low', 'medium', 'high', 'critical'));
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS tags TEXT[];
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS is_milestone BOOLEAN NOT NULL DEFAULT FALSE;
+
 -- ============================================================
--- TASK DEPENDENCIES TABLE (Future feature - v1.2.0)
+-- TASK DEPENDENCIES TABLE
 -- ============================================================
 -- Stores relationships between tasks
+-- task_id is the successor, depends_on_task_id the predecessor
 -- ============================================================
 
 CREATE TABLE IF NOT EXISTS task_dependencies (
   id SERIAL PRIMARY KEY,
   task_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
   depends_on_task_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
-  dependency_type VARCHAR(20) DEFAULT 'finish_to_start',  -- finish_to_start, start_to_start, etc.
+  dependency_type VARCHAR(20) DEFAULT 'finish_to_start',  -- finish_to_start, start_to_start, finish_to_finish, start_to_finish
   lag_days INTEGER DEFAULT 0,  -- Delay between tasks
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
 
@@ -75,6 +97,101 @@ CREATE TABLE IF NOT EXISTS task_dependencies (
   CONSTRAINT no_self_dependency CHECK (task_id != depends_on_task_id)
 );
 
+-- ============================================================
+-- WORK CALENDARS TABLE
+-- ============================================================
+-- Working weekdays (0 = Sunday ... 6 = Saturday), holidays
+-- [{date, name}] and per-resource exceptions
+-- [{resourceId, date, isWorking, name}]
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS work_calendars (
+  id VARCHAR(50) PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  working_days INTEGER[] NOT NULL DEFAULT '{1,2,3,4,5}',
+  holidays JSONB NOT NULL DEFAULT '[]',
+  resource_exceptions JSONB NOT NULL DEFAULT '[]',
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- ============================================================
+-- RESOURCES TABLE
+-- ============================================================
+-- People (or equipment) that can be assigned to tasks
+-- availability is the share of a full working day, in percent
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS resources (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  email VARCHAR(255),
+  role VARCHAR(100),
+  avatar TEXT,
+  availability INTEGER NOT NULL DEFAULT 100 CHECK (availability >= 0 AND availability <= 100),
+  color VARCHAR(7),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- ============================================================
+-- RESOURCE ALLOCATIONS TABLE
+-- ============================================================
+-- Assignment of a resource to a task, in percent of its time
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS resource_allocations (
+  id SERIAL PRIMARY KEY,
+  task_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  resource_id INTEGER NOT NULL REFERENCES resources(id) ON DELETE CASCADE,
+  allocation INTEGER NOT NULL DEFAULT 100 CHECK (allocation > 0 AND allocation <= 100),
+  start_date TIMESTAMP,
+  end_date TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  -- A resource is assigned to a task only once
+  CONSTRAINT unique_allocation UNIQUE (task_id, resource_id)
+);
+
+-- ============================================================
+-- TASK_COMMENTS TABLE
+-- ============================================================
+-- Threaded comments; deleting a comment removes its replies
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS task_comments (
+  id SERIAL PRIMARY KEY,
+  task_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  parent_id INTEGER REFERENCES task_comments(id) ON DELETE CASCADE,
+  user_id VARCHAR(255) NOT NULL,
+  user_name VARCHAR(255) NOT NULL,
+  user_avatar TEXT,
+  content TEXT NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- ============================================================
+-- CHANGE_HISTORY TABLE
+-- ============================================================
+-- Append-only audit log, one row per change of a change set.
+-- No foreign key to tasks: the history outlives deleted tasks.
+-- Values are stored as JSON text.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS change_history (
+  id VARCHAR(255) PRIMARY KEY,
+  change_set_id VARCHAR(255) NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,  -- Order of the change within its set
+  task_id VARCHAR(255) NOT NULL,
+  change_type VARCHAR(10) NOT NULL CHECK (change_type IN ('create', 'update', 'delete')),
+  field VARCHAR(100),
+  old_value TEXT,
+  new_value TEXT,
+  user_id VARCHAR(255),
+  user_name VARCHAR(255),
+  description TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
 -- ============================================================
 -- INDEXES
 -- ============================================================
@@ -92,6 +209,9 @@ CREATE INDEX IF NOT EXISTS idx_tasks_status_id ON tasks(status_id);
 CREATE INDEX IF NOT EXISTS idx_tasks_group ON tasks("group");
 CREATE INDEX IF NOT EXISTS idx_tasks_owner ON tasks(owner);
 
+-- Task hierarchy lookup
+CREATE INDEX IF NOT EXISTS idx_tasks_parent_id ON tasks(parent_id);
+
 -- Full-text search on task names (future feature)
 CREATE INDEX IF NOT EXISTS idx_tasks_name_trgm ON tasks USING gin (name gin_trgm_ops);
 
@@ -99,6 +219,18 @@ CREATE INDEX IF NOT EXISTS idx_tasks_name_trgm ON tasks USING gin (name gin_trgm
 CREATE INDEX IF NOT EXISTS idx_dependencies_task_id ON task_dependencies(task_id);
 CREATE INDEX IF NOT EXISTS idx_dependencies_depends_on ON task_dependencies(depends_on_task_id);
 
+-- Allocations lookup
+CREATE INDEX IF NOT EXISTS idx_allocations_task_id ON resource_allocations(task_id);
+CREATE INDEX IF NOT EXISTS idx_allocations_resource_id ON resource_allocations(resource_id);
+
+-- Comments lookup
+CREATE INDEX IF NOT EXISTS idx_comments_task_id ON task_comments(task_id);
+
+-- Change history lookup
+CREATE INDEX IF NOT EXISTS idx_change_history_set_id ON change_history(change_set_id);
+CREATE INDEX IF NOT EXISTS idx_change_history_task_id ON change_history(task_id);
+CREATE INDEX IF NOT EXISTS idx_change_history_created_at ON change_history(created_at);
+
 -- ============================================================
 -- TRIGGERS
 -- ============================================================
@@ -128,6 +260,20 @@ CREATE TRIGGER update_statuses_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
 
+-- Trigger for resources table
+DROP TRIGGER IF EXISTS update_resources_updated_at ON resources;
+CREATE TRIGGER update_resources_updated_at
+  BEFORE UPDATE ON resources
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Trigger for work_calendars table
+DROP TRIGGER IF EXISTS update_work_calendars_updated_at ON work_calendars;
+CREATE TRIGGER update_work_calendars_updated_at
+  BEFORE UPDATE ON work_calendars
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
 -- ============================================================
 -- DEFAULT DATA
 -- ============================================================
@@ -166,8 +312,9 @@ INSERT INTO tasks (name, start_at, end_at, status_id, "group", owner, descriptio
 -- Pre-joined views for common queries
 -- ============================================================
 
--- Tasks with status information
-CREATE OR REPLACE VIEW tasks_with_status AS
+-- Tasks with status information (dropped first: t.* changes with new columns)
+DROP VIEW IF EXISTS tasks_with_status;
+CREATE VIEW tasks_with_status AS
 SELECT
   t.*,
   s.name AS status_name,
@@ -4,6 +4,8 @@
  * @created 2025-10-25
  */
 
+import type { CalendarHoliday, ResourceCalendarException } from '@/types/task'
+
 /**
  * PostgreSQL provider configuration
  */
@@ -33,6 +35,12 @@ export interface PostgresTaskRow {
   owner: string | null
   description: string | null
   progress: number | null
+  priority: 'low' | 'medium' | 'high' | 'critical' | null
+  tags: string[] | null
+  is_milestone: boolean
+  parent_id: number | null
+  version: number
+  modified_by: string | null
   created_at: Date
   updated_at: Date
 }
@@ -68,6 +76,78 @@ export interface PostgresDependencyRow {
   created_at: Date
 }
 
+/**
+ * Working calendar row (holidays and exceptions are JSONB arrays)
+ */
+export interface PostgresWorkCalendarRow {
+  id: string
+  name: string
+  working_days: number[]
+  holidays: CalendarHoliday[]
+  resource_exceptions: ResourceCalendarException[]
+  updated_at: Date
+}
+
+/**
+ * Resource row
+ */
+export interface PostgresResourceRow {
+  id: number
+  name: string
+  email: string | null
+  role: string | null
+  avatar: string | null
+  availability: number
+  color: string | null
+  created_at: Date
+  updated_at: Date
+}
+
+/**
+ * Resource allocation row (assignment of a resource to a task)
+ */
+export interface PostgresAllocationRow {
+  id: number
+  task_id: number
+  resource_id: number
+  allocation: number
+  start_date: Date | null
+  end_date: Date | null
+  created_at: Date
+}
+
+/**
+ * PostgreSQL task comment row
+ */
+export interface PostgresCommentRow {
+  id: number
+  task_id: number
+  parent_id: number | null
+  user_id: string
+  user_name: string
+  user_avatar: string | null
+  content: string
+  created_at: Date
+}
+
+/**
+ * PostgreSQL change history row (one change of a change set)
+ */
+export interface PostgresChangeHistoryRow {
+  id: string
+  change_set_id: string
+  position: number
+  task_id: string
+  change_type: 'create' | 'update' | 'delete'
+  field: string | null
+  old_value: string | null
+  new_value: string | null
+  user_id: string | null
+  user_name: string | null
+  description: string | null
+  created_at: Date
+}
+
 /**
  * Query parameters for filtering tasks
  */
@@ -79,7 +159,21 @@ export interface PostgresQueryParams {
   statusId?: number
   group?: string
   owner?: string
-  orderBy?: 'start_at' | 'end_at' | 'name' | 'created_at'
+  search?: string // Name, description, owner or group contains it, ignoring case
+  resourceId?: number // Allocated to this resource
+  priority?: string
+  tags?: string[] // Has any of these tags
+  orderBy?:
+    | 'name'
+    | 'startAt'
+    | 'endAt'
+    | 'status'
+    | 'group'
+    | 'owner'
+    | 'progress'
+    | 'priority'
+    | 'createdAt'
+    | 'updatedAt'
   orderDirection?: 'ASC' | 'DESC'
 }
 
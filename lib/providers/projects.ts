@@ -0,0 +1,122 @@
+import type { IDataProvider, ProviderConfig } from "./data-provider.interface"
+import type { Project, ProjectSummary } from "@/types/task"
+import { PROJECT_HEADER, summarizeProject } from "@/lib/utils/projects"
+
+/**
+ * Shared project helpers used by the project routes and the provider factory
+ */
+
+export type ProjectInput = Omit<Project, "id">
+
+/**
+ * Check a project against the existing ones (names are unique, ignoring case)
+ * Returns an error message, or null if the data is valid
+ */
+export function validateProject(existing: Project[], data: ProjectInput, id?: string): string | null {
+  const name = data.name?.trim()
+  if (!name) {
+    return "Project name is required"
+  }
+  if (name.length > 100) {
+    return "Project name must be at most 100 characters"
+  }
+  if (existing.some((project) => project.id !== id && project.name.trim().toLowerCase() === name.toLowerCase())) {
+    return `Project "${name}" already exists`
+  }
+  if (data.color !== undefined && !/^#[0-9a-f]{6}$/i.test(data.color)) {
+    return "Project color must be a hex color like #3b82f6"
+  }
+  return null
+}
+
+/**
+ * Parse the body of a project create or update request
+ * Body: { name, description?, color?, profileId?, table? }
+ */
+export function parseProjectInput(body: Record<string, unknown>): ProjectInput {
+  if (typeof body.name !== "string") {
+    throw new Error("Project name is required")
+  }
+  for (const field of ["description", "color", "profileId", "table"]) {
+    if (body[field] !== undefined && body[field] !== null && typeof body[field] !== "string") {
+      throw new Error(`Project ${field} must be a string`)
+    }
+  }
+  const optional = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : undefined)
+  return {
+    name: body.name.trim(),
+    description: optional(body.description),
+    color: optional(body.color),
+    profileId: optional(body.profileId),
+    table: optional(body.table),
+  }
+}
+
+/**
+ * Point a provider config at a project's table
+ *
+ * The table holds the project's tasks; statuses, resources and the calendar
+ * stay shared with the other projects of the provider. PostgreSQL and MySQL
+ * use a fixed schema, so there the table names a database on the same server.
+ * MongoDB keeps the project's dependencies, allocations, comments and history
+ * in collections named after its tasks collection. Excel projects get their
+ * own workbook instead (see the provider factory). Demo projects each get
+ * their own sample data.
+ */
+export function applyProjectTable(config: ProviderConfig, table?: string): ProviderConfig {
+  if (!table) return config
+
+  switch (config.type) {
+    case "baserow":
+      return { ...config, baserow: { ...config.baserow, tasksTableId: table } }
+    case "postgres":
+      return { ...config, postgres: { ...config.postgres, database: table } }
+    case "mysql":
+      return { ...config, mysql: { ...config.mysql, database: table } }
+    case "mongodb":
+      return {
+        ...config,
+        mongodb: {
+          ...config.mongodb,
+          tasksCollection: table,
+          dependenciesCollection: `${table}_dependencies`,
+          allocationsCollection: `${table}_allocations`,
+          commentsCollection: `${table}_comments`,
+          historyCollection: `${table}_history`,
+        },
+      }
+    default:
+      return config
+  }
+}
+
+/**
+ * Project of the current API request, set by the middleware for routes under
+ * /api/projects/[projectId]; null for the default project and outside requests
+ */
+export async function getRequestProjectId(): Promise<string | null> {
+  try {
+    const { headers } = await import("next/headers")
+    return (await headers()).get(PROJECT_HEADER)
+  } catch {
+    // Not called while handling a request, e.g. on shutdown
+    return null
+  }
+}
+
+/**
+ * Span and progress of a project, read from its data source
+ * A source that can't be read gives an empty summary with the error.
+ */
+export async function loadProjectSummary(provider: Promise<IDataProvider>): Promise<ProjectSummary> {
+  try {
+    return summarizeProject(await (await provider).getAllTasks())
+  } catch (error) {
+    return {
+      taskCount: 0,
+      completedCount: 0,
+      progress: 0,
+      error: error instanceof Error ? error.message : "Unknown error",
+    }
+  }
+}
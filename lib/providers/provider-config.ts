@@ -0,0 +1,343 @@
+/**
+ * Provider configuration parsing
+ *
+ * Turns the flat request bodies sent by the config page
+ * (/api/config/test, /api/config/save, /api/config/profiles) into a typed
+ * ProviderConfig, and defines the saved configuration profiles.
+ */
+
+import { isProviderType, PROVIDER_TYPES, ProviderConfig } from './data-provider.interface'
+import {
+  createDataProviderAsync,
+  getExcelConfig,
+  getMongoDBConfig,
+  getMySQLConfig,
+  getPostgresConfig,
+} from './provider-factory'
+import type { BaserowFieldMapping } from './baserow/field-mapping'
+import type { GanttViewConfig } from '@/types/task'
+
+export type ProviderConfigParseResult =
+  | { config: ProviderConfig; error?: undefined }
+  | { config?: undefined; error: string }
+
+/**
+ * Required request body fields per provider type
+ */
+const REQUIRED_FIELDS: Record<ProviderConfig['type'], string[]> = {
+  demo: [],
+  baserow: ['baseUrl', 'token'],
+  postgres: ['host', 'database', 'user', 'password'],
+  mysql: ['host', 'database', 'user', 'password'],
+  mongodb: ['uri', 'database'],
+  excel: ['filePath'],
+}
+
+export const PROVIDER_LABELS: Record<ProviderConfig['type'], string> = {
+  demo: 'Demo',
+  baserow: 'Baserow',
+  postgres: 'PostgreSQL',
+  mysql: 'MySQL',
+  mongodb: 'MongoDB',
+  excel: 'Excel',
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() !== '' ? value : undefined
+}
+
+/**
+ * Short description of a provider config, without credentials
+ * Used to show saved profiles and to check that a migration is resumed with
+ * the same source and target.
+ */
+export function describeProviderConfig(config: ProviderConfig): string {
+  switch (config.type) {
+    case 'baserow':
+      return `baserow ${config.baseUrl || process.env.BASEROW_BASE_URL || ''} table ${
+        config.baserow?.tasksTableId || process.env.BASEROW_TABLE_ID_TASKS || ''
+      }`
+    case 'postgres': {
+      const { host, port, database } = getPostgresConfig(config)
+      return `postgres ${host}:${port}/${database}`
+    }
+    case 'mysql': {
+      const { host, port, database } = getMySQLConfig(config)
+      return `mysql ${host}:${port}/${database}`
+    }
+    case 'mongodb': {
+      const { uri, database } = getMongoDBConfig(config)
+      // The URI may hold credentials
+      return `mongodb ${uri.replace(/\/\/[^@/]*@/, '//')}/${database}`
+    }
+    case 'excel':
+      return `excel ${getExcelConfig(config).filePath}`
+    default:
+      return config.type
+  }
+}
+
+/**
+ * Parse a flat request body into a ProviderConfig
+ */
+export function parseProviderConfig(body: Record<string, unknown>): ProviderConfigParseResult {
+  const { type } = body
+
+  if (!isProviderType(type)) {
+    return { error: `Provider type must be one of: ${PROVIDER_TYPES.join(', ')}` }
+  }
+
+  const missing = REQUIRED_FIELDS[type].filter(
+    (field) => body[field] === undefined || body[field] === null || body[field] === ''
+  )
+  if (missing.length > 0) {
+    return { error: `${PROVIDER_LABELS[type]} provider requires: ${missing.join(', ')}` }
+  }
+
+  switch (type) {
+    case 'demo':
+      return { config: { type } }
+
+    case 'baserow':
+      return {
+        config: {
+          type,
+          baseUrl: String(body.baseUrl),
+          token: String(body.token),
+          baserow: {
+            tasksTableId: optionalString(body.tasksTableId),
+            statusesTableId: optionalString(body.statusesTableId),
+          },
+        },
+      }
+
+    case 'postgres':
+      return {
+        config: {
+          type,
+          database: String(body.database),
+          postgres: {
+            host: String(body.host),
+            port: optionalNumber(body.port) ?? 5432,
+            database: String(body.database),
+            user: String(body.user),
+            password: String(body.password),
+            ssl: body.ssl === true ? { rejectUnauthorized: false } : false,
+          },
+        },
+      }
+
+    case 'mysql':
+      return {
+        config: {
+          type,
+          database: String(body.database),
+          mysql: {
+            host: String(body.host),
+            port: optionalNumber(body.port) ?? 3306,
+            database: String(body.database),
+            user: String(body.user),
+            password: String(body.password),
+            connectionLimit: optionalNumber(body.connectionLimit),
+          },
+        },
+      }
+
+    case 'mongodb':
+      return {
+        config: {
+          type,
+          database: String(body.database),
+          mongodb: {
+            uri: String(body.uri),
+            database: String(body.database),
+            tasksCollection: optionalString(body.tasksCollection),
+            statusesCollection: optionalString(body.statusesCollection),
+          },
+        },
+      }
+
+    case 'excel':
+      return {
+        config: {
+          type,
+          excel: {
+            filePath: String(body.filePath),
+            tasksSheet: optionalString(body.tasksSheet),
+            statusesSheet: optionalString(body.statusesSheet),
+            autoSave: body.autoSave !== false,
+            watchFile: body.watchFile === true,
+          },
+        },
+      }
+  }
+}
+
+/**
+ * Named, saved provider configuration
+ */
+export interface ConfigProfile {
+  id: string
+  name: string
+  config: ProviderConfig
+  fieldMapping?: BaserowFieldMapping // Baserow only; the shared mapping is used otherwise
+  defaultView?: Partial<GanttViewConfig> // Applied to the Gantt view when the profile is activated
+  createdAt: string
+  updatedAt: string
+}
+
+export type ConfigProfileInput = Pick<ConfigProfile, 'name' | 'config' | 'fieldMapping' | 'defaultView'>
+
+export type ConfigProfileParseResult =
+  | { profile: ConfigProfileInput; error?: undefined }
+  | { profile?: undefined; error: string }
+
+const VIEW_SCALES: GanttViewConfig['scale'][] = ['day', 'week', 'month', 'quarter', 'year']
+const VIEW_FLAGS = ['showWeekends', 'showDependencies', 'showCriticalPath', 'showMilestones', 'showResources'] as const
+
+function parseDefaultView(value: unknown): Partial<GanttViewConfig> | string {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'defaultView must be an object'
+  }
+  const input = value as Record<string, unknown>
+  const view: Partial<GanttViewConfig> = {}
+
+  if (input.scale !== undefined) {
+    if (!VIEW_SCALES.includes(input.scale as GanttViewConfig['scale'])) {
+      return `defaultView.scale must be one of: ${VIEW_SCALES.join(', ')}`
+    }
+    view.scale = input.scale as GanttViewConfig['scale']
+  }
+  if (input.zoom !== undefined) {
+    const zoom = optionalNumber(input.zoom)
+    if (zoom === undefined || zoom < 0.5 || zoom > 2) {
+      return 'defaultView.zoom must be between 0.5 and 2'
+    }
+    view.zoom = zoom
+  }
+  for (const flag of VIEW_FLAGS) {
+    if (input[flag] !== undefined) {
+      if (typeof input[flag] !== 'boolean') return `defaultView.${flag} must be true or false`
+      view[flag] = input[flag] as boolean
+    }
+  }
+  return view
+}
+
+/**
+ * Parse a profile create/update body: { name, type, ...provider fields, fieldMapping?, defaultView? }
+ */
+export function parseProfileInput(body: Record<string, unknown>): ConfigProfileParseResult {
+  const name = typeof body.name === 'string' ? body.name.trim() : ''
+  if (!name) {
+    return { error: 'Profile name is required' }
+  }
+  if (name.length > 100) {
+    return { error: 'Profile name must be at most 100 characters' }
+  }
+
+  const { config, error } = parseProviderConfig(body)
+  if (!config) {
+    return { error }
+  }
+
+  const profile: ConfigProfileInput = { name, config }
+
+  if (body.fieldMapping !== undefined && body.fieldMapping !== null) {
+    if (typeof body.fieldMapping !== 'object') {
+      return { error: 'fieldMapping must be an object' }
+    }
+    profile.fieldMapping = body.fieldMapping as BaserowFieldMapping
+  }
+
+  if (body.defaultView !== undefined && body.defaultView !== null) {
+    const view = parseDefaultView(body.defaultView)
+    if (typeof view === 'string') {
+      return { error: view }
+    }
+    profile.defaultView = view
+  }
+
+  return { profile }
+}
+
+/**
+ * Apply fn to every secret of a provider config (tokens, passwords, connection URIs)
+ */
+export function mapProviderSecrets(config: ProviderConfig, fn: (value: string) => string): ProviderConfig {
+  const mapped: ProviderConfig = { ...config }
+  if (mapped.token) mapped.token = fn(mapped.token)
+  if (mapped.postgres?.password) mapped.postgres = { ...mapped.postgres, password: fn(mapped.postgres.password) }
+  if (mapped.mysql?.password) mapped.mysql = { ...mapped.mysql, password: fn(mapped.mysql.password) }
+  // MongoDB URIs only hold a secret when they carry credentials
+  if (mapped.mongodb?.uri && !/^mongodb(\+srv)?:\/\/[^@]*$/.test(mapped.mongodb.uri)) {
+    mapped.mongodb = { ...mapped.mongodb, uri: fn(mapped.mongodb.uri) }
+  }
+  return mapped
+}
+
+/**
+ * Profile as returned by the API, without connection secrets
+ */
+export interface ConfigProfileSummary {
+  id: string
+  name: string
+  type: ProviderConfig['type']
+  description: string
+  hasFieldMapping: boolean
+  defaultView?: Partial<GanttViewConfig>
+  active: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export function getProfileSummary(profile: ConfigProfile, activeProfileId: string | null): ConfigProfileSummary {
+  return {
+    id: profile.id,
+    name: profile.name,
+    type: profile.config.type,
+    description: describeProviderConfig(profile.config),
+    hasFieldMapping: Boolean(profile.fieldMapping),
+    defaultView: profile.defaultView,
+    active: profile.id === activeProfileId,
+    createdAt: profile.createdAt,
+    updatedAt: profile.updatedAt,
+  }
+}
+
+/**
+ * Initialize a provider for the config and check that it is healthy
+ * Used before a configuration is activated, so an unreachable backend is never used.
+ */
+export async function checkProviderConnection(config: ProviderConfig): Promise<boolean> {
+  const provider = await createDataProviderAsync(config)
+  try {
+    return await provider.isHealthy()
+  } finally {
+    await provider.close?.().catch(() => undefined)
+  }
+}
+
+/**
+ * Fill in the secrets a profile update left out from the saved profile, so
+ * the config page does not have to send them back
+ */
+export function withSavedSecrets(body: Record<string, unknown>, saved: ProviderConfig): Record<string, unknown> {
+  if (body.type !== saved.type) return body
+  const secrets: Record<string, string | undefined> = {
+    token: saved.token,
+    password: saved.postgres?.password || saved.mysql?.password,
+    uri: saved.mongodb?.uri,
+  }
+  const merged = { ...body }
+  for (const [field, value] of Object.entries(secrets)) {
+    if (value && !optionalString(merged[field])) merged[field] = value
+  }
+  return merged
+}
@@ -1,13 +1,96 @@
-import { IDataProvider, ProviderConfig } from "./data-provider.interface"
+import * as path from "path"
+import { IDataProvider, ProviderConfig, ProviderType } from "./data-provider.interface"
 import { BaserowProvider } from "./baserow/baserow-provider"
 import { DemoProvider } from "./demo/demo-provider"
 import { PostgresProvider } from "./postgres/postgres-provider"
+import { MySQLProvider, MySQLConfig } from "./mysql/mysql-provider"
+import { MongoDBProvider, MongoDBConfig } from "./mongodb/mongodb-provider"
+import { ExcelProvider, ExcelConfig } from "./excel/excel-provider"
+import type { PostgresConfig } from "./postgres/types"
+import type { BaserowFieldMapping } from "./baserow/field-mapping"
+import type { Project } from "@/types/task"
+import { applyProjectTable, getRequestProjectId } from "./projects"
+import { withTaskAccess } from "./access-control"
+
+/**
+ * Resolve the provider type from config or DATA_PROVIDER
+ * "postgresql" is accepted as an alias for "postgres"
+ */
+function resolveProviderType(config?: ProviderConfig): ProviderType {
+  if (config?.type) return config.type
+
+  const envType = process.env.DATA_PROVIDER?.toLowerCase()
+  if (envType === "postgresql") return "postgres"
+  return (envType as ProviderType) || "demo"
+}
+
+/**
+ * Build PostgreSQL config from POSTGRES_* env vars and an optional override block
+ */
+export function getPostgresConfig(config?: ProviderConfig): PostgresConfig {
+  return {
+    host: process.env.POSTGRES_HOST || "localhost",
+    port: parseInt(process.env.POSTGRES_PORT || "5432", 10),
+    database: config?.database || process.env.POSTGRES_DB || "gantt_db",
+    user: process.env.POSTGRES_USER || "gantt_user",
+    password: process.env.POSTGRES_PASSWORD || "",
+    ssl: process.env.POSTGRES_SSL === "true" ? { rejectUnauthorized: false } : false,
+    ...config?.postgres,
+  }
+}
+
+/**
+ * Build MySQL config from MYSQL_* env vars and an optional override block
+ */
+export function getMySQLConfig(config?: ProviderConfig): MySQLConfig {
+  return {
+    host: process.env.MYSQL_HOST || "localhost",
+    port: parseInt(process.env.MYSQL_PORT || "3306", 10),
+    database: config?.database || process.env.MYSQL_DB || "gantt_db",
+    user: process.env.MYSQL_USER || "gantt_user",
+    password: process.env.MYSQL_PASSWORD || "",
+    connectionLimit: process.env.MYSQL_CONNECTION_LIMIT
+      ? parseInt(process.env.MYSQL_CONNECTION_LIMIT, 10)
+      : undefined,
+    ...config?.mysql,
+  }
+}
+
+/**
+ * Build MongoDB config from MONGODB_* env vars and an optional override block
+ */
+export function getMongoDBConfig(config?: ProviderConfig): MongoDBConfig {
+  return {
+    uri: process.env.MONGODB_URI || "mongodb://localhost:27017",
+    database: config?.database || process.env.MONGODB_DB || "gantt_db",
+    tasksCollection: process.env.MONGODB_TASKS_COLLECTION || undefined,
+    statusesCollection: process.env.MONGODB_STATUSES_COLLECTION || undefined,
+    ...config?.mongodb,
+  }
+}
+
+/**
+ * Build Excel config from EXCEL_* env vars and an optional override block
+ */
+export function getExcelConfig(config?: ProviderConfig): ExcelConfig {
+  return {
+    filePath: process.env.EXCEL_FILE_PATH || "./data/gantt.xlsx",
+    tasksSheet: process.env.EXCEL_TASKS_SHEET || undefined,
+    statusesSheet: process.env.EXCEL_STATUSES_SHEET || undefined,
+    autoSave: process.env.EXCEL_AUTO_SAVE !== "false",
+    watchFile: process.env.EXCEL_WATCH_FILE === "true",
+    ...config?.excel,
+  }
+}
 
 /**
  * Factory to create the appropriate data provider based on configuration
+ *
+ * Providers that need async setup (Excel, MongoDB) are returned uninitialized;
+ * prefer createDataProviderAsync in API routes.
  */
 export function createDataProvider(config?: ProviderConfig): IDataProvider {
-  const providerType = config?.type || (process.env.DATA_PROVIDER as "baserow" | "postgres" | "demo") || "demo"
+  const providerType = resolveProviderType(config)
 
   switch (providerType) {
     case "demo":
@@ -18,19 +101,25 @@ export function createDataProvider(config?: ProviderConfig): IDataProvider {
       return new BaserowProvider({
         baseUrl: config?.baseUrl || process.env.BASEROW_BASE_URL || "https://api.baserow.io",
         token: config?.token || process.env.BASEROW_TOKEN || "",
-        tasksTableId: process.env.BASEROW_TABLE_ID_TASKS || "",
-        statusesTableId: process.env.BASEROW_TABLE_ID_STATUSES || undefined,
+        tasksTableId: config?.baserow?.tasksTableId || process.env.BASEROW_TABLE_ID_TASKS || "",
+        statusesTableId: config?.baserow?.statusesTableId || process.env.BASEROW_TABLE_ID_STATUSES || undefined,
+        calendarTableId: config?.baserow?.calendarTableId || process.env.BASEROW_TABLE_ID_CALENDAR || undefined,
+        resourcesTableId: config?.baserow?.resourcesTableId || process.env.BASEROW_TABLE_ID_RESOURCES || undefined,
+        allocationsTableId: config?.baserow?.allocationsTableId || process.env.BASEROW_TABLE_ID_ALLOCATIONS || undefined,
       })
 
     case "postgres":
-      return new PostgresProvider({
-        host: process.env.POSTGRES_HOST || "localhost",
-        port: parseInt(process.env.POSTGRES_PORT || "5432", 10),
-        database: process.env.POSTGRES_DB || "gantt_db",
-        user: process.env.POSTGRES_USER || "gantt_user",
-        password: process.env.POSTGRES_PASSWORD || "",
-        ssl: process.env.POSTGRES_SSL === "true" ? { rejectUnauthorized: false } : false,
-      })
+      return new PostgresProvider(getPostgresConfig(config))
+
+    case "mysql":
+      return new MySQLProvider(getMySQLConfig(config))
+
+    case "mongodb":
+      return new MongoDBProvider(getMongoDBConfig(config))
+
+    case "excel":
+      // Loads the workbook lazily on first read
+      return new ExcelProvider(getExcelConfig(config))
 
     default:
       throw new Error(`Unknown provider type: ${providerType}`)
@@ -40,9 +129,13 @@ export function createDataProvider(config?: ProviderConfig): IDataProvider {
 /**
  * Create data provider asynchronously with saved field mappings
  * This should be used in server components and API routes
+ * A Baserow field mapping passed in is used instead of the saved one.
  */
-export async function createDataProviderAsync(config?: ProviderConfig): Promise<IDataProvider> {
-  const providerType = config?.type || (process.env.DATA_PROVIDER as "baserow" | "postgres" | "demo") || "demo"
+export async function createDataProviderAsync(
+  config?: ProviderConfig,
+  baserowFieldMapping?: BaserowFieldMapping
+): Promise<IDataProvider> {
+  const providerType = resolveProviderType(config)
 
   switch (providerType) {
     case "demo":
@@ -51,26 +144,43 @@ export async function createDataProviderAsync(config?: ProviderConfig): Promise<
     case "baserow": {
       // Load saved field mapping for server-side usage
       const { getFieldMappingAsync } = await import("./baserow/field-mapping-server")
-      const fieldMapping = await getFieldMappingAsync()
+      const fieldMapping = baserowFieldMapping || (await getFieldMappingAsync())
 
       return new BaserowProvider({
         baseUrl: config?.baseUrl || process.env.BASEROW_BASE_URL || "https://api.baserow.io",
         token: config?.token || process.env.BASEROW_TOKEN || "",
-        tasksTableId: process.env.BASEROW_TABLE_ID_TASKS || "",
-        statusesTableId: process.env.BASEROW_TABLE_ID_STATUSES || undefined,
+        tasksTableId: config?.baserow?.tasksTableId || process.env.BASEROW_TABLE_ID_TASKS || "",
+        statusesTableId: config?.baserow?.statusesTableId || process.env.BASEROW_TABLE_ID_STATUSES || undefined,
+        calendarTableId: config?.baserow?.calendarTableId || process.env.BASEROW_TABLE_ID_CALENDAR || undefined,
+        resourcesTableId: config?.baserow?.resourcesTableId || process.env.BASEROW_TABLE_ID_RESOURCES || undefined,
+        allocationsTableId: config?.baserow?.allocationsTableId || process.env.BASEROW_TABLE_ID_ALLOCATIONS || undefined,
         fieldMapping, // Pass the loaded field mapping
       })
     }
 
     case "postgres":
-      return new PostgresProvider({
-        host: process.env.POSTGRES_HOST || "localhost",
-        port: parseInt(process.env.POSTGRES_PORT || "5432", 10),
-        database: process.env.POSTGRES_DB || "gantt_db",
-        user: process.env.POSTGRES_USER || "gantt_user",
-        password: process.env.POSTGRES_PASSWORD || "",
-        ssl: process.env.POSTGRES_SSL === "true" ? { rejectUnauthorized: false } : false,
-      })
+      return new PostgresProvider(getPostgresConfig(config))
+
+    case "mysql": {
+      const provider = new MySQLProvider(getMySQLConfig(config))
+      // Adds the columns of newer schema versions to an existing database
+      await provider.upgradeSchema()
+      return provider
+    }
+
+    case "mongodb": {
+      const provider = new MongoDBProvider(getMongoDBConfig(config))
+      // Seeds default statuses on an empty database
+      await provider.initializeCollections()
+      return provider
+    }
+
+    case "excel": {
+      const provider = new ExcelProvider(getExcelConfig(config))
+      // Loads the workbook, creating it with default statuses if missing
+      await provider.initialize()
+      return provider
+    }
 
     default:
       throw new Error(`Unknown provider type: ${providerType}`)
@@ -85,19 +195,234 @@ let defaultProvider: IDataProvider | null = null
 export function getDataProvider(): IDataProvider {
   if (!defaultProvider) {
     defaultProvider = createDataProvider()
+    registerShutdownHook()
   }
   return defaultProvider
 }
 
 /**
  * Get the default singleton provider instance asynchronously
- * This version loads saved field mappings for Baserow
+ * This version loads saved field mappings for Baserow and the provider
+ * selection saved through /api/config/save, falling back to DATA_PROVIDER
+ * Requests under /api/projects/[projectId] get that project's provider.
+ * The project's access rules that apply to the signed-in user are applied to it.
  */
-let defaultProviderAsync: IDataProvider | null = null
+let defaultProviderAsync: Promise<IDataProvider> | null = null
 
 export async function getDataProviderAsync(): Promise<IDataProvider> {
+  return getAccessibleProviderAsync(await getRequestProjectId())
+}
+
+/**
+ * Get the provider of a project (the default one for null) as the signed-in
+ * user may see it, with the project's access rules applied
+ */
+export async function getAccessibleProviderAsync(projectId: string | null): Promise<IDataProvider> {
+  const { getTaskAccess } = await import("@/lib/auth/session")
+  const [provider, access] = await Promise.all([
+    projectId ? getProjectProviderAsync(projectId) : getDefaultProviderAsync(),
+    getTaskAccess(projectId),
+  ])
+  return withTaskAccess(provider, access)
+}
+
+/**
+ * Get the provider of the request's project without access rules applied
+ * Only for server-side bookkeeping, such as recording the change history.
+ */
+export async function getUnrestrictedProviderAsync(): Promise<IDataProvider> {
+  const projectId = await getRequestProjectId()
+  return projectId ? getProjectProviderAsync(projectId) : getDefaultProviderAsync()
+}
+
+/**
+ * Get the provider config of the request's project (the active configuration
+ * outside a project), the one its live provider was created from
+ */
+export async function getActiveProviderConfigAsync(): Promise<ProviderConfig> {
+  return (await loadProviderSetup(await getRequestProjectId())).config
+}
+
+/**
+ * Configs of the active configuration and of every project, the data sources
+ * the app keeps providers open on
+ */
+export async function getLiveProviderConfigsAsync(): Promise<ProviderConfig[]> {
+  const { loadProjects } = await import("@/lib/config-storage")
+  const projectIds = (await loadProjects()).map((project) => project.id)
+  const setups = await Promise.all(
+    [null, ...projectIds].map((projectId) => loadProviderSetup(projectId).catch(() => null))
+  )
+  return setups.flatMap((setup) => (setup ? [setup.config] : []))
+}
+
+/**
+ * Config and Baserow field mapping of a project, or of the active
+ * configuration for null
+ */
+async function loadProviderSetup(
+  projectId: string | null
+): Promise<{ config: ProviderConfig; fieldMapping?: BaserowFieldMapping }> {
+  const { loadProjects, loadProfile, loadProviderConfig } = await import("@/lib/config-storage")
+  const savedConfig = (await loadProviderConfig()) || { type: resolveProviderType() }
+  if (!projectId) {
+    return { config: savedConfig }
+  }
+
+  const project = (await loadProjects()).find((entry) => entry.id === projectId)
+  if (!project) {
+    throw new Error(`Project ${projectId} not found`)
+  }
+
+  if (project.profileId) {
+    const profile = await loadProfile(project.profileId)
+    if (!profile) {
+      throw new Error(`Configuration profile of project "${project.name}" not found`)
+    }
+    return {
+      config: applyProjectWorkbook(applyProjectTable(profile.config, project.table), project),
+      fieldMapping: profile.fieldMapping,
+    }
+  }
+  return { config: applyProjectWorkbook(applyProjectTable(savedConfig, project.table), project) }
+}
+
+/**
+ * Give an Excel project its own workbook next to the configured file, named
+ * after the project's table (or its id when it has none)
+ * Each provider writes its whole workbook back, so projects sharing one file
+ * would overwrite each other's tasks, links, comments and history.
+ */
+function applyProjectWorkbook(config: ProviderConfig, project: Project): ProviderConfig {
+  if (config.type !== "excel") return config
+
+  const { filePath } = getExcelConfig(config)
+  const extension = path.extname(filePath) || ".xlsx"
+  const name = (project.table || project.id).replace(/[^\w.-]+/g, "_")
+  return {
+    ...config,
+    excel: {
+      ...config.excel,
+      filePath: path.join(path.dirname(filePath), `${path.basename(filePath, path.extname(filePath))}-${name}${extension}`),
+    },
+  }
+}
+
+function getDefaultProviderAsync(): Promise<IDataProvider> {
   if (!defaultProviderAsync) {
-    defaultProviderAsync = await createDataProviderAsync()
+    defaultProviderAsync = (async () => {
+      const { config } = await loadProviderSetup(null)
+      return createDataProviderAsync(config)
+    })()
+    registerShutdownHook()
+
+    // Don't cache a failed initialization
+    defaultProviderAsync.catch(() => {
+      defaultProviderAsync = null
+    })
   }
   return defaultProviderAsync
 }
+
+/**
+ * Get the provider of a project, created on first use
+ * A project uses its configuration profile, or the active configuration,
+ * pointed at the project's table.
+ */
+const projectProviders = new Map<string, Promise<IDataProvider>>()
+
+export async function getProjectProviderAsync(projectId: string): Promise<IDataProvider> {
+  let provider = projectProviders.get(projectId)
+  if (!provider) {
+    provider = (async () => {
+      const { config, fieldMapping } = await loadProviderSetup(projectId)
+      return createDataProviderAsync(config, fieldMapping)
+    })()
+    projectProviders.set(projectId, provider)
+    registerShutdownHook()
+
+    // Don't cache a failed initialization
+    const pending = provider
+    pending.catch(() => {
+      if (projectProviders.get(projectId) === pending) projectProviders.delete(projectId)
+    })
+  }
+  return provider
+}
+
+/**
+ * Close and discard the provider of a project
+ * Called when the project is changed or deleted
+ */
+export async function closeProjectProvider(projectId: string): Promise<void> {
+  const pending = projectProviders.get(projectId)
+  if (!pending) return
+  projectProviders.delete(projectId)
+
+  try {
+    await (await pending).close?.()
+  } catch (error) {
+    console.error("Failed to close data provider:", error)
+  }
+}
+
+/**
+ * Close and discard the singleton providers and the project providers
+ * Called on shutdown and when the active provider config changes
+ */
+export async function closeDataProvider(): Promise<void> {
+  const providers: IDataProvider[] = []
+
+  if (defaultProvider) {
+    providers.push(defaultProvider)
+    defaultProvider = null
+  }
+  if (defaultProviderAsync) {
+    const pending = defaultProviderAsync
+    defaultProviderAsync = null
+    try {
+      providers.push(await pending)
+    } catch {
+      // Never initialized, nothing to close
+    }
+  }
+  for (const [projectId, pending] of projectProviders) {
+    projectProviders.delete(projectId)
+    try {
+      providers.push(await pending)
+    } catch {
+      // Never initialized, nothing to close
+    }
+  }
+
+  await Promise.all(
+    providers.map(async (provider) => {
+      try {
+        await provider.close?.()
+      } catch (error) {
+        console.error("Failed to close data provider:", error)
+      }
+    })
+  )
+}
+
+/**
+ * Close provider connections when the server process is stopped
+ */
+let shutdownHookRegistered = false
+
+function registerShutdownHook() {
+  if (shutdownHookRegistered || typeof process === "undefined" || typeof process.once !== "function") {
+    return
+  }
+  shutdownHookRegistered = true
+
+  const shutdown = (signal: NodeJS.Signals) => {
+    closeDataProvider().finally(() => {
+      process.kill(process.pid, signal)
+    })
+  }
+
+  process.once("SIGTERM", shutdown)
+  process.once("SIGINT", shutdown)
+}
@@ -0,0 +1,213 @@
+import type {
+  Task,
+  Resource,
+  ResourceAllocation,
+  CreateResourceDTO,
+  UpdateResourceDTO,
+  CreateAllocationDTO,
+  UpdateAllocationDTO,
+  AllocationQueryParams,
+  TaskAssignmentDTO,
+} from "@/types/task"
+import type { IDataProvider } from "./data-provider.interface"
+
+/**
+ * Shared resource and allocation helpers used by every data provider
+ */
+
+export const DEFAULT_AVAILABILITY = 100
+export const DEFAULT_ALLOCATION = 100
+
+function isPercentage(value: unknown, allowZero: boolean): boolean {
+  return (
+    typeof value === "number" &&
+    Number.isFinite(value) &&
+    (allowZero ? value >= 0 : value > 0) &&
+    value <= 100
+  )
+}
+
+/**
+ * Check resource fields
+ * Returns an error message, or null if the data is valid
+ */
+export function validateResource(data: CreateResourceDTO | UpdateResourceDTO, isCreate: boolean): string | null {
+  if ((isCreate || data.name !== undefined) && !data.name?.trim()) {
+    return "Resource name is required"
+  }
+  if (data.availability !== undefined && !isPercentage(data.availability, true)) {
+    return "Resource availability must be between 0 and 100"
+  }
+  return null
+}
+
+export function assertValidResource(data: CreateResourceDTO | UpdateResourceDTO, isCreate: boolean): void {
+  const error = validateResource(data, isCreate)
+  if (error) {
+    throw new Error(error)
+  }
+}
+
+/**
+ * Check a new or updated allocation against the existing ones
+ * A resource can be assigned to a task only once.
+ */
+export function validateAllocation(
+  existing: ResourceAllocation[],
+  data: CreateAllocationDTO | UpdateAllocationDTO,
+  allocationId?: string
+): string | null {
+  if (!allocationId) {
+    const created = data as CreateAllocationDTO
+    if (!created.taskId || !created.resourceId) {
+      return "Allocation requires taskId and resourceId"
+    }
+    if (
+      existing.some(
+        (allocation) =>
+          allocation.taskId === created.taskId && allocation.resourceId === created.resourceId
+      )
+    ) {
+      return "Resource is already assigned to this task"
+    }
+  }
+  if (data.allocation !== undefined && !isPercentage(data.allocation, false)) {
+    return "Allocation must be greater than 0 and at most 100"
+  }
+  if (data.startDate && data.endDate && data.endDate < data.startDate) {
+    return "Allocation end date must be after its start date"
+  }
+  return null
+}
+
+export function assertValidAllocation(
+  existing: ResourceAllocation[],
+  data: CreateAllocationDTO | UpdateAllocationDTO,
+  allocationId?: string
+): void {
+  const error = validateAllocation(existing, data, allocationId)
+  if (error) {
+    throw new Error(error)
+  }
+}
+
+/**
+ * Filter allocations by task and/or resource
+ */
+export function filterAllocations(
+  allocations: ResourceAllocation[],
+  params?: AllocationQueryParams
+): ResourceAllocation[] {
+  return allocations.filter(
+    (allocation) =>
+      (!params?.taskId || allocation.taskId === params.taskId) &&
+      (!params?.resourceId || allocation.resourceId === params.resourceId)
+  )
+}
+
+/**
+ * Replace the resource allocations of a task with the given assignments
+ * Allocations of resources that stay assigned keep their ids
+ */
+export async function syncTaskAllocations(
+  provider: Pick<IDataProvider, "getAllocations" | "createAllocation" | "updateAllocation" | "deleteAllocation">,
+  taskId: string,
+  assignments: TaskAssignmentDTO[]
+): Promise<ResourceAllocation[]> {
+  const current = await provider.getAllocations({ taskId })
+
+  for (const allocation of current) {
+    const wanted = assignments.find((entry) => entry.resourceId === allocation.resourceId)
+    if (!wanted) {
+      await provider.deleteAllocation(allocation.id)
+    } else if ((wanted.allocation ?? DEFAULT_ALLOCATION) !== allocation.allocation) {
+      await provider.updateAllocation(allocation.id, { allocation: wanted.allocation ?? DEFAULT_ALLOCATION })
+    }
+  }
+  for (const wanted of assignments) {
+    if (!current.some((allocation) => allocation.resourceId === wanted.resourceId)) {
+      await provider.createAllocation({ ...wanted, taskId })
+    }
+  }
+
+  return provider.getAllocations({ taskId })
+}
+
+/**
+ * Attach the resources assigned to each task to Task.resources
+ */
+export function attachResources<T extends Pick<Task, "id">>(
+  tasks: T[],
+  resources: Resource[],
+  allocations: ResourceAllocation[]
+): (T & { resources: Resource[] })[] {
+  const resourcesById = new Map(resources.map((resource) => [resource.id, resource]))
+  const byTask = new Map<string, Resource[]>()
+  allocations.forEach((allocation) => {
+    const resource = resourcesById.get(allocation.resourceId)
+    if (!resource) return
+    const list = byTask.get(allocation.taskId) || []
+    list.push(resource)
+    byTask.set(allocation.taskId, list)
+  })
+
+  return tasks.map((task) => ({
+    ...task,
+    resources: byTask.get(task.id) || [],
+  }))
+}
+
+/**
+ * Parse the `assignments` field of a task create/update request body
+ * Accepts assignment objects or plain resource ids (100% allocation)
+ */
+export function parseTaskAssignments(value: unknown): TaskAssignmentDTO[] | undefined {
+  if (value === undefined || value === null) return undefined
+  if (!Array.isArray(value)) {
+    throw new Error("assignments must be an array")
+  }
+
+  return value.map((item) => {
+    if (typeof item === "string" || typeof item === "number") {
+      return { resourceId: String(item) }
+    }
+    if (!item || typeof item !== "object" || !("resourceId" in item)) {
+      throw new Error("Each assignment requires a resourceId")
+    }
+
+    const allocation = item.allocation !== undefined ? Number(item.allocation) : undefined
+    if (allocation !== undefined && !isPercentage(allocation, false)) {
+      throw new Error("Allocation must be greater than 0 and at most 100")
+    }
+
+    return { resourceId: String(item.resourceId), allocation }
+  })
+}
+
+/**
+ * Parse optional allocation dates from a request body
+ */
+export function parseAllocationDate(value: unknown, field: string): Date | undefined {
+  if (value === undefined || value === null || value === "") return undefined
+  const date = new Date(value as string)
+  if (isNaN(date.getTime())) {
+    throw new Error(`${field} must be a valid date`)
+  }
+  return date
+}
+
+/**
+ * Pick the resource fields present in a create/update request body
+ */
+export function parseResourceInput(body: Record<string, unknown>): UpdateResourceDTO {
+  const data: UpdateResourceDTO = {}
+
+  if (body.name !== undefined) data.name = String(body.name).trim()
+  if (body.email !== undefined) data.email = body.email ? String(body.email) : ""
+  if (body.role !== undefined) data.role = body.role ? String(body.role) : ""
+  if (body.avatar !== undefined) data.avatar = body.avatar ? String(body.avatar) : ""
+  if (body.availability !== undefined) data.availability = Number(body.availability)
+  if (body.color !== undefined) data.color = body.color ? String(body.color) : ""
+
+  return data
+}
@@ -0,0 +1,77 @@
+import type { CreateStatusDTO, TaskStatus } from "@/types/task"
+
+/**
+ * Shared status helpers used by every data provider
+ */
+
+export const DEFAULT_STATUS_COLOR = "#3b82f6"
+
+// Baserow's select option palette: light, normal, dark and darker shade of each color
+const BASEROW_PALETTE: Record<string, [string, string, string, string]> = {
+  blue: ["#dbeefd", "#9ec5f8", "#4a8ef3", "#1d5bba"],
+  cyan: ["#cff5fa", "#88e2ee", "#3bbfd1", "#1a8798"],
+  green: ["#d0f4e2", "#95e4ba", "#3ebb76", "#1e7d4a"],
+  yellow: ["#fffbd5", "#fff2a3", "#ffd84d", "#c9a20c"],
+  orange: ["#fff0d6", "#ffd39e", "#ffa94d", "#c96f12"],
+  red: ["#ffdede", "#ffa8a8", "#f25c5c", "#b52626"],
+  brown: ["#f5e6dc", "#e0bfa6", "#b8825a", "#7d5032"],
+  purple: ["#ead9fc", "#cba6f5", "#9a5ee6", "#6330a8"],
+  pink: ["#fedfed", "#fbadd0", "#f266a8", "#b22f6d"],
+  gray: ["#eeeeee", "#cccccc", "#999999", "#555555"],
+}
+const BASEROW_SHADES = ["light", "", "dark", "darker"]
+
+/**
+ * Hex value of a status color
+ * Hex colors are kept, Baserow's named colors (e.g. "light-blue", "darker-red")
+ * are looked up in its palette, anything else gives undefined.
+ */
+export function toHexColor(color?: string): string | undefined {
+  if (!color) return undefined
+  if (/^#[0-9a-f]{6}$/i.test(color)) return color
+
+  const match = color.trim().toLowerCase().match(/^(?:(light|dark|darker)-)?([a-z]+)$/)
+  const palette = match && BASEROW_PALETTE[match[2]]
+  return palette ? palette[BASEROW_SHADES.indexOf(match[1] || "")] : undefined
+}
+
+/**
+ * Check a new status against the existing ones (names are unique, ignoring case)
+ * Returns an error message, or null if the data is valid
+ */
+export function validateStatus(existing: TaskStatus[], data: CreateStatusDTO): string | null {
+  const name = data.name?.trim()
+  if (!name) {
+    return "Status name is required"
+  }
+  if (existing.some((status) => status.name.trim().toLowerCase() === name.toLowerCase())) {
+    return `Status "${name}" already exists`
+  }
+  if (data.color !== undefined && !/^#[0-9a-f]{6}$/i.test(data.color)) {
+    return "Status color must be a hex color like #3b82f6"
+  }
+  return null
+}
+
+export function assertValidStatus(existing: TaskStatus[], data: CreateStatusDTO): void {
+  const error = validateStatus(existing, data)
+  if (error) {
+    throw new Error(error)
+  }
+}
+
+/**
+ * Parse the body of a status create request
+ */
+export function parseStatusInput(body: Record<string, unknown>): CreateStatusDTO {
+  if (typeof body.name !== "string") {
+    throw new Error("Status name is required")
+  }
+  if (body.color !== undefined && body.color !== null && typeof body.color !== "string") {
+    throw new Error("Status color must be a string")
+  }
+  return {
+    name: body.name.trim(),
+    color: typeof body.color === "string" && body.color ? body.color : undefined,
+  }
+}
@@ -0,0 +1,232 @@
+import type { PaginatedResponse, ResourceAllocation, Task, TaskQueryParams, TaskSortField } from "@/types/task"
+
+/**
+ * Shared task query helpers for routes that take TaskQueryParams from the URL
+ */
+
+// Lowest first, the order priorities sort in
+export const TASK_PRIORITIES = ["low", "medium", "high", "critical"]
+
+export const TASK_SORT_FIELDS: TaskSortField[] = [
+  "name",
+  "startAt",
+  "endAt",
+  "status",
+  "group",
+  "owner",
+  "progress",
+  "priority",
+  "createdAt",
+  "updatedAt",
+]
+
+/**
+ * Thrown when a data source can't apply a task query, e.g. a filter on a field it doesn't store
+ */
+export class TaskQueryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "TaskQueryError"
+  }
+}
+
+export function isTaskQueryError(error: unknown): error is TaskQueryError {
+  return error instanceof TaskQueryError
+}
+
+/**
+ * Parse a task priority from a request body (null or "" clears it)
+ */
+export function parseTaskPriority(value: unknown): Task["priority"] | null {
+  if (value === null || value === "") return null
+  if (typeof value !== "string" || !TASK_PRIORITIES.includes(value)) {
+    throw new Error(`priority must be one of: ${TASK_PRIORITIES.join(", ")}`)
+  }
+  return value as Task["priority"]
+}
+
+/**
+ * Parse task tags from a request body: an array of strings or a comma-separated string
+ */
+export function parseTaskTags(value: unknown): string[] {
+  const tags = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : null
+  if (!tags || tags.some((tag) => typeof tag !== "string")) {
+    throw new Error("tags must be an array of strings")
+  }
+  return [...new Set((tags as string[]).map((tag) => tag.trim()).filter(Boolean))]
+}
+
+function parseDateParam(name: string, value: string | null): Date | undefined {
+  if (!value) return undefined
+  const date = new Date(value)
+  if (isNaN(date.getTime())) {
+    throw new Error(`${name} must be a valid date`)
+  }
+  return date
+}
+
+function parsePageParam(name: string, value: string | null): number | undefined {
+  if (!value) return undefined
+  const number = Number(value)
+  if (!Number.isInteger(number) || number < 1) {
+    throw new Error(`${name} must be a positive integer`)
+  }
+  return number
+}
+
+/**
+ * Parse task filters from query params
+ * (?startDate=&endDate=&statusId=&group=&owner=&search=&tags=&priority=&resourceId=&sortBy=&sortOrder=&page=&pageSize=)
+ * Tags may be repeated or comma-separated.
+ */
+export function parseTaskQuery(searchParams: URLSearchParams): TaskQueryParams {
+  const startDate = parseDateParam("startDate", searchParams.get("startDate"))
+  const endDate = parseDateParam("endDate", searchParams.get("endDate"))
+  if (startDate && endDate && startDate > endDate) {
+    throw new Error("startDate must be before endDate")
+  }
+
+  const priority = searchParams.get("priority") || undefined
+  if (priority && !TASK_PRIORITIES.includes(priority)) {
+    throw new Error(`priority must be one of: ${TASK_PRIORITIES.join(", ")}`)
+  }
+
+  const sortBy = searchParams.get("sortBy") || undefined
+  if (sortBy && !TASK_SORT_FIELDS.includes(sortBy as TaskSortField)) {
+    throw new Error(`sortBy must be one of: ${TASK_SORT_FIELDS.join(", ")}`)
+  }
+  const sortOrder = searchParams.get("sortOrder") || undefined
+  if (sortOrder && sortOrder !== "asc" && sortOrder !== "desc") {
+    throw new Error("sortOrder must be asc or desc")
+  }
+
+  const tags = searchParams
+    .getAll("tags")
+    .flatMap((value) => value.split(","))
+    .map((tag) => tag.trim())
+    .filter(Boolean)
+
+  return {
+    page: parsePageParam("page", searchParams.get("page")),
+    pageSize: parsePageParam("pageSize", searchParams.get("pageSize")),
+    startDate,
+    endDate,
+    statusId: searchParams.get("statusId") || undefined,
+    group: searchParams.get("group") || undefined,
+    owner: searchParams.get("owner") || undefined,
+    search: searchParams.get("search")?.trim() || undefined,
+    tags: tags.length > 0 ? tags : undefined,
+    priority,
+    resourceId: searchParams.get("resourceId") || undefined,
+    sortBy: sortBy as TaskSortField | undefined,
+    sortOrder: sortOrder as TaskQueryParams["sortOrder"],
+  }
+}
+
+/**
+ * Whether the query filters or sorts tasks, beyond paging through them
+ */
+export function hasTaskQuery(params: TaskQueryParams): boolean {
+  return Object.entries(params).some(([key, value]) => key !== "page" && key !== "pageSize" && value !== undefined)
+}
+
+/**
+ * Apply task filters to tasks held in memory (pagination is left to the caller)
+ * Tasks match a tag filter when they have any of the tags, and a search when
+ * their name, description, owner or group contains it (ignoring case). The
+ * resource filter uses the given allocations, or Task.resources when none are given.
+ */
+export function filterTasks(tasks: Task[], params: TaskQueryParams = {}, allocations?: ResourceAllocation[]): Task[] {
+  const search = params.search?.toLowerCase()
+  const assignedTaskIds = params.resourceId
+    ? new Set(
+        allocations
+          ? allocations
+              .filter((allocation) => allocation.resourceId === params.resourceId)
+              .map((allocation) => allocation.taskId)
+          : tasks
+              .filter((task) => task.resources?.some((resource) => resource.id === params.resourceId))
+              .map((task) => task.id)
+      )
+    : undefined
+
+  return tasks.filter((task) => {
+    if (params.startDate && new Date(task.startAt) < params.startDate) return false
+    if (params.endDate && new Date(task.endAt) > params.endDate) return false
+    if (params.statusId && task.status?.id !== params.statusId) return false
+    if (params.group && task.group !== params.group) return false
+    if (params.owner && task.owner !== params.owner) return false
+    if (params.priority && task.priority !== params.priority) return false
+    if (params.tags && !params.tags.some((tag) => task.tags?.includes(tag))) return false
+    if (assignedTaskIds && !assignedTaskIds.has(task.id)) return false
+    if (
+      search &&
+      ![task.name, task.description, task.owner, task.group].some((value) => value?.toLowerCase().includes(search))
+    ) {
+      return false
+    }
+    return true
+  })
+}
+
+function getSortValue(task: Task, field: TaskSortField): string | number | undefined {
+  switch (field) {
+    case "startAt":
+    case "endAt":
+    case "createdAt":
+    case "updatedAt":
+      return task[field] ? new Date(task[field]!).getTime() : undefined
+    case "status":
+      return task.status?.name
+    case "priority":
+      return task.priority ? TASK_PRIORITIES.indexOf(task.priority) : undefined
+    default:
+      return task[field] ?? undefined
+  }
+}
+
+/**
+ * Sort tasks held in memory by params.sortBy (start date by default)
+ * Tasks without a value come last in either order; ties keep their order.
+ */
+export function sortTasks(tasks: Task[], params: TaskQueryParams = {}): Task[] {
+  const field = params.sortBy || "startAt"
+  const direction = params.sortOrder === "desc" ? -1 : 1
+
+  return [...tasks].sort((a, b) => {
+    const aValue = getSortValue(a, field)
+    const bValue = getSortValue(b, field)
+    if (aValue === undefined || bValue === undefined) {
+      return aValue === bValue ? 0 : aValue === undefined ? 1 : -1
+    }
+    const comparison =
+      typeof aValue === "number" && typeof bValue === "number"
+        ? aValue - bValue
+        : String(aValue).localeCompare(String(bValue))
+    return comparison * direction
+  })
+}
+
+/**
+ * Filter, sort and paginate tasks held in memory, for providers that keep
+ * their tasks in memory and as the fallback for filters a data source can't apply
+ */
+export function queryTasks(
+  tasks: Task[],
+  params: TaskQueryParams = {},
+  defaultPageSize: number,
+  allocations?: ResourceAllocation[]
+): PaginatedResponse<Task> {
+  const matching = sortTasks(filterTasks(tasks, params, allocations), params)
+  const page = params.page || 1
+  const pageSize = params.pageSize || defaultPageSize
+  const start = (page - 1) * pageSize
+
+  return {
+    data: matching.slice(start, start + pageSize),
+    total: matching.length,
+    page,
+    pageSize,
+    hasMore: start + pageSize < matching.length,
+  }
+}
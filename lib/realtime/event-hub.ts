@@ -0,0 +1,109 @@
+import { RealtimeEvent, Task, UserPresence } from '@/types/task'
+
+/**
+ * In-process event hub behind /api/events
+ *
+ * Task mutations and presence changes are published here and fanned out to
+ * every open server-sent event stream. State lives in memory, so all clients
+ * must be served by the same Node.js process.
+ */
+
+type Listener = (event: RealtimeEvent) => void
+
+interface EventHub {
+  listeners: Set<Listener>
+  presence: Map<string, UserPresence>
+  connections: Map<string, symbol> // Latest stream of each client
+}
+
+// Kept on globalThis so every route bundle (and dev reloads) share one hub
+const globalForHub = globalThis as typeof globalThis & { __ganttEventHub?: EventHub }
+const hub: EventHub = globalForHub.__ganttEventHub || {
+  listeners: new Set(),
+  presence: new Map(),
+  connections: new Map(),
+}
+globalForHub.__ganttEventHub = hub
+
+// Header carrying the id of the client that made a request
+export const REALTIME_CLIENT_HEADER = 'x-client-id'
+
+/**
+ * Listen for events; returns the unsubscribe function
+ */
+export function subscribe(listener: Listener): () => void {
+  hub.listeners.add(listener)
+  return () => {
+    hub.listeners.delete(listener)
+  }
+}
+
+export function publish(event: RealtimeEvent): void {
+  hub.listeners.forEach((listener) => {
+    try {
+      listener(event)
+    } catch (error) {
+      console.error('Failed to deliver realtime event:', error)
+    }
+  })
+}
+
+/**
+ * Publish a task mutation made through the API
+ * `projectId` is the PROJECT_HEADER of the request; not set for the default project
+ */
+export function publishTaskEvent(
+  type: 'task.created' | 'task.updated',
+  task: Task,
+  origin?: string | null,
+  projectId?: string | null
+): void {
+  publish({ type, task, origin: origin || undefined, projectId: projectId || undefined })
+}
+
+export function publishTaskDeleted(taskId: string, origin?: string | null, projectId?: string | null): void {
+  publish({ type: 'task.deleted', taskId, origin: origin || undefined, projectId: projectId || undefined })
+}
+
+export function getPresence(): UserPresence[] {
+  return [...hub.presence.values()]
+}
+
+function publishPresence(): void {
+  publish({ type: 'presence', presence: getPresence() })
+}
+
+/**
+ * Register a connected client; returns the function to call on disconnect
+ * A reconnecting client replaces its older stream, which then leaves quietly.
+ */
+export function joinPresence(presence: UserPresence): () => void {
+  const connection = Symbol(presence.userId)
+  hub.connections.set(presence.userId, connection)
+  hub.presence.set(presence.userId, presence)
+  publishPresence()
+
+  return () => {
+    if (hub.connections.get(presence.userId) !== connection) return
+    hub.connections.delete(presence.userId)
+    hub.presence.delete(presence.userId)
+    publishPresence()
+  }
+}
+
+/**
+ * Update the cursor or selection of a connected client
+ * Returns null when the client has no open stream.
+ */
+export function updatePresence(
+  userId: string,
+  update: Partial<Pick<UserPresence, 'cursor' | 'selection'>>
+): UserPresence | null {
+  const current = hub.presence.get(userId)
+  if (!current) return null
+
+  const next = { ...current, ...update, lastSeen: new Date() }
+  hub.presence.set(userId, next)
+  publishPresence()
+  return next
+}
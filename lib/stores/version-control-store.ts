@@ -1,6 +1,7 @@
 import { create } from 'zustand'
 import { TaskChange, ChangeSet } from '@/types/task'
 import { v4 as uuidv4 } from 'uuid'
+import { remapChangeSetTaskIds } from '@/lib/utils/task-changes'
 
 interface VersionControlState {
   // Change history
@@ -18,9 +19,11 @@ interface VersionControlState {
 
   // Actions
   recordChange: (taskId: string, changeType: 'create' | 'update' | 'delete', field?: string, oldValue?: unknown, newValue?: unknown) => void
-  recordBatchChanges: (changes: Omit<TaskChange, 'id' | 'timestamp'>[]) => void
+  recordBatchChanges: (changes: Omit<TaskChange, 'id' | 'timestamp'>[], description?: string) => ChangeSet
+  createChangeSet: (changes: Omit<TaskChange, 'id' | 'timestamp'>[], description?: string) => ChangeSet
   undo: () => ChangeSet | null
   redo: () => ChangeSet | null
+  replaceTaskIds: (idMap: Record<string, string>) => void
   clearHistory: () => void
   setUser: (userId: string, userName: string) => void
   getHistory: () => ChangeSet[]
@@ -72,9 +75,29 @@ export const useVersionControlStore = create<VersionControlState>((set, get) =>
     })
   },
 
-  recordBatchChanges: (changes) => {
+  recordBatchChanges: (changes, description) => {
     const state = get()
-    const changeSet: ChangeSet = {
+    const changeSet = state.createChangeSet(changes, description)
+
+    const newChangeSets = state.changeSets.slice(0, state.currentIndex + 1)
+    newChangeSets.push(changeSet)
+    const trimmedChangeSets = newChangeSets.slice(-state.maxHistorySize)
+
+    set({
+      changeSets: trimmedChangeSets,
+      currentIndex: trimmedChangeSets.length - 1,
+      canUndo: true,
+      canRedo: false,
+    })
+
+    return changeSet
+  },
+
+  // Build a change set by the current user without recording it, for changes
+  // that are not undone from here (applied undos and redos)
+  createChangeSet: (changes, description) => {
+    const state = get()
+    return {
       id: uuidv4(),
       changes: changes.map((c) => ({
         ...c,
@@ -86,18 +109,8 @@ export const useVersionControlStore = create<VersionControlState>((set, get) =>
       timestamp: new Date(),
       userId: state.userId,
       userName: state.userName,
+      description,
     }
-
-    const newChangeSets = state.changeSets.slice(0, state.currentIndex + 1)
-    newChangeSets.push(changeSet)
-    const trimmedChangeSets = newChangeSets.slice(-state.maxHistorySize)
-
-    set({
-      changeSets: trimmedChangeSets,
-      currentIndex: trimmedChangeSets.length - 1,
-      canUndo: true,
-      canRedo: false,
-    })
   },
 
   undo: () => {
@@ -132,6 +145,12 @@ export const useVersionControlStore = create<VersionControlState>((set, get) =>
     return changeSet
   },
 
+  // Follow tasks that an undo or redo recreated under new ids
+  replaceTaskIds: (idMap) => {
+    if (Object.keys(idMap).length === 0) return
+    set({ changeSets: get().changeSets.map((changeSet) => remapChangeSetTaskIds(changeSet, idMap)) })
+  },
+
   clearHistory: () => {
     set({
       changeSets: [],
@@ -0,0 +1,79 @@
+import { ChangeSet, Comment, TaskChange } from '@/types/task'
+
+export type ActivityEntry =
+  | { type: 'comment'; id: string; timestamp: Date; comment: Comment }
+  | { type: 'change'; id: string; timestamp: Date; change: TaskChange; description?: string }
+
+export const FIELD_LABELS: Record<string, string> = {
+  name: 'name',
+  startAt: 'start date',
+  endAt: 'end date',
+  status: 'status',
+  owner: 'owner',
+  group: 'group',
+  description: 'description',
+  progress: 'progress',
+  parentId: 'parent',
+}
+
+/**
+ * Merge a task's comments and recorded changes into one feed, newest first
+ * Change sets come from the version control store, so changes undone there
+ * (past its current index) are left out.
+ */
+export function buildActivityFeed(
+  taskId: string,
+  comments: Comment[],
+  changeSets: ChangeSet[],
+  currentIndex = changeSets.length - 1
+): ActivityEntry[] {
+  const entries: ActivityEntry[] = comments
+    .filter((comment) => comment.taskId === taskId)
+    .map((comment) => ({
+      type: 'comment' as const,
+      id: comment.id,
+      timestamp: new Date(comment.timestamp),
+      comment,
+    }))
+
+  changeSets.slice(0, currentIndex + 1).forEach((changeSet) => {
+    changeSet.changes
+      .filter((change) => change.taskId === taskId)
+      .forEach((change) => {
+        entries.push({
+          type: 'change',
+          id: change.id,
+          timestamp: new Date(change.timestamp),
+          change,
+          description: changeSet.description,
+        })
+      })
+  })
+
+  return entries.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+}
+
+/**
+ * Readable form of a recorded field value
+ */
+export function formatTaskFieldValue(field: string | undefined, value: unknown): string {
+  if (value === undefined || value === null || value === '') return 'none'
+  if (field === 'startAt' || field === 'endAt') return new Date(value as Date | string).toLocaleDateString()
+  if (field === 'progress') return `${value}%`
+  if (field === 'description') {
+    const text = String(value)
+    return text.length > 40 ? `"${text.slice(0, 40)}..."` : `"${text}"`
+  }
+  return String(value)
+}
+
+/**
+ * One-line summary of a recorded change, e.g. "changed start date from 1/2/2025 to 1/5/2025"
+ */
+export function describeTaskChange(change: TaskChange): string {
+  if (change.changeType === 'create') return 'created the task'
+  if (change.changeType === 'delete') return 'deleted the task'
+
+  const label = (change.field && FIELD_LABELS[change.field]) || change.field || 'task'
+  return `changed ${label} from ${formatTaskFieldValue(change.field, change.oldValue)} to ${formatTaskFieldValue(change.field, change.newValue)}`
+}
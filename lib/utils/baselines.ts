@@ -0,0 +1,71 @@
+import { Baseline, BaselineTask, Task, WorkCalendar } from '@/types/task'
+import { countWorkingDays } from './work-calendar'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface BaselineVariance {
+  startVariance: number // Days, positive = later than the baseline
+  finishVariance: number
+}
+
+/**
+ * Capture the current start, end and progress of every task
+ */
+export function createBaseline(
+  name: string,
+  tasks: Pick<Task, 'id' | 'startAt' | 'endAt' | 'progress'>[]
+): Baseline {
+  return {
+    id: `baseline_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name,
+    createdAt: new Date(),
+    tasks: tasks.map((task) => ({
+      taskId: task.id,
+      startAt: new Date(task.startAt),
+      endAt: new Date(task.endAt),
+      progress: task.progress,
+    })),
+  }
+}
+
+/**
+ * Turn a baseline parsed from JSON back into one with Date fields
+ */
+export function reviveBaseline(baseline: Baseline): Baseline {
+  return {
+    ...baseline,
+    createdAt: new Date(baseline.createdAt),
+    tasks: baseline.tasks.map((task) => ({
+      ...task,
+      startAt: new Date(task.startAt),
+      endAt: new Date(task.endAt),
+    })),
+  }
+}
+
+/**
+ * Signed difference between two dates in days
+ * With a calendar only working days between them are counted.
+ */
+function dayDifference(planned: Date, actual: Date, calendar?: WorkCalendar): number {
+  if (calendar) {
+    if (actual >= planned) return countWorkingDays(planned, actual, calendar)
+    return -countWorkingDays(actual, planned, calendar)
+  }
+
+  return Math.round((actual.getTime() - planned.getTime()) / DAY_MS)
+}
+
+/**
+ * Start and finish slippage of a task against its baseline entry
+ */
+export function getBaselineVariance(
+  task: Pick<Task, 'startAt' | 'endAt'>,
+  baselineTask: BaselineTask,
+  calendar?: WorkCalendar
+): BaselineVariance {
+  return {
+    startVariance: dayDifference(baselineTask.startAt, new Date(task.startAt), calendar),
+    finishVariance: dayDifference(baselineTask.endAt, new Date(task.endAt), calendar),
+  }
+}
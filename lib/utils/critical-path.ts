@@ -1,4 +1,5 @@
-import { Task, TaskDependency, CriticalPathTask } from '@/types/task'
+import { Task, TaskDependency, CriticalPathTask, WorkCalendar } from '@/types/task'
+import { addWorkingDays, countWorkingDays, shiftTaskDates } from './work-calendar'
 
 export interface TaskNode {
   id: string
@@ -13,12 +14,49 @@ export interface TaskNode {
   isCritical: boolean
 }
 
+/**
+ * Shift a date by a dependency lag (working days when a calendar is given)
+ */
+function applyLag(date: Date, lag: number, calendar?: WorkCalendar): Date {
+  if (calendar) {
+    return addWorkingDays(date, lag, calendar)
+  }
+  return new Date(date.getTime() + lag * 24 * 60 * 60 * 1000)
+}
+
+/**
+ * Finish date of a task moved to a new start, keeping its duration
+ * (its working-day duration when a calendar is given)
+ */
+function getFinishFromStart(task: Task, start: Date, calendar?: WorkCalendar): Date {
+  if (calendar) {
+    return shiftTaskDates(task, start, calendar).endAt
+  }
+  return new Date(start.getTime() + (task.endAt.getTime() - task.startAt.getTime()))
+}
+
+/**
+ * Start date of a task moved to a new finish, keeping its duration
+ * (walking back its working days when a calendar is given)
+ */
+function getStartFromFinish(task: Task, finish: Date, calendar?: WorkCalendar): Date {
+  if (calendar) {
+    const workingDays = countWorkingDays(task.startAt, task.endAt, calendar)
+    if (workingDays > 0) {
+      return addWorkingDays(finish, -workingDays, calendar)
+    }
+  }
+  return new Date(finish.getTime() - (task.endAt.getTime() - task.startAt.getTime()))
+}
+
 /**
  * Calculate the critical path for a set of tasks with dependencies
+ * With a calendar, lags are working days and slack is reported in working days.
  */
 export function calculateCriticalPath(
   tasks: Task[],
-  dependencies: TaskDependency[]
+  dependencies: TaskDependency[],
+  calendar?: WorkCalendar
 ): CriticalPathTask[] {
   // Build task nodes
   const taskMap = new Map<string, TaskNode>()
@@ -43,24 +81,28 @@ export function calculateCriticalPath(
   })
 
   // Forward pass - calculate earliest start and finish times
-  forwardPass(taskMap, dependencies)
+  forwardPass(taskMap, dependencies, calendar)
 
   // Backward pass - calculate latest start and finish times
-  backwardPass(taskMap, dependencies)
+  backwardPass(taskMap, dependencies, calendar)
 
   // Calculate slack and identify critical tasks
   const criticalPathTasks: CriticalPathTask[] = []
 
   taskMap.forEach((node) => {
     const slack = node.latestFinish.getTime() - node.earliestFinish.getTime()
-    const isCritical = slack === 0
+    const workingSlack = calendar ? countWorkingDays(node.earliestFinish, node.latestFinish, calendar) : 0
+    // With a calendar, a gap of only non-working days is no slack
+    const isCritical = calendar ? slack >= 0 && workingSlack === 0 : slack === 0
 
     node.slack = slack
     node.isCritical = isCritical
 
     criticalPathTasks.push({
       taskId: node.id,
-      slack: slack / (1000 * 60 * 60 * 24), // Convert to days
+      slack: calendar
+        ? workingSlack
+        : slack / (1000 * 60 * 60 * 24), // Convert to days
       isCritical,
     })
   })
@@ -71,7 +113,8 @@ export function calculateCriticalPath(
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 function forwardPass(
   taskMap: Map<string, TaskNode>,
-  _dependencies: TaskDependency[]
+  _dependencies: TaskDependency[],
+  calendar?: WorkCalendar
 ): void {
   // Topological sort to process tasks in dependency order
   const visited = new Set<string>()
@@ -111,7 +154,7 @@ function forwardPass(
 
       // Apply lag
       if (dep.lag) {
-        predFinish = new Date(predFinish.getTime() + dep.lag * 24 * 60 * 60 * 1000)
+        predFinish = applyLag(predFinish, dep.lag, calendar)
       }
 
       // Handle different dependency types
@@ -150,14 +193,14 @@ function forwardPass(
     })
 
     node.earliestStart = maxPredecessorFinish
-    const duration = node.task.endAt.getTime() - node.task.startAt.getTime()
-    node.earliestFinish = new Date(node.earliestStart.getTime() + duration)
+    node.earliestFinish = getFinishFromStart(node.task, node.earliestStart, calendar)
   })
 }
 
 function backwardPass(
   taskMap: Map<string, TaskNode>,
-  _dependencies: TaskDependency[]
+  _dependencies: TaskDependency[],
+  calendar?: WorkCalendar
 ): void {
   // Find project end date (maximum earliest finish)
   let projectEnd = new Date(0)
@@ -167,17 +210,11 @@ function backwardPass(
     }
   })
 
-  // Initialize latest times for tasks with no successors
+  // Initialize latest times: tasks with no successors may finish as late as
+  // the project end, so end-of-chain tasks keep their slack
   taskMap.forEach((node) => {
-    if (node.dependents.length === 0) {
-      node.latestFinish = node.earliestFinish
-      const duration = node.task.endAt.getTime() - node.task.startAt.getTime()
-      node.latestStart = new Date(node.latestFinish.getTime() - duration)
-    } else {
-      node.latestFinish = projectEnd
-      const duration = node.task.endAt.getTime() - node.task.startAt.getTime()
-      node.latestStart = new Date(node.latestFinish.getTime() - duration)
-    }
+    node.latestFinish = projectEnd
+    node.latestStart = getStartFromFinish(node.task, node.latestFinish, calendar)
   })
 
   // Process in reverse topological order
@@ -219,7 +256,7 @@ function backwardPass(
 
       // Apply lag
       if (dep.lag) {
-        succStart = new Date(succStart.getTime() - dep.lag * 24 * 60 * 60 * 1000)
+        succStart = applyLag(succStart, -dep.lag, calendar)
       }
 
       // Handle different dependency types
@@ -231,8 +268,7 @@ function backwardPass(
           break
         case 'start-to-start':
           // Special case handling
-          const duration = node.task.endAt.getTime() - node.task.startAt.getTime()
-          const adjustedFinish = new Date(succStart.getTime() + duration)
+          const adjustedFinish = getFinishFromStart(node.task, succStart, calendar)
           if (adjustedFinish < minSuccessorStart) {
             minSuccessorStart = adjustedFinish
           }
@@ -242,8 +278,7 @@ function backwardPass(
     })
 
     node.latestFinish = minSuccessorStart
-    const duration = node.task.endAt.getTime() - node.task.startAt.getTime()
-    node.latestStart = new Date(node.latestFinish.getTime() - duration)
+    node.latestStart = getStartFromFinish(node.task, node.latestFinish, calendar)
   })
 }
 
@@ -312,7 +347,8 @@ export function validateDependencies(dependencies: TaskDependency[]): {
  */
 export function autoScheduleTasks(
   tasks: Task[],
-  dependencies: TaskDependency[]
+  dependencies: TaskDependency[],
+  calendar?: WorkCalendar
 ): Task[] {
   const taskMap = new Map<string, TaskNode>()
 
@@ -336,18 +372,16 @@ export function autoScheduleTasks(
   })
 
   // Forward pass to calculate new dates
-  forwardPass(taskMap, dependencies)
+  forwardPass(taskMap, dependencies, calendar)
 
   // Return updated tasks
   const scheduledTasks: Task[] = []
 
   taskMap.forEach((node) => {
-    const duration = node.task.endAt.getTime() - node.task.startAt.getTime()
-
     scheduledTasks.push({
       ...node.task,
       startAt: node.earliestStart,
-      endAt: new Date(node.earliestStart.getTime() + duration),
+      endAt: node.earliestFinish,
     })
   })
 
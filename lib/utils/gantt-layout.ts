@@ -0,0 +1,404 @@
+import { GanttViewConfig, Task, TaskDependency, WorkCalendar } from '@/types/task'
+import { calculateCriticalPath } from './critical-path'
+import { buildTaskTree } from './task-tree'
+import { isWorkingDay } from './work-calendar'
+
+/**
+ * Resolution-independent layout of a Gantt chart, shared by the SVG and PDF
+ * renderers
+ *
+ * Horizontal positions are in days from the start of the range and vertical
+ * positions in rows, so each renderer picks its own day width and row height
+ * (and the PDF renderer can split rows across pages).
+ */
+
+export interface GanttRenderOptions {
+  startDate?: Date // Defaults to the start of the earliest task
+  endDate?: Date // Defaults to the end of the latest task
+  dependencies?: TaskDependency[]
+  calendar?: WorkCalendar // Shades non-working days when the view shows weekends
+  title?: string
+}
+
+export interface GanttTick {
+  label: string
+  startDay: number
+  endDay: number
+}
+
+export type GanttLayoutRow =
+  | { kind: 'group'; label: string }
+  | {
+      kind: 'task'
+      task: Task
+      depth: number
+      startDay: number
+      endDay: number
+      color: string
+      progress: number
+      isMilestone: boolean
+      isSummary: boolean
+      isCritical: boolean
+      resourceNames?: string // Only when the view shows resources
+    }
+
+export interface GanttLayoutLink {
+  fromRow: number
+  fromDay: number
+  fromFinish: boolean // Leaves the predecessor at its end rather than its start
+  toRow: number
+  toDay: number
+  toStart: boolean // Enters the successor at its start rather than its end
+  isCritical: boolean
+}
+
+export interface GanttLegendItem {
+  label: string
+  color: string
+  shape: 'bar' | 'milestone' | 'critical'
+}
+
+export interface GanttLayout {
+  title?: string
+  start: Date
+  end: Date
+  days: number
+  majorTicks: GanttTick[]
+  minorTicks: GanttTick[]
+  nonWorkingDays: number[]
+  today?: number
+  rows: GanttLayoutRow[]
+  links: GanttLayoutLink[]
+  legend: GanttLegendItem[]
+}
+
+type TimeUnit = 'day' | 'week' | 'month' | 'quarter' | 'year'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DEFAULT_TASK_COLOR = '#3b82f6'
+export const CRITICAL_COLOR = '#dc2626'
+
+// Header rows for each scale: a larger unit above the scale's own unit
+const TIME_UNITS: Record<GanttViewConfig['scale'], [major: TimeUnit | null, minor: TimeUnit]> = {
+  day: ['month', 'day'],
+  week: ['month', 'week'],
+  month: ['year', 'month'],
+  quarter: ['year', 'quarter'],
+  year: [null, 'year'],
+}
+
+// Days added around the tasks when no range is given
+const RANGE_PADDING: Record<GanttViewConfig['scale'], number> = {
+  day: 1,
+  week: 3,
+  month: 7,
+  quarter: 14,
+  year: 30,
+}
+
+const PRIORITY_COLORS: Record<NonNullable<Task['priority']>, string> = {
+  low: '#94a3b8',
+  medium: '#3b82f6',
+  high: '#f59e0b',
+  critical: '#ef4444',
+}
+
+const PROGRESS_COLORS: [label: string, color: string][] = [
+  ['Not started', '#94a3b8'],
+  ['In progress', '#f59e0b'],
+  ['Almost done', '#3b82f6'],
+  ['Complete', '#22c55e'],
+]
+
+const OWNER_COLORS = ['#3b82f6', '#8b5cf6', '#ec4899', '#f97316', '#14b8a6', '#eab308', '#22c55e', '#ef4444']
+
+function startOfDay(date: Date): Date {
+  const result = new Date(date)
+  result.setHours(0, 0, 0, 0)
+  return result
+}
+
+function startOfUnit(date: Date, unit: TimeUnit): Date {
+  const result = startOfDay(date)
+  switch (unit) {
+    case 'week':
+      result.setDate(result.getDate() - ((result.getDay() + 6) % 7))
+      break
+    case 'month':
+      result.setDate(1)
+      break
+    case 'quarter':
+      result.setMonth(result.getMonth() - (result.getMonth() % 3), 1)
+      break
+    case 'year':
+      result.setMonth(0, 1)
+      break
+  }
+  return result
+}
+
+function addUnit(date: Date, unit: TimeUnit): Date {
+  const result = new Date(date)
+  switch (unit) {
+    case 'day':
+      result.setDate(result.getDate() + 1)
+      break
+    case 'week':
+      result.setDate(result.getDate() + 7)
+      break
+    case 'month':
+      result.setMonth(result.getMonth() + 1)
+      break
+    case 'quarter':
+      result.setMonth(result.getMonth() + 3)
+      break
+    case 'year':
+      result.setFullYear(result.getFullYear() + 1)
+      break
+  }
+  return result
+}
+
+function formatTick(date: Date, unit: TimeUnit, isMajor: boolean): string {
+  switch (unit) {
+    case 'day':
+      return String(date.getDate())
+    case 'week':
+      return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+    case 'month':
+      return date.toLocaleDateString('en-US', isMajor ? { month: 'long', year: 'numeric' } : { month: 'short' })
+    case 'quarter':
+      return `Q${Math.floor(date.getMonth() / 3) + 1}`
+    case 'year':
+      return String(date.getFullYear())
+  }
+}
+
+function getTicks(start: Date, end: Date, unit: TimeUnit, isMajor: boolean, toDay: (date: Date) => number): GanttTick[] {
+  const ticks: GanttTick[] = []
+  for (let current = startOfUnit(start, unit); current < end; current = addUnit(current, unit)) {
+    ticks.push({
+      label: formatTick(current, unit, isMajor),
+      startDay: Math.max(toDay(current), 0),
+      endDay: Math.min(toDay(addUnit(current, unit)), toDay(end)),
+    })
+  }
+  return ticks
+}
+
+function isMilestoneTask(task: Task): boolean {
+  return Boolean(task.isMilestone) || new Date(task.startAt).toDateString() === new Date(task.endAt).toDateString()
+}
+
+function getProgressBand(progress: number): number {
+  if (progress >= 100) return 3
+  if (progress >= 75) return 2
+  if (progress > 0) return 1
+  return 0
+}
+
+function getGroupLabel(task: Task, groupBy: NonNullable<GanttViewConfig['groupBy']>): string {
+  const value = groupBy === 'status' ? task.status?.name : task[groupBy]
+  return value ? String(value) : 'Ungrouped'
+}
+
+/**
+ * Work out colors and the matching legend for the view's colorBy setting
+ */
+function getColoring(tasks: Task[], colorBy: GanttViewConfig['colorBy']): {
+  getColor: (task: Task) => string
+  legend: GanttLegendItem[]
+} {
+  switch (colorBy) {
+    case 'priority': {
+      const used = Object.entries(PRIORITY_COLORS).filter(([priority]) =>
+        tasks.some((task) => task.priority === priority)
+      )
+      return {
+        getColor: (task) => (task.priority ? PRIORITY_COLORS[task.priority] : DEFAULT_TASK_COLOR),
+        legend: used.map(([priority, color]) => ({
+          label: priority.charAt(0).toUpperCase() + priority.slice(1),
+          color,
+          shape: 'bar',
+        })),
+      }
+    }
+    case 'progress': {
+      const used = new Set(tasks.map((task) => getProgressBand(task.progress ?? 0)))
+      return {
+        getColor: (task) => PROGRESS_COLORS[getProgressBand(task.progress ?? 0)][1],
+        legend: PROGRESS_COLORS.filter((_, band) => used.has(band)).map(([label, color]) => ({
+          label,
+          color,
+          shape: 'bar',
+        })),
+      }
+    }
+    case 'owner': {
+      const owners = [...new Set(tasks.map((task) => task.owner).filter((owner): owner is string => Boolean(owner)))]
+      const colors = new Map(owners.map((owner, index) => [owner, OWNER_COLORS[index % OWNER_COLORS.length]]))
+      return {
+        getColor: (task) => (task.owner && colors.get(task.owner)) || DEFAULT_TASK_COLOR,
+        legend: owners.map((owner) => ({ label: owner, color: colors.get(owner)!, shape: 'bar' })),
+      }
+    }
+    default: {
+      const statuses = new Map<string, string>()
+      tasks.forEach((task) => {
+        if (task.status) statuses.set(task.status.name, task.status.color || DEFAULT_TASK_COLOR)
+      })
+      return {
+        getColor: (task) => task.status?.color || DEFAULT_TASK_COLOR,
+        legend: [...statuses].map(([label, color]) => ({ label, color, shape: 'bar' })),
+      }
+    }
+  }
+}
+
+/**
+ * Lay out tasks for rendering with the given view settings
+ * Tasks are shown in outline order (grouped when the view groups them);
+ * tasks entirely outside the date range are left out.
+ */
+export function layoutGantt(tasks: Task[], viewConfig: GanttViewConfig, options: GanttRenderOptions = {}): GanttLayout {
+  const visibleTasks = viewConfig.showMilestones ? tasks : tasks.filter((task) => !isMilestoneTask(task))
+
+  const padding = RANGE_PADDING[viewConfig.scale] * DAY_MS
+  const earliest = Math.min(...visibleTasks.map((task) => new Date(task.startAt).getTime()))
+  const latest = Math.max(...visibleTasks.map((task) => new Date(task.endAt).getTime()))
+  const start = startOfDay(options.startDate ?? new Date(visibleTasks.length > 0 ? earliest - padding : Date.now()))
+  // The range ends at the start of the first day not shown
+  const last = options.endDate ?? new Date(visibleTasks.length > 0 ? latest + padding : Date.now())
+  let end = startOfDay(last)
+  if (end < last || end <= start) end = addUnit(end, 'day')
+
+  const toDay = (date: Date) => (new Date(date).getTime() - start.getTime()) / DAY_MS
+  const days = Math.round(toDay(end))
+
+  const inRange = visibleTasks.filter(
+    (task) => toDay(task.endAt) >= 0 && toDay(task.startAt) <= days
+  )
+  const dependencies = (options.dependencies || []).filter(
+    (dependency) =>
+      inRange.some((task) => task.id === dependency.predecessorId) &&
+      inRange.some((task) => task.id === dependency.successorId)
+  )
+
+  const criticalIds = new Set<string>()
+  if (viewConfig.showCriticalPath && dependencies.length > 0) {
+    calculateCriticalPath(inRange, dependencies, options.calendar).forEach((entry) => {
+      if (entry.isCritical) criticalIds.add(entry.taskId)
+    })
+  }
+
+  const { getColor, legend } = getColoring(inRange, viewConfig.colorBy)
+  const rows: GanttLayoutRow[] = []
+
+  const addTaskRows = (groupTasks: Task[]) => {
+    buildTaskTree(groupTasks).forEach(({ task, depth, hasChildren }) => {
+      rows.push({
+        kind: 'task',
+        task,
+        depth,
+        startDay: Math.max(toDay(task.startAt), 0),
+        endDay: Math.min(toDay(task.endAt), days),
+        color: getColor(task),
+        progress: Math.min(Math.max(task.progress ?? 0, 0), 100),
+        isMilestone: isMilestoneTask(task),
+        isSummary: hasChildren || Boolean(task.isSummary),
+        isCritical: criticalIds.has(task.id),
+        resourceNames: viewConfig.showResources
+          ? task.resources?.map((resource) => resource.name).join(', ') || task.owner
+          : undefined,
+      })
+    })
+  }
+
+  if (viewConfig.groupBy) {
+    const groups = new Map<string, Task[]>()
+    inRange.forEach((task) => {
+      const label = getGroupLabel(task, viewConfig.groupBy!)
+      groups.set(label, [...(groups.get(label) || []), task])
+    })
+    groups.forEach((groupTasks, label) => {
+      rows.push({ kind: 'group', label })
+      addTaskRows(groupTasks)
+    })
+  } else {
+    addTaskRows(inRange)
+  }
+
+  const rowIndex = new Map<string, number>()
+  rows.forEach((row, index) => {
+    if (row.kind === 'task') rowIndex.set(row.task.id, index)
+  })
+
+  const links: GanttLayoutLink[] = viewConfig.showDependencies
+    ? dependencies.flatMap((dependency): GanttLayoutLink[] => {
+        const fromRow = rowIndex.get(dependency.predecessorId)
+        const toRow = rowIndex.get(dependency.successorId)
+        if (fromRow === undefined || toRow === undefined) return []
+        const from = rows[fromRow] as Extract<GanttLayoutRow, { kind: 'task' }>
+        const to = rows[toRow] as Extract<GanttLayoutRow, { kind: 'task' }>
+        const fromFinish = dependency.type === 'finish-to-start' || dependency.type === 'finish-to-finish'
+        const toStart = dependency.type === 'finish-to-start' || dependency.type === 'start-to-start'
+        return [
+          {
+            fromRow,
+            fromDay: fromFinish ? from.endDay : from.startDay,
+            fromFinish,
+            toRow,
+            toDay: toStart ? to.startDay : to.endDay,
+            toStart,
+            isCritical: from.isCritical && to.isCritical,
+          },
+        ]
+      })
+    : []
+
+  const nonWorkingDays: number[] = []
+  if (viewConfig.showWeekends && options.calendar) {
+    for (let day = 0; day < days; day++) {
+      const date = new Date(start)
+      date.setDate(date.getDate() + day)
+      if (!isWorkingDay(date, options.calendar)) nonWorkingDays.push(day)
+    }
+  }
+
+  const today = toDay(new Date())
+  const [majorUnit, minorUnit] = TIME_UNITS[viewConfig.scale]
+
+  if (rows.some((row) => row.kind === 'task' && row.isMilestone)) {
+    legend.push({ label: 'Milestone', color: '#475569', shape: 'milestone' })
+  }
+  if (criticalIds.size > 0) {
+    legend.push({ label: 'Critical path', color: CRITICAL_COLOR, shape: 'critical' })
+  }
+
+  return {
+    title: options.title,
+    start,
+    end,
+    days,
+    majorTicks: majorUnit ? getTicks(start, end, majorUnit, true, toDay) : [],
+    minorTicks: getTicks(start, end, minorUnit, false, toDay),
+    nonWorkingDays,
+    today: today >= 0 && today <= days ? today : undefined,
+    rows,
+    links,
+    legend,
+  }
+}
+
+/**
+ * Blend a hex color with white, for the unfinished part of a bar
+ */
+export function lightenColor(color: string, amount: number): string {
+  const match = /^#?([0-9a-f]{6})$/i.exec(color)
+  if (!match) return color
+  const value = parseInt(match[1], 16)
+  const channels = [value >> 16, (value >> 8) & 0xff, value & 0xff].map((channel) =>
+    Math.round(channel + (255 - channel) * amount)
+  )
+  return `#${channels.map((channel) => channel.toString(16).padStart(2, '0')).join('')}`
+}
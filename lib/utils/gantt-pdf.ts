@@ -0,0 +1,145 @@
+import type { jsPDF } from 'jspdf'
+import { GanttViewConfig, Task } from '@/types/task'
+import { GanttRenderOptions, layoutGantt } from './gantt-layout'
+import {
+  GanttPainter,
+  getHeaderHeight,
+  getLegendHeight,
+  getTitleHeight,
+  LineStyle,
+  paintGantt,
+  ShapeStyle,
+  TextStyle,
+} from './gantt-render'
+
+/**
+ * Paginated vector PDF of the Gantt chart
+ *
+ * The date range is fitted to the page width and rows flow over as many pages
+ * as needed, each with the timeline header and legend. Drawn with jsPDF's
+ * standard fonts, so text outside Latin-1 may not print.
+ */
+
+export type GanttPaperSize = 'a4' | 'a3' | 'letter' | 'legal' | 'tabloid'
+
+export interface GanttPdfOptions extends GanttRenderOptions {
+  paperSize?: GanttPaperSize
+  orientation?: 'portrait' | 'landscape'
+  rowHeight?: number // In points
+}
+
+const PAGE_MARGIN = 28
+const MIN_ROW_HEIGHT = 10
+
+function getStyle(pdf: jsPDF, style: ShapeStyle): string | null {
+  if (style.fill) pdf.setFillColor(style.fill)
+  if (style.stroke) {
+    pdf.setDrawColor(style.stroke)
+    pdf.setLineWidth(style.strokeWidth ?? 0.5)
+  }
+  if (style.fill && style.stroke) return 'FD'
+  if (style.fill) return 'F'
+  return style.stroke ? 'S' : null
+}
+
+// Relative segments as jsPDF.lines expects them
+function toSegments(points: [number, number][]): number[][] {
+  return points.slice(1).map(([x, y], index) => [x - points[index][0], y - points[index][1]])
+}
+
+class PdfPainter implements GanttPainter {
+  constructor(private readonly pdf: jsPDF) {}
+
+  rect(x: number, y: number, width: number, height: number, style: ShapeStyle & { radius?: number }) {
+    const mode = getStyle(this.pdf, style)
+    if (!mode) return
+    if (style.radius) {
+      this.pdf.roundedRect(x, y, width, height, style.radius, style.radius, mode)
+    } else {
+      this.pdf.rect(x, y, width, height, mode)
+    }
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, style: LineStyle) {
+    this.withLineStyle(style, () => this.pdf.line(x1, y1, x2, y2, 'S'))
+  }
+
+  polyline(points: [number, number][], style: LineStyle) {
+    this.withLineStyle(style, () => this.pdf.lines(toSegments(points), points[0][0], points[0][1], [1, 1], 'S', false))
+  }
+
+  polygon(points: [number, number][], style: ShapeStyle) {
+    const mode = getStyle(this.pdf, style)
+    if (!mode) return
+    this.pdf.lines(toSegments(points), points[0][0], points[0][1], [1, 1], mode, true)
+  }
+
+  text(x: number, y: number, text: string, style: TextStyle) {
+    this.setFont(style)
+    this.pdf.setTextColor(style.color ?? '#0f172a')
+    this.pdf.text(text, x, y, { baseline: 'middle', align: style.align ?? 'left' })
+  }
+
+  textWidth(text: string, style: Pick<TextStyle, 'size' | 'bold'>) {
+    this.setFont(style)
+    return this.pdf.getTextWidth(text)
+  }
+
+  private setFont(style: Pick<TextStyle, 'size' | 'bold'>) {
+    this.pdf.setFont('helvetica', style.bold ? 'bold' : 'normal')
+    this.pdf.setFontSize(style.size)
+  }
+
+  private withLineStyle(style: LineStyle, draw: () => void) {
+    this.pdf.setDrawColor(style.stroke)
+    this.pdf.setLineWidth(style.strokeWidth ?? 0.5)
+    if (style.dash) this.pdf.setLineDashPattern(style.dash, 0)
+    draw()
+    if (style.dash) this.pdf.setLineDashPattern([], 0)
+  }
+}
+
+/**
+ * Render the chart as a multi-page PDF
+ */
+export async function renderGanttPdf(
+  tasks: Task[],
+  viewConfig: GanttViewConfig,
+  options: GanttPdfOptions = {}
+): Promise<jsPDF> {
+  const { jsPDF } = await import('jspdf')
+  const pdf = new jsPDF({
+    orientation: options.orientation ?? 'landscape',
+    unit: 'pt',
+    format: options.paperSize ?? 'a4',
+  })
+  const painter = new PdfPainter(pdf)
+  const layout = layoutGantt(tasks, viewConfig, options)
+
+  const pageWidth = pdf.internal.pageSize.getWidth()
+  const pageHeight = pdf.internal.pageSize.getHeight()
+  const contentWidth = pageWidth - PAGE_MARGIN * 2
+  const labelWidth = Math.min(200, contentWidth * 0.3)
+  const rowHeight = Math.max(options.rowHeight ?? 18, MIN_ROW_HEIGHT)
+
+  const reserved =
+    getTitleHeight(layout, { pageLabel: 'Page' }) + getHeaderHeight(layout) + getLegendHeight(layout, painter, contentWidth)
+  const rowsPerPage = Math.max(Math.floor((pageHeight - PAGE_MARGIN * 2 - reserved) / rowHeight), 1)
+  const pageCount = Math.max(Math.ceil(layout.rows.length / rowsPerPage), 1)
+
+  for (let page = 0; page < pageCount; page++) {
+    if (page > 0) pdf.addPage()
+    paintGantt(layout, painter, {
+      x: PAGE_MARGIN,
+      y: PAGE_MARGIN,
+      labelWidth,
+      dayWidth: (contentWidth - labelWidth) / layout.days,
+      rowHeight,
+      rowStart: page * rowsPerPage,
+      rowEnd: Math.min((page + 1) * rowsPerPage, layout.rows.length),
+      pageLabel: `Page ${page + 1} of ${pageCount}`,
+    })
+  }
+
+  return pdf
+}
@@ -0,0 +1,413 @@
+import { GanttViewConfig, Task } from '@/types/task'
+import { CRITICAL_COLOR, GanttLayout, GanttRenderOptions, layoutGantt, lightenColor } from './gantt-layout'
+
+/**
+ * Drawing a Gantt layout onto a page
+ *
+ * paintGantt draws through a small GanttPainter interface, so the SVG and PDF
+ * exports share one implementation and look the same.
+ */
+
+export interface GanttPainter {
+  rect(x: number, y: number, width: number, height: number, style: ShapeStyle & { radius?: number }): void
+  line(x1: number, y1: number, x2: number, y2: number, style: LineStyle): void
+  polyline(points: [number, number][], style: LineStyle): void
+  polygon(points: [number, number][], style: ShapeStyle): void
+  // y is the vertical middle of the text
+  text(x: number, y: number, text: string, style: TextStyle): void
+  textWidth(text: string, style: Pick<TextStyle, 'size' | 'bold'>): number
+}
+
+export interface ShapeStyle {
+  fill?: string
+  stroke?: string
+  strokeWidth?: number
+}
+
+export interface LineStyle {
+  stroke: string
+  strokeWidth?: number
+  dash?: number[]
+}
+
+export interface TextStyle {
+  size: number
+  color?: string
+  bold?: boolean
+  align?: 'left' | 'center' | 'right'
+}
+
+// Area of the page the chart is drawn in, and the rows drawn there
+export interface GanttFrame {
+  x: number
+  y: number
+  labelWidth: number
+  dayWidth: number
+  rowHeight: number
+  rowStart: number
+  rowEnd: number
+  pageLabel?: string // e.g. "Page 2 of 5", shown next to the title
+}
+
+const FONT_SIZE = 9
+const SMALL_FONT_SIZE = 7.5
+const TITLE_HEIGHT = 26
+const HEADER_ROW_HEIGHT = 18
+const LEGEND_LINE_HEIGHT = 14
+const LEGEND_GAP = 10
+const INDENT = 12
+const LINK_STUB = 6
+
+const COLORS = {
+  text: '#0f172a',
+  mutedText: '#64748b',
+  border: '#cbd5e1',
+  grid: '#e2e8f0',
+  header: '#f8fafc',
+  group: '#f1f5f9',
+  nonWorking: '#f1f5f9',
+  summary: '#475569',
+  link: '#64748b',
+  today: '#ef4444',
+}
+
+// Base day widths in pixels for SVG output, scaled by the view's zoom
+const SVG_DAY_WIDTHS: Record<GanttViewConfig['scale'], number> = {
+  day: 32,
+  week: 14,
+  month: 4,
+  quarter: 1.5,
+  year: 0.5,
+}
+
+export function getTitleHeight(layout: GanttLayout, frame: Pick<GanttFrame, 'pageLabel'>): number {
+  return layout.title || frame.pageLabel ? TITLE_HEIGHT : 0
+}
+
+export function getHeaderHeight(layout: GanttLayout): number {
+  return layout.majorTicks.length > 0 ? HEADER_ROW_HEIGHT * 2 : HEADER_ROW_HEIGHT
+}
+
+function getLegendLines(layout: GanttLayout, painter: GanttPainter, width: number): number[][] {
+  const lines: number[][] = []
+  let lineWidth = 0
+  layout.legend.forEach((item, index) => {
+    const itemWidth = 16 + painter.textWidth(item.label, { size: SMALL_FONT_SIZE }) + LEGEND_GAP
+    if (lines.length === 0 || lineWidth + itemWidth > width) {
+      lines.push([])
+      lineWidth = 0
+    }
+    lines[lines.length - 1].push(index)
+    lineWidth += itemWidth
+  })
+  return lines
+}
+
+export function getLegendHeight(layout: GanttLayout, painter: GanttPainter, width: number): number {
+  const lines = getLegendLines(layout, painter, width).length
+  return lines > 0 ? lines * LEGEND_LINE_HEIGHT + 8 : 0
+}
+
+// Shorten text with an ellipsis to fit a width
+function fitText(painter: GanttPainter, text: string, width: number, style: Pick<TextStyle, 'size' | 'bold'>): string {
+  if (painter.textWidth(text, style) <= width) return text
+  let result = text
+  while (result.length > 0 && painter.textWidth(`${result}...`, style) > width) {
+    result = result.slice(0, -1)
+  }
+  return result.length > 0 ? `${result.trimEnd()}...` : ''
+}
+
+function diamond(x: number, y: number, size: number): [number, number][] {
+  return [
+    [x, y - size],
+    [x + size, y],
+    [x, y + size],
+    [x - size, y],
+  ]
+}
+
+/**
+ * Draw the title, timeline header, rows rowStart to rowEnd (with the links
+ * between them) and the legend. Returns the height used.
+ */
+export function paintGantt(layout: GanttLayout, painter: GanttPainter, frame: GanttFrame): number {
+  const { labelWidth, dayWidth, rowHeight } = frame
+  const chartX = frame.x + labelWidth
+  const chartWidth = layout.days * dayWidth
+  const totalWidth = labelWidth + chartWidth
+  const xOf = (day: number) => chartX + day * dayWidth
+  let y = frame.y
+
+  // Title
+  if (getTitleHeight(layout, frame) > 0) {
+    if (layout.title) {
+      painter.text(frame.x, y + 9, layout.title, { size: 12, bold: true, color: COLORS.text })
+    }
+    if (frame.pageLabel) {
+      painter.text(frame.x + totalWidth, y + 9, frame.pageLabel, {
+        size: SMALL_FONT_SIZE,
+        color: COLORS.mutedText,
+        align: 'right',
+      })
+    }
+    y += TITLE_HEIGHT
+  }
+
+  // Timeline header, repeated on every page
+  const headerHeight = getHeaderHeight(layout)
+  painter.rect(frame.x, y, totalWidth, headerHeight, { fill: COLORS.header })
+  painter.text(frame.x + 6, y + headerHeight / 2, 'Task', { size: FONT_SIZE, bold: true, color: COLORS.mutedText })
+
+  const tickRows = layout.majorTicks.length > 0 ? [layout.majorTicks, layout.minorTicks] : [layout.minorTicks]
+  tickRows.forEach((ticks, rowIndex) => {
+    const rowY = y + rowIndex * HEADER_ROW_HEIGHT
+    const isMajor = tickRows.length === 2 && rowIndex === 0
+    ticks.forEach((tick) => {
+      const x = xOf(tick.startDay)
+      const width = (tick.endDay - tick.startDay) * dayWidth
+      painter.line(x, rowY, x, rowY + HEADER_ROW_HEIGHT, { stroke: COLORS.grid })
+      const style = { size: isMajor ? FONT_SIZE : SMALL_FONT_SIZE, bold: isMajor }
+      if (painter.textWidth(tick.label, style) <= width - 4) {
+        painter.text(isMajor ? x + 4 : x + width / 2, rowY + HEADER_ROW_HEIGHT / 2, tick.label, {
+          ...style,
+          color: isMajor ? COLORS.text : COLORS.mutedText,
+          align: isMajor ? 'left' : 'center',
+        })
+      }
+    })
+    if (rowIndex > 0) painter.line(chartX, rowY, chartX + chartWidth, rowY, { stroke: COLORS.grid })
+  })
+  y += headerHeight
+  painter.line(frame.x, y, frame.x + totalWidth, y, { stroke: COLORS.border })
+
+  // Grid
+  const rowsTop = y
+  const rowsHeight = (frame.rowEnd - frame.rowStart) * rowHeight
+  layout.nonWorkingDays.forEach((day) => {
+    painter.rect(xOf(day), rowsTop, dayWidth, rowsHeight, { fill: COLORS.nonWorking })
+  })
+  layout.minorTicks.forEach((tick) => {
+    if (tick.startDay > 0) {
+      painter.line(xOf(tick.startDay), rowsTop, xOf(tick.startDay), rowsTop + rowsHeight, { stroke: COLORS.grid })
+    }
+  })
+
+  // Rows
+  const rowCenter = (index: number) => rowsTop + (index - frame.rowStart) * rowHeight + rowHeight / 2
+  for (let index = frame.rowStart; index < frame.rowEnd; index++) {
+    const row = layout.rows[index]
+    const rowY = rowsTop + (index - frame.rowStart) * rowHeight
+    const centerY = rowCenter(index)
+
+    if (row.kind === 'group') {
+      painter.rect(frame.x, rowY, totalWidth, rowHeight, { fill: COLORS.group })
+      painter.text(frame.x + 6, centerY, fitText(painter, row.label, totalWidth - 12, { size: FONT_SIZE, bold: true }), {
+        size: FONT_SIZE,
+        bold: true,
+        color: COLORS.text,
+      })
+    } else {
+      const indent = 6 + row.depth * INDENT
+      const labelStyle = { size: FONT_SIZE, bold: row.isSummary }
+      painter.text(frame.x + indent, centerY, fitText(painter, row.task.name, labelWidth - indent - 6, labelStyle), {
+        ...labelStyle,
+        color: COLORS.text,
+      })
+
+      const x = xOf(row.startDay)
+      const width = Math.max((row.endDay - row.startDay) * dayWidth, 1)
+      const criticalStroke = row.isCritical ? { stroke: CRITICAL_COLOR, strokeWidth: 1.5 } : {}
+      let barEnd = x + width
+
+      if (row.isMilestone) {
+        const size = rowHeight * 0.28
+        painter.polygon(diamond(x, centerY, size), { fill: row.color, ...criticalStroke })
+        barEnd = x + size
+      } else if (row.isSummary) {
+        const height = rowHeight * 0.3
+        painter.rect(x, centerY - height / 2, width, height, { fill: COLORS.summary, ...criticalStroke })
+      } else {
+        const height = rowHeight * 0.6
+        const top = centerY - height / 2
+        const radius = Math.min(3, height / 2, width / 2)
+        painter.rect(x, top, width, height, { fill: lightenColor(row.color, 0.6), radius })
+        if (row.progress > 0) {
+          painter.rect(x, top, (width * row.progress) / 100, height, { fill: row.color, radius })
+        }
+        if (row.isCritical) {
+          painter.rect(x, top, width, height, { ...criticalStroke, radius })
+        }
+      }
+
+      if (row.resourceNames) {
+        painter.text(barEnd + 4, centerY, row.resourceNames, { size: SMALL_FONT_SIZE, color: COLORS.mutedText })
+      }
+    }
+
+    painter.line(frame.x, rowY + rowHeight, frame.x + totalWidth, rowY + rowHeight, { stroke: COLORS.grid })
+  }
+
+  // Dependency links between rows on this page
+  layout.links.forEach((link) => {
+    if (link.fromRow < frame.rowStart || link.fromRow >= frame.rowEnd) return
+    if (link.toRow < frame.rowStart || link.toRow >= frame.rowEnd) return
+
+    const x1 = xOf(link.fromDay)
+    const y1 = rowCenter(link.fromRow)
+    const x2 = xOf(link.toDay)
+    const y2 = rowCenter(link.toRow)
+    const exitX = x1 + (link.fromFinish ? LINK_STUB : -LINK_STUB)
+    const entryX = x2 + (link.toStart ? -LINK_STUB : LINK_STUB)
+    const direct = link.toStart ? exitX <= entryX : exitX >= entryX
+
+    let points: [number, number][]
+    if (direct) {
+      points = [[x1, y1], [exitX, y1], [exitX, y2], [x2, y2]]
+    } else {
+      // Go around: drop between the rows, then come in from the other side
+      const midY = y2 === y1 ? y1 + rowHeight / 2 : y2 - (Math.sign(y2 - y1) * rowHeight) / 2
+      points = [[x1, y1], [exitX, y1], [exitX, midY], [entryX, midY], [entryX, y2], [x2, y2]]
+    }
+
+    const color = link.isCritical ? CRITICAL_COLOR : COLORS.link
+    painter.polyline(points, { stroke: color, strokeWidth: 0.75 })
+    const tip = link.toStart ? -4 : 4
+    painter.polygon([[x2, y2], [x2 + tip, y2 - 2.5], [x2 + tip, y2 + 2.5]], { fill: color })
+  })
+
+  // Today marker
+  if (layout.today !== undefined) {
+    const x = xOf(layout.today)
+    painter.line(x, rowsTop, x, rowsTop + rowsHeight, { stroke: COLORS.today, strokeWidth: 1, dash: [3, 2] })
+  }
+
+  // Frame around the table and timeline
+  painter.line(chartX, frame.y + getTitleHeight(layout, frame), chartX, rowsTop + rowsHeight, { stroke: COLORS.border })
+  painter.rect(frame.x, frame.y + getTitleHeight(layout, frame), totalWidth, headerHeight + rowsHeight, {
+    stroke: COLORS.border,
+  })
+  y = rowsTop + rowsHeight
+
+  // Legend, repeated on every page
+  const legendHeight = getLegendHeight(layout, painter, totalWidth)
+  getLegendLines(layout, painter, totalWidth).forEach((line, lineIndex) => {
+    const lineY = y + 8 + lineIndex * LEGEND_LINE_HEIGHT + LEGEND_LINE_HEIGHT / 2
+    let x = frame.x
+    line.forEach((itemIndex) => {
+      const item = layout.legend[itemIndex]
+      if (item.shape === 'milestone') {
+        painter.polygon(diamond(x + 5, lineY, 4), { fill: item.color })
+      } else if (item.shape === 'critical') {
+        painter.rect(x, lineY - 4, 12, 8, { stroke: item.color, strokeWidth: 1.5, radius: 2 })
+      } else {
+        painter.rect(x, lineY - 4, 12, 8, { fill: item.color, radius: 2 })
+      }
+      painter.text(x + 16, lineY, item.label, { size: SMALL_FONT_SIZE, color: COLORS.text })
+      x += 16 + painter.textWidth(item.label, { size: SMALL_FONT_SIZE }) + LEGEND_GAP
+    })
+  })
+
+  return y + legendHeight - frame.y
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// Rounded to keep the markup small
+function n(value: number): string {
+  return String(Math.round(value * 100) / 100)
+}
+
+function svgStyle(style: ShapeStyle | LineStyle): string {
+  const fill = 'fill' in style ? style.fill : undefined
+  return [
+    `fill="${fill ?? 'none'}"`,
+    style.stroke ? `stroke="${style.stroke}" stroke-width="${n(style.strokeWidth ?? 0.5)}"` : '',
+    'dash' in style && style.dash ? `stroke-dasharray="${style.dash.join(' ')}"` : '',
+  ]
+    .filter(Boolean)
+    .join(' ')
+}
+
+/**
+ * Painter that collects SVG elements
+ * Text widths are estimated from the font size, as there is no layout engine.
+ */
+class SvgPainter implements GanttPainter {
+  readonly elements: string[] = []
+
+  rect(x: number, y: number, width: number, height: number, style: ShapeStyle & { radius?: number }) {
+    const radius = style.radius ? ` rx="${n(style.radius)}"` : ''
+    this.elements.push(
+      `<rect x="${n(x)}" y="${n(y)}" width="${n(width)}" height="${n(height)}"${radius} ${svgStyle(style)}/>`
+    )
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, style: LineStyle) {
+    this.elements.push(`<line x1="${n(x1)}" y1="${n(y1)}" x2="${n(x2)}" y2="${n(y2)}" ${svgStyle(style)}/>`)
+  }
+
+  polyline(points: [number, number][], style: LineStyle) {
+    const path = points.map(([x, y]) => `${n(x)},${n(y)}`).join(' ')
+    this.elements.push(`<polyline points="${path}" ${svgStyle(style)}/>`)
+  }
+
+  polygon(points: [number, number][], style: ShapeStyle) {
+    const path = points.map(([x, y]) => `${n(x)},${n(y)}`).join(' ')
+    this.elements.push(`<polygon points="${path}" ${svgStyle(style)}/>`)
+  }
+
+  text(x: number, y: number, text: string, style: TextStyle) {
+    const anchor = style.align === 'center' ? 'middle' : style.align === 'right' ? 'end' : 'start'
+    this.elements.push(
+      `<text x="${n(x)}" y="${n(y)}" font-size="${style.size}"${style.bold ? ' font-weight="bold"' : ''}` +
+        ` fill="${style.color ?? COLORS.text}" text-anchor="${anchor}" dominant-baseline="central">` +
+        `${escapeXml(text)}</text>`
+    )
+  }
+
+  textWidth(text: string, style: Pick<TextStyle, 'size' | 'bold'>) {
+    return text.length * style.size * (style.bold ? 0.6 : 0.55)
+  }
+}
+
+export interface GanttSvgOptions extends GanttRenderOptions {
+  rowHeight?: number
+  labelWidth?: number
+}
+
+/**
+ * Render the whole chart as a standalone SVG document
+ * The width follows the view's scale and zoom, the height the number of rows.
+ */
+export function renderGanttSvg(tasks: Task[], viewConfig: GanttViewConfig, options: GanttSvgOptions = {}): string {
+  const layout = layoutGantt(tasks, viewConfig, options)
+  const painter = new SvgPainter()
+  const margin = 16
+  const frame: GanttFrame = {
+    x: margin,
+    y: margin,
+    labelWidth: options.labelWidth ?? 240,
+    dayWidth: SVG_DAY_WIDTHS[viewConfig.scale] * viewConfig.zoom,
+    rowHeight: options.rowHeight ?? 28,
+    rowStart: 0,
+    rowEnd: layout.rows.length,
+  }
+
+  const height = paintGantt(layout, painter, frame) + margin * 2
+  const width = frame.labelWidth + layout.days * frame.dayWidth + margin * 2
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${n(width)}" height="${n(height)}" viewBox="0 0 ${n(width)} ${n(height)}"` +
+      ` font-family="Helvetica, Arial, sans-serif">`,
+    `<rect width="100%" height="100%" fill="#ffffff"/>`,
+    ...painter.elements,
+    '</svg>',
+  ].join('\n')
+}
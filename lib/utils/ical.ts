@@ -0,0 +1,123 @@
+import { Task } from '@/types/task'
+import { toDateKey } from './work-calendar'
+
+/**
+ * iCalendar (RFC 5545) feed of tasks
+ *
+ * Each task becomes an all-day VEVENT spanning its start to end date. The UID
+ * is derived from the task id and SEQUENCE from its version, so calendar
+ * clients replace an event when the task changes instead of adding a copy.
+ */
+
+export interface TaskCalendarOptions {
+  name: string
+  domain: string // Makes UIDs globally unique, e.g. the host serving the feed
+}
+
+const PRODUCT_ID = '-//shadcn-gantt-tool//Task Calendar//EN'
+const MAX_LINE_OCTETS = 75
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line
+
+  const parts: string[] = []
+  let current = ''
+  let size = 0
+  for (const char of line) {
+    const charSize = encoder.encode(char).length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+    if (size + charSize > limit) {
+      parts.push(current)
+      current = ''
+      size = 0
+    }
+    current += char
+    size += charSize
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+// SEQUENCE is a 32-bit integer. Versions read from a timestamp (Baserow
+// tables without a version field) are in milliseconds; counted in seconds
+// they still grow with every edit and fit until 2038.
+const MAX_SEQUENCE = 2147483647
+
+function getSequence(version = 1): number {
+  const sequence = version > MAX_SEQUENCE ? Math.floor(version / 1000) : version - 1
+  return Math.min(Math.max(sequence, 0), MAX_SEQUENCE)
+}
+
+function formatDate(date: Date): string {
+  return toDateKey(date).replace(/-/g, '')
+}
+
+function formatTimestamp(date: Date): string {
+  return new Date(date).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function getEventLines(task: Task, options: TaskCalendarOptions, now: Date): string[] {
+  const start = new Date(task.startAt)
+  // Tasks run until endAt, exclusive; DTEND of an all-day event is the first
+  // day no longer covered. Milestones and same-day tasks cover their start day.
+  const end = new Date(task.endAt)
+  end.setHours(0, 0, 0, 0)
+  if (end.getTime() < new Date(task.endAt).getTime()) end.setDate(end.getDate() + 1)
+  if (toDateKey(end) <= toDateKey(start)) {
+    end.setTime(start.getTime())
+    end.setDate(end.getDate() + 1)
+  }
+
+  const details = [
+    task.description,
+    task.owner && `Owner: ${task.owner}`,
+    task.status && `Status: ${task.status.name}`,
+    task.progress !== undefined && !task.isMilestone && `Progress: ${Math.round(task.progress)}%`,
+  ].filter(Boolean)
+  const categories = [task.isMilestone ? 'Milestone' : undefined, task.group, ...(task.tags || [])].filter(
+    (value): value is string => Boolean(value)
+  )
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:task-${escapeText(task.id)}@${options.domain}`,
+    `DTSTAMP:${formatTimestamp(now)}`,
+    `DTSTART;VALUE=DATE:${formatDate(start)}`,
+    `DTEND;VALUE=DATE:${formatDate(end)}`,
+    `SEQUENCE:${getSequence(task.version)}`,
+    ...(task.updatedAt ? [`LAST-MODIFIED:${formatTimestamp(task.updatedAt)}`] : []),
+    `SUMMARY:${escapeText(task.name)}`,
+    ...(details.length > 0 ? [`DESCRIPTION:${escapeText(details.join('\n'))}`] : []),
+    ...(categories.length > 0 ? [`CATEGORIES:${categories.map(escapeText).join(',')}`] : []),
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ]
+}
+
+/**
+ * Render tasks as an iCalendar document
+ */
+export function renderTaskCalendar(tasks: Task[], options: TaskCalendarOptions): string {
+  const now = new Date()
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    ...tasks.flatMap((task) => getEventLines(task, options, now)),
+    'END:VCALENDAR',
+  ]
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,467 @@
+import {
+  DependencyType,
+  Resource,
+  ResourceAllocation,
+  ResourceCalendarException,
+  Task,
+  TaskDependency,
+  WorkCalendar,
+} from '@/types/task'
+import { buildTaskTree } from './task-tree'
+import { countWorkingDays, DEFAULT_WORK_CALENDAR } from './work-calendar'
+
+/**
+ * Microsoft Project XML (MSPDI) import and export
+ *
+ * Covers tasks with their outline structure, predecessor links, work
+ * resources, assignments and the project calendar including per-resource
+ * exceptions. Costs, baselines and custom fields are not carried over.
+ */
+
+export interface MspdiProject {
+  name?: string
+  tasks: Task[] // Parents before their subtasks
+  dependencies: TaskDependency[] // Between tasks of the project
+  resources: Resource[]
+  allocations: ResourceAllocation[]
+  calendar: WorkCalendar
+}
+
+const MSPDI_NAMESPACE = 'http://schemas.microsoft.com/project'
+const PROJECT_CALENDAR_UID = 1
+const MINUTES_PER_DAY = 480 // MS Project's default 8-hour working day
+
+// PredecessorLink Type codes
+const LINK_TYPES: Record<number, DependencyType> = {
+  0: 'finish-to-finish',
+  1: 'finish-to-start',
+  2: 'start-to-finish',
+  3: 'start-to-start',
+}
+
+// Link lags are stored in tenths of a minute. LagFormat tells how the lag is
+// shown: elapsed formats count 24-hour days, percent formats a share of the
+// predecessor's duration (not supported, read as no lag).
+const LAG_FORMAT_DAYS = 7
+const ELAPSED_LAG_FORMATS = [4, 6, 8, 10, 12, 36, 38, 40, 42, 44]
+const PERCENT_LAG_FORMATS = [19, 20, 51, 52]
+
+// Longest exception range expanded into single days
+const MAX_EXCEPTION_DAYS = 366
+
+const WORKING_TIMES = [
+  ['08:00:00', '12:00:00'],
+  ['13:00:00', '17:00:00'],
+]
+
+type XmlValue = string | number | undefined
+type XmlNode = [name: string, content: XmlValue | XmlNode[]]
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+// Elements without content are left out
+function renderXml([name, content]: XmlNode, indent = ''): string {
+  if (Array.isArray(content)) {
+    const children = content.map((node) => renderXml(node, `${indent}  `)).filter(Boolean)
+    return children.length > 0 ? `${indent}<${name}>\n${children.join('\n')}\n${indent}</${name}>` : ''
+  }
+  if (content === undefined || content === '') return ''
+  return `${indent}<${name}>${escapeXml(String(content))}</${name}>`
+}
+
+// MSPDI dates are local times without a zone
+function formatDateTime(value: Date): string {
+  const date = new Date(value)
+  const pad = (part: number) => String(part).padStart(2, '0')
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+  )
+}
+
+function workingTimesNode(): XmlNode {
+  return [
+    'WorkingTimes',
+    WORKING_TIMES.map(([from, to]): XmlNode => ['WorkingTime', [['FromTime', from], ['ToTime', to]]]),
+  ]
+}
+
+function exceptionNode(date: string, isWorking: boolean, name?: string): XmlNode {
+  return [
+    'Exception',
+    [
+      ['EnteredByOccurrences', 0],
+      ['TimePeriod', [['FromDate', `${date}T00:00:00`], ['ToDate', `${date}T23:59:00`]]],
+      ['Occurrences', 1],
+      ['Name', name],
+      ['Type', 1],
+      ['DayWorking', isWorking ? 1 : 0],
+      ...(isWorking ? [workingTimesNode()] : []),
+    ],
+  ]
+}
+
+function getProjectCalendarNode(calendar: WorkCalendar): XmlNode {
+  return [
+    'Calendar',
+    [
+      ['UID', PROJECT_CALENDAR_UID],
+      ['Name', calendar.name],
+      ['IsBaseCalendar', 1],
+      [
+        'WeekDays',
+        [0, 1, 2, 3, 4, 5, 6].map((day): XmlNode => {
+          const isWorking = calendar.workingDays.includes(day)
+          return [
+            'WeekDay',
+            [['DayType', day + 1], ['DayWorking', isWorking ? 1 : 0], ...(isWorking ? [workingTimesNode()] : [])],
+          ]
+        }),
+      ],
+      ['Exceptions', calendar.holidays.map((holiday) => exceptionNode(holiday.date, false, holiday.name))],
+    ],
+  ]
+}
+
+// A resource's exceptions live in its own calendar based on the project calendar
+function getResourceCalendarNode(uid: number, resource: Resource, exceptions: ResourceCalendarException[]): XmlNode {
+  return [
+    'Calendar',
+    [
+      ['UID', uid],
+      ['Name', resource.name],
+      ['IsBaseCalendar', 0],
+      ['BaseCalendarUID', PROJECT_CALENDAR_UID],
+      ['Exceptions', exceptions.map((exception) => exceptionNode(exception.date, exception.isWorking, exception.name))],
+    ],
+  ]
+}
+
+/**
+ * Write a project as MSPDI XML, the format MS Project opens and saves as XML
+ * Tasks keep their outline structure and dates; the working days between
+ * start and end become the duration. Elements follow the order of the MSPDI
+ * schema, which MS Project expects.
+ */
+export function exportMspdi(project: MspdiProject): string {
+  const { calendar } = project
+  const nodes = buildTaskTree(project.tasks)
+  const taskUids = new Map(nodes.map((node, index) => [node.task.id, index + 1]))
+  const resourceUids = new Map(project.resources.map((resource, index) => [resource.id, index + 1]))
+
+  const resourceCalendarUids = new Map<string, number>()
+  project.resources.forEach((resource) => {
+    if (calendar.resourceExceptions.some((exception) => exception.resourceId === resource.id)) {
+      resourceCalendarUids.set(resource.id, PROJECT_CALENDAR_UID + resourceCalendarUids.size + 1)
+    }
+  })
+
+  const starts = project.tasks.map((task) => new Date(task.startAt).getTime())
+  const finishes = project.tasks.map((task) => new Date(task.endAt).getTime())
+
+  const taskNodes = nodes.map(({ task, depth, outline, hasChildren }, index): XmlNode => {
+    const days = countWorkingDays(new Date(task.startAt), new Date(task.endAt), calendar)
+    const predecessors = project.dependencies.filter(
+      (dependency) => dependency.successorId === task.id && taskUids.has(dependency.predecessorId)
+    )
+
+    return [
+      'Task',
+      [
+        ['UID', index + 1],
+        ['ID', index + 1],
+        ['Name', task.name],
+        ['Contact', task.owner],
+        ['OutlineNumber', outline],
+        ['OutlineLevel', depth + 1],
+        ['Start', formatDateTime(task.startAt)],
+        ['Finish', formatDateTime(task.endAt)],
+        ['Duration', `PT${days * (MINUTES_PER_DAY / 60)}H0M0S`],
+        ['DurationFormat', 7],
+        ['Milestone', task.isMilestone || days === 0 ? 1 : 0],
+        ['Summary', hasChildren ? 1 : 0],
+        ['PercentComplete', Math.round(task.progress ?? 0)],
+        // Start no earlier than the planned start, so MS Project keeps the dates
+        ['ConstraintType', hasChildren ? undefined : 4],
+        ['ConstraintDate', hasChildren ? undefined : formatDateTime(task.startAt)],
+        ['Notes', task.description],
+        ...predecessors.map((dependency): XmlNode => [
+          'PredecessorLink',
+          [
+            ['PredecessorUID', taskUids.get(dependency.predecessorId)],
+            ['Type', Object.entries(LINK_TYPES).find(([, type]) => type === dependency.type)?.[0] ?? 1],
+            ['LinkLag', Math.round((dependency.lag ?? 0) * MINUTES_PER_DAY * 10)],
+            ['LagFormat', LAG_FORMAT_DAYS],
+          ],
+        ]),
+      ],
+    ]
+  })
+
+  const resourceNodes = project.resources.map((resource, index): XmlNode => [
+    'Resource',
+    [
+      ['UID', index + 1],
+      ['ID', index + 1],
+      ['Name', resource.name],
+      ['Type', 1],
+      ['Group', resource.role],
+      ['EmailAddress', resource.email],
+      ['MaxUnits', ((resource.availability ?? 100) / 100).toFixed(2)],
+      ['CalendarUID', resourceCalendarUids.get(resource.id)],
+    ],
+  ])
+
+  const assignmentNodes = project.allocations
+    .filter((allocation) => taskUids.has(allocation.taskId) && resourceUids.has(allocation.resourceId))
+    .map((allocation, index): XmlNode => [
+      'Assignment',
+      [
+        ['UID', index + 1],
+        ['TaskUID', taskUids.get(allocation.taskId)],
+        ['ResourceUID', resourceUids.get(allocation.resourceId)],
+        ['Finish', allocation.endDate ? formatDateTime(allocation.endDate) : undefined],
+        ['Start', allocation.startDate ? formatDateTime(allocation.startDate) : undefined],
+        ['Units', (allocation.allocation / 100).toFixed(2)],
+      ],
+    ])
+
+  const calendarNodes = [
+    getProjectCalendarNode(calendar),
+    ...project.resources
+      .filter((resource) => resourceCalendarUids.has(resource.id))
+      .map((resource) =>
+        getResourceCalendarNode(
+          resourceCalendarUids.get(resource.id)!,
+          resource,
+          calendar.resourceExceptions.filter((exception) => exception.resourceId === resource.id)
+        )
+      ),
+  ]
+
+  const projectXml = renderXml([
+    'Project',
+    [
+      ['Name', project.name],
+      ['StartDate', starts.length > 0 ? formatDateTime(new Date(Math.min(...starts))) : undefined],
+      ['FinishDate', finishes.length > 0 ? formatDateTime(new Date(Math.max(...finishes))) : undefined],
+      ['CalendarUID', PROJECT_CALENDAR_UID],
+      ['MinutesPerDay', MINUTES_PER_DAY],
+      ['Calendars', calendarNodes],
+      ['Tasks', taskNodes],
+      ['Resources', resourceNodes],
+      ['Assignments', assignmentNodes],
+    ],
+  ])
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    projectXml.replace('<Project>', `<Project xmlns="${MSPDI_NAMESPACE}">`),
+  ].join('\n')
+}
+
+function getChildren(element: Element | undefined, name: string): Element[] {
+  return element ? Array.from(element.children).filter((child) => child.localName === name) : []
+}
+
+function getChild(element: Element | undefined, name: string): Element | undefined {
+  return getChildren(element, name)[0]
+}
+
+function getText(element: Element | undefined, name: string): string | undefined {
+  const value = getChild(element, name)?.textContent?.trim()
+  return value ? value : undefined
+}
+
+function getNumber(element: Element | undefined, name: string): number | undefined {
+  const value = getText(element, name)
+  return value !== undefined && !isNaN(Number(value)) ? Number(value) : undefined
+}
+
+function parseDateTime(value: string | undefined): Date | undefined {
+  const date = value ? new Date(value) : undefined
+  return date && !isNaN(date.getTime()) ? date : undefined
+}
+
+// Days an exception covers, as YYYY-MM-DD keys of its time periods
+function getExceptionDays(exception: Element): string[] {
+  const days: string[] = []
+  getChildren(exception, 'TimePeriod').forEach((period) => {
+    const from = getText(period, 'FromDate')?.slice(0, 10)
+    const to = getText(period, 'ToDate')?.slice(0, 10)
+    if (!from || !to) return
+
+    const current = new Date(`${from}T00:00:00Z`)
+    const end = new Date(`${to}T00:00:00Z`)
+    for (let i = 0; current <= end && i < MAX_EXCEPTION_DAYS; i++) {
+      days.push(current.toISOString().slice(0, 10))
+      current.setUTCDate(current.getUTCDate() + 1)
+    }
+  })
+  return days
+}
+
+interface ParsedException {
+  date: string
+  isWorking: boolean
+  name?: string
+}
+
+// Exceptions of a calendar, from both the Exceptions list (MS Project 2007
+// and later) and the exception WeekDays (DayType 0) older versions write
+function getCalendarExceptions(calendar: Element | undefined): ParsedException[] {
+  const entries = [
+    ...getChildren(getChild(calendar, 'Exceptions'), 'Exception'),
+    ...getChildren(getChild(calendar, 'WeekDays'), 'WeekDay').filter((day) => getNumber(day, 'DayType') === 0),
+  ]
+
+  return entries.flatMap((entry) => {
+    const isWorking = getNumber(entry, 'DayWorking') === 1
+    const name = getText(entry, 'Name')
+    return getExceptionDays(entry).map((date) => ({ date, isWorking, name }))
+  })
+}
+
+/**
+ * Read a project from MSPDI XML (File > Save As > XML in MS Project)
+ * Tasks, resources and assignments keep their MS Project UIDs as ids. Blank
+ * rows, the project summary task and non-work resources are left out.
+ */
+export function parseMspdi(xml: string): MspdiProject {
+  const document = new DOMParser().parseFromString(xml, 'application/xml')
+  const root = document.documentElement
+  if (document.getElementsByTagName('parsererror').length > 0 || root?.localName !== 'Project') {
+    throw new Error('The file is not a Microsoft Project XML file')
+  }
+
+  // Tasks, with parents found from outline levels
+  const tasks: Task[] = []
+  const links: { successorId: string; link: Element }[] = []
+  const outlineStack: (string | undefined)[] = []
+
+  getChildren(getChild(root, 'Tasks'), 'Task').forEach((element) => {
+    const uid = getText(element, 'UID')
+    const level = getNumber(element, 'OutlineLevel') ?? 1
+    const startAt = parseDateTime(getText(element, 'Start'))
+    const endAt = parseDateTime(getText(element, 'Finish'))
+    const name = getText(element, 'Name')
+    const isValid = uid !== undefined && level > 0 && getNumber(element, 'IsNull') !== 1 && startAt && endAt && name
+
+    outlineStack.length = Math.max(level - 1, 0)
+    const parentId = level > 1 ? outlineStack[level - 2] : undefined
+    outlineStack[level - 1] = isValid ? uid : undefined
+    if (!isValid) return
+
+    tasks.push({
+      id: uid,
+      name,
+      startAt,
+      endAt,
+      progress: getNumber(element, 'PercentComplete') ?? 0,
+      parentId,
+      owner: getText(element, 'Contact'),
+      description: getText(element, 'Notes'),
+      isMilestone: getNumber(element, 'Milestone') === 1,
+    })
+    getChildren(element, 'PredecessorLink').forEach((link) => links.push({ successorId: uid, link }))
+  })
+
+  const taskIds = new Set(tasks.map((task) => task.id))
+  const dependencies: TaskDependency[] = []
+  links.forEach(({ successorId, link }) => {
+    const predecessorId = getText(link, 'PredecessorUID')
+    if (!predecessorId || !taskIds.has(predecessorId) || predecessorId === successorId) return
+
+    const lagFormat = getNumber(link, 'LagFormat') ?? LAG_FORMAT_DAYS
+    const lagMinutes = (getNumber(link, 'LinkLag') ?? 0) / 10
+    const minutesPerDay = ELAPSED_LAG_FORMATS.includes(lagFormat) ? 24 * 60 : MINUTES_PER_DAY
+    const lag = PERCENT_LAG_FORMATS.includes(lagFormat) ? 0 : Math.round(lagMinutes / minutesPerDay)
+
+    dependencies.push({
+      id: `${predecessorId}-${successorId}`,
+      predecessorId,
+      successorId,
+      type: LINK_TYPES[getNumber(link, 'Type') ?? 1] ?? 'finish-to-start',
+      lag: lag || undefined,
+    })
+  })
+
+  // Work resources; material and cost resources have no place in the model
+  const calendars = getChildren(getChild(root, 'Calendars'), 'Calendar')
+  const findCalendar = (uid: string | undefined) => calendars.find((calendar) => getText(calendar, 'UID') === uid)
+  const resources: Resource[] = []
+  const resourceExceptions: ResourceCalendarException[] = []
+
+  getChildren(getChild(root, 'Resources'), 'Resource').forEach((element) => {
+    const uid = getText(element, 'UID')
+    const name = getText(element, 'Name')
+    const type = getNumber(element, 'Type') ?? 1
+    if (!uid || uid === '0' || !name || type !== 1 || getNumber(element, 'IsNull') === 1) return
+
+    const maxUnits = getNumber(element, 'MaxUnits')
+    resources.push({
+      id: uid,
+      name,
+      email: getText(element, 'EmailAddress'),
+      role: getText(element, 'Group'),
+      availability: maxUnits !== undefined ? Math.round(maxUnits * 100) : undefined,
+    })
+
+    getCalendarExceptions(findCalendar(getText(element, 'CalendarUID'))).forEach((exception) => {
+      resourceExceptions.push({ resourceId: uid, ...exception })
+    })
+  })
+
+  const resourceIds = new Set(resources.map((resource) => resource.id))
+  const allocations: ResourceAllocation[] = []
+  getChildren(getChild(root, 'Assignments'), 'Assignment').forEach((element) => {
+    const taskId = getText(element, 'TaskUID')
+    const resourceId = getText(element, 'ResourceUID')
+    if (!taskId || !resourceId || !taskIds.has(taskId) || !resourceIds.has(resourceId)) return
+    if (allocations.some((allocation) => allocation.taskId === taskId && allocation.resourceId === resourceId)) return
+
+    allocations.push({
+      id: `${taskId}-${resourceId}`,
+      taskId,
+      resourceId,
+      allocation: Math.round((getNumber(element, 'Units') ?? 1) * 100),
+    })
+  })
+
+  // The project calendar; weekdays it doesn't list keep the default
+  const projectCalendar =
+    findCalendar(getText(root, 'CalendarUID')) ??
+    calendars.find((calendar) => getNumber(calendar, 'IsBaseCalendar') === 1)
+  const weekDays = getChildren(getChild(projectCalendar, 'WeekDays'), 'WeekDay')
+  const workingDays = [0, 1, 2, 3, 4, 5, 6].filter((day) => {
+    const weekDay = weekDays.find((entry) => getNumber(entry, 'DayType') === day + 1)
+    return weekDay ? getNumber(weekDay, 'DayWorking') === 1 : DEFAULT_WORK_CALENDAR.workingDays.includes(day)
+  })
+
+  // Extra working days can only be kept per resource, so only days off become holidays
+  const holidays = getCalendarExceptions(projectCalendar)
+    .filter((exception) => !exception.isWorking)
+    .map(({ date, name }) => ({ date, name }))
+
+  return {
+    name: getText(root, 'Name') ?? getText(root, 'Title'),
+    tasks,
+    dependencies,
+    resources,
+    allocations,
+    calendar: {
+      id: DEFAULT_WORK_CALENDAR.id,
+      name: getText(projectCalendar, 'Name') ?? DEFAULT_WORK_CALENDAR.name,
+      workingDays,
+      holidays,
+      resourceExceptions,
+    },
+  }
+}
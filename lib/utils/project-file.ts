@@ -0,0 +1,594 @@
+import {
+  Baseline,
+  GanttViewConfig,
+  Resource,
+  ResourceAllocation,
+  Task,
+  TaskDependency,
+  TaskStatus,
+  ValidationError,
+  WorkCalendar,
+} from '@/types/task'
+import { reviveBaseline } from './baselines'
+import type { ImportedProject } from './project-import'
+
+/**
+ * Versioned JSON project file
+ *
+ * Holds everything needed to rebuild a project in any data source: statuses,
+ * tasks, dependencies, resources, allocations, the calendar, baselines and
+ * optionally the view settings. Tasks refer to their status by id and are
+ * linked through the top-level lists instead of embedding related records.
+ * Dates are ISO strings in the file and Date objects once parsed.
+ */
+
+export const PROJECT_FILE_FORMAT = 'gantt-project'
+export const PROJECT_FILE_VERSION = 1
+
+export interface ProjectFileTask {
+  id: string
+  name: string
+  startAt: Date
+  endAt: Date
+  statusId?: string
+  group?: string
+  owner?: string
+  description?: string
+  progress?: number
+  parentId?: string
+  priority?: Task['priority']
+  tags?: string[]
+  isMilestone?: boolean
+}
+
+export interface ProjectFile {
+  format: typeof PROJECT_FILE_FORMAT
+  version: number
+  exportedAt: Date
+  name?: string
+  statuses: TaskStatus[]
+  tasks: ProjectFileTask[]
+  dependencies: TaskDependency[]
+  resources: Resource[]
+  allocations: ResourceAllocation[]
+  calendar: WorkCalendar
+  baselines: Baseline[]
+  viewConfig?: GanttViewConfig
+}
+
+// Subset of JSON Schema understood by validateProjectFile
+interface JsonSchema {
+  $schema?: string
+  $id?: string
+  $ref?: string
+  $defs?: Record<string, JsonSchema>
+  title?: string
+  description?: string
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean'
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  items?: JsonSchema
+  enum?: (string | number)[]
+  const?: string | number
+  minimum?: number
+  maximum?: number
+  minLength?: number
+  pattern?: string
+}
+
+const ISO_DATE_TIME_PATTERN = '^\\d{4}-\\d{2}-\\d{2}([T ]\\d{2}:\\d{2}(:\\d{2}(\\.\\d+)?)?(Z|[+-]\\d{2}:?\\d{2})?)?$'
+const DATE_KEY_PATTERN = '^\\d{4}-\\d{2}-\\d{2}$'
+
+/**
+ * JSON Schema (draft 2020-12) of a project file, also served at /api/project/schema
+ */
+export const PROJECT_FILE_SCHEMA: JsonSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: 'https://gantt.local/schemas/gantt-project-v1.json',
+  title: 'Gantt project file',
+  type: 'object',
+  required: ['format', 'version', 'statuses', 'tasks', 'dependencies', 'resources', 'allocations', 'calendar', 'baselines'],
+  properties: {
+    format: { const: PROJECT_FILE_FORMAT },
+    version: { type: 'integer', minimum: 1, maximum: PROJECT_FILE_VERSION },
+    exportedAt: { $ref: '#/$defs/dateTime' },
+    name: { type: 'string' },
+    statuses: { type: 'array', items: { $ref: '#/$defs/status' } },
+    tasks: { type: 'array', items: { $ref: '#/$defs/task' } },
+    dependencies: { type: 'array', items: { $ref: '#/$defs/dependency' } },
+    resources: { type: 'array', items: { $ref: '#/$defs/resource' } },
+    allocations: { type: 'array', items: { $ref: '#/$defs/allocation' } },
+    calendar: { $ref: '#/$defs/calendar' },
+    baselines: { type: 'array', items: { $ref: '#/$defs/baseline' } },
+    viewConfig: { $ref: '#/$defs/viewConfig' },
+  },
+  $defs: {
+    id: { type: 'string', minLength: 1 },
+    dateTime: { type: 'string', pattern: ISO_DATE_TIME_PATTERN, description: 'ISO 8601 date or date-time' },
+    dateKey: { type: 'string', pattern: DATE_KEY_PATTERN, description: 'YYYY-MM-DD' },
+    color: { type: 'string', description: 'CSS color, e.g. #3b82f6' },
+    percent: { type: 'number', minimum: 0, maximum: 100 },
+    status: {
+      type: 'object',
+      required: ['id', 'name'],
+      properties: {
+        id: { $ref: '#/$defs/id' },
+        name: { type: 'string', minLength: 1 },
+        color: { $ref: '#/$defs/color' },
+      },
+    },
+    task: {
+      type: 'object',
+      required: ['id', 'name', 'startAt', 'endAt'],
+      properties: {
+        id: { $ref: '#/$defs/id' },
+        name: { type: 'string', minLength: 1 },
+        startAt: { $ref: '#/$defs/dateTime' },
+        endAt: { $ref: '#/$defs/dateTime' },
+        statusId: { $ref: '#/$defs/id' },
+        group: { type: 'string' },
+        owner: { type: 'string' },
+        description: { type: 'string' },
+        progress: { $ref: '#/$defs/percent' },
+        parentId: { $ref: '#/$defs/id' },
+        priority: { enum: ['low', 'medium', 'high', 'critical'] },
+        tags: { type: 'array', items: { type: 'string' } },
+        isMilestone: { type: 'boolean' },
+      },
+    },
+    dependency: {
+      type: 'object',
+      required: ['id', 'predecessorId', 'successorId', 'type'],
+      properties: {
+        id: { $ref: '#/$defs/id' },
+        predecessorId: { $ref: '#/$defs/id' },
+        successorId: { $ref: '#/$defs/id' },
+        type: { enum: ['finish-to-start', 'start-to-start', 'finish-to-finish', 'start-to-finish'] },
+        lag: { type: 'number' },
+      },
+    },
+    resource: {
+      type: 'object',
+      required: ['id', 'name'],
+      properties: {
+        id: { $ref: '#/$defs/id' },
+        name: { type: 'string', minLength: 1 },
+        email: { type: 'string' },
+        role: { type: 'string' },
+        avatar: { type: 'string' },
+        availability: { $ref: '#/$defs/percent' },
+        color: { $ref: '#/$defs/color' },
+      },
+    },
+    allocation: {
+      type: 'object',
+      required: ['id', 'taskId', 'resourceId', 'allocation'],
+      properties: {
+        id: { $ref: '#/$defs/id' },
+        taskId: { $ref: '#/$defs/id' },
+        resourceId: { $ref: '#/$defs/id' },
+        allocation: { $ref: '#/$defs/percent' },
+        startDate: { $ref: '#/$defs/dateTime' },
+        endDate: { $ref: '#/$defs/dateTime' },
+      },
+    },
+    calendar: {
+      type: 'object',
+      required: ['id', 'name', 'workingDays', 'holidays', 'resourceExceptions'],
+      properties: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+        workingDays: { type: 'array', items: { type: 'integer', minimum: 0, maximum: 6 } },
+        holidays: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['date'],
+            properties: { date: { $ref: '#/$defs/dateKey' }, name: { type: 'string' } },
+          },
+        },
+        resourceExceptions: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['resourceId', 'date', 'isWorking'],
+            properties: {
+              resourceId: { $ref: '#/$defs/id' },
+              date: { $ref: '#/$defs/dateKey' },
+              isWorking: { type: 'boolean' },
+              name: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    baseline: {
+      type: 'object',
+      required: ['id', 'name', 'createdAt', 'tasks'],
+      properties: {
+        id: { $ref: '#/$defs/id' },
+        name: { type: 'string' },
+        createdAt: { $ref: '#/$defs/dateTime' },
+        tasks: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['taskId', 'startAt', 'endAt'],
+            properties: {
+              taskId: { $ref: '#/$defs/id' },
+              startAt: { $ref: '#/$defs/dateTime' },
+              endAt: { $ref: '#/$defs/dateTime' },
+              progress: { $ref: '#/$defs/percent' },
+            },
+          },
+        },
+      },
+    },
+    viewConfig: {
+      type: 'object',
+      required: ['scale', 'zoom', 'showWeekends', 'showDependencies', 'showCriticalPath', 'showMilestones', 'showResources'],
+      properties: {
+        scale: { enum: ['day', 'week', 'month', 'quarter', 'year'] },
+        zoom: { type: 'number', minimum: 0.5, maximum: 2 },
+        showWeekends: { type: 'boolean' },
+        showDependencies: { type: 'boolean' },
+        showCriticalPath: { type: 'boolean' },
+        showMilestones: { type: 'boolean' },
+        showResources: { type: 'boolean' },
+        groupBy: { enum: ['status', 'owner', 'group', 'priority'] },
+        colorBy: { enum: ['status', 'owner', 'priority', 'progress'] },
+      },
+    },
+  },
+}
+
+type PathSegment = string | number
+
+// Errors are reported per entry of the top-level list they are in:
+// tasks[2].startAt becomes row 3, field "tasks.startAt"
+function toValidationError(path: PathSegment[], error: string, value?: unknown): ValidationError {
+  const rowIndex = path.findIndex((segment) => typeof segment === 'number')
+  const field = path
+    .filter((_, index) => index !== rowIndex)
+    .reduce<string>((result, segment) => {
+      if (typeof segment === 'number') return `${result}[${segment}]`
+      return result ? `${result}.${segment}` : segment
+    }, '')
+  return {
+    row: rowIndex === -1 ? 0 : (path[rowIndex] as number) + 1,
+    field: field || 'file',
+    error,
+    value,
+  }
+}
+
+function resolveRef(ref: string): JsonSchema {
+  const name = ref.replace('#/$defs/', '')
+  const schema = PROJECT_FILE_SCHEMA.$defs?.[name]
+  if (!schema) throw new Error(`Unknown schema reference ${ref}`)
+  return schema
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value)
+    case 'array':
+      return Array.isArray(value)
+    case 'integer':
+      return Number.isInteger(value)
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+    default:
+      return typeof value === type
+  }
+}
+
+function validateAgainstSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path: PathSegment[],
+  errors: ValidationError[]
+): void {
+  if (schema.$ref) {
+    validateAgainstSchema(value, resolveRef(schema.$ref), path, errors)
+    return
+  }
+
+  if (schema.const !== undefined && value !== schema.const) {
+    errors.push(toValidationError(path, `Must be ${JSON.stringify(schema.const)}`, value))
+    return
+  }
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push(toValidationError(path, `Must be one of ${schema.enum.join(', ')}`, value))
+    return
+  }
+  if (schema.type && !matchesType(value, schema.type)) {
+    errors.push(toValidationError(path, `Must be ${schema.type === 'array' || schema.type === 'object' ? 'an' : 'a'} ${schema.type}`, value))
+    return
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(toValidationError(path, `Must be at least ${schema.minimum}`, value))
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(toValidationError(path, `Must be at most ${schema.maximum}`, value))
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(toValidationError(path, schema.minLength === 1 ? 'Must not be empty' : `Must have at least ${schema.minLength} characters`, value))
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push(toValidationError(path, schema.description ? `Must be ${schema.description}` : 'Has an invalid format', value))
+    } else if (schema.pattern && Number.isNaN(new Date(value).getTime())) {
+      errors.push(toValidationError(path, 'Is not a valid date', value))
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => validateAgainstSchema(item, schema.items!, [...path, index], errors))
+  }
+
+  if (matchesType(value, 'object') && schema.type === 'object') {
+    const record = value as Record<string, unknown>
+    for (const key of schema.required || []) {
+      if (record[key] === undefined || record[key] === null) {
+        errors.push(toValidationError([...path, key], 'Is required'))
+      }
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (record[key] !== undefined && record[key] !== null) {
+        validateAgainstSchema(record[key], propertySchema, [...path, key], errors)
+      }
+    }
+  }
+}
+
+function checkUniqueIds(items: { id: string }[], list: string, errors: ValidationError[]): void {
+  const seen = new Set<string>()
+  items.forEach((item, index) => {
+    if (seen.has(item.id)) {
+      errors.push(toValidationError([list, index, 'id'], 'Duplicate id', item.id))
+    }
+    seen.add(item.id)
+  })
+}
+
+// Checks that need the whole file: unique ids, references between lists and date order
+function validateReferences(file: Omit<ProjectFile, 'exportedAt'>, errors: ValidationError[]): void {
+  checkUniqueIds(file.statuses, 'statuses', errors)
+  checkUniqueIds(file.tasks, 'tasks', errors)
+  checkUniqueIds(file.dependencies, 'dependencies', errors)
+  checkUniqueIds(file.resources, 'resources', errors)
+  checkUniqueIds(file.allocations, 'allocations', errors)
+  checkUniqueIds(file.baselines, 'baselines', errors)
+
+  const statusIds = new Set(file.statuses.map((status) => status.id))
+  const taskIds = new Set(file.tasks.map((task) => task.id))
+  const resourceIds = new Set(file.resources.map((resource) => resource.id))
+  const statusNames = new Set<string>()
+
+  file.statuses.forEach((status, index) => {
+    const key = status.name.trim().toLowerCase()
+    if (statusNames.has(key)) {
+      errors.push(toValidationError(['statuses', index, 'name'], 'Duplicate status name', status.name))
+    }
+    statusNames.add(key)
+  })
+
+  file.tasks.forEach((task, index) => {
+    if (task.statusId && !statusIds.has(task.statusId)) {
+      errors.push(toValidationError(['tasks', index, 'statusId'], 'Unknown status', task.statusId))
+    }
+    if (task.parentId && (task.parentId === task.id || !taskIds.has(task.parentId))) {
+      errors.push(toValidationError(['tasks', index, 'parentId'], 'Unknown parent task', task.parentId))
+    }
+    if (new Date(task.endAt) < new Date(task.startAt)) {
+      errors.push(toValidationError(['tasks', index, 'endAt'], 'Must not be before startAt', task.endAt))
+    }
+  })
+
+  file.dependencies.forEach((dependency, index) => {
+    for (const field of ['predecessorId', 'successorId'] as const) {
+      if (!taskIds.has(dependency[field])) {
+        errors.push(toValidationError(['dependencies', index, field], 'Unknown task', dependency[field]))
+      }
+    }
+    if (dependency.predecessorId === dependency.successorId) {
+      errors.push(toValidationError(['dependencies', index, 'successorId'], 'A task cannot depend on itself', dependency.successorId))
+    }
+  })
+
+  file.allocations.forEach((allocation, index) => {
+    if (!taskIds.has(allocation.taskId)) {
+      errors.push(toValidationError(['allocations', index, 'taskId'], 'Unknown task', allocation.taskId))
+    }
+    if (!resourceIds.has(allocation.resourceId)) {
+      errors.push(toValidationError(['allocations', index, 'resourceId'], 'Unknown resource', allocation.resourceId))
+    }
+  })
+
+  file.calendar.resourceExceptions.forEach((exception, index) => {
+    if (!resourceIds.has(exception.resourceId)) {
+      errors.push(
+        toValidationError(['calendar', 'resourceExceptions', index, 'resourceId'], 'Unknown resource', exception.resourceId)
+      )
+    }
+  })
+
+  file.baselines.forEach((baseline, index) => {
+    baseline.tasks.forEach((entry, taskIndex) => {
+      if (!taskIds.has(entry.taskId)) {
+        errors.push(toValidationError(['baselines', index, 'tasks', taskIndex, 'taskId'], 'Unknown task', entry.taskId))
+      }
+    })
+  })
+}
+
+/**
+ * Check parsed JSON against the project file schema and the references
+ * between its lists. Returns an empty list when the file is valid.
+ */
+export function validateProjectFile(value: unknown): ValidationError[] {
+  const errors: ValidationError[] = []
+
+  if (matchesType(value, 'object')) {
+    const version = (value as Record<string, unknown>).version
+    if (typeof version === 'number' && version > PROJECT_FILE_VERSION) {
+      return [
+        toValidationError(
+          ['version'],
+          `Written by a newer version of the app (file version ${version}, supported up to ${PROJECT_FILE_VERSION})`,
+          version
+        ),
+      ]
+    }
+  }
+
+  validateAgainstSchema(value, PROJECT_FILE_SCHEMA, [], errors)
+  if (errors.length === 0) {
+    validateReferences(value as ProjectFile, errors)
+  }
+  return errors
+}
+
+export class ProjectFileError extends Error {
+  constructor(readonly errors: ValidationError[]) {
+    super(
+      `Invalid project file: ${errors
+        .slice(0, 3)
+        .map((error) => `${error.field}${error.row ? ` (row ${error.row})` : ''} ${error.error.toLowerCase()}`)
+        .join('; ')}${errors.length > 3 ? ` and ${errors.length - 3} more` : ''}`
+    )
+    this.name = 'ProjectFileError'
+  }
+}
+
+/**
+ * Validate parsed JSON and turn it into a project file with Date fields
+ * Throws a ProjectFileError listing the problems when it is invalid.
+ */
+export function parseProjectFile(value: unknown): ProjectFile {
+  const errors = validateProjectFile(value)
+  if (errors.length > 0) {
+    throw new ProjectFileError(errors)
+  }
+
+  const file = value as ProjectFile
+  return {
+    ...file,
+    exportedAt: file.exportedAt ? new Date(file.exportedAt) : new Date(),
+    tasks: file.tasks.map((task) => ({ ...task, startAt: new Date(task.startAt), endAt: new Date(task.endAt) })),
+    allocations: file.allocations.map((allocation) => ({
+      ...allocation,
+      startDate: allocation.startDate ? new Date(allocation.startDate) : undefined,
+      endDate: allocation.endDate ? new Date(allocation.endDate) : undefined,
+    })),
+    baselines: file.baselines.map(reviveBaseline),
+  }
+}
+
+/**
+ * Build a project file from the current data
+ *
+ * Parents are written before their subtasks. Dependencies, allocations,
+ * calendar exceptions and baseline entries that refer to tasks or resources
+ * that are not included are left out.
+ */
+export function createProjectFile(data: {
+  name?: string
+  statuses: TaskStatus[]
+  tasks: Task[]
+  dependencies: TaskDependency[]
+  resources: Resource[]
+  allocations: ResourceAllocation[]
+  calendar: WorkCalendar
+  baselines?: Baseline[]
+  viewConfig?: GanttViewConfig
+}): ProjectFile {
+  const taskIds = new Set(data.tasks.map((task) => task.id))
+  const resourceIds = new Set(data.resources.map((resource) => resource.id))
+  const statuses = [...data.statuses]
+  for (const task of data.tasks) {
+    if (task.status && !statuses.some((status) => status.id === task.status!.id)) {
+      statuses.push(task.status)
+    }
+  }
+
+  const depth = (task: Task): number => {
+    let level = 0
+    let parentId = task.parentId
+    const seen = new Set<string>()
+    while (parentId && taskIds.has(parentId) && !seen.has(parentId)) {
+      seen.add(parentId)
+      level++
+      parentId = data.tasks.find((entry) => entry.id === parentId)?.parentId
+    }
+    return level
+  }
+  const ordered = data.tasks
+    .map((task, index) => ({ task, index, depth: depth(task) }))
+    .sort((a, b) => a.depth - b.depth || a.index - b.index)
+    .map((entry) => entry.task)
+
+  return {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    exportedAt: new Date(),
+    name: data.name,
+    statuses: statuses.map((status) => ({ id: status.id, name: status.name, color: status.color })),
+    tasks: ordered.map((task) => ({
+      id: task.id,
+      name: task.name,
+      startAt: new Date(task.startAt),
+      endAt: new Date(task.endAt),
+      statusId: task.status?.id,
+      group: task.group,
+      owner: task.owner,
+      description: task.description,
+      progress: task.progress,
+      parentId: task.parentId && taskIds.has(task.parentId) ? task.parentId : undefined,
+      priority: task.priority,
+      tags: task.tags,
+      isMilestone: task.isMilestone,
+    })),
+    dependencies: data.dependencies.filter(
+      (dependency) => taskIds.has(dependency.predecessorId) && taskIds.has(dependency.successorId)
+    ),
+    resources: data.resources,
+    allocations: data.allocations.filter(
+      (allocation) => taskIds.has(allocation.taskId) && resourceIds.has(allocation.resourceId)
+    ),
+    calendar: {
+      ...data.calendar,
+      resourceExceptions: data.calendar.resourceExceptions.filter((exception) => resourceIds.has(exception.resourceId)),
+    },
+    baselines: (data.baselines || []).map((baseline) => ({
+      ...baseline,
+      tasks: baseline.tasks.filter((entry) => taskIds.has(entry.taskId)),
+    })),
+    viewConfig: data.viewConfig,
+  }
+}
+
+/**
+ * The project of a file in the shape importProject takes
+ */
+export function toImportedProject(file: ProjectFile): ImportedProject {
+  const statuses = new Map(file.statuses.map((status) => [status.id, status]))
+  return {
+    name: file.name,
+    statuses: file.statuses,
+    tasks: file.tasks.map(({ statusId, ...task }) => ({
+      ...task,
+      status: statusId ? statuses.get(statusId) : undefined,
+    })),
+    dependencies: file.dependencies,
+    resources: file.resources,
+    allocations: file.allocations,
+    calendar: file.calendar,
+  }
+}
@@ -0,0 +1,211 @@
+import {
+  CreateResourceDTO,
+  CreateStatusDTO,
+  Resource,
+  Task,
+  TaskBatchOperation,
+  TaskBatchResult,
+  TaskStatus,
+  WorkCalendar,
+} from '@/types/task'
+import { applyTaskBatchInChunks } from '@/lib/providers/batch'
+import { toHexColor } from '@/lib/providers/statuses'
+import type { MspdiProject } from './mspdi'
+
+/**
+ * Project read from a file; tasks refer to the statuses by id
+ */
+export interface ImportedProject extends MspdiProject {
+  statuses?: TaskStatus[]
+}
+
+/**
+ * Provider calls a project import is written through
+ */
+export interface ProjectImportTarget {
+  applyTaskBatch: (operations: TaskBatchOperation[]) => Promise<TaskBatchResult[]>
+  createResource: (data: CreateResourceDTO) => Promise<Resource>
+  deleteResource: (id: string) => Promise<void>
+  saveWorkCalendar: (calendar: WorkCalendar) => Promise<WorkCalendar>
+  createStatus?: (data: CreateStatusDTO) => Promise<TaskStatus> // Without it, unknown statuses fall back to the default
+  maxBatchSize?: number // Split task batches into batches of this size, e.g. MAX_BATCH_OPERATIONS for /api/tasks/batch
+}
+
+export interface ProjectImportResult {
+  tasks: Task[]
+  createdResources: Resource[]
+  createdStatuses: TaskStatus[]
+  taskIds: Map<string, string> // Imported task id -> id in the data source
+  calendar: WorkCalendar
+}
+
+function uniqueBy<T>(items: T[], getKey: (item: T) => string): T[] {
+  const seen = new Set<string>()
+  return items.filter((item) => {
+    const key = getKey(item)
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+/**
+ * Add the imported calendar to the current one: its working week replaces
+ * the current week, holidays and resource exceptions are added
+ */
+export function mergeWorkCalendars(current: WorkCalendar, imported: WorkCalendar): WorkCalendar {
+  return {
+    ...current,
+    workingDays: imported.workingDays,
+    holidays: uniqueBy([...current.holidays, ...imported.holidays], (holiday) => holiday.date).sort((a, b) =>
+      a.date.localeCompare(b.date)
+    ),
+    resourceExceptions: uniqueBy(
+      [...imported.resourceExceptions, ...current.resourceExceptions],
+      (exception) => `${exception.resourceId}:${exception.date}`
+    ),
+  }
+}
+
+/**
+ * Import a project (e.g. read from an MS Project or project file) into the data source
+ *
+ * Statuses and resources are matched to existing ones by name and created
+ * otherwise. Created statuses are kept when the import fails, since data
+ * sources cannot delete statuses.
+ * Tasks are created in one batch, then linked to their parents, predecessors
+ * and resources in a second one, since their ids are only known once created.
+ * With a maxBatchSize, longer batches are split (see applyTaskBatchInChunks).
+ * The calendar is merged in last. When any step fails, the tasks and
+ * resources created so far are deleted again and the error is rethrown.
+ */
+export async function importProject(
+  project: ImportedProject,
+  current: { resources: Resource[]; calendar: WorkCalendar; statuses?: TaskStatus[]; statusId?: string },
+  target: ProjectImportTarget
+): Promise<ProjectImportResult> {
+  const statusIds = new Map<string, string>()
+  const createdStatuses: TaskStatus[] = []
+  const resourceIds = new Map<string, string>()
+  const createdResources: Resource[] = []
+  const taskIds = new Map<string, string>()
+  const applyTaskBatch = (operations: TaskBatchOperation[]) =>
+    target.maxBatchSize
+      ? applyTaskBatchInChunks(target.applyTaskBatch, operations, target.maxBatchSize)
+      : target.applyTaskBatch(operations)
+
+  try {
+    for (const status of project.statuses || []) {
+      const existing = [...(current.statuses || []), ...createdStatuses].find(
+        (entry) => entry.name.trim().toLowerCase() === status.name.trim().toLowerCase()
+      )
+      if (existing) {
+        statusIds.set(status.id, existing.id)
+      } else if (target.createStatus) {
+        const created = await target.createStatus({
+          name: status.name,
+          // The other data sources store hex colors, so Baserow's named ones are converted
+          color: toHexColor(status.color),
+        })
+        createdStatuses.push(created)
+        statusIds.set(status.id, created.id)
+      }
+    }
+
+    for (const resource of project.resources) {
+      const existing = current.resources.find(
+        (entry) => entry.name.trim().toLowerCase() === resource.name.trim().toLowerCase()
+      )
+      if (existing) {
+        resourceIds.set(resource.id, existing.id)
+        continue
+      }
+
+      const created = await target.createResource({
+        name: resource.name,
+        email: resource.email,
+        role: resource.role,
+        avatar: resource.avatar,
+        availability: resource.availability,
+        color: resource.color,
+      })
+      createdResources.push(created)
+      resourceIds.set(resource.id, created.id)
+    }
+
+    const created = await applyTaskBatch(
+      project.tasks.map((task) => ({
+        type: 'create',
+        data: {
+          name: task.name,
+          startAt: task.startAt,
+          endAt: task.endAt,
+          statusId: (task.status && statusIds.get(task.status.id)) || current.statusId,
+          group: task.group,
+          owner: task.owner,
+          description: task.description,
+          progress: task.progress,
+          priority: task.priority,
+          tags: task.tags,
+          isMilestone: task.isMilestone,
+        },
+      }))
+    )
+    project.tasks.forEach((task, index) => taskIds.set(task.id, created[index].id!))
+
+    const links: TaskBatchOperation[] = project.tasks.flatMap((task): TaskBatchOperation[] => {
+      const dependencies = project.dependencies
+        .filter((dependency) => dependency.successorId === task.id && taskIds.has(dependency.predecessorId))
+        .map((dependency) => ({
+          predecessorId: taskIds.get(dependency.predecessorId)!,
+          type: dependency.type,
+          lag: dependency.lag,
+        }))
+      const assignments = project.allocations
+        .filter((allocation) => allocation.taskId === task.id && resourceIds.has(allocation.resourceId))
+        .map((allocation) => ({ resourceId: resourceIds.get(allocation.resourceId)!, allocation: allocation.allocation }))
+      const parentId = task.parentId ? taskIds.get(task.parentId) : undefined
+
+      if (!parentId && dependencies.length === 0 && assignments.length === 0) return []
+      return [
+        {
+          type: 'update',
+          id: taskIds.get(task.id)!,
+          data: {
+            parentId,
+            dependencies: dependencies.length > 0 ? dependencies : undefined,
+            assignments: assignments.length > 0 ? assignments : undefined,
+          },
+        },
+      ]
+    })
+
+    const savedById = new Map(created.map((result) => [result.id!, result.task!]))
+    if (links.length > 0) {
+      for (const result of await applyTaskBatch(links)) {
+        savedById.set(result.id!, result.task!)
+      }
+    }
+
+    const resourceExceptions = project.calendar.resourceExceptions
+      .filter((exception) => resourceIds.has(exception.resourceId))
+      .map((exception) => ({ ...exception, resourceId: resourceIds.get(exception.resourceId)! }))
+    const calendar = await target.saveWorkCalendar(
+      mergeWorkCalendars(current.calendar, { ...project.calendar, resourceExceptions })
+    )
+
+    return { tasks: [...savedById.values()], createdResources, createdStatuses, taskIds, calendar }
+  } catch (error) {
+    try {
+      if (taskIds.size > 0) {
+        await applyTaskBatch([...taskIds.values()].map((id) => ({ type: 'delete', id })))
+      }
+      for (const resource of createdResources) {
+        await target.deleteResource(resource.id)
+      }
+    } catch (cleanupError) {
+      console.error('Failed to remove partly imported project:', cleanupError)
+    }
+    throw error
+  }
+}
@@ -0,0 +1,58 @@
+import { ProjectSummary, Task } from '@/types/task'
+import { rollupSummaryTasks } from './task-tree'
+
+/**
+ * Project scoping of the API
+ *
+ * Every route under /api is also served for a project at
+ * /api/projects/[projectId]/..., e.g. /api/projects/p1/tasks. The middleware
+ * rewrites those requests to the plain route and passes the project id in
+ * PROJECT_HEADER, which selects the project's data provider.
+ */
+
+export const PROJECT_HEADER = 'x-gantt-project'
+
+/**
+ * URL of an API route for a project, or of the default project with null
+ * `path` starts with a slash, e.g. "/tasks?all=true"
+ */
+export function projectApiPath(projectId: string | null | undefined, path: string): string {
+  return projectId ? `/api/projects/${encodeURIComponent(projectId)}${path}` : `/api${path}`
+}
+
+/**
+ * Overall span and progress of a project
+ *
+ * Progress is the average of the top-level tasks weighted by duration, after
+ * summary tasks are rolled up, so subtasks are not counted twice.
+ */
+export function summarizeProject(
+  tasks: Pick<Task, 'id' | 'startAt' | 'endAt' | 'progress' | 'parentId'>[]
+): ProjectSummary {
+  const ids = new Set(tasks.map((task) => task.id))
+  let start = Infinity
+  let end = -Infinity
+  let weightedProgress = 0
+  let totalWeight = 0
+
+  rollupSummaryTasks(tasks).forEach((task) => {
+    if (task.parentId && ids.has(task.parentId)) return
+    const taskStart = new Date(task.startAt).getTime()
+    const taskEnd = new Date(task.endAt).getTime()
+    start = Math.min(start, taskStart)
+    end = Math.max(end, taskEnd)
+
+    // Milestones still count, with a minimal weight
+    const weight = Math.max(taskEnd - taskStart, 1)
+    weightedProgress += (task.progress || 0) * weight
+    totalWeight += weight
+  })
+
+  return {
+    taskCount: tasks.length,
+    completedCount: tasks.filter((task) => (task.progress || 0) >= 100).length,
+    startAt: totalWeight > 0 ? new Date(start) : undefined,
+    endAt: totalWeight > 0 ? new Date(end) : undefined,
+    progress: totalWeight > 0 ? Math.round(weightedProgress / totalWeight) : 0,
+  }
+}
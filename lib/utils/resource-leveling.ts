@@ -0,0 +1,187 @@
+import { Resource, ResourceAllocation, Task, TaskDependency, WorkCalendar } from '@/types/task'
+import { calculateCriticalPath } from './critical-path'
+import { getAvailability } from './resource-load'
+import { propagateTaskMove, ScheduleChange } from './scheduling'
+import { addWorkingDays, isWorkingDay, shiftTaskDates, toDateKey } from './work-calendar'
+
+// Higher ranks are placed first; unset priority counts as medium
+const PRIORITY_RANK: Record<NonNullable<Task['priority']>, number> = {
+  critical: 3,
+  high: 2,
+  medium: 1,
+  low: 0,
+}
+
+export interface LevelingResult {
+  changes: ScheduleChange[] // isSource marks tasks delayed by leveling, the rest are pushed successors
+  unresolvedTaskIds: string[] // Tasks on a day a resource is still over-allocated in the proposed plan
+}
+
+type DailyLoad = Map<string, Map<string, number>> // resourceId -> date key -> load
+
+/**
+ * Date keys of the working days a task bar overlaps
+ */
+function getWorkingDayKeys(startAt: Date, endAt: Date, calendar: WorkCalendar, resourceId: string): string[] {
+  const keys: string[] = []
+  const current = new Date(startAt)
+  current.setHours(0, 0, 0, 0)
+
+  for (; current < endAt; current.setDate(current.getDate() + 1)) {
+    if (isWorkingDay(current, calendar, resourceId)) keys.push(toDateKey(current))
+  }
+
+  return keys
+}
+
+/**
+ * Propose task delays that bring every resource back within its availability
+ *
+ * Tasks are placed by priority (then least slack first), each at the earliest
+ * shift within its slack from calculateCriticalPath where all of its resources
+ * still fit. Successors pushed by a delay are included so dependencies stay
+ * valid, but they are not leveled again; the load is recomputed at the final
+ * dates, so a pushed task that no longer fits is reported as unresolved.
+ * Nothing is persisted.
+ */
+export function levelResources(
+  tasks: Task[],
+  dependencies: TaskDependency[],
+  resources: Resource[],
+  allocations: ResourceAllocation[],
+  calendar: WorkCalendar
+): LevelingResult {
+  const leafTasks = tasks.filter((task) => !task.isSummary)
+  const resourceById = new Map(resources.map((resource) => [resource.id, resource]))
+
+  const slackById = new Map(
+    calculateCriticalPath(leafTasks, dependencies, calendar).map((entry) => [
+      entry.taskId,
+      Math.max(0, Math.floor(entry.slack)),
+    ])
+  )
+
+  const assignmentsByTask = new Map<string, ResourceAllocation[]>()
+  allocations.forEach((allocation) => {
+    if (!resourceById.has(allocation.resourceId)) return
+    const list = assignmentsByTask.get(allocation.taskId) || []
+    list.push(allocation)
+    assignmentsByTask.set(allocation.taskId, list)
+  })
+
+  const ordered = leafTasks
+    .filter((task) => assignmentsByTask.has(task.id))
+    .sort(
+      (a, b) =>
+        PRIORITY_RANK[b.priority || 'medium'] - PRIORITY_RANK[a.priority || 'medium'] ||
+        (slackById.get(a.id) || 0) - (slackById.get(b.id) || 0) ||
+        new Date(a.startAt).getTime() - new Date(b.startAt).getTime()
+    )
+
+  const load: DailyLoad = new Map()
+  const delayed = new Map<string, { startAt: Date; endAt: Date }>()
+
+  const addLoad = (target: DailyLoad, taskId: string, startAt: Date, endAt: Date) =>
+    assignmentsByTask.get(taskId)!.forEach((assignment) => {
+      const resourceLoad = target.get(assignment.resourceId) || new Map<string, number>()
+      getWorkingDayKeys(startAt, endAt, calendar, assignment.resourceId).forEach((key) => {
+        resourceLoad.set(key, (resourceLoad.get(key) || 0) + assignment.allocation)
+      })
+      target.set(assignment.resourceId, resourceLoad)
+    })
+
+  const fits = (task: Task, startAt: Date, endAt: Date) =>
+    assignmentsByTask.get(task.id)!.every((assignment) => {
+      const resourceLoad = load.get(assignment.resourceId)
+      const availability = getAvailability(resourceById.get(assignment.resourceId)!)
+      return getWorkingDayKeys(startAt, endAt, calendar, assignment.resourceId).every(
+        (key) => (resourceLoad?.get(key) || 0) + assignment.allocation <= availability
+      )
+    })
+
+  ordered.forEach((task) => {
+    const original = { startAt: new Date(task.startAt), endAt: new Date(task.endAt) }
+    const slack = slackById.get(task.id) || 0
+    let placed = original
+
+    for (let shift = 0; shift <= slack; shift++) {
+      const candidate =
+        shift === 0 ? original : shiftTaskDates(original, addWorkingDays(original.startAt, shift, calendar), calendar)
+      if (fits(task, candidate.startAt, candidate.endAt)) {
+        placed = candidate
+        break
+      }
+    }
+
+    if (placed.startAt.getTime() !== original.startAt.getTime()) delayed.set(task.id, placed)
+    addLoad(load, task.id, placed.startAt, placed.endAt)
+  })
+
+  // Apply each delay in turn, pushing successors where a constraint breaks
+  let scheduled = leafTasks.map((task) => ({
+    id: task.id,
+    name: task.name,
+    startAt: new Date(task.startAt),
+    endAt: new Date(task.endAt),
+  }))
+
+  delayed.forEach((dates, taskId) => {
+    // Already pushed at least this far by an earlier delay
+    const current = scheduled.find((task) => task.id === taskId)
+    if (current && current.startAt >= dates.startAt) return
+
+    const propagation = propagateTaskMove(scheduled, dependencies, taskId, dates.startAt, dates.endAt, 'push', calendar)
+    if (!propagation.valid) return
+
+    const movedById = new Map(propagation.changes.map((change) => [change.taskId, change]))
+    scheduled = scheduled.map((task) => {
+      const moved = movedById.get(task.id)
+      return moved ? { ...task, startAt: moved.startAt, endAt: moved.endAt } : task
+    })
+  })
+
+  // Pushed successors keep their load at the dates they end up on
+  const finalLoad: DailyLoad = new Map()
+  ordered.forEach((task) => {
+    const dates = scheduled.find((entry) => entry.id === task.id)!
+    addLoad(finalLoad, task.id, dates.startAt, dates.endAt)
+  })
+
+  const unresolvedTaskIds = ordered
+    .filter((task) => {
+      const dates = scheduled.find((entry) => entry.id === task.id)!
+      return assignmentsByTask.get(task.id)!.some((assignment) => {
+        const availability = getAvailability(resourceById.get(assignment.resourceId)!)
+        return getWorkingDayKeys(dates.startAt, dates.endAt, calendar, assignment.resourceId).some(
+          (key) => (finalLoad.get(assignment.resourceId)?.get(key) || 0) > availability
+        )
+      })
+    })
+    .map((task) => task.id)
+
+  const changes: ScheduleChange[] = []
+  leafTasks.forEach((task) => {
+    const dates = scheduled.find((entry) => entry.id === task.id)!
+    const previousStartAt = new Date(task.startAt)
+    const previousEndAt = new Date(task.endAt)
+    if (
+      dates.startAt.getTime() === previousStartAt.getTime() &&
+      dates.endAt.getTime() === previousEndAt.getTime()
+    ) {
+      return
+    }
+
+    changes.push({
+      taskId: task.id,
+      name: task.name,
+      previousStartAt,
+      previousEndAt,
+      startAt: dates.startAt,
+      endAt: dates.endAt,
+      isSource: delayed.has(task.id),
+    })
+  })
+
+  return { changes, unresolvedTaskIds }
+}
+
@@ -0,0 +1,102 @@
+import { Resource, ResourceAllocation, Task, WorkCalendar } from '@/types/task'
+import { DEFAULT_AVAILABILITY } from '@/lib/providers/resources'
+import { isWorkingDay } from './work-calendar'
+
+type LoadTask = Pick<Task, 'id' | 'startAt' | 'endAt'> & { isSummary?: boolean }
+
+export interface ResourceDayLoad {
+  date: Date
+  load: number // Sum of allocation percentages on this day
+  taskIds: string[]
+}
+
+export interface ResourceLoad {
+  resource: Resource
+  days: ResourceDayLoad[] // One entry per calendar day of the range
+  peakLoad: number
+  overAllocatedDays: number
+}
+
+function addCalendarDays(date: Date, days: number): Date {
+  const result = new Date(date)
+  result.setDate(result.getDate() + days)
+  return result
+}
+
+/**
+ * Percentage of its time a resource can work, 100 when unset
+ */
+export function getAvailability(resource: Pick<Resource, 'availability'>): number {
+  return resource.availability ?? DEFAULT_AVAILABILITY
+}
+
+/**
+ * Check whether a day's load exceeds what the resource can take
+ */
+export function isOverAllocated(day: Pick<ResourceDayLoad, 'load'>, resource: Pick<Resource, 'availability'>): boolean {
+  return day.load > getAvailability(resource)
+}
+
+/**
+ * Compute the daily load of every resource from `rangeStart` to `rangeEnd`
+ *
+ * An allocation counts on each working day its task's bar overlaps, narrowed
+ * to the allocation's own dates when they are set. Summary tasks are skipped
+ * because their subtasks already carry the work.
+ */
+export function calculateResourceLoad(
+  tasks: LoadTask[],
+  resources: Resource[],
+  allocations: ResourceAllocation[],
+  calendar: WorkCalendar,
+  rangeStart: Date,
+  rangeEnd: Date
+): ResourceLoad[] {
+  const taskById = new Map(tasks.filter((task) => !task.isSummary).map((task) => [task.id, task]))
+
+  const dates: Date[] = []
+  for (let current = new Date(rangeStart); current <= rangeEnd; current = addCalendarDays(current, 1)) {
+    dates.push(current)
+  }
+
+  return resources.map((resource) => {
+    const spans = allocations.flatMap((allocation) => {
+      const task = taskById.get(allocation.taskId)
+      if (allocation.resourceId !== resource.id || !task) return []
+
+      const taskStart = new Date(task.startAt).getTime()
+      const taskEnd = new Date(task.endAt).getTime()
+      return [
+        {
+          taskId: task.id,
+          allocation: allocation.allocation,
+          start: allocation.startDate ? Math.max(taskStart, new Date(allocation.startDate).getTime()) : taskStart,
+          end: allocation.endDate ? Math.min(taskEnd, new Date(allocation.endDate).getTime()) : taskEnd,
+        },
+      ]
+    })
+
+    const days = dates.map((date, index) => {
+      const dayStart = date.getTime()
+      const dayEnd = index + 1 < dates.length ? dates[index + 1].getTime() : addCalendarDays(date, 1).getTime()
+      const day: ResourceDayLoad = { date, load: 0, taskIds: [] }
+
+      if (!isWorkingDay(date, calendar, resource.id)) return day
+
+      spans.forEach((span) => {
+        if (span.start < dayEnd && span.end > dayStart) {
+          day.load += span.allocation
+          day.taskIds.push(span.taskId)
+        }
+      })
+      return day
+    })
+
+    return {
+      resource,
+      days,
+      peakLoad: days.reduce((peak, day) => Math.max(peak, day.load), 0),
+      overAllocatedDays: days.filter((day) => isOverAllocated(day, resource)).length,
+    }
+  })
+}
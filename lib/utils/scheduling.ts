@@ -0,0 +1,212 @@
+import { Task, TaskDependency, WorkCalendar } from '@/types/task'
+import { validateDependencies } from './critical-path'
+import { addWorkingDays, countWorkingDays, shiftTaskDates } from './work-calendar'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type SchedulableTask = Pick<Task, 'id' | 'name' | 'startAt' | 'endAt'>
+
+/**
+ * How successors react to a predecessor move
+ * - push: successors only move when a constraint is violated (slack is kept)
+ * - strict: successors snap to the earliest date their constraints allow
+ */
+export type ScheduleMode = 'push' | 'strict'
+
+export interface ScheduleChange {
+  taskId: string
+  name: string
+  previousStartAt: Date
+  previousEndAt: Date
+  startAt: Date
+  endAt: Date
+  isSource: boolean // The task that was moved directly
+}
+
+export interface SchedulePropagationResult {
+  valid: boolean
+  changes: ScheduleChange[]
+  affectedTaskIds: string[] // Successors moved by propagation (excludes the source task)
+  cycles?: string[]
+}
+
+/**
+ * Earliest start a successor may have given one incoming dependency
+ * With a calendar, lag and the successor duration are counted in working days.
+ */
+function getConstrainedStart(
+  dependency: TaskDependency,
+  predecessor: { startAt: Date; endAt: Date },
+  successor: { startAt: Date; endAt: Date },
+  calendar?: WorkCalendar
+): number {
+  const lagDays = dependency.lag || 0
+  const fromFinish = dependency.type !== 'start-to-start' && dependency.type !== 'start-to-finish'
+  const toStart = dependency.type !== 'finish-to-finish' && dependency.type !== 'start-to-finish'
+  const anchor = fromFinish ? predecessor.endAt : predecessor.startAt
+
+  if (calendar) {
+    const constrained = addWorkingDays(anchor, lagDays, calendar)
+    if (toStart) return constrained.getTime()
+
+    // Finish constraint: walk back over the successor's working days
+    const workingDays = countWorkingDays(successor.startAt, successor.endAt, calendar)
+    return addWorkingDays(constrained, -workingDays, calendar).getTime()
+  }
+
+  const constrained = anchor.getTime() + lagDays * DAY_MS
+  return toStart ? constrained : constrained - (successor.endAt.getTime() - successor.startAt.getTime())
+}
+
+/**
+ * Collect every task reachable from the source through outgoing dependencies
+ */
+function collectDownstream(sourceId: string, dependencies: TaskDependency[]): Set<string> {
+  const downstream = new Set<string>()
+  const queue = [sourceId]
+
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    dependencies
+      .filter((dep) => dep.predecessorId === current)
+      .forEach((dep) => {
+        if (!downstream.has(dep.successorId) && dep.successorId !== sourceId) {
+          downstream.add(dep.successorId)
+          queue.push(dep.successorId)
+        }
+      })
+  }
+
+  return downstream
+}
+
+/**
+ * Order the given tasks so every predecessor comes before its successors (Kahn's algorithm)
+ */
+function topologicalOrder(taskIds: Set<string>, dependencies: TaskDependency[]): string[] {
+  const inDegree = new Map<string, number>()
+  taskIds.forEach((id) => inDegree.set(id, 0))
+
+  const edges = dependencies.filter(
+    (dep) => taskIds.has(dep.predecessorId) && taskIds.has(dep.successorId)
+  )
+  edges.forEach((dep) => inDegree.set(dep.successorId, (inDegree.get(dep.successorId) || 0) + 1))
+
+  const queue = [...taskIds].filter((id) => inDegree.get(id) === 0)
+  const order: string[] = []
+
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    order.push(current)
+
+    edges
+      .filter((dep) => dep.predecessorId === current)
+      .forEach((dep) => {
+        const remaining = (inDegree.get(dep.successorId) || 0) - 1
+        inDegree.set(dep.successorId, remaining)
+        if (remaining === 0) {
+          queue.push(dep.successorId)
+        }
+      })
+  }
+
+  return order
+}
+
+/**
+ * Propagate a date change of one task through its successors
+ *
+ * Successor durations are preserved; only start/end move. Returns every task
+ * whose dates change (including the moved task) so the caller can preview and
+ * persist them together. With a calendar, successors land on working days.
+ */
+export function propagateTaskMove(
+  tasks: SchedulableTask[],
+  dependencies: TaskDependency[],
+  movedTaskId: string,
+  startAt: Date,
+  endAt: Date,
+  mode: ScheduleMode = 'push',
+  calendar?: WorkCalendar
+): SchedulePropagationResult {
+  const { valid, circularDependencies } = validateDependencies(dependencies)
+  if (!valid) {
+    return { valid: false, changes: [], affectedTaskIds: [], cycles: circularDependencies }
+  }
+
+  const taskMap = new Map(tasks.map((task) => [task.id, task]))
+  const source = taskMap.get(movedTaskId)
+  if (!source) {
+    return { valid: true, changes: [], affectedTaskIds: [] }
+  }
+
+  // Working copy of dates, updated as the change flows downstream
+  const scheduled = new Map<string, { startAt: Date; endAt: Date }>()
+  tasks.forEach((task) => scheduled.set(task.id, { startAt: task.startAt, endAt: task.endAt }))
+  scheduled.set(movedTaskId, { startAt, endAt })
+
+  const downstream = collectDownstream(movedTaskId, dependencies)
+
+  topologicalOrder(downstream, dependencies).forEach((taskId) => {
+    const task = taskMap.get(taskId)
+    if (!task) return
+
+    let requiredStart: number | null = null
+
+    dependencies
+      .filter((dep) => dep.successorId === taskId)
+      .forEach((dep) => {
+        const predecessor = scheduled.get(dep.predecessorId)
+        if (!predecessor) return
+
+        const constrained = getConstrainedStart(dep, predecessor, task, calendar)
+        if (requiredStart === null || constrained > requiredStart) {
+          requiredStart = constrained
+        }
+      })
+
+    if (requiredStart === null) return
+
+    const currentStart = task.startAt.getTime()
+    const newStart = new Date(mode === 'strict' ? requiredStart : Math.max(currentStart, requiredStart))
+
+    if (newStart.getTime() === currentStart) return
+
+    if (calendar) {
+      scheduled.set(taskId, shiftTaskDates(task, newStart, calendar))
+    } else {
+      const duration = task.endAt.getTime() - task.startAt.getTime()
+      scheduled.set(taskId, {
+        startAt: newStart,
+        endAt: new Date(newStart.getTime() + duration),
+      })
+    }
+  })
+
+  const changes: ScheduleChange[] = []
+  scheduled.forEach((dates, taskId) => {
+    const task = taskMap.get(taskId)!
+    if (
+      dates.startAt.getTime() === task.startAt.getTime() &&
+      dates.endAt.getTime() === task.endAt.getTime()
+    ) {
+      return
+    }
+
+    changes.push({
+      taskId,
+      name: task.name,
+      previousStartAt: task.startAt,
+      previousEndAt: task.endAt,
+      startAt: dates.startAt,
+      endAt: dates.endAt,
+      isSource: taskId === movedTaskId,
+    })
+  })
+
+  return {
+    valid: true,
+    changes,
+    affectedTaskIds: changes.filter((change) => !change.isSource).map((change) => change.taskId),
+  }
+}
@@ -0,0 +1,263 @@
+import { ChangeSet, Task, TaskChange, TaskStatus } from '@/types/task'
+import { ScheduleChange } from './scheduling'
+
+export type TaskFieldChange = Omit<TaskChange, 'id' | 'timestamp'>
+
+// Fields an edit can touch, in the order they are listed in the activity feed
+const TRACKED_FIELDS = ['name', 'startAt', 'endAt', 'status', 'owner', 'group', 'description', 'progress'] as const
+
+type TrackedField = (typeof TRACKED_FIELDS)[number]
+
+/**
+ * Comparable form of a field value
+ * Dates compare by time and statuses by name, which is also what is stored in
+ * the change so the history stays readable after a status is renamed.
+ */
+function normalizeValue(field: TrackedField, value: unknown): unknown {
+  if (value === undefined || value === null || value === '') return undefined
+  if (field === 'startAt' || field === 'endAt') return new Date(value as Date | string)
+  if (field === 'status') return (value as Task['status'])?.name
+  return value
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime()
+  return a === b
+}
+
+/**
+ * Field-level changes an update makes to a task
+ * Only fields present in updates are compared; unchanged fields are skipped.
+ */
+export function diffTaskFields(task: Task, updates: Partial<Task>): TaskFieldChange[] {
+  const changes: TaskFieldChange[] = []
+
+  TRACKED_FIELDS.forEach((field) => {
+    if (!(field in updates)) return
+
+    const oldValue = normalizeValue(field, task[field])
+    const newValue = normalizeValue(field, updates[field])
+    if (isSameValue(oldValue, newValue)) return
+
+    changes.push({ taskId: task.id, changeType: 'update', field, oldValue, newValue })
+  })
+
+  return changes
+}
+
+/**
+ * Start and end date changes of a rescheduled set of tasks
+ */
+export function getScheduleFieldChanges(changes: ScheduleChange[]): TaskFieldChange[] {
+  return changes.flatMap((change) => [
+    {
+      taskId: change.taskId,
+      changeType: 'update' as const,
+      field: 'startAt',
+      oldValue: change.previousStartAt,
+      newValue: change.startAt,
+    },
+    {
+      taskId: change.taskId,
+      changeType: 'update' as const,
+      field: 'endAt',
+      oldValue: change.previousEndAt,
+      newValue: change.endAt,
+    },
+  ])
+}
+
+export interface TaskFieldConflict {
+  field: TrackedField
+  baseValue: unknown // Comparable values, see normalizeValue
+  yourValue: unknown
+  theirValue: unknown
+  changedByYou: boolean
+  changedByThem: boolean
+}
+
+/**
+ * Field-level comparison of an update that hit a newer version of a task
+ * base is the copy the update was made from, theirs the current one. Lists
+ * every field that either side changed, with both changes marked.
+ */
+export function getTaskConflicts(base: Task, updates: Partial<Task>, theirs: Task): TaskFieldConflict[] {
+  const yours = new Map(diffTaskFields(base, updates).map((change) => [change.field, change]))
+  // Compare every field of theirs, so a cleared value counts as a change
+  const theirFields = Object.fromEntries(TRACKED_FIELDS.map((field) => [field, theirs[field]])) as Partial<Task>
+  const theirChanges = new Map(diffTaskFields(base, theirFields).map((change) => [change.field, change]))
+
+  return TRACKED_FIELDS.filter((field) => yours.has(field) || theirChanges.has(field)).map((field) => ({
+    field,
+    baseValue: normalizeValue(field, base[field]),
+    yourValue: yours.has(field) ? yours.get(field)!.newValue : normalizeValue(field, base[field]),
+    theirValue: normalizeValue(field, theirs[field]),
+    changedByYou: yours.has(field),
+    changedByThem: theirChanges.has(field),
+  }))
+}
+
+// Fields kept in the snapshot of a created or deleted task
+const SNAPSHOT_FIELDS = [...TRACKED_FIELDS, 'id', 'parentId'] as const
+
+export type TaskSnapshot = Pick<Task, (typeof SNAPSHOT_FIELDS)[number]>
+
+/**
+ * The part of a task stored with a create or delete change, enough to recreate it
+ */
+export function getTaskSnapshot(task: Task): TaskSnapshot {
+  const snapshot: Partial<Task> = {}
+  SNAPSHOT_FIELDS.forEach((field) => {
+    if (task[field] !== undefined) Object.assign(snapshot, { [field]: task[field] })
+  })
+  return snapshot as TaskSnapshot
+}
+
+/**
+ * Changes that turn one copy of a task into the next: a create without a
+ * previous copy, a delete without a next one, field updates otherwise
+ */
+export function getTaskChanges(previous: Task | null, next: Task | null): TaskFieldChange[] {
+  if (!previous) {
+    return next ? [{ taskId: next.id, changeType: 'create', newValue: getTaskSnapshot(next) }] : []
+  }
+  if (!next) {
+    return [{ taskId: previous.id, changeType: 'delete', oldValue: getTaskSnapshot(previous) }]
+  }
+
+  // Compare every field of the next copy, so a cleared value counts as a change
+  const nextFields = Object.fromEntries(TRACKED_FIELDS.map((field) => [field, next[field]])) as Partial<Task>
+  const changes = diffTaskFields(previous, nextFields)
+  if ((previous.parentId || undefined) !== (next.parentId || undefined)) {
+    changes.push({
+      taskId: previous.id,
+      changeType: 'update',
+      field: 'parentId',
+      oldValue: previous.parentId,
+      newValue: next.parentId,
+    })
+  }
+  return changes
+}
+
+// Fields to set on a task to revert it; a null parentId moves it to the top level
+export type TaskRevertFields = Omit<Partial<Task>, 'parentId'> & { parentId?: string | null }
+
+export interface TaskRevertPlan {
+  updates: { taskId: string; fields: TaskRevertFields }[] // Tasks to set back to their old values
+  deletions: string[] // Tasks the change set created
+  restorations: TaskSnapshot[] // Tasks the change set deleted, as they were
+}
+
+function findStatus(statuses: TaskStatus[], value: unknown): TaskStatus | undefined {
+  if (!value) return undefined
+  if (typeof value === 'string') return statuses.find((status) => status.name === value)
+  const status = value as TaskStatus
+  return statuses.find((entry) => entry.id === status.id) || statuses.find((entry) => entry.name === status.name)
+}
+
+// Value to write back for a recorded old value. Statuses are recorded by name,
+// and an empty value clears the field.
+function getRevertValue(field: string, value: unknown, statuses: TaskStatus[]): unknown {
+  if (field === 'startAt' || field === 'endAt') return value ? new Date(value as Date | string) : undefined
+  if (field === 'status') return findStatus(statuses, value)
+  if (field === 'parentId') return value || null
+  if (field === 'progress') return value ?? 0
+  return value ?? ''
+}
+
+function reviveSnapshot(value: unknown, statuses: TaskStatus[]): TaskSnapshot | null {
+  const snapshot = value as TaskSnapshot | undefined
+  if (!snapshot?.name || !snapshot.startAt || !snapshot.endAt) return null
+  return {
+    ...snapshot,
+    startAt: new Date(snapshot.startAt),
+    endAt: new Date(snapshot.endAt),
+    status: findStatus(statuses, snapshot.status),
+  }
+}
+
+/**
+ * What it takes to undo a change set
+ * Changes are undone newest first, so a field changed twice goes back to its
+ * first old value, and a task created and deleted in the same set is left alone.
+ * Fields that cannot be restored (a status that no longer exists, a delete
+ * recorded without a snapshot) are skipped.
+ */
+export function getRevertPlan(changeSet: ChangeSet, statuses: TaskStatus[]): TaskRevertPlan {
+  const fieldsByTask = new Map<string, TaskRevertFields>()
+  const created = new Set<string>()
+  const deleted = new Map<string, TaskSnapshot | null>()
+  const newestFirst = [...changeSet.changes].reverse()
+
+  newestFirst.forEach((change) => {
+    if (change.changeType === 'create') {
+      created.add(change.taskId)
+    } else if (change.changeType === 'delete') {
+      deleted.set(change.taskId, reviveSnapshot(change.oldValue, statuses))
+    } else if (change.field) {
+      const value = getRevertValue(change.field, change.oldValue, statuses)
+      if (value === undefined) return
+      fieldsByTask.set(change.taskId, { ...fieldsByTask.get(change.taskId), [change.field]: value })
+    }
+  })
+
+  const restorations: TaskSnapshot[] = []
+  deleted.forEach((snapshot, taskId) => {
+    if (created.has(taskId) || !snapshot) return
+    // Updates made before the delete are folded into the recreated task
+    const { parentId, ...fields } = fieldsByTask.get(taskId) || {}
+    restorations.push({ ...snapshot, ...fields, ...(parentId !== undefined && { parentId: parentId || undefined }) })
+  })
+
+  return {
+    updates: [...fieldsByTask.entries()]
+      .filter(([taskId]) => !created.has(taskId) && !deleted.has(taskId))
+      .map(([taskId, fields]) => ({ taskId, fields })),
+    deletions: [...created].filter((taskId) => !deleted.has(taskId)),
+    restorations,
+  }
+}
+
+/**
+ * The change set that undoes another: its changes in reverse order with old
+ * and new values swapped, and creates and deletes traded for each other.
+ * Reverting the inverse redoes the original.
+ */
+export function invertChangeSet(changeSet: ChangeSet): ChangeSet {
+  return {
+    ...changeSet,
+    changes: [...changeSet.changes].reverse().map((change) => ({
+      ...change,
+      changeType: change.changeType === 'create' ? 'delete' : change.changeType === 'delete' ? 'create' : 'update',
+      oldValue: change.newValue,
+      newValue: change.oldValue,
+    })),
+  }
+}
+
+/**
+ * Point the changes of a change set at tasks that were recreated under new ids
+ * Covers the changed task, recorded parent ids and the ids in snapshots.
+ */
+export function remapChangeSetTaskIds(changeSet: ChangeSet, idMap: Record<string, string>): ChangeSet {
+  const remapId = (id: unknown) => (typeof id === 'string' && idMap[id]) || id
+  const remapValue = (field: string | undefined, value: unknown) => {
+    if (field === 'parentId') return remapId(value)
+    if (!field && value && typeof value === 'object') {
+      const snapshot = value as TaskSnapshot
+      return { ...snapshot, id: remapId(snapshot.id), parentId: remapId(snapshot.parentId) }
+    }
+    return value
+  }
+
+  return {
+    ...changeSet,
+    changes: changeSet.changes.map((change) => ({
+      ...change,
+      taskId: remapId(change.taskId) as string,
+      oldValue: remapValue(change.field, change.oldValue),
+      newValue: remapValue(change.field, change.newValue),
+    })),
+  }
+}
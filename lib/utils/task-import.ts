@@ -0,0 +1,98 @@
+import * as XLSX from 'xlsx'
+import { Task, TaskStatus } from '@/types/task'
+
+/**
+ * Read tasks from CSV and Excel files laid out like the CSV/Excel exports
+ * Statuses are matched by name. Rows without a name, start and end date are
+ * left out.
+ */
+
+function hasRequiredFields(task: Partial<Task>): boolean {
+  return Boolean(task.name && task.startAt && task.endAt)
+}
+
+export function parseTasksCsv(text: string, statuses: TaskStatus[]): Partial<Task>[] {
+  const lines = text.split('\n').filter((line) => line.trim())
+  if (lines.length < 2) return []
+
+  const headers = lines[0].split(',').map((h) => h.trim().replace(/^"|"$/g, ''))
+  const tasks: Partial<Task>[] = []
+
+  for (let i = 1; i < lines.length; i++) {
+    const values = lines[i].match(/(".*?"|[^",]+)(?=\s*,|\s*$)/g)?.map((v) => v.trim().replace(/^"|"$/g, '')) || []
+
+    if (values.length === 0) continue
+
+    const task: Partial<Task> = {}
+    headers.forEach((header, index) => {
+      const value = values[index]?.trim()
+      if (!value) return
+
+      switch (header.toLowerCase()) {
+        case 'id':
+          task.id = value
+          break
+        case 'name':
+          task.name = value
+          break
+        case 'start date':
+        case 'startdate':
+          task.startAt = new Date(value)
+          break
+        case 'end date':
+        case 'enddate':
+          task.endAt = new Date(value)
+          break
+        case 'status':
+          const status = statuses.find((s) => s.name === value)
+          if (status) task.status = status
+          break
+        case 'owner':
+          task.owner = value
+          break
+        case 'group':
+          task.group = value
+          break
+        case 'description':
+          task.description = value
+          break
+        case 'progress':
+          task.progress = parseFloat(value) || 0
+          break
+      }
+    })
+
+    if (hasRequiredFields(task)) {
+      tasks.push(task)
+    }
+  }
+
+  return tasks
+}
+
+export function parseTasksWorkbook(data: ArrayBuffer, statuses: TaskStatus[]): Partial<Task>[] {
+  const workbook = XLSX.read(data, { type: 'array' })
+  const firstSheet = workbook.Sheets[workbook.SheetNames[0]]
+  const rows = XLSX.utils.sheet_to_json<Record<string, string | number>>(firstSheet)
+
+  return rows.map((row) => {
+    const task: Partial<Task> = {}
+
+    if (row.ID) task.id = String(row.ID)
+    if (row.Name) task.name = String(row.Name)
+    if (row['Start Date']) task.startAt = new Date(row['Start Date'])
+    if (row['End Date']) task.endAt = new Date(row['End Date'])
+    if (row.Status) {
+      const status = statuses.find((s) => s.name === row.Status)
+      if (status) task.status = status
+    }
+    if (row.Owner) task.owner = String(row.Owner)
+    if (row.Group) task.group = String(row.Group)
+    if (row.Description) task.description = String(row.Description)
+    if (row.Progress !== undefined) {
+      task.progress = typeof row.Progress === 'number' ? row.Progress : parseFloat(String(row.Progress)) || 0
+    }
+
+    return task
+  }).filter(hasRequiredFields)
+}
@@ -0,0 +1,147 @@
+import { Task } from '@/types/task'
+
+type TreeTask = Pick<Task, 'id' | 'parentId'>
+
+export interface TaskTreeNode<T extends TreeTask> {
+  task: T
+  depth: number
+  outline: string // WBS number, e.g. "1.2.3"
+  hasChildren: boolean
+}
+
+/**
+ * Group tasks by parent id, keeping the input order among siblings
+ * Tasks whose parent is missing from the list are treated as top level.
+ */
+function groupByParent<T extends TreeTask>(tasks: T[]): Map<string | undefined, T[]> {
+  const ids = new Set(tasks.map((task) => task.id))
+  const children = new Map<string | undefined, T[]>()
+
+  tasks.forEach((task) => {
+    const parentId = task.parentId && ids.has(task.parentId) ? task.parentId : undefined
+    const list = children.get(parentId) || []
+    list.push(task)
+    children.set(parentId, list)
+  })
+
+  return children
+}
+
+/**
+ * Flatten tasks into depth-first tree order with outline numbers
+ * Children of collapsed tasks are left out.
+ */
+export function buildTaskTree<T extends TreeTask>(
+  tasks: T[],
+  collapsedIds: Set<string> = new Set()
+): TaskTreeNode<T>[] {
+  const children = groupByParent(tasks)
+  const nodes: TaskTreeNode<T>[] = []
+  const visited = new Set<string>()
+
+  const visit = (parentId: string | undefined, depth: number, prefix: string) => {
+    const siblings = children.get(parentId) || []
+    siblings.forEach((task, index) => {
+      // Guards against cycles in stored data
+      if (visited.has(task.id)) return
+      visited.add(task.id)
+
+      const outline = prefix ? `${prefix}.${index + 1}` : String(index + 1)
+      const hasChildren = (children.get(task.id) || []).length > 0
+      nodes.push({ task, depth, outline, hasChildren })
+
+      if (hasChildren && !collapsedIds.has(task.id)) {
+        visit(task.id, depth + 1, outline)
+      }
+    })
+  }
+
+  visit(undefined, 0, '')
+  return nodes
+}
+
+/**
+ * Derive summary task dates and progress from their subtasks
+ *
+ * A summary spans its earliest child start to its latest child end, and its
+ * progress is the average of the children weighted by duration. Nested
+ * summaries are rolled up bottom-up. Leaf tasks are returned unchanged.
+ */
+export function rollupSummaryTasks<T extends TreeTask & Pick<Task, 'startAt' | 'endAt' | 'progress'>>(
+  tasks: T[]
+): (T & { isSummary?: boolean })[] {
+  const children = groupByParent(tasks)
+  const rolledUp = new Map<string, T & { isSummary?: boolean }>()
+  const inProgress = new Set<string>()
+
+  const resolve = (task: T): T & { isSummary?: boolean } => {
+    const cached = rolledUp.get(task.id)
+    if (cached) return cached
+
+    const subtasks = children.get(task.id) || []
+    if (subtasks.length === 0 || inProgress.has(task.id)) {
+      rolledUp.set(task.id, task)
+      return task
+    }
+
+    inProgress.add(task.id)
+    const resolved = subtasks.map(resolve)
+    inProgress.delete(task.id)
+
+    let start = Infinity
+    let end = -Infinity
+    let weightedProgress = 0
+    let totalWeight = 0
+
+    resolved.forEach((child) => {
+      const childStart = new Date(child.startAt).getTime()
+      const childEnd = new Date(child.endAt).getTime()
+      start = Math.min(start, childStart)
+      end = Math.max(end, childEnd)
+
+      // Milestones still count, with a minimal weight
+      const weight = Math.max(childEnd - childStart, 1)
+      weightedProgress += (child.progress || 0) * weight
+      totalWeight += weight
+    })
+
+    const summary = {
+      ...task,
+      startAt: new Date(start),
+      endAt: new Date(end),
+      progress: Math.round(weightedProgress / totalWeight),
+      isSummary: true,
+    }
+    rolledUp.set(task.id, summary)
+    return summary
+  }
+
+  return tasks.map(resolve)
+}
+
+/**
+ * New parent for a task when it is indented
+ * The task moves under the sibling directly above it; null when there is none.
+ */
+export function getIndentParentId(tasks: TreeTask[], taskId: string): string | null {
+  const task = tasks.find((entry) => entry.id === taskId)
+  if (!task) return null
+
+  const hasParent = !!task.parentId && tasks.some((entry) => entry.id === task.parentId)
+  const siblings = groupByParent(tasks).get(hasParent ? task.parentId : undefined) || []
+  const index = siblings.findIndex((entry) => entry.id === taskId)
+
+  return index > 0 ? siblings[index - 1].id : null
+}
+
+/**
+ * New parent for a task when it is outdented
+ * Returns undefined when the task is already at the top level.
+ */
+export function getOutdentParentId(tasks: TreeTask[], taskId: string): string | null | undefined {
+  const task = tasks.find((entry) => entry.id === taskId)
+  if (!task?.parentId) return undefined
+
+  const parent = tasks.find((entry) => entry.id === task.parentId)
+  return parent?.parentId || null
+}
@@ -0,0 +1,248 @@
+import { ChangeSet, Task, TaskStatus } from '@/types/task'
+import {
+  diffTaskFields,
+  getRevertPlan,
+  getTaskSnapshot,
+  invertChangeSet,
+  TaskFieldChange,
+  TaskRevertFields,
+  TaskRevertPlan,
+  TaskSnapshot,
+} from './task-changes'
+
+/**
+ * Provider calls a change set is applied through
+ * createTask should keep the snapshot's id where the data source lets the
+ * caller choose ids, so a recreated task is the same task again.
+ */
+export interface TaskMutations {
+  createTask: (snapshot: TaskSnapshot) => Promise<Task>
+  updateTask: (taskId: string, fields: TaskRevertFields, version?: number) => Promise<Task>
+  deleteTask: (taskId: string) => Promise<void>
+}
+
+export interface ChangeSetApplyResult {
+  changes: TaskFieldChange[] // What was applied, to record in the change history
+  saved: Task[] // Saved copies of the updated and recreated tasks
+  deletedIds: string[]
+  idMap: Record<string, string> // Tasks recreated under a new id, old id to new id
+  skippedTaskIds: string[] // Tasks deleted since, left alone
+}
+
+/**
+ * Thrown when a step of a change set failed
+ * The steps applied before it are undone again. saved and deletedIds describe
+ * the tasks touched along the way as they are now. rolledBack is false when
+ * part of the rollback failed too, leaving the change set partly applied.
+ */
+export class ChangeSetApplyError extends Error {
+  readonly reason: unknown
+  readonly rolledBack: boolean
+  readonly saved: Task[]
+  readonly deletedIds: string[]
+
+  constructor(reason: unknown, rolledBack: boolean, saved: Task[], deletedIds: string[]) {
+    super(reason instanceof Error ? reason.message : 'Failed to apply changes')
+    this.name = 'ChangeSetApplyError'
+    this.reason = reason
+    this.rolledBack = rolledBack
+    this.saved = saved
+    this.deletedIds = deletedIds
+  }
+}
+
+// Restore parents before their subtasks, so the subtasks can be attached
+function orderParentsFirst(snapshots: TaskSnapshot[]): TaskSnapshot[] {
+  const byId = new Map(snapshots.map((snapshot) => [snapshot.id, snapshot]))
+  const getDepth = (snapshot: TaskSnapshot, seen = new Set<string>()): number => {
+    const parent = snapshot.parentId ? byId.get(snapshot.parentId) : undefined
+    if (!parent || seen.has(parent.id)) return 0
+    seen.add(parent.id)
+    return getDepth(parent, seen) + 1
+  }
+  return [...snapshots].sort((a, b) => getDepth(a) - getDepth(b))
+}
+
+// Current values of the fields an update sets, to set them back on rollback
+function getCurrentFields(task: Task, fields: TaskRevertFields): TaskRevertFields {
+  const current: TaskRevertFields = {}
+  Object.keys(fields).forEach((field) => {
+    const value = task[field as keyof Task]
+    if (field === 'parentId') current.parentId = task.parentId || null
+    else if (field === 'progress') current.progress = task.progress ?? 0
+    else if (value !== undefined) Object.assign(current, { [field]: value })
+    else if (field !== 'status') Object.assign(current, { [field]: '' })
+  })
+  return current
+}
+
+// Changes an applied update made, in the form the edit handlers record
+function getUpdateChanges(task: Task, fields: TaskRevertFields): TaskFieldChange[] {
+  const { parentId, ...updates } = fields
+  const changes = diffTaskFields(task, updates)
+  if (parentId !== undefined && (task.parentId || null) !== parentId) {
+    changes.push({
+      taskId: task.id,
+      changeType: 'update',
+      field: 'parentId',
+      oldValue: task.parentId,
+      newValue: parentId || undefined,
+    })
+  }
+  return changes
+}
+
+/**
+ * Apply a revert plan one step at a time: deleted tasks are recreated first,
+ * then fields are set back, then created tasks are deleted. Updates are made
+ * against the versions in tasks, so a task someone else changed since fails
+ * with a TaskVersionConflictError.
+ *
+ * When a step fails, the steps before it are rolled back newest first and a
+ * ChangeSetApplyError is thrown. Rolled-back deletes recreate the task and
+ * re-attach its subtasks, but its dependency links are gone.
+ */
+export async function applyRevertPlan(
+  plan: TaskRevertPlan,
+  tasks: Task[],
+  mutations: TaskMutations
+): Promise<ChangeSetApplyResult> {
+  const current = new Map(tasks.map((task) => [task.id, task]))
+  const touched = new Map<string, Task | null>() // null once deleted
+  const rollbackSteps: (() => Promise<void>)[] = []
+  const changes: TaskFieldChange[] = []
+  const idMap: Record<string, string> = {}
+  const skippedTaskIds: string[] = []
+  const deleting = new Set(plan.deletions)
+
+  const track = (task: Task) => {
+    current.set(task.id, task)
+    touched.set(task.id, task)
+  }
+
+  // Providers move the subtasks of a deleted task to the top level
+  const untrack = (taskId: string) => {
+    current.delete(taskId)
+    touched.set(taskId, null)
+    current.forEach((task) => {
+      if (task.parentId === taskId) current.set(task.id, { ...task, parentId: undefined })
+    })
+  }
+
+  // A parent that no longer exists (or is about to go) can't be restored
+  const resolveParentId = (parentId?: string): string | undefined => {
+    if (!parentId) return undefined
+    const id = idMap[parentId] ?? parentId
+    return current.has(id) && !deleting.has(id) ? id : undefined
+  }
+
+  const createTask = async (snapshot: TaskSnapshot) => {
+    const task = await mutations.createTask({ ...snapshot, parentId: resolveParentId(snapshot.parentId) })
+    track(task)
+    rollbackSteps.push(async () => {
+      await mutations.deleteTask(task.id)
+      untrack(task.id)
+    })
+    return task
+  }
+
+  const updateTask = async (task: Task, fields: TaskRevertFields) => {
+    track(await mutations.updateTask(task.id, fields, task.version))
+    const previous = getCurrentFields(task, fields)
+    rollbackSteps.push(async () => {
+      track(await mutations.updateTask(task.id, previous, touched.get(task.id)?.version))
+    })
+  }
+
+  const deleteTask = async (task: Task) => {
+    const subtasks = [...current.values()].filter((entry) => entry.parentId === task.id)
+    await mutations.deleteTask(task.id)
+    untrack(task.id)
+    rollbackSteps.push(async () => {
+      const restored = await mutations.createTask(getTaskSnapshot(task))
+      track(restored)
+      for (const subtask of subtasks) {
+        track(await mutations.updateTask(subtask.id, { parentId: restored.id }))
+      }
+    })
+  }
+
+  const getTouched = () => ({
+    saved: [...touched.values()].filter((task): task is Task => task !== null),
+    deletedIds: [...touched.entries()].filter(([, task]) => task === null).map(([taskId]) => taskId),
+  })
+
+  try {
+    for (const snapshot of orderParentsFirst(plan.restorations)) {
+      const task = await createTask(snapshot)
+      if (task.id !== snapshot.id) idMap[snapshot.id] = task.id
+      changes.push({ taskId: task.id, changeType: 'create', newValue: getTaskSnapshot(task) })
+    }
+
+    for (const { taskId, fields } of plan.updates) {
+      const task = current.get(taskId)
+      if (!task) {
+        skippedTaskIds.push(taskId)
+        continue
+      }
+
+      const { parentId, ...updates } = fields
+      const nextParentId = parentId === null ? null : resolveParentId(parentId)
+      const applied: TaskRevertFields = nextParentId === undefined ? updates : { ...updates, parentId: nextParentId }
+      if (Object.keys(applied).length === 0) continue
+
+      await updateTask(task, applied)
+      changes.push(...getUpdateChanges(task, applied))
+    }
+
+    for (const taskId of plan.deletions) {
+      const task = current.get(taskId)
+      if (!task) {
+        skippedTaskIds.push(taskId)
+        continue
+      }
+
+      await deleteTask(task)
+      changes.push({ taskId, changeType: 'delete', oldValue: getTaskSnapshot(task) })
+    }
+  } catch (error) {
+    let rolledBack = true
+    for (const rollbackStep of [...rollbackSteps].reverse()) {
+      try {
+        await rollbackStep()
+      } catch (rollbackError) {
+        console.error('Failed to roll back change set step:', rollbackError)
+        rolledBack = false
+      }
+    }
+
+    const { saved, deletedIds } = getTouched()
+    throw new ChangeSetApplyError(error, rolledBack, saved, deletedIds)
+  }
+
+  return { changes, ...getTouched(), idMap, skippedTaskIds }
+}
+
+/**
+ * Undo a committed change set against the current tasks
+ */
+export function undoChangeSet(
+  changeSet: ChangeSet,
+  tasks: Task[],
+  statuses: TaskStatus[],
+  mutations: TaskMutations
+): Promise<ChangeSetApplyResult> {
+  return applyRevertPlan(getRevertPlan(changeSet, statuses), tasks, mutations)
+}
+
+/**
+ * Apply an undone change set again
+ */
+export function redoChangeSet(
+  changeSet: ChangeSet,
+  tasks: Task[],
+  statuses: TaskStatus[],
+  mutations: TaskMutations
+): Promise<ChangeSetApplyResult> {
+  return applyRevertPlan(getRevertPlan(invertChangeSet(changeSet), statuses), tasks, mutations)
+}
@@ -0,0 +1,238 @@
+import { WorkCalendar, CalendarHoliday, ResourceCalendarException } from '@/types/task'
+
+/**
+ * Default calendar: Monday to Friday, no holidays
+ */
+export const DEFAULT_WORK_CALENDAR: WorkCalendar = {
+  id: 'default',
+  name: 'Standard',
+  workingDays: [1, 2, 3, 4, 5],
+  holidays: [],
+  resourceExceptions: [],
+}
+
+// Upper bound when scanning for a working day, so a calendar without any
+// working day cannot loop forever
+const MAX_SCAN_DAYS = 3660
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Format a date as a local YYYY-MM-DD key (the format used for holidays)
+ */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+function addCalendarDays(date: Date, days: number): Date {
+  const result = new Date(date)
+  result.setDate(result.getDate() + days)
+  return result
+}
+
+function startOfDay(date: Date): Date {
+  const result = new Date(date)
+  result.setHours(0, 0, 0, 0)
+  return result
+}
+
+/**
+ * Check whether a day is worked, honouring holidays and resource exceptions
+ */
+export function isWorkingDay(date: Date, calendar: WorkCalendar, resourceId?: string): boolean {
+  const key = toDateKey(date)
+
+  if (resourceId) {
+    const exception = calendar.resourceExceptions.find(
+      (entry) => entry.resourceId === resourceId && entry.date === key
+    )
+    if (exception) return exception.isWorking
+  }
+
+  if (calendar.holidays.some((holiday) => holiday.date === key)) return false
+
+  return calendar.workingDays.includes(date.getDay())
+}
+
+/**
+ * Count working days in [start, end), by calendar day
+ */
+export function countWorkingDays(
+  start: Date,
+  end: Date,
+  calendar: WorkCalendar,
+  resourceId?: string
+): number {
+  let count = 0
+  let current = startOfDay(start)
+
+  while (current < end) {
+    if (isWorkingDay(current, calendar, resourceId)) count++
+    current = addCalendarDays(current, 1)
+  }
+
+  return count
+}
+
+/**
+ * Move a date by a number of working days (negative moves backwards)
+ * The time of day is kept.
+ */
+export function addWorkingDays(
+  date: Date,
+  days: number,
+  calendar: WorkCalendar,
+  resourceId?: string
+): Date {
+  let result = new Date(date)
+  let remaining = Math.round(days)
+  let scanned = 0
+
+  while (remaining > 0 && scanned < MAX_SCAN_DAYS) {
+    if (isWorkingDay(result, calendar, resourceId)) remaining--
+    result = addCalendarDays(result, 1)
+    scanned++
+  }
+
+  while (remaining < 0 && scanned < MAX_SCAN_DAYS) {
+    result = addCalendarDays(result, -1)
+    if (isWorkingDay(result, calendar, resourceId)) remaining++
+    scanned++
+  }
+
+  return result
+}
+
+/**
+ * First working day on or after the given date
+ */
+export function nextWorkingDay(date: Date, calendar: WorkCalendar, resourceId?: string): Date {
+  let result = new Date(date)
+
+  for (let i = 0; i < MAX_SCAN_DAYS && !isWorkingDay(result, calendar, resourceId); i++) {
+    result = addCalendarDays(result, 1)
+  }
+
+  return result
+}
+
+/**
+ * Pull an exclusive end date back so the task does not end on non-working days
+ */
+export function snapEndToWorkingDay(end: Date, calendar: WorkCalendar, resourceId?: string): Date {
+  let result = new Date(end)
+
+  for (
+    let i = 0;
+    i < MAX_SCAN_DAYS && !isWorkingDay(addCalendarDays(result, -1), calendar, resourceId);
+    i++
+  ) {
+    result = addCalendarDays(result, -1)
+  }
+
+  return result
+}
+
+/**
+ * Move a task to a new start while keeping its working-day duration
+ * Falls back to the raw duration when the task has no working days (e.g. milestones).
+ */
+export function shiftTaskDates(
+  task: { startAt: Date; endAt: Date },
+  newStart: Date,
+  calendar: WorkCalendar,
+  resourceId?: string
+): { startAt: Date; endAt: Date } {
+  const workingDays = countWorkingDays(task.startAt, task.endAt, calendar, resourceId)
+
+  if (workingDays === 0) {
+    const duration = task.endAt.getTime() - task.startAt.getTime()
+    return { startAt: newStart, endAt: new Date(newStart.getTime() + duration) }
+  }
+
+  const startAt = nextWorkingDay(newStart, calendar, resourceId)
+  return { startAt, endAt: addWorkingDays(startAt, workingDays, calendar, resourceId) }
+}
+
+/**
+ * Date reached after completing a share of the task's working days
+ * Used to draw progress so that weekends and holidays count as zero work.
+ */
+export function getProgressDate(
+  start: Date,
+  end: Date,
+  progress: number,
+  calendar: WorkCalendar,
+  resourceId?: string
+): Date {
+  const total = countWorkingDays(start, end, calendar, resourceId)
+  if (total === 0) {
+    return new Date(start.getTime() + ((end.getTime() - start.getTime()) * progress) / 100)
+  }
+
+  const done = (total * Math.min(Math.max(progress, 0), 100)) / 100
+  const whole = Math.floor(done)
+  let date = addWorkingDays(start, whole, calendar, resourceId)
+
+  // Skip to the working day the fractional part falls on
+  if (done > whole) {
+    date = nextWorkingDay(date, calendar, resourceId)
+    date = new Date(date.getTime() + (done - whole) * 24 * 60 * 60 * 1000)
+  }
+
+  return date > end ? end : date
+}
+
+function parseHoliday(value: unknown): CalendarHoliday {
+  const entry = (typeof value === 'string' ? { date: value } : value) as Partial<CalendarHoliday>
+  if (!entry || typeof entry.date !== 'string' || !DATE_KEY_PATTERN.test(entry.date)) {
+    throw new Error('Holiday dates must use the YYYY-MM-DD format')
+  }
+  return { date: entry.date, name: entry.name || undefined }
+}
+
+function parseResourceException(value: unknown): ResourceCalendarException {
+  const entry = value as Partial<ResourceCalendarException>
+  if (!entry || !entry.resourceId) {
+    throw new Error('Resource exceptions require a resourceId')
+  }
+  if (typeof entry.date !== 'string' || !DATE_KEY_PATTERN.test(entry.date)) {
+    throw new Error('Resource exception dates must use the YYYY-MM-DD format')
+  }
+  return {
+    resourceId: String(entry.resourceId),
+    date: entry.date,
+    isWorking: Boolean(entry.isWorking),
+    name: entry.name || undefined,
+  }
+}
+
+/**
+ * Validate a calendar read from storage or a request body
+ * Missing fields fall back to DEFAULT_WORK_CALENDAR; malformed entries throw.
+ */
+export function normalizeWorkCalendar(value: unknown): WorkCalendar {
+  if (!value || typeof value !== 'object') {
+    return { ...DEFAULT_WORK_CALENDAR }
+  }
+
+  const input = value as Partial<WorkCalendar>
+  const workingDays = input.workingDays ?? DEFAULT_WORK_CALENDAR.workingDays
+
+  if (
+    !Array.isArray(workingDays) ||
+    workingDays.some((day) => !Number.isInteger(day) || day < 0 || day > 6)
+  ) {
+    throw new Error('workingDays must list weekdays from 0 (Sunday) to 6 (Saturday)')
+  }
+
+  return {
+    id: input.id ? String(input.id) : DEFAULT_WORK_CALENDAR.id,
+    name: input.name || DEFAULT_WORK_CALENDAR.name,
+    workingDays: [...new Set(workingDays)].sort((a, b) => a - b),
+    holidays: (input.holidays || []).map(parseHoliday),
+    resourceExceptions: (input.resourceExceptions || []).map(parseResourceException),
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PROJECT_HEADER } from '@/lib/utils/projects'
+
+/**
+ * Serve /api/projects/[projectId]/<route> with the plain /api/<route>
+ *
+ * The project id travels in PROJECT_HEADER, which picks the project's data
+ * provider and files. A project header sent by the client is dropped, so
+ * only the URL decides the project.
+ */
+export function middleware(request: NextRequest) {
+  const headers = new Headers(request.headers)
+  headers.delete(PROJECT_HEADER)
+
+  const match = request.nextUrl.pathname.match(/^\/api\/projects\/([^/]+)\/(.+)$/)
+  if (!match) {
+    return NextResponse.next({ request: { headers } })
+  }
+
+  const url = request.nextUrl.clone()
+  url.pathname = `/api/${match[2]}`
+  headers.set(PROJECT_HEADER, decodeURIComponent(match[1]))
+  return NextResponse.rewrite(url, { request: { headers } })
+}
+
+export const config = {
+  matcher: '/api/:path*',
+}
@@ -9,6 +9,7 @@ export interface Task {
   owner?: string
   description?: string
   progress?: number
+  parentId?: string // Summary task this task belongs to (WBS)
   createdAt?: Date
   updatedAt?: Date
 
@@ -31,6 +32,7 @@ export interface Task {
   // UI state
   isCollapsed?: boolean
   isMilestone?: boolean
+  isSummary?: boolean // Has subtasks; dates and progress are rolled up from them
 }
 
 export interface TaskStatus {
@@ -39,8 +41,15 @@ export interface TaskStatus {
   color?: string
 }
 
+// DTO for creating statuses
+export interface CreateStatusDTO {
+  name: string
+  color?: string
+}
+
 // DTO for creating tasks
 export interface CreateTaskDTO {
+  id?: string // Keep this id, e.g. to restore a deleted task; providers that assign ids themselves may ignore it
   name: string
   startAt: Date
   endAt: Date
@@ -49,6 +58,13 @@ export interface CreateTaskDTO {
   owner?: string
   description?: string
   progress?: number
+  priority?: Task['priority']
+  tags?: string[]
+  isMilestone?: boolean
+  parentId?: string
+  dependencies?: TaskPredecessorDTO[]
+  assignments?: TaskAssignmentDTO[]
+  modifiedBy?: string
 }
 
 // DTO for updating tasks
@@ -61,6 +77,31 @@ export interface UpdateTaskDTO {
   owner?: string
   description?: string
   progress?: number
+  priority?: Task['priority'] | null // null clears the priority
+  tags?: string[] // Replaces the task's tags when set
+  isMilestone?: boolean
+  parentId?: string | null // null moves the task to the top level
+  dependencies?: TaskPredecessorDTO[] // Replaces the task's predecessors when set
+  assignments?: TaskAssignmentDTO[] // Replaces the task's resource allocations when set
+  modifiedBy?: string
+  expectedVersion?: number // Reject the update unless the task is still at this version
+}
+
+// One operation of a batch task mutation (POST /api/tasks/batch)
+export type TaskBatchOperation =
+  | { type: 'create'; data: CreateTaskDTO }
+  | { type: 'update'; id: string; data: UpdateTaskDTO }
+  | { type: 'delete'; id: string }
+
+// Outcome of one batch operation. When an operation fails, the ones before it
+// are rolled back and the ones after it are skipped.
+export interface TaskBatchResult {
+  index: number
+  type: TaskBatchOperation['type']
+  status: 'applied' | 'failed' | 'rolled_back' | 'skipped'
+  id?: string // The task's id; for creates only once applied
+  task?: Task // Saved copy after an applied create or update
+  error?: string
 }
 
 // Pagination
@@ -85,8 +126,22 @@ export interface TaskQueryParams {
   tags?: string[]
   priority?: string
   resourceId?: string
+  sortBy?: TaskSortField // Default: startAt
+  sortOrder?: 'asc' | 'desc' // Default: asc; tasks without a value come last either way
 }
 
+export type TaskSortField =
+  | 'name'
+  | 'startAt'
+  | 'endAt'
+  | 'status'
+  | 'group'
+  | 'owner'
+  | 'progress'
+  | 'priority'
+  | 'createdAt'
+  | 'updatedAt'
+
 // Task Dependencies
 export interface TaskDependency {
   id: string
@@ -96,6 +151,19 @@ export interface TaskDependency {
   lag?: number // in days
 }
 
+export type DependencyType = TaskDependency['type']
+
+// DTO for creating dependencies
+export interface CreateDependencyDTO {
+  predecessorId: string
+  successorId: string
+  type?: DependencyType // defaults to 'finish-to-start'
+  lag?: number
+}
+
+// Predecessor link given inline with a task create/update
+export type TaskPredecessorDTO = Omit<CreateDependencyDTO, 'successorId'>
+
 // Resources
 export interface Resource {
   id: string
@@ -116,6 +184,96 @@ export interface ResourceAllocation {
   endDate?: Date
 }
 
+// DTO for creating resources
+export interface CreateResourceDTO {
+  name: string
+  email?: string
+  role?: string
+  avatar?: string
+  availability?: number // defaults to 100
+  color?: string
+}
+
+export type UpdateResourceDTO = Partial<CreateResourceDTO>
+
+// DTO for creating allocations
+export interface CreateAllocationDTO {
+  taskId: string
+  resourceId: string
+  allocation?: number // defaults to 100
+  startDate?: Date
+  endDate?: Date
+}
+
+export type UpdateAllocationDTO = Partial<Pick<CreateAllocationDTO, 'allocation' | 'startDate' | 'endDate'>>
+
+// Resource assignment given inline with a task create/update
+export type TaskAssignmentDTO = Pick<CreateAllocationDTO, 'resourceId' | 'allocation'>
+
+export interface AllocationQueryParams {
+  taskId?: string
+  resourceId?: string
+}
+
+// Working Calendar
+export interface WorkCalendar {
+  id: string
+  name: string
+  workingDays: number[] // Worked weekdays, 0 = Sunday ... 6 = Saturday
+  holidays: CalendarHoliday[]
+  resourceExceptions: ResourceCalendarException[]
+}
+
+export interface CalendarHoliday {
+  date: string // YYYY-MM-DD
+  name?: string
+}
+
+// Overrides the calendar for one resource on one day (leave, or an extra working day)
+export interface ResourceCalendarException {
+  resourceId: string
+  date: string // YYYY-MM-DD
+  isWorking: boolean
+  name?: string
+}
+
+// Projects
+// A project's tasks live in a provider profile, or in a table of the active provider
+export interface Project {
+  id: string
+  name: string
+  description?: string
+  color?: string
+  profileId?: string // Configuration profile; the active configuration when not set
+  table?: string // Baserow tasks table id, MongoDB tasks collection, name of the Excel workbook or SQL database
+}
+
+// Overall span and progress of a project, shown on the portfolio page
+export interface ProjectSummary {
+  taskCount: number
+  completedCount: number
+  startAt?: Date
+  endAt?: Date
+  progress: number // 0-100, weighted by task duration
+  error?: string // Set when the project's data source could not be read
+}
+
+// Baselines
+// Point-in-time copy of the plan, compared against the live schedule
+export interface Baseline {
+  id: string
+  name: string
+  createdAt: Date
+  tasks: BaselineTask[]
+}
+
+export interface BaselineTask {
+  taskId: string
+  startAt: Date
+  endAt: Date
+  progress?: number
+}
+
 // Version Control
 export interface TaskChange {
   id: string
@@ -138,6 +296,15 @@ export interface ChangeSet {
   description?: string
 }
 
+// Query parameters of the change history (/api/history)
+export interface ChangeHistoryQueryParams {
+  taskId?: string // Change sets that touch this task
+  user?: string // Author id or name
+  from?: Date
+  to?: Date
+  limit?: number // Most recent change sets to return
+}
+
 // Filters
 export interface TaskFilter {
   search?: string
@@ -183,6 +350,17 @@ export interface Comment {
   content: string
   timestamp: Date
   parentId?: string // for threaded comments
+  mentions?: string[] // Ids of the resources @mentioned in content, filled in when read
+}
+
+// DTO for creating comments
+export interface CreateCommentDTO {
+  taskId: string
+  userId: string
+  userName: string
+  userAvatar?: string
+  content: string
+  parentId?: string // Comment being replied to, on the same task
 }
 
 export interface UserPresence {
@@ -190,11 +368,22 @@ export interface UserPresence {
   userName: string
   userAvatar?: string
   color: string
-  cursor?: { x: number; y: number }
+  cursor?: { x: number; y: number } // Timeline position: x = time in ms, y = px from the top of the task rows
   selection?: string // selected task ID
   lastSeen: Date
 }
 
+// Events pushed to open Gantt pages over /api/events
+// `origin` is the client id that caused the change, so it can skip its own echo
+// `projectId` is the project the task belongs to; not set for the default project
+export type RealtimeEvent =
+  | { type: 'task.created'; task: Task; origin?: string; projectId?: string }
+  | { type: 'task.updated'; task: Task; origin?: string; projectId?: string }
+  | { type: 'task.deleted'; taskId: string; origin?: string; projectId?: string }
+  | { type: 'presence'; presence: UserPresence[] }
+
+export type TaskRealtimeEvent = Exclude<RealtimeEvent, { type: 'presence' }>
+
 // Data Source Configuration
 export interface DataSourceConfig {
   type: 'demo' | 'baserow' | 'postgres' | 'mysql' | 'mongodb' | 'excel' | 'airtable' | 'googlesheets'
@@ -238,6 +427,15 @@ export interface FieldMapping {
   tags?: string
 }
 
+// Problem found while validating imported data
+// row is 1-based within the checked list (0 for file-level problems)
+export interface ValidationError {
+  row: number
+  field: string
+  error: string
+  value?: unknown
+}
+
 // Database Explorer
 export interface DatabaseSchema {
   name: string